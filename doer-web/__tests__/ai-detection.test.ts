@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest'
+import { analyzeForAI } from '@shared/ai-detection'
+
+const FORMULAIC = Array.from({ length: 8 }, (_, i) =>
+  `Furthermore, the results are therefore considered to be significant in section ${i + 1}.`
+).join(' ')
+
+const CASUAL =
+  "Honestly I wasn't sure what to expect when we started. The first week was rough, yeah! " +
+  "We kinda ran out of coffee, lost two notebooks and argued about the data for hours. " +
+  "Did it matter? Not really. By Friday the graphs looked okay and Priya had a joke for every bug " +
+  "she found in my code. I'd do it again, though maybe with more sleep and fewer late trains home " +
+  "after the lab closed at nine."
+
+describe('analyzeForAI', () => {
+  it('should return the same scores for the same text', () => {
+    const first = analyzeForAI(FORMULAIC)
+    const second = analyzeForAI(FORMULAIC)
+
+    expect(second.ai_probability).toBe(first.ai_probability)
+    expect(second.segments).toEqual(first.segments)
+  })
+
+  it('should score formulaic text higher than casual text', () => {
+    const formulaic = analyzeForAI(FORMULAIC)
+    const casual = analyzeForAI(CASUAL)
+
+    expect(formulaic.ai_probability).toBeGreaterThan(casual.ai_probability)
+    expect(formulaic.ai_probability + formulaic.human_probability).toBe(100)
+  })
+
+  it('should return one segment per sentence with offsets into the input', () => {
+    const input = `  ${CASUAL}`
+    const result = analyzeForAI(input)
+
+    expect(result.segments).toHaveLength(result.sentence_count!)
+    for (const segment of result.segments) {
+      expect(input.slice(segment.start_index, segment.end_index)).toBe(segment.text)
+    }
+  })
+
+  it('should classify segments by probability', () => {
+    const result = analyzeForAI(`${FORMULAIC} ${CASUAL}`)
+
+    for (const segment of result.segments) {
+      if (segment.probability >= 60) expect(segment.classification).toBe('ai_generated')
+      else if (segment.probability <= 40) expect(segment.classification).toBe('human')
+      else expect(segment.classification).toBe('mixed')
+    }
+    expect(result.segments.some((s) => s.classification === 'ai_generated')).toBe(true)
+  })
+
+  it('should be uncertain below 50 words', () => {
+    const result = analyzeForAI('This is a short sentence. It has very few words.')
+
+    expect(result.overall_verdict).toBe('uncertain')
+    expect(result.confidence_level).toBe('low')
+  })
+})
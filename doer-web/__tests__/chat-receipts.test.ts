@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest'
+import {
+  applyReceiptEvent,
+  describeReceipts,
+  indexReceipts,
+  summarizeReceipts,
+} from '@shared/chat-receipts'
+
+const DOER = 'doer-profile'
+const SUPERVISOR = 'supervisor-profile'
+const CLIENT = 'client-profile'
+
+const PARTICIPANTS = [
+  { profile_id: DOER, name: 'Asha', role: 'doer' },
+  { profile_id: SUPERVISOR, name: 'Rahul', role: 'supervisor' },
+  { profile_id: CLIENT, name: 'Priya', role: 'user' },
+]
+
+const MESSAGES = [
+  { id: 'm1', sender_id: DOER, created_at: '2026-10-19T10:00:00.000Z' },
+  { id: 'm2', sender_id: SUPERVISOR, created_at: '2026-10-19T10:05:00.000Z' },
+  { id: 'm3', sender_id: DOER, created_at: '2026-10-19T10:10:00.000Z' },
+]
+
+describe('summarizeReceipts', () => {
+  it('should be sent until a recipient has the message', () => {
+    const summary = summarizeReceipts(MESSAGES[0], {}, PARTICIPANTS)
+
+    expect(summary.status).toBe('sent')
+    expect(summary.recipients.map((r) => r.profile_id)).toEqual([SUPERVISOR, CLIENT])
+  })
+
+  it('should only be read once every recipient has read it', () => {
+    const receipts = indexReceipts([
+      { message_id: 'm1', profile_id: SUPERVISOR, delivered_at: '2026-10-19T10:01:00.000Z', read_at: '2026-10-19T10:02:00.000Z' },
+      { message_id: 'm1', profile_id: CLIENT, delivered_at: '2026-10-19T10:03:00.000Z', read_at: null },
+    ])
+
+    const summary = summarizeReceipts(MESSAGES[0], receipts, PARTICIPANTS)
+
+    expect(summary.status).toBe('delivered')
+    expect(summary.recipients.find((r) => r.profile_id === SUPERVISOR)?.status).toBe('read')
+    expect(summary.recipients.find((r) => r.profile_id === CLIENT)?.status).toBe('delivered')
+    expect(describeReceipts(summary)).toBe('Read by Rahul · Delivered to Priya')
+  })
+})
+
+describe('applyReceiptEvent', () => {
+  it('should mark messages up to the event time from other senders', () => {
+    const receipts = applyReceiptEvent({}, MESSAGES, {
+      profile_id: SUPERVISOR,
+      status: 'read',
+      at: '2026-10-19T10:06:00.000Z',
+    })
+
+    expect(receipts.m1?.[SUPERVISOR]?.read_at).toBe('2026-10-19T10:06:00.000Z')
+    // Own message and messages after the event are untouched
+    expect(receipts.m2).toBeUndefined()
+    expect(receipts.m3).toBeUndefined()
+  })
+
+  it('should keep the first delivery time when a message is read later', () => {
+    const delivered = applyReceiptEvent({}, MESSAGES, {
+      profile_id: CLIENT,
+      status: 'delivered',
+      at: '2026-10-19T10:11:00.000Z',
+    })
+    const read = applyReceiptEvent(delivered, MESSAGES, {
+      profile_id: CLIENT,
+      status: 'read',
+      at: '2026-10-19T10:20:00.000Z',
+    })
+
+    expect(read.m3?.[CLIENT]).toEqual({
+      message_id: 'm3',
+      profile_id: CLIENT,
+      delivered_at: '2026-10-19T10:11:00.000Z',
+      read_at: '2026-10-19T10:20:00.000Z',
+    })
+    // Nothing new: the same index comes back
+    expect(applyReceiptEvent(read, MESSAGES, { profile_id: CLIENT, status: 'read', at: '2026-10-19T10:20:00.000Z' })).toBe(read)
+  })
+})
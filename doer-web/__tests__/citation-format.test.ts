@@ -0,0 +1,191 @@
+import { describe, it, expect } from 'vitest'
+import {
+  detectCitationInput,
+  exportBibTeX,
+  exportRIS,
+  formatCitation,
+  parseAuthorList,
+} from '@/lib/citation-format'
+import type { Citation, CitationSource } from '@/types/database'
+
+const ACCESSED = '2024-03-05'
+
+const journal: CitationSource = {
+  type: 'journal',
+  title: 'Ocean warming and coral bleaching',
+  authors: [
+    { given: 'Jane A.', family: 'Smith' },
+    { given: 'Rahul', family: 'Kumar' },
+    { given: 'Liam', family: "O'Brien" },
+  ],
+  year: 2021,
+  month: 3,
+  day: 15,
+  container_title: 'Journal of Marine Science',
+  volume: '12',
+  issue: '3',
+  pages: '45-67',
+  doi: '10.1234/jms.2021.0045',
+}
+
+const book: CitationSource = {
+  type: 'book',
+  title: 'Introduction to Algorithms',
+  authors: [
+    { given: 'Thomas H.', family: 'Cormen' },
+    { given: 'Charles E.', family: 'Leiserson' },
+  ],
+  year: 2009,
+  edition: '3',
+  publisher: 'MIT Press',
+  place: 'Cambridge, MA',
+}
+
+const website: CitationSource = {
+  type: 'website',
+  title: 'How coral reefs recover',
+  authors: [],
+  container_title: 'Reef Watch',
+  url: 'https://reefwatch.example.org/recover',
+}
+
+describe('formatCitation', () => {
+  it('should format journal articles with volume, issue and page range', () => {
+    expect(formatCitation(journal, 'APA', ACCESSED)).toBe(
+      "Smith, J. A., Kumar, R., & O'Brien, L. (2021). Ocean warming and coral bleaching. Journal of Marine Science, 12(3), 45–67. https://doi.org/10.1234/jms.2021.0045"
+    )
+    expect(formatCitation(journal, 'Harvard', ACCESSED)).toBe(
+      "Smith, J.A., Kumar, R. and O'Brien, L. (2021) 'Ocean warming and coral bleaching', Journal of Marine Science, 12(3), pp. 45–67. Available at: https://doi.org/10.1234/jms.2021.0045."
+    )
+    expect(formatCitation(journal, 'MLA', ACCESSED)).toBe(
+      'Smith, Jane A., et al. "Ocean warming and coral bleaching." Journal of Marine Science, vol. 12, no. 3, 2021, pp. 45-67, https://doi.org/10.1234/jms.2021.0045.'
+    )
+    expect(formatCitation(journal, 'Chicago', ACCESSED)).toBe(
+      'Smith, Jane A., Rahul Kumar, and Liam O\'Brien. "Ocean warming and coral bleaching." Journal of Marine Science 12, no. 3 (2021): 45–67. https://doi.org/10.1234/jms.2021.0045.'
+    )
+    expect(formatCitation(journal, 'IEEE', ACCESSED)).toBe(
+      'J. A. Smith, R. Kumar, and L. O\'Brien, "Ocean warming and coral bleaching," Journal of Marine Science, vol. 12, no. 3, pp. 45–67, Mar. 15, 2021, doi: 10.1234/jms.2021.0045.'
+    )
+    expect(formatCitation(journal, 'Vancouver', ACCESSED)).toBe(
+      "Smith JA, Kumar R, O'Brien L. Ocean warming and coral bleaching. Journal of Marine Science. 2021;12(3):45-67. doi:10.1234/jms.2021.0045"
+    )
+  })
+
+  it('should format books with edition and publisher', () => {
+    expect(formatCitation(book, 'APA', ACCESSED)).toBe(
+      'Cormen, T. H., & Leiserson, C. E. (2009). Introduction to Algorithms (3rd ed.). MIT Press.'
+    )
+    expect(formatCitation(book, 'Harvard', ACCESSED)).toBe(
+      'Cormen, T.H. and Leiserson, C.E. (2009) Introduction to Algorithms. 3rd edn. Cambridge, MA: MIT Press.'
+    )
+    expect(formatCitation(book, 'MLA', ACCESSED)).toBe(
+      'Cormen, Thomas H., and Charles E. Leiserson. Introduction to Algorithms. 3rd ed., MIT Press, 2009.'
+    )
+    expect(formatCitation(book, 'IEEE', ACCESSED)).toBe(
+      'T. H. Cormen and C. E. Leiserson, Introduction to Algorithms, 3rd ed. Cambridge, MA: MIT Press, 2009.'
+    )
+    expect(formatCitation(book, 'Vancouver', ACCESSED)).toBe(
+      'Cormen TH, Leiserson CE. Introduction to Algorithms. 3rd ed. Cambridge, MA: MIT Press; 2009.'
+    )
+  })
+
+  it('should use n.d. and the access date for undated web pages', () => {
+    expect(formatCitation(website, 'APA', ACCESSED)).toBe(
+      'How coral reefs recover. (n.d.). Reef Watch. https://reefwatch.example.org/recover'
+    )
+    expect(formatCitation(website, 'MLA', ACCESSED)).toBe(
+      '"How coral reefs recover." Reef Watch, reefwatch.example.org/recover. Accessed 5 Mar. 2024.'
+    )
+    expect(formatCitation(website, 'Vancouver', ACCESSED)).toBe(
+      'How coral reefs recover [Internet]. Reef Watch [cited 2024 Mar 5]. Available from: https://reefwatch.example.org/recover'
+    )
+  })
+
+  it('should abbreviate long author lists per style', () => {
+    const many: CitationSource = {
+      ...journal,
+      authors: Array.from({ length: 8 }, (_, i) => ({ given: 'Ann', family: `Author${i + 1}` })),
+    }
+
+    expect(formatCitation(many, 'Harvard', ACCESSED)).toMatch(/^Author1, A\. et al\. \(2021\)/)
+    expect(formatCitation(many, 'IEEE', ACCESSED)).toMatch(/^A\. Author1 et al\., "/)
+    expect(formatCitation(many, 'Vancouver', ACCESSED)).toMatch(/^Author1 A, .*Author6 A, et al\. /)
+    expect(formatCitation(many, 'APA', ACCESSED)).toContain('Author7, A., & Author8, A. (2021)')
+  })
+})
+
+describe('detectCitationInput', () => {
+  it('should recognise DOIs, ISBNs and URLs', () => {
+    expect(detectCitationInput('https://doi.org/10.1038/nature12373')).toEqual({ type: 'doi', value: '10.1038/nature12373' })
+    expect(detectCitationInput('doi: 10.1038/nature12373')).toEqual({ type: 'doi', value: '10.1038/nature12373' })
+    expect(detectCitationInput('978-0-262-03384-8')).toEqual({ type: 'isbn', value: '9780262033848' })
+    expect(detectCitationInput('0-262-03384-4')).toEqual({ type: 'isbn', value: '0262033844' })
+    expect(detectCitationInput('https://example.com/a')?.type).toBe('url')
+  })
+
+  it('should reject invalid checksums and plain text', () => {
+    expect(detectCitationInput('978-0-262-03384-9')).toBeNull()
+    expect(detectCitationInput('coral reefs')).toBeNull()
+    expect(detectCitationInput('ftp://example.com/file')).toBeNull()
+  })
+})
+
+describe('parseAuthorList', () => {
+  it('should handle both name orders and organisations', () => {
+    expect(parseAuthorList('Smith, Jane; Ludwig van Beethoven & World Health Organization')).toEqual([
+      { given: 'Jane', family: 'Smith' },
+      { given: 'Ludwig', family: 'van Beethoven' },
+      { family: 'World Health Organization' },
+    ])
+  })
+})
+
+const saved = (source: CitationSource, id: string): Citation => ({
+  id,
+  doer_id: 'doer-1',
+  url: source.url ?? null,
+  style: 'APA',
+  formatted_citation: formatCitation(source, 'APA', ACCESSED),
+  source_type: source.type,
+  title: source.title,
+  author: null,
+  publication_date: source.year ? String(source.year) : null,
+  access_date: ACCESSED,
+  metadata: source,
+  created_at: '2024-03-05T10:00:00Z',
+})
+
+describe('exportBibTeX', () => {
+  it('should write one entry per citation with unique keys', () => {
+    const bib = exportBibTeX([saved(journal, '1'), saved(journal, '2'), saved(book, '3')])
+
+    expect(bib).toContain('@article{smith2021ocean,')
+    expect(bib).toContain('@article{smith2021oceana,')
+    expect(bib).toContain('@book{cormen2009introduction,')
+    expect(bib).toContain("  author = {Smith, Jane A. and Kumar, Rahul and O'Brien, Liam}")
+    expect(bib).toContain('  pages = {45--67}')
+    expect(bib).toContain('  month = mar')
+    expect(bib).toContain('  doi = {10.1234/jms.2021.0045}')
+  })
+
+  it('should rebuild older citations without metadata from their columns', () => {
+    const legacy = { ...saved(website, '4'), metadata: null, author: 'Reef Watch Foundation', publication_date: '2019' }
+    const bib = exportBibTeX([legacy])
+
+    expect(bib).toContain('@misc{reefwatchfoundation2019coral,')
+    expect(bib).toContain('  url = {https://reefwatch.example.org/recover}')
+  })
+})
+
+describe('exportRIS', () => {
+  it('should write tagged records with split page ranges', () => {
+    const ris = exportRIS([saved(journal, '1')]).split('\r\n')
+
+    expect(ris[0]).toBe('TY  - JOUR')
+    expect(ris).toContain('AU  - Smith, Jane A.')
+    expect(ris).toContain('SP  - 45')
+    expect(ris).toContain('EP  - 67')
+    expect(ris).toContain('DA  - 2021/03/15/')
+    expect(ris).toContain('ER  - ')
+  })
+})
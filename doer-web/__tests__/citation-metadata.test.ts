@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest'
+import { readFileSync } from 'fs'
+import path from 'path'
+import {
+  CitationLookupError,
+  createFixtureFetcher,
+  isPublicUrl,
+  lookupCitationSource,
+} from '@/lib/citation-metadata'
+
+const fixture = (name: string) =>
+  readFileSync(path.join(__dirname, 'fixtures', 'citations', name), 'utf8')
+
+const fetcher = createFixtureFetcher({
+  'https://journals.example.com/jms/article/45': fixture('journal-article.html'),
+  'https://news.example.com/2023/11/library': fixture('news-article.html'),
+  'https://doi.org/10.1038/s41592-020-0848-2': fixture('doi-csl.json'),
+  'https://openlibrary.org/api/books?bibkeys=ISBN:9780262033848&format=json&jscmd=data':
+    fixture('isbn-openlibrary.json'),
+  'https://files.example.com/report.pdf': { status: 200, contentType: 'application/pdf', body: '%PDF-1.4' },
+})
+
+const ACCESSED = '2024-03-05'
+
+describe('lookupCitationSource', () => {
+  it('should read Highwire tags from a journal page', async () => {
+    const source = await lookupCitationSource('https://journals.example.com/jms/article/45', fetcher, ACCESSED)
+
+    expect(source).toEqual({
+      type: 'journal',
+      title: 'Ocean warming and coral bleaching: a twenty-year record',
+      authors: [
+        { given: 'Jane A.', family: 'Smith' },
+        { given: 'Rahul', family: 'Kumar' },
+        { given: 'Liam', family: "O'Brien" },
+      ],
+      year: 2021,
+      month: 3,
+      day: 15,
+      container_title: 'Journal of Marine Science',
+      publisher: 'Marine Press',
+      volume: '12',
+      issue: '3',
+      pages: '45-67',
+      doi: '10.1234/jms.2021.0045',
+      url: 'https://journals.example.com/jms/article/45',
+      accessed: ACCESSED,
+    })
+  })
+
+  it('should fall back to OpenGraph tags and skip author profile links', async () => {
+    const source = await lookupCitationSource('https://news.example.com/2023/11/library', fetcher, ACCESSED)
+
+    expect(source.type).toBe('article')
+    expect(source.title).toBe('City opens new library & learning centre')
+    expect(source.container_title).toBe('The Daily Chronicle')
+    expect(source.authors).toEqual([{ given: 'Maria', family: 'Lopez' }])
+    expect([source.year, source.month, source.day]).toEqual([2023, 11, 2])
+  })
+
+  it('should resolve a DOI through CSL-JSON', async () => {
+    const source = await lookupCitationSource('doi:10.1038/s41592-020-0848-2', fetcher, ACCESSED)
+
+    expect(source.type).toBe('journal')
+    expect(source.authors).toEqual([
+      { given: 'Wei', family: 'Chen' },
+      { given: 'Anna-Maria', family: 'Schmidt' },
+    ])
+    expect(source.issue).toBe('7')
+    expect(source.pages).toBe('665-672')
+    expect(source.year).toBe(2020)
+    expect(source.month).toBe(7)
+  })
+
+  it('should resolve an ISBN through Open Library', async () => {
+    const source = await lookupCitationSource('ISBN 978-0-262-03384-8', fetcher, ACCESSED)
+
+    expect(source.type).toBe('book')
+    expect(source.title).toBe('Introduction to Algorithms')
+    expect(source.authors[0]).toEqual({ given: 'Thomas H.', family: 'Cormen' })
+    expect(source.publisher).toBe('MIT Press')
+    expect(source.year).toBe(2009)
+  })
+
+  it('should reject unknown identifiers, missing records and non-HTML links', async () => {
+    await expect(lookupCitationSource('not a source', fetcher)).rejects.toBeInstanceOf(CitationLookupError)
+    await expect(lookupCitationSource('10.9999/missing', fetcher)).rejects.toThrow('DOI not found')
+    await expect(lookupCitationSource('https://files.example.com/report.pdf', fetcher)).rejects.toThrow(
+      'not a web page'
+    )
+  })
+})
+
+describe('isPublicUrl', () => {
+  it('should block internal addresses', () => {
+    expect(isPublicUrl('https://example.com/page')).toBe(true)
+    expect(isPublicUrl('http://localhost:3000')).toBe(false)
+    expect(isPublicUrl('http://127.0.0.1/admin')).toBe(false)
+    expect(isPublicUrl('http://10.0.0.5')).toBe(false)
+    expect(isPublicUrl('http://169.254.169.254/latest/meta-data')).toBe(false)
+    expect(isPublicUrl('http://[::1]/')).toBe(false)
+    expect(isPublicUrl('file:///etc/passwd')).toBe(false)
+  })
+})
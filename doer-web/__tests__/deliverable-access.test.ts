@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+import { deliverableAccess, deliverableObjectPath, deliverablePreviewKind } from '@shared/deliverable-access'
+
+describe('deliverableAccess', () => {
+  const approved = { qc_status: 'approved' }
+
+  it('should give the doer, supervisor and admins the file in any status', () => {
+    const project = { status: 'in_progress', is_paid: false }
+
+    expect(deliverableAccess('doer', project, { qc_status: 'pending' })).toBe('file')
+    expect(deliverableAccess('supervisor', project, { qc_status: 'pending' })).toBe('file')
+    expect(deliverableAccess('admin', project, { qc_status: 'rejected' })).toBe('file')
+  })
+
+  it('should only preview approved versions while the student reviews', () => {
+    const project = { status: 'delivered', is_paid: true }
+
+    expect(deliverableAccess('user', project, approved)).toBe('preview')
+    expect(deliverableAccess('user', project, { qc_status: 'pending' })).toBe('none')
+  })
+
+  it('should release the file once the project is approved and paid', () => {
+    expect(deliverableAccess('user', { status: 'completed', is_paid: true }, approved)).toBe('file')
+    expect(deliverableAccess('user', { status: 'auto_approved', is_paid: true }, approved)).toBe('file')
+    expect(deliverableAccess('user', { status: 'completed', is_paid: false }, approved)).toBe('preview')
+  })
+
+  it('should hide deliverables before delivery and after cancellation', () => {
+    expect(deliverableAccess('user', { status: 'submitted_for_qc', is_paid: true }, approved)).toBe('none')
+    expect(deliverableAccess('user', { status: 'refunded', is_paid: true }, approved)).toBe('none')
+  })
+})
+
+describe('deliverableObjectPath', () => {
+  it('should keep object paths as they are', () => {
+    expect(deliverableObjectPath('p1/1700000000000-abc.pdf')).toBe('p1/1700000000000-abc.pdf')
+  })
+
+  it('should turn legacy public URLs into object paths', () => {
+    expect(
+      deliverableObjectPath(
+        'https://x.supabase.co/storage/v1/object/public/deliverables/p1/1700000000000-abc.pdf'
+      )
+    ).toBe('p1/1700000000000-abc.pdf')
+  })
+})
+
+describe('deliverablePreviewKind', () => {
+  it('should show the pages of PDFs and images', () => {
+    expect(deliverablePreviewKind('Final Report.PDF')).toBe('pages')
+    expect(deliverablePreviewKind('diagram.jpeg')).toBe('pages')
+  })
+
+  it('should show only the text of other documents', () => {
+    expect(deliverablePreviewKind('essay.docx')).toBe('text')
+    expect(deliverablePreviewKind('notes')).toBe('text')
+  })
+})
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest'
+import { EMPTY_EARNINGS_BALANCE, toEarningsBalance } from '@shared/earnings-ledger'
+
+describe('toEarningsBalance', () => {
+  it('should read the balances returned by the RPC', () => {
+    const balance = toEarningsBalance({
+      available: 1250.5,
+      pending: '800.00',
+      released: 2000.5,
+      withdrawn: 750,
+    })
+
+    expect(balance).toEqual({
+      available: 1250.5,
+      pending: 800,
+      released: 2000.5,
+      withdrawn: 750,
+    })
+  })
+
+  it('should round to paise', () => {
+    expect(toEarningsBalance({ available: 10.005, pending: 0.1 + 0.2 }).pending).toBe(0.3)
+  })
+
+  it('should count missing or malformed fields as zero', () => {
+    expect(toEarningsBalance({ available: 'n/a', pending: null })).toEqual(EMPTY_EARNINGS_BALANCE)
+    expect(toEarningsBalance(null)).toEqual(EMPTY_EARNINGS_BALANCE)
+  })
+
+  it('should not share the empty balance object', () => {
+    const balance = toEarningsBalance(undefined)
+    balance.available = 5
+
+    expect(EMPTY_EARNINGS_BALANCE.available).toBe(0)
+  })
+})
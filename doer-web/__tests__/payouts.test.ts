@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest'
+import {
+  PAYOUT_WEEKLY_LIMIT,
+  PayoutRequestError,
+  checkPayoutAmount,
+  payoutRequestedThisWeek,
+  toPayoutRequestError,
+} from '@shared/payouts'
+
+describe('checkPayoutAmount', () => {
+  const limits = { available: 10000, requestedThisWeek: 0 }
+
+  it('should accept an amount within the balance and weekly limit', () => {
+    expect(checkPayoutAmount(2500, limits)).toBeNull()
+  })
+
+  it('should refuse amounts below the minimum', () => {
+    expect(checkPayoutAmount(499, limits)?.code).toBe('below_minimum')
+    expect(checkPayoutAmount(Number.NaN, limits)?.code).toBe('below_minimum')
+  })
+
+  it('should refuse more than the available balance', () => {
+    const refusal = checkPayoutAmount(12000, limits)
+
+    expect(refusal?.code).toBe('insufficient_balance')
+    expect(refusal?.message).toContain('10,000')
+  })
+
+  it('should refuse amounts past the weekly limit', () => {
+    const refusal = checkPayoutAmount(6000, {
+      available: 100000,
+      requestedThisWeek: PAYOUT_WEEKLY_LIMIT - 5000,
+    })
+
+    expect(refusal?.code).toBe('weekly_limit_exceeded')
+    expect(refusal?.message).toContain('5,000')
+  })
+})
+
+describe('payoutRequestedThisWeek', () => {
+  const now = new Date('2026-10-19T12:00:00Z')
+
+  it('should sum requests from the last 7 days that were not refused', () => {
+    const total = payoutRequestedThisWeek(
+      [
+        { requested_amount: 1000, status: 'pending', created_at: '2026-10-18T12:00:00Z' },
+        { requested_amount: 2000, status: 'completed', created_at: '2026-10-14T12:00:00Z' },
+        { requested_amount: 4000, status: 'rejected', created_at: '2026-10-17T12:00:00Z' },
+        { requested_amount: 8000, status: 'completed', created_at: '2026-10-11T12:00:00Z' },
+      ],
+      now
+    )
+
+    expect(total).toBe(3000)
+  })
+})
+
+describe('toPayoutRequestError', () => {
+  it('should keep the database message for known hints', () => {
+    const error = toPayoutRequestError({
+      message: 'You can request up to Rs 2000 more this week',
+      hint: 'weekly_limit_exceeded',
+    })
+
+    expect(error).toBeInstanceOf(PayoutRequestError)
+    expect(error.code).toBe('weekly_limit_exceeded')
+    expect(error.message).toBe('You can request up to Rs 2000 more this week')
+  })
+
+  it('should hide messages of unrelated errors', () => {
+    const error = toPayoutRequestError({ message: 'connection reset', code: '08006' })
+
+    expect(error.code).toBe('unknown')
+    expect(error.message).not.toContain('connection')
+  })
+})
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest'
+import {
+  ProjectTransitionError,
+  describeProjectTransitionError,
+  toProjectTransitionError,
+  unwrapProjectTransition,
+} from '@shared/project-status'
+
+describe('toProjectTransitionError', () => {
+  it('should keep the message and code of a refused move', () => {
+    const error = toProjectTransitionError({
+      message: "A project can't move from quoted to completed",
+      code: 'P0001',
+      hint: 'illegal_transition',
+      details: 'quoted -> completed',
+    })
+
+    expect(error).toBeInstanceOf(ProjectTransitionError)
+    expect(error.code).toBe('illegal_transition')
+    expect(error.message).toBe("A project can't move from quoted to completed")
+    expect(error.precondition).toBeUndefined()
+  })
+
+  it('should name the failed precondition', () => {
+    const error = toProjectTransitionError({
+      message: 'Upload the work before submitting it',
+      hint: 'precondition_failed',
+      details: 'deliverable_uploaded',
+    })
+
+    expect(error.code).toBe('precondition_failed')
+    expect(error.precondition).toBe('deliverable_uploaded')
+  })
+
+  it('should not pass through errors that are not from the state machine', () => {
+    const error = toProjectTransitionError({
+      message: 'fetch failed',
+      hint: null,
+    })
+
+    expect(error.code).toBe('unknown')
+    expect(error.message).not.toContain('fetch failed')
+  })
+})
+
+describe('unwrapProjectTransition', () => {
+  it('should return the result of an allowed move', () => {
+    const result = unwrapProjectTransition({
+      data: {
+        project_id: 'p1',
+        from_status: 'assigned',
+        to_status: 'in_progress',
+        actor_role: 'doer',
+        history_id: 'h1',
+      },
+      error: null,
+    })
+
+    expect(result.to_status).toBe('in_progress')
+    expect(result.actor_role).toBe('doer')
+  })
+
+  it('should throw a refused move', () => {
+    expect(() =>
+      unwrapProjectTransition({
+        data: null,
+        error: { message: "You can't move this project from paid to assigned", hint: 'role_not_allowed' },
+      })
+    ).toThrow(ProjectTransitionError)
+  })
+})
+
+describe('describeProjectTransitionError', () => {
+  it('should show state machine messages and fall back otherwise', () => {
+    const refused = new ProjectTransitionError('Assign a doer first', 'precondition_failed', 'doer_assigned')
+
+    expect(describeProjectTransitionError(refused, 'Failed')).toBe('Assign a doer first')
+    expect(describeProjectTransitionError(new Error('boom'), 'Failed')).toBe('Failed')
+  })
+})
@@ -22,6 +22,7 @@ import { Button } from '@/components/ui/button'
 import { TaskPoolList, AssignedTaskList } from '@/components/dashboard'
 import type { Project } from '@/components/dashboard'
 import { ROUTES } from '@/lib/constants'
+import { describeProjectTransitionError } from '@shared/project-status'
 import { toast } from 'sonner'
 import { cn } from '@/lib/utils'
 import {
@@ -516,7 +517,7 @@ export function DashboardClient({ initialDoer }: DashboardClientProps) {
       toast.success('Task accepted successfully!')
     } catch (error) {
       console.error('Error accepting task:', error)
-      toast.error('Failed to accept task')
+      toast.error(describeProjectTransitionError(error, 'Failed to accept task'))
     }
   }, [initialDoer?.id, poolTasks])
 
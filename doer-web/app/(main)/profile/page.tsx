@@ -18,9 +18,25 @@ import {
   SkillVerification,
 } from '@/components/profile'
 import { useAuth } from '@/hooks/useAuth'
-import { getDoerProfile } from '@/services/profile.service'
+import {
+  getDoerProfile,
+  getWallet,
+  getWalletTransactions,
+  getEarningsBalance,
+  getPayoutRequests,
+  requestPayout,
+  cancelPayoutRequest,
+} from '@/services/profile.service'
+import { payoutRequestedThisWeek, type PayoutMethod } from '@shared/payouts'
 import { toast } from 'sonner'
-import type { Profile, Doer, DoerStats } from '@/types/database'
+import type {
+  Profile,
+  Doer,
+  DoerStats,
+  Wallet,
+  WalletTransaction,
+  PayoutRequestWithPayout,
+} from '@/types/database'
 
 /**
  * Profile Page - Redesigned with Premium Blue Theme
@@ -43,6 +59,11 @@ export default function ProfilePage() {
   const [profile, setProfile] = useState<Profile | null>(null)
   const [doer, setDoer] = useState<Doer | null>(null)
   const [stats, setStats] = useState<DoerStats | null>(null)
+  const [wallet, setWallet] = useState<Wallet | null>(null)
+  const [transactions, setTransactions] = useState<WalletTransaction[]>([])
+  const [payoutRequests, setPayoutRequests] = useState<PayoutRequestWithPayout[]>([])
+  const [pendingEarnings, setPendingEarnings] = useState(0)
+  const [isPaymentsLoading, setIsPaymentsLoading] = useState(false)
 
   /**
    * Load profile data from Supabase
@@ -71,6 +92,65 @@ export default function ProfilePage() {
     }
   }, [user?.id, loadProfile])
 
+  /**
+   * Load wallet, transactions and payout requests for the payments tab
+   */
+  const loadPayments = useCallback(async () => {
+    if (!user?.id) return
+
+    setIsPaymentsLoading(true)
+    try {
+      const [walletData, requests, balance] = await Promise.all([
+        getWallet(user.id),
+        getPayoutRequests(user.id),
+        getEarningsBalance(),
+      ])
+      setWallet(walletData)
+      setPayoutRequests(requests)
+      setPendingEarnings(balance.pending)
+      setTransactions(walletData ? await getWalletTransactions(walletData.id, { limit: 50 }) : [])
+    } catch (error) {
+      console.error('Error loading payments:', error)
+      toast.error('Failed to load payments')
+    } finally {
+      setIsPaymentsLoading(false)
+    }
+  }, [user?.id])
+
+  /** Load payments when the payments tab opens */
+  useEffect(() => {
+    if (activeTab === 'payments') {
+      loadPayments()
+    }
+  }, [activeTab, loadPayments])
+
+  /** Submit a payout request; errors are shown in the payout dialog */
+  const handleRequestPayout = useCallback(
+    async (amount: number, method: PayoutMethod) => {
+      if (!user?.id) return
+      const result = await requestPayout(user.id, amount, method)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to request payout')
+      }
+      await loadPayments()
+    },
+    [user?.id, loadPayments]
+  )
+
+  /** Cancel a payout request still waiting for review */
+  const handleCancelPayout = useCallback(
+    async (requestId: string) => {
+      const result = await cancelPayoutRequest(requestId)
+      if (!result.success) {
+        toast.error(result.error || 'Failed to cancel payout request')
+        return
+      }
+      toast.success('Payout request cancelled')
+      await loadPayments()
+    },
+    [loadPayments]
+  )
+
   /** Calculate profile completion percentage */
   const getProfileCompletion = (profile: Profile, doer: Doer): number => {
     const completionFields = [
@@ -218,8 +298,22 @@ export default function ProfilePage() {
                   transition={{ duration: 0.3 }}
                   className="space-y-6"
                 >
-                  <RequestPayout doer={doer} />
-                  <PaymentHistory />
+                  {wallet && (
+                    <RequestPayout
+                      wallet={wallet}
+                      doer={doer}
+                      requestedThisWeek={payoutRequestedThisWeek(payoutRequests)}
+                      onRequestPayout={handleRequestPayout}
+                    />
+                  )}
+                  <PaymentHistory
+                    transactions={transactions}
+                    balance={wallet ? wallet.balance - wallet.locked_amount : 0}
+                    pendingBalance={pendingEarnings}
+                    payoutRequests={payoutRequests}
+                    onCancelPayout={handleCancelPayout}
+                    isLoading={isPaymentsLoading}
+                  />
                 </motion.div>
               )}
 
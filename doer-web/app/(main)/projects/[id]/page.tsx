@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
 import { useParams, useRouter } from 'next/navigation'
 import dynamic from 'next/dynamic'
 import { ArrowLeft, Loader2 } from 'lucide-react'
@@ -36,7 +36,16 @@ import {
   unsubscribeFromMessages,
   joinChatRoom,
   markMessagesAsRead,
+  getMessageReceipts,
+  getReceiptParticipants,
 } from '@/services/chat.service'
+import {
+  applyReceiptEvent,
+  indexReceipts,
+  type ReceiptIndex,
+  type ReceiptParticipant,
+} from '@shared/chat-receipts'
+import { describeProjectTransitionError } from '@shared/project-status'
 import { toast } from 'sonner'
 import type {
   Project,
@@ -63,6 +72,9 @@ export default function ProjectWorkspacePage() {
   const [deliverables, setDeliverables] = useState<ProjectDeliverable[]>([])
   const [revisions, setRevisions] = useState<ProjectRevision[]>([])
   const [messages, setMessages] = useState<ChatMessage[]>([])
+  const [receipts, setReceipts] = useState<ReceiptIndex>({})
+  const [participants, setParticipants] = useState<ReceiptParticipant[]>([])
+  const messagesRef = useRef<ChatMessage[]>([])
   const [chatRoomId, setChatRoomId] = useState<string | null>(null)
   const [isChatLoading, setIsChatLoading] = useState(false)
   const [isChatSending, setIsChatSending] = useState(false)
@@ -100,13 +112,19 @@ export default function ProjectWorkspacePage() {
         const room = await getOrCreateProjectChatRoom(projectId)
         setChatRoomId(room.id)
 
-        // Join chat room if doer is available
+        // Join chat room if doer is available (participants are profiles)
         if (doer?.id && user?.id) {
-          await joinChatRoom(room.id, doer.id, 'doer')
+          await joinChatRoom(room.id, user.id, 'doer')
         }
 
         const chatMessages = await getChatMessages(room.id)
+        const [chatReceipts, chatParticipants] = await Promise.all([
+          getMessageReceipts(chatMessages.map((m) => m.id)),
+          getReceiptParticipants(room.id),
+        ])
         setMessages(chatMessages)
+        setReceipts(indexReceipts(chatReceipts))
+        setParticipants(chatParticipants)
 
         // Mark messages as read (uses authenticated user)
         await markMessagesAsRead(room.id)
@@ -128,17 +146,28 @@ export default function ProjectWorkspacePage() {
     loadProject()
   }, [loadProject])
 
-  /** Subscribe to real-time messages */
+  /** Latest messages for applying receipt broadcasts */
+  useEffect(() => {
+    messagesRef.current = messages
+  }, [messages])
+
+  /** Subscribe to real-time messages and receipts */
   useEffect(() => {
     if (!chatRoomId) return
 
-    const newChannel = subscribeToMessages(chatRoomId, (newMessage) => {
-      setMessages((prev) => [...prev, newMessage])
-      // Mark as read if not from current user
-      if (newMessage.sender_id !== doer?.id) {
-        markMessagesAsRead(chatRoomId)
+    const newChannel = subscribeToMessages(
+      chatRoomId,
+      (newMessage) => {
+        setMessages((prev) => [...prev, newMessage])
+        // Mark as read if not from current user
+        if (newMessage.sender_id !== user?.id) {
+          markMessagesAsRead(chatRoomId)
+        }
+      },
+      (event) => {
+        setReceipts((current) => applyReceiptEvent(current, messagesRef.current, event))
       }
-    })
+    )
 
     setChannel(newChannel)
 
@@ -147,7 +176,7 @@ export default function ProjectWorkspacePage() {
         unsubscribeFromMessages(newChannel)
       }
     }
-  }, [chatRoomId, doer?.id])
+  }, [chatRoomId, user?.id])
 
   /** Handle upload deliverable */
   const handleUploadDeliverable = useCallback(async (uploadedFiles: File[]) => {
@@ -173,10 +202,10 @@ export default function ProjectWorkspacePage() {
     try {
       const updatedProject = await submitProject(projectId)
       setProject(updatedProject)
-      toast.success('Project submitted for review')
+      toast.success('Project submitted for QC')
     } catch (error) {
       console.error('Error submitting project:', error)
-      toast.error('Failed to submit project')
+      toast.error(describeProjectTransitionError(error, 'Failed to submit project'))
     }
   }, [projectId])
 
@@ -188,7 +217,7 @@ export default function ProjectWorkspacePage() {
       toast.success('Project started')
     } catch (error) {
       console.error('Error starting project:', error)
-      toast.error('Failed to start project')
+      toast.error(describeProjectTransitionError(error, 'Failed to start project'))
     }
   }, [projectId])
 
@@ -206,7 +235,7 @@ export default function ProjectWorkspacePage() {
       // Message will be added via real-time subscription
     } catch (error) {
       console.error('Error sending message:', error)
-      toast.error('Failed to send message')
+      toast.error(error instanceof Error ? error.message : 'Failed to send message')
     } finally {
       setIsChatSending(false)
     }
@@ -226,7 +255,7 @@ export default function ProjectWorkspacePage() {
       // Message will be added via real-time subscription
     } catch (error) {
       console.error('Error sending file:', error)
-      toast.error('Failed to send file')
+      toast.error(error instanceof Error ? error.message : 'Failed to send file')
     } finally {
       setIsChatSending(false)
     }
@@ -243,7 +272,7 @@ export default function ProjectWorkspacePage() {
       toast.success('Revision started')
     } catch (error) {
       console.error('Error starting revision:', error)
-      toast.error('Failed to start revision')
+      toast.error(describeProjectTransitionError(error, 'Failed to start revision'))
     }
   }, [projectId])
 
@@ -309,8 +338,10 @@ export default function ProjectWorkspacePage() {
         deliverables={deliverables}
         revisions={revisions}
         messages={messages}
+        receipts={receipts}
+        participants={participants}
         chatRoomId={chatRoomId || ''}
-        currentUserId={doer?.id || ''}
+        currentUserId={user?.id || ''}
         currentUserName={user?.email || 'You'}
         isLoading={isLoading}
         isChatLoading={isChatLoading}
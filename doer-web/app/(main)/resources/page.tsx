@@ -16,10 +16,19 @@ import {
   TrainingCenter,
   CitationBuilder,
   FormatTemplates,
+  AIReportGenerator,
 } from '@/components/resources'
-import { getTrainingModules, getTrainingProgress, getCitationHistory } from '@/services/resources.service'
+import {
+  getTrainingModules,
+  getTrainingProgress,
+  getCitationHistory,
+  checkAIContent,
+  lookupCitation,
+  saveCitation,
+} from '@/services/resources.service'
+import { getProjectsByCategory } from '@/services/project.service'
 import { useAuth } from '@/hooks/useAuth'
-import type { TrainingModule, TrainingProgress, Citation } from '@/types/database'
+import type { TrainingModule, TrainingProgress, Citation, Project } from '@/types/database'
 
 /** Resource view types */
 type ResourceView = 'grid' | 'training-center' | 'ai-report' | 'citation-builder' | 'templates'
@@ -31,10 +40,6 @@ type ResourceStatCardProps = {
   tone: 'cool' | 'fresh' | 'warm'
 }
 
-type SimpleToolProps = {
-  onBack: () => void
-}
-
 /**
  * Small stat card for the resources hero.
  */
@@ -122,30 +127,6 @@ function LearningPulseCard({ completed, total, mandatory }: { completed: number;
   )
 }
 
-/**
- * Temporary AI report generator panel.
- */
-function AIReportGenerator({ onBack }: SimpleToolProps) {
-  return (
-    <div className="rounded-[28px] bg-white/85 p-6 shadow-[0_24px_60px_rgba(30,58,138,0.12)]">
-      <div className="flex items-center justify-between">
-        <div>
-          <p className="text-xs font-semibold uppercase tracking-[0.25em] text-slate-400">AI Report</p>
-          <h2 className="text-2xl font-semibold text-slate-900">AI Report Generator</h2>
-          <p className="text-sm text-slate-500">This tool is temporarily unavailable.</p>
-        </div>
-        <Button
-          variant="outline"
-          onClick={onBack}
-          className="rounded-full border-white/80 bg-white/85"
-        >
-          Back to resources
-        </Button>
-      </div>
-    </div>
-  )
-}
-
 /**
  * Resources page
  * Professional hub for all doer tools and resources
@@ -157,6 +138,7 @@ export default function ResourcesPage() {
   const [trainingModules, setTrainingModules] = useState<TrainingModule[]>([])
   const [trainingProgress, setTrainingProgress] = useState<TrainingProgress[]>([])
   const [citationHistory, setCitationHistory] = useState<Citation[]>([])
+  const [activeProjects, setActiveProjects] = useState<Project[]>([])
 
   /** Load initial data */
   useEffect(() => {
@@ -167,12 +149,14 @@ export default function ResourcesPage() {
         setTrainingModules(modules)
 
         if (doer?.id) {
-          const [progress, citations] = await Promise.all([
+          const [progress, citations, projects] = await Promise.all([
             getTrainingProgress(doer.id),
             getCitationHistory(doer.id),
+            getProjectsByCategory(doer.id, 'active'),
           ])
           setTrainingProgress(progress)
           setCitationHistory(citations)
+          setActiveProjects(projects)
         }
       } catch (error) {
         console.error('Error loading resources data:', error)
@@ -236,6 +220,17 @@ export default function ResourcesPage() {
     // TODO: Implement actual download tracking
   }
 
+  /** Save a citation to history */
+  const handleSaveCitation = async (citation: Omit<Citation, 'id' | 'doer_id' | 'created_at'>) => {
+    if (!doer?.id) return
+    try {
+      const saved = await saveCitation(doer.id, citation)
+      setCitationHistory((prev) => [saved, ...prev])
+    } catch (error) {
+      console.error('Error saving citation:', error)
+    }
+  }
+
   /** Back to grid */
   const handleBack = () => {
     setCurrentView('grid')
@@ -384,7 +379,11 @@ export default function ResourcesPage() {
               animate={{ opacity: 1, x: 0 }}
               exit={{ opacity: 0, x: -20 }}
             >
-              <AIReportGenerator onBack={handleBack} />
+              <AIReportGenerator
+                onCheck={checkAIContent}
+                projects={activeProjects}
+                onBack={handleBack}
+              />
             </motion.div>
           )}
 
@@ -397,6 +396,8 @@ export default function ResourcesPage() {
             >
               <CitationBuilder
                 history={citationHistory}
+                onLookup={lookupCitation}
+                onSave={handleSaveCitation}
                 onBack={handleBack}
               />
             </motion.div>
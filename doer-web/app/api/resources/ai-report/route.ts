@@ -0,0 +1,117 @@
+import { NextResponse } from 'next/server'
+import { analyzeForAI } from '@shared/ai-detection'
+import { extractDocumentText, SUPPORTED_DOCUMENT_FORMATS } from '@shared/document-text'
+import { createClient } from '@/lib/supabase/server'
+import { validateFile } from '@/lib/file-validation'
+import type { AIReportBreakdown } from '@/types/database'
+
+/** Largest file accepted for a self-check (5MB) */
+const MAX_CHECK_FILE_SIZE = 5 * 1024 * 1024
+
+/** Minimum words for a meaningful score */
+const MIN_WORDS = 50
+
+/** Sentence scores kept on the stored report */
+const MAX_STORED_SEGMENTS = 300
+
+/**
+ * POST /api/resources/ai-report
+ * Runs the shared AI analyzer on pasted text or an uploaded file and stores
+ * the result as a self-check in ai_reports. Supervisors see the same scores
+ * for the same text in QC.
+ * Body (multipart): `text` or `file`, optional `projectId`.
+ */
+export async function POST(request: Request) {
+  const supabase = await createClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+  }
+
+  const { data: doer } = await supabase
+    .from('doers')
+    .select('id')
+    .eq('profile_id', user.id)
+    .single()
+
+  if (!doer) {
+    return NextResponse.json({ error: 'Doer profile not found' }, { status: 403 })
+  }
+
+  const formData = await request.formData()
+  const file = formData.get('file')
+  const projectId = formData.get('projectId')?.toString() || null
+
+  let text: string | null
+  let fileName: string | null = null
+
+  if (file instanceof File) {
+    const validation = validateFile(file)
+    if (!validation.valid) {
+      return NextResponse.json({ error: validation.error }, { status: 400 })
+    }
+    if (file.size > MAX_CHECK_FILE_SIZE) {
+      return NextResponse.json({ error: 'File size exceeds maximum allowed (5MB)' }, { status: 400 })
+    }
+
+    fileName = file.name
+    text = extractDocumentText(Buffer.from(await file.arrayBuffer()), file.name, file.type)
+    if (!text?.trim()) {
+      return NextResponse.json(
+        { error: `Could not read text from this file. Supported formats: ${SUPPORTED_DOCUMENT_FORMATS}` },
+        { status: 422 }
+      )
+    }
+  } else {
+    text = formData.get('text')?.toString() ?? ''
+  }
+
+  const result = analyzeForAI(text, fileName ?? 'pasted-text')
+  if ((result.word_count ?? 0) < MIN_WORDS) {
+    return NextResponse.json(
+      { error: `Please provide at least ${MIN_WORDS} words for accurate analysis` },
+      { status: 400 }
+    )
+  }
+
+  if (projectId) {
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', projectId)
+      .eq('doer_id', doer.id)
+      .maybeSingle()
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+  }
+
+  const breakdown: AIReportBreakdown = {
+    ...result,
+    segments: result.segments.slice(0, MAX_STORED_SEGMENTS),
+  }
+
+  const { data: report, error } = await supabase
+    .from('ai_reports')
+    .insert({
+      doer_id: doer.id,
+      project_id: projectId,
+      checked_by_role: 'doer',
+      file_name: fileName,
+      input_text: text.substring(0, 10000), // Limit stored text
+      ai_percentage: result.ai_probability,
+      originality_percentage: result.human_probability,
+      detailed_breakdown: breakdown,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error saving AI report:', error)
+    return NextResponse.json({ error: 'Failed to save AI report' }, { status: 500 })
+  }
+
+  return NextResponse.json(report)
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { CitationLookupError, lookupCitationSource } from '@/lib/citation-metadata'
+
+/**
+ * POST /api/resources/citation
+ * Looks up citation metadata for a URL, DOI or ISBN.
+ * Runs on the server because publisher pages and metadata APIs do not allow
+ * cross-origin requests from the browser.
+ * Body (JSON): `{ input: string }`
+ */
+export async function POST(request: Request) {
+  const supabase = await createClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+  }
+
+  const body = await request.json().catch(() => null)
+  const input = typeof body?.input === 'string' ? body.input : ''
+
+  try {
+    const source = await lookupCitationSource(input)
+    return NextResponse.json(source)
+  } catch (error) {
+    if (error instanceof CitationLookupError) {
+      return NextResponse.json({ error: error.message }, { status: 422 })
+    }
+    console.error('Citation lookup failed:', error)
+    return NextResponse.json(
+      { error: 'Could not reach this source. Try again or enter the details manually.' },
+      { status: 502 }
+    )
+  }
+}
@@ -16,6 +16,8 @@ import {
   CreditCard,
   Clock,
   AlertCircle,
+  Banknote,
+  Loader2,
 } from 'lucide-react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
@@ -38,8 +40,13 @@ import {
   TableRow,
 } from '@/components/ui/table'
 import { cn } from '@/lib/utils'
+import {
+  PAYOUT_METHOD_LABELS,
+  PAYOUT_REQUEST_STATUS_LABELS,
+  type PayoutRequestStatus,
+} from '@shared/payouts'
 import { transactionTypeConfig, statusConfig, mockTransactions } from './constants'
-import type { WalletTransaction, TransactionType } from '@/types/database'
+import type { WalletTransaction, TransactionType, PayoutRequestWithPayout } from '@/types/database'
 
 /**
  * PaymentHistory component props
@@ -51,6 +58,10 @@ interface PaymentHistoryProps {
   balance?: number
   /** Pending balance */
   pendingBalance?: number
+  /** Payout requests, newest first */
+  payoutRequests?: PayoutRequestWithPayout[]
+  /** Callback to cancel a request still waiting for review */
+  onCancelPayout?: (requestId: string) => Promise<void>
   /** Loading state */
   isLoading?: boolean
   /** Callback to load more */
@@ -84,6 +95,19 @@ const formatTime = (date: string): string => {
   })
 }
 
+/**
+ * Payout request status badge colours
+ */
+const payoutStatusClassName: Record<PayoutRequestStatus, string> = {
+  pending: 'bg-sky-50 text-sky-700 border-sky-200',
+  approved: 'bg-blue-50 text-blue-700 border-blue-200',
+  processing: 'bg-indigo-50 text-indigo-700 border-indigo-200',
+  completed: 'bg-green-50 text-green-700 border-green-200',
+  rejected: 'bg-red-50 text-red-700 border-red-200',
+  failed: 'bg-red-50 text-red-700 border-red-200',
+  cancelled: 'bg-gray-50 text-gray-600 border-gray-200',
+}
+
 /**
  * Payment History component
  * Displays transaction history with filtering
@@ -92,6 +116,8 @@ export function PaymentHistory({
   transactions = mockTransactions,
   balance = 15800,
   pendingBalance = 1800,
+  payoutRequests = [],
+  onCancelPayout,
   isLoading,
   onLoadMore,
   className,
@@ -99,6 +125,18 @@ export function PaymentHistory({
   const [activeTab, setActiveTab] = useState<'all' | 'completed' | 'pending'>('all')
   const [searchQuery, setSearchQuery] = useState('')
   const [typeFilter, setTypeFilter] = useState<TransactionType | 'all'>('all')
+  const [cancellingId, setCancellingId] = useState<string | null>(null)
+
+  /** Cancel a pending payout request */
+  const handleCancelPayout = async (requestId: string) => {
+    if (!onCancelPayout) return
+    setCancellingId(requestId)
+    try {
+      await onCancelPayout(requestId)
+    } finally {
+      setCancellingId(null)
+    }
+  }
 
   /** Filter transactions based on current filters */
   const filteredTransactions = transactions.filter((tx) => {
@@ -160,6 +198,80 @@ export function PaymentHistory({
         </Card>
       </div>
 
+      {/* Payout requests */}
+      {payoutRequests.length > 0 && (
+        <Card className="w-full max-w-full overflow-hidden rounded-[28px] shadow-lg border-blue-100/60">
+          <CardHeader className="p-6 space-y-1.5">
+            <CardTitle className="text-2xl font-bold tracking-tight text-gray-900 truncate">
+              Payout Requests
+            </CardTitle>
+            <CardDescription className="text-base text-gray-600 line-clamp-2">
+              Track your withdrawals from request to payment
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-6 pt-0 space-y-3">
+            {payoutRequests.map((request) => {
+              const reason =
+                request.status === 'rejected'
+                  ? request.rejection_reason
+                  : request.status === 'failed'
+                    ? request.payout?.failure_reason
+                    : null
+              const reference = request.status === 'completed' ? request.payout?.gateway_reference : null
+
+              return (
+                <div
+                  key={request.id}
+                  className="flex flex-col gap-3 rounded-2xl border border-blue-100 bg-white p-4 shadow-sm sm:flex-row sm:items-center"
+                >
+                  <div className="h-11 w-11 flex-shrink-0 rounded-xl bg-blue-500/10 flex items-center justify-center">
+                    <Banknote className="h-5 w-5 text-blue-600" />
+                  </div>
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <p className="font-semibold text-gray-900">
+                        ₹{Number(request.approved_amount ?? request.requested_amount).toLocaleString()}
+                      </p>
+                      <Badge
+                        variant="outline"
+                        className={cn('px-2.5 py-0.5 font-medium border-2', payoutStatusClassName[request.status])}
+                      >
+                        {PAYOUT_REQUEST_STATUS_LABELS[request.status] ?? request.status}
+                      </Badge>
+                    </div>
+                    <p className="text-sm text-gray-500">
+                      {PAYOUT_METHOD_LABELS[request.payout_method]} • Requested {formatDate(request.created_at)}
+                      {request.updated_at && request.status !== 'pending' && (
+                        <> • Updated {formatDate(request.updated_at)}</>
+                      )}
+                    </p>
+                    {reason && (
+                      <p className="flex items-start gap-1.5 text-sm text-red-600">
+                        <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                        <span>{reason}</span>
+                      </p>
+                    )}
+                    {reference && <p className="text-xs text-gray-500">Reference: {reference}</p>}
+                  </div>
+                  {request.status === 'pending' && onCancelPayout && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={cancellingId === request.id}
+                      onClick={() => handleCancelPayout(request.id)}
+                      className="border-blue-200 hover:bg-blue-50 hover:text-blue-700"
+                    >
+                      {cancellingId === request.id && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                      Cancel
+                    </Button>
+                  )}
+                </div>
+              )
+            })}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Transaction history */}
       <Card className="w-full max-w-full overflow-hidden rounded-[28px] shadow-lg border-blue-100/60">
         <CardHeader className="p-6 space-y-4">
@@ -273,7 +385,7 @@ export function PaymentHistory({
                       const status = statusConfig[tx.status]
                       const TypeIcon = typeConfig.icon
                       const StatusIcon = status.icon
-                      const isCredit = tx.amount > 0
+                      const isCredit = tx.balance_after >= tx.balance_before
 
                       return (
                         <motion.tr
@@ -35,6 +35,7 @@ import {
   DialogTrigger,
 } from '@/components/ui/dialog'
 import { cn } from '@/lib/utils'
+import { checkPayoutAmount, PAYOUT_MIN_AMOUNT, PAYOUT_WEEKLY_LIMIT } from '@shared/payouts'
 import { mockWallet } from './constants'
 import type { Wallet as WalletType, Doer } from '@/types/database'
 
@@ -48,6 +49,8 @@ interface RequestPayoutProps {
   doer: Doer
   /** Minimum payout amount */
   minPayout?: number
+  /** Amount requested in the last 7 days (counts towards the weekly limit) */
+  requestedThisWeek?: number
   /** Processing fee percentage */
   processingFee?: number
   /** Callback when payout is requested */
@@ -63,7 +66,8 @@ interface RequestPayoutProps {
 export function RequestPayout({
   wallet = mockWallet,
   doer,
-  minPayout = 500,
+  minPayout = PAYOUT_MIN_AMOUNT,
+  requestedThisWeek = 0,
   processingFee = 0,
   onRequestPayout,
   className,
@@ -71,7 +75,9 @@ export function RequestPayout({
   const [isOpen, setIsOpen] = useState(false)
   const [step, setStep] = useState(1)
   const [amount, setAmount] = useState('')
-  const [paymentMethod, setPaymentMethod] = useState<'bank_transfer' | 'upi'>('bank_transfer')
+  const [paymentMethod, setPaymentMethod] = useState<'bank_transfer' | 'upi'>(
+    doer.bank_account_number || !doer.upi_id ? 'bank_transfer' : 'upi'
+  )
   const [isProcessing, setIsProcessing] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [success, setSuccess] = useState(false)
@@ -82,7 +88,10 @@ export function RequestPayout({
   const netAmount = payoutAmount - fee
   const hasBankDetails = Boolean(doer.bank_account_name && doer.bank_account_number && doer.bank_ifsc_code)
   const hasUPI = Boolean(doer.upi_id)
-  const quickAmounts = [1000, 2000, 5000, 10000].filter((amt) => amt <= availableBalance)
+  const weeklyRemaining = Math.max(PAYOUT_WEEKLY_LIMIT - requestedThisWeek, 0)
+  const quickAmounts = [1000, 2000, 5000, 10000].filter(
+    (amt) => amt <= Math.min(availableBalance, weeklyRemaining)
+  )
   const stepLabels = ['Amount', 'Method', 'Confirm']
 
   /** Validate amount */
@@ -96,8 +105,9 @@ export function RequestPayout({
       setError(`Minimum payout amount is ₹${minPayout}`)
       return false
     }
-    if (amt > availableBalance) {
-      setError('Amount exceeds available balance')
+    const refusal = checkPayoutAmount(amt, { available: availableBalance, requestedThisWeek })
+    if (refusal) {
+      setError(refusal.message)
       return false
     }
     return true
@@ -147,7 +157,7 @@ export function RequestPayout({
     setTimeout(() => {
       setStep(1)
       setAmount('')
-      setPaymentMethod('bank_transfer')
+      setPaymentMethod(hasBankDetails ? 'bank_transfer' : 'upi')
       setError(null)
       setSuccess(false)
     }, 200)
@@ -176,7 +186,7 @@ export function RequestPayout({
               <div className="flex items-center justify-center gap-2 mt-3">
                 <div className="h-1.5 w-1.5 rounded-full bg-amber-500 animate-pulse" />
                 <p className="text-sm text-blue-600/80 font-medium">
-                  ₹{wallet.locked_amount.toLocaleString()} locked (pending clearance)
+                  ₹{wallet.locked_amount.toLocaleString()} held for payouts in progress
                 </p>
               </div>
             )}
@@ -187,11 +197,18 @@ export function RequestPayout({
             <span className="font-semibold text-blue-700">₹{minPayout.toLocaleString()}</span>
           </div>
 
+          <div className="flex flex-wrap items-center justify-between gap-2 text-sm p-4 rounded-xl bg-white border border-blue-100 shadow-sm">
+            <span className="text-blue-600/70 font-medium">Left to request this week</span>
+            <span className="font-semibold text-blue-700">
+              ₹{weeklyRemaining.toLocaleString()} of ₹{PAYOUT_WEEKLY_LIMIT.toLocaleString()}
+            </span>
+          </div>
+
           <Dialog open={isOpen} onOpenChange={setIsOpen}>
             <DialogTrigger asChild>
               <Button
                 className="w-full gap-2 h-12 bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 shadow-lg shadow-blue-500/30 hover:shadow-xl hover:shadow-blue-500/40 transition-all duration-300"
-                disabled={availableBalance < minPayout || !hasBankDetails}
+                disabled={availableBalance < minPayout || (!hasBankDetails && !hasUPI)}
               >
                 <Wallet className="h-5 w-5" />
                 <span className="font-semibold">Request Payout</span>
@@ -278,11 +295,11 @@ export function RequestPayout({
             </DialogContent>
           </Dialog>
 
-          {!hasBankDetails && (
+          {!hasBankDetails && !hasUPI && (
             <Alert variant="default" className="border-amber-200 bg-gradient-to-br from-amber-50 to-amber-50/50">
               <AlertTriangle className="h-4 w-4 text-amber-600" />
               <AlertDescription className="text-amber-700 font-medium">
-                Add bank details to request payouts
+                Add bank details or a UPI ID to request payouts
               </AlertDescription>
             </Alert>
           )}
@@ -311,8 +328,9 @@ function SuccessState({ netAmount, paymentMethod, onClose }: { netAmount: number
         Payout Request Submitted!
       </DialogTitle>
       <DialogDescription className="text-base">
-        <span className="font-bold text-green-700">₹{netAmount.toLocaleString()}</span> will be credited to your{' '}
-        {paymentMethod === 'bank_transfer' ? 'bank account' : 'UPI'} within 2-3 business days.
+        <span className="font-bold text-green-700">₹{netAmount.toLocaleString()}</span> is held for this payout and will
+        be sent to your {paymentMethod === 'bank_transfer' ? 'bank account' : 'UPI'} once approved, usually within 2-3
+        business days. You can follow it in your payment history.
       </DialogDescription>
       <Button
         onClick={onClose}
@@ -36,6 +36,7 @@ export const transactionTypeConfig: Record<
   referral: { label: 'Referral Bonus', icon: ArrowDownLeft, color: 'text-purple-600', bgColor: 'bg-purple-500/10' },
   adjustment: { label: 'Adjustment', icon: RefreshCw, color: 'text-orange-600', bgColor: 'bg-orange-500/10' },
   payout: { label: 'Payout', icon: ArrowUpRight, color: 'text-red-600', bgColor: 'bg-red-500/10' },
+  withdrawal: { label: 'Withdrawal', icon: ArrowUpRight, color: 'text-red-600', bgColor: 'bg-red-500/10' },
   refund: { label: 'Refund', icon: ArrowDownLeft, color: 'text-cyan-600', bgColor: 'bg-cyan-500/10' },
   penalty: { label: 'Penalty', icon: ArrowUpRight, color: 'text-red-600', bgColor: 'bg-red-500/10' },
   tax_deduction: { label: 'Tax Deduction', icon: ArrowUpRight, color: 'text-gray-600', bgColor: 'bg-gray-500/10' },
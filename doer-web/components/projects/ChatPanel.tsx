@@ -8,16 +8,34 @@ import {
   Image as ImageIcon,
   File,
   Loader2,
+  Check,
   CheckCheck,
-  Clock,
   X,
 } from 'lucide-react'
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { ScrollArea } from '@/components/ui/scroll-area'
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from '@/components/ui/tooltip'
 import { cn } from '@/lib/utils'
 import type { ChatMessage } from '@/types/database'
+import {
+  summarizeReceipts,
+  type ReceiptIndex,
+  type ReceiptParticipant,
+  type ReceiptStatus,
+} from '@shared/chat-receipts'
+
+/** Tick labels per receipt status */
+const RECEIPT_LABELS: Record<ReceiptStatus, string> = {
+  sent: 'Sent',
+  delivered: 'Delivered',
+  read: 'Read',
+}
 
 interface ChatPanelProps {
   /** Chat room ID */
@@ -30,6 +48,10 @@ interface ChatPanelProps {
   currentUserAvatar?: string
   /** Messages to display */
   messages: ChatMessage[]
+  /** Delivery / read receipts of the messages */
+  receipts?: ReceiptIndex
+  /** Room participants, for per-participant read state */
+  participants?: ReceiptParticipant[]
   /** Loading state */
   isLoading?: boolean
   /** Sending state */
@@ -56,6 +78,8 @@ export function ChatPanel({
   currentUserName,
   currentUserAvatar,
   messages,
+  receipts = {},
+  participants = [],
   isLoading = false,
   isSending = false,
   hasMore = false,
@@ -160,6 +184,36 @@ export function ChatPanel({
     return currentDate !== previousDate
   }
 
+  /** Render sent / delivered / read ticks with each participant's state */
+  const renderReceipt = (message: ChatMessage) => {
+    const receipt = summarizeReceipts(message, receipts, participants)
+    const Icon = receipt.status === 'sent' ? Check : CheckCheck
+
+    return (
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <span
+            role="status"
+            aria-label={RECEIPT_LABELS[receipt.status]}
+            className={cn(receipt.status === 'read' ? 'text-sky-300' : 'opacity-60')}
+          >
+            <Icon className="h-3 w-3" />
+          </span>
+        </TooltipTrigger>
+        <TooltipContent side="top">
+          {receipt.recipients.length === 0
+            ? RECEIPT_LABELS[receipt.status]
+            : receipt.recipients.map((recipient) => (
+                <p key={recipient.profile_id} className="text-xs">
+                  {recipient.name}: {RECEIPT_LABELS[recipient.status]}
+                  {recipient.at && ` · ${formatTime(recipient.at)}`}
+                </p>
+              ))}
+        </TooltipContent>
+      </Tooltip>
+    )
+  }
+
   /** Render message bubble */
   const renderMessage = (message: ChatMessage, index: number) => {
     const isOwn = message.sender_id === currentUserId
@@ -268,15 +322,7 @@ export function ChatPanel({
               <span className="text-[10px] opacity-60">
                 {formatTime(message.created_at)}
               </span>
-              {isOwn && (
-                <span className="opacity-60">
-                  {(message.read_by?.length || 0) > 1 ? (
-                    <CheckCheck className="h-3 w-3" />
-                  ) : (
-                    <Clock className="h-3 w-3" />
-                  )}
-                </span>
-              )}
+              {isOwn && renderReceipt(message)}
             </div>
           </div>
         </motion.div>
@@ -39,6 +39,7 @@ import { FileUpload } from './FileUpload'
 import { ChatPanel } from './ChatPanel'
 import { RevisionList } from './RevisionBanner'
 import { getTimeRemaining, formatFileSize, getStatusColor, getQCStatusColor } from './utils'
+import type { ReceiptIndex, ReceiptParticipant } from '@shared/chat-receipts'
 import type {
   Project,
   ProjectFile,
@@ -61,6 +62,10 @@ interface WorkspaceViewProps {
   revisions: ProjectRevision[]
   /** Chat messages */
   messages: ChatMessage[]
+  /** Delivery / read receipts of the chat messages */
+  receipts?: ReceiptIndex
+  /** Chat room participants */
+  participants?: ReceiptParticipant[]
   /** Chat room ID */
   chatRoomId?: string
   /** Current user ID */
@@ -99,6 +104,8 @@ export function WorkspaceView({
   deliverables,
   revisions,
   messages,
+  receipts,
+  participants,
   chatRoomId,
   currentUserId,
   currentUserName,
@@ -538,6 +545,8 @@ export function WorkspaceView({
                 currentUserName={currentUserName}
                 currentUserAvatar={currentUserAvatar}
                 messages={messages}
+                receipts={receipts}
+                participants={participants}
                 isLoading={isChatLoading}
                 isSending={isChatSending}
                 onSendMessage={onSendMessage}
@@ -3,7 +3,7 @@
 
 /**
  * AI Report Generator component
- * Checks text for AI-generated content percentage
+ * Checks text or a document for AI-generated content percentage
  * @module components/resources/AIReportGenerator
  */
 
@@ -31,6 +31,13 @@ import { Progress } from '@/components/ui/progress'
 import { Badge } from '@/components/ui/badge'
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 import { cn } from '@/lib/utils'
 import {
   getAIStatusColor,
@@ -38,14 +45,28 @@ import {
   getAIBadgeColor,
   getAIProgressColor,
 } from './constants'
-import type { AIReport } from '@/types/database'
+import type { AIReport, Project } from '@/types/database'
+
+/** Accepted upload types (text is extracted server-side) */
+const ACCEPTED_FILE_TYPES = '.txt,.docx,.pdf'
+
+/** Largest upload accepted by the AI report API */
+const MAX_UPLOAD_SIZE = 5 * 1024 * 1024
+
+/** Select value for a check not tied to a project */
+const NO_PROJECT = 'none'
+
+/** Flagged sentences listed on the report */
+const MAX_FLAGGED_SEGMENTS = 10
 
 /**
  * AIReportGenerator component props
  */
 interface AIReportGeneratorProps {
   /** Callback when check is performed */
-  onCheck?: (text: string) => Promise<AIReport>
+  onCheck: (content: string | File, projectId?: string) => Promise<AIReport>
+  /** Active projects a check can be attached to */
+  projects?: Project[]
   /** Callback to go back */
   onBack?: () => void
   /** Additional class name */
@@ -54,58 +75,50 @@ interface AIReportGeneratorProps {
 
 /**
  * AI Report Generator component
- * Checks text for AI-generated content percentage
+ * Checks text or a document for AI-generated content percentage
  */
 export function AIReportGenerator({
   onCheck,
+  projects = [],
   onBack,
   className,
 }: AIReportGeneratorProps) {
   const [inputText, setInputText] = useState('')
+  const [file, setFile] = useState<File | null>(null)
+  const [projectId, setProjectId] = useState(NO_PROJECT)
   const [isChecking, setIsChecking] = useState(false)
   const [report, setReport] = useState<AIReport | null>(null)
   const [inputMode, setInputMode] = useState<'text' | 'file'>('text')
   const [error, setError] = useState<string | null>(null)
 
-  /** Handle text check */
+  /** Handle text or file check */
   const handleCheck = async () => {
-    if (!inputText.trim()) {
-      setError('Please enter some text to analyze')
+    const useFile = inputMode === 'file'
+
+    if (useFile && !file) {
+      setError('Please choose a file to analyze')
       return
     }
 
-    if (inputText.trim().split(/\s+/).length < 50) {
-      setError('Please enter at least 50 words for accurate analysis')
-      return
+    if (!useFile) {
+      if (!inputText.trim()) {
+        setError('Please enter some text to analyze')
+        return
+      }
+
+      if (inputText.trim().split(/\s+/).length < 50) {
+        setError('Please enter at least 50 words for accurate analysis')
+        return
+      }
     }
 
     setIsChecking(true)
     setError(null)
 
     try {
-      if (onCheck) {
-        const result = await onCheck(inputText)
-        setReport(result)
-      } else {
-        await new Promise((resolve) => setTimeout(resolve, 2000))
-        const aiPercentage = Math.floor(Math.random() * 40)
-        setReport({
-          id: 'demo-' + Date.now(),
-          doer_id: 'demo',
-          project_id: null,
-          input_text: inputText,
-          file_url: null,
-          ai_percentage: aiPercentage,
-          originality_percentage: 100 - aiPercentage,
-          detailed_breakdown: {
-            total_words: inputText.split(/\s+/).length,
-            sentences_analyzed: inputText.split(/[.!?]+/).length,
-            ai_patterns_detected: Math.floor(aiPercentage / 10),
-            confidence_score: 0.85 + Math.random() * 0.15,
-          },
-          created_at: new Date().toISOString(),
-        })
-      }
+      const content = useFile && file ? file : inputText
+      const result = await onCheck(content, projectId === NO_PROJECT ? undefined : projectId)
+      setReport(result)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to analyze text')
     } finally {
@@ -113,22 +126,24 @@ export function AIReportGenerator({
     }
   }
 
-  /** Handle file upload */
+  /** Handle file selection */
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0]
-    if (!file) return
+    const selected = e.target.files?.[0]
+    if (!selected) return
 
-    const reader = new FileReader()
-    reader.onload = (event) => {
-      const content = event.target?.result as string
-      setInputText(content)
+    if (selected.size > MAX_UPLOAD_SIZE) {
+      setError('File size exceeds maximum allowed (5MB)')
+      return
     }
-    reader.readAsText(file)
+
+    setError(null)
+    setFile(selected)
   }
 
   /** Reset form */
   const handleReset = () => {
     setInputText('')
+    setFile(null)
     setReport(null)
     setError(null)
   }
@@ -143,11 +158,14 @@ export function AIReportGenerator({
 ---
 AI Content: ${report.ai_percentage}%
 Original Content: ${report.originality_percentage}%
-Words Analyzed: ${report.detailed_breakdown?.total_words || 'N/A'}
+Words Analyzed: ${report.detailed_breakdown?.word_count ?? 'N/A'}
 Generated: ${new Date(report.created_at).toLocaleString()}`
     navigator.clipboard.writeText(text)
   }
 
+  const flaggedSegments =
+    report?.detailed_breakdown?.segments.filter((segment) => segment.classification === 'ai_generated') ?? []
+
   return (
     <div className={cn('space-y-6', className)}>
       <div className="rounded-[28px] bg-white/85 p-6 shadow-[0_24px_60px_rgba(30,58,138,0.12)]">
@@ -188,6 +206,23 @@ Generated: ${new Date(report.created_at).toLocaleString()}`
                 <CardDescription>Enter or upload the content you want to analyze.</CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
+                {projects.length > 0 && (
+                  <Select value={projectId} onValueChange={setProjectId}>
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Attach to a project" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_PROJECT}>Not for a specific project</SelectItem>
+                      {projects.map((project) => (
+                        <SelectItem key={project.id} value={project.id}>
+                          {project.project_number ? `${project.project_number} · ` : ''}
+                          {project.title}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+
                 <Tabs value={inputMode} onValueChange={(v) => setInputMode(v as 'text' | 'file')}>
                   <TabsList className="grid w-full grid-cols-2 max-w-xs h-11 rounded-full bg-white/85 p-1 shadow-[0_10px_22px_rgba(30,58,138,0.08)]">
                     <TabsTrigger value="text" className="gap-2 rounded-full text-sm">
@@ -216,11 +251,11 @@ Generated: ${new Date(report.created_at).toLocaleString()}`
                         Drop your file here or click to browse
                       </p>
                       <p className="text-xs text-slate-500 mb-4">
-                        Supported: TXT, DOC, DOCX (Max 5MB)
+                        Supported: TXT, DOCX, PDF (Max 5MB)
                       </p>
                       <input
                         type="file"
-                        accept=".txt,.doc,.docx"
+                        accept={ACCEPTED_FILE_TYPES}
                         onChange={handleFileUpload}
                         className="hidden"
                         id="file-upload"
@@ -234,19 +269,24 @@ Generated: ${new Date(report.created_at).toLocaleString()}`
                       </Button>
                     </div>
 
-                    {inputText && (
-                      <div className="mt-4 p-4 bg-slate-50/80 rounded-2xl">
-                        <p className="text-sm font-medium mb-2">File Content Preview</p>
-                        <p className="text-sm text-slate-500 line-clamp-3">
-                          {inputText.substring(0, 500)}...
-                        </p>
+                    {file && (
+                      <div className="mt-4 p-4 bg-slate-50/80 rounded-2xl flex items-center gap-3">
+                        <FileText className="h-5 w-5 text-[#4F6CF7]" />
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium truncate">{file.name}</p>
+                          <p className="text-xs text-slate-500">{(file.size / 1024).toFixed(0)} KB</p>
+                        </div>
                       </div>
                     )}
                   </TabsContent>
                 </Tabs>
 
                 <div className="flex items-center justify-between text-sm text-slate-500">
-                  <span>Words: {inputText.trim().split(/\s+/).filter(Boolean).length}</span>
+                  {inputMode === 'text' ? (
+                    <span>Words: {inputText.trim().split(/\s+/).filter(Boolean).length}</span>
+                  ) : (
+                    <span>Text is extracted from your file</span>
+                  )}
                   <span>Minimum: 50 words</span>
                 </div>
 
@@ -258,12 +298,12 @@ Generated: ${new Date(report.created_at).toLocaleString()}`
                 )}
 
                 <div className="flex items-center justify-end gap-2">
-                  <Button variant="outline" onClick={handleReset} disabled={!inputText || isChecking}>
+                  <Button variant="outline" onClick={handleReset} disabled={(!inputText && !file) || isChecking}>
                     Clear
                   </Button>
                   <Button
                     onClick={handleCheck}
-                    disabled={isChecking || !inputText.trim()}
+                    disabled={isChecking || (inputMode === 'file' ? !file : !inputText.trim())}
                     className="gap-2 rounded-full bg-gradient-to-r from-[#5A7CFF] via-[#5B86FF] to-[#49C5FF] px-5 text-sm font-semibold text-white shadow-[0_16px_35px_rgba(91,124,255,0.35)]"
                   >
                     {isChecking ? (
@@ -296,6 +336,8 @@ Generated: ${new Date(report.created_at).toLocaleString()}`
                   <p className="text-base font-semibold text-slate-900">Originality insights in seconds</p>
                   <p className="text-sm text-slate-500">
                     We analyze sentence patterns, structure, and phrasing to estimate AI usage.
+                    Your supervisor runs the same analysis during QC, so the score you see here
+                    is the score they see.
                   </p>
                 </div>
               </Card>
@@ -371,29 +413,44 @@ Generated: ${new Date(report.created_at).toLocaleString()}`
                   <div className="flex items-center justify-between p-3 rounded-2xl border border-white/70 bg-white/80">
                     <span className="text-slate-500">Words Analyzed</span>
                     <span className="font-medium text-slate-900">
-                      {String(report.detailed_breakdown?.total_words ?? 'N/A')}
+                      {String(report.detailed_breakdown?.word_count ?? 'N/A')}
                     </span>
                   </div>
                   <div className="flex items-center justify-between p-3 rounded-2xl border border-white/70 bg-white/80">
                     <span className="text-slate-500">Sentences</span>
                     <span className="font-medium text-slate-900">
-                      {String(report.detailed_breakdown?.sentences_analyzed ?? 'N/A')}
+                      {String(report.detailed_breakdown?.sentence_count ?? 'N/A')}
                     </span>
                   </div>
                   <div className="flex items-center justify-between p-3 rounded-2xl border border-white/70 bg-white/80">
-                    <span className="text-slate-500">AI Patterns</span>
-                    <span className="font-medium text-slate-900">
-                      {String(report.detailed_breakdown?.ai_patterns_detected ?? 0)}
-                    </span>
+                    <span className="text-slate-500">Flagged Sentences</span>
+                    <span className="font-medium text-slate-900">{flaggedSegments.length}</span>
                   </div>
                   <div className="flex items-center justify-between p-3 rounded-2xl border border-white/70 bg-white/80">
                     <span className="text-slate-500">Confidence</span>
                     <span className="font-medium text-slate-900">
-                      {Math.round((Number(report.detailed_breakdown?.confidence_score) || 0) * 100)}%
+                      {report.detailed_breakdown?.confidence_level ?? 'N/A'}
                     </span>
                   </div>
                 </div>
 
+                {flaggedSegments.length > 0 && (
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium text-slate-900">Sentences to review</p>
+                    {flaggedSegments.slice(0, MAX_FLAGGED_SEGMENTS).map((segment) => (
+                      <div
+                        key={segment.id}
+                        className="flex items-start justify-between gap-3 p-3 rounded-2xl bg-[#FFF4F0]"
+                      >
+                        <p className="text-sm text-slate-700">{segment.text}</p>
+                        <Badge variant="outline" className={getAIBadgeColor(segment.probability)}>
+                          {segment.probability}%
+                        </Badge>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
                 {report.ai_percentage > 15 && (
                   <Alert className="border-[#FFE7E1] bg-[#FFF4F0]">
                     <AlertTriangle className="h-4 w-4 text-[#FF8B6A]" />
@@ -411,7 +468,7 @@ Generated: ${new Date(report.created_at).toLocaleString()}`
                     <CheckCircle2 className="h-4 w-4 text-[#4F6CF7]" />
                     <AlertTitle className="text-[#4F6CF7]">Looking Good</AlertTitle>
                     <AlertDescription>
-                      Your content appears to be primarily original. You're ready to submit.
+                      Your content appears to be primarily original. You&apos;re ready to submit.
                     </AlertDescription>
                   </Alert>
                 )}
@@ -2,11 +2,11 @@
 
 /**
  * Citation Builder component
- * Generates formatted citations from URLs in various academic styles
+ * Generates formatted citations from URLs, DOIs, ISBNs or manual details in various academic styles
  * @module components/resources/CitationBuilder
  */
 
-import { useState } from 'react'
+import { useMemo, useState } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import {
   Quote,
@@ -20,6 +20,8 @@ import {
   History,
   Loader2,
   Sparkles,
+  Download,
+  AlertTriangle,
 } from 'lucide-react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
@@ -35,18 +37,150 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
-import { referenceStyles, sourceTypes, generateCitationByStyle, type SourceTypeValue } from './constants'
-import type { ReferenceStyleType, Citation } from '@/types/database'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { referenceStyles, sourceTypes } from './constants'
+import {
+  citationToSource,
+  detectCitationInput,
+  exportBibTeX,
+  exportRIS,
+  formatCitation,
+  parseAuthorList,
+} from '@/lib/citation-format'
+import type {
+  ReferenceStyleType,
+  Citation,
+  CitationInputType,
+  CitationSource,
+  CitationSourceType,
+} from '@/types/database'
 import { cn } from '@/lib/utils'
 
+/** Manual entry form values */
+interface ManualFields {
+  type: CitationSourceType
+  title: string
+  authors: string
+  date: string
+  container: string
+  publisher: string
+  place: string
+  edition: string
+  volume: string
+  issue: string
+  pages: string
+  doi: string
+  url: string
+}
+
+const EMPTY_FIELDS: ManualFields = {
+  type: 'website',
+  title: '',
+  authors: '',
+  date: '',
+  container: '',
+  publisher: '',
+  place: '',
+  edition: '',
+  volume: '',
+  issue: '',
+  pages: '',
+  doi: '',
+  url: '',
+}
+
+/** Label for the container field by source type */
+const CONTAINER_LABELS: Record<CitationSourceType, string> = {
+  website: 'Website name',
+  article: 'Publication',
+  journal: 'Journal',
+  book: 'Series',
+  other: 'Published in',
+}
+
+const INPUT_TYPE_LABELS: Record<CitationInputType, string> = {
+  url: 'URL',
+  doi: 'DOI',
+  isbn: 'ISBN',
+}
+
+/**
+ * Build a citation source from the manual form
+ */
+function fieldsToSource(fields: ManualFields): CitationSource {
+  const [year, month, day] = (fields.date.match(/^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?/) ?? [])
+    .slice(1)
+    .map((part) => (part ? Number(part) : undefined))
+  const optional = (value: string) => value.trim() || undefined
+
+  return {
+    type: fields.type,
+    title: fields.title.trim(),
+    authors: parseAuthorList(fields.authors),
+    year,
+    month,
+    day,
+    container_title: optional(fields.container),
+    publisher: optional(fields.publisher),
+    place: optional(fields.place),
+    edition: optional(fields.edition),
+    volume: optional(fields.volume),
+    issue: optional(fields.issue),
+    pages: optional(fields.pages),
+    doi: optional(fields.doi)?.replace(/^https?:\/\/(dx\.)?doi\.org\//i, ''),
+    url: optional(fields.url),
+    accessed: new Date().toISOString().slice(0, 10),
+  }
+}
+
+/**
+ * Fill the manual form from a citation source so looked-up details can be corrected
+ */
+function sourceToFields(source: CitationSource): ManualFields {
+  const pad = (n: number) => String(n).padStart(2, '0')
+  const date = source.year
+    ? [source.year, source.month && pad(source.month), source.month && source.day && pad(source.day)]
+        .filter(Boolean)
+        .join('-')
+    : ''
+
+  return {
+    type: source.type,
+    title: source.title,
+    authors: source.authors.map((a) => (a.given ? `${a.family}, ${a.given}` : a.family)).join('; '),
+    date,
+    container: source.container_title ?? '',
+    publisher: source.publisher ?? '',
+    place: source.place ?? '',
+    edition: source.edition ?? '',
+    volume: source.volume ?? '',
+    issue: source.issue ?? '',
+    pages: source.pages ?? '',
+    doi: source.doi ?? '',
+    url: source.url ?? '',
+  }
+}
+
+/**
+ * Download text as a file
+ */
+function downloadFile(content: string, fileName: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
 /**
  * CitationBuilder component props
  */
 interface CitationBuilderProps {
   /** Citation history */
   history?: Citation[]
-  /** Callback when citation is generated */
-  onGenerate?: (url: string, style: ReferenceStyleType) => Promise<string>
+  /** Callback to look up a URL, DOI or ISBN */
+  onLookup?: (input: string) => Promise<CitationSource>
   /** Callback when citation is saved */
   onSave?: (citation: Omit<Citation, 'id' | 'doer_id' | 'created_at'>) => void
   /** Callback to go back */
@@ -57,76 +191,60 @@ interface CitationBuilderProps {
 
 /**
  * Citation Builder component
- * Generates formatted citations from URLs in various academic styles
+ * Generates formatted citations from URLs, DOIs, ISBNs or manual details in various academic styles
  */
 export function CitationBuilder({
   history = [],
-  onGenerate,
+  onLookup,
   onSave,
   onBack,
   className,
 }: CitationBuilderProps) {
-  const [url, setUrl] = useState('')
+  const [lookupInput, setLookupInput] = useState('')
   const [style, setStyle] = useState<ReferenceStyleType>('APA')
-  const [sourceType, setSourceType] = useState<SourceTypeValue | 'other'>('website')
-  const [isGenerating, setIsGenerating] = useState(false)
-  const [generatedCitation, setGeneratedCitation] = useState<string | null>(null)
-  const [citations, setCitations] = useState<string[]>([])
+  const [isLookingUp, setIsLookingUp] = useState(false)
+  const [lookupError, setLookupError] = useState<string | null>(null)
+  const [source, setSource] = useState<CitationSource | null>(null)
+  const [sources, setSources] = useState<CitationSource[]>([])
   const [copiedIndex, setCopiedIndex] = useState<number | null>(null)
   const [activeTab, setActiveTab] = useState<'generate' | 'manual' | 'history'>('generate')
+  const [fields, setFields] = useState<ManualFields>(EMPTY_FIELDS)
+
+  const detectedInput = detectCitationInput(lookupInput)
+  const generatedCitation = useMemo(() => (source ? formatCitation(source, style) : null), [source, style])
+  const citations = useMemo(() => sources.map((s) => formatCitation(s, style)), [sources, style])
 
-  const [manualTitle, setManualTitle] = useState('')
-  const [manualAuthor, setManualAuthor] = useState('')
-  const [manualYear, setManualYear] = useState('')
-  const [manualPublisher, setManualPublisher] = useState('')
+  /** Update one manual form field */
+  const setField = (name: keyof ManualFields, value: string) => {
+    setFields((current) => ({ ...current, [name]: value }))
+  }
 
   /**
-   * Generate citation from URL
-   * Uses external onGenerate callback if provided, otherwise generates locally
+   * Look up a URL, DOI or ISBN
+   * Fills the manual form with the result so details can be corrected
    */
-  const handleGenerate = async () => {
-    if (!url.trim()) return
+  const handleLookup = async () => {
+    if (!detectedInput || !onLookup) return
 
-    setIsGenerating(true)
+    setIsLookingUp(true)
+    setLookupError(null)
     try {
-      let citation: string
-
-      if (onGenerate) {
-        citation = await onGenerate(url, style)
-      } else {
-        await new Promise((resolve) => setTimeout(resolve, 1000))
-        const domain = new URL(url).hostname.replace('www.', '')
-        const date = new Date().toLocaleDateString('en-US', {
-          year: 'numeric',
-          month: 'long',
-          day: 'numeric',
-        })
-        citation = generateCitationByStyle(style, { domain, url, date })
-      }
-
-      setGeneratedCitation(citation)
+      const result = await onLookup(lookupInput)
+      setSource(result)
+      setFields(sourceToFields(result))
     } catch (error) {
-      console.error('Error generating citation:', error)
+      setLookupError(error instanceof Error ? error.message : 'Citation lookup failed')
     } finally {
-      setIsGenerating(false)
+      setIsLookingUp(false)
     }
   }
 
   /**
-   * Generate manual citation from form fields
-   * Uses shared citation generator utility
+   * Generate citation from the manual form
    */
   const handleGenerateManual = () => {
-    if (!manualTitle.trim()) return
-
-    const citation = generateCitationByStyle(style, {
-      title: manualTitle,
-      author: manualAuthor || undefined,
-      year: manualYear || undefined,
-      publisher: manualPublisher || undefined,
-    })
-
-    setGeneratedCitation(citation)
+    if (!fields.title.trim()) return
+    setSource(fieldsToSource(fields))
   }
 
   /**
@@ -134,25 +252,23 @@ export function CitationBuilder({
    * Saves citation and resets form fields
    */
   const addToList = () => {
-    if (generatedCitation && !citations.includes(generatedCitation)) {
-      setCitations([...citations, generatedCitation])
-      onSave?.({
-        url: url || null,
-        style,
-        formatted_citation: generatedCitation,
-        source_type: sourceType,
-        title: manualTitle || null,
-        author: manualAuthor || null,
-        publication_date: manualYear || null,
-        access_date: new Date().toISOString(),
-      })
-      setGeneratedCitation(null)
-      setUrl('')
-      setManualTitle('')
-      setManualAuthor('')
-      setManualYear('')
-      setManualPublisher('')
-    }
+    if (!source || !generatedCitation || citations.includes(generatedCitation)) return
+
+    setSources([...sources, source])
+    onSave?.({
+      url: source.url ?? (source.doi ? `https://doi.org/${source.doi}` : null),
+      style,
+      formatted_citation: generatedCitation,
+      source_type: source.type,
+      title: source.title,
+      author: source.authors.map((a) => (a.given ? `${a.family}, ${a.given}` : a.family)).join('; ') || null,
+      publication_date: source.year ? String(source.year) : null,
+      access_date: new Date().toISOString(),
+      metadata: source,
+    })
+    setSource(null)
+    setLookupInput('')
+    setFields(EMPTY_FIELDS)
   }
 
   /**
@@ -171,7 +287,7 @@ export function CitationBuilder({
    * @param index - Index of citation to remove
    */
   const removeCitation = (index: number) => {
-    setCitations(citations.filter((_, i) => i !== index))
+    setSources(sources.filter((_, i) => i !== index))
   }
 
   /**
@@ -185,6 +301,18 @@ export function CitationBuilder({
     setTimeout(() => setCopiedIndex(null), 2000)
   }
 
+  /**
+   * Export citation history for reference managers
+   * @param format - BibTeX (.bib) or RIS (.ris)
+   */
+  const exportHistory = (format: 'bibtex' | 'ris') => {
+    if (format === 'bibtex') {
+      downloadFile(exportBibTeX(history), 'citations.bib', 'application/x-bibtex')
+    } else {
+      downloadFile(exportRIS(history), 'citations.ris', 'application/x-research-info-systems')
+    }
+  }
+
   return (
     <div className={cn('space-y-6', className)}>
       <div className="rounded-[28px] bg-white/85 p-6 shadow-[0_24px_60px_rgba(30,58,138,0.12)]">
@@ -214,7 +342,7 @@ export function CitationBuilder({
         <Card className="border-none bg-white/85 shadow-[0_16px_35px_rgba(30,58,138,0.08)]">
           <CardHeader>
             <CardTitle>Generate Citation</CardTitle>
-            <CardDescription>Enter a URL or fill in details manually.</CardDescription>
+            <CardDescription>Look up a URL, DOI or ISBN, or fill in details manually.</CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
             <div className="space-y-2">
@@ -240,7 +368,7 @@ export function CitationBuilder({
               <TabsList className="grid w-full grid-cols-3 h-11 rounded-full bg-white/85 p-1 shadow-[0_10px_22px_rgba(30,58,138,0.08)]">
                 <TabsTrigger value="generate" className="gap-1 rounded-full">
                   <Link className="h-4 w-4" />
-                  URL
+                  Lookup
                 </TabsTrigger>
                 <TabsTrigger value="manual" className="gap-1 rounded-full">
                   <FileText className="h-4 w-4" />
@@ -253,6 +381,68 @@ export function CitationBuilder({
               </TabsList>
 
               <TabsContent value="generate" className="space-y-4 mt-4">
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="lookup">URL, DOI or ISBN</Label>
+                    {detectedInput && (
+                      <Badge variant="outline" className="text-xs">
+                        {INPUT_TYPE_LABELS[detectedInput.type]}
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    <Input
+                      id="lookup"
+                      placeholder="https://example.com/article, 10.1000/xyz or 978-0-00-000000-2"
+                      value={lookupInput}
+                      onChange={(e) => {
+                        setLookupInput(e.target.value)
+                        setLookupError(null)
+                      }}
+                      onKeyDown={(e) => e.key === 'Enter' && handleLookup()}
+                    />
+                    <Button
+                      onClick={handleLookup}
+                      disabled={!detectedInput || !onLookup || isLookingUp}
+                      className="rounded-full"
+                    >
+                      {isLookingUp ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        'Generate'
+                      )}
+                    </Button>
+                  </div>
+                  {lookupInput.trim() && !detectedInput && (
+                    <p className="text-xs text-slate-500">
+                      Enter a full web address, a DOI (10.xxxx/...) or a 10 or 13 digit ISBN.
+                    </p>
+                  )}
+                </div>
+
+                {lookupError && (
+                  <Alert variant="destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription>{lookupError}</AlertDescription>
+                  </Alert>
+                )}
+
+                {source && (
+                  <p className="text-xs text-slate-500">
+                    Details look wrong? Correct them in the{' '}
+                    <button
+                      type="button"
+                      className="font-medium text-[#4F6CF7] hover:underline"
+                      onClick={() => setActiveTab('manual')}
+                    >
+                      Manual
+                    </button>{' '}
+                    tab.
+                  </p>
+                )}
+              </TabsContent>
+
+              <TabsContent value="manual" className="space-y-4 mt-4">
                 <div className="space-y-2">
                   <Label>Source Type</Label>
                   <div className="flex gap-2 flex-wrap">
@@ -261,10 +451,10 @@ export function CitationBuilder({
                       return (
                         <Button
                           key={type.value}
-                          variant={sourceType === type.value ? 'default' : 'outline'}
+                          variant={fields.type === type.value ? 'default' : 'outline'}
                           size="sm"
                           className="gap-1 rounded-full"
-                          onClick={() => setSourceType(type.value as typeof sourceType)}
+                          onClick={() => setField('type', type.value)}
                         >
                           <Icon className="h-4 w-4" />
                           {type.label}
@@ -274,80 +464,152 @@ export function CitationBuilder({
                   </div>
                 </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="url">Source URL</Label>
-                  <div className="flex gap-2">
-                    <Input
-                      id="url"
-                      type="url"
-                      placeholder="https://example.com/article"
-                      value={url}
-                      onChange={(e) => setUrl(e.target.value)}
-                    />
-                    <Button
-                      onClick={handleGenerate}
-                      disabled={!url.trim() || isGenerating}
-                      className="rounded-full"
-                    >
-                      {isGenerating ? (
-                        <Loader2 className="h-4 w-4 animate-spin" />
-                      ) : (
-                        'Generate'
-                      )}
-                    </Button>
-                  </div>
-                </div>
-              </TabsContent>
-
-              <TabsContent value="manual" className="space-y-4 mt-4">
                 <div className="grid gap-4 sm:grid-cols-2">
-                  <div className="space-y-2">
+                  <div className="space-y-2 sm:col-span-2">
                     <Label htmlFor="title">Title *</Label>
                     <Input
                       id="title"
                       placeholder="Title of work"
-                      value={manualTitle}
-                      onChange={(e) => setManualTitle(e.target.value)}
+                      value={fields.title}
+                      onChange={(e) => setField('title', e.target.value)}
                     />
                   </div>
-                  <div className="space-y-2">
+                  <div className="space-y-2 sm:col-span-2">
                     <Label htmlFor="author">Author(s)</Label>
                     <Input
                       id="author"
-                      placeholder="Last, First M."
-                      value={manualAuthor}
-                      onChange={(e) => setManualAuthor(e.target.value)}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="year">Year</Label>
-                    <Input
-                      id="year"
-                      placeholder="2024"
-                      value={manualYear}
-                      onChange={(e) => setManualYear(e.target.value)}
+                      placeholder="Last, First M.; Last, First"
+                      value={fields.authors}
+                      onChange={(e) => setField('authors', e.target.value)}
                     />
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="publisher">Publisher/Source</Label>
+                    <Label htmlFor="date">Year or date</Label>
                     <Input
-                      id="publisher"
-                      placeholder="Publisher name"
-                      value={manualPublisher}
-                      onChange={(e) => setManualPublisher(e.target.value)}
+                      id="date"
+                      placeholder="2024 or 2024-03-05"
+                      value={fields.date}
+                      onChange={(e) => setField('date', e.target.value)}
                     />
                   </div>
+                  {fields.type !== 'book' && (
+                    <div className="space-y-2">
+                      <Label htmlFor="container">{CONTAINER_LABELS[fields.type]}</Label>
+                      <Input
+                        id="container"
+                        value={fields.container}
+                        onChange={(e) => setField('container', e.target.value)}
+                      />
+                    </div>
+                  )}
+                  {fields.type === 'book' && (
+                    <>
+                      <div className="space-y-2">
+                        <Label htmlFor="edition">Edition</Label>
+                        <Input
+                          id="edition"
+                          placeholder="2"
+                          value={fields.edition}
+                          onChange={(e) => setField('edition', e.target.value)}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="publisher">Publisher</Label>
+                        <Input
+                          id="publisher"
+                          placeholder="Publisher name"
+                          value={fields.publisher}
+                          onChange={(e) => setField('publisher', e.target.value)}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="place">Place of publication</Label>
+                        <Input
+                          id="place"
+                          placeholder="London"
+                          value={fields.place}
+                          onChange={(e) => setField('place', e.target.value)}
+                        />
+                      </div>
+                    </>
+                  )}
+                  {fields.type === 'journal' && (
+                    <>
+                      <div className="space-y-2">
+                        <Label htmlFor="volume">Volume</Label>
+                        <Input
+                          id="volume"
+                          value={fields.volume}
+                          onChange={(e) => setField('volume', e.target.value)}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="issue">Issue</Label>
+                        <Input
+                          id="issue"
+                          value={fields.issue}
+                          onChange={(e) => setField('issue', e.target.value)}
+                        />
+                      </div>
+                    </>
+                  )}
+                  {(fields.type === 'journal' || fields.type === 'book') && (
+                    <>
+                      <div className="space-y-2">
+                        <Label htmlFor="pages">Pages</Label>
+                        <Input
+                          id="pages"
+                          placeholder="45-67"
+                          value={fields.pages}
+                          onChange={(e) => setField('pages', e.target.value)}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="doi">DOI</Label>
+                        <Input
+                          id="doi"
+                          placeholder="10.1000/xyz123"
+                          value={fields.doi}
+                          onChange={(e) => setField('doi', e.target.value)}
+                        />
+                      </div>
+                    </>
+                  )}
+                  {(fields.type === 'website' || fields.type === 'article' || fields.type === 'other') && (
+                    <div className="space-y-2 sm:col-span-2">
+                      <Label htmlFor="source-url">URL</Label>
+                      <Input
+                        id="source-url"
+                        type="url"
+                        placeholder="https://example.com/article"
+                        value={fields.url}
+                        onChange={(e) => setField('url', e.target.value)}
+                      />
+                    </div>
+                  )}
                 </div>
                 <Button
                   onClick={handleGenerateManual}
-                  disabled={!manualTitle.trim()}
+                  disabled={!fields.title.trim()}
                   className="w-full rounded-full"
                 >
                   Generate Citation
                 </Button>
               </TabsContent>
 
-              <TabsContent value="history" className="mt-4">
+              <TabsContent value="history" className="mt-4 space-y-3">
+                {history.length > 0 && (
+                  <div className="flex items-center justify-end gap-2">
+                    <Button variant="outline" size="sm" onClick={() => exportHistory('bibtex')} className="gap-1">
+                      <Download className="h-4 w-4" />
+                      BibTeX
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => exportHistory('ris')} className="gap-1">
+                      <Download className="h-4 w-4" />
+                      RIS
+                    </Button>
+                  </div>
+                )}
                 <ScrollArea className="h-[200px]">
                   {history.length > 0 ? (
                     <div className="space-y-2">
@@ -355,7 +617,11 @@ export function CitationBuilder({
                         <div
                           key={citation.id}
                           className="p-3 rounded-2xl border border-white/70 bg-white/80 text-sm cursor-pointer hover:bg-white"
-                          onClick={() => setGeneratedCitation(citation.formatted_citation)}
+                          onClick={() => {
+                            const saved = citationToSource(citation)
+                            setSource(saved)
+                            setFields(sourceToFields(saved))
+                          }}
                         >
                           <div className="flex items-center justify-between mb-1">
                             <Badge variant="outline" className="text-xs">
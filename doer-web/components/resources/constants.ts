@@ -176,50 +176,6 @@ export const formatDuration = (minutes: number | null): string => {
   return mins > 0 ? `${hours}h ${mins}m` : `${hours}h`
 }
 
-/**
- * Generate citation based on style
- * @param style - Reference style
- * @param data - Citation data
- * @returns Formatted citation string
- */
-export const generateCitationByStyle = (
-  style: ReferenceStyleType,
-  data: {
-    domain?: string
-    url?: string
-    date?: string
-    title?: string
-    author?: string
-    year?: string
-    publisher?: string
-  }
-): string => {
-  const { domain = '', url = '', date = '', title = 'Title of page', author = 'Unknown Author', year = 'n.d.', publisher = '' } = data
-
-  switch (style) {
-    case 'APA':
-      if (url) return `${domain}. (n.d.). ${title}. Retrieved ${date}, from ${url}`
-      return `${author}. (${year}). ${title}${publisher ? `. ${publisher}` : ''}.`
-    case 'Harvard':
-      if (url) return `${domain} (n.d.) ${title}. Available at: ${url} (Accessed: ${date}).`
-      return `${author} (${year}) ${title}${publisher ? `. ${publisher}` : ''}.`
-    case 'MLA':
-      if (url) return `"${title}." ${domain}, ${url}. Accessed ${date}.`
-      return `${author}. "${title}."${publisher ? ` ${publisher},` : ''} ${year}.`
-    case 'Chicago':
-      if (url) return `${domain}. "${title}." Accessed ${date}. ${url}.`
-      return `${author}. "${title}."${publisher ? ` ${publisher},` : ''} ${year}.`
-    case 'IEEE':
-      if (url) return `"${title}," ${domain}. [Online]. Available: ${url}. [Accessed: ${date}].`
-      return `${author}, "${title},"${publisher ? ` ${publisher},` : ''} ${year}.`
-    case 'Vancouver':
-      if (url) return `${title} [Internet]. ${domain}; [cited ${date}]. Available from: ${url}`
-      return `${author}. ${title}.${publisher ? ` ${publisher};` : ''} ${year}.`
-    default:
-      return `${domain || author}. ${url || title}. Accessed ${date || year}.`
-  }
-}
-
 /**
  * AI report status color based on percentage
  * @param percentage - AI content percentage
@@ -6,3 +6,4 @@ export { ResourcesGrid, ResourceCard } from './ResourcesGrid'
 export { TrainingCenter } from './TrainingCenter'
 export { CitationBuilder } from './CitationBuilder'
 export { FormatTemplates } from './FormatTemplates'
+export { AIReportGenerator } from './AIReportGenerator'
@@ -0,0 +1,640 @@
+/**
+ * Citation formatting utilities
+ * Renders citation sources in every ReferenceStyleType and exports them as BibTeX and RIS.
+ * Used by CitationBuilder, the citation lookup API and tests
+ */
+
+import type {
+  Citation,
+  CitationAuthor,
+  CitationInputType,
+  CitationSource,
+  ReferenceStyleType,
+} from '@/types/database'
+
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+]
+
+const MLA_MONTHS = [
+  'Jan.', 'Feb.', 'Mar.', 'Apr.', 'May', 'June',
+  'July', 'Aug.', 'Sept.', 'Oct.', 'Nov.', 'Dec.',
+]
+
+const SHORT_MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+/** Words that mark an author as an organisation rather than a person */
+const ORGANISATION_PATTERN =
+  /\b(university|organi[sz]ation|institute|association|society|department|ministry|agency|council|foundation|committee|corporation|company|group|press|inc|ltd|llc|bureau|office|centre|center)\b/i
+
+const DOI_PATTERN = /^(?:https?:\/\/(?:dx\.)?doi\.org\/|doi:\s*)?(10\.\d{4,9}\/\S+)$/i
+
+/**
+ * Detect what kind of identifier a lookup input is
+ * @param input - URL, DOI (bare, doi: or doi.org link) or ISBN-10/13
+ * @returns Input type and normalized value, or null if unrecognized
+ */
+export function detectCitationInput(input: string): { type: CitationInputType; value: string } | null {
+  const value = input.trim()
+  if (!value) return null
+
+  const doi = value.match(DOI_PATTERN)
+  if (doi) return { type: 'doi', value: doi[1] }
+
+  const isbn = value.replace(/^isbn(?:-1[03])?:?\s*/i, '').replace(/[\s-]/g, '').toUpperCase()
+  if (isValidIsbn(isbn)) return { type: 'isbn', value: isbn }
+
+  try {
+    const url = new URL(value)
+    if (url.protocol === 'http:' || url.protocol === 'https:') {
+      return { type: 'url', value: url.toString() }
+    }
+  } catch {
+    // Not a URL
+  }
+
+  return null
+}
+
+/**
+ * Validate an ISBN-10 or ISBN-13 check digit
+ * @param isbn - ISBN without hyphens or spaces
+ */
+export function isValidIsbn(isbn: string): boolean {
+  if (/^\d{9}[\dX]$/.test(isbn)) {
+    const sum = isbn.split('').reduce((acc, char, i) => acc + (char === 'X' ? 10 : Number(char)) * (10 - i), 0)
+    return sum % 11 === 0
+  }
+  if (/^97[89]\d{10}$/.test(isbn)) {
+    const sum = isbn.split('').reduce((acc, char, i) => acc + Number(char) * (i % 2 === 0 ? 1 : 3), 0)
+    return sum % 10 === 0
+  }
+  return false
+}
+
+/**
+ * Parse a single author name
+ * Accepts "Family, Given" or "Given Family"; organisations keep their full name
+ * @param name - Author name as written
+ */
+export function parseAuthorName(name: string): CitationAuthor {
+  const cleaned = name.replace(/\s+/g, ' ').trim()
+
+  if (cleaned.includes(',')) {
+    const [family, ...rest] = cleaned.split(',')
+    const given = rest.join(' ').trim()
+    return given ? { given, family: family.trim() } : { family: family.trim() }
+  }
+
+  const parts = cleaned.split(' ')
+  if (parts.length === 1 || ORGANISATION_PATTERN.test(cleaned)) {
+    return { family: cleaned }
+  }
+
+  // Keep particles such as "van", "de" or "von" with the family name
+  let familyStart = parts.length - 1
+  while (familyStart > 1 && /^(van|von|de|der|den|del|da|di|la|le|du)$/i.test(parts[familyStart - 1])) {
+    familyStart--
+  }
+
+  return {
+    given: parts.slice(0, familyStart).join(' '),
+    family: parts.slice(familyStart).join(' '),
+  }
+}
+
+/**
+ * Parse a list of authors separated by semicolons, new lines, "and" or "&"
+ * @param text - Author list as entered
+ */
+export function parseAuthorList(text: string): CitationAuthor[] {
+  return text
+    .split(/;|\n|\s+and\s+|\s*&\s*/i)
+    .map((name) => name.trim())
+    .filter(Boolean)
+    .map(parseAuthorName)
+}
+
+/**
+ * Initials for a given name, e.g. "Jean-Paul M." -> ["J.-P.", "M."]
+ */
+function initials(given: string | undefined): string[] {
+  if (!given) return []
+  return given
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((part) =>
+      part
+        .split('-')
+        .map((piece) => `${piece.charAt(0).toUpperCase()}.`)
+        .join('-')
+    )
+}
+
+/** Family name, optionally followed by initials */
+function familyFirst(author: CitationAuthor, separator = ', ', initialSeparator = ' '): string {
+  const init = initials(author.given)
+  return init.length ? `${author.family}${separator}${init.join(initialSeparator)}` : author.family
+}
+
+/** Given name followed by family name */
+function givenFirst(author: CitationAuthor): string {
+  return author.given ? `${author.given} ${author.family}` : author.family
+}
+
+/** Family name followed by full given name */
+function familyCommaGiven(author: CitationAuthor): string {
+  return author.given ? `${author.family}, ${author.given}` : author.family
+}
+
+/** Ensure text ends with sentence punctuation */
+function withPeriod(text: string): string {
+  return /[.?!]$/.test(text) ? text : `${text}.`
+}
+
+/** Join the non-empty parts */
+function join(parts: (string | false | 0 | undefined | null)[], separator = ' '): string {
+  return parts.filter(Boolean).join(separator)
+}
+
+/** Ordinal for an edition number, e.g. 2 -> "2nd" */
+function ordinal(n: number): string {
+  const mod100 = n % 100
+  if (mod100 >= 11 && mod100 <= 13) return `${n}th`
+  return `${n}${['th', 'st', 'nd', 'rd'][n % 10] ?? 'th'}`
+}
+
+/**
+ * Edition label without the "ed." suffix, or undefined for first editions
+ */
+function edition(source: CitationSource): string | undefined {
+  const value = source.edition?.trim()
+  if (!value) return undefined
+  const number = Number(value.replace(/(st|nd|rd|th)$/i, ''))
+  if (Number.isInteger(number)) return number > 1 ? ordinal(number) : undefined
+  return value
+}
+
+/** Page range with the given dash */
+function pageRange(pages: string | undefined, dash: string): string | undefined {
+  return pages?.trim().replace(/\s*[-–—]+\s*/, dash)
+}
+
+/** Whether pages describe a range rather than a single page */
+function isRange(pages: string): boolean {
+  return /[-–—]/.test(pages)
+}
+
+function doiUrl(doi: string): string {
+  return `https://doi.org/${doi}`
+}
+
+/** Parse an ISO date (YYYY-MM-DD) into parts */
+function dateParts(iso: string | undefined): { year: number; month: number; day: number } | null {
+  const match = iso?.match(/^(\d{4})-(\d{2})-(\d{2})/)
+  if (!match) return null
+  return { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) }
+}
+
+/** Whether the style should show the full publication date (news and web) */
+function isDated(source: CitationSource): boolean {
+  return source.type === 'website' || source.type === 'article'
+}
+
+/** Today's date as YYYY-MM-DD */
+function today(): string {
+  return new Date().toISOString().slice(0, 10)
+}
+
+// ---------------------------------------------------------------------------
+// Styles
+// ---------------------------------------------------------------------------
+
+function apaAuthors(authors: CitationAuthor[]): string {
+  const names = authors.map((a) => familyFirst(a))
+  if (names.length <= 1) return names.join('')
+  if (names.length === 2) return `${names[0]}, & ${names[1]}`
+  if (names.length <= 20) return `${names.slice(0, -1).join(', ')}, & ${names[names.length - 1]}`
+  return `${names.slice(0, 19).join(', ')}, . . . ${names[names.length - 1]}`
+}
+
+function apa(source: CitationSource): string {
+  const date = !source.year
+    ? 'n.d.'
+    : isDated(source) && source.month
+      ? join([`${source.year},`, MONTHS[source.month - 1], source.day && String(source.day)])
+      : String(source.year)
+  const link = source.doi ? doiUrl(source.doi) : source.url
+  const ed = edition(source)
+  const title = source.type === 'book' && ed ? `${source.title} (${ed} ed.)` : source.title
+  const authors = apaAuthors(source.authors)
+  const head = authors
+    ? `${withPeriod(authors)} (${date}). ${withPeriod(title)}`
+    : `${withPeriod(title)} (${date}).`
+
+  if (source.type === 'journal') {
+    const volume = source.volume
+      ? `${source.volume}${source.issue ? `(${source.issue})` : ''}`
+      : source.issue && `(${source.issue})`
+    const details = join([source.container_title, volume, pageRange(source.pages, '–')], ', ')
+    return join([head, details && withPeriod(details), link])
+  }
+
+  if (source.type === 'book') {
+    return join([head, source.publisher && withPeriod(source.publisher), link])
+  }
+
+  return join([head, source.container_title && withPeriod(source.container_title), link])
+}
+
+function harvardAuthors(authors: CitationAuthor[]): string {
+  const names = authors.map((a) => familyFirst(a, ', ', ''))
+  if (names.length <= 1) return names.join('')
+  if (names.length > 3) return `${names[0]} et al.`
+  return `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`
+}
+
+function harvardDate(iso: string): string {
+  const parts = dateParts(iso)
+  return parts ? `${parts.day} ${MONTHS[parts.month - 1]} ${parts.year}` : iso
+}
+
+function harvard(source: CitationSource, accessed: string): string {
+  const authors = harvardAuthors(source.authors) || (source.type === 'website' && source.container_title) || ''
+  const year = source.year ? String(source.year) : 'no date'
+  const availability = source.doi
+    ? `Available at: ${doiUrl(source.doi)}.`
+    : source.url && `Available at: ${source.url} (Accessed: ${harvardDate(accessed)}).`
+
+  if (source.type === 'journal' || source.type === 'article') {
+    const volume = source.volume && `${source.volume}${source.issue ? `(${source.issue})` : ''}`
+    const pages = source.pages && `${isRange(source.pages) ? 'pp.' : 'p.'} ${pageRange(source.pages, '–')}`
+    const published = source.type === 'article' && source.month
+      ? join([source.day && String(source.day), MONTHS[source.month - 1]])
+      : undefined
+    const details = join([`'${source.title}'`, source.container_title, volume, published, pages], ', ')
+    const head = authors ? `${authors} (${year}) ${details}` : `${details} (${year})`
+    return join([withPeriod(head), availability])
+  }
+
+  const ed = edition(source)
+  const head = authors ? `${authors} (${year}) ${withPeriod(source.title)}` : `${withPeriod(source.title)} (${year}).`
+  const publication = source.publisher && withPeriod(join([source.place && `${source.place}:`, source.publisher]))
+  return join([head, ed && `${ed} edn.`, publication, availability])
+}
+
+function mlaAuthors(authors: CitationAuthor[]): string {
+  if (authors.length === 0) return ''
+  const first = familyCommaGiven(authors[0])
+  if (authors.length === 1) return first
+  if (authors.length === 2) return `${first}, and ${givenFirst(authors[1])}`
+  return `${first}, et al.`
+}
+
+function mlaDate(parts: { year?: number; month?: number; day?: number }): string | undefined {
+  if (!parts.year) return undefined
+  return join([parts.day && parts.month && String(parts.day), parts.month && MLA_MONTHS[parts.month - 1], String(parts.year)])
+}
+
+function mla(source: CitationSource, accessed: string): string {
+  const authors = mlaAuthors(source.authors)
+  const published = mlaDate(isDated(source) ? source : { year: source.year })
+  const link = source.doi ? doiUrl(source.doi) : source.url?.replace(/^https?:\/\//, '')
+  const accessParts = dateParts(accessed)
+  const accessNote = !source.year && !source.doi && accessParts && `Accessed ${mlaDate(accessParts)}.`
+
+  if (source.type === 'book') {
+    const ed = edition(source)
+    const container = join([ed && `${ed} ed.`, source.publisher, published], ', ')
+    return join([authors && withPeriod(authors), withPeriod(source.title), container && withPeriod(container), link && withPeriod(link)])
+  }
+
+  const pages = source.pages && `${isRange(source.pages) ? 'pp.' : 'p.'} ${pageRange(source.pages, '-')}`
+  const container = join(
+    [
+      source.container_title,
+      source.volume && `vol. ${source.volume}`,
+      source.issue && `no. ${source.issue}`,
+      published,
+      pages,
+      link,
+    ],
+    ', '
+  )
+  return join([authors && withPeriod(authors), `"${withPeriod(source.title)}"`, container && withPeriod(container), accessNote])
+}
+
+function chicagoAuthors(authors: CitationAuthor[]): string {
+  if (authors.length === 0) return ''
+  const listed = authors.length > 10 ? authors.slice(0, 7) : authors
+  const names = [familyCommaGiven(listed[0]), ...listed.slice(1).map(givenFirst)]
+  if (authors.length > 10) return `${names.join(', ')}, et al.`
+  if (names.length === 1) return names[0]
+  if (names.length === 2) return `${names[0]}, and ${names[1]}`
+  return `${names.slice(0, -1).join(', ')}, and ${names[names.length - 1]}`
+}
+
+function chicagoDate(parts: { year?: number; month?: number; day?: number }): string | undefined {
+  if (!parts.year) return undefined
+  if (!parts.month) return String(parts.year)
+  return parts.day ? `${MONTHS[parts.month - 1]} ${parts.day}, ${parts.year}` : `${MONTHS[parts.month - 1]} ${parts.year}`
+}
+
+function chicago(source: CitationSource, accessed: string): string {
+  const authors = chicagoAuthors(source.authors)
+  const link = source.doi ? doiUrl(source.doi) : source.url
+  const accessParts = dateParts(accessed)
+
+  if (source.type === 'journal') {
+    const volume = join([source.volume, source.issue && `no. ${source.issue}`], ', ')
+    const pages = pageRange(source.pages, '–')
+    const details = `${join([source.container_title, volume])}${source.year ? ` (${source.year})` : ''}${pages ? `: ${pages}` : ''}`
+    return join([authors && withPeriod(authors), `"${withPeriod(source.title)}"`, withPeriod(details), link && withPeriod(link)])
+  }
+
+  if (source.type === 'book') {
+    const ed = edition(source)
+    const publication = join([source.place && source.publisher ? `${source.place}: ${source.publisher}` : source.publisher, source.year && String(source.year)], ', ')
+    return join([authors && withPeriod(authors), withPeriod(source.title), ed && `${ed} ed.`, publication && withPeriod(publication), link && withPeriod(link)])
+  }
+
+  const published = chicagoDate(source)
+  const dateNote = published
+    ? withPeriod(published)
+    : accessParts && `Accessed ${chicagoDate(accessParts)}.`
+  if (source.type === 'article') {
+    const container = join([source.container_title, published], ', ')
+    return join([authors && withPeriod(authors), `"${withPeriod(source.title)}"`, container && withPeriod(container), link && withPeriod(link)])
+  }
+  return join([
+    authors && withPeriod(authors),
+    `"${withPeriod(source.title)}"`,
+    source.container_title && withPeriod(source.container_title),
+    dateNote,
+    link && withPeriod(link),
+  ])
+}
+
+function ieeeAuthors(authors: CitationAuthor[]): string {
+  const names = authors.map((a) => join([...initials(a.given), a.family]))
+  if (names.length <= 1) return names.join('')
+  if (names.length > 6) return `${names[0]} et al.`
+  if (names.length === 2) return `${names[0]} and ${names[1]}`
+  return `${names.slice(0, -1).join(', ')}, and ${names[names.length - 1]}`
+}
+
+function ieeeDate(parts: { year: number; month?: number; day?: number }): string {
+  if (!parts.month) return String(parts.year)
+  const month = MLA_MONTHS[parts.month - 1].replace('Sept.', 'Sep.').replace('June', 'Jun.').replace('July', 'Jul.')
+  return parts.day ? `${month} ${parts.day}, ${parts.year}` : `${month} ${parts.year}`
+}
+
+function ieee(source: CitationSource, accessed: string): string {
+  const authors = ieeeAuthors(source.authors)
+  const date = source.year ? ieeeDate({ year: source.year, month: source.month, day: source.day }) : undefined
+
+  if (source.type === 'journal') {
+    const pages = source.pages && `${isRange(source.pages) ? 'pp.' : 'p.'} ${pageRange(source.pages, '–')}`
+    const container = join(
+      [source.container_title, source.volume && `vol. ${source.volume}`, source.issue && `no. ${source.issue}`, pages, date],
+      ', '
+    )
+    const details = `${authors ? `${authors}, ` : ''}"${source.title}," ${container}`
+    return source.doi ? `${details}, doi: ${source.doi}.` : withPeriod(details)
+  }
+
+  if (source.type === 'book') {
+    const ed = edition(source)
+    const publication = join([source.place && source.publisher ? `${source.place}: ${source.publisher}` : source.publisher, source.year && String(source.year)], ', ')
+    const head = join([authors, join([source.title, ed && `${ed} ed.`], ', ')], ', ')
+    return join([withPeriod(head), publication && withPeriod(publication)])
+  }
+
+  const accessParts = dateParts(accessed)
+  const head = join([authors, `"${source.title},"`], ', ')
+  return join([
+    head,
+    withPeriod(join([source.container_title, date], ', ') || 'n.d.'),
+    source.url && accessParts && `Accessed: ${ieeeDate(accessParts)}.`,
+    source.url && `[Online]. Available: ${source.url}`,
+  ])
+}
+
+function vancouverAuthors(authors: CitationAuthor[]): string {
+  const names = authors.map((a) => join([a.family, initials(a.given).join('').replace(/[.-]/g, '')]))
+  if (names.length > 6) return `${names.slice(0, 6).join(', ')}, et al`
+  return names.join(', ')
+}
+
+function vancouver(source: CitationSource, accessed: string): string {
+  const authors = vancouverAuthors(source.authors)
+  const accessParts = dateParts(accessed)
+
+  if (source.type === 'journal') {
+    const volume = join([source.volume, source.issue && `(${source.issue})`], '')
+    const pages = pageRange(source.pages, '-')
+    const details = `${source.year ?? ''}${volume ? `;${volume}` : ''}${pages ? `:${pages}` : ''}`
+    return join([
+      authors && withPeriod(authors),
+      withPeriod(source.title),
+      source.container_title && withPeriod(source.container_title),
+      details && withPeriod(details),
+      source.doi && `doi:${source.doi}`,
+    ])
+  }
+
+  if (source.type === 'book') {
+    const ed = edition(source)
+    const publication = join([source.place && source.publisher ? `${source.place}: ${source.publisher}` : source.publisher, source.year && String(source.year)], '; ')
+    return join([authors && withPeriod(authors), withPeriod(source.title), ed && `${ed} ed.`, publication && withPeriod(publication)])
+  }
+
+  const cited = accessParts && `[cited ${accessParts.year} ${SHORT_MONTHS[accessParts.month - 1]} ${accessParts.day}]`
+  const publication = join([source.container_title, source.year && String(source.year)], '; ')
+  return join([
+    authors && withPeriod(authors),
+    `${source.title} [Internet].`,
+    withPeriod(join([publication, cited])),
+    source.url && `Available from: ${source.url}`,
+  ])
+}
+
+/**
+ * Format a citation source in a reference style
+ * @param source - Citation metadata
+ * @param style - Reference style
+ * @param accessed - Access date (YYYY-MM-DD); defaults to the source's access date or today
+ * @returns Formatted reference list entry
+ */
+export function formatCitation(
+  source: CitationSource,
+  style: ReferenceStyleType,
+  accessed = source.accessed ?? today()
+): string {
+  switch (style) {
+    case 'APA':
+      return apa(source)
+    case 'Harvard':
+      return harvard(source, accessed)
+    case 'MLA':
+      return mla(source, accessed)
+    case 'Chicago':
+      return chicago(source, accessed)
+    case 'IEEE':
+      return ieee(source, accessed)
+    case 'Vancouver':
+      return vancouver(source, accessed)
+  }
+}
+
+/**
+ * Citation source for a saved citation
+ * Older citations without metadata are rebuilt from their columns
+ * @param citation - Saved citation
+ */
+export function citationToSource(citation: Citation): CitationSource {
+  if (citation.metadata) return citation.metadata
+
+  const year = citation.publication_date?.match(/\d{4}/)?.[0]
+  return {
+    type: citation.source_type,
+    title: citation.title || citation.url || 'Untitled',
+    authors: citation.author ? parseAuthorList(citation.author) : [],
+    year: year ? Number(year) : undefined,
+    url: citation.url ?? undefined,
+    accessed: citation.access_date?.slice(0, 10),
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+const BIBTEX_TYPES: Record<CitationSource['type'], string> = {
+  journal: 'article',
+  article: 'article',
+  book: 'book',
+  website: 'misc',
+  other: 'misc',
+}
+
+const RIS_TYPES: Record<CitationSource['type'], string> = {
+  journal: 'JOUR',
+  article: 'NEWS',
+  book: 'BOOK',
+  website: 'ELEC',
+  other: 'GEN',
+}
+
+function escapeBibTeX(value: string): string {
+  return value.replace(/([&%$#_{}])/g, '\\$1')
+}
+
+/** Citation key such as smith2020climate, unique within the export */
+function bibtexKey(source: CitationSource, used: Set<string>): string {
+  const name = (source.authors[0]?.family ?? source.container_title ?? 'anon')
+    .normalize('NFD')
+    .replace(/[^A-Za-z]/g, '')
+    .toLowerCase()
+  const word = source.title
+    .toLowerCase()
+    .split(/\s+/)
+    .map((w) => w.replace(/[^a-z]/g, ''))
+    .find((w) => w.length > 3) ?? ''
+  const base = `${name || 'anon'}${source.year ?? ''}${word}`
+
+  let key = base
+  for (let i = 0; used.has(key); i++) {
+    key = `${base}${String.fromCharCode(97 + (i % 26))}${i >= 26 ? Math.floor(i / 26) : ''}`
+  }
+  used.add(key)
+  return key
+}
+
+/**
+ * Export citations as a BibTeX file
+ * @param citations - Saved citations
+ */
+export function exportBibTeX(citations: Citation[]): string {
+  const used = new Set<string>()
+
+  return citations
+    .map((citation) => {
+      const source = citationToSource(citation)
+      const fields: [string, string | undefined][] = [
+        ['author', source.authors.length ? source.authors.map(familyCommaGiven).join(' and ') : undefined],
+        ['title', source.title],
+        [source.type === 'journal' || source.type === 'article' ? 'journal' : 'howpublished', source.container_title],
+        ['year', source.year ? String(source.year) : undefined],
+        ['month', source.month ? SHORT_MONTHS[source.month - 1].toLowerCase() : undefined],
+        ['edition', source.edition],
+        ['volume', source.volume],
+        ['number', source.issue],
+        ['pages', pageRange(source.pages, '--')],
+        ['publisher', source.publisher],
+        ['address', source.place],
+        ['doi', source.doi],
+        ['isbn', source.isbn],
+        ['url', source.url],
+        ['urldate', source.accessed],
+      ]
+
+      const body = fields
+        .filter((field): field is [string, string] => Boolean(field[1]))
+        .map(([name, value]) => {
+          // Month macros and URLs are written as-is
+          if (name === 'month') return `  ${name} = ${value}`
+          if (name === 'url' || name === 'doi') return `  ${name} = {${value}}`
+          return `  ${name} = {${escapeBibTeX(value)}}`
+        })
+        .join(',\n')
+
+      return `@${BIBTEX_TYPES[source.type]}{${bibtexKey(source, used)},\n${body}\n}`
+    })
+    .join('\n\n')
+    .concat(citations.length ? '\n' : '')
+}
+
+/**
+ * Export citations as an RIS file
+ * @param citations - Saved citations
+ */
+export function exportRIS(citations: Citation[]): string {
+  return citations
+    .map((citation) => {
+      const source = citationToSource(citation)
+      const [startPage, endPage] = (source.pages ?? '').split(/\s*[-–—]+\s*/)
+      const date = source.year
+        ? `${source.year}/${source.month ? String(source.month).padStart(2, '0') : ''}/${source.day ? String(source.day).padStart(2, '0') : ''}/`
+        : undefined
+
+      const lines: [string, string | undefined][] = [
+        ['TY', RIS_TYPES[source.type]],
+        ...source.authors.map((author): [string, string] => ['AU', familyCommaGiven(author)]),
+        ['TI', source.title],
+        ['T2', source.container_title],
+        ['PY', source.year ? String(source.year) : undefined],
+        ['DA', date],
+        ['ET', source.edition],
+        ['VL', source.volume],
+        ['IS', source.issue],
+        ['SP', startPage || undefined],
+        ['EP', endPage],
+        ['PB', source.publisher],
+        ['CY', source.place],
+        ['DO', source.doi],
+        ['SN', source.isbn],
+        ['UR', source.url],
+        ['Y2', source.accessed],
+        ['ER', ''],
+      ]
+
+      return lines
+        .filter(([tag, value]) => tag === 'ER' || Boolean(value))
+        .map(([tag, value]) => `${tag}  - ${value}`)
+        .join('\r\n')
+    })
+    .join('\r\n\r\n')
+    .concat(citations.length ? '\r\n' : '')
+}
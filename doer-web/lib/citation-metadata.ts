@@ -0,0 +1,441 @@
+/**
+ * Citation metadata lookup
+ * Resolves a URL, DOI or ISBN to a CitationSource. Runs on the server only
+ * (used by the citation API route); the fetcher is injectable so tests run
+ * offline against fixtures.
+ */
+
+import { detectCitationInput, parseAuthorName } from '@/lib/citation-format'
+import type { CitationAuthor, CitationSource, CitationSourceType } from '@/types/database'
+
+/** Response returned by a metadata fetcher */
+export interface FetchedResource {
+  /** HTTP status */
+  status: number
+  /** Content-Type header */
+  contentType: string
+  /** Response body as text */
+  body: string
+}
+
+/** Fetches a URL with the given Accept header */
+export type MetadataFetcher = (url: string, accept: string) => Promise<FetchedResource>
+
+/** Error thrown when a source cannot be looked up */
+export class CitationLookupError extends Error {
+  constructor(message = 'Could not find details for this source') {
+    super(message)
+    this.name = 'CitationLookupError'
+  }
+}
+
+/** Give up on slow sources after this long */
+const FETCH_TIMEOUT_MS = 8000
+
+/** Only the document head is needed, so large pages are cut off */
+const MAX_BODY_BYTES = 1024 * 1024
+
+const CSL_ACCEPT = 'application/vnd.citationstyles.csl+json'
+
+const HTML_ACCEPT = 'text/html,application/xhtml+xml'
+
+/**
+ * Whether a URL points at a public host
+ * Blocks loopback, private and link-local addresses so the lookup cannot be
+ * used to reach internal services
+ */
+export function isPublicUrl(value: string): boolean {
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    return false
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return false
+
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, '')
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal')) {
+    return false
+  }
+
+  const ipv4 = host.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/)
+  if (ipv4) {
+    const [a, b] = [Number(ipv4[1]), Number(ipv4[2])]
+    return !(
+      a === 0 || a === 10 || a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      a >= 224
+    )
+  }
+
+  if (host.includes(':')) {
+    return !(host === '::1' || host === '::' || /^(fc|fd|fe80|::ffff:)/.test(host))
+  }
+
+  return true
+}
+
+/**
+ * Fetcher backed by the network
+ * Redirects are followed manually so every hop is checked with isPublicUrl
+ */
+export const httpFetcher: MetadataFetcher = async (url, accept) => {
+  let current = url
+  for (let hop = 0; hop < 5; hop++) {
+    if (!isPublicUrl(current)) {
+      throw new CitationLookupError('This address cannot be looked up')
+    }
+
+    const response = await fetch(current, {
+      headers: { Accept: accept, 'User-Agent': 'AssignX-CitationBuilder/1.0' },
+      redirect: 'manual',
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    })
+
+    const location = response.headers.get('location')
+    if (response.status >= 300 && response.status < 400 && location) {
+      current = new URL(location, current).toString()
+      continue
+    }
+
+    const buffer = await response.arrayBuffer()
+    return {
+      status: response.status,
+      contentType: response.headers.get('content-type') ?? '',
+      body: new TextDecoder().decode(buffer.slice(0, MAX_BODY_BYTES)),
+    }
+  }
+
+  throw new CitationLookupError('Too many redirects')
+}
+
+/**
+ * Fetcher that serves fixtures instead of the network
+ * Unknown URLs return 404, so tests never reach the network
+ * @param fixtures - Response body (or full response) keyed by URL
+ */
+export function createFixtureFetcher(
+  fixtures: Record<string, string | FetchedResource>
+): MetadataFetcher {
+  return async (url) => {
+    const fixture = fixtures[url]
+    if (fixture === undefined) {
+      return { status: 404, contentType: 'text/plain', body: 'Not found' }
+    }
+    if (typeof fixture !== 'string') return fixture
+
+    const trimmed = fixture.trimStart()
+    return {
+      status: 200,
+      contentType: trimmed.startsWith('{') || trimmed.startsWith('[') ? 'application/json' : 'text/html',
+      body: fixture,
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// HTML
+// ---------------------------------------------------------------------------
+
+const ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', ndash: '–', mdash: '—',
+  rsquo: '’', lsquo: '‘', rdquo: '”', ldquo: '“', hellip: '…',
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match
+  })
+}
+
+function clean(text: string | undefined): string | undefined {
+  const value = text && decodeEntities(text).replace(/\s+/g, ' ').trim()
+  return value || undefined
+}
+
+/** All meta tag values keyed by lower-cased name/property */
+function readMetaTags(html: string): Map<string, string[]> {
+  const tags = new Map<string, string[]>()
+
+  for (const [tag] of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const attributes = new Map<string, string>()
+    for (const attr of tag.matchAll(/([a-z:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/gi)) {
+      attributes.set(attr[1].toLowerCase(), attr[2] ?? attr[3] ?? attr[4] ?? '')
+    }
+
+    const key = (attributes.get('name') ?? attributes.get('property'))?.toLowerCase()
+    const content = clean(attributes.get('content'))
+    if (!key || !content) continue
+
+    tags.set(key, [...(tags.get(key) ?? []), content])
+  }
+
+  return tags
+}
+
+/** Split an ISO-like or slash date (2020-03-05, 2020/03/05, 2020) into parts */
+function parseDate(value: string | undefined): Pick<CitationSource, 'year' | 'month' | 'day'> {
+  const match = value?.match(/(\d{4})(?:[-/](\d{1,2})(?:[-/](\d{1,2}))?)?/)
+  if (!match) return {}
+  return {
+    year: Number(match[1]),
+    month: match[2] ? Number(match[2]) : undefined,
+    day: match[3] ? Number(match[3]) : undefined,
+  }
+}
+
+/** Remove undefined fields so stored metadata stays compact */
+function compact(source: CitationSource): CitationSource {
+  return Object.fromEntries(
+    Object.entries(source).filter(([, value]) => value !== undefined && value !== '')
+  ) as unknown as CitationSource
+}
+
+/**
+ * Extract citation metadata from an HTML page
+ * Reads Highwire (citation_*) tags first, then Dublin Core, OpenGraph and
+ * standard meta tags, then the <title>
+ * @param html - Page HTML
+ * @param url - Page URL
+ */
+export function parseHtmlMetadata(html: string, url: string): CitationSource {
+  const meta = readMetaTags(html)
+  const first = (...keys: string[]) => {
+    for (const key of keys) {
+      const value = meta.get(key)?.[0]
+      if (value) return value
+    }
+    return undefined
+  }
+
+  const highwireAuthors = meta.get('citation_author') ?? meta.get('dc.creator') ?? []
+  const authorNames = highwireAuthors.length
+    ? highwireAuthors
+    : [...(meta.get('author') ?? []), ...(meta.get('article:author') ?? [])].filter((name) => !/^https?:\/\//.test(name))
+
+  const journal = first('citation_journal_title')
+  const isbn = first('citation_isbn')
+  const ogType = first('og:type')
+  const type: CitationSourceType = journal
+    ? 'journal'
+    : isbn || ogType === 'book' || ogType === 'books.book'
+      ? 'book'
+      : ogType === 'article' || meta.has('article:published_time')
+        ? 'article'
+        : 'website'
+
+  const firstPage = first('citation_firstpage')
+  const lastPage = first('citation_lastpage')
+  const titleTag = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1]
+  const siteName = first('og:site_name', 'citation_conference_title')
+
+  return compact({
+    type,
+    title: first('citation_title', 'dc.title', 'og:title', 'twitter:title') ?? clean(titleTag) ?? new URL(url).hostname,
+    authors: authorNames.map(parseAuthorName),
+    ...parseDate(first('citation_publication_date', 'citation_date', 'citation_online_date', 'dc.date', 'article:published_time', 'date')),
+    container_title: journal ?? siteName ?? (type === 'book' ? undefined : new URL(url).hostname.replace(/^www\./, '')),
+    publisher: first('citation_publisher', 'dc.publisher'),
+    volume: first('citation_volume'),
+    issue: first('citation_issue'),
+    pages: firstPage ? (lastPage && lastPage !== firstPage ? `${firstPage}-${lastPage}` : firstPage) : undefined,
+    doi: first('citation_doi')?.replace(/^(https?:\/\/(dx\.)?doi\.org\/|doi:)/i, ''),
+    isbn,
+    url,
+  })
+}
+
+// ---------------------------------------------------------------------------
+// DOI (CSL-JSON via doi.org content negotiation)
+// ---------------------------------------------------------------------------
+
+interface CslName {
+  given?: string
+  family?: string
+  literal?: string
+  name?: string
+}
+
+interface CslItem {
+  type?: string
+  title?: string | string[]
+  author?: CslName[]
+  editor?: CslName[]
+  issued?: { 'date-parts'?: (number | string)[][] }
+  'container-title'?: string | string[]
+  publisher?: string
+  'publisher-place'?: string
+  edition?: string | number
+  volume?: string | number
+  issue?: string | number
+  page?: string
+  DOI?: string
+  ISBN?: string | string[]
+  URL?: string
+}
+
+const CSL_TYPES: Record<string, CitationSourceType> = {
+  'article-journal': 'journal',
+  'journal-article': 'journal',
+  'paper-conference': 'journal',
+  'article-newspaper': 'article',
+  'article-magazine': 'article',
+  article: 'article',
+  book: 'book',
+  monograph: 'book',
+  'edited-book': 'book',
+  webpage: 'website',
+  'post-weblog': 'website',
+}
+
+function firstString(value: string | string[] | number | undefined): string | undefined {
+  const result = Array.isArray(value) ? value[0] : value
+  return result === undefined ? undefined : clean(String(result))
+}
+
+function cslAuthor(name: CslName): CitationAuthor {
+  if (name.family) return name.given ? { given: name.given, family: name.family } : { family: name.family }
+  return { family: name.literal ?? name.name ?? 'Anonymous' }
+}
+
+/**
+ * Convert a CSL-JSON item (as returned by doi.org) to a citation source
+ * @param item - CSL-JSON item
+ */
+export function parseCslJson(item: CslItem): CitationSource {
+  const [year, month, day] = (item.issued?.['date-parts']?.[0] ?? []).map(Number)
+  const names = item.author?.length ? item.author : item.editor ?? []
+
+  return compact({
+    type: CSL_TYPES[item.type ?? ''] ?? 'other',
+    title: firstString(item.title) ?? 'Untitled',
+    authors: names.map(cslAuthor),
+    year: year || undefined,
+    month: month || undefined,
+    day: day || undefined,
+    container_title: firstString(item['container-title']),
+    publisher: clean(item.publisher),
+    place: clean(item['publisher-place']),
+    edition: firstString(item.edition),
+    volume: firstString(item.volume),
+    issue: firstString(item.issue),
+    pages: clean(item.page),
+    doi: clean(item.DOI),
+    isbn: firstString(item.ISBN),
+    url: clean(item.URL),
+  })
+}
+
+// ---------------------------------------------------------------------------
+// ISBN (Open Library)
+// ---------------------------------------------------------------------------
+
+interface OpenLibraryBook {
+  title?: string
+  subtitle?: string
+  authors?: { name: string }[]
+  publishers?: { name: string }[]
+  publish_places?: { name: string }[]
+  publish_date?: string
+  url?: string
+}
+
+/**
+ * Convert an Open Library books API record to a citation source
+ * @param book - Record from /api/books?jscmd=data
+ * @param isbn - ISBN that was looked up
+ */
+export function parseOpenLibraryBook(book: OpenLibraryBook, isbn: string): CitationSource {
+  const title = clean(book.title) ?? 'Untitled'
+  const year = book.publish_date?.match(/\d{4}/)?.[0]
+
+  return compact({
+    type: 'book',
+    title: book.subtitle ? `${title}: ${clean(book.subtitle)}` : title,
+    authors: (book.authors ?? []).map((author) => parseAuthorName(author.name)),
+    year: year ? Number(year) : undefined,
+    publisher: clean(book.publishers?.[0]?.name),
+    place: clean(book.publish_places?.[0]?.name),
+    isbn,
+  })
+}
+
+// ---------------------------------------------------------------------------
+// Lookup
+// ---------------------------------------------------------------------------
+
+function parseJson<T>(resource: FetchedResource): T {
+  try {
+    return JSON.parse(resource.body) as T
+  } catch {
+    throw new CitationLookupError()
+  }
+}
+
+async function lookupDoi(doi: string, fetcher: MetadataFetcher): Promise<CitationSource> {
+  const resource = await fetcher(`https://doi.org/${encodeURI(doi)}`, CSL_ACCEPT)
+  if (resource.status === 404) throw new CitationLookupError('DOI not found')
+  if (resource.status !== 200) throw new CitationLookupError()
+  return { ...parseCslJson(parseJson<CslItem>(resource)), doi }
+}
+
+async function lookupIsbn(isbn: string, fetcher: MetadataFetcher): Promise<CitationSource> {
+  const resource = await fetcher(
+    `https://openlibrary.org/api/books?bibkeys=ISBN:${isbn}&format=json&jscmd=data`,
+    'application/json'
+  )
+  if (resource.status !== 200) throw new CitationLookupError()
+
+  const book = parseJson<Record<string, OpenLibraryBook>>(resource)[`ISBN:${isbn}`]
+  if (!book) throw new CitationLookupError('ISBN not found')
+  return parseOpenLibraryBook(book, isbn)
+}
+
+async function lookupUrl(url: string, fetcher: MetadataFetcher): Promise<CitationSource> {
+  const resource = await fetcher(url, HTML_ACCEPT)
+  if (resource.status !== 200) throw new CitationLookupError(`The page returned an error (${resource.status})`)
+  if (!/html|xml/i.test(resource.contentType)) {
+    throw new CitationLookupError('This link is not a web page. Enter the details manually.')
+  }
+  return parseHtmlMetadata(resource.body, url)
+}
+
+/**
+ * Look up citation metadata for a URL, DOI or ISBN
+ * @param input - Identifier as entered by the user
+ * @param fetcher - Network or fixture fetcher
+ * @param accessed - Access date (YYYY-MM-DD) recorded on the source
+ * @throws CitationLookupError if the input is unrecognized or the source has no usable metadata
+ */
+export async function lookupCitationSource(
+  input: string,
+  fetcher: MetadataFetcher = httpFetcher,
+  accessed = new Date().toISOString().slice(0, 10)
+): Promise<CitationSource> {
+  const detected = detectCitationInput(input)
+  if (!detected) {
+    throw new CitationLookupError('Enter a URL, DOI or ISBN')
+  }
+
+  let source: CitationSource
+  switch (detected.type) {
+    case 'doi':
+      source = await lookupDoi(detected.value, fetcher)
+      break
+    case 'isbn':
+      source = await lookupIsbn(detected.value, fetcher)
+      break
+    case 'url':
+      source = await lookupUrl(detected.value, fetcher)
+      break
+  }
+
+  return { ...source, accessed }
+}
@@ -86,6 +86,10 @@ export const API_ROUTES = {
     skills: '/api/doer/skills',
     activation: '/api/doer/activation',
   },
+  resources: {
+    aiReport: '/api/resources/ai-report',
+    citation: '/api/resources/citation',
+  },
 } as const
 
 /** Route paths */
@@ -1,7 +1,12 @@
+import path from "path";
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Allow imports from ../shared (modules shared with the other web apps)
+  outputFileTracingRoot: path.join(__dirname, ".."),
+  turbopack: {
+    root: path.join(__dirname, ".."),
+  },
 };
 
 export default nextConfig;
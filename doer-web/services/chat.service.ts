@@ -12,6 +12,20 @@ import type {
   MessageType,
 } from '@/types/database'
 import type { RealtimeChannel } from '@supabase/supabase-js'
+import {
+  CHAT_RECEIPT_EVENT,
+  chatRoomTopic,
+  type ChatReceipt,
+  type ChatReceiptEvent,
+  type ReceiptParticipant,
+} from '@shared/chat-receipts'
+
+/**
+ * Error thrown when the server-side moderation trigger drops a message
+ * (the insert succeeds but returns no row)
+ */
+export const CHAT_MESSAGE_BLOCKED_MESSAGE =
+  'Message blocked: sharing contact details or external links is not allowed in chat.'
 
 /**
  * Get or create a chat room for a project
@@ -255,6 +269,7 @@ export async function getChatMessages(
 
 /**
  * Send a text message
+ * Contact details are redacted (or the message dropped) by the database trigger
  * @security Uses authenticated user's ID, not client-provided ID
  */
 export async function sendMessage(
@@ -285,13 +300,17 @@ export async function sendMessage(
       read_by: [senderId],
     })
     .select()
-    .single()
+    .maybeSingle()
 
   if (error) {
     console.error('Error sending message:', error)
     throw error
   }
 
+  if (!data) {
+    throw new Error(CHAT_MESSAGE_BLOCKED_MESSAGE)
+  }
+
   // Update room's last_message_at
   await supabase
     .from('chat_rooms')
@@ -303,6 +322,7 @@ export async function sendMessage(
 
 /**
  * Send a file message
+ * The file name goes through the same moderation trigger as text messages
  * @security Uses authenticated user's ID, not client-provided ID
  */
 export async function sendFileMessage(
@@ -359,13 +379,17 @@ export async function sendFileMessage(
       read_by: [senderId],
     })
     .select()
-    .single()
+    .maybeSingle()
 
   if (error) {
     console.error('Error sending file message:', error)
     throw error
   }
 
+  if (!data) {
+    throw new Error(CHAT_MESSAGE_BLOCKED_MESSAGE)
+  }
+
   // Update room's last_message_at
   await supabase
     .from('chat_rooms')
@@ -376,7 +400,9 @@ export async function sendFileMessage(
 }
 
 /**
- * Mark messages as read
+ * Mark every message in a room as read
+ * Writes read receipts through the mark_room_messages_as_read RPC, which also
+ * keeps read_by in step and tells the other participants over the room channel
  * @security Uses authenticated user's ID, not client-provided ID
  */
 export async function markMessagesAsRead(
@@ -390,34 +416,67 @@ export async function markMessagesAsRead(
     throw new Error('Authentication required')
   }
 
-  const userId = user.id
+  const { error } = await supabase.rpc('mark_room_messages_as_read', {
+    p_chat_room_id: roomId,
+    p_profile_id: user.id,
+  })
 
-  // Get unread messages not sent by the user
-  const { data: unreadMessages } = await supabase
-    .from('chat_messages')
-    .select('id, read_by')
-    .eq('chat_room_id', roomId)
-    .neq('sender_id', userId)
+  if (error) {
+    console.error('Error marking messages as read:', error)
+    throw error
+  }
+}
 
-  if (unreadMessages && unreadMessages.length > 0) {
-    // Update each message to add user to read_by array
-    for (const msg of unreadMessages) {
-      const readBy = msg.read_by || []
-      if (!readBy.includes(userId)) {
-        await supabase
-          .from('chat_messages')
-          .update({ read_by: [...readBy, userId] })
-          .eq('id', msg.id)
-      }
-    }
+/**
+ * Get delivery / read receipts for messages
+ */
+export async function getMessageReceipts(
+  messageIds: string[]
+): Promise<ChatReceipt[]> {
+  if (messageIds.length === 0) return []
+
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('chat_read_receipts')
+    .select('message_id, profile_id, delivered_at, read_at')
+    .in('message_id', messageIds)
+
+  if (error) {
+    console.error('Error fetching receipts:', error)
+    throw error
   }
 
-  // Update participant's last_seen_at
-  await supabase
+  return data || []
+}
+
+/**
+ * Get everyone in a room with display names, for per-participant read state
+ */
+export async function getReceiptParticipants(
+  roomId: string
+): Promise<ReceiptParticipant[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
     .from('chat_participants')
-    .update({ last_seen_at: new Date().toISOString() })
+    .select('profile_id, participant_role, profiles(full_name)')
     .eq('chat_room_id', roomId)
-    .eq('profile_id', userId)
+
+  if (error) {
+    console.error('Error fetching participants:', error)
+    throw error
+  }
+
+  return ((data || []) as unknown as {
+    profile_id: string
+    participant_role: string
+    profiles: { full_name: string | null } | null
+  }[]).map((p) => ({
+    profile_id: p.profile_id,
+    name: p.profiles?.full_name || p.participant_role,
+    role: p.participant_role,
+  }))
 }
 
 /**
@@ -480,16 +539,19 @@ export async function getChatParticipants(
 }
 
 /**
- * Subscribe to real-time messages
+ * Subscribe to real-time messages and receipts
+ * Uses the same channel name as the other apps so receipts broadcast by the
+ * database reach everyone in the room
  */
 export function subscribeToMessages(
   roomId: string,
-  onMessage: (message: ChatMessage) => void
+  onMessage: (message: ChatMessage) => void,
+  onReceipt?: (event: ChatReceiptEvent) => void
 ): RealtimeChannel {
   const supabase = createClient()
 
   const channel = supabase
-    .channel(`room:${roomId}`)
+    .channel(chatRoomTopic(roomId))
     .on(
       'postgres_changes',
       {
@@ -502,6 +564,9 @@ export function subscribeToMessages(
         onMessage(payload.new as ChatMessage)
       }
     )
+    .on('broadcast', { event: CHAT_RECEIPT_EVENT }, ({ payload }) => {
+      onReceipt?.(payload as ChatReceiptEvent)
+    })
     .subscribe()
 
   return channel
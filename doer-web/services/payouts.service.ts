@@ -7,7 +7,14 @@
 import { createClient } from '@/lib/supabase/client'
 import { verifyProfileOwnership } from '@/lib/auth-helpers'
 import { logger } from '@/lib/logger'
-import type { Payout, PayoutRequest } from '@/types/database'
+import {
+  CANCEL_PAYOUT_REQUEST_RPC,
+  PAYOUT_MIN_AMOUNT,
+  PAYOUT_REQUEST_RPC,
+  toPayoutRequestError,
+  type PayoutMethod,
+} from '@shared/payouts'
+import type { Payout, PayoutRequestWithPayout } from '@/types/database'
 
 /**
  * Bank details update payload
@@ -40,7 +47,7 @@ export async function getPayoutHistory(profileId: string): Promise<Payout[]> {
   const { data, error } = await supabase
     .from('payouts')
     .select('*')
-    .eq('profile_id', profileId)
+    .eq('recipient_id', profileId)
     .order('requested_at', { ascending: false })
 
   if (error) {
@@ -51,41 +58,86 @@ export async function getPayoutHistory(profileId: string): Promise<Payout[]> {
   return data || []
 }
 
+/**
+ * Get payout requests for doer, newest first
+ * @param profileId - The profile ID
+ * @returns Requests with their payout's reference and failure reason
+ * @security Verifies ownership before returning data
+ */
+export async function getPayoutRequests(profileId: string): Promise<PayoutRequestWithPayout[]> {
+  // SECURITY: Verify the authenticated user owns this profile
+  await verifyProfileOwnership(profileId)
+
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('payout_requests')
+    .select('*, payout:payouts(status, gateway_reference, failure_reason, completed_at)')
+    .eq('profile_id', profileId)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    logger.error('Payouts', 'Error fetching payout requests:', error)
+    return []
+  }
+
+  return data || []
+}
+
 /**
  * Request a new payout
+ * The amount is held on the wallet until an admin pays or rejects it.
  * @param profileId - The profile ID
  * @param amount - Payout amount in INR
  * @param paymentMethod - Payment method (bank_transfer or upi)
- * @returns Success status with payout request or error
+ * @returns Success status with the request ID or error
  * @security Verifies ownership before creating payout request
  */
 export async function requestPayout(
   profileId: string,
   amount: number,
-  paymentMethod: 'bank_transfer' | 'upi'
-): Promise<{ success: boolean; error?: string; payout?: PayoutRequest }> {
+  paymentMethod: PayoutMethod
+): Promise<{ success: boolean; error?: string; requestId?: string }> {
   // SECURITY: Verify the authenticated user owns this profile
   await verifyProfileOwnership(profileId)
 
-  // Validate minimum amount (₹500)
-  if (amount < 500) {
-    return { success: false, error: 'Minimum payout amount is ₹500' }
+  if (amount < PAYOUT_MIN_AMOUNT) {
+    return { success: false, error: `Minimum payout amount is ₹${PAYOUT_MIN_AMOUNT}` }
   }
 
-  // For now, simulate payout request creation
-  const payoutRequest: PayoutRequest = {
-    id: `payout-${Date.now()}`,
-    profile_id: profileId,
-    amount,
-    payment_method: paymentMethod,
-    status: 'pending',
-    rejection_reason: null,
-    created_at: new Date().toISOString(),
-    reviewed_at: null,
-    reviewed_by: null,
+  const supabase = createClient()
+
+  const { data, error } = await supabase.rpc(PAYOUT_REQUEST_RPC, {
+    p_amount: amount,
+    p_method: paymentMethod,
+  })
+
+  if (error) {
+    logger.error('Payouts', 'Error requesting payout:', error)
+    return { success: false, error: toPayoutRequestError(error).message }
+  }
+
+  return { success: true, requestId: (data as { id: string }).id }
+}
+
+/**
+ * Cancel a payout request that is still waiting for review
+ * @param requestId - The payout request ID
+ * @returns Success status and optional error
+ */
+export async function cancelPayoutRequest(
+  requestId: string
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = createClient()
+
+  const { error } = await supabase.rpc(CANCEL_PAYOUT_REQUEST_RPC, { p_request_id: requestId })
+
+  if (error) {
+    logger.error('Payouts', 'Error cancelling payout request:', error)
+    return { success: false, error: toPayoutRequestError(error).message }
   }
 
-  return { success: true, payout: payoutRequest }
+  return { success: true }
 }
 
 /**
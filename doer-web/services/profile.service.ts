@@ -12,6 +12,7 @@ import type {
   Qualification,
   ExperienceLevel,
 } from '@/types/database'
+import { getEarningsBalance } from './wallet.service'
 
 // Re-export domain services
 export * from './skills.service'
@@ -95,19 +96,15 @@ export async function getDoerProfile(profileId: string): Promise<{
     communicationRating = reviews.reduce((sum, r) => sum + (r.communication_rating || 0), 0) / totalReviews
   }
 
-  // Get pending earnings from wallet
-  const { data: wallet } = await supabase
-    .from('wallets')
-    .select('locked_amount')
-    .eq('profile_id', profileId)
-    .single()
+  // Released and pending earnings from the ledger
+  const balance = await getEarningsBalance()
 
   // Build stats object
   const stats: DoerStats = {
     activeAssignments: activeCount || 0,
     completedProjects: doer.total_projects_completed || 0,
-    totalEarnings: Number(doer.total_earnings) || 0,
-    pendingEarnings: Number(wallet?.locked_amount) || 0,
+    totalEarnings: balance.released,
+    pendingEarnings: balance.pending,
     averageRating: Number(doer.average_rating) || 0,
     totalReviews: doer.total_reviews || 0,
     successRate: Number(doer.success_rate) || 0,
@@ -6,6 +6,8 @@ import { createClient } from '@/lib/supabase/client'
 import { verifyDoerOwnership, verifyProjectAccess } from '@/lib/auth-helpers'
 import { logger } from '@/lib/logger'
 import { validateFile, generateSafeFileName } from '@/lib/file-validation'
+import { PROJECT_TRANSITION_RPC, unwrapProjectTransition } from '@shared/project-status'
+import { DELIVERABLE_BUCKET } from '@shared/deliverable-access'
 import type {
   Project,
   ProjectFile,
@@ -200,45 +202,60 @@ export async function getProjectRevisions(
 }
 
 /**
- * Update project status
- * @security Verifies project access before updating
+ * Moves a project to a new status through the status state machine and
+ * returns the updated project.
+ * @throws ProjectTransitionError if the move isn't allowed
  */
-export async function updateProjectStatus(
+async function transitionProject(
   projectId: string,
-  status: ProjectStatus
+  status: ProjectStatus,
+  reason?: string
 ): Promise<Project> {
-  // SECURITY: Verify the authenticated user has access to this project
-  await verifyProjectAccess(projectId)
-
   const supabase = createClient()
 
-  const updateData: Partial<Project> = {
-    status,
-    updated_at: new Date().toISOString(),
-  }
+  const response = await supabase.rpc(PROJECT_TRANSITION_RPC, {
+    p_project_id: projectId,
+    p_to_status: status,
+    p_reason: reason ?? null,
+  })
 
-  // Add timestamp based on status
-  if (status === 'submitted') {
-    updateData.submitted_at = new Date().toISOString()
-  } else if (status === 'completed') {
-    updateData.completed_at = new Date().toISOString()
+  try {
+    unwrapProjectTransition(response)
+  } catch (error) {
+    logger.error('Project', 'Status change refused:', response.error)
+    throw error
   }
 
   const { data, error } = await supabase
     .from('projects')
-    .update(updateData)
+    .select('*')
     .eq('id', projectId)
-    .select()
     .single()
 
   if (error) {
-    logger.error('Project', 'Error updating project status:', error)
+    logger.error('Project', 'Error fetching updated project:', error)
     throw error
   }
 
   return data
 }
 
+/**
+ * Update project status
+ * @security Verifies project access before updating
+ * @throws ProjectTransitionError if the move isn't allowed
+ */
+export async function updateProjectStatus(
+  projectId: string,
+  status: ProjectStatus,
+  reason?: string
+): Promise<Project> {
+  // SECURITY: Verify the authenticated user has access to this project
+  await verifyProjectAccess(projectId)
+
+  return transitionProject(projectId, status, reason)
+}
+
 /**
  * Accept a task from the pool
  * @security Verifies ownership of doer record before accepting
@@ -250,27 +267,7 @@ export async function acceptTask(
   // SECURITY: Verify the authenticated user owns this doer record
   await verifyDoerOwnership(doerId)
 
-  const supabase = createClient()
-
-  const { data, error } = await supabase
-    .from('projects')
-    .update({
-      doer_id: doerId,
-      status: 'assigned' as ProjectStatus,
-      assigned_at: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
-    })
-    .eq('id', projectId)
-    .eq('status', 'available')
-    .select()
-    .single()
-
-  if (error) {
-    logger.error('Project', 'Error accepting task:', error)
-    throw error
-  }
-
-  return data
+  return transitionProject(projectId, 'assigned', 'Accepted by doer')
 }
 
 /**
@@ -281,10 +278,10 @@ export async function startProject(projectId: string): Promise<Project> {
 }
 
 /**
- * Submit project for review
+ * Submit project for QC
  */
 export async function submitProject(projectId: string): Promise<Project> {
-  return updateProjectStatus(projectId, 'submitted')
+  return updateProjectStatus(projectId, 'submitted_for_qc')
 }
 
 /**
@@ -313,7 +310,7 @@ export async function uploadDeliverable(
   const safeFileName = generateSafeFileName(file.name, projectId)
 
   const { data: uploadData, error: uploadError } = await supabase.storage
-    .from('deliverables')
+    .from(DELIVERABLE_BUCKET)
     .upload(safeFileName, file, {
       contentType: file.type,
       upsert: false,
@@ -324,11 +321,6 @@ export async function uploadDeliverable(
     throw uploadError
   }
 
-  // Get public URL
-  const { data: urlData } = supabase.storage
-    .from('deliverables')
-    .getPublicUrl(uploadData.path)
-
   // Get the latest version number
   const { data: existingDeliverables } = await supabase
     .from('project_deliverables')
@@ -348,7 +340,8 @@ export async function uploadDeliverable(
       project_id: projectId,
       uploaded_by: doerId,
       file_name: file.name,
-      file_url: urlData.publicUrl,
+      // Private bucket: the path is signed on demand for each viewer
+      file_url: uploadData.path,
       file_type: file.type,
       file_size_bytes: file.size,
       version: nextVersion,
@@ -492,28 +485,8 @@ export async function acceptPoolTask(
   // SECURITY: Verify the authenticated user owns this doer record
   await verifyDoerOwnership(doerId)
 
-  const supabase = createClient()
-
-  const { data, error } = await supabase
-    .from('projects')
-    .update({
-      doer_id: doerId,
-      status: 'assigned' as ProjectStatus,
-      doer_assigned_at: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
-    })
-    .eq('id', projectId)
-    .is('doer_id', null)
-    .eq('status', 'paid')
-    .select()
-    .single()
-
-  if (error) {
-    logger.error('Project', 'Error accepting pool task:', error)
-    throw error
-  }
-
-  return data
+  // The state machine only hands out projects still in the pool
+  return transitionProject(projectId, 'assigned', 'Taken from the pool')
 }
 
 /**
@@ -4,13 +4,14 @@
  */
 
 import { createClient } from '@/lib/supabase/client'
+import { API_ROUTES } from '@/lib/constants'
 import type {
   TrainingModule,
   TrainingProgress,
   FormatTemplate,
   Citation,
+  CitationSource,
   AIReport,
-  ReferenceStyleType,
 } from '@/types/database'
 
 /**
@@ -165,46 +166,23 @@ export async function incrementTemplateDownload(templateId: string): Promise<voi
 }
 
 /**
- * Generate citation from URL
+ * Look up citation metadata for a URL, DOI or ISBN
+ * The lookup runs server-side; format the result with formatCitation
+ * @param input - Identifier as entered by the user
  */
-export async function generateCitation(
-  url: string,
-  style: ReferenceStyleType
-): Promise<string> {
-  // This would typically call an external API for citation generation
-  // For now, we'll return a formatted placeholder based on style
-
-  const currentDate = new Date()
-  const accessDate = currentDate.toLocaleDateString('en-US', {
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric',
+export async function lookupCitation(input: string): Promise<CitationSource> {
+  const response = await fetch(API_ROUTES.resources.citation, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ input }),
   })
+  const data = await response.json()
 
-  // Extract domain for basic formatting
-  let domain = ''
-  try {
-    domain = new URL(url).hostname.replace('www.', '')
-  } catch {
-    domain = 'Unknown Source'
+  if (!response.ok) {
+    throw new Error(data.error || 'Citation lookup failed')
   }
 
-  switch (style) {
-    case 'APA':
-      return `${domain}. (n.d.). Retrieved ${accessDate}, from ${url}`
-    case 'Harvard':
-      return `${domain} (n.d.) Available at: ${url} (Accessed: ${accessDate}).`
-    case 'MLA':
-      return `"${domain}." Web. ${accessDate}. <${url}>.`
-    case 'Chicago':
-      return `"${domain}." Accessed ${accessDate}. ${url}.`
-    case 'IEEE':
-      return `[Online]. Available: ${url}. [Accessed: ${accessDate}].`
-    case 'Vancouver':
-      return `${domain} [Internet]. Available from: ${url} [cited ${accessDate}].`
-    default:
-      return `${domain}. ${url}. Accessed ${accessDate}.`
-  }
+  return data
 }
 
 /**
@@ -255,61 +233,33 @@ export async function getCitationHistory(doerId: string): Promise<Citation[]> {
 }
 
 /**
- * Check AI content percentage
- * This would typically integrate with an external AI detection API
+ * Check pasted text or a document (.txt, .docx, .pdf) for AI content
+ * Scored server-side by the analyzer QC uses, and stored as a self-check
+ * @param content - Text or file to check
+ * @param projectId - Optional project the check belongs to
  */
 export async function checkAIContent(
-  text: string,
-  doerId: string,
+  content: string | File,
   projectId?: string
 ): Promise<AIReport> {
-  const supabase = createClient()
-
-  // Simulated AI detection - in production, this would call an external API
-  // like Originality.ai, GPTZero, or similar services
-  const aiPercentage = Math.floor(Math.random() * 30) // Demo: random 0-30%
-  const originalityPercentage = 100 - aiPercentage
-
-  // Simulated breakdown
-  const detailedBreakdown = {
-    total_words: text.split(/\s+/).length,
-    sentences_analyzed: text.split(/[.!?]+/).length,
-    ai_patterns_detected: Math.floor(aiPercentage / 5),
-    confidence_score: 0.85 + Math.random() * 0.15,
-    sections: [
-      { name: 'Introduction', ai_percentage: Math.random() * 20 },
-      { name: 'Body', ai_percentage: aiPercentage },
-      { name: 'Conclusion', ai_percentage: Math.random() * 25 },
-    ],
+  const formData = new FormData()
+  if (typeof content === 'string') {
+    formData.append('text', content)
+  } else {
+    formData.append('file', content)
+  }
+  if (projectId) {
+    formData.append('projectId', projectId)
   }
 
-  const { data, error } = await supabase
-    .from('ai_reports')
-    .insert({
-      doer_id: doerId,
-      project_id: projectId || null,
-      input_text: text.substring(0, 10000), // Limit stored text
-      ai_percentage: aiPercentage,
-      originality_percentage: originalityPercentage,
-      detailed_breakdown: detailedBreakdown,
-    })
-    .select()
-    .single()
+  const response = await fetch(API_ROUTES.resources.aiReport, {
+    method: 'POST',
+    body: formData,
+  })
+  const data = await response.json()
 
-  if (error) {
-    console.error('Error saving AI report:', error)
-    // Return a temporary report even if save fails
-    return {
-      id: 'temp-' + Date.now(),
-      doer_id: doerId,
-      project_id: projectId || null,
-      input_text: text.substring(0, 1000),
-      file_url: null,
-      ai_percentage: aiPercentage,
-      originality_percentage: originalityPercentage,
-      detailed_breakdown: detailedBreakdown,
-      created_at: new Date().toISOString(),
-    }
+  if (!response.ok) {
+    throw new Error(data.error || 'AI check failed')
   }
 
   return data
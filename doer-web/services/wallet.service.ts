@@ -8,6 +8,12 @@ import { createClient } from '@/lib/supabase/client'
 import { verifyProfileOwnership, getAuthenticatedUser, ForbiddenError } from '@/lib/auth-helpers'
 import { logger } from '@/lib/logger'
 import type { Wallet, WalletTransaction, EarningsData, TransactionType } from '@/types/database'
+import {
+  EARNINGS_BALANCE_RPC,
+  EMPTY_EARNINGS_BALANCE,
+  toEarningsBalance,
+  type EarningsBalance,
+} from '@shared/earnings-ledger'
 
 /**
  * Transaction filter options
@@ -177,6 +183,23 @@ export async function getEarningsData(
   return result.sort((a, b) => a.date.localeCompare(b.date))
 }
 
+/**
+ * Get the signed-in doer's balances from the earnings ledger
+ * @returns Pending (held in escrow) and available (released) earnings
+ */
+export async function getEarningsBalance(): Promise<EarningsBalance> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase.rpc(EARNINGS_BALANCE_RPC)
+
+  if (error) {
+    logger.error('Wallet', 'Error fetching earnings balance:', error)
+    return { ...EMPTY_EARNINGS_BALANCE }
+  }
+
+  return toEarningsBalance(data)
+}
+
 /**
  * Get total earnings summary
  * @param profileId - The profile ID
@@ -185,6 +208,7 @@ export async function getEarningsData(
  */
 export async function getEarningsSummary(profileId: string): Promise<{
   totalEarnings: number
+  pendingEarnings: number
   pendingPayout: number
   completedPayouts: number
   currentBalance: number
@@ -195,16 +219,20 @@ export async function getEarningsSummary(profileId: string): Promise<{
   if (!wallet) {
     return {
       totalEarnings: 0,
+      pendingEarnings: 0,
       pendingPayout: 0,
       completedPayouts: 0,
       currentBalance: 0,
     }
   }
 
+  const balance = await getEarningsBalance()
+
   return {
-    totalEarnings: Number(wallet.total_credited) || 0,
+    totalEarnings: balance.released,
+    pendingEarnings: balance.pending,
     pendingPayout: Number(wallet.locked_amount) || 0,
-    completedPayouts: Number(wallet.total_withdrawn) || 0,
-    currentBalance: Number(wallet.balance) || 0,
+    completedPayouts: balance.withdrawn,
+    currentBalance: balance.available,
   }
 }
@@ -67,6 +67,7 @@ export type {
   WalletTransaction,
   Payout,
   PayoutRequest,
+  PayoutRequestWithPayout,
   EarningsData,
 } from './finance.types'
 
@@ -85,8 +86,13 @@ export type {
   TemplateCategory,
   ReferenceStyle,
   FormatTemplate,
+  CitationSourceType,
+  CitationInputType,
+  CitationAuthor,
+  CitationSource,
   Citation,
   AIReport,
+  AIReportBreakdown,
 } from './resources.types'
 
 // Import types for Database schema
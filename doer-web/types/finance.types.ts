@@ -3,6 +3,8 @@
  * @module types/finance
  */
 
+import type { PayoutMethod, PayoutRequestStatus } from '@shared/payouts'
+
 /**
  * Transaction type
  * Types of wallet transactions
@@ -13,6 +15,7 @@ export type TransactionType =
   | 'referral'        // Referral bonus
   | 'adjustment'      // Manual adjustment
   | 'payout'          // Withdrawal to bank
+  | 'withdrawal'      // Paid out through a payout request
   | 'refund'          // Refund from cancelled project
   | 'penalty'         // Penalty deduction
   | 'tax_deduction'   // Tax deductions
@@ -90,23 +93,19 @@ export interface WalletTransaction {
 
 /**
  * Payout interface
- * Withdrawal to bank/UPI
+ * Withdrawal to bank/UPI, created when an admin approves a payout request
  */
 export interface Payout {
   /** Unique identifier */
   id: string
-  /** Owner profile ID */
-  profile_id: string
-  /** Source wallet ID */
-  wallet_id: string
-  /** Requested amount */
+  /** Payee profile ID */
+  recipient_id: string
+  /** Payee role */
+  recipient_type: 'doer' | 'supervisor'
+  /** Amount paid out */
   amount: number
-  /** Processing fee */
-  fee: number
-  /** Net amount after fee */
-  net_amount: number
   /** Payment method */
-  payment_method: 'bank_transfer' | 'upi'
+  payout_method: PayoutMethod
   /** Bank account holder name */
   bank_account_name: string | null
   /** Bank account number */
@@ -119,8 +118,8 @@ export interface Payout {
   upi_id: string | null
   /** Payout status */
   status: PayoutStatus
-  /** Bank transaction ID */
-  transaction_id: string | null
+  /** Bank UTR or UPI reference once paid */
+  gateway_reference: string | null
   /** Failure reason */
   failure_reason: string | null
   /** Request timestamp */
@@ -133,7 +132,8 @@ export interface Payout {
 
 /**
  * Payout request interface
- * User-initiated withdrawal request
+ * User-initiated withdrawal request; the amount is held on the wallet until
+ * the payout settles
  */
 export interface PayoutRequest {
   /** Unique identifier */
@@ -141,19 +141,33 @@ export interface PayoutRequest {
   /** Owner profile ID */
   profile_id: string
   /** Requested amount */
-  amount: number
+  requested_amount: number
+  /** Amount approved by the admin */
+  approved_amount: number | null
   /** Payment method */
-  payment_method: 'bank_transfer' | 'upi'
-  /** Request status */
-  status: 'pending' | 'approved' | 'rejected' | 'processing' | 'completed'
+  payout_method: PayoutMethod
+  /** Request status, following the payout once approved */
+  status: PayoutRequestStatus
   /** Rejection reason */
   rejection_reason: string | null
+  /** Payout created on approval */
+  payout_id: string | null
   /** Creation timestamp */
   created_at: string
   /** Review timestamp */
   reviewed_at: string | null
   /** Reviewer ID */
   reviewed_by: string | null
+  /** Last status change */
+  updated_at: string | null
+}
+
+/**
+ * Payout request with its payout's reference and failure reason
+ */
+export interface PayoutRequestWithPayout extends PayoutRequest {
+  /** Payout, once approved */
+  payout: Pick<Payout, 'status' | 'gateway_reference' | 'failure_reason' | 'completed_at'> | null
 }
 
 /**
@@ -187,9 +187,9 @@ export interface DoerStats {
   activeAssignments: number
   /** Total completed projects */
   completedProjects: number
-  /** Total lifetime earnings */
+  /** Total lifetime earnings released by the ledger */
   totalEarnings: number
-  /** Pending/locked earnings */
+  /** Earnings held in escrow until the client approves */
   pendingEarnings: number
   /** Average overall rating */
   averageRating: number
@@ -210,7 +210,7 @@ export interface ProjectDeliverable {
   uploaded_by: string
   /** File name */
   file_name: string
-  /** Storage URL */
+  /** Object path in the private deliverables bucket */
   file_url: string
   /** MIME type */
   file_type: string | null
@@ -3,12 +3,78 @@
  * @module types/resources
  */
 
+import type { AIDetectionResult, AISegment } from '@shared/ai-detection'
+
 /**
  * Reference/citation style type
  * Academic citation formats
  */
 export type ReferenceStyleType = 'APA' | 'Harvard' | 'MLA' | 'Chicago' | 'IEEE' | 'Vancouver'
 
+/**
+ * Citation source type
+ * Kind of work being cited
+ */
+export type CitationSourceType = 'website' | 'book' | 'journal' | 'article' | 'other'
+
+/**
+ * Citation input type
+ * What the citation builder was given to look up
+ */
+export type CitationInputType = 'url' | 'doi' | 'isbn'
+
+/**
+ * Citation author
+ * Organisations have a family name only
+ */
+export interface CitationAuthor {
+  /** Given name(s) */
+  given?: string
+  /** Family name, or the full organisation name */
+  family: string
+}
+
+/**
+ * Citation source
+ * Bibliographic metadata a citation is rendered from
+ */
+export interface CitationSource {
+  /** Kind of work */
+  type: CitationSourceType
+  /** Title of the work */
+  title: string
+  /** Authors in citation order */
+  authors: CitationAuthor[]
+  /** Publication year */
+  year?: number
+  /** Publication month (1-12) */
+  month?: number
+  /** Publication day */
+  day?: number
+  /** Journal, newspaper or website name */
+  container_title?: string
+  /** Publisher */
+  publisher?: string
+  /** Place of publication */
+  place?: string
+  /** Edition number or description */
+  edition?: string
+  /** Journal volume */
+  volume?: string
+  /** Journal issue */
+  issue?: string
+  /** Page or page range, e.g. 45-67 */
+  pages?: string
+  /** DOI without the https://doi.org/ prefix */
+  doi?: string
+  /** ISBN */
+  isbn?: string
+  /** Source URL */
+  url?: string
+  /** Access date (ISO date) */
+  accessed?: string
+}
+
 /**
  * Template category type
  * Types of document templates
@@ -77,7 +143,7 @@ export interface Citation {
   /** Formatted citation text */
   formatted_citation: string
   /** Source type */
-  source_type: 'website' | 'book' | 'journal' | 'article' | 'other'
+  source_type: CitationSourceType
   /** Source title */
   title: string | null
   /** Author name(s) */
@@ -86,13 +152,24 @@ export interface Citation {
   publication_date: string | null
   /** Access date */
   access_date: string | null
+  /** Full source metadata (used for style changes and BibTeX/RIS export) */
+  metadata: CitationSource | null
   /** Creation timestamp */
   created_at: string
 }
 
+/**
+ * AI report breakdown
+ * Stored analyzer output; segments are scored per sentence
+ */
+export interface AIReportBreakdown extends Omit<AIDetectionResult, 'segments'> {
+  /** Sentence scores (capped for storage) */
+  segments: AISegment[]
+}
+
 /**
  * AI report interface
- * AI detection report
+ * AI detection report from a self-check or a supervisor QC run
  */
 export interface AIReport {
   /** Unique identifier */
@@ -105,12 +182,16 @@ export interface AIReport {
   input_text: string | null
   /** Uploaded file URL */
   file_url: string | null
+  /** Uploaded file name */
+  file_name: string | null
+  /** Who ran the check */
+  checked_by_role: 'doer' | 'supervisor'
   /** AI content percentage */
   ai_percentage: number
   /** Original content percentage */
   originality_percentage: number
   /** Detailed analysis */
-  detailed_breakdown: Record<string, unknown> | null
+  detailed_breakdown: AIReportBreakdown | null
   /** Creation timestamp */
   created_at: string
 }
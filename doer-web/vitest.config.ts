@@ -11,6 +11,7 @@ export default defineConfig({
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './'),
+      '@shared': path.resolve(__dirname, '../shared'),
     },
   },
 })
@@ -15,6 +15,9 @@ class DeliverableRepository {
 
   final SupabaseClient _client;
 
+  /// Private bucket holding the uploaded work files.
+  static const _deliverableBucket = 'deliverables';
+
   /// Gets the current user's ID.
   String? get _userId => _client.auth.currentUser?.id;
 
@@ -81,9 +84,10 @@ class DeliverableRepository {
     }
   }
 
-  /// Uploads a file to Supabase Storage.
+  /// Uploads a file to the private deliverables bucket.
   ///
-  /// Returns the public URL of the uploaded file.
+  /// Returns the object path of the uploaded file. The bucket has no public
+  /// URLs; the apps' servers sign the path for each viewer.
   Future<String?> uploadFile({
     required String projectId,
     required String filePath,
@@ -93,20 +97,15 @@ class DeliverableRepository {
       final file = File(filePath);
       final bytes = await file.readAsBytes();
 
-      // Create storage path: deliverables/{project_id}/{timestamp}_{filename}
+      // Create storage path: {project_id}/{timestamp}_{filename}
       final timestamp = DateTime.now().millisecondsSinceEpoch;
-      final storagePath = 'deliverables/$projectId/${timestamp}_$fileName';
+      final storagePath = '$projectId/${timestamp}_$fileName';
 
       await _client.storage
-          .from('project-files')
+          .from(_deliverableBucket)
           .uploadBinary(storagePath, bytes);
 
-      // Get public URL
-      final url = _client.storage
-          .from('project-files')
-          .getPublicUrl(storagePath);
-
-      return url;
+      return storagePath;
     } catch (e) {
       if (kDebugMode) {
         debugPrint('DeliverableRepository.uploadFile error: $e');
@@ -185,16 +184,20 @@ class DeliverableRepository {
         isFinal: isFinal,
       );
 
-      // 3. Update project status to 'delivered'
+      // 3. Submit for QC; status changes go through the state machine RPC,
+      // the database refuses direct status writes
       await _client.from('projects').update({
-        'status': 'delivered',
-        'delivered_at': DateTime.now().toIso8601String(),
         'progress_percentage': 100,
         'completion_notes': notes,
-        'status_updated_at': DateTime.now().toIso8601String(),
         'updated_at': DateTime.now().toIso8601String(),
       }).eq('id', projectId);
 
+      await _client.rpc('transition_project_status', params: {
+        'p_project_id': projectId,
+        'p_to_status': 'submitted_for_qc',
+        'p_reason': notes,
+      });
+
       return deliverable;
     } catch (e) {
       if (kDebugMode) {
@@ -17,6 +17,24 @@ class DoerProjectRepository {
   /// Gets the current doer's profile ID.
   String? get _userId => _client.auth.currentUser?.id;
 
+  /// Moves a project to [status] through the `transition_project_status` RPC.
+  ///
+  /// The database refuses direct status writes; the RPC checks the move,
+  /// applies the columns that go with it and records it in the status
+  /// history. Throws a [PostgrestException] whose message can be shown as is
+  /// when the move isn't allowed.
+  Future<void> _transitionStatus(
+    String projectId,
+    String status, {
+    String? reason,
+  }) async {
+    await _client.rpc('transition_project_status', params: {
+      'p_project_id': projectId,
+      'p_to_status': status,
+      'p_reason': reason,
+    });
+  }
+
   /// Fetches projects assigned to the current doer.
   ///
   /// Returns projects with status: assigned, in_progress, delivered, in_revision.
@@ -108,16 +126,10 @@ class DoerProjectRepository {
 
   /// Accepts a project from the open pool.
   ///
-  /// Updates the project's doer_id and status to 'assigned'.
+  /// Moves it to 'assigned'; the RPC sets the doer and assignment time.
   Future<bool> acceptProject(String projectId) async {
     try {
-      await _client.from('projects').update({
-        'doer_id': _userId,
-        'status': 'assigned',
-        'doer_assigned_at': DateTime.now().toIso8601String(),
-        'status_updated_at': DateTime.now().toIso8601String(),
-        'updated_at': DateTime.now().toIso8601String(),
-      }).eq('id', projectId);
+      await _transitionStatus(projectId, 'assigned');
 
       return true;
     } catch (e) {
@@ -133,11 +145,7 @@ class DoerProjectRepository {
   /// Updates status to 'in_progress'.
   Future<bool> startProject(String projectId) async {
     try {
-      await _client.from('projects').update({
-        'status': 'in_progress',
-        'status_updated_at': DateTime.now().toIso8601String(),
-        'updated_at': DateTime.now().toIso8601String(),
-      }).eq('id', projectId);
+      await _transitionStatus(projectId, 'in_progress');
 
       return true;
     } catch (e) {
@@ -167,18 +175,18 @@ class DoerProjectRepository {
 
   /// Submits project for supervisor review (delivers to QC).
   ///
-  /// Updates status to 'delivered'.
+  /// Updates status to 'submitted_for_qc'; the supervisor delivers it to the
+  /// client once it passes QC.
   Future<bool> submitForReview(String projectId, {String? notes}) async {
     try {
       await _client.from('projects').update({
-        'status': 'delivered',
-        'delivered_at': DateTime.now().toIso8601String(),
         'progress_percentage': 100,
         'completion_notes': notes,
-        'status_updated_at': DateTime.now().toIso8601String(),
         'updated_at': DateTime.now().toIso8601String(),
       }).eq('id', projectId);
 
+      await _transitionStatus(projectId, 'submitted_for_qc', reason: notes);
+
       return true;
     } catch (e) {
       if (kDebugMode) {
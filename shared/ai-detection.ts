@@ -0,0 +1,253 @@
+/**
+ * @fileoverview Heuristic AI-content analyzer shared by the doer self-check
+ * and the supervisor QC check, so both see the same numbers for the same text.
+ * Deterministic: the same input always gives the same scores.
+ * Shared by superviser-web and doer-web (imported as `@shared/...`).
+ * @module shared/ai-detection
+ */
+
+export interface AIDetectionResult {
+  id: string
+  file_name: string
+  ai_probability: number
+  human_probability: number
+  mixed_probability: number
+  overall_verdict: "human" | "ai_generated" | "mixed" | "uncertain"
+  confidence_level: "high" | "medium" | "low"
+  checked_at: string
+  segments: AISegment[]
+  /** Words and sentences the scores are based on */
+  word_count?: number
+  sentence_count?: number
+  status: "pending" | "processing" | "completed" | "failed"
+}
+
+/** Score for one sentence of the analyzed text */
+export interface AISegment {
+  id: string
+  text: string
+  start_index: number
+  end_index: number
+  classification: "human" | "ai_generated" | "mixed"
+  probability: number
+}
+
+/** Segment scores at or above this are classified as AI-generated */
+const AI_THRESHOLD = 60
+
+/** Segment scores at or below this are classified as human */
+const HUMAN_THRESHOLD = 40
+
+const TRANSITION_WORDS = [
+  "however", "therefore", "furthermore", "moreover", "additionally",
+  "consequently", "nevertheless", "meanwhile", "subsequently", "accordingly",
+  "similarly", "conversely", "specifically", "particularly", "notably",
+  "indeed", "certainly", "undoubtedly", "evidently", "apparently",
+]
+
+const FORMAL_WORDS = ["therefore", "furthermore", "consequently", "nevertheless", "accordingly", "subsequently"]
+
+const INFORMAL_WORDS = ["gonna", "wanna", "kinda", "sorta", "yeah", "nope", "okay", "ok"]
+
+const PASSIVE_PATTERN = /\b(is|are|was|were|been|being)\s+\w+ed\b/i
+
+const CONTRACTION_PATTERN = /\b\w+'(t|re|ve|ll|m|d)\b/i
+
+interface Sentence {
+  text: string
+  start: number
+  end: number
+  words: string[]
+}
+
+function countWords(words: string[], list: string[]): number {
+  return words.filter((w) => list.includes(w)).length
+}
+
+function toWords(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9']+/g) ?? []
+}
+
+/**
+ * Splits text into sentences with their character offsets.
+ */
+function splitSentences(text: string): Sentence[] {
+  const sentences: Sentence[] = []
+  for (const match of text.matchAll(/[^.!?]+[.!?]*/g)) {
+    const raw = match[0]
+    const leading = raw.length - raw.trimStart().length
+    const trimmed = raw.trim()
+    if (!trimmed) continue
+
+    const start = (match.index ?? 0) + leading
+    sentences.push({ text: trimmed, start, end: start + trimmed.length, words: toWords(trimmed) })
+  }
+  return sentences.filter((s) => s.words.length > 0)
+}
+
+function variance(numbers: number[]): number {
+  if (numbers.length === 0) return 0
+  const mean = numbers.reduce((a, b) => a + b, 0) / numbers.length
+  return numbers.reduce((sum, n) => sum + Math.pow(n - mean, 2), 0) / numbers.length
+}
+
+/**
+ * Three-word phrases used more than twice in the text.
+ */
+function repeatedTrigrams(words: string[]): Set<string> {
+  const counts = new Map<string, number>()
+  for (let i = 0; i + 3 <= words.length; i++) {
+    const trigram = words.slice(i, i + 3).join(" ")
+    counts.set(trigram, (counts.get(trigram) || 0) + 1)
+  }
+  return new Set(Array.from(counts).filter(([, c]) => c > 2).map(([t]) => t))
+}
+
+/**
+ * Document-level score from writing rhythm, vocabulary and phrasing.
+ */
+function scoreDocument(sentences: Sentence[], words: string[], repeated: Set<string>): number {
+  const lengthVariance = variance(sentences.map((s) => s.words.length))
+  const transitionRatio = countWords(words, TRANSITION_WORDS) / Math.max(words.length, 1)
+  const formal = countWords(words, FORMAL_WORDS)
+  const informal = countWords(words, INFORMAL_WORDS)
+  const formality = formal + informal === 0 ? 0.5 : formal / (formal + informal)
+  const uniqueRatio = new Set(words).size / Math.max(words.length, 1)
+  const starters = sentences.map((s) => s.words[0])
+  const starterVariety = starters.length ? new Set(starters).size / starters.length : 1
+
+  let score = 0
+
+  // Uniform sentence length suggests AI
+  if (lengthVariance < 15) score += 15
+  else if (lengthVariance < 25) score += 8
+
+  // Heavy use of transition words suggests AI
+  if (transitionRatio > 0.08) score += 20
+  else if (transitionRatio > 0.05) score += 10
+
+  // Repeated phrasing suggests AI
+  score += Math.min(repeated.size * 5, 20)
+
+  // Formal register suggests AI
+  if (formality > 0.7) score += 15
+  else if (formality > 0.5) score += 8
+
+  // Narrow vocabulary suggests AI
+  if (uniqueRatio < 0.4) score += 15
+  else if (uniqueRatio < 0.5) score += 8
+
+  // Sentences starting the same way suggest AI
+  if (starterVariety < 0.3) score += 15
+  else if (starterVariety < 0.5) score += 8
+
+  return Math.min(Math.max(score, 0), 100)
+}
+
+/**
+ * Sentence-level score from the signals visible in that sentence alone.
+ */
+function scoreSentence(
+  sentence: Sentence,
+  meanLength: number,
+  repeated: Set<string>,
+  starterCounts: Map<string, number>,
+  sentenceCount: number
+): number {
+  const { words } = sentence
+  let score = 20
+
+  if (countWords(words, TRANSITION_WORDS) > 0) score += 25
+  if (countWords(words, FORMAL_WORDS) > 0) score += 10
+  if (PASSIVE_PATTERN.test(sentence.text)) score += 10
+  if (sentenceCount >= 5 && Math.abs(words.length - meanLength) <= meanLength * 0.2) score += 15
+  if ((starterCounts.get(words[0]) || 0) >= 3) score += 10
+
+  for (let i = 0; i + 3 <= words.length; i++) {
+    if (repeated.has(words.slice(i, i + 3).join(" "))) {
+      score += 15
+      break
+    }
+  }
+
+  // Signals of human writing
+  if (countWords(words, INFORMAL_WORDS) > 0) score -= 15
+  if (CONTRACTION_PATTERN.test(sentence.text)) score -= 10
+  if (/[?!]$/.test(sentence.text)) score -= 5
+  if (words.length < 8) score -= 10
+
+  return Math.min(Math.max(score, 0), 100)
+}
+
+function classify(probability: number): AISegment["classification"] {
+  if (probability >= AI_THRESHOLD) return "ai_generated"
+  if (probability <= HUMAN_THRESHOLD) return "human"
+  return "mixed"
+}
+
+/**
+ * Analyzes text for AI-generated content patterns.
+ * The overall probability comes from document-wide patterns; every sentence
+ * gets its own score, blending the document score with its local signals.
+ * Segment offsets index into `content` as passed.
+ * @param content - Text to analyze
+ * @param fileName - Name shown on the report
+ */
+export function analyzeForAI(content: string, fileName = "content-analysis"): AIDetectionResult {
+  const sentences = splitSentences(content)
+  const words = sentences.flatMap((s) => s.words)
+  const repeated = repeatedTrigrams(words)
+
+  const aiProbability = Math.round(scoreDocument(sentences, words, repeated))
+  const humanProbability = 100 - aiProbability
+  const mixedProbability = Math.min(aiProbability, humanProbability)
+
+  let verdict: AIDetectionResult["overall_verdict"]
+  let confidenceLevel: AIDetectionResult["confidence_level"]
+
+  if (words.length < 50) {
+    verdict = "uncertain"
+    confidenceLevel = "low"
+  } else if (aiProbability >= 70) {
+    verdict = "ai_generated"
+    confidenceLevel = aiProbability >= 85 ? "high" : "medium"
+  } else if (aiProbability <= 30) {
+    verdict = "human"
+    confidenceLevel = aiProbability <= 15 ? "high" : "medium"
+  } else {
+    verdict = "mixed"
+    confidenceLevel = "low"
+  }
+
+  const meanLength = words.length / Math.max(sentences.length, 1)
+  const starterCounts = new Map<string, number>()
+  sentences.forEach((s) => starterCounts.set(s.words[0], (starterCounts.get(s.words[0]) || 0) + 1))
+
+  const segments = sentences.map((sentence, index): AISegment => {
+    const local = scoreSentence(sentence, meanLength, repeated, starterCounts, sentences.length)
+    const probability = Math.round((aiProbability + local) / 2)
+    return {
+      id: `seg-${index}`,
+      text: sentence.text,
+      start_index: sentence.start,
+      end_index: sentence.end,
+      classification: classify(probability),
+      probability,
+    }
+  })
+
+  return {
+    id: `ai-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+    file_name: fileName,
+    overall_verdict: verdict,
+    confidence_level: confidenceLevel,
+    ai_probability: aiProbability,
+    human_probability: humanProbability,
+    mixed_probability: mixedProbability,
+    segments,
+    word_count: words.length,
+    sentence_count: sentences.length,
+    checked_at: new Date().toISOString(),
+    status: "completed",
+  }
+}
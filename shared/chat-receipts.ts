@@ -0,0 +1,158 @@
+/**
+ * @fileoverview Chat receipt model: whether each participant of a room has
+ * had a message delivered to them or read it, and the sent / delivered / read
+ * ticks derived from that.
+ * Receipts are rows of `chat_read_receipts`, written by the
+ * `mark_chat_messages_delivered` and `mark_room_messages_as_read` RPCs, which
+ * also broadcast a `receipts` event on the room's `chat:<roomId>` channel.
+ * Shared by user-web, superviser-web and doer-web (imported as `@shared/...`).
+ * @module shared/chat-receipts
+ */
+
+export type ReceiptStatus = "sent" | "delivered" | "read"
+
+/** A row of `chat_read_receipts` */
+export interface ChatReceipt {
+  message_id: string
+  profile_id: string
+  delivered_at: string | null
+  read_at: string | null
+}
+
+/**
+ * Payload of the `receipts` broadcast: every message in the room not sent by
+ * `profile_id` and created at or before `at` was delivered to / read by them
+ */
+export interface ChatReceiptEvent {
+  profile_id: string
+  status: "delivered" | "read"
+  at: string
+}
+
+/** Someone in the room who can receive messages */
+export interface ReceiptParticipant {
+  profile_id: string
+  name: string
+  role?: string | null
+}
+
+/** Where one message stands for one recipient */
+export interface ParticipantReceipt extends ReceiptParticipant {
+  status: ReceiptStatus
+  at: string | null
+}
+
+/** Where one message stands overall and per recipient */
+export interface MessageReceiptSummary {
+  /** `read` once every recipient has read it, `delivered` once every recipient has it */
+  status: ReceiptStatus
+  recipients: ParticipantReceipt[]
+}
+
+/** Receipts by message ID, then by profile ID */
+export type ReceiptIndex = Record<string, Record<string, ChatReceipt>>
+
+/** Broadcast event name on the room channel */
+export const CHAT_RECEIPT_EVENT = "receipts"
+
+/**
+ * Realtime channel name for a chat room, the same in every app so receipts
+ * broadcast by the database reach all of them
+ */
+export function chatRoomTopic(roomId: string): string {
+  return `chat:${roomId}`
+}
+
+/**
+ * Adds receipt rows to an index (returns a new index)
+ */
+export function indexReceipts(receipts: ChatReceipt[], index: ReceiptIndex = {}): ReceiptIndex {
+  const next: ReceiptIndex = { ...index }
+  for (const receipt of receipts) {
+    next[receipt.message_id] = { ...next[receipt.message_id], [receipt.profile_id]: receipt }
+  }
+  return next
+}
+
+/**
+ * Applies a `receipts` broadcast to the loaded messages (returns a new index)
+ * @param index - Current receipts
+ * @param messages - Messages loaded in the room
+ * @param event - The broadcast payload
+ */
+export function applyReceiptEvent(
+  index: ReceiptIndex,
+  messages: { id: string; sender_id: string; created_at: string | null }[],
+  event: ChatReceiptEvent
+): ReceiptIndex {
+  const upTo = new Date(event.at).getTime()
+  const updates: ChatReceipt[] = []
+
+  for (const message of messages) {
+    if (message.sender_id === event.profile_id) continue
+    if (message.created_at && new Date(message.created_at).getTime() > upTo) continue
+
+    const current = index[message.id]?.[event.profile_id]
+    const deliveredAt = current?.delivered_at ?? event.at
+    const readAt = current?.read_at ?? (event.status === "read" ? event.at : null)
+    if (current && current.delivered_at === deliveredAt && current.read_at === readAt) continue
+
+    updates.push({
+      message_id: message.id,
+      profile_id: event.profile_id,
+      delivered_at: deliveredAt,
+      read_at: readAt,
+    })
+  }
+
+  return updates.length > 0 ? indexReceipts(updates, index) : index
+}
+
+/**
+ * Sent / delivered / read state of a message for everyone except its sender
+ * @param message - The message
+ * @param index - Receipts
+ * @param participants - Everyone in the room
+ */
+export function summarizeReceipts(
+  message: { id: string; sender_id: string },
+  index: ReceiptIndex,
+  participants: ReceiptParticipant[]
+): MessageReceiptSummary {
+  const receipts = index[message.id] ?? {}
+
+  const recipients: ParticipantReceipt[] = participants
+    .filter((participant) => participant.profile_id !== message.sender_id)
+    .map((participant) => {
+      const receipt = receipts[participant.profile_id]
+      if (receipt?.read_at) return { ...participant, status: "read", at: receipt.read_at }
+      if (receipt?.delivered_at) return { ...participant, status: "delivered", at: receipt.delivered_at }
+      return { ...participant, status: "sent", at: null }
+    })
+
+  let status: ReceiptStatus = "sent"
+  if (recipients.length > 0 && recipients.every((r) => r.status === "read")) {
+    status = "read"
+  } else if (recipients.length > 0 && recipients.every((r) => r.status !== "sent")) {
+    status = "delivered"
+  }
+
+  return { status, recipients }
+}
+
+/**
+ * One line describing who has read / received a message, e.g.
+ * "Read by Priya · Delivered to Rahul"
+ */
+export function describeReceipts(summary: MessageReceiptSummary): string {
+  const names = (status: ReceiptStatus) =>
+    summary.recipients.filter((r) => r.status === status).map((r) => r.name).join(", ")
+
+  return [
+    names("read") && `Read by ${names("read")}`,
+    names("delivered") && `Delivered to ${names("delivered")}`,
+    names("sent") && `Sent to ${names("sent")}`,
+  ]
+    .filter(Boolean)
+    .join(" · ") || "Sent"
+}
@@ -0,0 +1,104 @@
+/**
+ * @fileoverview Who may open a project deliverable, and how.
+ * Deliverables live in the private `deliverables` bucket
+ * (`20261019_024_private_deliverables.sql`) and are only handed out as
+ * short-lived signed URLs. The doer, the supervisor and admins always get the
+ * file; the student gets a watermarked preview of QC-approved versions while
+ * reviewing, and the file once the project is approved and paid for.
+ * Shared by user-web, superviser-web and doer-web (imported as `@shared/...`).
+ * @module shared/deliverable-access
+ */
+
+import type { ProjectStatus } from "./project-status"
+
+/** Private bucket holding the uploaded files */
+export const DELIVERABLE_BUCKET = "deliverables"
+
+/** Private bucket holding the generated previews */
+export const DELIVERABLE_PREVIEW_BUCKET = "deliverable-previews"
+
+/** Lifetime of a download link, in seconds */
+export const DELIVERABLE_URL_TTL_SECONDS = 60
+
+/** Lifetime of a preview link, in seconds (long enough to read it) */
+export const DELIVERABLE_PREVIEW_TTL_SECONDS = 10 * 60
+
+/** Pages of the document a preview shows */
+export const DELIVERABLE_PREVIEW_PAGES = 2
+
+export const DELIVERABLE_PREVIEW_WATERMARK = "PREVIEW – AssignX"
+
+/** How the viewer is related to the project */
+export type DeliverableViewerRole = "user" | "doer" | "supervisor" | "admin"
+
+/** What the viewer may open: the file itself, only its preview, or nothing */
+export type DeliverableAccess = "file" | "preview" | "none"
+
+/** `project_deliverables.preview_status` */
+export type DeliverablePreviewStatus = "pending" | "ready" | "unsupported" | "failed"
+
+/**
+ * What a preview shows: the document's own first pages (PDFs and images),
+ * or only their text re-set on plain pages (office and text documents)
+ */
+export type DeliverablePreviewKind = "pages" | "text"
+
+/** `deliverable_downloads.kind` */
+export type DeliverableDownloadKind = "file" | "preview"
+
+/** Statuses in which the student is reviewing delivered work */
+export const DELIVERABLE_REVIEW_STATUSES: ProjectStatus[] = [
+  "qc_approved",
+  "delivered",
+  "revision_requested",
+  "in_revision",
+]
+
+/** Statuses in which the student has accepted the work */
+export const DELIVERABLE_RELEASED_STATUSES: ProjectStatus[] = ["completed", "auto_approved"]
+
+/** Extensions whose preview shows the document's own pages */
+const PAGE_PREVIEW_EXTENSIONS = ["pdf", "png", "jpg", "jpeg"]
+
+/** Marks public URLs saved before the bucket went private */
+const PUBLIC_URL_MARKER = `/storage/v1/object/public/${DELIVERABLE_BUCKET}/`
+
+/**
+ * Decides what a viewer may open.
+ * @param role - The viewer's relation to the project
+ * @param project - Status and payment state of the project
+ * @param deliverable - QC state of the version asked for
+ */
+export function deliverableAccess(
+  role: DeliverableViewerRole,
+  project: { status: string | null; is_paid: boolean | null },
+  deliverable: { qc_status: string | null }
+): DeliverableAccess {
+  if (role !== "user") return "file"
+
+  const status = project.status as ProjectStatus
+  if (deliverable.qc_status !== "approved") return "none"
+  if (DELIVERABLE_RELEASED_STATUSES.includes(status)) return project.is_paid ? "file" : "preview"
+  if (DELIVERABLE_REVIEW_STATUSES.includes(status)) return "preview"
+  return "none"
+}
+
+/**
+ * Object path of a deliverable in {@link DELIVERABLE_BUCKET}.
+ * `file_url` holds the path; rows written before the bucket went private
+ * may still hold a public URL.
+ */
+export function deliverableObjectPath(fileUrl: string): string {
+  const marker = fileUrl.indexOf(PUBLIC_URL_MARKER)
+  if (marker < 0) return fileUrl
+  return decodeURIComponent(fileUrl.slice(marker + PUBLIC_URL_MARKER.length).split("?")[0])
+}
+
+/**
+ * What the preview of a deliverable shows, from its file name.
+ */
+export function deliverablePreviewKind(fileName: string): DeliverablePreviewKind {
+  const dot = fileName.lastIndexOf(".")
+  const extension = dot >= 0 ? fileName.slice(dot + 1).toLowerCase() : ""
+  return PAGE_PREVIEW_EXTENSIONS.includes(extension) ? "pages" : "text"
+}
@@ -0,0 +1,255 @@
+/**
+ * @fileoverview Plain text extraction from uploaded documents.
+ * Handles text, HTML, DOCX, ODT and text-based PDF files with Node built-ins
+ * only. Shared by user-web, superviser-web and doer-web (imported as
+ * `@shared/...`).
+ * Server-side only (uses zlib).
+ * @module shared/document-text
+ */
+
+import { inflateRawSync, inflateSync } from "zlib"
+
+/** Extensions read as plain text */
+const TEXT_EXTENSIONS = ["txt", "md", "csv", "tex"]
+
+/** Extensions read as markup */
+const HTML_EXTENSIONS = ["html", "htm"]
+
+/** Formats that can be read, for user-facing messages */
+export const SUPPORTED_DOCUMENT_FORMATS = "DOCX, PDF, ODT, TXT, MD or HTML"
+
+/** Zip entry holding the body text of office documents */
+const OFFICE_ENTRIES: Record<string, string> = {
+  docx: "word/document.xml",
+  odt: "content.xml",
+}
+
+/** TJ offsets (thousandths of an em) wide enough to be a word gap */
+const PDF_WORD_GAP = -200
+
+function getExtension(fileName: string): string {
+  const dot = fileName.lastIndexOf(".")
+  return dot >= 0 ? fileName.slice(dot + 1).toLowerCase() : ""
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&nbsp;/g, " ")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&")
+}
+
+function normalizeWhitespace(text: string): string {
+  return text
+    .replace(/[ \t]+/g, " ")
+    .replace(/\n\s*\n+/g, "\n\n")
+    .trim()
+}
+
+/**
+ * Strips markup, keeping paragraph and tab breaks as whitespace.
+ */
+function markupToText(markup: string): string {
+  const text = markup
+    .replace(/<(script|style)[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<\/(w:p|text:p|text:h|p|div|li|h[1-6]|tr)>|<br\s*\/?>/gi, "\n")
+    .replace(/<(w:tab|text:tab|w:br)\b[^>]*\/?>/gi, " ")
+    .replace(/<[^>]+>/g, "")
+
+  return normalizeWhitespace(decodeEntities(text))
+}
+
+/**
+ * Reads one entry from a zip archive via its central directory.
+ * Returns null if the entry is missing or uses an unsupported compression.
+ */
+function readZipEntry(zip: Buffer, entryName: string): Buffer | null {
+  // End of central directory record is in the last 64KB + 22 bytes
+  const searchFrom = Math.max(0, zip.length - 0xffff - 22)
+  let eocd = -1
+  for (let i = zip.length - 22; i >= searchFrom; i--) {
+    if (zip.readUInt32LE(i) === 0x06054b50) {
+      eocd = i
+      break
+    }
+  }
+  if (eocd < 0) return null
+
+  const entryCount = zip.readUInt16LE(eocd + 10)
+  let offset = zip.readUInt32LE(eocd + 16)
+
+  for (let i = 0; i < entryCount && offset + 46 <= zip.length; i++) {
+    if (zip.readUInt32LE(offset) !== 0x02014b50) return null
+
+    const method = zip.readUInt16LE(offset + 10)
+    const compressedSize = zip.readUInt32LE(offset + 20)
+    const nameLength = zip.readUInt16LE(offset + 28)
+    const extraLength = zip.readUInt16LE(offset + 30)
+    const commentLength = zip.readUInt16LE(offset + 32)
+    const localOffset = zip.readUInt32LE(offset + 42)
+    const name = zip.toString("utf8", offset + 46, offset + 46 + nameLength)
+
+    if (name === entryName) {
+      const localNameLength = zip.readUInt16LE(localOffset + 26)
+      const localExtraLength = zip.readUInt16LE(localOffset + 28)
+      const dataStart = localOffset + 30 + localNameLength + localExtraLength
+      const data = zip.subarray(dataStart, dataStart + compressedSize)
+
+      if (method === 0) return data
+      if (method === 8) return inflateRawSync(data)
+      return null
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+
+  return null
+}
+
+/**
+ * Decodes a PDF literal string body (the part between the parentheses).
+ */
+function decodePdfString(value: string): string {
+  return value.replace(/\\(\d{1,3}|.)/g, (_, escaped: string) => {
+    if (/^\d+$/.test(escaped)) return String.fromCharCode(parseInt(escaped, 8))
+    switch (escaped) {
+      case "n":
+        return "\n"
+      case "r":
+        return "\r"
+      case "t":
+        return "\t"
+      case "b":
+      case "f":
+        return ""
+      default:
+        return escaped
+    }
+  })
+}
+
+/**
+ * Pulls the shown text out of a page content stream.
+ */
+function contentStreamToText(content: string): string {
+  const parts: string[] = []
+  const blocks = content.match(/\bBT\b[\s\S]*?\bET\b/g) ?? []
+
+  for (const block of blocks) {
+    const operators = /\[((?:\((?:\\.|[^\\)])*\)|[^\]])*)\]\s*TJ|\(((?:\\.|[^\\)])*)\)\s*(?:Tj|'|")|(T\*|Td|TD|Tm)(?![A-Za-z])/g
+    let match: RegExpExecArray | null
+    while ((match = operators.exec(block)) !== null) {
+      if (match[1] !== undefined) {
+        const items = /\(((?:\\.|[^\\)])*)\)|(-?\d+(?:\.\d+)?)/g
+        let item: RegExpExecArray | null
+        while ((item = items.exec(match[1])) !== null) {
+          if (item[1] !== undefined) parts.push(decodePdfString(item[1]))
+          else if (Number(item[2]) < PDF_WORD_GAP) parts.push(" ")
+        }
+      } else if (match[2] !== undefined) {
+        parts.push(decodePdfString(match[2]))
+      } else {
+        parts.push(" ")
+      }
+    }
+    parts.push("\n")
+  }
+
+  return parts.join("")
+}
+
+/**
+ * Extracts text from a text-based PDF by inflating its content streams.
+ * Scanned PDFs and fonts with custom encodings yield little or no text.
+ */
+function pdfToText(pdf: Buffer): string {
+  const raw = pdf.toString("latin1")
+  // Object header (dictionary) up to "stream", then the raw stream data
+  const streams = /\bobj\b((?:(?!\bobj\b)[\s\S])*?)\bstream\r?\n([\s\S]*?)(?:\r?\n)?endstream/g
+  const pages: string[] = []
+  let match: RegExpExecArray | null
+
+  while ((match = streams.exec(raw)) !== null) {
+    const [, dictionary, body] = match
+    // Skip images, fonts and other binary streams
+    if (/\/Subtype\s*\/(Image|Form)|\/Length1|\/Type\s*\/XRef/.test(dictionary)) continue
+
+    let content = body
+    if (/\/FlateDecode/.test(dictionary)) {
+      try {
+        content = inflateSync(Buffer.from(body, "latin1")).toString("latin1")
+      } catch {
+        continue
+      }
+    } else if (/\/Filter/.test(dictionary)) {
+      continue
+    }
+
+    const text = contentStreamToText(content)
+    if (text.trim()) pages.push(text)
+  }
+
+  return normalizeWhitespace(pages.join("\n"))
+}
+
+/**
+ * Extracts plain text from a document.
+ * @param data - File contents
+ * @param fileName - Used to detect the format from its extension
+ * @param mimeType - Optional MIME type, used when the name has no extension
+ * @returns Extracted text, or null if the format is not supported
+ */
+export function extractDocumentText(
+  data: Buffer,
+  fileName: string,
+  mimeType?: string | null
+): string | null {
+  const extension = getExtension(fileName)
+
+  if (TEXT_EXTENSIONS.includes(extension) || (!extension && mimeType?.startsWith("text/plain"))) {
+    return data.toString("utf8")
+  }
+
+  if (HTML_EXTENSIONS.includes(extension) || (!extension && mimeType === "text/html")) {
+    return markupToText(data.toString("utf8"))
+  }
+
+  if (extension === "pdf" || (!extension && mimeType === "application/pdf")) {
+    return pdfToText(data)
+  }
+
+  const entry = OFFICE_ENTRIES[extension]
+  if (entry) {
+    try {
+      const xml = readZipEntry(data, entry)
+      return xml ? markupToText(xml.toString("utf8")) : null
+    } catch (error) {
+      console.error("Failed to read document archive:", error)
+      return null
+    }
+  }
+
+  return null
+}
+
+/**
+ * Downloads a stored file and extracts its text.
+ * @throws Error if the download fails
+ */
+export async function downloadDocumentText(
+  url: string,
+  fileName: string,
+  mimeType?: string | null
+): Promise<string | null> {
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new Error(`Failed to download ${fileName}: ${response.status}`)
+  }
+  const data = Buffer.from(await response.arrayBuffer())
+  return extractDocumentText(data, fileName, mimeType)
+}
@@ -0,0 +1,52 @@
+/**
+ * @fileoverview Doer and supervisor balances from the earnings ledger.
+ * Project payments are held in escrow and released into earnings accounts
+ * when the work is accepted (`20261019_022_earnings_ledger.sql`). The
+ * `get_earnings_balance` RPC returns the caller's balances; this module
+ * normalises them for the earnings pages.
+ * Shared by doer-web and superviser-web (imported as `@shared/...`).
+ * @module shared/earnings-ledger
+ */
+
+/** Name of the RPC both apps call */
+export const EARNINGS_BALANCE_RPC = "get_earnings_balance"
+
+/** Caller's balances, in rupees */
+export interface EarningsBalance {
+  /** Released and not yet withdrawn */
+  available: number
+  /** Their share of projects paid for but not yet accepted */
+  pending: number
+  /** Everything ever released to them */
+  released: number
+  /** Paid out of the earnings account */
+  withdrawn: number
+}
+
+export const EMPTY_EARNINGS_BALANCE: EarningsBalance = {
+  available: 0,
+  pending: 0,
+  released: 0,
+  withdrawn: 0,
+}
+
+function toAmount(value: unknown): number {
+  const amount = Number(value)
+  return Number.isFinite(amount) ? Math.round(amount * 100) / 100 : 0
+}
+
+/**
+ * Reads the JSON returned by `get_earnings_balance`. Missing or malformed
+ * fields count as zero.
+ */
+export function toEarningsBalance(data: unknown): EarningsBalance {
+  if (!data || typeof data !== "object") return { ...EMPTY_EARNINGS_BALANCE }
+
+  const row = data as Record<string, unknown>
+  return {
+    available: toAmount(row.available),
+    pending: toAmount(row.pending),
+    released: toAmount(row.released),
+    withdrawn: toAmount(row.withdrawn),
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * @fileoverview Client side of payout requests.
+ * Doers and supervisors request payouts through the `request_payout` RPC
+ * (`20261019_023_payout_requests.sql`), which holds the amount on their
+ * wallet until an admin pays or rejects it. A refused request comes back as a
+ * Postgres error whose `hint` is one of {@link PayoutRequestErrorCode}; this
+ * module turns it into a {@link PayoutRequestError} and checks amounts before
+ * the round trip.
+ * Shared by doer-web and superviser-web (imported as `@shared/...`).
+ * @module shared/payouts
+ */
+
+import type { PostgrestErrorLike } from "./project-status"
+
+export type PayoutMethod = "bank_transfer" | "upi"
+
+/** `payout_requests.status`: the request, then the payout it became */
+export type PayoutRequestStatus =
+  | "pending"
+  | "approved"
+  | "rejected"
+  | "cancelled"
+  | "processing"
+  | "completed"
+  | "failed"
+
+export type PayoutRequestErrorCode =
+  | "not_authenticated"
+  | "not_a_payee"
+  | "missing_payout_details"
+  | "below_minimum"
+  | "insufficient_balance"
+  | "weekly_limit_exceeded"
+  | "request_not_found"
+  | "illegal_transition"
+
+/** Names of the RPCs payees call */
+export const PAYOUT_REQUEST_RPC = "request_payout"
+export const CANCEL_PAYOUT_REQUEST_RPC = "cancel_payout_request"
+
+/** Smallest payout, in rupees (`payout_minimum_amount()`) */
+export const PAYOUT_MIN_AMOUNT = 500
+
+/** Most a payee can request in any 7 days, in rupees (`payout_weekly_limit()`) */
+export const PAYOUT_WEEKLY_LIMIT = 50000
+
+/** Requests still holding money on the wallet */
+export const OPEN_PAYOUT_REQUEST_STATUSES: PayoutRequestStatus[] = ["pending", "approved", "processing"]
+
+/** Requests that don't count towards the weekly limit */
+const REFUSED_PAYOUT_REQUEST_STATUSES: PayoutRequestStatus[] = ["rejected", "cancelled", "failed"]
+
+export const PAYOUT_REQUEST_STATUS_LABELS: Record<PayoutRequestStatus, string> = {
+  pending: "Awaiting review",
+  approved: "Approved",
+  rejected: "Rejected",
+  cancelled: "Cancelled",
+  processing: "Processing",
+  completed: "Paid",
+  failed: "Failed",
+}
+
+export const PAYOUT_METHOD_LABELS: Record<PayoutMethod, string> = {
+  bank_transfer: "Bank transfer",
+  upi: "UPI",
+}
+
+const ERROR_CODES: PayoutRequestErrorCode[] = [
+  "not_authenticated",
+  "not_a_payee",
+  "missing_payout_details",
+  "below_minimum",
+  "insufficient_balance",
+  "weekly_limit_exceeded",
+  "request_not_found",
+  "illegal_transition",
+]
+
+/**
+ * A payout request the database or the pre-check refused. `message` is
+ * written for end users.
+ */
+export class PayoutRequestError extends Error {
+  readonly code: PayoutRequestErrorCode | "unknown"
+
+  constructor(message: string, code: PayoutRequestErrorCode | "unknown") {
+    super(message)
+    this.name = "PayoutRequestError"
+    this.code = code
+  }
+}
+
+/**
+ * Turns an RPC error into a {@link PayoutRequestError}. Errors that did not
+ * come from the payout functions get code `unknown` and a generic message.
+ */
+export function toPayoutRequestError(error: PostgrestErrorLike): PayoutRequestError {
+  const code = ERROR_CODES.find((candidate) => candidate === error.hint)
+
+  if (!code) {
+    return new PayoutRequestError("Couldn't submit the payout request. Please try again.", "unknown")
+  }
+
+  return new PayoutRequestError(error.message, code)
+}
+
+function formatRupees(amount: number): string {
+  return `₹${amount.toLocaleString("en-IN")}`
+}
+
+/**
+ * Sum of requests made in the 7 days before `now` that count towards the
+ * weekly limit
+ */
+export function payoutRequestedThisWeek(
+  requests: { requested_amount: number; status: string | null; created_at: string | null }[],
+  now: Date = new Date()
+): number {
+  const since = now.getTime() - 7 * 24 * 60 * 60 * 1000
+
+  return requests
+    .filter((request) => !REFUSED_PAYOUT_REQUEST_STATUSES.includes(request.status as PayoutRequestStatus))
+    .filter((request) => request.created_at && new Date(request.created_at).getTime() > since)
+    .reduce((sum, request) => sum + (Number(request.requested_amount) || 0), 0)
+}
+
+/**
+ * Checks an amount against the same rules as `request_payout`, so forms can
+ * explain a refusal without a round trip. The database checks again.
+ * @returns The refusal, or null if the amount can be requested
+ */
+export function checkPayoutAmount(
+  amount: number,
+  limits: { available: number; requestedThisWeek: number }
+): PayoutRequestError | null {
+  if (!Number.isFinite(amount) || amount < PAYOUT_MIN_AMOUNT) {
+    return new PayoutRequestError(`The minimum payout is ${formatRupees(PAYOUT_MIN_AMOUNT)}`, "below_minimum")
+  }
+
+  if (amount > limits.available) {
+    return new PayoutRequestError(
+      `You can withdraw up to ${formatRupees(Math.max(limits.available, 0))}`,
+      "insufficient_balance"
+    )
+  }
+
+  const remaining = Math.max(PAYOUT_WEEKLY_LIMIT - limits.requestedThisWeek, 0)
+  if (amount > remaining) {
+    return new PayoutRequestError(
+      `You can request up to ${formatRupees(remaining)} more this week`,
+      "weekly_limit_exceeded"
+    )
+  }
+
+  return null
+}
+
+/**
+ * Message to show for any error thrown around a payout request
+ */
+export function describePayoutRequestError(error: unknown, fallback: string): string {
+  return error instanceof PayoutRequestError && error.code !== "unknown" ? error.message : fallback
+}
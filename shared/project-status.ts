@@ -0,0 +1,147 @@
+/**
+ * @fileoverview Client side of the project status state machine.
+ * Status changes go through the `transition_project_status` RPC, which checks
+ * the move against `project_status_transitions`, applies it and writes
+ * `project_status_history`. A rejected move comes back as a Postgres error
+ * whose `hint` is one of {@link ProjectTransitionErrorCode}; this module turns
+ * it into a {@link ProjectTransitionError} the UIs can show.
+ * Shared by user-web, superviser-web and doer-web (imported as `@shared/...`).
+ * @module shared/project-status
+ */
+
+export type ProjectStatus =
+  | "draft"
+  | "submitted"
+  | "analyzing"
+  | "quoted"
+  | "payment_pending"
+  | "paid"
+  | "assigning"
+  | "assigned"
+  | "in_progress"
+  | "submitted_for_qc"
+  | "qc_in_progress"
+  | "qc_approved"
+  | "qc_rejected"
+  | "delivered"
+  | "revision_requested"
+  | "in_revision"
+  | "completed"
+  | "auto_approved"
+  | "cancelled"
+  | "refunded"
+
+/** Who made a move, as recorded in `project_status_history.changed_by_type` */
+export type ProjectActorRole = "user" | "doer" | "supervisor" | "system"
+
+export type ProjectTransitionErrorCode =
+  | "not_authenticated"
+  | "project_not_found"
+  | "not_a_party"
+  | "illegal_transition"
+  | "role_not_allowed"
+  | "precondition_failed"
+
+/** What must hold before some moves (`project_status_transitions.requires`) */
+export type ProjectTransitionPrecondition =
+  | "is_paid"
+  | "quote_set"
+  | "doer_assigned"
+  | "deliverable_uploaded"
+  | "deliverable_approved"
+
+/** Name of the RPC every app calls */
+export const PROJECT_TRANSITION_RPC = "transition_project_status"
+
+/** Returned by `transition_project_status` */
+export interface ProjectTransitionResult {
+  project_id: string
+  from_status: ProjectStatus
+  to_status: ProjectStatus
+  actor_role: ProjectActorRole
+  history_id: string
+}
+
+/** The parts of a PostgREST error the RPC fills in */
+export interface PostgrestErrorLike {
+  message: string
+  code?: string | null
+  hint?: string | null
+  details?: string | null
+}
+
+const ERROR_CODES: ProjectTransitionErrorCode[] = [
+  "not_authenticated",
+  "project_not_found",
+  "not_a_party",
+  "illegal_transition",
+  "role_not_allowed",
+  "precondition_failed",
+]
+
+const PRECONDITIONS: ProjectTransitionPrecondition[] = [
+  "is_paid",
+  "quote_set",
+  "doer_assigned",
+  "deliverable_uploaded",
+  "deliverable_approved",
+]
+
+/**
+ * A status change the database refused. `message` is written for end users.
+ */
+export class ProjectTransitionError extends Error {
+  readonly code: ProjectTransitionErrorCode | "unknown"
+  /** Set when `code` is `precondition_failed` */
+  readonly precondition?: ProjectTransitionPrecondition
+
+  constructor(
+    message: string,
+    code: ProjectTransitionErrorCode | "unknown",
+    precondition?: ProjectTransitionPrecondition
+  ) {
+    super(message)
+    this.name = "ProjectTransitionError"
+    this.code = code
+    this.precondition = precondition
+  }
+}
+
+/**
+ * Turns an RPC error into a {@link ProjectTransitionError}. Errors that did
+ * not come from the state machine (network, timeouts) get code `unknown` and
+ * a generic message.
+ */
+export function toProjectTransitionError(error: PostgrestErrorLike): ProjectTransitionError {
+  const code = ERROR_CODES.find((candidate) => candidate === error.hint)
+
+  if (!code) {
+    return new ProjectTransitionError("Couldn't update the project status. Please try again.", "unknown")
+  }
+
+  const precondition =
+    code === "precondition_failed"
+      ? PRECONDITIONS.find((candidate) => candidate === error.details)
+      : undefined
+
+  return new ProjectTransitionError(error.message, code, precondition)
+}
+
+/**
+ * Reads the response of a `transition_project_status` call
+ * @throws ProjectTransitionError if the move was refused
+ */
+export function unwrapProjectTransition(response: {
+  data: unknown
+  error: PostgrestErrorLike | null
+}): ProjectTransitionResult {
+  if (response.error) throw toProjectTransitionError(response.error)
+  return response.data as ProjectTransitionResult
+}
+
+/**
+ * Message to show for any error thrown around a status change
+ */
+export function describeProjectTransitionError(error: unknown, fallback: string): string {
+  return error instanceof ProjectTransitionError && error.code !== "unknown" ? error.message : fallback
+}
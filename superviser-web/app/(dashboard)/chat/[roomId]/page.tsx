@@ -19,6 +19,7 @@ import {
 } from "@/components/chat"
 import { useChatRooms, useChatMessages, useUnreadMessages, useSupervisor } from "@/hooks"
 import { createClient } from "@/lib/supabase/client"
+import { summarizeReceipts } from "@shared/chat-receipts"
 
 export default function ChatRoomPage() {
   const params = useParams()
@@ -47,40 +48,57 @@ export default function ChatRoomPage() {
   // Hook for active room messages
   const {
     messages: activeMessages,
+    receipts,
     isLoading: messagesLoading,
     sendMessage,
     sendFile,
   } = useChatMessages(activeRoomId || "")
 
-  // Update messages map when active room messages change
+  // Update messages map when active room messages or their receipts change
   useEffect(() => {
     if (activeRoomId && activeMessages.length > 0) {
+      const participants = (
+        allRooms.find(room => room.id === activeRoomId)?.chat_participants || []
+      ).map(p => ({
+        profile_id: p.profile_id,
+        name: p.profiles?.full_name || p.participant_role,
+        role: p.participant_role,
+      }))
+
       setMessagesMap(prev => ({
         ...prev,
-        [activeRoomId]: activeMessages.map(msg => ({
-          id: msg.id,
-          room_id: msg.chat_room_id,
-          sender_id: msg.sender_id,
-          sender_name: msg.profiles?.full_name || "Unknown",
-          sender_role: (msg.profiles?.user_type as "user" | "supervisor" | "doer" | "support" | "system") || "user",
-          type: msg.message_type || "text",
-          content: msg.content || "",
-          file_url: msg.file_url || undefined,
-          file_name: msg.file_name || undefined,
-          file_size: msg.file_size_bytes || undefined,
-          is_read: msg.is_deleted === false,
-          created_at: msg.created_at || new Date().toISOString(),
-        }))
+        [activeRoomId]: activeMessages.map(msg => {
+          const receipt = summarizeReceipts(msg, receipts, participants)
+          return {
+            id: msg.id,
+            room_id: msg.chat_room_id,
+            sender_id: msg.sender_id,
+            sender_name: msg.profiles?.full_name || "Unknown",
+            sender_role: (msg.profiles?.user_type as "user" | "supervisor" | "doer" | "support" | "system") || "user",
+            type: msg.message_type || "text",
+            content: msg.content || "",
+            file_url: msg.file_url || undefined,
+            file_name: msg.file_name || undefined,
+            file_size: msg.file_size_bytes || undefined,
+            is_read: receipt.status === "read",
+            receipt,
+            created_at: msg.created_at || new Date().toISOString(),
+          }
+        })
       }))
     }
-  }, [activeRoomId, activeMessages])
+  }, [activeRoomId, activeMessages, receipts, allRooms])
+
+  // Mark messages as read when viewing a room and when new ones arrive
+  const lastIncomingMessageId = [...activeMessages]
+    .reverse()
+    .find(msg => msg.sender_id !== supervisor?.profile_id)?.id
 
-  // Mark messages as read when viewing a room
   useEffect(() => {
     if (activeRoomId) {
       markAsRead(activeRoomId)
     }
-  }, [activeRoomId, markAsRead])
+  }, [activeRoomId, lastIncomingMessageId, markAsRead])
 
   const handleSendMessage = useCallback(async (
     roomId: string,
@@ -95,7 +113,9 @@ export default function ChatRoomPage() {
       }
     } catch (error) {
       console.error("Failed to send message:", error)
-      toast.error("Failed to send message. Please try again.")
+      toast.error(
+        error instanceof Error ? error.message : "Failed to send message. Please try again."
+      )
     }
   }, [sendMessage, sendFile])
 
@@ -259,6 +279,7 @@ export default function ChatRoomPage() {
     })),
     is_suspended: room.is_suspended || false,
     suspension_reason: room.suspension_reason || undefined,
+    messages: messagesMap[room.id],
     last_message: messagesMap[room.id]?.[messagesMap[room.id].length - 1],
     unread_count: 0,
     created_at: room.created_at || new Date().toISOString(),
@@ -276,6 +297,7 @@ export default function ChatRoomPage() {
         onSuspendChat={handleSuspendChat}
         onResumeChat={handleResumeChat}
         onDownloadFile={handleDownloadFile}
+        onActiveRoomChange={setActiveRoomId}
       />
     </div>
   )
@@ -30,6 +30,7 @@ import {
 } from "lucide-react"
 import { cn } from "@/lib/utils"
 import { toast } from "sonner"
+import { PAYOUT_MIN_AMOUNT, PAYOUT_WEEKLY_LIMIT, describePayoutRequestError } from "@shared/payouts"
 import { Skeleton } from "@/components/ui/skeleton"
 import {
   EarningsSummaryV2,
@@ -186,8 +187,8 @@ function WithdrawalDialog({
       toast.error("Please enter a valid amount")
       return
     }
-    if (numAmount < 500) {
-      toast.error("Minimum withdrawal is Rs. 500")
+    if (numAmount < PAYOUT_MIN_AMOUNT) {
+      toast.error(`Minimum withdrawal is Rs. ${PAYOUT_MIN_AMOUNT}`)
       return
     }
     if (numAmount > availableBalance) {
@@ -202,7 +203,7 @@ function WithdrawalDialog({
       onOpenChange(false)
       setAmount("")
     } catch (error) {
-      toast.error("Failed to submit withdrawal request")
+      toast.error(describePayoutRequestError(error, "Failed to submit withdrawal request"))
     } finally {
       setIsSubmitting(false)
     }
@@ -214,7 +215,8 @@ function WithdrawalDialog({
         <DialogHeader>
           <DialogTitle>Request Withdrawal</DialogTitle>
           <DialogDescription>
-            Enter the amount you would like to withdraw. Minimum amount is Rs. 500.
+            Enter the amount you would like to withdraw. Minimum amount is Rs. {PAYOUT_MIN_AMOUNT}, up to
+            Rs. {PAYOUT_WEEKLY_LIMIT.toLocaleString("en-IN")} a week. The amount is held until an admin pays it out.
           </DialogDescription>
         </DialogHeader>
         <div className="grid gap-4 py-4">
@@ -229,7 +231,7 @@ function WithdrawalDialog({
                 value={amount}
                 onChange={(e) => setAmount(e.target.value)}
                 className="pl-8"
-                min={500}
+                min={PAYOUT_MIN_AMOUNT}
                 max={availableBalance}
               />
             </div>
@@ -292,17 +294,17 @@ export default function EarningsPage() {
   const { user } = useAuth()
   const firstName = user?.full_name?.split(" ")[0] || "Supervisor"
 
-  const { wallet, requestWithdrawal } = useWallet()
+  const { requestWithdrawal } = useWallet()
   const { stats } = useEarningsStats()
 
   const [withdrawDialogOpen, setWithdrawDialogOpen] = useState(false)
 
-  // Calculate available balance
+  // Released earnings not already requested for payout
   const availableBalance = useMemo(() => {
-    const balance = wallet?.balance || 0
+    const available = stats?.available || 0
     const pending = stats?.pendingPayouts || 0
-    return Math.max(balance - pending, 0)
-  }, [wallet?.balance, stats?.pendingPayouts])
+    return Math.max(available - pending, 0)
+  }, [stats?.available, stats?.pendingPayouts])
 
   // Dynamic message based on earnings
   const earningsMessage = useMemo(() => {
@@ -412,9 +414,9 @@ export default function EarningsPage() {
                   <div className="rounded-2xl border border-gray-200 bg-white p-4">
                     <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">Pending</p>
                     <p className="text-2xl font-bold text-[#1C1C1C]">
-                      ₹{(stats?.pendingPayouts || 0).toLocaleString("en-IN")}
+                      ₹{(stats?.pendingEarnings || 0).toLocaleString("en-IN")}
                     </p>
-                    <p className="text-xs text-gray-500 mt-1">In processing</p>
+                    <p className="text-xs text-gray-500 mt-1">Held until clients approve</p>
                   </div>
                 </div>
               </div>
@@ -9,6 +9,8 @@ import { SidebarProvider, SidebarInset } from "@/components/ui/sidebar"
 import { AppSidebarV2 } from "@/components/layout/app-sidebar-v2"
 import { HeaderV2 } from "@/components/layout/header-v2"
 import { AuthSessionSync } from "@/components/providers/auth-session-sync"
+import { getModerationSummaryAction } from "@/app/actions/moderation"
+import { getPayoutSummaryAction } from "@/app/actions/payouts"
 
 interface UserProfile {
   full_name: string | null
@@ -88,6 +90,11 @@ export default async function DashboardLayout({
     // Stats queries may fail if tables don't exist yet
   }
 
+  const [moderation, payouts] = await Promise.all([
+    getModerationSummaryAction(),
+    getPayoutSummaryAction(),
+  ])
+
   return (
     <SidebarProvider>
       <AuthSessionSync
@@ -98,6 +105,10 @@ export default async function DashboardLayout({
         user={userData}
         unreadChats={0}
         pendingProjects={pendingQCCount}
+        isModerator={moderation.isModerator}
+        openModerationCases={moderation.openCases}
+        isAdmin={payouts.isAdmin}
+        pendingPayoutRequests={payouts.pendingRequests}
       />
       <SidebarInset className="bg-gray-50">
         <HeaderV2
@@ -0,0 +1,39 @@
+/**
+ * @fileoverview Moderation queue page for admins reviewing reported content and chat violations.
+ * @module app/(dashboard)/moderation/page
+ */
+
+import { redirect } from "next/navigation"
+import { getModerationQueueAction, getModerationSummaryAction } from "@/app/actions/moderation"
+import { ModerationQueue } from "@/components/moderation"
+
+export default async function ModerationPage() {
+  const { isModerator, openCases } = await getModerationSummaryAction()
+
+  if (!isModerator) {
+    redirect("/dashboard")
+  }
+
+  const { cases = [] } = await getModerationQueueAction("open")
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="relative max-w-[1100px] mx-auto p-8 lg:p-10 space-y-8">
+        <section className="rounded-3xl border border-gray-200 bg-white p-8">
+          <div className="inline-flex items-center gap-2 rounded-full border border-gray-200 bg-white px-3 py-1 text-xs font-semibold uppercase tracking-[0.2em] text-gray-600">
+            Trust &amp; Safety
+          </div>
+          <h1 className="mt-4 text-4xl font-bold text-[#1C1C1C] tracking-tight">Moderation</h1>
+          <p className="text-lg text-gray-600 mt-2">
+            {openCases === 0
+              ? "No reports waiting for review."
+              : `${openCases} case${openCases === 1 ? "" : "s"} waiting for review.`}
+            {" "}Content reported by 3 or more people is hidden until you decide.
+          </p>
+        </section>
+
+        <ModerationQueue initialCases={cases} />
+      </div>
+    </div>
+  )
+}
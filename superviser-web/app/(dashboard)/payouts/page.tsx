@@ -0,0 +1,41 @@
+/**
+ * @fileoverview Payout queue page for admins approving payout requests and exporting bank and UPI payout files.
+ * @module app/(dashboard)/payouts/page
+ */
+
+import { redirect } from "next/navigation"
+import { getPayoutSummaryAction, getPendingPayoutRequestsAction } from "@/app/actions/payouts"
+import { PayoutQueue } from "@/components/payouts"
+import { PAYOUT_MIN_AMOUNT, PAYOUT_WEEKLY_LIMIT } from "@shared/payouts"
+
+export default async function PayoutsPage() {
+  const { isAdmin, pendingRequests } = await getPayoutSummaryAction()
+
+  if (!isAdmin) {
+    redirect("/dashboard")
+  }
+
+  const { requests = [] } = await getPendingPayoutRequestsAction()
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="relative max-w-[1100px] mx-auto p-8 lg:p-10 space-y-8">
+        <section className="rounded-3xl border border-gray-200 bg-white p-8">
+          <div className="inline-flex items-center gap-2 rounded-full border border-gray-200 bg-white px-3 py-1 text-xs font-semibold uppercase tracking-[0.2em] text-gray-600">
+            Finance
+          </div>
+          <h1 className="mt-4 text-4xl font-bold text-[#1C1C1C] tracking-tight">Payouts</h1>
+          <p className="text-lg text-gray-600 mt-2">
+            {pendingRequests === 0
+              ? "No payout requests waiting for review."
+              : `${pendingRequests} request${pendingRequests === 1 ? "" : "s"} waiting for review.`}
+            {" "}Payees can request from ₹{PAYOUT_MIN_AMOUNT.toLocaleString("en-IN")} up to ₹
+            {PAYOUT_WEEKLY_LIMIT.toLocaleString("en-IN")} a week.
+          </p>
+        </section>
+
+        <PayoutQueue initialRequests={requests} />
+      </div>
+    </div>
+  )
+}
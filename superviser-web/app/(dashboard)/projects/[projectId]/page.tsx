@@ -39,8 +39,9 @@ import { AnalyzeQuoteModal } from "@/components/dashboard/analyze-quote-modal"
 import type { ProjectRequest } from "@/components/dashboard/request-card"
 
 // Import the useProject hook
-import { useProject } from "@/hooks/use-projects"
+import { useProject, transitionProjectStatus } from "@/hooks/use-projects"
 import type { ProjectWithRelations } from "@/types/database"
+import { describeProjectTransitionError } from "@shared/project-status"
 
 export default function ProjectDetailPage() {
   const params = useParams()
@@ -60,23 +61,22 @@ export default function ProjectDetailPage() {
     const supabase = createClient()
 
     try {
-      const { error: updateError } = await supabase
-        .from("projects")
-        .update({
-          status: "qc_approved",
-          status_updated_at: new Date().toISOString(),
-          completion_notes: message || null,
-        })
-        .eq("id", projectId)
+      await transitionProjectStatus(projectId, "qc_approved", { reason: message })
+      if (message) {
+        const { error: updateError } = await supabase
+          .from("projects")
+          .update({ completion_notes: message })
+          .eq("id", projectId)
 
-      if (updateError) throw updateError
+        if (updateError) throw updateError
+      }
 
       toast.success("Project approved successfully")
       setQcModalState({ open: false, mode: null })
       await refetch()
     } catch (err) {
       console.error("Failed to approve project:", err)
-      toast.error("Failed to approve project. Please try again.")
+      toast.error(describeProjectTransitionError(err, "Failed to approve project. Please try again."))
     }
   }, [refetch])
 
@@ -114,23 +114,15 @@ export default function ProjectDetailPage() {
       if (revisionError) throw revisionError
 
       // Update project status
-      const { error: projectError } = await supabase
-        .from("projects")
-        .update({
-          status: "qc_rejected",
-          status_updated_at: new Date().toISOString(),
-          revision_count: newRevisionNumber,
-        })
-        .eq("id", projectId)
+      await transitionProjectStatus(projectId, "qc_rejected", { reason: feedback })
 
-      if (projectError) throw projectError
 
       toast.success("Revision requested successfully")
       setQcModalState({ open: false, mode: null })
       await refetch()
     } catch (err) {
       console.error("Failed to reject project:", err)
-      toast.error("Failed to request revision. Please try again.")
+      toast.error(describeProjectTransitionError(err, "Failed to request revision. Please try again."))
     }
   }, [project, refetch])
 
@@ -526,6 +518,7 @@ export default function ProjectDetailPage() {
           project_number: project.project_number,
           title: project.title,
           subject: project.subjects?.name || "General",
+          subject_id: project.subject_id,
           service_type: project.service_type,
           user_name: project.profiles?.full_name || "Unknown User",
           deadline: project.deadline || new Date(Date.now() + 72 * 60 * 60 * 1000).toISOString(),
@@ -23,7 +23,7 @@ import {
 import { toast } from "sonner"
 import { formatDistanceToNow } from "date-fns"
 
-import { useProjectsByStatus, useSupervisor, claimProject } from "@/hooks"
+import { useProjectsByStatus, useSupervisor, claimProject, transitionProjectStatus } from "@/hooks"
 import { useAuth } from "@/hooks"
 import type { ProjectWithRelations } from "@/types/database"
 import { createClient } from "@/lib/supabase/client"
@@ -41,6 +41,7 @@ import type { ProjectCardV2Data } from "@/components/projects/v2"
 import { QCReviewModal, type ActiveProject } from "@/components/projects"
 import { AssignDoerModal } from "@/components/dashboard/assign-doer-modal"
 import type { PaidProject } from "@/components/dashboard/ready-to-assign-card"
+import { describeProjectTransitionError } from "@shared/project-status"
 
 // Subject list for filter
 const SUBJECTS = [
@@ -335,22 +336,21 @@ export default function ProjectsPage() {
   const handleApprove = useCallback(async (projectId: string, message?: string) => {
     const supabase = createClient()
     try {
-      const { error: updateError } = await supabase
-        .from("projects")
-        .update({
-          status: "qc_approved",
-          status_updated_at: new Date().toISOString(),
-          completion_notes: message || null,
-        })
-        .eq("id", projectId)
-
-      if (updateError) throw updateError
+      await transitionProjectStatus(projectId, "qc_approved", { reason: message })
+      if (message) {
+        const { error: updateError } = await supabase
+          .from("projects")
+          .update({ completion_notes: message })
+          .eq("id", projectId)
+
+        if (updateError) throw updateError
+      }
       toast.success("Project approved successfully")
       setQcModalState({ open: false, project: null, mode: null })
       await refetch()
     } catch (err) {
       console.error("Failed to approve project:", err)
-      toast.error("Failed to approve project. Please try again.")
+      toast.error(describeProjectTransitionError(err, "Failed to approve project. Please try again."))
     }
   }, [refetch])
 
@@ -388,22 +388,14 @@ export default function ProjectsPage() {
 
       if (revisionError) throw revisionError
 
-      const { error: projectError } = await supabase
-        .from("projects")
-        .update({
-          status: "qc_rejected",
-          status_updated_at: new Date().toISOString(),
-          revision_count: newRevisionNumber,
-        })
-        .eq("id", projectId)
+      await transitionProjectStatus(projectId, "qc_rejected", { reason: feedback })
 
-      if (projectError) throw projectError
       toast.success("Revision requested successfully")
       setQcModalState({ open: false, project: null, mode: null })
       await refetch()
     } catch (err) {
       console.error("Failed to reject project:", err)
-      toast.error("Failed to request revision. Please try again.")
+      toast.error(describeProjectTransitionError(err, "Failed to request revision. Please try again."))
     }
   }, [supervisor, refetch])
 
@@ -7,6 +7,7 @@
 
 import { useState, useCallback } from "react"
 import { motion, AnimatePresence } from "framer-motion"
+import { toast } from "sonner"
 import {
   ArrowLeft,
   ArrowRight,
@@ -42,7 +43,9 @@ import {
   TrainingLibrary,
   GrammarChecker,
 } from "@/components/resources"
-import { analyzeForAI, checkPlagiarism } from "@/lib/services/content-analysis"
+import { analyzeForAI } from "@shared/ai-detection"
+import { analyzeDocumentForAIAction } from "@/app/actions/ai-detection"
+import { checkPlagiarismAction } from "@/app/actions/plagiarism"
 
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion"
@@ -433,13 +436,30 @@ export default function ResourcesPage() {
   ]
 
   const handleAIDetect = useCallback(async (content: string | File) => {
-    const text = typeof content === "string" ? content : await content.text()
-    return analyzeForAI(text)
+    if (typeof content === "string") return analyzeForAI(content)
+
+    // Files are read on the server (DOCX/PDF need unpacking)
+    const formData = new FormData()
+    formData.append("file", content)
+
+    const response = await analyzeDocumentForAIAction(formData)
+    if (!response.success || !response.result) {
+      toast.error(response.error || "AI detection failed")
+      throw new Error(response.error)
+    }
+    return response.result
   }, [])
 
   const handlePlagiarismCheck = useCallback(async (content: string | File) => {
-    const text = typeof content === "string" ? content : await content.text()
-    return checkPlagiarism(text)
+    const formData = new FormData()
+    formData.append(typeof content === "string" ? "text" : "file", content)
+
+    const response = await checkPlagiarismAction(formData)
+    if (!response.success || !response.result) {
+      toast.error(response.error || "Plagiarism check failed")
+      throw new Error(response.error)
+    }
+    return response.result
   }, [])
 
   const handleToolSelect = useCallback((toolId: string) => {
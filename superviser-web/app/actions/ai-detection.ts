@@ -0,0 +1,169 @@
+"use server"
+
+/**
+ * @fileoverview Server actions for AI content checks.
+ * Scores come from the analyzer shared with the doer app, so the QC run can
+ * be compared one to one with the doer's self-check in ai_reports.
+ * Uses admin client to store QC runs and update the project.
+ * @module app/actions/ai-detection
+ */
+
+import { createAdminClient } from "@/lib/supabase/admin"
+import { createClient } from "@/lib/supabase/server"
+import { analyzeForAI, type AIDetectionResult } from "@shared/ai-detection"
+import { extractDocumentText, SUPPORTED_DOCUMENT_FORMATS } from "@shared/document-text"
+import { downloadDeliverableText } from "@/lib/deliverable-files"
+import type { Json } from "@/types/database"
+
+/** Latest self-check the doer stored for the project */
+interface SelfCheck {
+  ai_percentage: number
+  file_name: string | null
+  created_at: string
+}
+
+interface AIDetectionActionResult {
+  success: boolean
+  error?: string
+  result?: AIDetectionResult
+  /** Doer's most recent self-check, for comparison in QC */
+  selfCheck?: SelfCheck | null
+}
+
+/**
+ * Resolves the supervisor record for the signed-in user.
+ */
+async function getSupervisorId(): Promise<string | null> {
+  const supabase = await createClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) return null
+
+  const { data: supervisor } = await supabase
+    .from("supervisors")
+    .select("id")
+    .eq("profile_id", user.id)
+    .single()
+
+  return supervisor?.id ?? null
+}
+
+/**
+ * Runs the QC AI check on a project's latest deliverable.
+ * Stores the report in ai_reports, sets projects.ai_score and returns the
+ * doer's latest self-check for the same project.
+ */
+export async function runQcAiCheckAction(projectId: string): Promise<AIDetectionActionResult> {
+  try {
+    const supervisorId = await getSupervisorId()
+    if (!supervisorId) {
+      return { success: false, error: "Not authenticated" }
+    }
+
+    const adminClient = createAdminClient()
+
+    const { data: project, error: projectError } = await adminClient
+      .from("projects")
+      .select("id, supervisor_id, doer_id")
+      .eq("id", projectId)
+      .single()
+
+    if (projectError || !project) {
+      return { success: false, error: "Project not found" }
+    }
+
+    if (project.supervisor_id !== supervisorId) {
+      return { success: false, error: "Not authorized to review this project" }
+    }
+
+    const { data: deliverable } = await adminClient
+      .from("project_deliverables")
+      .select("id, file_name, file_url, file_type")
+      .eq("project_id", projectId)
+      .order("version", { ascending: false })
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (!deliverable) {
+      return { success: false, error: "No deliverable to check" }
+    }
+
+    const text = await downloadDeliverableText(adminClient, deliverable)
+    if (!text?.trim()) {
+      return {
+        success: false,
+        error: `Could not read ${deliverable.file_name}. Supported formats: ${SUPPORTED_DOCUMENT_FORMATS}`,
+      }
+    }
+
+    const result = analyzeForAI(text, deliverable.file_name)
+
+    const { error: reportError } = await adminClient.from("ai_reports").insert({
+      doer_id: project.doer_id,
+      project_id: projectId,
+      supervisor_id: supervisorId,
+      deliverable_id: deliverable.id,
+      checked_by_role: "supervisor",
+      file_name: deliverable.file_name,
+      file_url: deliverable.file_url,
+      ai_percentage: result.ai_probability,
+      originality_percentage: result.human_probability,
+      detailed_breakdown: result as unknown as Json,
+    })
+
+    if (reportError) throw reportError
+
+    const { error: updateError } = await adminClient
+      .from("projects")
+      .update({
+        ai_score: result.ai_probability,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", projectId)
+
+    if (updateError) throw updateError
+
+    const { data: selfCheck } = await adminClient
+      .from("ai_reports")
+      .select("ai_percentage, file_name, created_at")
+      .eq("project_id", projectId)
+      .eq("checked_by_role", "doer")
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    return { success: true, result, selfCheck }
+  } catch (error) {
+    console.error("AI check failed:", error)
+    return { success: false, error: "AI check failed. Please try again." }
+  }
+}
+
+/**
+ * Analyzes an uploaded file from the resources page. Nothing is saved.
+ * @param formData - `file` (a File)
+ */
+export async function analyzeDocumentForAIAction(formData: FormData): Promise<AIDetectionActionResult> {
+  try {
+    const supervisorId = await getSupervisorId()
+    if (!supervisorId) {
+      return { success: false, error: "Not authenticated" }
+    }
+
+    const file = formData.get("file")
+    if (!(file instanceof File)) {
+      return { success: false, error: "No file provided" }
+    }
+
+    const text = extractDocumentText(Buffer.from(await file.arrayBuffer()), file.name, file.type)
+    if (!text?.trim()) {
+      return { success: false, error: `Could not read this file. Supported formats: ${SUPPORTED_DOCUMENT_FORMATS}` }
+    }
+
+    return { success: true, result: analyzeForAI(text, file.name) }
+  } catch (error) {
+    console.error("AI check failed:", error)
+    return { success: false, error: "AI check failed. Please try again." }
+  }
+}
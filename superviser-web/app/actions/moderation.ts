@@ -0,0 +1,196 @@
+"use server"
+
+/**
+ * @fileoverview Server actions for the moderation queue.
+ * Reported listings, posts and comments and chat violations are grouped into
+ * moderation_cases by database triggers; moderators (rows in admins) review
+ * them here. Decisions go through resolve_moderation_case, which applies
+ * them, writes the audit trail and notifies reporters and the author.
+ * Uses admin client because the queue RPCs are service role only.
+ * @module app/actions/moderation
+ */
+
+import { revalidatePath } from "next/cache"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { createClient } from "@/lib/supabase/server"
+import type {
+  ModerationAction,
+  ModerationCase,
+  ModerationDecision,
+  ModerationReport,
+} from "@/components/moderation/types"
+
+const MODERATION_ACTIONS: ModerationAction[] = ["dismiss", "remove", "warn", "suspend"]
+
+interface ModerationQueueResult {
+  success: boolean
+  error?: string
+  cases?: ModerationCase[]
+}
+
+interface ModerationCaseDetailResult {
+  success: boolean
+  error?: string
+  reports?: ModerationReport[]
+  decisions?: ModerationDecision[]
+}
+
+interface ResolveModerationCaseResult {
+  success: boolean
+  error?: string
+  /** Reporters told about the outcome */
+  reportersNotified?: number
+}
+
+/**
+ * Resolves the profile id of the signed-in user if they are a moderator.
+ */
+async function getModeratorId(): Promise<string | null> {
+  const supabase = await createClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) return null
+
+  const adminClient = createAdminClient()
+  const { data: admin } = await adminClient
+    .from("admins")
+    .select("id")
+    .eq("profile_id", user.id)
+    .maybeSingle()
+
+  return admin ? user.id : null
+}
+
+/**
+ * Whether the signed-in user moderates, and how many cases are open.
+ * Used by the dashboard layout for the sidebar entry.
+ */
+export async function getModerationSummaryAction(): Promise<{ isModerator: boolean; openCases: number }> {
+  try {
+    const moderatorId = await getModeratorId()
+    if (!moderatorId) return { isModerator: false, openCases: 0 }
+
+    const adminClient = createAdminClient()
+    const { count } = await adminClient
+      .from("moderation_cases")
+      .select("id", { count: "exact", head: true })
+      .eq("status", "open")
+
+    return { isModerator: true, openCases: count || 0 }
+  } catch {
+    return { isModerator: false, openCases: 0 }
+  }
+}
+
+/**
+ * Lists open cases (most reporters first) or recently resolved ones.
+ */
+export async function getModerationQueueAction(
+  status: "open" | "resolved" = "open"
+): Promise<ModerationQueueResult> {
+  try {
+    const moderatorId = await getModeratorId()
+    if (!moderatorId) {
+      return { success: false, error: "Only moderators can view the queue" }
+    }
+
+    const adminClient = createAdminClient()
+    const { data, error } = await adminClient.rpc("get_moderation_queue", {
+      p_status: status,
+      p_limit: 100,
+    })
+
+    if (error) {
+      console.error("Failed to load moderation queue:", error)
+      return { success: false, error: "Failed to load moderation queue" }
+    }
+
+    return { success: true, cases: (data || []) as ModerationCase[] }
+  } catch (error) {
+    console.error("Moderation queue error:", error)
+    return { success: false, error: "Failed to load moderation queue" }
+  }
+}
+
+/**
+ * Loads the reports behind a case and its decision history.
+ */
+export async function getModerationCaseAction(caseId: string): Promise<ModerationCaseDetailResult> {
+  try {
+    const moderatorId = await getModeratorId()
+    if (!moderatorId) {
+      return { success: false, error: "Only moderators can view reports" }
+    }
+
+    const adminClient = createAdminClient()
+    const [reportsResult, decisionsResult] = await Promise.all([
+      adminClient.rpc("get_moderation_case_reports", { p_case_id: caseId }),
+      adminClient
+        .from("moderation_decisions")
+        .select("id, action, note, report_count, reporter_count, created_at, moderator:profiles!moderation_decisions_moderator_id_fkey(full_name)")
+        .eq("case_id", caseId)
+        .order("created_at", { ascending: false }),
+    ])
+
+    if (reportsResult.error || decisionsResult.error) {
+      console.error("Failed to load moderation case:", reportsResult.error || decisionsResult.error)
+      return { success: false, error: "Failed to load reports" }
+    }
+
+    const decisions: ModerationDecision[] = (decisionsResult.data || []).map((decision) => ({
+      id: decision.id,
+      action: decision.action as ModerationAction,
+      note: decision.note,
+      report_count: decision.report_count,
+      reporter_count: decision.reporter_count,
+      created_at: decision.created_at,
+      moderator_name: decision.moderator?.full_name ?? null,
+    }))
+
+    return { success: true, reports: reportsResult.data || [], decisions }
+  } catch (error) {
+    console.error("Moderation case error:", error)
+    return { success: false, error: "Failed to load reports" }
+  }
+}
+
+/**
+ * Dismisses a case, removes the content, warns the author or suspends them.
+ */
+export async function resolveModerationCaseAction(
+  caseId: string,
+  action: ModerationAction,
+  note?: string
+): Promise<ResolveModerationCaseResult> {
+  try {
+    const moderatorId = await getModeratorId()
+    if (!moderatorId) {
+      return { success: false, error: "Only moderators can resolve reports" }
+    }
+
+    if (!MODERATION_ACTIONS.includes(action)) {
+      return { success: false, error: "Unknown action" }
+    }
+
+    const adminClient = createAdminClient()
+    const { data, error } = await adminClient.rpc("resolve_moderation_case", {
+      p_case_id: caseId,
+      p_moderator_id: moderatorId,
+      p_action: action,
+      p_note: note?.trim() || null,
+    })
+
+    if (error) {
+      console.error("Failed to resolve moderation case:", error)
+      return { success: false, error: error.message || "Failed to resolve case" }
+    }
+
+    revalidatePath("/moderation")
+
+    const result = data as { reporters_notified?: number } | null
+    return { success: true, reportersNotified: result?.reporters_notified ?? 0 }
+  } catch (error) {
+    console.error("Resolve moderation case error:", error)
+    return { success: false, error: "Failed to resolve case" }
+  }
+}
@@ -0,0 +1,401 @@
+"use server"
+
+/**
+ * @fileoverview Server actions for the payout queue.
+ * Doers and supervisors request payouts with request_payout, which holds the
+ * amount on their wallet. Admins (rows in admins) approve or reject requests
+ * here, export approved payouts as a bank upload file or UPI batch, and record
+ * the bank's result; the database settles the wallet and ledger and notifies
+ * the payee on every step.
+ * Uses admin client because the processing RPCs are service role only.
+ * @module app/actions/payouts
+ */
+
+import { revalidatePath } from "next/cache"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { createClient } from "@/lib/supabase/server"
+import {
+  bankTransferProblem,
+  buildBankTransferFile,
+  buildUpiBatchFile,
+  payoutBatchReference,
+  upiPayoutProblem,
+  type BankTransferMode,
+  type PayoutFileRow,
+} from "@/lib/payout-files"
+import type { PayoutMethod, PayoutRequestStatus } from "@shared/payouts"
+import {
+  PAYOUT_TAB_STATUSES,
+  type PayoutItem,
+  type PayoutQueueTab,
+  type PayoutRequestItem,
+} from "@/components/payouts/types"
+
+interface PayoutRequestsResult {
+  success: boolean
+  error?: string
+  requests?: PayoutRequestItem[]
+}
+
+interface PayoutsResult {
+  success: boolean
+  error?: string
+  payouts?: PayoutItem[]
+}
+
+interface PayoutActionResult {
+  success: boolean
+  error?: string
+}
+
+interface PayoutExportResult {
+  success: boolean
+  error?: string
+  fileName?: string
+  /** CSV contents */
+  content?: string
+  batchReference?: string
+  exported?: number
+  /** Payouts left out of the file, with why */
+  skipped?: { id: string; reason: string }[]
+}
+
+const PAYOUT_COLUMNS =
+  "id, amount, payout_method, status, recipient_type, bank_account_name, bank_account_number, bank_ifsc_code, bank_name, upi_id, gateway_payout_id, gateway_reference, failure_reason, requested_at, processed_at, completed_at, payee:profiles!payouts_recipient_id_fkey(full_name)"
+
+/**
+ * Resolves the profile id of the signed-in user if they are an admin.
+ */
+async function getPayoutAdminId(): Promise<string | null> {
+  const supabase = await createClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) return null
+
+  const adminClient = createAdminClient()
+  const { data: admin } = await adminClient
+    .from("admins")
+    .select("id")
+    .eq("profile_id", user.id)
+    .maybeSingle()
+
+  return admin ? user.id : null
+}
+
+function toPayoutItem(row: {
+  id: string
+  amount: number
+  payout_method: string
+  status: PayoutItem["status"]
+  recipient_type: string
+  bank_account_name: string | null
+  bank_account_number: string | null
+  bank_ifsc_code: string | null
+  bank_name: string | null
+  upi_id: string | null
+  gateway_payout_id: string | null
+  gateway_reference: string | null
+  failure_reason: string | null
+  requested_at: string | null
+  processed_at: string | null
+  completed_at: string | null
+  payee?: { full_name: string | null } | null
+}): PayoutItem {
+  return {
+    id: row.id,
+    amount: Number(row.amount),
+    payout_method: row.payout_method as PayoutMethod,
+    status: row.status,
+    recipient_type: row.recipient_type as PayoutItem["recipient_type"],
+    payee_name: row.payee?.full_name ?? null,
+    bank_account_name: row.bank_account_name,
+    bank_account_number: row.bank_account_number,
+    bank_ifsc_code: row.bank_ifsc_code,
+    bank_name: row.bank_name,
+    upi_id: row.upi_id,
+    batch_reference: row.gateway_payout_id,
+    gateway_reference: row.gateway_reference,
+    failure_reason: row.failure_reason,
+    requested_at: row.requested_at,
+    processed_at: row.processed_at,
+    completed_at: row.completed_at,
+  }
+}
+
+/**
+ * Whether the signed-in user is an admin, and how many requests wait for review.
+ * Used by the dashboard layout for the sidebar entry.
+ */
+export async function getPayoutSummaryAction(): Promise<{ isAdmin: boolean; pendingRequests: number }> {
+  try {
+    const adminId = await getPayoutAdminId()
+    if (!adminId) return { isAdmin: false, pendingRequests: 0 }
+
+    const adminClient = createAdminClient()
+    const { count } = await adminClient
+      .from("payout_requests")
+      .select("id", { count: "exact", head: true })
+      .eq("status", "pending")
+
+    return { isAdmin: true, pendingRequests: count || 0 }
+  } catch {
+    return { isAdmin: false, pendingRequests: 0 }
+  }
+}
+
+/**
+ * Lists requests waiting for review, oldest first.
+ */
+export async function getPendingPayoutRequestsAction(): Promise<PayoutRequestsResult> {
+  try {
+    const adminId = await getPayoutAdminId()
+    if (!adminId) {
+      return { success: false, error: "Only admins can view payout requests" }
+    }
+
+    const adminClient = createAdminClient()
+    const { data, error } = await adminClient
+      .from("payout_requests")
+      .select("id, profile_id, requested_amount, payout_method, status, requester_type, created_at, payee:profiles!payout_requests_profile_id_fkey(full_name, email)")
+      .eq("status", "pending")
+      .order("created_at", { ascending: true })
+      .limit(200)
+
+    if (error) {
+      console.error("Failed to load payout requests:", error)
+      return { success: false, error: "Failed to load payout requests" }
+    }
+
+    const profileIds = [...new Set((data || []).map((request) => request.profile_id))]
+    const { data: wallets } = profileIds.length
+      ? await adminClient
+          .from("wallets")
+          .select("profile_id, balance, locked_amount")
+          .in("profile_id", profileIds)
+      : { data: [] }
+
+    const requests: PayoutRequestItem[] = (data || []).map((request) => {
+      const wallet = wallets?.find((w) => w.profile_id === request.profile_id)
+      return {
+        id: request.id,
+        requested_amount: Number(request.requested_amount),
+        payout_method: request.payout_method as PayoutMethod,
+        status: request.status as PayoutRequestStatus,
+        requester_type: request.requester_type as PayoutRequestItem["requester_type"],
+        created_at: request.created_at ?? "",
+        payee_id: request.profile_id,
+        payee_name: request.payee?.full_name ?? null,
+        payee_email: request.payee?.email ?? null,
+        available_after_hold: wallet ? Number(wallet.balance) - Number(wallet.locked_amount || 0) : 0,
+      }
+    })
+
+    return { success: true, requests }
+  } catch (error) {
+    console.error("Payout requests error:", error)
+    return { success: false, error: "Failed to load payout requests" }
+  }
+}
+
+/**
+ * Lists approved payouts for a tab: ready to export, processing or settled.
+ */
+export async function getPayoutsAction(
+  tab: Exclude<PayoutQueueTab, "requests">
+): Promise<PayoutsResult> {
+  try {
+    const adminId = await getPayoutAdminId()
+    if (!adminId) {
+      return { success: false, error: "Only admins can view payouts" }
+    }
+
+    const adminClient = createAdminClient()
+    const { data, error } = await adminClient
+      .from("payouts")
+      .select(PAYOUT_COLUMNS)
+      .in("status", PAYOUT_TAB_STATUSES[tab])
+      .order(tab === "history" ? "updated_at" : "requested_at", { ascending: tab !== "history" })
+      .limit(200)
+
+    if (error) {
+      console.error("Failed to load payouts:", error)
+      return { success: false, error: "Failed to load payouts" }
+    }
+
+    return { success: true, payouts: (data || []).map(toPayoutItem) }
+  } catch (error) {
+    console.error("Payouts error:", error)
+    return { success: false, error: "Failed to load payouts" }
+  }
+}
+
+/**
+ * Approves a request (creating its payout) or rejects it with a reason.
+ */
+export async function reviewPayoutRequestAction(
+  requestId: string,
+  approve: boolean,
+  reason?: string
+): Promise<PayoutActionResult> {
+  try {
+    const adminId = await getPayoutAdminId()
+    if (!adminId) {
+      return { success: false, error: "Only admins can review payout requests" }
+    }
+
+    if (!approve && !reason?.trim()) {
+      return { success: false, error: "Give the payee a reason for the rejection" }
+    }
+
+    const adminClient = createAdminClient()
+    const { error } = await adminClient.rpc("review_payout_request", {
+      p_request_id: requestId,
+      p_reviewer_id: adminId,
+      p_approve: approve,
+      p_reason: reason?.trim() || null,
+    })
+
+    if (error) {
+      console.error("Failed to review payout request:", error)
+      return { success: false, error: error.message || "Failed to review payout request" }
+    }
+
+    revalidatePath("/payouts")
+    return { success: true }
+  } catch (error) {
+    console.error("Review payout request error:", error)
+    return { success: false, error: "Failed to review payout request" }
+  }
+}
+
+/**
+ * Moves the chosen approved payouts of one method to processing and returns
+ * the file to upload: a bulk NEFT/IMPS CSV or a UPI batch. Payouts with
+ * details the bank would refuse stay behind and are listed in `skipped`.
+ */
+export async function exportPayoutBatchAction(
+  payoutIds: string[],
+  method: PayoutMethod,
+  mode: BankTransferMode = "NEFT"
+): Promise<PayoutExportResult> {
+  try {
+    const adminId = await getPayoutAdminId()
+    if (!adminId) {
+      return { success: false, error: "Only admins can export payouts" }
+    }
+
+    const debitAccountNumber = process.env.PAYOUT_DEBIT_ACCOUNT_NUMBER
+    if (method === "bank_transfer" && !debitAccountNumber) {
+      return { success: false, error: "PAYOUT_DEBIT_ACCOUNT_NUMBER is not configured" }
+    }
+
+    const adminClient = createAdminClient()
+    const { data, error } = await adminClient
+      .from("payouts")
+      .select(PAYOUT_COLUMNS)
+      .in("id", payoutIds)
+      .eq("status", "pending")
+      .eq("payout_method", method)
+
+    if (error) {
+      console.error("Failed to load payouts for export:", error)
+      return { success: false, error: "Failed to load payouts" }
+    }
+
+    const candidates = (data || []).map(toPayoutItem)
+    const skipped: { id: string; reason: string }[] = []
+    const ready = candidates.filter((payout) => {
+      const row: PayoutFileRow = { ...payout }
+      const problem = method === "upi" ? upiPayoutProblem(row) : bankTransferProblem(row, mode)
+      if (problem) skipped.push({ id: payout.id, reason: problem })
+      return !problem
+    })
+
+    if (ready.length === 0) {
+      return { success: false, error: "No payouts to export", skipped }
+    }
+
+    const batchReference = payoutBatchReference(method === "upi" ? "UPI" : mode)
+    const { data: batch, error: batchError } = await adminClient.rpc("start_payout_batch", {
+      p_payout_ids: ready.map((payout) => payout.id),
+      p_method: method,
+      p_batch_reference: batchReference,
+    })
+
+    if (batchError) {
+      console.error("Failed to start payout batch:", batchError)
+      return { success: false, error: batchError.message || "Failed to start payout batch" }
+    }
+
+    // Only payouts the batch actually took go in the file
+    const namesById = new Map(ready.map((payout) => [payout.id, payout.payee_name]))
+    const rows: PayoutFileRow[] = (batch || []).map((payout) => ({
+      id: payout.id,
+      amount: Number(payout.amount),
+      payee_name: namesById.get(payout.id) ?? null,
+      bank_account_name: payout.bank_account_name,
+      bank_account_number: payout.bank_account_number,
+      bank_ifsc_code: payout.bank_ifsc_code,
+      upi_id: payout.upi_id,
+    }))
+
+    const content =
+      method === "upi"
+        ? buildUpiBatchFile(rows, batchReference)
+        : buildBankTransferFile(rows, { mode, debitAccountNumber: debitAccountNumber!, batchReference })
+
+    revalidatePath("/payouts")
+
+    return {
+      success: true,
+      fileName: `${batchReference}.csv`,
+      content,
+      batchReference,
+      exported: rows.length,
+      skipped,
+    }
+  } catch (error) {
+    console.error("Export payout batch error:", error)
+    return { success: false, error: "Failed to export payouts" }
+  }
+}
+
+/**
+ * Records the bank's result for a processing payout (paid with its UTR, or
+ * failed with the reason), or cancels a payout before export.
+ */
+export async function updatePayoutStatusAction(
+  payoutId: string,
+  status: "completed" | "failed" | "cancelled",
+  details: { reference?: string; failureReason?: string } = {}
+): Promise<PayoutActionResult> {
+  try {
+    const adminId = await getPayoutAdminId()
+    if (!adminId) {
+      return { success: false, error: "Only admins can update payouts" }
+    }
+
+    if (status === "failed" && !details.failureReason?.trim()) {
+      return { success: false, error: "Record why the payout failed" }
+    }
+
+    const adminClient = createAdminClient()
+    const { error } = await adminClient.rpc("set_payout_status", {
+      p_payout_id: payoutId,
+      p_status: status,
+      p_reference: details.reference?.trim() || null,
+      p_failure_reason: details.failureReason?.trim() || null,
+    })
+
+    if (error) {
+      console.error("Failed to update payout:", error)
+      return { success: false, error: error.message || "Failed to update payout" }
+    }
+
+    revalidatePath("/payouts")
+    return { success: true }
+  } catch (error) {
+    console.error("Update payout error:", error)
+    return { success: false, error: "Failed to update payout" }
+  }
+}
@@ -0,0 +1,322 @@
+"use server"
+
+/**
+ * @fileoverview Server actions for plagiarism checks against the local corpus.
+ * The corpus is every deliverable of a project that passed QC plus the
+ * reference files users upload, indexed in plagiarism_documents.
+ * Uses admin client to read and maintain the index.
+ * @module app/actions/plagiarism
+ */
+
+import { createAdminClient } from "@/lib/supabase/admin"
+import { createClient } from "@/lib/supabase/server"
+import {
+  downloadDocumentText,
+  extractDocumentText,
+  SUPPORTED_DOCUMENT_FORMATS,
+} from "@shared/document-text"
+import {
+  compareWithCorpus,
+  fingerprint,
+  renderPlagiarismReport,
+  type CorpusDocument,
+  type DocumentFingerprint,
+} from "@/lib/services/plagiarism"
+import { downloadDeliverableText } from "@/lib/deliverable-files"
+import type { PlagiarismCheckResult } from "@/components/resources/types"
+
+type AdminClient = ReturnType<typeof createAdminClient>
+
+/** Files from the backlog indexed on each check */
+const BACKFILL_BATCH_SIZE = 10
+
+/** Most likely sources compared passage by passage */
+const MAX_CANDIDATES = 50
+
+/** Private bucket; projects.plagiarism_report_url holds the object path */
+const REPORT_BUCKET = "plagiarism-reports"
+
+/** Lifetime of the report link handed to the QC modal */
+const REPORT_URL_TTL_SECONDS = 300
+
+interface IndexableFile {
+  source_type: string
+  source_id: string
+  project_id: string
+  file_name: string
+  file_url: string
+  file_type: string | null
+}
+
+interface PlagiarismActionResult {
+  success: boolean
+  error?: string
+  result?: PlagiarismCheckResult
+  reportUrl?: string
+}
+
+/**
+ * Resolves the supervisor record for the signed-in user.
+ */
+async function getSupervisorId(): Promise<string | null> {
+  const supabase = await createClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) return null
+
+  const { data: supervisor } = await supabase
+    .from("supervisors")
+    .select("id")
+    .eq("profile_id", user.id)
+    .single()
+
+  return supervisor?.id ?? null
+}
+
+/**
+ * Adds a file to the index. Unreadable formats are stored without hashes
+ * so they are not retried on every check.
+ */
+async function indexFile(adminClient: AdminClient, file: IndexableFile): Promise<void> {
+  // Deliverables are in a private bucket; reference files have public URLs
+  const text =
+    file.source_type === "deliverable"
+      ? await downloadDeliverableText(adminClient, file)
+      : await downloadDocumentText(file.file_url, file.file_name, file.file_type)
+  const print: DocumentFingerprint = text
+    ? fingerprint(text)
+    : { wordCount: 0, shingles: [], minhash: [], lshBands: [] }
+
+  const { error } = await adminClient
+    .from("plagiarism_documents")
+    .upsert(
+      {
+        source_type: file.source_type,
+        source_id: file.source_id,
+        project_id: file.project_id,
+        file_name: file.file_name,
+        word_count: print.wordCount,
+        shingles: print.shingles,
+        minhash: print.minhash,
+        lsh_bands: print.lshBands,
+        indexed_at: new Date().toISOString(),
+      },
+      { onConflict: "source_type,source_id" }
+    )
+
+  if (error) throw error
+}
+
+/**
+ * Indexes the project's own reference files, then a batch of the backlog.
+ * Failures are logged and retried on the next check.
+ */
+async function updateIndex(adminClient: AdminClient, projectId: string | null): Promise<void> {
+  const pending: IndexableFile[] = []
+
+  if (projectId) {
+    const [{ data: references }, { data: indexed }] = await Promise.all([
+      adminClient
+        .from("project_files")
+        .select("id, project_id, file_name, file_url, file_type")
+        .eq("project_id", projectId),
+      adminClient
+        .from("plagiarism_documents")
+        .select("source_id")
+        .eq("project_id", projectId)
+        .eq("source_type", "reference"),
+    ])
+
+    const indexedIds = new Set(indexed?.map((doc) => doc.source_id))
+    for (const file of references ?? []) {
+      if (!indexedIds.has(file.id)) {
+        pending.push({ ...file, source_type: "reference", source_id: file.id })
+      }
+    }
+  }
+
+  const { data: backlog, error } = await adminClient.rpc("plagiarism_unindexed_files", {
+    p_limit: BACKFILL_BATCH_SIZE,
+  })
+  if (error) {
+    console.error("Failed to load plagiarism index backlog:", error)
+  }
+
+  for (const file of backlog ?? []) {
+    if (!pending.some((p) => p.source_type === file.source_type && p.source_id === file.source_id)) {
+      pending.push(file)
+    }
+  }
+
+  for (const file of pending) {
+    try {
+      await indexFile(adminClient, file)
+    } catch (err) {
+      console.error(`Failed to index ${file.source_type} ${file.source_id}:`, err)
+    }
+  }
+}
+
+/**
+ * Finds indexed documents sharing at least one LSH band with the text.
+ * Earlier versions of the project's own deliverable are never a source.
+ */
+async function findCandidates(
+  adminClient: AdminClient,
+  print: DocumentFingerprint,
+  projectId: string | null
+): Promise<CorpusDocument[]> {
+  if (print.lshBands.length === 0) return []
+
+  let query = adminClient
+    .from("plagiarism_documents")
+    .select("id, source_type, project_id, file_name, shingles, projects(project_number)")
+    .overlaps("lsh_bands", print.lshBands)
+    .limit(MAX_CANDIDATES)
+
+  if (projectId) {
+    query = query.or(`source_type.eq.reference,project_id.neq.${projectId}`)
+  }
+
+  const { data, error } = await query
+  if (error) throw error
+
+  return (data ?? []).map((doc) => ({
+    id: doc.id,
+    source_type: doc.source_type as CorpusDocument["source_type"],
+    project_id: doc.project_id,
+    project_number: doc.projects?.project_number ?? null,
+    file_name: doc.file_name,
+    shingles: doc.shingles,
+  }))
+}
+
+async function checkText(
+  adminClient: AdminClient,
+  text: string,
+  fileName: string,
+  projectId: string | null
+): Promise<PlagiarismCheckResult> {
+  await updateIndex(adminClient, projectId)
+  const candidates = await findCandidates(adminClient, fingerprint(text), projectId)
+  return compareWithCorpus(text, fileName, candidates)
+}
+
+/**
+ * Runs the QC plagiarism check on a project's latest deliverable.
+ * Saves an HTML report and writes plagiarism_score and the report's object
+ * path to plagiarism_report_url on the project, which the client opens on
+ * their project page. Returns a short-lived signed link to the report.
+ */
+export async function runQcPlagiarismCheckAction(projectId: string): Promise<PlagiarismActionResult> {
+  try {
+    const supervisorId = await getSupervisorId()
+    if (!supervisorId) {
+      return { success: false, error: "Not authenticated" }
+    }
+
+    const adminClient = createAdminClient()
+
+    const { data: project, error: projectError } = await adminClient
+      .from("projects")
+      .select("id, supervisor_id, project_number")
+      .eq("id", projectId)
+      .single()
+
+    if (projectError || !project) {
+      return { success: false, error: "Project not found" }
+    }
+
+    if (project.supervisor_id !== supervisorId) {
+      return { success: false, error: "Not authorized to review this project" }
+    }
+
+    const { data: deliverable } = await adminClient
+      .from("project_deliverables")
+      .select("id, file_name, file_url, file_type")
+      .eq("project_id", projectId)
+      .order("version", { ascending: false })
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (!deliverable) {
+      return { success: false, error: "No deliverable to check" }
+    }
+
+    const text = await downloadDeliverableText(adminClient, deliverable)
+    if (!text?.trim()) {
+      return {
+        success: false,
+        error: `Could not read ${deliverable.file_name}. Supported formats: ${SUPPORTED_DOCUMENT_FORMATS}`,
+      }
+    }
+
+    const result = await checkText(adminClient, text, deliverable.file_name, projectId)
+
+    const reportPath = `${projectId}/${deliverable.id}.html`
+    const { error: uploadError } = await adminClient.storage
+      .from(REPORT_BUCKET)
+      .upload(reportPath, renderPlagiarismReport(result, project.project_number), {
+        contentType: "text/html; charset=utf-8",
+        upsert: true,
+      })
+
+    if (uploadError) throw uploadError
+
+    const { error: updateError } = await adminClient
+      .from("projects")
+      .update({
+        plagiarism_score: result.overall_score,
+        plagiarism_report_url: reportPath,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", projectId)
+
+    if (updateError) throw updateError
+
+    const { data: signed } = await adminClient.storage
+      .from(REPORT_BUCKET)
+      .createSignedUrl(reportPath, REPORT_URL_TTL_SECONDS)
+
+    return { success: true, result, reportUrl: signed?.signedUrl }
+  } catch (error) {
+    console.error("Plagiarism check failed:", error)
+    return { success: false, error: "Plagiarism check failed. Please try again." }
+  }
+}
+
+/**
+ * Checks pasted text or an uploaded file from the resources page.
+ * Nothing is saved; the document is not added to the index.
+ * @param formData - Either `text`, or `file` (a File)
+ */
+export async function checkPlagiarismAction(formData: FormData): Promise<PlagiarismActionResult> {
+  try {
+    const supervisorId = await getSupervisorId()
+    if (!supervisorId) {
+      return { success: false, error: "Not authenticated" }
+    }
+
+    const file = formData.get("file")
+    let text: string | null
+    let fileName = "content-check"
+
+    if (file instanceof File) {
+      fileName = file.name
+      text = extractDocumentText(Buffer.from(await file.arrayBuffer()), file.name, file.type)
+    } else {
+      text = String(formData.get("text") ?? "")
+    }
+
+    if (!text?.trim()) {
+      return { success: false, error: `Could not read this file. Supported formats: ${SUPPORTED_DOCUMENT_FORMATS}` }
+    }
+
+    const result = await checkText(createAdminClient(), text, fileName, null)
+    return { success: true, result }
+  } catch (error) {
+    console.error("Plagiarism check failed:", error)
+    return { success: false, error: "Plagiarism check failed. Please try again." }
+  }
+}
@@ -8,13 +8,15 @@
 
 import { createAdminClient } from "@/lib/supabase/admin"
 import { createClient } from "@/lib/supabase/server"
+import { getPriceBreakdown, type PricingComplexity } from "@/lib/pricing"
+import { toProjectTransitionError } from "@shared/project-status"
 
 interface SubmitQuoteParams {
   projectId: string
+  /** GST-inclusive amount the client pays */
   userQuote: number
   doerPayout: number
-  supervisorCommission: number
-  platformFee: number
+  complexity?: PricingComplexity
 }
 
 interface QuoteResult {
@@ -25,9 +27,19 @@ interface QuoteResult {
 /**
  * Submit a quote for a project.
  * Validates the supervisor is assigned to the project before updating.
+ * Commission and platform fee are split from the quote by the pricing engine;
+ * a doer payout below the suggested one leaves the difference with the platform.
  */
 export async function submitQuoteAction(params: SubmitQuoteParams): Promise<QuoteResult> {
-  const { projectId, userQuote, doerPayout, supervisorCommission, platformFee } = params
+  const { projectId, userQuote, doerPayout, complexity } = params
+
+  if (!Number.isFinite(userQuote) || userQuote <= 0) {
+    return { success: false, error: "Quote must be a positive amount" }
+  }
+
+  if (!Number.isFinite(doerPayout) || doerPayout < 0) {
+    return { success: false, error: "Doer payout must be zero or more" }
+  }
 
   try {
     // Get the authenticated user from the server client
@@ -55,7 +67,7 @@ export async function submitQuoteAction(params: SubmitQuoteParams): Promise<Quot
     // Verify the supervisor is assigned to this project
     const { data: project, error: projectCheckError } = await adminClient
       .from("projects")
-      .select("id, supervisor_id, status")
+      .select("id, supervisor_id, status, service_type, subject_id, word_count, page_count, deadline")
       .eq("id", projectId)
       .single()
 
@@ -67,6 +79,32 @@ export async function submitQuoteAction(params: SubmitQuoteParams): Promise<Quot
       return { success: false, error: "Not authorized to quote this project" }
     }
 
+    let breakdown
+    try {
+      breakdown = await getPriceBreakdown(adminClient, {
+        serviceType: project.service_type,
+        subject: project.subject_id,
+        wordCount: project.word_count,
+        pageCount: project.page_count,
+        deadline: project.deadline,
+        complexity,
+        clientTotal: userQuote,
+      })
+    } catch (pricingError) {
+      console.error("Pricing error:", pricingError)
+      return { success: false, error: "Failed to calculate quote split" }
+    }
+
+    if (doerPayout > breakdown.doer_payout) {
+      return {
+        success: false,
+        error: `Doer payout cannot exceed ₹${breakdown.doer_payout.toLocaleString("en-IN")} for this quote`,
+      }
+    }
+
+    const supervisorCommission = breakdown.supervisor_commission
+    const platformFee = breakdown.subtotal - doerPayout - supervisorCommission
+
     // Insert the quote record
     const { error: quoteError } = await adminClient.from("project_quotes").insert({
       project_id: projectId,
@@ -83,15 +121,14 @@ export async function submitQuoteAction(params: SubmitQuoteParams): Promise<Quot
       return { success: false, error: "Failed to create quote record" }
     }
 
-    // Update the project status and financials
+    // Update the project financials
     const { error: updateError } = await adminClient
       .from("projects")
       .update({
-        status: "quoted",
         user_quote: userQuote,
         doer_payout: doerPayout,
         supervisor_commission: supervisorCommission,
-        status_updated_at: new Date().toISOString(),
+        platform_fee: platformFee,
         updated_at: new Date().toISOString(),
       })
       .eq("id", projectId)
@@ -101,6 +138,18 @@ export async function submitQuoteAction(params: SubmitQuoteParams): Promise<Quot
       return { success: false, error: "Failed to update project" }
     }
 
+    // Move the project to quoted through the status state machine
+    const { error: transitionError } = await adminClient.rpc("transition_project_status", {
+      p_project_id: projectId,
+      p_to_status: "quoted",
+      p_actor_id: user.id,
+    })
+
+    if (transitionError) {
+      console.error("Project transition error:", transitionError)
+      return { success: false, error: toProjectTransitionError(transitionError).message }
+    }
+
     return { success: true }
   } catch (error) {
     console.error("Submit quote error:", error)
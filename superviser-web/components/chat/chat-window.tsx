@@ -72,6 +72,8 @@ interface ChatWindowProps {
   onSuspendChat: (roomId: string, reason: string) => Promise<void>
   onResumeChat: (roomId: string) => Promise<void>
   onDownloadFile?: (message: ChatMessage) => void
+  /** Called when another room tab is selected */
+  onActiveRoomChange?: (roomId: string) => void
 }
 
 function getRoomIcon(type: ChatRoomType) {
@@ -136,6 +138,7 @@ export function ChatWindow({
   onSuspendChat,
   onResumeChat,
   onDownloadFile,
+  onActiveRoomChange,
 }: ChatWindowProps) {
   const [activeRoomId, setActiveRoomId] = useState(rooms[0]?.id || "")
   const [suspendDialogOpen, setSuspendDialogOpen] = useState(false)
@@ -294,7 +297,10 @@ export function ChatWindow({
         <div className="bg-white/60 backdrop-blur-sm border-b border-gray-200/80 px-6">
           <Tabs
             value={activeRoomId}
-            onValueChange={setActiveRoomId}
+            onValueChange={(roomId) => {
+              setActiveRoomId(roomId)
+              onActiveRoomChange?.(roomId)
+            }}
           >
             <TabsList className="w-full justify-start rounded-none bg-transparent h-auto p-0 gap-1">
               {rooms.map((room) => {
@@ -360,7 +366,10 @@ export function ChatWindow({
 
             {/* Message List */}
             <MessageList
-              messages={activeRoom.last_message ? [activeRoom.last_message] : []}
+              messages={
+                activeRoom.messages ??
+                (activeRoom.last_message ? [activeRoom.last_message] : [])
+              }
               participants={activeRoom.participants}
               currentUserId={currentUserId}
               onDownloadFile={onDownloadFile}
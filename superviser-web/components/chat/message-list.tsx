@@ -26,6 +26,7 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip"
 import { cn } from "@/lib/utils"
+import { describeReceipts, type MessageReceiptSummary } from "@shared/chat-receipts"
 import { ChatMessage, ChatParticipant } from "./types"
 
 interface MessageListProps {
@@ -45,6 +46,44 @@ function formatMessageDate(date: Date): string {
   return format(date, "MMMM d, yyyy")
 }
 
+const RECEIPT_LABELS: Record<MessageReceiptSummary["status"], string> = {
+  sent: "Sent",
+  delivered: "Delivered",
+  read: "Read",
+}
+
+function ReceiptTicks({ receipt }: { receipt: MessageReceiptSummary }) {
+  const Icon = receipt.status === "sent" ? Check : CheckCheck
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <span role="status" aria-label={RECEIPT_LABELS[receipt.status]}>
+            <Icon
+              className={cn("h-3 w-3", receipt.status === "read" && "text-blue-500")}
+            />
+          </span>
+        </TooltipTrigger>
+        <TooltipContent>
+          {receipt.recipients.length > 1 ? (
+            <div className="space-y-0.5">
+              {receipt.recipients.map((recipient) => (
+                <p key={recipient.profile_id} className="text-xs">
+                  {recipient.name}: {RECEIPT_LABELS[recipient.status]}
+                  {recipient.at && ` · ${format(new Date(recipient.at), "MMM d, h:mm a")}`}
+                </p>
+              ))}
+            </div>
+          ) : (
+            describeReceipts(receipt)
+          )}
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  )
+}
+
 function MessageBubble({
   message,
   participant,
@@ -215,7 +254,9 @@ function MessageBubble({
         >
           <span>{format(new Date(message.created_at), "h:mm a")}</span>
           {isOwn && (
-            message.is_read ? (
+            message.receipt ? (
+              <ReceiptTicks receipt={message.receipt} />
+            ) : message.is_read ? (
               <CheckCheck className="h-3 w-3 text-blue-500" />
             ) : (
               <Check className="h-3 w-3" />
@@ -6,6 +6,7 @@
 // Re-export shared types from central database types
 export type { ChatRoomType, MessageType } from "@/types/database"
 import type { ChatRoomType, MessageType } from "@/types/database"
+import type { MessageReceiptSummary } from "@shared/chat-receipts"
 
 export interface ChatRoom {
   id: string
@@ -14,6 +15,8 @@ export interface ChatRoom {
   type: ChatRoomType
   name: string
   participants: ChatParticipant[]
+  /** Loaded messages of the room (falls back to last_message) */
+  messages?: ChatMessage[]
   last_message?: ChatMessage
   unread_count: number
   is_suspended?: boolean
@@ -48,6 +51,8 @@ export interface ChatMessage {
   is_contact_flagged?: boolean
   is_read: boolean
   read_at?: string
+  /** Sent / delivered / read state per recipient, for own messages */
+  receipt?: MessageReceiptSummary
   created_at: string
   updated_at?: string
 }
@@ -45,8 +45,23 @@ import {
   FormMessage,
 } from "@/components/ui/form"
 import { ScrollArea } from "@/components/ui/scroll-area"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
 import { toast } from "sonner"
 import { submitQuoteAction } from "@/app/actions/quote"
+import { createClient } from "@/lib/supabase/client"
+import {
+  getPriceBreakdown,
+  PRICING_COMPLEXITIES,
+  type PriceInput,
+  type PricingBreakdown,
+  type PricingComplexity,
+} from "@/lib/pricing"
 import type { ProjectRequest } from "./request-card"
 
 const quoteFormSchema = z.object({
@@ -64,30 +79,6 @@ interface AnalyzeQuoteModalProps {
   onQuoteSubmit: (requestId: string, data: QuoteFormData) => void
 }
 
-interface PricingGuide {
-  base_price_per_word: number
-  base_price_per_page: number
-  urgency_24h_multiplier: number
-  urgency_48h_multiplier: number
-  urgency_72h_multiplier: number
-  complexity_medium_multiplier: number
-  complexity_hard_multiplier: number
-  supervisor_percentage: number
-  platform_percentage: number
-}
-
-const DEFAULT_PRICING: PricingGuide = {
-  base_price_per_word: 0.5,
-  base_price_per_page: 150,
-  urgency_24h_multiplier: 1.5,
-  urgency_48h_multiplier: 1.3,
-  urgency_72h_multiplier: 1.15,
-  complexity_medium_multiplier: 1.2,
-  complexity_hard_multiplier: 1.5,
-  supervisor_percentage: 15,
-  platform_percentage: 20,
-}
-
 export function AnalyzeQuoteModal({
   request,
   isOpen,
@@ -95,8 +86,10 @@ export function AnalyzeQuoteModal({
   onQuoteSubmit,
 }: AnalyzeQuoteModalProps) {
   const [isSubmitting, setIsSubmitting] = useState(false)
-  const [suggestedQuote, setSuggestedQuote] = useState(0)
-  const pricing = DEFAULT_PRICING
+  const [complexity, setComplexity] = useState<PricingComplexity>("easy")
+  const [suggestion, setSuggestion] = useState<PricingBreakdown | null>(null)
+  const [split, setSplit] = useState<PricingBreakdown | null>(null)
+  const [isPricing, setIsPricing] = useState(false)
 
   const form = useForm<QuoteFormData>({
     resolver: zodResolver(quoteFormSchema),
@@ -107,75 +100,78 @@ export function AnalyzeQuoteModal({
     },
   })
 
-  useEffect(() => {
-    if (request && isOpen) {
-      calculateSuggestedQuote()
-    }
-  }, [request, isOpen])
+  const userQuote = form.watch("userQuote")
 
-  const calculateSuggestedQuote = () => {
-    if (!request) return
-
-    let basePrice = 0
-    if (request.word_count) {
-      basePrice = request.word_count * pricing.base_price_per_word
-    } else if (request.page_count) {
-      basePrice = request.page_count * pricing.base_price_per_page
-    } else {
-      basePrice = 500 // Default minimum
-    }
+  // Suggested quote from the shared pricing engine (same as the student's estimate)
+  useEffect(() => {
+    if (!request || !isOpen) return
+
+    let cancelled = false
+    setIsPricing(true)
+
+    getPriceBreakdown(createClient(), {
+      serviceType: request.service_type as PriceInput["serviceType"],
+      subject: request.subject_id,
+      wordCount: request.word_count,
+      pageCount: request.page_count,
+      deadline: request.deadline,
+      complexity,
+    })
+      .then((breakdown) => {
+        if (cancelled) return
+        setSuggestion(breakdown)
+        setSplit(breakdown)
+        form.setValue("userQuote", breakdown.total)
+        form.setValue("doerPayout", breakdown.doer_payout)
+      })
+      .catch((error) => {
+        console.error("Error calculating suggested quote:", error)
+        if (!cancelled) toast.error("Failed to load pricing guide")
+      })
+      .finally(() => {
+        if (!cancelled) setIsPricing(false)
+      })
 
-    // Apply urgency multiplier
-    const deadline = new Date(request.deadline)
-    const hoursUntilDeadline = Math.max(
-      0,
-      (deadline.getTime() - Date.now()) / (1000 * 60 * 60)
-    )
-
-    let urgencyMultiplier = 1
-    if (hoursUntilDeadline <= 24) {
-      urgencyMultiplier = pricing.urgency_24h_multiplier
-    } else if (hoursUntilDeadline <= 48) {
-      urgencyMultiplier = pricing.urgency_48h_multiplier
-    } else if (hoursUntilDeadline <= 72) {
-      urgencyMultiplier = pricing.urgency_72h_multiplier
+    return () => {
+      cancelled = true
     }
+  }, [request, isOpen, complexity, form])
 
-    const suggested = Math.ceil(basePrice * urgencyMultiplier)
-    const doerPayout = Math.ceil(
-      suggested * (1 - (pricing.supervisor_percentage + pricing.platform_percentage) / 100)
-    )
-
-    setSuggestedQuote(suggested)
-    form.setValue("userQuote", suggested)
-    form.setValue("doerPayout", doerPayout)
-  }
+  // Re-split a manually edited quote (debounced)
+  useEffect(() => {
+    if (!request || !suggestion || !userQuote || userQuote === split?.total) return
+
+    const timeout = setTimeout(() => {
+      getPriceBreakdown(createClient(), {
+        serviceType: suggestion.service_type,
+        subject: request.subject_id,
+        wordCount: request.word_count,
+        pageCount: request.page_count,
+        deadline: request.deadline,
+        complexity,
+        clientTotal: userQuote,
+      })
+        .then((breakdown) => {
+          setSplit(breakdown)
+          form.setValue("doerPayout", breakdown.doer_payout)
+        })
+        .catch((error) => console.error("Error splitting quote:", error))
+    }, 300)
 
-  const handleQuoteChange = (value: number) => {
-    form.setValue("userQuote", value)
-    // Calculate doer payout based on percentage splits
-    const doerPayout = Math.ceil(
-      value * (1 - (pricing.supervisor_percentage + pricing.platform_percentage) / 100)
-    )
-    form.setValue("doerPayout", doerPayout)
-  }
+    return () => clearTimeout(timeout)
+  }, [request, suggestion, userQuote, split?.total, complexity, form])
 
   const onSubmit = async (data: QuoteFormData) => {
     if (!request) return
 
     setIsSubmitting(true)
     try {
-      // Calculate amounts
-      const supervisorCommission = Math.ceil((data.userQuote * pricing.supervisor_percentage) / 100)
-      const platformFee = Math.ceil((data.userQuote * pricing.platform_percentage) / 100)
-
-      // Use server action to submit quote (bypasses RLS)
+      // Commission and platform fee are split server-side by the pricing engine
       const result = await submitQuoteAction({
         projectId: request.id,
         userQuote: data.userQuote,
         doerPayout: data.doerPayout,
-        supervisorCommission,
-        platformFee,
+        complexity,
       })
 
       if (!result.success) {
@@ -194,8 +190,10 @@ export function AnalyzeQuoteModal({
     }
   }
 
-  const supervisorEarning = form.watch("userQuote")
-    ? Math.ceil((form.watch("userQuote") * pricing.supervisor_percentage) / 100)
+  // A payout below the suggested one leaves the difference with the platform
+  const doerPayout = form.watch("doerPayout") || 0
+  const platformFee = split
+    ? Math.max(split.subtotal - doerPayout - split.supervisor_commission, 0)
     : 0
 
   if (!request) return null
@@ -300,9 +298,61 @@ export function AnalyzeQuoteModal({
                   </div>
                 </div>
                 <div className="text-3xl font-bold text-[#F97316]">
-                  ₹{suggestedQuote.toLocaleString("en-IN")}
+                  {isPricing && !suggestion ? (
+                    <Loader2 className="h-6 w-6 animate-spin" />
+                  ) : (
+                    <>₹{(suggestion?.total ?? 0).toLocaleString("en-IN")}</>
+                  )}
                 </div>
               </div>
+
+              <div className="mt-4 flex items-center justify-between gap-3">
+                <span className="text-xs font-medium text-gray-600">Complexity</span>
+                <Select
+                  value={complexity}
+                  onValueChange={(value) => setComplexity(value as PricingComplexity)}
+                >
+                  <SelectTrigger className="w-36 h-8 bg-white border-orange-200 rounded-lg">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PRICING_COMPLEXITIES.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {suggestion && (
+                <div className="mt-3 space-y-1 text-xs text-gray-600">
+                  <div className="flex justify-between">
+                    <span>
+                      {suggestion.pricing_unit === "fixed"
+                        ? "Base price"
+                        : `Base (${suggestion.units.toLocaleString("en-IN")} ${suggestion.pricing_unit}s × ₹${suggestion.unit_rate})`}
+                    </span>
+                    <span>₹{suggestion.base_price.toLocaleString("en-IN")}</span>
+                  </div>
+                  {suggestion.urgency_fee > 0 && (
+                    <div className="flex justify-between">
+                      <span>Urgency ({suggestion.urgency_band})</span>
+                      <span>+₹{suggestion.urgency_fee.toLocaleString("en-IN")}</span>
+                    </div>
+                  )}
+                  {suggestion.complexity_fee > 0 && (
+                    <div className="flex justify-between">
+                      <span>Complexity ({suggestion.complexity})</span>
+                      <span>+₹{suggestion.complexity_fee.toLocaleString("en-IN")}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between">
+                    <span>GST ({suggestion.gst_percentage}%)</span>
+                    <span>₹{suggestion.gst_amount.toLocaleString("en-IN")}</span>
+                  </div>
+                </div>
+              )}
             </div>
 
             {/* Quote Form */}
@@ -325,7 +375,7 @@ export function AnalyzeQuoteModal({
                                 className="pl-9 border-gray-200 focus:border-orange-300 focus:ring-orange-200 rounded-lg"
                                 {...field}
                                 onChange={(e) =>
-                                  handleQuoteChange(parseInt(e.target.value) || 0)
+                                  field.onChange(parseInt(e.target.value) || 0)
                                 }
                               />
                             </div>
@@ -383,30 +433,33 @@ export function AnalyzeQuoteModal({
                         ₹{form.watch("userQuote")?.toLocaleString("en-IN") || 0}
                       </span>
                     </div>
+                    <div className="flex justify-between items-center py-1.5">
+                      <span className="text-gray-600">GST ({split?.gst_percentage ?? 0}%)</span>
+                      <span className="font-semibold text-red-600">
+                        -₹{(split?.gst_amount ?? 0).toLocaleString("en-IN")}
+                      </span>
+                    </div>
                     <Separator className="bg-gray-200" />
                     <div className="flex justify-between items-center py-1.5">
                       <span className="text-gray-600">
-                        Doer Payout ({100 - pricing.supervisor_percentage - pricing.platform_percentage}%)
+                        Doer Payout ({split?.doer_percentage ?? 0}%)
                       </span>
                       <span className="font-semibold text-red-600">
-                        -₹{form.watch("doerPayout")?.toLocaleString("en-IN") || 0}
+                        -₹{doerPayout.toLocaleString("en-IN")}
                       </span>
                     </div>
                     <div className="flex justify-between items-center py-1.5">
                       <span className="text-gray-600">
-                        Platform Fee ({pricing.platform_percentage}%)
+                        Platform Fee ({split?.platform_percentage ?? 0}%)
                       </span>
                       <span className="font-semibold text-red-600">
-                        -₹
-                        {Math.ceil(
-                          (form.watch("userQuote") * pricing.platform_percentage) / 100
-                        ).toLocaleString("en-IN") || 0}
+                        -₹{platformFee.toLocaleString("en-IN")}
                       </span>
                     </div>
                     <Separator className="bg-gray-200" />
                     <div className="flex justify-between items-center py-2 px-3 bg-emerald-50 rounded-lg border border-emerald-200">
-                      <span className="font-semibold text-emerald-700">Your Commission ({pricing.supervisor_percentage}%)</span>
-                      <span className="text-lg font-bold text-emerald-600">₹{supervisorEarning.toLocaleString("en-IN")}</span>
+                      <span className="font-semibold text-emerald-700">Your Commission ({split?.supervisor_percentage ?? 0}%)</span>
+                      <span className="text-lg font-bold text-emerald-600">₹{(split?.supervisor_commission ?? 0).toLocaleString("en-IN")}</span>
                     </div>
                   </div>
                 </div>
@@ -40,6 +40,8 @@ import {
   SelectValue,
 } from "@/components/ui/select"
 import { createClient } from "@/lib/supabase/client"
+import { transitionProjectStatus } from "@/hooks/use-projects"
+import { describeProjectTransitionError } from "@shared/project-status"
 import { toast } from "sonner"
 import { cn } from "@/lib/utils"
 import type { PaidProject } from "./ready-to-assign-card"
@@ -210,6 +212,9 @@ export function AssignDoerModal({
         return
       }
 
+      // Assign the doer through the status state machine
+      await transitionProjectStatus(project.id, "assigned", { doerId: selectedDoer.id })
+
       // Create assignment record for tracking
       const { error: assignmentError } = await supabase
         .from("project_assignments")
@@ -226,28 +231,12 @@ export function AssignDoerModal({
         // Don't throw - assignment record is optional tracking
       }
 
-      // Update project status and assign doer
-      const { error: updateError } = await supabase
-        .from("projects")
-        .update({
-          status: "assigned",
-          doer_id: selectedDoer.id,
-          doer_assigned_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-        })
-        .eq("id", project.id)
-
-      if (updateError) {
-        console.error("Error updating project:", updateError)
-        throw updateError
-      }
-
       toast.success(`Project assigned to ${selectedDoer.full_name}`)
       onAssign(project.id, selectedDoer.id)
       onClose()
     } catch (error) {
       console.error("Error assigning doer:", error)
-      toast.error("Failed to assign doer")
+      toast.error(describeProjectTransitionError(error, "Failed to assign doer"))
     } finally {
       setIsAssigning(false)
     }
@@ -15,7 +15,7 @@ import {
   LucideIcon,
 } from "lucide-react"
 import { cn } from "@/lib/utils"
-import { useWallet, useEarningsStats } from "@/hooks/use-wallet"
+import { useEarningsStats } from "@/hooks/use-wallet"
 import { motion } from "framer-motion"
 
 interface StatCard {
@@ -36,14 +36,11 @@ interface EarningsSummaryV2Props {
 }
 
 export function EarningsSummaryV2({ className }: EarningsSummaryV2Props) {
-  const { wallet, isLoading: walletLoading } = useWallet()
-  const { stats, isLoading: statsLoading } = useEarningsStats()
+  const { stats, isLoading } = useEarningsStats()
 
-  const isLoading = walletLoading || statsLoading
-
-  // Calculate available balance (balance - pending payouts)
-  const availableBalance = (wallet?.balance || 0) - (stats?.pendingPayouts || 0)
-  const pendingEarnings = stats?.pendingPayouts || 0
+  // Released earnings not already requested for payout
+  const availableBalance = Math.max((stats?.available || 0) - (stats?.pendingPayouts || 0), 0)
+  const pendingEarnings = stats?.pendingEarnings || 0
   const totalEarnings = stats?.allTime || 0
   const thisMonthEarnings = stats?.thisMonth || 0
   const monthlyGrowth = stats?.monthlyGrowth || 0
@@ -60,7 +57,7 @@ export function EarningsSummaryV2({ className }: EarningsSummaryV2Props) {
     {
       title: "Pending Earnings",
       value: `₹${pendingEarnings.toLocaleString("en-IN")}`,
-      description: "In processing",
+      description: "Held until clients approve",
       icon: Clock,
       iconBg: "bg-amber-500/20",
       iconColor: "text-amber-600",
@@ -34,6 +34,7 @@ import {
 } from "@/components/ui/dialog"
 import { Progress } from "@/components/ui/progress"
 import { toast } from "sonner"
+import { PAYOUT_MIN_AMOUNT, describePayoutRequestError } from "@shared/payouts"
 
 export function EarningsSummary() {
   const { wallet, isLoading: walletLoading, requestWithdrawal, refetch } = useWallet()
@@ -46,9 +47,9 @@ export function EarningsSummary() {
 
   const isLoading = walletLoading || statsLoading || requestsLoading
 
-  const minWithdrawal = 500
-  const maxWithdrawal = wallet?.balance || 0
-  const availableBalance = wallet?.balance || 0
+  const minWithdrawal = PAYOUT_MIN_AMOUNT
+  const availableBalance = (wallet?.balance || 0) - (wallet?.locked_amount || 0)
+  const maxWithdrawal = availableBalance
   const pendingBalance = stats?.pendingPayouts || 0
   const totalEarnings = wallet?.total_credited || stats?.allTime || 0
 
@@ -62,12 +63,12 @@ export function EarningsSummary() {
     setIsWithdrawing(true)
     try {
       await requestWithdrawal(amount)
-      toast.success(`Withdrawal of Rs.${amount.toLocaleString()} initiated successfully`)
+      toast.success(`Withdrawal of Rs.${amount.toLocaleString()} requested`)
       setShowWithdrawDialog(false)
       setWithdrawAmount("")
       await refetch()
-    } catch {
-      toast.error("Withdrawal failed. Please try again.")
+    } catch (error) {
+      toast.error(describePayoutRequestError(error, "Withdrawal failed. Please try again."))
     } finally {
       setIsWithdrawing(false)
     }
@@ -22,6 +22,8 @@ import {
   LogOut,
   ChevronUp,
   Command,
+  ShieldAlert,
+  Banknote,
 } from "lucide-react"
 
 import {
@@ -87,6 +89,20 @@ const mainNavItems = [
   },
 ]
 
+/** Shown to moderators (rows in admins) only */
+const moderationNavItem = {
+  title: "Moderation",
+  href: "/moderation",
+  icon: ShieldAlert,
+}
+
+/** Shown to admins only */
+const payoutsNavItem = {
+  title: "Payouts",
+  href: "/payouts",
+  icon: Banknote,
+}
+
 const secondaryNavItems = [
   { title: "Profile", href: "/profile", icon: User },
   { title: "Settings", href: "/settings", icon: Settings },
@@ -101,10 +117,27 @@ interface AppSidebarV2Props {
   }
   unreadChats?: number
   pendingProjects?: number
+  isModerator?: boolean
+  openModerationCases?: number
+  isAdmin?: boolean
+  pendingPayoutRequests?: number
 }
 
-export function AppSidebarV2({ user, unreadChats = 0, pendingProjects = 0 }: AppSidebarV2Props) {
+export function AppSidebarV2({
+  user,
+  unreadChats = 0,
+  pendingProjects = 0,
+  isModerator = false,
+  openModerationCases = 0,
+  isAdmin = false,
+  pendingPayoutRequests = 0,
+}: AppSidebarV2Props) {
   const pathname = usePathname()
+  const navItems = [
+    ...mainNavItems,
+    ...(isModerator ? [moderationNavItem] : []),
+    ...(isAdmin ? [payoutsNavItem] : []),
+  ]
 
   const isActive = (href: string) => {
     if (href === "/dashboard") return pathname === "/dashboard"
@@ -147,12 +180,21 @@ export function AppSidebarV2({ user, unreadChats = 0, pendingProjects = 0 }: App
         <SidebarGroup className="py-3">
           <SidebarGroupContent>
             <SidebarMenu className="space-y-1">
-              {mainNavItems.map((item) => {
+              {navItems.map((item) => {
                 const active = isActive(item.href)
                 const showBadge =
                   (item.href === "/chat" && unreadChats > 0) ||
-                  (item.href === "/projects" && pendingProjects > 0)
-                const badgeCount = item.href === "/chat" ? unreadChats : pendingProjects
+                  (item.href === "/projects" && pendingProjects > 0) ||
+                  (item.href === "/moderation" && openModerationCases > 0) ||
+                  (item.href === "/payouts" && pendingPayoutRequests > 0)
+                const badgeCount =
+                  item.href === "/chat"
+                    ? unreadChats
+                    : item.href === "/moderation"
+                      ? openModerationCases
+                      : item.href === "/payouts"
+                        ? pendingPayoutRequests
+                        : pendingProjects
 
                 return (
                   <SidebarMenuItem key={item.href}>
@@ -0,0 +1,237 @@
+/**
+ * @fileoverview Side sheet with the reports behind a moderation case, its decision history and the moderator actions.
+ * @module components/moderation/case-detail-sheet
+ */
+
+"use client"
+
+import { useState } from "react"
+import { formatDistanceToNow } from "date-fns"
+import { Ban, CheckCircle2, EyeOff, Loader2, ShieldAlert, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet"
+import { cn } from "@/lib/utils"
+import { resolveModerationCaseAction } from "@/app/actions/moderation"
+import {
+  ACTION_LABELS,
+  CASE_STATUS_LABELS,
+  TARGET_TYPE_LABELS,
+  type ModerationAction,
+  type ModerationCase,
+  type ModerationDecision,
+  type ModerationReport,
+} from "./types"
+
+interface CaseDetailSheetProps {
+  moderationCase: ModerationCase | null
+  reports: ModerationReport[]
+  decisions: ModerationDecision[]
+  isLoading: boolean
+  onOpenChange: (open: boolean) => void
+  /** Called once a decision has been recorded */
+  onResolved: (caseId: string) => void
+}
+
+const ACTIONS: Array<{ action: ModerationAction; icon: typeof Ban; className: string }> = [
+  { action: "dismiss", icon: CheckCircle2, className: "border-gray-200 text-gray-700 hover:bg-gray-50" },
+  { action: "remove", icon: Trash2, className: "border-orange-200 text-orange-700 hover:bg-orange-50" },
+  { action: "warn", icon: ShieldAlert, className: "border-amber-200 text-amber-700 hover:bg-amber-50" },
+  { action: "suspend", icon: Ban, className: "border-rose-200 text-rose-700 hover:bg-rose-50" },
+]
+
+function formatReason(reason: string): string {
+  return reason.replace(/_/g, " ").replace(/^\w/, (c) => c.toUpperCase())
+}
+
+export function CaseDetailSheet({
+  moderationCase,
+  reports,
+  decisions,
+  isLoading,
+  onOpenChange,
+  onResolved,
+}: CaseDetailSheetProps) {
+  const [note, setNote] = useState("")
+  const [pendingAction, setPendingAction] = useState<ModerationAction | null>(null)
+
+  const isOpen = moderationCase?.status === "open"
+  const isChat = moderationCase?.target_type === "chat_user"
+
+  const handleAction = async (action: ModerationAction) => {
+    if (!moderationCase) return
+
+    setPendingAction(action)
+    const result = await resolveModerationCaseAction(moderationCase.id, action, note)
+    setPendingAction(null)
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to resolve case")
+      return
+    }
+
+    toast.success(
+      result.reportersNotified
+        ? `${ACTION_LABELS[action]} recorded, ${result.reportersNotified} reporter(s) notified`
+        : `${ACTION_LABELS[action]} recorded`
+    )
+    setNote("")
+    onResolved(moderationCase.id)
+  }
+
+  return (
+    <Sheet open={!!moderationCase} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        {moderationCase && (
+          <>
+            <SheetHeader>
+              <div className="flex items-center gap-2">
+                <Badge variant="outline">{TARGET_TYPE_LABELS[moderationCase.target_type]}</Badge>
+                <Badge
+                  className={cn(
+                    isOpen ? "bg-[#F97316] text-white" : "bg-gray-100 text-gray-700"
+                  )}
+                >
+                  {CASE_STATUS_LABELS[moderationCase.status]}
+                </Badge>
+                {moderationCase.is_auto_hidden && (
+                  <Badge variant="secondary" className="gap-1">
+                    <EyeOff className="h-3 w-3" />
+                    Auto-hidden
+                  </Badge>
+                )}
+              </div>
+              <SheetTitle className="text-[#1C1C1C]">
+                {isChat
+                  ? `Chat violations by ${moderationCase.author_name || "Unknown user"}`
+                  : moderationCase.target_title || "Untitled"}
+              </SheetTitle>
+              <SheetDescription>
+                {moderationCase.author_name || "Unknown author"}
+                {moderationCase.author_blocked && " · suspended"}
+                {" · "}
+                {moderationCase.report_count} report{moderationCase.report_count === 1 ? "" : "s"}
+                {!isChat && ` from ${moderationCase.reporter_count} people`}
+              </SheetDescription>
+            </SheetHeader>
+
+            <div className="space-y-6 px-4 pb-6">
+              {moderationCase.target_excerpt && (
+                <p className="rounded-xl bg-gray-50 p-3 text-sm text-gray-700 whitespace-pre-wrap">
+                  {moderationCase.target_excerpt}
+                </p>
+              )}
+
+              {/* Actions */}
+              {isOpen && (
+                <div className="space-y-3">
+                  <Textarea
+                    placeholder="Note for the audit trail (shared with the author on warn and suspend)"
+                    value={note}
+                    maxLength={500}
+                    onChange={(e) => setNote(e.target.value)}
+                    rows={3}
+                  />
+                  <div className="grid grid-cols-2 gap-2">
+                    {ACTIONS.filter(({ action }) => !(isChat && action === "remove")).map(
+                      ({ action, icon: Icon, className }) => (
+                        <Button
+                          key={action}
+                          variant="outline"
+                          className={cn("justify-start gap-2", className)}
+                          disabled={pendingAction !== null}
+                          onClick={() => handleAction(action)}
+                        >
+                          {pendingAction === action ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <Icon className="h-4 w-4" />
+                          )}
+                          {ACTION_LABELS[action]}
+                        </Button>
+                      )
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {/* Reports */}
+              <div className="space-y-3">
+                <h3 className="text-sm font-semibold text-[#1C1C1C]">
+                  {isChat ? "Logged violations" : "Reports"}
+                </h3>
+                {isLoading ? (
+                  <div className="space-y-2">
+                    {[1, 2, 3].map((i) => (
+                      <Skeleton key={i} className="h-16 w-full" />
+                    ))}
+                  </div>
+                ) : reports.length === 0 ? (
+                  <p className="text-sm text-gray-500">No reports</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {reports.map((report) => (
+                      <li key={report.id} className="rounded-xl border border-gray-100 p-3 space-y-1">
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="text-sm font-medium text-[#1C1C1C]">
+                            {formatReason(report.reason)}
+                          </span>
+                          <span className="text-xs text-gray-500">
+                            {formatDistanceToNow(new Date(report.created_at), { addSuffix: true })}
+                          </span>
+                        </div>
+                        {report.details && (
+                          <p className="text-sm text-gray-600 line-clamp-3">{report.details}</p>
+                        )}
+                        <p className="text-xs text-gray-500">
+                          {report.reporter_name || (isChat ? "Chat filter" : "Anonymous")}
+                          {" · "}
+                          {report.status}
+                        </p>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              {/* Audit trail */}
+              {decisions.length > 0 && (
+                <div className="space-y-3">
+                  <h3 className="text-sm font-semibold text-[#1C1C1C]">Decisions</h3>
+                  <ul className="space-y-2">
+                    {decisions.map((decision) => (
+                      <li key={decision.id} className="text-sm text-gray-600">
+                        <span className="font-medium text-[#1C1C1C]">
+                          {ACTION_LABELS[decision.action]}
+                        </span>
+                        {" by "}
+                        {decision.moderator_name || "a moderator"}
+                        {" · "}
+                        {formatDistanceToNow(new Date(decision.created_at), { addSuffix: true })}
+                        {" · "}
+                        {decision.report_count} report{decision.report_count === 1 ? "" : "s"}
+                        {decision.note && (
+                          <p className="mt-0.5 text-xs text-gray-500">{decision.note}</p>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  )
+}
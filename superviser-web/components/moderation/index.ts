@@ -0,0 +1,8 @@
+/**
+ * @fileoverview Barrel exports for the moderation module.
+ * @module components/moderation
+ */
+
+export * from "./types"
+export { ModerationQueue } from "./moderation-queue"
+export { CaseDetailSheet } from "./case-detail-sheet"
@@ -0,0 +1,222 @@
+/**
+ * @fileoverview Moderation queue listing reported content grouped by target, with reason counts.
+ * @module components/moderation/moderation-queue
+ */
+
+"use client"
+
+import { useState } from "react"
+import { formatDistanceToNow } from "date-fns"
+import { ChevronRight, EyeOff, Flag, MessageSquare, ShieldCheck, ShoppingBag, Users } from "lucide-react"
+import { toast } from "sonner"
+
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent } from "@/components/ui/card"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { cn } from "@/lib/utils"
+import { getModerationCaseAction, getModerationQueueAction } from "@/app/actions/moderation"
+import { CaseDetailSheet } from "./case-detail-sheet"
+import {
+  CASE_STATUS_LABELS,
+  TARGET_TYPE_LABELS,
+  type ModerationCase,
+  type ModerationDecision,
+  type ModerationReport,
+  type ModerationTargetType,
+} from "./types"
+
+type QueueTab = "open" | "resolved"
+
+interface ModerationQueueProps {
+  /** Open cases rendered on the server */
+  initialCases: ModerationCase[]
+}
+
+const TARGET_ICONS: Record<ModerationTargetType, typeof Flag> = {
+  marketplace_listing: ShoppingBag,
+  campus_post: Users,
+  campus_comment: MessageSquare,
+  chat_user: MessageSquare,
+}
+
+function formatReason(reason: string): string {
+  return reason.replace(/_/g, " ")
+}
+
+export function ModerationQueue({ initialCases }: ModerationQueueProps) {
+  const [tab, setTab] = useState<QueueTab>("open")
+  const [cases, setCases] = useState<ModerationCase[]>(initialCases)
+  const [isLoading, setIsLoading] = useState(false)
+  const [selected, setSelected] = useState<ModerationCase | null>(null)
+  const [reports, setReports] = useState<ModerationReport[]>([])
+  const [decisions, setDecisions] = useState<ModerationDecision[]>([])
+  const [isLoadingDetail, setIsLoadingDetail] = useState(false)
+
+  const loadQueue = async (next: QueueTab) => {
+    setIsLoading(true)
+    const result = await getModerationQueueAction(next)
+    setIsLoading(false)
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to load moderation queue")
+      return
+    }
+    setCases(result.cases || [])
+  }
+
+  const handleTabChange = (value: string) => {
+    const next = value as QueueTab
+    setTab(next)
+    loadQueue(next)
+  }
+
+  const handleSelect = async (moderationCase: ModerationCase) => {
+    setSelected(moderationCase)
+    setReports([])
+    setDecisions([])
+    setIsLoadingDetail(true)
+
+    const result = await getModerationCaseAction(moderationCase.id)
+    setIsLoadingDetail(false)
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to load reports")
+      return
+    }
+    setReports(result.reports || [])
+    setDecisions(result.decisions || [])
+  }
+
+  const handleResolved = (caseId: string) => {
+    setSelected(null)
+    if (tab === "open") {
+      setCases((prev) => prev.filter((c) => c.id !== caseId))
+    } else {
+      loadQueue(tab)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <Tabs value={tab} onValueChange={handleTabChange}>
+        <TabsList>
+          <TabsTrigger value="open">Open</TabsTrigger>
+          <TabsTrigger value="resolved">Resolved</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-24 w-full rounded-2xl" />
+          ))}
+        </div>
+      ) : cases.length === 0 ? (
+        <Card className="rounded-2xl border-dashed">
+          <CardContent className="flex flex-col items-center gap-2 py-12 text-center">
+            <ShieldCheck className="h-8 w-8 text-[#F97316]" />
+            <p className="font-medium text-[#1C1C1C]">
+              {tab === "open" ? "Nothing to review" : "No resolved cases yet"}
+            </p>
+            <p className="text-sm text-gray-500">
+              Reported listings, posts and chat violations show up here.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {cases.map((moderationCase) => {
+            const Icon = TARGET_ICONS[moderationCase.target_type]
+            const reasons = Object.entries(moderationCase.reason_counts || {}).sort(
+              ([, a], [, b]) => b - a
+            )
+            const isChat = moderationCase.target_type === "chat_user"
+
+            return (
+              <button
+                key={moderationCase.id}
+                type="button"
+                onClick={() => handleSelect(moderationCase)}
+                className="w-full text-left"
+              >
+                <Card className="rounded-2xl transition-all duration-300 hover:shadow-md">
+                  <CardContent className="flex items-start gap-4 p-4">
+                    <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-xl bg-orange-50">
+                      <Icon className="h-5 w-5 text-[#F97316]" />
+                    </div>
+                    <div className="min-w-0 flex-1 space-y-1.5">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Badge variant="outline" className="text-[11px]">
+                          {TARGET_TYPE_LABELS[moderationCase.target_type]}
+                        </Badge>
+                        {moderationCase.status !== "open" && (
+                          <Badge variant="secondary" className="text-[11px]">
+                            {CASE_STATUS_LABELS[moderationCase.status]}
+                          </Badge>
+                        )}
+                        {moderationCase.is_auto_hidden && moderationCase.status === "open" && (
+                          <Badge variant="secondary" className="gap-1 text-[11px]">
+                            <EyeOff className="h-3 w-3" />
+                            Auto-hidden
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="truncate font-medium text-[#1C1C1C]">
+                        {isChat
+                          ? moderationCase.author_name || "Unknown user"
+                          : moderationCase.target_title || "Untitled"}
+                      </p>
+                      {moderationCase.target_excerpt && (
+                        <p className="line-clamp-1 text-sm text-gray-500">
+                          {moderationCase.target_excerpt}
+                        </p>
+                      )}
+                      <div className="flex flex-wrap gap-1.5">
+                        {reasons.map(([reason, count]) => (
+                          <span
+                            key={reason}
+                            className="rounded-full bg-gray-100 px-2 py-0.5 text-[11px] text-gray-600"
+                          >
+                            {formatReason(reason)} × {count}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="flex shrink-0 flex-col items-end gap-1 text-right">
+                      <span
+                        className={cn(
+                          "flex items-center gap-1 text-sm font-semibold",
+                          moderationCase.status === "open" ? "text-rose-600" : "text-gray-500"
+                        )}
+                      >
+                        <Flag className="h-3.5 w-3.5" />
+                        {isChat ? moderationCase.report_count : moderationCase.reporter_count}
+                      </span>
+                      <span className="text-xs text-gray-500">
+                        {formatDistanceToNow(
+                          new Date(moderationCase.resolved_at || moderationCase.last_reported_at),
+                          { addSuffix: true }
+                        )}
+                      </span>
+                      <ChevronRight className="h-4 w-4 text-gray-400" />
+                    </div>
+                  </CardContent>
+                </Card>
+              </button>
+            )
+          })}
+        </div>
+      )}
+
+      <CaseDetailSheet
+        moderationCase={selected}
+        reports={reports}
+        decisions={decisions}
+        isLoading={isLoadingDetail}
+        onOpenChange={(open) => !open && setSelected(null)}
+        onResolved={handleResolved}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,82 @@
+/**
+ * @fileoverview Type definitions for the moderation module.
+ * @module components/moderation/types
+ */
+
+export type ModerationTargetType =
+  | "marketplace_listing"
+  | "campus_post"
+  | "campus_comment"
+  | "chat_user"
+
+export type ModerationCaseStatus = "open" | "dismissed" | "removed" | "warned" | "suspended"
+
+export type ModerationAction = "dismiss" | "remove" | "warn" | "suspend"
+
+/** A reported listing, post, comment or chat sender with its report counts */
+export interface ModerationCase {
+  id: string
+  target_type: ModerationTargetType
+  target_id: string
+  status: ModerationCaseStatus
+  report_count: number
+  /** Distinct people with a pending report */
+  reporter_count: number
+  /** Reports per reason, e.g. { scam: 2, spam: 1 } */
+  reason_counts: Record<string, number>
+  /** Hidden automatically after enough distinct reporters */
+  is_auto_hidden: boolean
+  opened_at: string
+  last_reported_at: string
+  resolved_at: string | null
+  author_id: string | null
+  author_name: string | null
+  author_avatar: string | null
+  author_blocked: boolean
+  target_title: string | null
+  target_excerpt: string | null
+}
+
+/** One report behind a case; chat violations have no reporter */
+export interface ModerationReport {
+  id: string
+  reporter_id: string | null
+  reporter_name: string | null
+  reason: string
+  details: string | null
+  status: string
+  created_at: string
+}
+
+/** Audit trail entry */
+export interface ModerationDecision {
+  id: string
+  action: ModerationAction
+  note: string | null
+  report_count: number
+  reporter_count: number
+  created_at: string
+  moderator_name: string | null
+}
+
+export const TARGET_TYPE_LABELS: Record<ModerationTargetType, string> = {
+  marketplace_listing: "Listing",
+  campus_post: "Campus post",
+  campus_comment: "Comment",
+  chat_user: "Chat",
+}
+
+export const CASE_STATUS_LABELS: Record<ModerationCaseStatus, string> = {
+  open: "Open",
+  dismissed: "Dismissed",
+  removed: "Removed",
+  warned: "Author warned",
+  suspended: "Author suspended",
+}
+
+export const ACTION_LABELS: Record<ModerationAction, string> = {
+  dismiss: "Dismiss",
+  remove: "Remove",
+  warn: "Warn author",
+  suspend: "Suspend author",
+}
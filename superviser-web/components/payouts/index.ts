@@ -0,0 +1,8 @@
+/**
+ * @fileoverview Barrel exports for the payouts module.
+ * @module components/payouts
+ */
+
+export * from "./types"
+export { PayoutQueue } from "./payout-queue"
+export { PayoutActionDialog } from "./payout-action-dialog"
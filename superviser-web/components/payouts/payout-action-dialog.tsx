@@ -0,0 +1,137 @@
+/**
+ * @fileoverview Dialog asking for the one detail a payout step needs: the rejection reason, the bank reference or the failure reason.
+ * @module components/payouts/payout-action-dialog
+ */
+
+"use client"
+
+import { useState } from "react"
+import { Loader2 } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+
+/** Steps that need a detail from the admin */
+export type PayoutDialogAction = "reject" | "mark_paid" | "mark_failed"
+
+interface PayoutActionDialogProps {
+  action: PayoutDialogAction | null
+  /** Payee and amount, for the description */
+  subject: string
+  isSubmitting: boolean
+  onOpenChange: (open: boolean) => void
+  onSubmit: (value: string) => void
+}
+
+const DIALOG_COPY: Record<
+  PayoutDialogAction,
+  { title: string; description: string; label: string; placeholder: string; submit: string; required: boolean; multiline: boolean }
+> = {
+  reject: {
+    title: "Reject payout request",
+    description: "The held amount goes back to the payee's available balance. They'll see this reason.",
+    label: "Reason",
+    placeholder: "e.g. Bank details don't match the account holder",
+    submit: "Reject request",
+    required: true,
+    multiline: true,
+  },
+  mark_paid: {
+    title: "Mark payout as paid",
+    description: "The amount leaves the payee's wallet and they're told the payout arrived.",
+    label: "UTR / UPI reference",
+    placeholder: "e.g. N292261234567890",
+    submit: "Mark paid",
+    required: false,
+    multiline: false,
+  },
+  mark_failed: {
+    title: "Mark payout as failed",
+    description: "The held amount goes back to the payee's available balance. They'll see this reason.",
+    label: "Failure reason",
+    placeholder: "e.g. Beneficiary account closed",
+    submit: "Mark failed",
+    required: true,
+    multiline: true,
+  },
+}
+
+export function PayoutActionDialog({
+  action,
+  subject,
+  isSubmitting,
+  onOpenChange,
+  onSubmit,
+}: PayoutActionDialogProps) {
+  const [value, setValue] = useState("")
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) setValue("")
+    onOpenChange(open)
+  }
+
+  const copy = action ? DIALOG_COPY[action] : null
+
+  return (
+    <Dialog open={action !== null} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        {copy && (
+          <>
+            <DialogHeader>
+              <DialogTitle>{copy.title}</DialogTitle>
+              <DialogDescription>
+                {subject}. {copy.description}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-2">
+              <Label htmlFor="payout-action-value">{copy.label}</Label>
+              {copy.multiline ? (
+                <Textarea
+                  id="payout-action-value"
+                  value={value}
+                  onChange={(e) => setValue(e.target.value)}
+                  placeholder={copy.placeholder}
+                  maxLength={500}
+                  rows={3}
+                />
+              ) : (
+                <Input
+                  id="payout-action-value"
+                  value={value}
+                  onChange={(e) => setValue(e.target.value)}
+                  placeholder={copy.placeholder}
+                  maxLength={64}
+                />
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={isSubmitting}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => onSubmit(value)}
+                disabled={isSubmitting || (copy.required && !value.trim())}
+                className={action === "mark_paid" ? "bg-emerald-600 hover:bg-emerald-700" : "bg-rose-600 hover:bg-rose-700"}
+              >
+                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {copy.submit}
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,436 @@
+/**
+ * @fileoverview Payout queue: review requests, export approved payouts as bank or UPI files, and record what the bank did with them.
+ * @module components/payouts/payout-queue
+ */
+
+"use client"
+
+import { useState } from "react"
+import { formatDistanceToNow } from "date-fns"
+import { Banknote, Check, Download, Loader2, Smartphone, X } from "lucide-react"
+import { toast } from "sonner"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { cn } from "@/lib/utils"
+import type { BankTransferMode } from "@/lib/payout-files"
+import { PAYOUT_METHOD_LABELS, type PayoutMethod } from "@shared/payouts"
+import {
+  exportPayoutBatchAction,
+  getPayoutsAction,
+  getPendingPayoutRequestsAction,
+  reviewPayoutRequestAction,
+  updatePayoutStatusAction,
+} from "@/app/actions/payouts"
+import { PayoutActionDialog, type PayoutDialogAction } from "./payout-action-dialog"
+import {
+  PAYOUT_STATUS_LABELS,
+  type PayoutItem,
+  type PayoutQueueTab,
+  type PayoutRequestItem,
+  type PayoutStatus,
+} from "./types"
+
+interface PayoutQueueProps {
+  /** Pending requests rendered on the server */
+  initialRequests: PayoutRequestItem[]
+}
+
+interface DialogTarget {
+  action: PayoutDialogAction
+  id: string
+  subject: string
+}
+
+const STATUS_CLASSNAMES: Record<PayoutStatus, string> = {
+  pending: "bg-blue-50 text-blue-700 border-blue-200",
+  processing: "bg-amber-50 text-amber-700 border-amber-200",
+  completed: "bg-emerald-50 text-emerald-700 border-emerald-200",
+  failed: "bg-rose-50 text-rose-700 border-rose-200",
+  cancelled: "bg-gray-50 text-gray-600 border-gray-200",
+}
+
+const EMPTY_COPY: Record<PayoutQueueTab, string> = {
+  requests: "No payout requests waiting for review",
+  to_export: "No approved payouts waiting to be exported",
+  processing: "No payouts waiting on the bank",
+  history: "No settled payouts yet",
+}
+
+function formatAmount(amount: number): string {
+  return `₹${amount.toLocaleString("en-IN", { minimumFractionDigits: 0, maximumFractionDigits: 2 })}`
+}
+
+function payeeDestination(payout: PayoutItem): string {
+  if (payout.payout_method === "upi") return payout.upi_id || "No UPI ID"
+  const account = payout.bank_account_number ? `••••${payout.bank_account_number.slice(-4)}` : "No account"
+  return [payout.bank_name, account, payout.bank_ifsc_code].filter(Boolean).join(" · ")
+}
+
+function downloadCsv(fileName: string, content: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: "text/csv;charset=utf-8" }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+export function PayoutQueue({ initialRequests }: PayoutQueueProps) {
+  const [tab, setTab] = useState<PayoutQueueTab>("requests")
+  const [requests, setRequests] = useState<PayoutRequestItem[]>(initialRequests)
+  const [payouts, setPayouts] = useState<PayoutItem[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [bankMode, setBankMode] = useState<BankTransferMode>("NEFT")
+  const [exportingMethod, setExportingMethod] = useState<PayoutMethod | null>(null)
+  const [dialog, setDialog] = useState<DialogTarget | null>(null)
+
+  const loadTab = async (next: PayoutQueueTab) => {
+    setIsLoading(true)
+    if (next === "requests") {
+      const result = await getPendingPayoutRequestsAction()
+      setIsLoading(false)
+      if (!result.success) {
+        toast.error(result.error || "Failed to load payout requests")
+        return
+      }
+      setRequests(result.requests || [])
+      return
+    }
+
+    const result = await getPayoutsAction(next)
+    setIsLoading(false)
+    if (!result.success) {
+      toast.error(result.error || "Failed to load payouts")
+      return
+    }
+    setPayouts(result.payouts || [])
+  }
+
+  const handleTabChange = (value: string) => {
+    const next = value as PayoutQueueTab
+    setTab(next)
+    loadTab(next)
+  }
+
+  const handleApprove = async (request: PayoutRequestItem) => {
+    setBusyId(request.id)
+    const result = await reviewPayoutRequestAction(request.id, true)
+    setBusyId(null)
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to approve request")
+      return
+    }
+    toast.success(`Approved ${formatAmount(request.requested_amount)} for ${request.payee_name || "payee"}`)
+    setRequests((prev) => prev.filter((r) => r.id !== request.id))
+  }
+
+  const handleCancel = async (payout: PayoutItem) => {
+    setBusyId(payout.id)
+    const result = await updatePayoutStatusAction(payout.id, "cancelled")
+    setBusyId(null)
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to cancel payout")
+      return
+    }
+    toast.success("Payout cancelled and the hold released")
+    setPayouts((prev) => prev.filter((p) => p.id !== payout.id))
+  }
+
+  const handleExport = async (method: PayoutMethod) => {
+    const ids = payouts.filter((p) => p.payout_method === method).map((p) => p.id)
+    if (ids.length === 0) return
+
+    setExportingMethod(method)
+    const result = await exportPayoutBatchAction(ids, method, bankMode)
+    setExportingMethod(null)
+
+    const skipped = result.skipped?.length || 0
+    if (!result.success || !result.content || !result.fileName) {
+      toast.error(result.error || "Failed to export payouts", {
+        description: skipped ? `${skipped} payout${skipped === 1 ? "" : "s"} have details the bank would refuse` : undefined,
+      })
+      return
+    }
+
+    downloadCsv(result.fileName, result.content)
+    toast.success(`Exported ${result.exported} payout${result.exported === 1 ? "" : "s"} as ${result.batchReference}`, {
+      description: skipped
+        ? `${skipped} left behind: ${result.skipped!.map((s) => s.reason).join(", ")}`
+        : "Upload the file to the bank, then mark each payout paid or failed under Processing.",
+    })
+    loadTab("to_export")
+  }
+
+  const handleDialogSubmit = async (value: string) => {
+    if (!dialog) return
+
+    setBusyId(dialog.id)
+    const result =
+      dialog.action === "reject"
+        ? await reviewPayoutRequestAction(dialog.id, false, value)
+        : await updatePayoutStatusAction(
+            dialog.id,
+            dialog.action === "mark_paid" ? "completed" : "failed",
+            dialog.action === "mark_paid" ? { reference: value } : { failureReason: value }
+          )
+    setBusyId(null)
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to update payout")
+      return
+    }
+
+    toast.success(
+      dialog.action === "reject"
+        ? "Request rejected and the hold released"
+        : dialog.action === "mark_paid"
+          ? "Payout marked as paid"
+          : "Payout marked as failed and the hold released"
+    )
+    if (dialog.action === "reject") {
+      setRequests((prev) => prev.filter((r) => r.id !== dialog.id))
+    } else {
+      setPayouts((prev) => prev.filter((p) => p.id !== dialog.id))
+    }
+    setDialog(null)
+  }
+
+  const renderRequests = () =>
+    requests.map((request) => {
+      const isBusy = busyId === request.id
+      return (
+        <Card key={request.id} className="rounded-2xl">
+          <CardContent className="flex flex-wrap items-center gap-4 p-4">
+            <div className="min-w-0 flex-1 space-y-1">
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge variant="outline" className="text-[11px] capitalize">
+                  {request.requester_type}
+                </Badge>
+                <Badge variant="secondary" className="text-[11px]">
+                  {PAYOUT_METHOD_LABELS[request.payout_method]}
+                </Badge>
+              </div>
+              <p className="truncate font-medium text-[#1C1C1C]">{request.payee_name || "Unknown payee"}</p>
+              <p className="text-xs text-gray-500">
+                {request.payee_email} · requested{" "}
+                {formatDistanceToNow(new Date(request.created_at), { addSuffix: true })}
+              </p>
+            </div>
+            <div className="text-right">
+              <p className="text-lg font-semibold text-[#1C1C1C]">{formatAmount(request.requested_amount)}</p>
+              <p className={cn("text-xs", request.available_after_hold < 0 ? "text-rose-600" : "text-gray-500")}>
+                {formatAmount(request.available_after_hold)} left after holds
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                className="border-rose-200 text-rose-700 hover:bg-rose-50"
+                disabled={isBusy}
+                onClick={() =>
+                  setDialog({
+                    action: "reject",
+                    id: request.id,
+                    subject: `${formatAmount(request.requested_amount)} for ${request.payee_name || "this payee"}`,
+                  })
+                }
+              >
+                <X className="mr-1 h-4 w-4" />
+                Reject
+              </Button>
+              <Button
+                size="sm"
+                className="bg-emerald-600 hover:bg-emerald-700"
+                disabled={isBusy}
+                onClick={() => handleApprove(request)}
+              >
+                {isBusy ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <Check className="mr-1 h-4 w-4" />}
+                Approve
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )
+    })
+
+  const renderPayout = (payout: PayoutItem) => {
+    const isBusy = busyId === payout.id
+    const subject = `${formatAmount(payout.amount)} to ${payout.payee_name || "this payee"}`
+    const Icon = payout.payout_method === "upi" ? Smartphone : Banknote
+
+    return (
+      <Card key={payout.id} className="rounded-2xl">
+        <CardContent className="flex flex-wrap items-center gap-4 p-4">
+          <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-xl bg-orange-50">
+            <Icon className="h-5 w-5 text-[#F97316]" />
+          </div>
+          <div className="min-w-0 flex-1 space-y-1">
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant="outline" className={cn("text-[11px]", STATUS_CLASSNAMES[payout.status])}>
+                {PAYOUT_STATUS_LABELS[payout.status]}
+              </Badge>
+              {payout.batch_reference && (
+                <Badge variant="secondary" className="font-mono text-[11px]">
+                  {payout.batch_reference}
+                </Badge>
+              )}
+            </div>
+            <p className="truncate font-medium text-[#1C1C1C]">{payout.payee_name || "Unknown payee"}</p>
+            <p className="truncate text-xs text-gray-500">{payeeDestination(payout)}</p>
+            {payout.status === "failed" && payout.failure_reason && (
+              <p className="text-xs text-rose-600">{payout.failure_reason}</p>
+            )}
+            {payout.status === "completed" && payout.gateway_reference && (
+              <p className="font-mono text-xs text-gray-500">Ref {payout.gateway_reference}</p>
+            )}
+          </div>
+          <p className="text-lg font-semibold text-[#1C1C1C]">{formatAmount(payout.amount)}</p>
+          {payout.status === "pending" && (
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={isBusy}
+              onClick={() => handleCancel(payout)}
+            >
+              {isBusy && <Loader2 className="mr-1 h-4 w-4 animate-spin" />}
+              Cancel
+            </Button>
+          )}
+          {payout.status === "processing" && (
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                className="border-rose-200 text-rose-700 hover:bg-rose-50"
+                disabled={isBusy}
+                onClick={() => setDialog({ action: "mark_failed", id: payout.id, subject })}
+              >
+                Failed
+              </Button>
+              <Button
+                size="sm"
+                className="bg-emerald-600 hover:bg-emerald-700"
+                disabled={isBusy}
+                onClick={() => setDialog({ action: "mark_paid", id: payout.id, subject })}
+              >
+                Paid
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const renderExportBar = () => {
+    const counts = {
+      bank_transfer: payouts.filter((p) => p.payout_method === "bank_transfer"),
+      upi: payouts.filter((p) => p.payout_method === "upi"),
+    }
+    const total = (items: PayoutItem[]) => formatAmount(items.reduce((sum, p) => sum + p.amount, 0))
+
+    return (
+      <Card className="rounded-2xl">
+        <CardContent className="flex flex-wrap items-center gap-3 p-4">
+          <div className="flex items-center gap-2">
+            <Select value={bankMode} onValueChange={(value) => setBankMode(value as BankTransferMode)}>
+              <SelectTrigger className="w-[110px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="NEFT">NEFT</SelectItem>
+                <SelectItem value="IMPS">IMPS</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              disabled={counts.bank_transfer.length === 0 || exportingMethod !== null}
+              onClick={() => handleExport("bank_transfer")}
+            >
+              {exportingMethod === "bank_transfer" ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Download className="mr-2 h-4 w-4" />
+              )}
+              Bank file ({counts.bank_transfer.length} · {total(counts.bank_transfer)})
+            </Button>
+          </div>
+          <Button
+            variant="outline"
+            disabled={counts.upi.length === 0 || exportingMethod !== null}
+            onClick={() => handleExport("upi")}
+          >
+            {exportingMethod === "upi" ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Download className="mr-2 h-4 w-4" />
+            )}
+            UPI batch ({counts.upi.length} · {total(counts.upi)})
+          </Button>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const isEmpty = tab === "requests" ? requests.length === 0 : payouts.length === 0
+
+  return (
+    <div className="space-y-4">
+      <Tabs value={tab} onValueChange={handleTabChange}>
+        <TabsList>
+          <TabsTrigger value="requests">Requests</TabsTrigger>
+          <TabsTrigger value="to_export">To export</TabsTrigger>
+          <TabsTrigger value="processing">Processing</TabsTrigger>
+          <TabsTrigger value="history">History</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-20 w-full rounded-2xl" />
+          ))}
+        </div>
+      ) : isEmpty ? (
+        <Card className="rounded-2xl border-dashed">
+          <CardContent className="flex flex-col items-center gap-2 py-12 text-center">
+            <Banknote className="h-8 w-8 text-[#F97316]" />
+            <p className="font-medium text-[#1C1C1C]">{EMPTY_COPY[tab]}</p>
+            <p className="text-sm text-gray-500">
+              Doers and supervisors request payouts from their earnings.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {tab === "to_export" && renderExportBar()}
+          {tab === "requests" ? renderRequests() : payouts.map(renderPayout)}
+        </div>
+      )}
+
+      <PayoutActionDialog
+        key={dialog ? `${dialog.action}-${dialog.id}` : "closed"}
+        action={dialog?.action ?? null}
+        subject={dialog?.subject ?? ""}
+        isSubmitting={dialog !== null && busyId === dialog.id}
+        onOpenChange={(open) => !open && setDialog(null)}
+        onSubmit={handleDialogSubmit}
+      />
+    </div>
+  )
+}
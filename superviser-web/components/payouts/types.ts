@@ -0,0 +1,65 @@
+/**
+ * @fileoverview Type definitions for the payout queue.
+ * @module components/payouts/types
+ */
+
+import type { PayoutMethod, PayoutRequestStatus } from "@shared/payouts"
+import type { Database } from "@/types/database"
+
+export type PayoutStatus = Database["public"]["Enums"]["payout_status"]
+
+/** Queue tabs: requests to review, then payouts by where they are */
+export type PayoutQueueTab = "requests" | "to_export" | "processing" | "history"
+
+/** A request waiting for review, with what the payee has */
+export interface PayoutRequestItem {
+  id: string
+  requested_amount: number
+  payout_method: PayoutMethod
+  status: PayoutRequestStatus
+  requester_type: "doer" | "supervisor"
+  created_at: string
+  payee_id: string
+  payee_name: string | null
+  payee_email: string | null
+  /** Wallet balance minus every hold, this request's included */
+  available_after_hold: number
+}
+
+/** An approved payout */
+export interface PayoutItem {
+  id: string
+  amount: number
+  payout_method: PayoutMethod
+  status: PayoutStatus
+  recipient_type: "doer" | "supervisor"
+  payee_name: string | null
+  bank_account_name: string | null
+  bank_account_number: string | null
+  bank_ifsc_code: string | null
+  bank_name: string | null
+  upi_id: string | null
+  /** Export batch the payout went out in */
+  batch_reference: string | null
+  /** Bank UTR or UPI reference once paid */
+  gateway_reference: string | null
+  failure_reason: string | null
+  requested_at: string | null
+  processed_at: string | null
+  completed_at: string | null
+}
+
+export const PAYOUT_STATUS_LABELS: Record<PayoutStatus, string> = {
+  pending: "Ready to export",
+  processing: "Processing",
+  completed: "Paid",
+  failed: "Failed",
+  cancelled: "Cancelled",
+}
+
+/** Payout statuses listed under each tab */
+export const PAYOUT_TAB_STATUSES: Record<Exclude<PayoutQueueTab, "requests">, PayoutStatus[]> = {
+  to_export: ["pending"],
+  processing: ["processing"],
+  history: ["completed", "failed", "cancelled"],
+}
@@ -5,7 +5,7 @@
 
 "use client"
 
-import { useState } from "react"
+import { useState, type ReactNode } from "react"
 import {
   CheckCircle2,
   XCircle,
@@ -13,7 +13,12 @@ import {
   FileText,
   AlertTriangle,
   Loader2,
+  ScanSearch,
+  ExternalLink,
+  Bot,
+  type LucideIcon,
 } from "lucide-react"
+import { format } from "date-fns"
 
 import {
   Dialog,
@@ -30,6 +35,8 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
 import { Checkbox } from "@/components/ui/checkbox"
 import { Badge } from "@/components/ui/badge"
 import { cn } from "@/lib/utils"
+import { runQcPlagiarismCheckAction } from "@/app/actions/plagiarism"
+import { runQcAiCheckAction } from "@/app/actions/ai-detection"
 import { ActiveProject } from "./types"
 
 interface QCReviewModalProps {
@@ -56,6 +63,80 @@ const REVISION_REASONS = [
   "Quality below standard",
 ]
 
+interface QCCheckProps {
+  icon: LucideIcon
+  title: string
+  description: string
+  score?: number
+  scoreLabel: string
+  /** Scores up to the first value are green, up to the second amber */
+  thresholds: [number, number]
+  error?: string
+  isRunning: boolean
+  onRun: () => void
+  /** Details shown once a score is available */
+  children: ReactNode
+}
+
+/** One automated QC check with its score or a button to run it */
+function QCCheck({
+  icon: Icon,
+  title,
+  description,
+  score,
+  scoreLabel,
+  thresholds,
+  error,
+  isRunning,
+  onRun,
+  children,
+}: QCCheckProps) {
+  return (
+    <div className="p-4 rounded-xl border space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Icon className="h-4 w-4 text-muted-foreground" />
+          <span className="text-sm font-medium">{title}</span>
+        </div>
+        {score !== undefined ? (
+          <Badge
+            className={cn(
+              "text-white",
+              score <= thresholds[0]
+                ? "bg-green-600"
+                : score <= thresholds[1]
+                  ? "bg-amber-500"
+                  : "bg-red-600"
+            )}
+          >
+            {score}% {scoreLabel}
+          </Badge>
+        ) : (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onRun}
+            disabled={isRunning}
+            className="rounded-lg"
+          >
+            {isRunning && <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" />}
+            {error ? "Retry" : "Run check"}
+          </Button>
+        )}
+      </div>
+      {score !== undefined ? (
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          {children}
+        </div>
+      ) : (
+        <p className={cn("text-xs", error ? "text-destructive" : "text-muted-foreground")}>
+          {error ?? description}
+        </p>
+      )}
+    </div>
+  )
+}
+
 export function QCReviewModal({
   project,
   mode,
@@ -72,6 +153,60 @@ export function QCReviewModal({
   )
   const [selectedReasons, setSelectedReasons] = useState<string[]>([])
   const [confirmDelivery, setConfirmDelivery] = useState(false)
+  const [isCheckingPlagiarism, setIsCheckingPlagiarism] = useState(false)
+  const [plagiarismState, setPlagiarismState] = useState<{
+    projectId: string
+    score?: number
+    sources?: number
+    reportUrl?: string
+    error?: string
+  } | null>(null)
+  const [isCheckingAi, setIsCheckingAi] = useState(false)
+  const [aiState, setAiState] = useState<{
+    projectId: string
+    score?: number
+    selfCheck?: { ai_percentage: number; created_at: string } | null
+    error?: string
+  } | null>(null)
+
+  const handlePlagiarismCheck = async () => {
+    if (!project) return
+    setIsCheckingPlagiarism(true)
+    try {
+      const response = await runQcPlagiarismCheckAction(project.id)
+      setPlagiarismState(
+        response.success && response.result
+          ? {
+              projectId: project.id,
+              score: response.result.overall_score,
+              sources: response.result.sources_found,
+              reportUrl: response.reportUrl,
+            }
+          : { projectId: project.id, error: response.error || "Plagiarism check failed" }
+      )
+    } finally {
+      setIsCheckingPlagiarism(false)
+    }
+  }
+
+  const handleAiCheck = async () => {
+    if (!project) return
+    setIsCheckingAi(true)
+    try {
+      const response = await runQcAiCheckAction(project.id)
+      setAiState(
+        response.success && response.result
+          ? {
+              projectId: project.id,
+              score: response.result.ai_probability,
+              selfCheck: response.selfCheck,
+            }
+          : { projectId: project.id, error: response.error || "AI check failed" }
+      )
+    } finally {
+      setIsCheckingAi(false)
+    }
+  }
 
   const handleApprove = async () => {
     if (!project || !confirmDelivery) return
@@ -110,6 +245,8 @@ export function QCReviewModal({
     setSeverity("minor")
     setSelectedReasons([])
     setConfirmDelivery(false)
+    setPlagiarismState(null)
+    setAiState(null)
   }
 
   const toggleReason = (reason: string) => {
@@ -122,6 +259,11 @@ export function QCReviewModal({
 
   if (!project) return null
 
+  // The modal stays mounted between projects
+  const plagiarismCheck =
+    plagiarismState?.projectId === project.id ? plagiarismState : null
+  const aiCheck = aiState?.projectId === project.id ? aiState : null
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-lg p-0 overflow-hidden">
@@ -154,6 +296,55 @@ export function QCReviewModal({
                 </div>
               </div>
 
+              {/* Plagiarism Check */}
+              <QCCheck
+                icon={ScanSearch}
+                title="Plagiarism check"
+                description="Compares the latest deliverable with past deliverables and reference files. The score is shared with the client."
+                score={plagiarismCheck?.score}
+                scoreLabel="similar"
+                thresholds={[10, 20]}
+                error={plagiarismCheck?.error}
+                isRunning={isCheckingPlagiarism}
+                onRun={handlePlagiarismCheck}
+              >
+                <span>
+                  {plagiarismCheck?.sources} matching source
+                  {plagiarismCheck?.sources === 1 ? "" : "s"} in past
+                  deliverables and reference files
+                </span>
+                {plagiarismCheck?.reportUrl && (
+                  <a
+                    href={plagiarismCheck.reportUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-1 text-primary hover:underline"
+                  >
+                    <ExternalLink className="h-3 w-3" />
+                    Report
+                  </a>
+                )}
+              </QCCheck>
+
+              {/* AI Content Check */}
+              <QCCheck
+                icon={Bot}
+                title="AI content check"
+                description="Runs the same analyzer the expert uses for their self-check on the latest deliverable."
+                score={aiCheck?.score}
+                scoreLabel="AI"
+                thresholds={[15, 30]}
+                error={aiCheck?.error}
+                isRunning={isCheckingAi}
+                onRun={handleAiCheck}
+              >
+                <span>
+                  {aiCheck?.selfCheck
+                    ? `Expert's self-check: ${Math.round(aiCheck.selfCheck.ai_percentage)}% AI (${format(new Date(aiCheck.selfCheck.created_at), "MMM d, h:mm a")})`
+                    : "The expert did not run a self-check for this project"}
+                </span>
+              </QCCheck>
+
               {/* Delivery Message */}
               <div className="space-y-2">
                 <Label htmlFor="approval-message">
@@ -214,7 +405,7 @@ export function QCReviewModal({
               <Button
                 className="bg-green-600 hover:bg-green-700 rounded-xl"
                 onClick={handleApprove}
-                disabled={!confirmDelivery || isLoading}
+                disabled={!confirmDelivery || !plagiarismCheck || !aiCheck || isLoading}
               >
                 {isLoading ? (
                   <Loader2 className="h-4 w-4 mr-2 animate-spin" />
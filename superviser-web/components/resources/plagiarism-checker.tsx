@@ -17,7 +17,6 @@ import { ScrollArea } from "@/components/ui/scroll-area"
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion"
 import { cn } from "@/lib/utils"
 import { PlagiarismCheckResult, PlagiarismMatch } from "./types"
-// Plagiarism checking currently not integrated with external service
 
 interface PlagiarismCheckerProps {
   onCheck?: (content: string | File) => Promise<PlagiarismCheckResult>
@@ -50,12 +49,20 @@ function MatchItem({ match }: { match: PlagiarismMatch }) {
       </AccordionTrigger>
       <AccordionContent>
         <div className="space-y-3 pt-2">
-          <div className="p-3 rounded-xl bg-orange-50 border border-orange-200">
-            <p className="text-sm italic text-[#1C1C1C]">&quot;{match.matched_text}&quot;</p>
-          </div>
+          {match.spans?.length ? (
+            match.spans.map((span) => (
+              <div key={span.start} className="p-3 rounded-xl bg-orange-50 border border-orange-200">
+                <p className="text-sm italic text-[#1C1C1C]"><mark className="bg-orange-200/70 text-inherit">{span.text}</mark></p>
+              </div>
+            ))
+          ) : (
+            <div className="p-3 rounded-xl bg-orange-50 border border-orange-200">
+              <p className="text-sm italic text-[#1C1C1C]">&quot;{match.matched_text}&quot;</p>
+            </div>
+          )}
           <div className="flex items-center justify-between">
             <a href={match.source_url} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 text-sm text-[#F97316] hover:underline">
-              <ExternalLink className="h-3.5 w-3.5" />View Source
+              <ExternalLink className="h-3.5 w-3.5" />{match.source_project_number ? `View ${match.source_project_number}` : "View Source"}
             </a>
             <Button variant="ghost" size="sm" onClick={handleCopy} className="text-xs text-[#1C1C1C] hover:bg-orange-50">
               {copied ? <><CheckCircle2 className="h-3.5 w-3.5 mr-1" />Copied</> : <><Copy className="h-3.5 w-3.5 mr-1" />Copy Text</>}
@@ -3,6 +3,8 @@
  * @module components/resources/types
  */
 
+import type { AIDetectionResult } from "@shared/ai-detection"
+
 export type ResourceCategory =
   | "quality_tools"
   | "pricing"
@@ -41,31 +43,24 @@ export interface PlagiarismMatch {
   matched_text: string
   similarity_percentage: number
   word_count: number
+  /** Project the matched file belongs to (local corpus matches) */
+  source_project_id?: string
+  source_project_number?: string | null
+  source_type?: "deliverable" | "reference"
+  /** Matched passages in the checked text */
+  spans?: PlagiarismSpan[]
 }
 
-// AI Detection Types
-export interface AIDetectionResult {
-  id: string
-  file_name: string
-  ai_probability: number
-  human_probability: number
-  mixed_probability: number
-  overall_verdict: "human" | "ai_generated" | "mixed" | "uncertain"
-  confidence_level: "high" | "medium" | "low"
-  checked_at: string
-  segments: AISegment[]
-  status: "pending" | "processing" | "completed" | "failed"
-}
-
-export interface AISegment {
-  id: string
+/** Matched passage as character offsets into the checked text */
+export interface PlagiarismSpan {
+  start: number
+  end: number
   text: string
-  start_index: number
-  end_index: number
-  classification: "human" | "ai_generated" | "mixed"
-  probability: number
 }
 
+// AI Detection Types (shared with the doer app's self-check)
+export type { AIDetectionResult, AISegment } from "@shared/ai-detection"
+
 // Pricing Guide Types
 export interface PricingTier {
   id: string
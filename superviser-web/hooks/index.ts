@@ -53,6 +53,7 @@ export {
   useNewRequests,
   useReadyToAssign,
   claimProject,
+  transitionProjectStatus,
   PROJECT_STATUS_GROUPS,
 } from "./use-projects"
 
@@ -7,6 +7,14 @@
 
 import { useEffect, useState, useCallback, useRef } from "react"
 import { createClient } from "@/lib/supabase/client"
+import {
+  CHAT_RECEIPT_EVENT,
+  applyReceiptEvent,
+  chatRoomTopic,
+  indexReceipts,
+  type ChatReceiptEvent,
+  type ReceiptIndex,
+} from "@shared/chat-receipts"
 import type {
   ChatRoom,
   ChatRoomWithParticipants,
@@ -16,6 +24,13 @@ import type {
   MessageType
 } from "@/types/database"
 
+/**
+ * Error thrown when the server-side moderation trigger drops a message
+ * (the insert succeeds but returns no row)
+ */
+export const CHAT_MESSAGE_BLOCKED_MESSAGE =
+  "Message blocked: sharing contact details or external links is not allowed in chat."
+
 interface UseChatRoomsOptions {
   roomType?: ChatRoomType
   projectId?: string
@@ -126,6 +141,8 @@ export function useChatRooms(options: UseChatRoomsOptions = {}): UseChatRoomsRet
 
 interface UseChatMessagesReturn {
   messages: ChatMessageWithSender[]
+  /** Delivery / read receipts of the loaded messages */
+  receipts: ReceiptIndex
   isLoading: boolean
   error: Error | null
   sendMessage: (content: string, messageType?: MessageType) => Promise<void>
@@ -136,12 +153,18 @@ interface UseChatMessagesReturn {
 
 export function useChatMessages(roomId: string): UseChatMessagesReturn {
   const [messages, setMessages] = useState<ChatMessageWithSender[]>([])
+  const [receipts, setReceipts] = useState<ReceiptIndex>({})
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<Error | null>(null)
   const [hasMore, setHasMore] = useState(true)
   const offsetRef = useRef(0)
+  const messagesRef = useRef<ChatMessageWithSender[]>([])
   const limit = 50
 
+  useEffect(() => {
+    messagesRef.current = messages
+  }, [messages])
+
   const fetchMessages = useCallback(async (append = false) => {
     if (!roomId) return
 
@@ -165,10 +188,19 @@ export function useChatMessages(roomId: string): UseChatMessagesReturn {
 
       const newMessages = (data || []).reverse()
 
+      const { data: receiptRows } = newMessages.length > 0
+        ? await supabase
+            .from("chat_read_receipts")
+            .select("message_id, profile_id, delivered_at, read_at")
+            .in("message_id", newMessages.map(m => m.id))
+        : { data: [] }
+
       if (append) {
         setMessages(prev => [...newMessages, ...prev])
+        setReceipts(prev => indexReceipts(receiptRows || [], prev))
       } else {
         setMessages(newMessages)
+        setReceipts(indexReceipts(receiptRows || []))
       }
 
       setHasMore((data?.length || 0) === limit)
@@ -191,7 +223,8 @@ export function useChatMessages(roomId: string): UseChatMessagesReturn {
     const { data: { user } } = await supabase.auth.getUser()
     if (!user) throw new Error("Not authenticated")
 
-    const { error: sendError } = await supabase
+    // Contact details are redacted (or the message dropped) by the database trigger
+    const { data: sent, error: sendError } = await supabase
       .from("chat_messages")
       .insert({
         chat_room_id: roomId,
@@ -199,8 +232,11 @@ export function useChatMessages(roomId: string): UseChatMessagesReturn {
         content: content.trim(),
         message_type: messageType,
       })
+      .select("id")
+      .maybeSingle()
 
     if (sendError) throw sendError
+    if (!sent) throw new Error(CHAT_MESSAGE_BLOCKED_MESSAGE)
 
     // Update last_message_at on room
     await supabase
@@ -271,7 +307,7 @@ export function useChatMessages(roomId: string): UseChatMessagesReturn {
     const messageType: MessageType = isImage ? "image" : "file"
 
     // Send message with file URL
-    const { error: sendError } = await supabase
+    const { data: sent, error: sendError } = await supabase
       .from("chat_messages")
       .insert({
         chat_room_id: roomId,
@@ -283,8 +319,11 @@ export function useChatMessages(roomId: string): UseChatMessagesReturn {
         file_size: file.size,
         file_type: file.type,
       })
+      .select("id")
+      .maybeSingle()
 
     if (sendError) throw sendError
+    if (!sent) throw new Error(CHAT_MESSAGE_BLOCKED_MESSAGE)
 
     // Update last_message_at on room
     await supabase
@@ -298,14 +337,14 @@ export function useChatMessages(roomId: string): UseChatMessagesReturn {
     fetchMessages()
   }, [fetchMessages])
 
-  // Real-time subscription for new messages
+  // Real-time subscription for new messages and receipts
   useEffect(() => {
     if (!roomId) return
 
     const supabase = createClient()
 
     const channel = supabase
-      .channel(`room_${roomId}`)
+      .channel(chatRoomTopic(roomId))
       .on(
         "postgres_changes",
         {
@@ -330,6 +369,11 @@ export function useChatMessages(roomId: string): UseChatMessagesReturn {
           }
         }
       )
+      .on("broadcast", { event: CHAT_RECEIPT_EVENT }, ({ payload }) => {
+        setReceipts(current =>
+          applyReceiptEvent(current, messagesRef.current, payload as ChatReceiptEvent)
+        )
+      })
       .subscribe()
 
     return () => {
@@ -339,6 +383,7 @@ export function useChatMessages(roomId: string): UseChatMessagesReturn {
 
   return {
     messages,
+    receipts,
     isLoading,
     error,
     sendMessage,
@@ -374,6 +419,9 @@ export function useUnreadMessages(): UseUnreadMessagesReturn {
 
       if (!participants) return
 
+      // Everything in the user's rooms has now reached them
+      await supabase.rpc("mark_chat_messages_delivered", { p_profile_id: user.id })
+
       // Count unread messages for each room
       const counts: Record<string, number> = {}
       let total = 0
@@ -402,11 +450,11 @@ export function useUnreadMessages(): UseUnreadMessagesReturn {
     const { data: { user } } = await supabase.auth.getUser()
     if (!user) return
 
-    await supabase
-      .from("chat_participants")
-      .update({ last_read_at: new Date().toISOString() })
-      .eq("chat_room_id", roomId)
-      .eq("profile_id", user.id)
+    // Writes read receipts and resets last_read_at / unread_count
+    await supabase.rpc("mark_room_messages_as_read", {
+      p_chat_room_id: roomId,
+      p_profile_id: user.id,
+    })
 
     await fetchUnreadCounts()
   }, [fetchUnreadCounts])
@@ -416,11 +464,20 @@ export function useUnreadMessages(): UseUnreadMessagesReturn {
     const { data: { user } } = await supabase.auth.getUser()
     if (!user) return
 
-    await supabase
+    const { data: participants } = await supabase
       .from("chat_participants")
-      .update({ last_read_at: new Date().toISOString() })
+      .select("chat_room_id")
       .eq("profile_id", user.id)
 
+    await Promise.all(
+      (participants || []).map(p =>
+        supabase.rpc("mark_room_messages_as_read", {
+          p_chat_room_id: p.chat_room_id,
+          p_profile_id: user.id,
+        })
+      )
+    )
+
     await fetchUnreadCounts()
   }, [fetchUnreadCounts])
 
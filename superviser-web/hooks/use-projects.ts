@@ -13,6 +13,7 @@ import type {
   ProjectStatus
 } from "@/types/database"
 import type { RealtimeChannel } from "@supabase/supabase-js"
+import { unwrapProjectTransition, type ProjectTransitionResult } from "@shared/project-status"
 import {
   MOCK_NEW_REQUESTS as MOCK_NEW_REQ_SEED,
   MOCK_READY_TO_ASSIGN as MOCK_READY_SEED,
@@ -163,7 +164,7 @@ interface UseProjectReturn {
   error: Error | null
   refetch: () => Promise<void>
   updateProject: (data: Partial<Project>) => Promise<void>
-  updateStatus: (status: ProjectStatus) => Promise<void>
+  updateStatus: (status: ProjectStatus, reason?: string) => Promise<void>
   assignDoer: (doerId: string) => Promise<void>
   submitQuote: (quote: number, doerPayout: number) => Promise<void>
 }
@@ -264,15 +265,20 @@ export function useProject(projectId: string): UseProjectReturn {
     await fetchProject()
   }, [projectId, fetchProject])
 
-  const updateStatus = useCallback(async (status: ProjectStatus) => {
-    await updateProject({ status })
-  }, [updateProject])
+  const updateStatus = useCallback(async (status: ProjectStatus, reason?: string) => {
+    if (!projectId) return
+    await transitionProjectStatus(projectId, status, { reason })
+    await fetchProject()
+  }, [projectId, fetchProject])
 
   const assignDoer = useCallback(async (doerId: string) => {
-    await updateProject({ doer_id: doerId, status: "assigned" })
-  }, [updateProject])
+    if (!projectId) return
+    await transitionProjectStatus(projectId, "assigned", { doerId })
+    await fetchProject()
+  }, [projectId, fetchProject])
 
   const submitQuote = useCallback(async (quote: number, doerPayout: number) => {
+    if (!projectId) return
     const platformFee = quote * 0.20 // 20% platform fee
     const supervisorCommission = quote * 0.15 // 15% supervisor commission
 
@@ -281,10 +287,10 @@ export function useProject(projectId: string): UseProjectReturn {
       doer_payout: doerPayout,
       supervisor_commission: supervisorCommission,
       platform_fee: platformFee,
-      status: "quoted",
-      status_updated_at: new Date().toISOString(),
     })
-  }, [updateProject])
+    await transitionProjectStatus(projectId, "quoted")
+    await fetchProject()
+  }, [projectId, updateProject, fetchProject])
 
   useEffect(() => {
     fetchProject()
@@ -319,6 +325,31 @@ export const PROJECT_STATUS_GROUPS = {
   cancelled: ["cancelled", "refunded"] as ProjectStatus[],
 }
 
+/**
+ * Moves a project to a new status through the status state machine.
+ * @param projectId - The project UUID
+ * @param status - Status to move to
+ * @param options.reason - Recorded in the status history
+ * @param options.doerId - Doer to assign when moving to "assigned"
+ * @throws ProjectTransitionError if the move isn't allowed
+ */
+export async function transitionProjectStatus(
+  projectId: string,
+  status: ProjectStatus,
+  options: { reason?: string; doerId?: string } = {}
+): Promise<ProjectTransitionResult> {
+  const supabase = createClient()
+
+  return unwrapProjectTransition(
+    await supabase.rpc("transition_project_status", {
+      p_project_id: projectId,
+      p_to_status: status,
+      p_reason: options.reason ?? null,
+      p_doer_id: options.doerId ?? null,
+    })
+  )
+}
+
 /**
  * Claim a project - assign it to the current supervisor.
  * @param projectId - The project UUID to claim
@@ -341,19 +372,31 @@ export async function claimProject(projectId: string): Promise<void> {
 
   if (!supervisor) throw new Error("Supervisor not found")
 
-  // Update the project to assign this supervisor
-  const { error: updateError } = await supabase
+  const { data: project } = await supabase
+    .from("projects")
+    .select("status")
+    .eq("id", projectId)
+    .single()
+
+  // The state machine claims an unclaimed project as it moves to analyzing
+  if (project?.status !== "analyzing") {
+    await transitionProjectStatus(projectId, "analyzing")
+    return
+  }
+
+  const { data: claimed, error: updateError } = await supabase
     .from("projects")
     .update({
       supervisor_id: supervisor.id,
-      status: "analyzing",
-      status_updated_at: new Date().toISOString(),
+      supervisor_assigned_at: new Date().toISOString(),
       updated_at: new Date().toISOString(),
     })
     .eq("id", projectId)
     .is("supervisor_id", null) // Only claim if not already claimed
+    .select("id")
 
   if (updateError) throw updateError
+  if (!claimed?.length) throw new Error("Project already claimed")
 }
 
 /**
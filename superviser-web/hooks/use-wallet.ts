@@ -18,6 +18,13 @@ import {
   MOCK_WALLET_TRANSACTIONS,
   MOCK_EARNINGS_STATS,
 } from "@/lib/mock-data/seed"
+import { EARNINGS_BALANCE_RPC, toEarningsBalance } from "@shared/earnings-ledger"
+import {
+  OPEN_PAYOUT_REQUEST_STATUSES,
+  PAYOUT_REQUEST_RPC,
+  checkPayoutAmount,
+  toPayoutRequestError,
+} from "@shared/payouts"
 
 type PayoutRequest = Tables<"payout_requests">
 
@@ -93,24 +100,19 @@ export function useWallet(): UseWalletReturn {
 
   const requestWithdrawal = useCallback(async (amount: number) => {
     if (!wallet) throw new Error("Wallet not found")
-    if (amount > wallet.balance) throw new Error("Insufficient balance")
-    if (amount < 500) throw new Error("Minimum withdrawal is Rs. 500")
 
+    // The weekly limit is checked by request_payout
+    const refusal = checkPayoutAmount(amount, {
+      available: wallet.balance - (wallet.locked_amount || 0),
+      requestedThisWeek: 0,
+    })
+    if (refusal) throw refusal
+
+    // Same request flow as doers: the amount is held until an admin pays it
     const supabase = createClient()
-    const { data: { user } } = await supabase.auth.getUser()
-    if (!user) throw new Error("Not authenticated")
-
-    // Create withdrawal request
-    const { error: withdrawalError } = await supabase
-      .from("payout_requests")
-      .insert({
-        profile_id: user.id,
-        requester_type: "supervisor",
-        requested_amount: amount,
-        status: "pending",
-      })
-
-    if (withdrawalError) throw withdrawalError
+    const { error: withdrawalError } = await supabase.rpc(PAYOUT_REQUEST_RPC, { p_amount: amount })
+
+    if (withdrawalError) throw toPayoutRequestError(withdrawalError)
     await fetchWallet()
   }, [wallet, fetchWallet])
 
@@ -242,6 +244,10 @@ interface UseEarningsStatsReturn {
     lastMonth: number
     thisYear: number
     allTime: number
+    /** Released by the ledger and not yet withdrawn */
+    available: number
+    /** Commission on projects paid for but not yet accepted */
+    pendingEarnings: number
     pendingPayouts: number
     averagePerProject: number
     monthlyGrowth: number
@@ -290,6 +296,8 @@ export function useEarningsStats(): UseEarningsStatsReturn {
             lastMonth: 0,
             thisYear: 0,
             allTime: 0,
+            available: 0,
+            pendingEarnings: 0,
             pendingPayouts: 0,
             averagePerProject: 0,
             monthlyGrowth: 0,
@@ -329,12 +337,17 @@ export function useEarningsStats(): UseEarningsStatsReturn {
           .filter(t => new Date(t.created_at!) >= thisYearStart)
           .reduce((sum, t) => sum + (t.amount || 0), 0)
 
+        // Pending and available balances come from the earnings ledger
+        const { data: balanceData, error: balanceError } = await supabase.rpc(EARNINGS_BALANCE_RPC)
+        if (balanceError) throw balanceError
+        const balance = toEarningsBalance(balanceData)
+
         // Get pending payouts
         const { data: pendingPayouts } = await supabase
           .from("payout_requests")
           .select("requested_amount")
           .eq("profile_id", user.id)
-          .in("status", ["pending", "processing"])
+          .in("status", OPEN_PAYOUT_REQUEST_STATUSES)
 
         const pendingAmount = pendingPayouts?.reduce((sum, p) => sum + (p.requested_amount || 0), 0) || 0
 
@@ -346,7 +359,7 @@ export function useEarningsStats(): UseEarningsStatsReturn {
           .single()
 
         const projectCount = supervisor?.total_projects_managed || 1
-        const averagePerProject = (wallet.total_credited || 0) / projectCount
+        const averagePerProject = balance.released / projectCount
 
         // Calculate monthly growth
         const monthlyGrowth = lastMonth > 0
@@ -357,7 +370,9 @@ export function useEarningsStats(): UseEarningsStatsReturn {
           thisMonth,
           lastMonth,
           thisYear,
-          allTime: wallet.total_credited || 0,
+          allTime: balance.released,
+          available: balance.available,
+          pendingEarnings: balance.pending,
           pendingPayouts: pendingAmount,
           averagePerProject: Math.round(averagePerProject),
           monthlyGrowth: Math.round(monthlyGrowth),
@@ -0,0 +1,32 @@
+/**
+ * @fileoverview Reads deliverables from the private deliverables bucket.
+ * Server-side only: downloads with the admin client, which is not bound by
+ * the bucket's policies.
+ * @module lib/deliverable-files
+ */
+
+import type { createAdminClient } from "@/lib/supabase/admin"
+import { extractDocumentText } from "@shared/document-text"
+import { DELIVERABLE_BUCKET, deliverableObjectPath } from "@shared/deliverable-access"
+
+type AdminClient = ReturnType<typeof createAdminClient>
+
+/**
+ * Downloads a deliverable and extracts its text.
+ * @returns Extracted text, or null if the format is not supported
+ * @throws Error if the download fails
+ */
+export async function downloadDeliverableText(
+  adminClient: AdminClient,
+  deliverable: { file_url: string; file_name: string; file_type: string | null }
+): Promise<string | null> {
+  const { data, error } = await adminClient.storage
+    .from(DELIVERABLE_BUCKET)
+    .download(deliverableObjectPath(deliverable.file_url))
+
+  if (error || !data) {
+    throw new Error(`Failed to download ${deliverable.file_name}: ${error?.message ?? "not found"}`)
+  }
+
+  return extractDocumentText(Buffer.from(await data.arrayBuffer()), deliverable.file_name, deliverable.file_type)
+}
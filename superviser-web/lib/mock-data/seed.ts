@@ -1061,6 +1061,8 @@ export const MOCK_EARNINGS_STATS: {
   lastMonth: number
   thisYear: number
   allTime: number
+  available: number
+  pendingEarnings: number
   pendingPayouts: number
   averagePerProject: number
   monthlyGrowth: number
@@ -1069,6 +1071,8 @@ export const MOCK_EARNINGS_STATS: {
   lastMonth: 15200,
   thisYear: 98500,
   allTime: 125600,
+  available: 6325,
+  pendingEarnings: 6200,
   pendingPayouts: 2500,
   averagePerProject: 2672,
   monthlyGrowth: 21.7,
@@ -0,0 +1,161 @@
+/**
+ * @fileoverview Bank upload and UPI batch files for approved payouts.
+ * Bank transfers go out as a bulk NEFT/IMPS upload in the common corporate
+ * net-banking CSV layout (one beneficiary per row, debit account and value
+ * date on every row); UPI payouts as a VPA batch CSV. Free text is reduced to
+ * the characters banks accept, which also keeps spreadsheet formulas out.
+ * @module lib/payout-files
+ */
+
+export type BankTransferMode = "NEFT" | "IMPS"
+
+/** IMPS is capped per transfer; larger payouts must go by NEFT */
+export const IMPS_MAX_AMOUNT = 500000
+
+/** Payout fields the files need */
+export interface PayoutFileRow {
+  id: string
+  amount: number
+  /** Payee's profile name, used where the payout has no account holder name */
+  payee_name: string | null
+  bank_account_name: string | null
+  bank_account_number: string | null
+  bank_ifsc_code: string | null
+  upi_id: string | null
+}
+
+interface BankTransferFileOptions {
+  mode: BankTransferMode
+  /** Platform account the transfers are debited from */
+  debitAccountNumber: string
+  batchReference: string
+  valueDate?: Date
+}
+
+const BANK_TRANSFER_COLUMNS = [
+  "Transaction Type",
+  "Debit Account No",
+  "Beneficiary Name",
+  "Beneficiary Account No",
+  "IFSC",
+  "Amount",
+  "Value Date",
+  "Customer Reference",
+  "Remarks",
+]
+
+const UPI_BATCH_COLUMNS = ["Beneficiary Name", "VPA", "Amount", "Customer Reference", "Remarks"]
+
+/** Shown on the payee's statement next to the batch name */
+const REMARKS_PREFIX = "AssignX"
+
+/** Banks accept letters, digits, spaces and a few separators; names max 35 chars */
+function bankText(value: string | null, maxLength: number): string {
+  return (value || "")
+    .replace(/[^A-Za-z0-9 .\-/]/g, " ")
+    .replace(/^[\s\-]+/, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, maxLength)
+}
+
+function toCsv(columns: string[], rows: string[][]): string {
+  return [columns, ...rows].map((row) => row.join(",")).join("\r\n") + "\r\n"
+}
+
+/** DD/MM/YYYY in India time */
+function formatValueDate(date: Date): string {
+  const parts = new Intl.DateTimeFormat("en-GB", {
+    timeZone: "Asia/Kolkata",
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+  }).formatToParts(date)
+  const part = (type: string) => parts.find((p) => p.type === type)?.value ?? ""
+  return `${part("day")}/${part("month")}/${part("year")}`
+}
+
+/**
+ * Reference the bank echoes back in its statement, e.g. PO1A2B3C4D5E6F7A8B
+ */
+export function payoutCustomerReference(payoutId: string): string {
+  return `PO${payoutId.replace(/-/g, "").slice(0, 16).toUpperCase()}`
+}
+
+/**
+ * Batch name stored on each payout, e.g. NEFT-20261019-4F2A
+ */
+export function payoutBatchReference(kind: BankTransferMode | "UPI", date: Date = new Date()): string {
+  const day = formatValueDate(date).split("/").reverse().join("")
+  const suffix = Math.random().toString(16).slice(2, 6).toUpperCase().padEnd(4, "0")
+  return `${kind}-${day}-${suffix}`
+}
+
+/**
+ * Why a payout can't go in a bank file, or null if it can
+ */
+export function bankTransferProblem(payout: PayoutFileRow, mode: BankTransferMode): string | null {
+  if (!payout.bank_account_number || !/^\d{9,18}$/.test(payout.bank_account_number.replace(/\s/g, ""))) {
+    return "Invalid account number"
+  }
+  if (!payout.bank_ifsc_code || !/^[A-Z]{4}0[A-Z0-9]{6}$/.test(payout.bank_ifsc_code.toUpperCase())) {
+    return "Invalid IFSC"
+  }
+  if (!bankText(payout.bank_account_name, 35)) {
+    return "Missing account holder name"
+  }
+  if (mode === "IMPS" && payout.amount > IMPS_MAX_AMOUNT) {
+    return "Above the IMPS limit"
+  }
+  return null
+}
+
+/**
+ * Why a payout can't go in a UPI batch, or null if it can
+ */
+export function upiPayoutProblem(payout: PayoutFileRow): string | null {
+  return payout.upi_id && /^[\w.\-]{2,256}@[A-Za-z][A-Za-z0-9]{1,63}$/.test(payout.upi_id)
+    ? null
+    : "Invalid UPI ID"
+}
+
+/**
+ * Bulk NEFT/IMPS upload file, one row per payout
+ */
+export function buildBankTransferFile(payouts: PayoutFileRow[], options: BankTransferFileOptions): string {
+  const valueDate = formatValueDate(options.valueDate ?? new Date())
+  const remarks = bankText(`${REMARKS_PREFIX} ${options.batchReference}`, 30)
+
+  return toCsv(
+    BANK_TRANSFER_COLUMNS,
+    payouts.map((payout) => [
+      options.mode,
+      options.debitAccountNumber.replace(/\D/g, ""),
+      bankText(payout.bank_account_name, 35),
+      (payout.bank_account_number || "").replace(/\D/g, ""),
+      (payout.bank_ifsc_code || "").toUpperCase(),
+      payout.amount.toFixed(2),
+      valueDate,
+      payoutCustomerReference(payout.id),
+      remarks,
+    ])
+  )
+}
+
+/**
+ * UPI payout batch, one row per payout
+ */
+export function buildUpiBatchFile(payouts: PayoutFileRow[], batchReference: string): string {
+  const remarks = bankText(`${REMARKS_PREFIX} ${batchReference}`, 30)
+
+  return toCsv(
+    UPI_BATCH_COLUMNS,
+    payouts.map((payout) => [
+      bankText(payout.payee_name || payout.bank_account_name, 35) || "Payee",
+      (payout.upi_id || "").trim().toLowerCase(),
+      payout.amount.toFixed(2),
+      payoutCustomerReference(payout.id),
+      remarks,
+    ])
+  )
+}
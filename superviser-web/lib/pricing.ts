@@ -0,0 +1,91 @@
+/**
+ * @fileoverview Client for the shared pricing engine.
+ * Quotes are calculated by the calculate_project_price RPC from the
+ * pricing_guides table, the same engine behind the student's price estimate
+ * in the user app, so the suggested quote matches what the student saw.
+ * @module lib/pricing
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { Database } from "@/types/database"
+
+type ServiceType = Database["public"]["Enums"]["service_type"]
+
+/** Complexity level used by pricing guides */
+export type PricingComplexity = "easy" | "medium" | "hard"
+
+/** Urgency band derived from the time left until the deadline */
+export type UrgencyBand = "standard" | "72h" | "48h" | "24h"
+
+/** Inputs to the pricing engine */
+export interface PriceInput {
+  serviceType: ServiceType
+  /** Subject id or slug; falls back to the service type's default guide */
+  subject?: string | null
+  wordCount?: number | null
+  pageCount?: number | null
+  deadline?: string | null
+  complexity?: PricingComplexity
+  /** GST-inclusive client quote to split instead of calculating one */
+  clientTotal?: number | null
+}
+
+/**
+ * Itemised price returned by calculate_project_price.
+ * `total` is the client quote; payouts are split from `subtotal` (pre-GST).
+ */
+export interface PricingBreakdown {
+  guide_id: string
+  service_type: ServiceType
+  subject_id: string | null
+  pricing_unit: "word" | "page" | "fixed"
+  units: number
+  unit_rate: number
+  base_price: number
+  urgency_band: UrgencyBand
+  urgency_multiplier: number
+  urgency_fee: number
+  urgency_multipliers: Record<Exclude<UrgencyBand, "standard">, number>
+  complexity: PricingComplexity
+  complexity_multiplier: number
+  complexity_fee: number
+  subtotal: number
+  gst_percentage: number
+  gst_amount: number
+  total: number
+  doer_payout: number
+  doer_percentage: number
+  supervisor_commission: number
+  supervisor_percentage: number
+  platform_fee: number
+  platform_percentage: number
+}
+
+/** Complexity options shown to supervisors */
+export const PRICING_COMPLEXITIES: { value: PricingComplexity; label: string }[] = [
+  { value: "easy", label: "Easy" },
+  { value: "medium", label: "Medium" },
+  { value: "hard", label: "Hard" },
+]
+
+/**
+ * Calculates an itemised price from the matching pricing guide.
+ * Works with the browser, server or admin client.
+ */
+export async function getPriceBreakdown(
+  supabase: SupabaseClient<Database>,
+  input: PriceInput
+): Promise<PricingBreakdown> {
+  const { data, error } = await supabase.rpc("calculate_project_price", {
+    p_service_type: input.serviceType,
+    p_subject: input.subject || null,
+    p_word_count: input.wordCount || null,
+    p_page_count: input.pageCount || null,
+    p_deadline: input.deadline || null,
+    p_complexity: input.complexity || "easy",
+    p_client_total: input.clientTotal ?? null,
+  })
+
+  if (error) throw error
+  return data as unknown as PricingBreakdown
+}
@@ -0,0 +1,271 @@
+/**
+ * @fileoverview Shingle and MinHash similarity for plagiarism checks.
+ * Documents are reduced to hashed 5-word shingles. A MinHash signature split
+ * into LSH bands finds likely sources in the index, then the exact shingle
+ * overlap gives the matched passages and their character spans.
+ * @module lib/services/plagiarism
+ */
+
+import type { PlagiarismCheckResult, PlagiarismMatch, PlagiarismSpan } from "@/components/resources/types"
+
+/** Words per shingle */
+const SHINGLE_SIZE = 5
+
+/** Number of MinHash functions in a signature */
+const MINHASH_SIZE = 128
+
+/** Signature rows per LSH band; 2 rows flags sources from roughly 12% similarity */
+const BAND_ROWS = 2
+
+/** Shorter matched passages are treated as common phrasing */
+const MIN_PASSAGE_WORDS = 8
+
+/** Matches returned in a result */
+const MAX_MATCHES = 10
+
+interface Token {
+  word: string
+  start: number
+  end: number
+}
+
+/** Hashes stored in the plagiarism index for one document */
+export interface DocumentFingerprint {
+  wordCount: number
+  /** Unique shingle hashes, sorted */
+  shingles: number[]
+  minhash: number[]
+  lshBands: string[]
+}
+
+/** Indexed document a check is compared against */
+export interface CorpusDocument {
+  id: string
+  source_type: "deliverable" | "reference"
+  project_id: string
+  project_number?: string | null
+  file_name: string
+  shingles: number[]
+}
+
+/** 32-bit FNV-1a hash, signed so it fits a Postgres INTEGER */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash | 0
+}
+
+/** Murmur3 finaliser, used as one of the MinHash permutations */
+function permute(value: number, seed: number): number {
+  let h = value ^ seed
+  h ^= h >>> 16
+  h = Math.imul(h, 0x85ebca6b)
+  h ^= h >>> 13
+  h = Math.imul(h, 0xc2b2ae35)
+  h ^= h >>> 16
+  return h | 0
+}
+
+const MINHASH_SEEDS = Array.from({ length: MINHASH_SIZE }, (_, i) => hashString(`minhash:${i}`))
+
+/**
+ * Splits text into lowercase words with their character offsets.
+ */
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = []
+  for (const match of text.matchAll(/[A-Za-z0-9\u00C0-\u024F]+(?:['’][A-Za-z]+)?/g)) {
+    const start = match.index ?? 0
+    tokens.push({ word: match[0].toLowerCase(), start, end: start + match[0].length })
+  }
+  return tokens
+}
+
+/**
+ * Hash of the shingle starting at every word position.
+ */
+function shingleHashes(tokens: Token[]): number[] {
+  const hashes: number[] = []
+  for (let i = 0; i + SHINGLE_SIZE <= tokens.length; i++) {
+    const words = tokens.slice(i, i + SHINGLE_SIZE).map((t) => t.word)
+    hashes.push(hashString(words.join(" ")))
+  }
+  return hashes
+}
+
+/**
+ * Builds the shingle set, MinHash signature and LSH band keys for a document.
+ */
+export function fingerprint(text: string): DocumentFingerprint {
+  const tokens = tokenize(text)
+  const shingles = Array.from(new Set(shingleHashes(tokens))).sort((a, b) => a - b)
+
+  if (shingles.length === 0) {
+    return { wordCount: tokens.length, shingles, minhash: [], lshBands: [] }
+  }
+
+  const minhash = MINHASH_SEEDS.map((seed) => {
+    let min = Infinity
+    for (const shingle of shingles) {
+      const value = permute(shingle, seed)
+      if (value < min) min = value
+    }
+    return min
+  })
+
+  const lshBands: string[] = []
+  for (let band = 0; band * BAND_ROWS < MINHASH_SIZE; band++) {
+    const rows = minhash.slice(band * BAND_ROWS, (band + 1) * BAND_ROWS)
+    lshBands.push(`${band}:${hashString(rows.join(","))}`)
+  }
+
+  return { wordCount: tokens.length, shingles, minhash, lshBands }
+}
+
+/**
+ * Merges runs of covered words into passages of at least MIN_PASSAGE_WORDS
+ * and marks the words of kept passages in `matched`.
+ */
+function collectSpans(
+  text: string,
+  tokens: Token[],
+  covered: boolean[],
+  matched: boolean[]
+): { spans: PlagiarismSpan[]; words: number } {
+  const spans: PlagiarismSpan[] = []
+  let words = 0
+  let runStart = -1
+
+  for (let i = 0; i <= tokens.length; i++) {
+    if (i < tokens.length && covered[i]) {
+      if (runStart < 0) runStart = i
+      continue
+    }
+    if (runStart >= 0 && i - runStart >= MIN_PASSAGE_WORDS) {
+      const start = tokens[runStart].start
+      const end = tokens[i - 1].end
+      spans.push({ start, end, text: text.slice(start, end) })
+      words += i - runStart
+      matched.fill(true, runStart, i)
+    }
+    runStart = -1
+  }
+
+  return { spans, words }
+}
+
+function describeSource(doc: CorpusDocument): string {
+  const project = doc.project_number || "another project"
+  return doc.source_type === "deliverable"
+    ? `Delivered in ${project} · ${doc.file_name}`
+    : `Reference file for ${project} · ${doc.file_name}`
+}
+
+/**
+ * Compares text against indexed documents.
+ * Each match is one source file with its overlap percentage (share of the
+ * checked words found in that file) and the matched passages. The overall
+ * score counts every matched word once, however many sources it appears in.
+ */
+export function compareWithCorpus(
+  text: string,
+  fileName: string,
+  corpus: CorpusDocument[]
+): PlagiarismCheckResult {
+  const tokens = tokenize(text)
+  const hashes = shingleHashes(tokens)
+  const matched = new Array<boolean>(tokens.length).fill(false)
+  const matches: PlagiarismMatch[] = []
+
+  for (const doc of corpus) {
+    const source = new Set(doc.shingles)
+    const covered = new Array<boolean>(tokens.length).fill(false)
+
+    hashes.forEach((hash, i) => {
+      if (!source.has(hash)) return
+      for (let j = i; j < i + SHINGLE_SIZE; j++) covered[j] = true
+    })
+
+    const { spans, words } = collectSpans(text, tokens, covered, matched)
+    if (spans.length === 0) continue
+
+    const longest = spans.reduce((a, b) => (b.end - b.start > a.end - a.start ? b : a))
+
+    matches.push({
+      id: doc.id,
+      source_url: `/projects/${doc.project_id}`,
+      source_title: describeSource(doc),
+      matched_text: longest.text,
+      similarity_percentage: Math.round((words / tokens.length) * 100),
+      word_count: words,
+      source_project_id: doc.project_id,
+      source_project_number: doc.project_number ?? null,
+      source_type: doc.source_type,
+      spans,
+    })
+  }
+
+  const matchedWords = matched.filter(Boolean).length
+  const overallScore = tokens.length > 0 ? Math.round((matchedWords / tokens.length) * 100) : 0
+
+  matches.sort((a, b) => b.similarity_percentage - a.similarity_percentage || b.word_count - a.word_count)
+
+  return {
+    id: `plag-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+    file_name: fileName,
+    overall_score: overallScore,
+    unique_content: 100 - overallScore,
+    matched_content: overallScore,
+    sources_found: matches.length,
+    checked_at: new Date().toISOString(),
+    matches: matches.slice(0, MAX_MATCHES),
+    status: "completed",
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+}
+
+/**
+ * Renders a standalone HTML report for projects.plagiarism_report_url.
+ * Only passages of the checked document are included, never source text.
+ */
+export function renderPlagiarismReport(result: PlagiarismCheckResult, projectNumber: string): string {
+  const sources = result.matches
+    .map((match) => {
+      const passages = (match.spans ?? [])
+        .map((span) => `<blockquote><mark>${escapeHtml(span.text)}</mark></blockquote>`)
+        .join("")
+      return `<section><h3>${escapeHtml(match.source_title)}</h3><p>${match.similarity_percentage}% overlap · ${match.word_count} words</p>${passages}</section>`
+    })
+    .join("")
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Plagiarism report · ${escapeHtml(projectNumber)}</title>
+<style>
+body{font-family:system-ui,sans-serif;max-width:760px;margin:40px auto;padding:0 16px;color:#1c1c1c}
+blockquote{margin:8px 0;padding:8px 12px;border-left:3px solid #f97316;background:#fff7ed}
+mark{background:#fed7aa}
+section{border-top:1px solid #e5e7eb;padding-top:12px;margin-top:16px}
+</style>
+</head>
+<body>
+<h1>Plagiarism report</h1>
+<p>${escapeHtml(projectNumber)} · ${escapeHtml(result.file_name)} · checked ${new Date(result.checked_at).toUTCString()}</p>
+<h2>Similarity: ${result.overall_score}%</h2>
+<p>${result.unique_content}% unique · ${result.sources_found} matching source${result.sources_found === 1 ? "" : "s"} in past deliverables and reference files</p>
+${sources || "<p>No matching passages found.</p>"}
+</body>
+</html>
+`
+}
@@ -105,6 +105,83 @@ export type Database = {
           },
         ]
       }
+      ai_reports: {
+        Row: {
+          ai_percentage: number
+          checked_by_role: string
+          created_at: string
+          deliverable_id: string | null
+          detailed_breakdown: Json | null
+          doer_id: string | null
+          file_name: string | null
+          file_url: string | null
+          id: string
+          input_text: string | null
+          originality_percentage: number
+          project_id: string | null
+          supervisor_id: string | null
+        }
+        Insert: {
+          ai_percentage?: number
+          checked_by_role?: string
+          created_at?: string
+          deliverable_id?: string | null
+          detailed_breakdown?: Json | null
+          doer_id?: string | null
+          file_name?: string | null
+          file_url?: string | null
+          id?: string
+          input_text?: string | null
+          originality_percentage?: number
+          project_id?: string | null
+          supervisor_id?: string | null
+        }
+        Update: {
+          ai_percentage?: number
+          checked_by_role?: string
+          created_at?: string
+          deliverable_id?: string | null
+          detailed_breakdown?: Json | null
+          doer_id?: string | null
+          file_name?: string | null
+          file_url?: string | null
+          id?: string
+          input_text?: string | null
+          originality_percentage?: number
+          project_id?: string | null
+          supervisor_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_reports_deliverable_id_fkey"
+            columns: ["deliverable_id"]
+            isOneToOne: false
+            referencedRelation: "project_deliverables"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ai_reports_doer_id_fkey"
+            columns: ["doer_id"]
+            isOneToOne: false
+            referencedRelation: "doers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ai_reports_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ai_reports_supervisor_id_fkey"
+            columns: ["supervisor_id"]
+            isOneToOne: false
+            referencedRelation: "supervisors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       app_settings: {
         Row: {
           category: string | null
@@ -346,6 +423,45 @@ export type Database = {
           },
         ]
       }
+      chat_read_receipts: {
+        Row: {
+          delivered_at: string | null
+          id: string
+          message_id: string
+          profile_id: string
+          read_at: string | null
+        }
+        Insert: {
+          delivered_at?: string | null
+          id?: string
+          message_id: string
+          profile_id: string
+          read_at?: string | null
+        }
+        Update: {
+          delivered_at?: string | null
+          id?: string
+          message_id?: string
+          profile_id?: string
+          read_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_read_receipts_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "chat_messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chat_read_receipts_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       chat_rooms: {
         Row: {
           created_at: string | null
@@ -439,6 +555,64 @@ export type Database = {
         }
         Relationships: []
       }
+      deliverable_downloads: {
+        Row: {
+          created_at: string
+          deliverable_id: string
+          id: string
+          ip_address: string | null
+          kind: string
+          profile_id: string
+          project_id: string
+          user_agent: string | null
+          viewer_role: string
+        }
+        Insert: {
+          created_at?: string
+          deliverable_id: string
+          id?: string
+          ip_address?: string | null
+          kind: string
+          profile_id: string
+          project_id: string
+          user_agent?: string | null
+          viewer_role: string
+        }
+        Update: {
+          created_at?: string
+          deliverable_id?: string
+          id?: string
+          ip_address?: string | null
+          kind?: string
+          profile_id?: string
+          project_id?: string
+          user_agent?: string | null
+          viewer_role?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "deliverable_downloads_deliverable_id_fkey"
+            columns: ["deliverable_id"]
+            isOneToOne: false
+            referencedRelation: "project_deliverables"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "deliverable_downloads_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "deliverable_downloads_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       doer_activation: {
         Row: {
           activated_at: string | null
@@ -1272,6 +1446,123 @@ export type Database = {
           },
         ]
       }
+      moderation_cases: {
+        Row: {
+          author_id: string | null
+          created_at: string | null
+          id: string
+          is_auto_hidden: boolean
+          last_reported_at: string
+          opened_at: string
+          reason_counts: Json
+          report_count: number
+          reporter_count: number
+          resolved_at: string | null
+          resolved_by: string | null
+          status: string
+          target_id: string
+          target_type: string
+          updated_at: string | null
+        }
+        Insert: {
+          author_id?: string | null
+          created_at?: string | null
+          id?: string
+          is_auto_hidden?: boolean
+          last_reported_at?: string
+          opened_at?: string
+          reason_counts?: Json
+          report_count?: number
+          reporter_count?: number
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          target_id: string
+          target_type: string
+          updated_at?: string | null
+        }
+        Update: {
+          author_id?: string | null
+          created_at?: string | null
+          id?: string
+          is_auto_hidden?: boolean
+          last_reported_at?: string
+          opened_at?: string
+          reason_counts?: Json
+          report_count?: number
+          reporter_count?: number
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          target_id?: string
+          target_type?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "moderation_cases_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "moderation_cases_resolved_by_fkey"
+            columns: ["resolved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      moderation_decisions: {
+        Row: {
+          action: string
+          case_id: string
+          created_at: string
+          id: string
+          moderator_id: string | null
+          note: string | null
+          report_count: number
+          reporter_count: number
+        }
+        Insert: {
+          action: string
+          case_id: string
+          created_at?: string
+          id?: string
+          moderator_id?: string | null
+          note?: string | null
+          report_count?: number
+          reporter_count?: number
+        }
+        Update: {
+          action?: string
+          case_id?: string
+          created_at?: string
+          id?: string
+          moderator_id?: string | null
+          note?: string | null
+          report_count?: number
+          reporter_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "moderation_decisions_case_id_fkey"
+            columns: ["case_id"]
+            isOneToOne: false
+            referencedRelation: "moderation_cases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "moderation_decisions_moderator_id_fkey"
+            columns: ["moderator_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       notifications: {
         Row: {
           action_url: string | null
@@ -1491,6 +1782,7 @@ export type Database = {
           created_at: string | null
           id: string
           payout_id: string | null
+          payout_method: string
           profile_id: string
           rejection_reason: string | null
           requested_amount: number
@@ -1505,6 +1797,7 @@ export type Database = {
           created_at?: string | null
           id?: string
           payout_id?: string | null
+          payout_method?: string
           profile_id: string
           rejection_reason?: string | null
           requested_amount: number
@@ -1519,6 +1812,7 @@ export type Database = {
           created_at?: string | null
           id?: string
           payout_id?: string | null
+          payout_method?: string
           profile_id?: string
           rejection_reason?: string | null
           requested_amount?: number
@@ -1641,6 +1935,53 @@ export type Database = {
           },
         ]
       }
+      plagiarism_documents: {
+        Row: {
+          file_name: string
+          id: string
+          indexed_at: string
+          lsh_bands: string[]
+          minhash: number[]
+          project_id: string
+          shingles: number[]
+          source_id: string
+          source_type: string
+          word_count: number
+        }
+        Insert: {
+          file_name: string
+          id?: string
+          indexed_at?: string
+          lsh_bands?: string[]
+          minhash?: number[]
+          project_id: string
+          shingles?: number[]
+          source_id: string
+          source_type: string
+          word_count?: number
+        }
+        Update: {
+          file_name?: string
+          id?: string
+          indexed_at?: string
+          lsh_bands?: string[]
+          minhash?: number[]
+          project_id?: string
+          shingles?: number[]
+          source_id?: string
+          source_type?: string
+          word_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "plagiarism_documents_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       pricing_guides: {
         Row: {
           base_price_fixed: number | null
@@ -1650,8 +1991,10 @@ export type Database = {
           complexity_hard_multiplier: number | null
           complexity_medium_multiplier: number | null
           created_at: string | null
+          gst_percentage: number
           id: string
           is_active: boolean | null
+          minimum_price: number
           platform_percentage: number | null
           service_type: Database["public"]["Enums"]["service_type"]
           subject_id: string | null
@@ -1669,8 +2012,10 @@ export type Database = {
           complexity_hard_multiplier?: number | null
           complexity_medium_multiplier?: number | null
           created_at?: string | null
+          gst_percentage?: number
           id?: string
           is_active?: boolean | null
+          minimum_price?: number
           platform_percentage?: number | null
           service_type: Database["public"]["Enums"]["service_type"]
           subject_id?: string | null
@@ -1688,8 +2033,10 @@ export type Database = {
           complexity_hard_multiplier?: number | null
           complexity_medium_multiplier?: number | null
           created_at?: string | null
+          gst_percentage?: number
           id?: string
           is_active?: boolean | null
+          minimum_price?: number
           platform_percentage?: number | null
           service_type?: Database["public"]["Enums"]["service_type"]
           subject_id?: string | null
@@ -1892,6 +2239,9 @@ export type Database = {
           file_url: string
           id: string
           is_final: boolean | null
+          preview_generated_at: string | null
+          preview_status: string
+          preview_url: string | null
           project_id: string
           qc_at: string | null
           qc_by: string | null
@@ -1908,6 +2258,9 @@ export type Database = {
           file_url: string
           id?: string
           is_final?: boolean | null
+          preview_generated_at?: string | null
+          preview_status?: string
+          preview_url?: string | null
           project_id: string
           qc_at?: string | null
           qc_by?: string | null
@@ -1924,6 +2277,9 @@ export type Database = {
           file_url?: string
           id?: string
           is_final?: boolean | null
+          preview_generated_at?: string | null
+          preview_status?: string
+          preview_url?: string | null
           project_id?: string
           qc_at?: string | null
           qc_by?: string | null
@@ -3713,7 +4069,171 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      calculate_project_price: {
+        Args: {
+          p_client_total?: number | null
+          p_complexity?: string
+          p_deadline?: string | null
+          p_page_count?: number | null
+          p_service_type: Database["public"]["Enums"]["service_type"]
+          p_subject?: string | null
+          p_word_count?: number | null
+        }
+        Returns: Json
+      }
+      cancel_payout_request: {
+        Args: {
+          p_request_id: string
+        }
+        Returns: undefined
+      }
+      get_earnings_balance: {
+        Args: never
+        Returns: Json
+      }
+      get_moderation_case_reports: {
+        Args: {
+          p_case_id: string
+        }
+        Returns: {
+          created_at: string
+          details: string | null
+          id: string
+          reason: string
+          reporter_id: string | null
+          reporter_name: string | null
+          status: string
+        }[]
+      }
+      get_moderation_queue: {
+        Args: {
+          p_limit?: number
+          p_status?: string
+        }
+        Returns: {
+          author_avatar: string | null
+          author_blocked: boolean
+          author_id: string | null
+          author_name: string | null
+          id: string
+          is_auto_hidden: boolean
+          last_reported_at: string
+          opened_at: string
+          reason_counts: Json
+          report_count: number
+          reporter_count: number
+          resolved_at: string | null
+          status: string
+          target_excerpt: string | null
+          target_id: string
+          target_title: string | null
+          target_type: string
+        }[]
+      }
+      mark_chat_messages_delivered: {
+        Args: {
+          p_chat_room_id?: string | null
+          p_profile_id: string
+        }
+        Returns: number
+      }
+      mark_room_messages_as_read: {
+        Args: {
+          p_chat_room_id: string
+          p_profile_id: string
+        }
+        Returns: number
+      }
+      plagiarism_unindexed_files: {
+        Args: {
+          p_limit?: number
+        }
+        Returns: {
+          file_name: string
+          file_type: string | null
+          file_url: string
+          project_id: string
+          source_id: string
+          source_type: string
+        }[]
+      }
+      request_payout: {
+        Args: {
+          p_amount: number
+          p_method?: string | null
+        }
+        Returns: Json
+      }
+      resolve_moderation_case: {
+        Args: {
+          p_action: string
+          p_case_id: string
+          p_moderator_id: string
+          p_note?: string | null
+        }
+        Returns: Json
+      }
+      review_payout_request: {
+        Args: {
+          p_approve: boolean
+          p_reason?: string | null
+          p_request_id: string
+          p_reviewer_id: string
+        }
+        Returns: Json
+      }
+      set_payout_status: {
+        Args: {
+          p_failure_reason?: string | null
+          p_payout_id: string
+          p_reference?: string | null
+          p_status: Database["public"]["Enums"]["payout_status"]
+        }
+        Returns: Json
+      }
+      start_payout_batch: {
+        Args: {
+          p_batch_reference: string
+          p_method: string
+          p_payout_ids: string[]
+        }
+        Returns: {
+          amount: number
+          bank_account_name: string | null
+          bank_account_number: string | null
+          bank_ifsc_code: string | null
+          bank_name: string | null
+          completed_at: string | null
+          created_at: string | null
+          currency: string | null
+          failure_reason: string | null
+          gateway: string | null
+          gateway_payout_id: string | null
+          gateway_reference: string | null
+          id: string
+          payout_method: string
+          processed_at: string | null
+          recipient_id: string
+          recipient_type: string
+          reference_ids: string[] | null
+          reference_type: string | null
+          requested_at: string | null
+          retry_count: number | null
+          status: Database["public"]["Enums"]["payout_status"]
+          updated_at: string | null
+          upi_id: string | null
+        }[]
+      }
+      transition_project_status: {
+        Args: {
+          p_actor_id?: string | null
+          p_doer_id?: string | null
+          p_project_id: string
+          p_reason?: string | null
+          p_to_status: Database["public"]["Enums"]["project_status"]
+        }
+        Returns: Json
+      }
     }
     Enums: {
       chat_room_type:
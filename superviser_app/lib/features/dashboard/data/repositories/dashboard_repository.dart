@@ -273,15 +273,16 @@ class DashboardRepository {
         'created_at': DateTime.now().toIso8601String(),
       });
 
-      // Update project status and quote amount
+      // Update quote amount, then move the project to quoted
       await _client
           .from('projects')
-          .update({
-            'status': 'quoted',
-            'user_quote': quote.totalPrice,
-            'status_updated_at': DateTime.now().toIso8601String(),
-          })
+          .update({'user_quote': quote.totalPrice})
           .eq('id', quote.requestId);
+
+      await _client.rpc('transition_project_status', params: {
+        'p_project_id': quote.requestId,
+        'p_to_status': 'quoted',
+      });
     } on PostgrestException catch (e) {
       throw ServerException.fromPostgrest(e);
     }
@@ -369,16 +370,12 @@ class DashboardRepository {
     }
 
     try {
-      // Update project with doer assignment
-      await _client
-          .from('projects')
-          .update({
-            'doer_id': doerId,
-            'status': 'assigned',
-            'doer_assigned_at': DateTime.now().toIso8601String(),
-            'status_updated_at': DateTime.now().toIso8601String(),
-          })
-          .eq('id', projectId);
+      // Assign the doer through the status state machine
+      await _client.rpc('transition_project_status', params: {
+        'p_project_id': projectId,
+        'p_to_status': 'assigned',
+        'p_doer_id': doerId,
+      });
 
       // Create assignment record
       await _client.from('project_assignments').insert({
@@ -212,38 +212,47 @@ class ProjectRepository {
     }
   }
 
+  /// Status in `projects.status` for an app status.
+  ///
+  /// The app names the QC outcomes differently from the database.
+  static String _machineStatus(ProjectStatus status) {
+    switch (status) {
+      case ProjectStatus.approved:
+        return 'qc_approved';
+      case ProjectStatus.deliveredToClient:
+        return 'delivered';
+      case ProjectStatus.revisionRequested:
+        return 'qc_rejected';
+      default:
+        return status.value;
+    }
+  }
+
   /// Updates project status.
+  ///
+  /// Goes through the `transition_project_status` RPC, which checks the move,
+  /// sets the timestamps that go with it and records it in the status
+  /// history; the database refuses direct status writes. [additionalData]
+  /// is written to the project first.
   Future<bool> updateProjectStatus(
     String projectId,
     ProjectStatus status, {
     Map<String, dynamic>? additionalData,
+    String? reason,
   }) async {
     try {
-      final data = {
-        'status': status.value,
-        'updated_at': DateTime.now().toIso8601String(),
-        ...?additionalData,
-      };
-
-      // Add timestamp for specific status changes
-      switch (status) {
-        case ProjectStatus.assigned:
-          data['assigned_at'] = DateTime.now().toIso8601String();
-          break;
-        case ProjectStatus.inProgress:
-          data['started_at'] = DateTime.now().toIso8601String();
-          break;
-        case ProjectStatus.delivered:
-          data['delivered_at'] = DateTime.now().toIso8601String();
-          break;
-        case ProjectStatus.completed:
-          data['completed_at'] = DateTime.now().toIso8601String();
-          break;
-        default:
-          break;
+      if (additionalData != null && additionalData.isNotEmpty) {
+        await _client.from('projects').update({
+          ...additionalData,
+          'updated_at': DateTime.now().toIso8601String(),
+        }).eq('id', projectId);
       }
 
-      await _client.from('projects').update(data).eq('id', projectId);
+      await _client.rpc('transition_project_status', params: {
+        'p_project_id': projectId,
+        'p_to_status': _machineStatus(status),
+        'p_reason': reason,
+      });
       return true;
     } catch (e) {
       if (kDebugMode) {
@@ -269,7 +278,7 @@ class ProjectRepository {
       }).eq('id', deliverableId);
 
       // Update project status
-      await updateProjectStatus(projectId, ProjectStatus.approved);
+      await updateProjectStatus(projectId, ProjectStatus.approved, reason: notes);
 
       return true;
     } catch (e) {
@@ -288,12 +297,12 @@ class ProjectRepository {
     List<String>? issues,
   }) async {
     try {
-      // Update project status
-      await _client.from('projects').update({
-        'status': ProjectStatus.revisionRequested.value,
-        'revision_count': SupabaseClient as dynamic,
-        'updated_at': DateTime.now().toIso8601String(),
-      }).eq('id', projectId);
+      // Send the work back to the doer
+      await _client.rpc('transition_project_status', params: {
+        'p_project_id': projectId,
+        'p_to_status': _machineStatus(ProjectStatus.revisionRequested),
+        'p_reason': feedback,
+      });
 
       // Create revision request record
       await _client.from('project_revisions').insert({
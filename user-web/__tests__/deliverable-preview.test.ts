@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { PDFDocument, StandardFonts } from "pdf-lib";
+import { renderPagesPreview } from "@/lib/deliverables";
+import { DELIVERABLE_PREVIEW_PAGES } from "@shared/deliverable-access";
+
+/** 1x1 transparent PNG */
+const PIXEL_PNG = Buffer.from(
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==",
+  "base64"
+);
+
+/**
+ * A PDF of Letter-sized pages, each with a line of text
+ */
+async function samplePdf(pageCount: number): Promise<Buffer> {
+  const document = await PDFDocument.create();
+  const font = await document.embedFont(StandardFonts.TimesRoman);
+  for (let index = 0; index < pageCount; index++) {
+    document.addPage([612, 792]).drawText(`Chapter ${index + 1}`, { x: 72, y: 700, font });
+  }
+  return Buffer.from(await document.save());
+}
+
+describe("renderPagesPreview", () => {
+  it("should keep only the first pages of a PDF, at their own size", async () => {
+    const preview = await PDFDocument.load(await renderPagesPreview(await samplePdf(5), "thesis.pdf"));
+
+    expect(preview.getPageCount()).toBe(DELIVERABLE_PREVIEW_PAGES);
+    expect(preview.getPages().map((page) => page.getSize())).toEqual(
+      Array(DELIVERABLE_PREVIEW_PAGES).fill({ width: 612, height: 792 })
+    );
+    expect(preview.getTitle()).toBe("Preview - thesis.pdf");
+  });
+
+  it("should show a short PDF in full, whatever its name is written in", async () => {
+    const preview = await PDFDocument.load(await renderPagesPreview(await samplePdf(1), "शोध cover.pdf"));
+
+    expect(preview.getPageCount()).toBe(1);
+  });
+
+  it("should put an image on a page of its own", async () => {
+    const preview = await PDFDocument.load(await renderPagesPreview(PIXEL_PNG, "diagram.png"));
+
+    expect(preview.getPageCount()).toBe(1);
+  });
+
+  it("should reject files that aren't what their name says", async () => {
+    await expect(renderPagesPreview(Buffer.from("not a pdf"), "fake.pdf")).rejects.toThrow();
+  });
+});
@@ -0,0 +1,132 @@
+import { afterAll, beforeAll, describe, it, expect } from "vitest";
+import type { PGlite } from "@electric-sql/pglite";
+import { actAs, createProfile, createProject, createTestDatabase, createWorker, one } from "./helpers/database";
+
+let db: PGlite;
+
+beforeAll(async () => {
+  db = await createTestDatabase(["20261019_002", "20261019_020", "20261019_021", "20261019_022"]);
+});
+
+afterAll(async () => {
+  await db.close();
+});
+
+interface Reconciliation {
+  balanced: boolean;
+  unbalanced_entries: unknown[];
+  escrow_mismatches: unknown[];
+  earnings_mismatches: unknown[];
+}
+
+/**
+ * A project in the given status with a doer and a supervisor, marked paid
+ * after it was created so trg_fund_escrow_on_payment funds its escrow
+ */
+async function paidProject(status: string) {
+  const userId = await createProfile(db);
+  const doer = await createWorker(db, "doer");
+  const supervisor = await createWorker(db, "supervisor");
+  const projectId = await createProject(db, {
+    userId,
+    status,
+    doerId: doer.id,
+    supervisorId: supervisor.id,
+  });
+  await db.query("UPDATE projects SET is_paid = true WHERE id = $1", [projectId]);
+  return { projectId, userId, doer };
+}
+
+const reconciliation = async () =>
+  (await one<{ report: Reconciliation }>(db, "SELECT get_ledger_reconciliation() AS report")).report;
+
+const postings = (projectId: string) =>
+  db
+    .query<{ entry_type: string; kind: string; direction: string; amount: string }>(
+      `SELECT e.entry_type, a.kind, l.direction, l.amount
+       FROM ledger_entries e
+       JOIN ledger_lines l ON l.entry_id = e.id
+       JOIN ledger_accounts a ON a.id = l.account_id
+       WHERE e.project_id = $1
+       ORDER BY e.created_at, a.kind, l.direction`,
+      [projectId]
+    )
+    .then(({ rows }) => rows.map((row) => ({ ...row, amount: Number(row.amount) })));
+
+const expectReconciled = async () => {
+  const report = await reconciliation();
+  expect(report.unbalanced_entries).toEqual([]);
+  expect(report.escrow_mismatches).toEqual([]);
+  expect(report.earnings_mismatches).toEqual([]);
+  expect(report.balanced).toBe(true);
+};
+
+describe("project escrow", () => {
+  it("should hold the charge in escrow once the project is paid", async () => {
+    const { projectId } = await paidProject("in_progress");
+
+    expect(await postings(projectId)).toEqual([
+      { entry_type: "escrow_funded", kind: "cash", direction: "debit", amount: 1000 },
+      { entry_type: "escrow_funded", kind: "escrow", direction: "credit", amount: 1000 },
+    ]);
+    await expectReconciled();
+  });
+
+  it("should release the escrow to the doer, supervisor and platform on completion", async () => {
+    const { projectId } = await paidProject("delivered");
+
+    await db.query("UPDATE projects SET status = 'completed' WHERE id = $1", [projectId]);
+
+    const released = (await postings(projectId)).filter((line) => line.entry_type === "escrow_released");
+    expect(released).toEqual(
+      expect.arrayContaining([
+        { entry_type: "escrow_released", kind: "escrow", direction: "debit", amount: 1000 },
+        { entry_type: "escrow_released", kind: "earnings", direction: "credit", amount: 600 },
+        { entry_type: "escrow_released", kind: "earnings", direction: "credit", amount: 150 },
+        { entry_type: "escrow_released", kind: "platform_revenue", direction: "credit", amount: 250 },
+      ])
+    );
+    expect(released).toHaveLength(4);
+    await expectReconciled();
+  });
+
+  it("should reverse the escrow to the student's refund when the project is cancelled", async () => {
+    const { projectId, userId } = await paidProject("in_progress");
+    await actAs(db, null);
+
+    await db.query(
+      `SELECT process_project_refund(
+         $1, $2, $2, 'Changed my mind', 'in_progress', 1000, 0.5, 500, 0, NULL
+       )`,
+      [projectId, userId]
+    );
+
+    const reversed = (await postings(projectId)).filter((line) => line.entry_type === "escrow_reversed");
+    expect(reversed).toEqual([
+      { entry_type: "escrow_reversed", kind: "customer_refunds", direction: "credit", amount: 500 },
+      { entry_type: "escrow_reversed", kind: "escrow", direction: "debit", amount: 1000 },
+      { entry_type: "escrow_reversed", kind: "platform_revenue", direction: "credit", amount: 500 },
+    ]);
+    await expectReconciled();
+  });
+});
+
+describe("release_project_earnings", () => {
+  it("should credit the doer exactly once on completion", async () => {
+    const { projectId, doer } = await paidProject("delivered");
+
+    await db.query("UPDATE projects SET status = 'completed' WHERE id = $1", [projectId]);
+
+    const earnings = await one<{ balance: string; total_earnings: string; transactions: number }>(
+      db,
+      `SELECT w.balance, d.total_earnings,
+              (SELECT COUNT(*)::INT FROM wallet_transactions t WHERE t.wallet_id = w.id) AS transactions
+       FROM doers d JOIN wallets w ON w.profile_id = d.profile_id
+       WHERE d.id = $1`,
+      [doer.id]
+    );
+    expect(Number(earnings.balance)).toBe(600);
+    expect(Number(earnings.total_earnings)).toBe(600);
+    expect(earnings.transactions).toBe(1);
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect } from "vitest";
+import {
+  autoApprovalWarningData,
+  renderEmailTemplate,
+  type EmailTemplateData,
+  type EmailTemplateName,
+} from "@/lib/email/templates";
+
+const PROJECT_URL = "https://assignx.in/project/5f2c";
+
+/**
+ * One fully filled sample per template
+ */
+const SAMPLES: { [K in EmailTemplateName]: EmailTemplateData[K] } = {
+  quote_ready: {
+    recipientName: "Aarav",
+    projectNumber: "AX-00042",
+    projectTitle: "Market analysis of EV adoption in India",
+    amount: 2499,
+    projectUrl: PROJECT_URL,
+    deadline: "2026-10-25T12:30:00.000Z",
+  },
+  payment_received: {
+    recipientName: "Aarav",
+    projectNumber: "AX-00042",
+    projectTitle: "Market analysis of EV adoption in India",
+    amount: 2499,
+    paymentReference: "pay_OfX1b2C3d4",
+    projectUrl: PROJECT_URL,
+  },
+  project_delivered: {
+    recipientName: "Aarav",
+    projectNumber: "AX-00042",
+    projectTitle: "Market analysis of EV adoption in India",
+    projectUrl: PROJECT_URL,
+    autoApproveAt: "2026-10-28T06:00:00.000Z",
+  },
+  revision_requested: {
+    recipientName: "Aarav",
+    projectNumber: "AX-00042",
+    projectTitle: "Market analysis of EV adoption in India",
+    feedback: "Please add 2023 sales figures.\nCite the NITI Aayog report.",
+    projectUrl: PROJECT_URL,
+  },
+  auto_approval_warning: {
+    recipientName: "Aarav",
+    projectNumber: "AX-00042",
+    projectTitle: "Market analysis of EV adoption in India",
+    autoApproveAt: "2026-10-28T06:00:00.000Z",
+    hoursLeft: 12,
+    projectUrl: PROJECT_URL,
+  },
+  payout_processed: {
+    recipientName: "Meera",
+    amount: 18250.5,
+    payoutReference: "UTR2610190042",
+    method: "UPI meera@okbank",
+    processedAt: "2026-10-19T09:15:00.000Z",
+    walletUrl: "https://doer.assignx.in/earnings",
+  },
+  support_ticket_reply: {
+    recipientName: "Aarav",
+    ticketNumber: "TKT-1007",
+    ticketSubject: "Invoice shows the wrong GSTIN",
+    reply: "Thanks for flagging this. We've reissued the invoice with your GSTIN.",
+    repliedBy: "Priya from AssignX",
+    ticketUrl: "https://assignx.in/support/tkt-1007",
+  },
+  notification: {
+    recipientName: "Aarav",
+    title: "Your expert session starts in 1 hour",
+    body: "Your consultation with Dr. Rao starts at 5:00 PM.",
+    actionUrl: "https://assignx.in/experts/bookings",
+    actionLabel: "Join session",
+  },
+};
+
+describe("renderEmailTemplate", () => {
+  for (const name of Object.keys(SAMPLES) as EmailTemplateName[]) {
+    describe(name, () => {
+      const email = renderEmailTemplate(name, SAMPLES[name]);
+
+      it("should render the subject", () => {
+        expect(email.subject).toMatchSnapshot();
+      });
+
+      it("should render the plain-text part", () => {
+        expect(email.text).toMatchSnapshot();
+      });
+
+      it("should render the HTML part", () => {
+        expect(email.html).toMatchSnapshot();
+      });
+    });
+  }
+
+  it("should leave out optional details that are not set", () => {
+    const email = renderEmailTemplate("quote_ready", { ...SAMPLES.quote_ready, deadline: null });
+
+    expect(email.text).not.toContain("Deadline");
+    expect(email.html).not.toContain("Deadline");
+  });
+
+  it("should greet recipients without a name", () => {
+    const email = renderEmailTemplate("notification", { ...SAMPLES.notification, recipientName: "  " });
+
+    expect(email.text.startsWith("Hi there,")).toBe(true);
+  });
+
+  it("should escape user content in the HTML part only", () => {
+    const email = renderEmailTemplate("revision_requested", {
+      ...SAMPLES.revision_requested,
+      projectTitle: `<script>alert("x")</script>`,
+    });
+
+    expect(email.html).not.toContain("<script>");
+    expect(email.html).toContain("&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;");
+    expect(email.text).toContain(`<script>alert("x")</script>`);
+  });
+
+  it("should shorten long ticket replies", () => {
+    const email = renderEmailTemplate("support_ticket_reply", {
+      ...SAMPLES.support_ticket_reply,
+      reply: "word ".repeat(200),
+    });
+
+    expect(email.text).toContain("…");
+    expect(email.text).not.toContain("word ".repeat(130));
+  });
+});
+
+describe("autoApprovalWarningData", () => {
+  it("should round the time left to whole hours, at least one", () => {
+    const project = {
+      project_number: "AX-00042",
+      title: "Market analysis of EV adoption in India",
+      auto_approve_at: "2026-10-28T06:00:00.000Z",
+    };
+
+    expect(
+      autoApprovalWarningData(project, "Aarav", PROJECT_URL, new Date("2026-10-27T18:10:00.000Z")).hoursLeft
+    ).toBe(12);
+    expect(
+      autoApprovalWarningData(project, "Aarav", PROJECT_URL, new Date("2026-10-28T05:59:00.000Z")).hoursLeft
+    ).toBe(1);
+  });
+});
@@ -0,0 +1,93 @@
+import { afterEach, describe, it, expect } from "vitest";
+import net from "net";
+import { createSmtpTransport } from "@/lib/email/transport";
+
+const MESSAGE = {
+  to: "aarav@example.com",
+  subject: "Payment received",
+  text: "Thanks",
+  html: "<p>Thanks</p>",
+};
+
+/**
+ * Plaintext SMTP server that never offers STARTTLS and records every command
+ */
+function startPlaintextServer(host: string): Promise<{ port: number; commands: string[]; server: net.Server }> {
+  const commands: string[] = [];
+  const server = net.createServer((socket) => {
+    let inData = false;
+    socket.write("220 test ESMTP\r\n");
+    socket.on("data", (chunk) => {
+      for (const line of chunk.toString().split("\r\n").filter(Boolean)) {
+        if (inData) {
+          if (line === ".") {
+            inData = false;
+            socket.write("250 queued\r\n");
+          }
+          continue;
+        }
+        commands.push(line.split(" ")[0].toUpperCase());
+        if (/^EHLO/i.test(line)) socket.write("250-test\r\n250 AUTH PLAIN LOGIN\r\n");
+        else if (/^AUTH/i.test(line)) socket.write("235 ok\r\n");
+        else if (/^DATA/i.test(line)) {
+          inData = true;
+          socket.write("354 go ahead\r\n");
+        } else if (/^QUIT/i.test(line)) socket.end("221 bye\r\n");
+        else socket.write("250 ok\r\n");
+      }
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, host, () => {
+      resolve({ port: (server.address() as net.AddressInfo).port, commands, server });
+    });
+  });
+}
+
+describe("createSmtpTransport", () => {
+  let server: net.Server | undefined;
+
+  afterEach(async () => {
+    await new Promise((resolve) => server?.close(resolve) ?? resolve(undefined));
+    server = undefined;
+  });
+
+  it("should not send credentials to a remote server that offers no TLS", async () => {
+    // 127.0.0.2 is loopback but not one of the local catcher hosts
+    const fake = await startPlaintextServer("127.0.0.2");
+    server = fake.server;
+
+    const transport = createSmtpTransport({
+      host: "127.0.0.2",
+      port: fake.port,
+      secure: false,
+      user: "mailer",
+      password: "secret",
+      from: "AssignX <no-reply@assignx.in>",
+      timeoutMs: 5000,
+    });
+
+    await expect(transport.send(MESSAGE)).rejects.toThrow("SMTP send failed");
+    expect(fake.commands).not.toContain("AUTH");
+    expect(fake.commands).not.toContain("MAIL");
+  });
+
+  it("should send to a local catcher without TLS", async () => {
+    const fake = await startPlaintextServer("127.0.0.1");
+    server = fake.server;
+
+    const transport = createSmtpTransport({
+      host: "127.0.0.1",
+      port: fake.port,
+      secure: false,
+      from: "AssignX <no-reply@assignx.in>",
+      timeoutMs: 5000,
+    });
+
+    const { messageId } = await transport.send(MESSAGE);
+
+    expect(messageId).toMatch(/^<.+@assignx\.in>$/);
+    expect(fake.commands).toEqual(expect.arrayContaining(["EHLO", "MAIL", "RCPT", "DATA"]));
+  });
+});
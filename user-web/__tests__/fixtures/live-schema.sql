@@ -0,0 +1,347 @@
+-- ============================================================================
+-- Live schema subset for database tests
+-- ============================================================================
+-- The tables, enums and triggers the supabase/migrations build on, as
+-- documented in database.md. Only the columns the migrations under test read
+-- or write are kept. Supabase's roles, auth.uid()/auth.role() and the
+-- storage tables are stubbed: tests pick the caller with set_config('request.jwt.claim.sub')
+-- and set_config('request.jwt.claim.role').
+-- ============================================================================
+
+CREATE ROLE anon NOLOGIN;
+CREATE ROLE authenticated NOLOGIN;
+CREATE ROLE service_role NOLOGIN;
+
+CREATE SCHEMA auth;
+
+CREATE FUNCTION auth.uid()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT NULLIF(current_setting('request.jwt.claim.sub', true), '')::UUID;
+$$;
+
+CREATE FUNCTION auth.role()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT NULLIF(current_setting('request.jwt.claim.role', true), '');
+$$;
+
+CREATE SCHEMA storage;
+
+CREATE TABLE storage.buckets (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  public BOOLEAN DEFAULT false
+);
+
+CREATE TABLE storage.objects (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  bucket_id TEXT REFERENCES storage.buckets(id),
+  name TEXT
+);
+
+ALTER TABLE storage.objects ENABLE ROW LEVEL SECURITY;
+
+CREATE FUNCTION storage.foldername(name TEXT)
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (string_to_array(name, '/'))[1:array_length(string_to_array(name, '/'), 1) - 1];
+$$;
+
+-- ============================================================================
+-- ENUMS
+-- ============================================================================
+
+CREATE TYPE project_status AS ENUM (
+  'draft', 'submitted', 'analyzing', 'quoted', 'payment_pending', 'paid',
+  'assigning', 'assigned', 'in_progress', 'submitted_for_qc', 'qc_in_progress',
+  'qc_approved', 'qc_rejected', 'delivered', 'revision_requested', 'in_revision',
+  'completed', 'auto_approved', 'cancelled', 'refunded'
+);
+
+CREATE TYPE payment_status AS ENUM (
+  'initiated', 'pending', 'processing', 'completed', 'failed', 'cancelled',
+  'refunded', 'partially_refunded'
+);
+
+CREATE TYPE transaction_type AS ENUM (
+  'credit', 'debit', 'refund', 'withdrawal', 'top_up', 'project_payment',
+  'project_earning', 'commission', 'bonus', 'penalty', 'reversal'
+);
+
+-- ============================================================================
+-- PEOPLE
+-- ============================================================================
+
+CREATE TABLE profiles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email VARCHAR(255) NOT NULL UNIQUE,
+  full_name VARCHAR(255) NOT NULL,
+  user_type VARCHAR(20) NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE TABLE doers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_id UUID NOT NULL UNIQUE REFERENCES profiles(id),
+  total_projects_completed INTEGER DEFAULT 0,
+  total_earnings NUMERIC DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE TABLE supervisors (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_id UUID NOT NULL UNIQUE REFERENCES profiles(id),
+  total_projects_managed INTEGER DEFAULT 0,
+  total_earnings NUMERIC DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- ============================================================================
+-- MONEY
+-- ============================================================================
+
+CREATE TABLE wallets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_id UUID NOT NULL UNIQUE REFERENCES profiles(id),
+  balance NUMERIC NOT NULL DEFAULT 0,
+  currency VARCHAR(3) DEFAULT 'INR',
+  total_credited NUMERIC DEFAULT 0,
+  total_debited NUMERIC DEFAULT 0,
+  total_withdrawn NUMERIC DEFAULT 0,
+  locked_amount NUMERIC DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE TABLE wallet_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  wallet_id UUID NOT NULL REFERENCES wallets(id),
+  transaction_type transaction_type NOT NULL,
+  amount NUMERIC NOT NULL,
+  balance_before NUMERIC NOT NULL,
+  balance_after NUMERIC NOT NULL,
+  reference_type VARCHAR(50),
+  reference_id UUID,
+  description TEXT,
+  notes TEXT,
+  status VARCHAR(20) DEFAULT 'completed',
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE TABLE payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id),
+  amount NUMERIC NOT NULL,
+  currency VARCHAR(3) DEFAULT 'INR',
+  gateway VARCHAR(50) DEFAULT 'razorpay',
+  gateway_order_id VARCHAR(255),
+  gateway_payment_id VARCHAR(255),
+  payment_method VARCHAR(50),
+  reference_type VARCHAR(50) NOT NULL,
+  reference_id UUID,
+  status payment_status NOT NULL DEFAULT 'initiated',
+  failure_reason TEXT,
+  failure_code VARCHAR(50),
+  refund_amount NUMERIC,
+  refund_id VARCHAR(255),
+  refunded_at TIMESTAMPTZ,
+  initiated_at TIMESTAMPTZ DEFAULT now(),
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- ============================================================================
+-- PROJECTS
+-- ============================================================================
+
+CREATE TABLE projects (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_number VARCHAR(20) NOT NULL UNIQUE,
+  user_id UUID NOT NULL REFERENCES profiles(id),
+  title VARCHAR(255) NOT NULL,
+  deadline TIMESTAMPTZ NOT NULL,
+  status project_status NOT NULL DEFAULT 'submitted',
+  status_updated_at TIMESTAMPTZ DEFAULT now(),
+  supervisor_id UUID REFERENCES supervisors(id),
+  supervisor_assigned_at TIMESTAMPTZ,
+  doer_id UUID REFERENCES doers(id),
+  doer_assigned_at TIMESTAMPTZ,
+  user_quote NUMERIC,
+  doer_payout NUMERIC,
+  supervisor_commission NUMERIC,
+  platform_fee NUMERIC,
+  is_paid BOOLEAN DEFAULT false,
+  paid_at TIMESTAMPTZ,
+  payment_id UUID REFERENCES payments(id),
+  delivered_at TIMESTAMPTZ,
+  auto_approve_at TIMESTAMPTZ,
+  progress_percentage INTEGER DEFAULT 0,
+  completed_at TIMESTAMPTZ,
+  user_approved BOOLEAN,
+  user_approved_at TIMESTAMPTZ,
+  cancelled_at TIMESTAMPTZ,
+  cancelled_by UUID REFERENCES profiles(id),
+  cancellation_reason TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE TABLE project_deliverables (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id),
+  file_name VARCHAR(255) NOT NULL,
+  file_url TEXT NOT NULL,
+  file_type VARCHAR(50),
+  version INTEGER DEFAULT 1,
+  qc_status VARCHAR(20) DEFAULT 'pending',
+  qc_notes TEXT,
+  qc_at TIMESTAMPTZ,
+  uploaded_by UUID NOT NULL REFERENCES profiles(id),
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE TABLE project_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id),
+  revision_number INTEGER NOT NULL,
+  requested_by UUID NOT NULL REFERENCES profiles(id),
+  requested_by_type VARCHAR(20) NOT NULL,
+  feedback TEXT NOT NULL,
+  status VARCHAR(20) DEFAULT 'pending',
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE TABLE project_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id),
+  from_status project_status,
+  to_status project_status NOT NULL,
+  changed_by UUID REFERENCES profiles(id),
+  changed_by_type VARCHAR(20),
+  notes TEXT,
+  metadata JSONB,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE TABLE support_tickets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  requester_id UUID NOT NULL REFERENCES profiles(id),
+  subject VARCHAR(255) NOT NULL,
+  project_id UUID REFERENCES projects(id),
+  status VARCHAR(30) DEFAULT 'open',
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE TABLE activity_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_id UUID REFERENCES profiles(id),
+  action VARCHAR(100) NOT NULL,
+  action_category VARCHAR(50),
+  target_type VARCHAR(50),
+  target_id UUID,
+  description TEXT,
+  metadata JSONB,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+-- create_wallet_trigger: every profile gets a wallet
+CREATE FUNCTION create_wallet_for_profile()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  INSERT INTO wallets (profile_id) VALUES (NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER create_wallet_trigger
+  AFTER INSERT ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION create_wallet_for_profile();
+
+-- wallet_balance_trigger: the balance follows the transactions
+CREATE FUNCTION update_wallet_balance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.transaction_type IN ('credit', 'refund', 'top_up', 'project_earning', 'commission', 'bonus') THEN
+    UPDATE wallets
+    SET balance = balance + NEW.amount,
+        total_credited = COALESCE(total_credited, 0) + NEW.amount,
+        updated_at = now()
+    WHERE id = NEW.wallet_id;
+  ELSIF NEW.transaction_type IN ('debit', 'withdrawal', 'project_payment', 'penalty') THEN
+    UPDATE wallets
+    SET balance = balance - NEW.amount,
+        total_debited = COALESCE(total_debited, 0) + NEW.amount,
+        updated_at = now()
+    WHERE id = NEW.wallet_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER wallet_balance_trigger
+  AFTER INSERT ON wallet_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_wallet_balance();
+
+-- project_status_change_trigger: replaced by 20261019_020
+CREATE FUNCTION log_project_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.status IS DISTINCT FROM NEW.status THEN
+    INSERT INTO project_status_history (project_id, from_status, to_status, changed_by_type)
+    VALUES (NEW.id, OLD.status, NEW.status, 'system');
+    NEW.status_updated_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER project_status_change_trigger
+  BEFORE UPDATE ON projects
+  FOR EACH ROW
+  EXECUTE FUNCTION log_project_status_change();
+
+-- doer_stats_trigger: completed projects count towards the doer's stats
+CREATE FUNCTION update_doer_stats()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed' AND NEW.doer_id IS NOT NULL THEN
+    UPDATE doers
+    SET total_projects_completed = COALESCE(total_projects_completed, 0) + 1,
+        total_earnings = COALESCE(total_earnings, 0) + COALESCE(NEW.doer_payout, 0)
+    WHERE id = NEW.doer_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER doer_stats_trigger
+  AFTER UPDATE ON projects
+  FOR EACH ROW
+  EXECUTE FUNCTION update_doer_stats();
@@ -0,0 +1,133 @@
+/**
+ * In-memory Postgres for database tests
+ *
+ * Loads the live schema subset in __tests__/fixtures/live-schema.sql and then
+ * the supabase/migrations under test, in order, into PGlite.
+ */
+
+import { readdirSync, readFileSync } from "fs";
+import path from "path";
+import { PGlite } from "@electric-sql/pglite";
+
+const MIGRATIONS_DIR = path.join(__dirname, "..", "..", "supabase", "migrations");
+const LIVE_SCHEMA = path.join(__dirname, "..", "fixtures", "live-schema.sql");
+
+/**
+ * Creates a database with the given migrations applied
+ * @param migrations - Migration file prefixes, e.g. "20261019_001"
+ */
+export async function createTestDatabase(migrations: string[]): Promise<PGlite> {
+  const db = new PGlite();
+  await db.exec(readFileSync(LIVE_SCHEMA, "utf8"));
+
+  for (const prefix of migrations) {
+    await applyMigration(db, prefix);
+  }
+
+  return db;
+}
+
+/**
+ * Applies one migration, e.g. after seeding the rows its backfill rewrites
+ * @param prefix - Migration file prefix, e.g. "20261019_024"
+ */
+export async function applyMigration(db: PGlite, prefix: string): Promise<void> {
+  const file = readdirSync(MIGRATIONS_DIR).find((name) => name.startsWith(`${prefix}_`));
+  if (!file) throw new Error(`No migration ${prefix}`);
+  await db.exec(readFileSync(path.join(MIGRATIONS_DIR, file), "utf8"));
+}
+
+/**
+ * Makes the following statements run as a Supabase caller: the service role
+ * (no profile) or a signed-in profile
+ */
+export async function actAs(db: PGlite, profileId: string | null): Promise<void> {
+  await db.query("SELECT set_config('request.jwt.claim.role', $1, false)", [
+    profileId ? "authenticated" : "service_role",
+  ]);
+  await db.query("SELECT set_config('request.jwt.claim.sub', $1, false)", [profileId ?? ""]);
+}
+
+/**
+ * Runs a query and returns its only row
+ */
+export async function one<T>(db: PGlite, sql: string, params: unknown[] = []): Promise<T> {
+  const { rows } = await db.query<T>(sql, params);
+  if (rows.length !== 1) throw new Error(`Expected one row, got ${rows.length}: ${sql}`);
+  return rows[0];
+}
+
+/**
+ * Inserts a profile (and, through create_wallet_trigger, its wallet)
+ */
+export async function createProfile(
+  db: PGlite,
+  userType: "student" | "doer" | "supervisor" = "student"
+): Promise<string> {
+  const { id } = await one<{ id: string }>(
+    db,
+    `INSERT INTO profiles (email, full_name, user_type)
+     VALUES (gen_random_uuid() || '@example.com', 'Test ' || $1, $1)
+     RETURNING id`,
+    [userType]
+  );
+  return id;
+}
+
+/**
+ * Inserts a doer or supervisor for a new profile
+ * @returns The doers/supervisors row id and its profile id
+ */
+export async function createWorker(
+  db: PGlite,
+  role: "doer" | "supervisor"
+): Promise<{ id: string; profileId: string }> {
+  const profileId = await createProfile(db, role);
+  const { id } = await one<{ id: string }>(
+    db,
+    `INSERT INTO ${role === "doer" ? "doers" : "supervisors"} (profile_id) VALUES ($1) RETURNING id`,
+    [profileId]
+  );
+  return { id, profileId };
+}
+
+export interface TestProject {
+  userId: string;
+  status?: string;
+  isPaid?: boolean;
+  userQuote?: number;
+  doerPayout?: number;
+  supervisorCommission?: number;
+  platformFee?: number;
+  doerId?: string | null;
+  supervisorId?: string | null;
+}
+
+/**
+ * Inserts a project, written straight to the table as the schema owner
+ */
+export async function createProject(db: PGlite, project: TestProject): Promise<string> {
+  const { id } = await one<{ id: string }>(
+    db,
+    `INSERT INTO projects (
+       project_number, user_id, title, deadline, status, is_paid,
+       user_quote, doer_payout, supervisor_commission, platform_fee, doer_id, supervisor_id
+     ) VALUES (
+       'AX-' || substr(md5(random()::TEXT), 1, 8), $1, 'Test project', NOW() + INTERVAL '7 days',
+       $2::project_status, $3, $4, $5, $6, $7, $8, $9
+     )
+     RETURNING id`,
+    [
+      project.userId,
+      project.status ?? "quoted",
+      project.isPaid ?? false,
+      project.userQuote ?? 1000,
+      project.doerPayout ?? 600,
+      project.supervisorCommission ?? 150,
+      project.platformFee ?? 250,
+      project.doerId ?? null,
+      project.supervisorId ?? null,
+    ]
+  );
+  return id;
+}
@@ -0,0 +1,187 @@
+/**
+ * In-memory stand-in for the Supabase client
+ *
+ * Covers the query builder calls the server-side payment code makes
+ * (select / insert / update / upsert with eq, in, or, limit and maybeSingle)
+ * against plain arrays of rows, plus RPCs answered by test handlers.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+type Row = Record<string, unknown>;
+type Filter = (row: Row) => boolean;
+type RpcHandler = (args: Row) => unknown;
+
+export interface FakeSupabase {
+  client: SupabaseClient;
+  tables: Record<string, Row[]>;
+  rpcCalls: { name: string; args: Row }[];
+}
+
+/**
+ * Parses one PostgREST filter ("column.eq.value", "column.in.(a,b)" or
+ * "and(...)") as used in .or() strings
+ */
+function parseFilter(expression: string): Filter {
+  if (expression.startsWith("and(")) {
+    const filters = splitTopLevel(expression.slice(4, -1)).map(parseFilter);
+    return (row) => filters.every((filter) => filter(row));
+  }
+
+  const [column, operator, ...rest] = expression.split(".");
+  const value = rest.join(".");
+  if (operator === "eq") return (row) => String(row[column]) === value;
+  if (operator === "in") {
+    const values = value.slice(1, -1).split(",");
+    return (row) => values.includes(String(row[column]));
+  }
+  throw new Error(`Unsupported filter ${expression}`);
+}
+
+/**
+ * Splits on commas that are not inside parentheses
+ */
+function splitTopLevel(expression: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const char of expression) {
+    if (char === "(") depth++;
+    if (char === ")") depth--;
+    if (char === "," && depth === 0) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  return [...parts, current];
+}
+
+class FakeQuery implements PromiseLike<{ data: unknown; error: null }> {
+  private filters: Filter[] = [];
+  private maxRows: number | null = null;
+  private action: "select" | "update" | "insert" | "upsert" = "select";
+  private values: Row = {};
+  private upsertOptions: { onConflict?: string; ignoreDuplicates?: boolean } = {};
+  private single = false;
+
+  constructor(private rows: Row[]) {}
+
+  select() {
+    return this;
+  }
+
+  insert(values: Row | Row[]) {
+    for (const row of Array.isArray(values) ? values : [values]) {
+      this.rows.push({ id: crypto.randomUUID(), ...row });
+    }
+    this.action = "insert";
+    return this;
+  }
+
+  update(values: Row) {
+    this.action = "update";
+    this.values = values;
+    return this;
+  }
+
+  upsert(values: Row, options: { onConflict?: string; ignoreDuplicates?: boolean } = {}) {
+    this.action = "upsert";
+    this.values = values;
+    this.upsertOptions = options;
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push((row) => row[column] === value);
+    return this;
+  }
+
+  in(column: string, values: unknown[]) {
+    this.filters.push((row) => values.includes(row[column]));
+    return this;
+  }
+
+  or(expression: string) {
+    const filters = splitTopLevel(expression).map(parseFilter);
+    this.filters.push((row) => filters.some((filter) => filter(row)));
+    return this;
+  }
+
+  order() {
+    return this;
+  }
+
+  limit(count: number) {
+    this.maxRows = count;
+    return this;
+  }
+
+  maybeSingle() {
+    this.single = true;
+    return this;
+  }
+
+  private run(): unknown {
+    if (this.action === "upsert") {
+      const key = this.upsertOptions.onConflict ?? "id";
+      const existing = this.rows.find((row) => row[key] === this.values[key]);
+      if (!existing) {
+        this.rows.push({ id: crypto.randomUUID(), ...this.values });
+      } else if (!this.upsertOptions.ignoreDuplicates) {
+        Object.assign(existing, this.values);
+      }
+      return null;
+    }
+
+    const matches = this.rows.filter((row) => this.filters.every((filter) => filter(row)));
+
+    if (this.action === "update") {
+      matches.forEach((row) => Object.assign(row, this.values));
+      return null;
+    }
+    if (this.action === "insert") return null;
+
+    const limited = this.maxRows === null ? matches : matches.slice(0, this.maxRows);
+    if (!this.single) return limited.map((row) => ({ ...row }));
+    if (limited.length > 1) throw new Error("maybeSingle matched more than one row");
+    return limited[0] ? { ...limited[0] } : null;
+  }
+
+  then<TResult1, TResult2>(
+    onFulfilled?: (value: { data: unknown; error: null }) => TResult1 | PromiseLike<TResult1>,
+    onRejected?: (reason: unknown) => TResult2 | PromiseLike<TResult2>
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve()
+      .then(() => ({ data: this.run(), error: null }))
+      .then(onFulfilled, onRejected);
+  }
+}
+
+/**
+ * Creates a fake client over the given tables
+ * @param tables - Rows per table; mutated in place by writes
+ * @param rpcs - Handlers for supabase.rpc(), returning the RPC's data
+ */
+export function createFakeSupabase(
+  tables: Record<string, Row[]> = {},
+  rpcs: Record<string, RpcHandler> = {}
+): FakeSupabase {
+  const rpcCalls: { name: string; args: Row }[] = [];
+
+  const client = {
+    from(table: string) {
+      tables[table] ??= [];
+      return new FakeQuery(tables[table]);
+    },
+    async rpc(name: string, args: Row) {
+      rpcCalls.push({ name, args });
+      const handler = rpcs[name];
+      if (!handler) return { data: null, error: { message: `Unknown function ${name}` } };
+      return { data: handler(args), error: null };
+    },
+  };
+
+  return { client: client as unknown as SupabaseClient, tables, rpcCalls };
+}
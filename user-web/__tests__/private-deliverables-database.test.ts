@@ -0,0 +1,47 @@
+import { afterAll, beforeAll, describe, it, expect } from "vitest";
+import type { PGlite } from "@electric-sql/pglite";
+import { deliverableObjectPath } from "@shared/deliverable-access";
+import { applyMigration, createProfile, createProject, createTestDatabase } from "./helpers/database";
+
+const PUBLIC_URL = "https://x.supabase.co/storage/v1/object/public/deliverables/";
+
+const SAVED_URLS = [
+  "p1/1700000000000-abc.pdf",
+  `${PUBLIC_URL}p1/1700000000000-abc.pdf`,
+  `${PUBLIC_URL}p1/1700000000000-Final%20Report%20(v2).docx?t=1700000000`,
+  `${PUBLIC_URL}p1/1700000000000-r%C3%A9sum%C3%A9%25.pdf`,
+];
+
+let db: PGlite;
+
+beforeAll(async () => {
+  db = await createTestDatabase([]);
+
+  const userId = await createProfile(db);
+  const projectId = await createProject(db, { userId });
+  for (const fileUrl of SAVED_URLS) {
+    await db.query(
+      `INSERT INTO project_deliverables (project_id, file_name, file_url, uploaded_by)
+       VALUES ($1, 'deliverable', $2, $3)`,
+      [projectId, fileUrl, userId]
+    );
+  }
+
+  await applyMigration(db, "20261019_024");
+});
+
+afterAll(async () => {
+  await db.close();
+});
+
+describe("private deliverables backfill", () => {
+  it("should rewrite saved URLs to the object paths deliverableObjectPath() resolves", async () => {
+    const { rows } = await db.query<{ file_url: string }>(
+      "SELECT file_url FROM project_deliverables"
+    );
+
+    expect(rows.map((row) => row.file_url).sort()).toEqual(SAVED_URLS.map(deliverableObjectPath).sort());
+    expect(rows.map((row) => row.file_url)).toContain("p1/1700000000000-Final Report (v2).docx");
+    expect(rows.map((row) => row.file_url)).toContain("p1/1700000000000-résumé%.pdf");
+  });
+});
@@ -0,0 +1,74 @@
+import { afterAll, beforeAll, describe, it, expect } from "vitest";
+import type { PGlite } from "@electric-sql/pglite";
+import { createProfile, createProject, createTestDatabase, createWorker, one } from "./helpers/database";
+
+let db: PGlite;
+
+beforeAll(async () => {
+  db = await createTestDatabase(["20261019_020", "20261019_021"]);
+});
+
+afterAll(async () => {
+  await db.close();
+});
+
+/**
+ * A delivered project with a doer and a supervisor
+ */
+async function deliveredProject() {
+  const userId = await createProfile(db);
+  const doer = await createWorker(db, "doer");
+  const supervisor = await createWorker(db, "supervisor");
+  const projectId = await createProject(db, {
+    userId,
+    status: "delivered",
+    isPaid: true,
+    doerId: doer.id,
+    supervisorId: supervisor.id,
+  });
+  return { projectId, doer, supervisor };
+}
+
+const setStatus = (projectId: string, status: string) =>
+  db.query("UPDATE projects SET status = $2::project_status WHERE id = $1", [projectId, status]);
+
+const earnings = (table: "doers" | "supervisors", id: string) =>
+  one<{ balance: string; total_credited: string; transactions: number; total_earnings: string }>(
+    db,
+    `SELECT w.balance, w.total_credited, r.total_earnings,
+            (SELECT COUNT(*)::INT FROM wallet_transactions t WHERE t.wallet_id = w.id) AS transactions
+     FROM ${table} r JOIN wallets w ON w.profile_id = r.profile_id
+     WHERE r.id = $1`,
+    [id]
+  );
+
+describe("release_project_earnings", () => {
+  it("should credit the doer and supervisor exactly once on completion", async () => {
+    const { projectId, doer, supervisor } = await deliveredProject();
+
+    await setStatus(projectId, "completed");
+
+    const doerEarnings = await earnings("doers", doer.id);
+    expect(Number(doerEarnings.balance)).toBe(600);
+    expect(Number(doerEarnings.total_credited)).toBe(600);
+    expect(Number(doerEarnings.total_earnings)).toBe(600);
+    expect(doerEarnings.transactions).toBe(1);
+
+    const supervisorEarnings = await earnings("supervisors", supervisor.id);
+    expect(Number(supervisorEarnings.balance)).toBe(150);
+    expect(Number(supervisorEarnings.total_earnings)).toBe(150);
+    expect(supervisorEarnings.transactions).toBe(1);
+  });
+
+  it("should not credit again when an auto-approved project is confirmed", async () => {
+    const { projectId, doer } = await deliveredProject();
+
+    await setStatus(projectId, "auto_approved");
+    await setStatus(projectId, "completed");
+
+    const doerEarnings = await earnings("doers", doer.id);
+    expect(Number(doerEarnings.balance)).toBe(600);
+    expect(Number(doerEarnings.total_earnings)).toBe(600);
+    expect(doerEarnings.transactions).toBe(1);
+  });
+});
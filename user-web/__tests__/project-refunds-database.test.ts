@@ -0,0 +1,98 @@
+import { afterAll, beforeAll, describe, it, expect } from "vitest";
+import type { PGlite } from "@electric-sql/pglite";
+import { actAs, createProfile, createProject, createTestDatabase, one } from "./helpers/database";
+
+let db: PGlite;
+
+beforeAll(async () => {
+  db = await createTestDatabase(["20261019_002", "20261019_020"]);
+});
+
+afterAll(async () => {
+  await db.close();
+});
+
+describe("process_project_refund", () => {
+  const refund = (projectId: string, userId: string, walletAmount: number, razorpayAmount: number) =>
+    one<{ result: { status: string; new_balance: number } }>(
+      db,
+      `SELECT process_project_refund(
+         $1, $2, $2, 'Changed my mind', 'in_progress', 1000, 0.5, $3, $4, 'pay_refund'
+       ) AS result`,
+      [projectId, userId, walletAmount, razorpayAmount]
+    );
+
+  it("should credit the wallet portion once and move the project to refunded", async () => {
+    const userId = await createProfile(db);
+    const projectId = await createProject(db, { userId, status: "in_progress", isPaid: true });
+    await actAs(db, null);
+
+    const { result } = await refund(projectId, userId, 300, 200);
+
+    expect(result).toMatchObject({ status: "refunded", new_balance: 300 });
+
+    const wallet = await one<{ balance: string; total_credited: string; refunds: number }>(
+      db,
+      `SELECT w.balance, w.total_credited,
+              (SELECT COUNT(*)::INT FROM wallet_transactions t WHERE t.wallet_id = w.id) AS refunds
+       FROM wallets w WHERE w.profile_id = $1`,
+      [userId]
+    );
+    expect(Number(wallet.balance)).toBe(300);
+    expect(Number(wallet.total_credited)).toBe(300);
+    expect(wallet.refunds).toBe(1);
+  });
+
+  it("should record one history row as a system move made on the user's behalf", async () => {
+    const userId = await createProfile(db);
+    const projectId = await createProject(db, { userId, status: "delivered", isPaid: true });
+    await actAs(db, null);
+
+    await refund(projectId, userId, 500, 0);
+
+    const history = await one<{
+      from_status: string;
+      to_status: string;
+      changed_by: string;
+      changed_by_type: string;
+      notes: string;
+    }>(
+      db,
+      `SELECT from_status::TEXT AS from_status, to_status::TEXT AS to_status,
+              changed_by, changed_by_type, notes
+       FROM project_status_history WHERE project_id = $1`,
+      [projectId]
+    );
+    expect(history).toEqual({
+      from_status: "delivered",
+      to_status: "refunded",
+      changed_by: userId,
+      changed_by_type: "system",
+      notes: "Changed my mind",
+    });
+
+    const project = await one<{ cancelled_by: string; doer_payout: string }>(
+      db,
+      "SELECT cancelled_by, doer_payout FROM projects WHERE id = $1",
+      [projectId]
+    );
+    expect(project.cancelled_by).toBe(userId);
+    expect(Number(project.doer_payout)).toBe(300);
+  });
+
+  it("should cancel without moving money when nothing is refunded", async () => {
+    const userId = await createProfile(db);
+    const projectId = await createProject(db, { userId, status: "qc_approved", isPaid: true });
+    await actAs(db, null);
+
+    const { result } = await refund(projectId, userId, 0, 0);
+
+    expect(result.status).toBe("cancelled");
+    const { balance } = await one<{ balance: string }>(
+      db,
+      "SELECT balance FROM wallets WHERE profile_id = $1",
+      [userId]
+    );
+    expect(Number(balance)).toBe(0);
+  });
+});
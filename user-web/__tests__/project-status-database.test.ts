@@ -0,0 +1,71 @@
+import { afterAll, beforeAll, describe, it, expect } from "vitest";
+import type { PGlite } from "@electric-sql/pglite";
+import { actAs, createProfile, createProject, createTestDatabase, one } from "./helpers/database";
+
+let db: PGlite;
+
+beforeAll(async () => {
+  db = await createTestDatabase(["20261019_020"]);
+});
+
+afterAll(async () => {
+  await db.close();
+});
+
+const projectStatus = async (projectId: string) =>
+  (await one<{ status: string }>(db, "SELECT status::TEXT AS status FROM projects WHERE id = $1", [projectId]))
+    .status;
+
+describe("transition_project_status", () => {
+  it("should let the project's owner make a user move", async () => {
+    const userId = await createProfile(db);
+    const projectId = await createProject(db, { userId, status: "draft" });
+    await actAs(db, userId);
+
+    const { result } = await one<{ result: { actor_role: string } }>(
+      db,
+      "SELECT transition_project_status($1, 'submitted') AS result",
+      [projectId]
+    );
+
+    expect(result.actor_role).toBe("user");
+    expect(await projectStatus(projectId)).toBe("submitted");
+  });
+});
+
+describe("guard_project_status_update", () => {
+  it("should let the service role cancel a paid project in progress", async () => {
+    const userId = await createProfile(db);
+    const refunded = await createProject(db, { userId, status: "in_progress", isPaid: true });
+    const cancelled = await createProject(db, { userId, status: "delivered", isPaid: true });
+    await actAs(db, null);
+
+    await db.query("SELECT transition_project_status($1, 'refunded', 'User cancelled')", [refunded]);
+    await db.query("SELECT transition_project_status($1, 'cancelled', 'User cancelled')", [cancelled]);
+
+    expect(await projectStatus(refunded)).toBe("refunded");
+    expect(await projectStatus(cancelled)).toBe("cancelled");
+  });
+
+  it("should not let the project's owner refund it through the state machine", async () => {
+    const userId = await createProfile(db);
+    const projectId = await createProject(db, { userId, status: "in_progress", isPaid: true });
+    await actAs(db, userId);
+
+    await expect(
+      db.query("SELECT transition_project_status($1, 'refunded')", [projectId])
+    ).rejects.toThrow("You can't move this project from in progress to refunded");
+  });
+
+  it("should hold direct writes by privileged code to the transition table", async () => {
+    const userId = await createProfile(db);
+    const projectId = await createProject(db, { userId, status: "in_progress", isPaid: true });
+
+    await expect(
+      db.query("UPDATE projects SET status = 'completed' WHERE id = $1", [projectId])
+    ).rejects.toThrow("A project can't move from in progress to completed");
+
+    await db.query("UPDATE projects SET status = 'refunded' WHERE id = $1", [projectId]);
+    expect(await projectStatus(projectId)).toBe("refunded");
+  });
+});
@@ -0,0 +1,200 @@
+import { afterAll, beforeAll, describe, it, expect } from "vitest";
+import type { PGlite } from "@electric-sql/pglite";
+import { actAs, createProfile, createProject, createTestDatabase, one } from "./helpers/database";
+
+let db: PGlite;
+
+beforeAll(async () => {
+  db = await createTestDatabase(["20261019_001"]);
+});
+
+afterAll(async () => {
+  await db.close();
+});
+
+describe("payments ledger", () => {
+  // What PostgREST sends for recordPayment's upsert({ onConflict: "gateway_payment_id" })
+  const upsertPayment = (userId: string, paymentId: string | null, status: string) =>
+    db.query(
+      `INSERT INTO payments (user_id, amount, gateway_payment_id, reference_type, status)
+       VALUES ($1, 499, $2, 'wallet_topup', $3::payment_status)
+       ON CONFLICT (gateway_payment_id) DO UPDATE
+       SET status = EXCLUDED.status, updated_at = NOW()`,
+      [userId, paymentId, status]
+    );
+
+  it("should upsert one row per Razorpay payment", async () => {
+    const userId = await createProfile(db);
+
+    await upsertPayment(userId, "pay_upsert1", "failed");
+    await upsertPayment(userId, "pay_upsert1", "completed");
+
+    const payment = await one<{ count: number; status: string }>(
+      db,
+      "SELECT COUNT(*)::INT AS count, MAX(status::TEXT) AS status FROM payments WHERE gateway_payment_id = 'pay_upsert1'"
+    );
+    expect(payment).toEqual({ count: 1, status: "completed" });
+  });
+
+  it("should keep rows without a Razorpay payment id apart", async () => {
+    const userId = await createProfile(db);
+
+    await upsertPayment(userId, null, "initiated");
+    await upsertPayment(userId, null, "initiated");
+
+    const { count } = await one<{ count: number }>(
+      db,
+      "SELECT COUNT(*)::INT AS count FROM payments WHERE user_id = $1",
+      [userId]
+    );
+    expect(count).toBe(2);
+  });
+});
+
+describe("process_wallet_topup", () => {
+  const topUp = (profileId: string, paymentId: string) =>
+    one<{ result: { success: boolean; already_processed: boolean; new_balance: number } }>(
+      db,
+      "SELECT process_wallet_topup($1, 500, 'order_topup', $2) AS result",
+      [profileId, paymentId]
+    );
+
+  it("should credit a payment once when it is applied twice", async () => {
+    const profileId = await createProfile(db);
+    await actAs(db, null);
+
+    const first = await topUp(profileId, "pay_topup1");
+    const second = await topUp(profileId, "pay_topup1");
+
+    expect(first.result).toMatchObject({ success: true, already_processed: false, new_balance: 500 });
+    expect(second.result).toMatchObject({ success: true, already_processed: true, new_balance: 500 });
+
+    const wallet = await one<{ balance: string; total_credited: string }>(
+      db,
+      "SELECT balance, total_credited FROM wallets WHERE profile_id = $1",
+      [profileId]
+    );
+    expect(Number(wallet.balance)).toBe(500);
+    expect(Number(wallet.total_credited)).toBe(500);
+
+    const transaction = await one<{
+      transaction_type: string;
+      balance_before: string;
+      balance_after: string;
+      notes: string;
+    }>(
+      db,
+      `SELECT t.transaction_type, t.balance_before, t.balance_after, t.notes
+       FROM wallet_transactions t JOIN wallets w ON w.id = t.wallet_id
+       WHERE w.profile_id = $1`,
+      [profileId]
+    );
+    expect(transaction).toMatchObject({ transaction_type: "top_up", notes: "pay_topup1" });
+    expect(Number(transaction.balance_before)).toBe(0);
+    expect(Number(transaction.balance_after)).toBe(500);
+  });
+
+  it("should add to the balance the wallet already has", async () => {
+    const profileId = await createProfile(db);
+    await actAs(db, null);
+
+    await topUp(profileId, "pay_topup2");
+    const { result } = await topUp(profileId, "pay_topup3");
+
+    expect(result).toMatchObject({ already_processed: false, new_balance: 1000 });
+  });
+});
+
+describe("project payments", () => {
+  type PaymentResult = { result: { already_processed: boolean; project_id: string } };
+
+  const payByRazorpay = (profileId: string, projectId: string, paymentId: string) =>
+    one<PaymentResult>(
+      db,
+      "SELECT process_razorpay_project_payment($1, $2, 1000, 'order_project', $3) AS result",
+      [profileId, projectId, paymentId]
+    );
+
+  const payPartially = (profileId: string, projectId: string, paymentId: string) =>
+    one<PaymentResult>(
+      db,
+      "SELECT process_partial_project_payment($1, $2, 1000, 300, 700, 'order_partial', $3) AS result",
+      [profileId, projectId, paymentId]
+    );
+
+  const projectState = (projectId: string) =>
+    one<{ status: string; is_paid: boolean; payment_id: string | null }>(
+      db,
+      "SELECT status::TEXT AS status, is_paid, payment_id FROM projects WHERE id = $1",
+      [projectId]
+    );
+
+  it("should apply a replayed Razorpay payment once", async () => {
+    const userId = await createProfile(db);
+    const projectId = await createProject(db, { userId, status: "payment_pending" });
+    const { id: paymentRecordId } = await one<{ id: string }>(
+      db,
+      `INSERT INTO payments (user_id, amount, gateway_payment_id, reference_type, reference_id, status)
+       VALUES ($1, 1000, 'pay_project1', 'project_payment', $2, 'completed') RETURNING id`,
+      [userId, projectId]
+    );
+    await actAs(db, userId);
+
+    const first = await payByRazorpay(userId, projectId, "pay_project1");
+    const second = await payByRazorpay(userId, projectId, "pay_project1");
+
+    expect(first.result.already_processed).toBe(false);
+    expect(second.result.already_processed).toBe(true);
+    expect(await projectState(projectId)).toEqual({
+      status: "paid",
+      is_paid: true,
+      payment_id: paymentRecordId,
+    });
+
+    const { count } = await one<{ count: number }>(
+      db,
+      "SELECT COUNT(*)::INT AS count FROM activity_logs WHERE target_id = $1 AND action = 'payment_verified'",
+      [projectId]
+    );
+    expect(count).toBe(1);
+  });
+
+  it("should debit the wallet once for a replayed partial payment", async () => {
+    const userId = await createProfile(db);
+    const projectId = await createProject(db, { userId });
+    await actAs(db, null);
+    await one(db, "SELECT process_wallet_topup($1, 500, 'order_seed', 'pay_seed_partial') AS result", [
+      userId,
+    ]);
+    await actAs(db, userId);
+
+    const first = await payPartially(userId, projectId, "pay_partial1");
+    const second = await payPartially(userId, projectId, "pay_partial1");
+
+    expect(first.result.already_processed).toBe(false);
+    expect(second.result.already_processed).toBe(true);
+    expect(await projectState(projectId)).toMatchObject({ status: "paid", is_paid: true });
+
+    const wallet = await one<{ balance: string; debits: number }>(
+      db,
+      `SELECT w.balance,
+              (SELECT COUNT(*)::INT FROM wallet_transactions t
+               WHERE t.wallet_id = w.id AND t.transaction_type = 'debit') AS debits
+       FROM wallets w WHERE w.profile_id = $1`,
+      [userId]
+    );
+    expect(Number(wallet.balance)).toBe(200);
+    expect(wallet.debits).toBe(1);
+  });
+
+  it("should not let another user pay for the project", async () => {
+    const userId = await createProfile(db);
+    const otherId = await createProfile(db);
+    const projectId = await createProject(db, { userId });
+    await actAs(db, otherId);
+
+    await expect(payByRazorpay(otherId, projectId, "pay_project2")).rejects.toThrow(
+      "Project not found or unauthorized"
+    );
+  });
+});
@@ -0,0 +1,193 @@
+import { beforeEach, describe, it, expect, vi } from "vitest";
+import {
+  applyRazorpayEvent,
+  type RazorpayPaymentEntity,
+  type RazorpayPaymentNotes,
+  type RazorpayWebhookEvent,
+} from "@/lib/razorpay/webhook";
+import { issueProjectInvoice } from "@/lib/invoices";
+import { notifyProjectEvent } from "@/lib/notifications/project-events";
+import { createFakeSupabase, type FakeSupabase } from "./helpers/fake-supabase";
+
+vi.mock("@/lib/invoices", () => ({ issueProjectInvoice: vi.fn() }));
+vi.mock("@/lib/notifications/project-events", () => ({ notifyProjectEvent: vi.fn() }));
+vi.mock("@/lib/expert-calendar", () => ({
+  notifyExpertOfSessionChange: vi.fn(),
+  scheduleBookingReminder: vi.fn(),
+}));
+
+const USER_ID = "0b8f6f4e-3d1a-4c3e-9a57-7f4c2d9e1a01";
+const PROJECT_ID = "7d1c2b3a-4e5f-4a6b-8c7d-9e0f1a2b3c4d";
+
+function paymentEntity(id: string, notes: RazorpayPaymentNotes, status = "captured"): RazorpayPaymentEntity {
+  return {
+    id,
+    entity: "payment",
+    amount: 100000,
+    currency: "INR",
+    status,
+    order_id: `order_${id}`,
+    method: "upi",
+    notes,
+    error_code: status === "failed" ? "BAD_REQUEST_ERROR" : null,
+    error_description: status === "failed" ? "Payment was declined" : null,
+    created_at: 1792400000,
+  };
+}
+
+function event(type: string, payment: RazorpayPaymentEntity, refundId?: string): RazorpayWebhookEvent {
+  return {
+    entity: "event",
+    account_id: "acc_test",
+    event: type,
+    contains: refundId ? ["refund", "payment"] : ["payment"],
+    payload: {
+      payment: { entity: payment },
+      ...(refundId && {
+        refund: {
+          entity: {
+            id: refundId,
+            entity: "refund",
+            amount: payment.amount,
+            currency: "INR",
+            payment_id: payment.id,
+            status: "processed",
+            created_at: 1792400600,
+          },
+        },
+      }),
+    },
+    created_at: 1792400000,
+  };
+}
+
+/**
+ * Fake database whose RPCs keep the exactly-once guarantees of the real ones
+ */
+function createPaymentsDatabase(): FakeSupabase {
+  const creditedTopUps = new Set<string>();
+  const fake: FakeSupabase = createFakeSupabase(
+    {
+      projects: [{ id: PROJECT_ID, user_id: USER_ID, is_paid: false }],
+      payments: [],
+      activity_logs: [],
+      project_refunds: [],
+    },
+    {
+      process_wallet_topup: ({ p_razorpay_payment_id }) => {
+        const alreadyProcessed = creditedTopUps.has(String(p_razorpay_payment_id));
+        creditedTopUps.add(String(p_razorpay_payment_id));
+        return { success: true, already_processed: alreadyProcessed };
+      },
+      process_razorpay_project_payment: ({ p_project_id }) => {
+        const project = fake.tables.projects.find((row) => row.id === p_project_id)!;
+        const alreadyProcessed = project.is_paid === true;
+        project.is_paid = true;
+        return { success: true, already_processed: alreadyProcessed, project_id: p_project_id };
+      },
+    }
+  );
+  return fake;
+}
+
+describe("applyRazorpayEvent", () => {
+  let db: FakeSupabase;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db = createPaymentsDatabase();
+  });
+
+  const paymentStatus = (paymentId: string) =>
+    db.tables.payments.filter((row) => row.gateway_payment_id === paymentId).map((row) => row.status);
+
+  describe("duplicate events", () => {
+    it("should credit a top-up once when payment.captured and order.paid both arrive", async () => {
+      const payment = paymentEntity("pay_dup_topup", { type: "wallet_topup", profile_id: USER_ID });
+
+      const first = await applyRazorpayEvent(db.client, event("payment.captured", payment));
+      const second = await applyRazorpayEvent(db.client, event("order.paid", payment));
+
+      expect(first.status).toBe("processed");
+      expect(second.status).toBe("ignored");
+      expect(paymentStatus("pay_dup_topup")).toEqual(["completed"]);
+    });
+
+    it("should mark a project paid, invoice and notify once", async () => {
+      const payment = paymentEntity("pay_dup_project", {
+        type: "project_payment",
+        project_id: PROJECT_ID,
+      });
+
+      const first = await applyRazorpayEvent(db.client, event("payment.captured", payment));
+      const second = await applyRazorpayEvent(db.client, event("payment.captured", payment));
+
+      expect(first.status).toBe("processed");
+      expect(second).toEqual({ status: "ignored", message: `Project ${PROJECT_ID} already paid` });
+      expect(paymentStatus("pay_dup_project")).toEqual(["completed"]);
+      expect(issueProjectInvoice).toHaveBeenCalledTimes(1);
+      expect(notifyProjectEvent).toHaveBeenCalledTimes(1);
+    });
+
+    it("should record a refund once", async () => {
+      const payment = paymentEntity("pay_dup_refund", { type: "wallet_topup", profile_id: USER_ID });
+      await applyRazorpayEvent(db.client, event("payment.captured", payment));
+
+      const first = await applyRazorpayEvent(db.client, event("refund.processed", payment, "rfnd_dup"));
+      const second = await applyRazorpayEvent(db.client, event("refund.processed", payment, "rfnd_dup"));
+
+      expect(first.status).toBe("processed");
+      expect(second).toEqual({ status: "ignored", message: "Refund rfnd_dup already recorded" });
+      expect(paymentStatus("pay_dup_refund")).toEqual(["refunded"]);
+    });
+  });
+
+  describe("out-of-order events", () => {
+    it("should keep a capture when payment.failed arrives after it", async () => {
+      const payment = paymentEntity("pay_late_failure", { type: "wallet_topup", profile_id: USER_ID });
+
+      await applyRazorpayEvent(db.client, event("payment.captured", payment));
+      await applyRazorpayEvent(
+        db.client,
+        event("payment.failed", { ...payment, status: "failed", error_code: "BAD_REQUEST_ERROR" })
+      );
+
+      expect(paymentStatus("pay_late_failure")).toEqual(["completed"]);
+      expect(db.tables.payments[0].failure_code).toBeNull();
+    });
+
+    it("should record a late capture of a payment that first failed", async () => {
+      const failed = paymentEntity("pay_late_capture", { type: "wallet_topup", profile_id: USER_ID }, "failed");
+
+      await applyRazorpayEvent(db.client, event("payment.failed", failed));
+      expect(paymentStatus("pay_late_capture")).toEqual(["failed"]);
+
+      await applyRazorpayEvent(db.client, event("payment.captured", { ...failed, status: "captured" }));
+      expect(paymentStatus("pay_late_capture")).toEqual(["completed"]);
+    });
+
+    it("should keep a refund when order.paid arrives after it", async () => {
+      const payment = paymentEntity("pay_late_order", { type: "wallet_topup", profile_id: USER_ID });
+
+      await applyRazorpayEvent(db.client, event("payment.captured", payment));
+      await applyRazorpayEvent(db.client, event("refund.processed", payment, "rfnd_late_order"));
+      await applyRazorpayEvent(db.client, event("order.paid", payment));
+
+      expect(paymentStatus("pay_late_order")).toEqual(["refunded"]);
+    });
+
+    it("should fail a refund that arrives before its capture so Razorpay redelivers it", async () => {
+      const payment = paymentEntity("pay_early_refund", { type: "wallet_topup", profile_id: USER_ID });
+
+      await expect(
+        applyRazorpayEvent(db.client, event("refund.processed", payment, "rfnd_early"))
+      ).rejects.toThrow("No payment recorded yet for refund rfnd_early");
+
+      await applyRazorpayEvent(db.client, event("payment.captured", payment));
+      const redelivered = await applyRazorpayEvent(db.client, event("refund.processed", payment, "rfnd_early"));
+
+      expect(redelivered.status).toBe("processed");
+      expect(paymentStatus("pay_early_refund")).toEqual(["refunded"]);
+    });
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, it, expect } from "vitest";
+import { splitRefund } from "@/lib/refund-policy";
+
+describe("splitRefund", () => {
+  it("should split in the proportion the project was charged", () => {
+    expect(splitRefund(500, { walletAmount: 300, razorpayAmount: 700 })).toEqual({
+      walletAmount: 150,
+      razorpayAmount: 350,
+    });
+  });
+
+  it("should send the whole refund to the wallet when no charges were recorded", () => {
+    // Projects paid before the ledgers existed: totalCharged falls back to the quote
+    expect(splitRefund(1000, { walletAmount: 0, razorpayAmount: 0 })).toEqual({
+      walletAmount: 1000,
+      razorpayAmount: 0,
+    });
+  });
+
+  it("should refund nothing when the refund is zero", () => {
+    expect(splitRefund(0, { walletAmount: 0, razorpayAmount: 0 })).toEqual({
+      walletAmount: 0,
+      razorpayAmount: 0,
+    });
+  });
+
+  it("should let the wallet absorb rounding", () => {
+    const split = splitRefund(100, { walletAmount: 100, razorpayAmount: 200 });
+    expect(split).toEqual({ walletAmount: 33.33, razorpayAmount: 66.67 });
+  });
+});
@@ -22,7 +22,7 @@ import {
   MessageSquare,
 } from "lucide-react";
 import { AnimatedCounter } from "@/components/ui/animated-counter";
-import { MasonryGrid, type ListingDisplay } from "@/components/marketplace";
+import { MasonryGrid, SavedSearchesSheet, type ListingDisplay } from "@/components/marketplace";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -46,7 +46,15 @@ import {
   getMarketplaceListings,
   toggleMarketplaceFavorite,
 } from "@/lib/actions/marketplace";
-import type { AnyListing, ListingType, MarketplaceCategory } from "@/types/marketplace";
+import type {
+  AnyListing,
+  DBListingType,
+  HousingType,
+  ListingType,
+  MarketplaceCategory,
+  ProductCondition,
+  SavedSearchFilters,
+} from "@/types/marketplace";
 import type { Tutor, Question } from "@/types/connect";
 import { BookSessionSheet } from "@/components/connect/book-session-sheet";
 import { TutorProfileSheet } from "@/components/connect/tutor-profile-sheet";
@@ -56,7 +64,7 @@ import { PageSkeletonProvider, StaggerItem } from "@/components/skeletons";
 import { MarketplaceSkeleton } from "@/components/skeletons/pages";
 
 // Type Maps
-const listingTypeToDbType: Record<ListingType, string> = {
+const listingTypeToDbType: Record<ListingType, DBListingType> = {
   product: "sell",
   housing: "housing",
   opportunity: "opportunity",
@@ -73,6 +81,47 @@ const categoryTabToMarketplace: Record<CategoryTab, MarketplaceCategory> = {
   housing: "housing",
 };
 
+const PRICE_MAX = 50000;
+
+const conditionOptions: { value: ProductCondition; label: string }[] = [
+  { value: "new", label: "New" },
+  { value: "like_new", label: "Like new" },
+  { value: "good", label: "Good" },
+  { value: "fair", label: "Fair" },
+];
+
+const housingTypeOptions: { value: HousingType; label: string }[] = [
+  { value: "single", label: "Single" },
+  { value: "shared", label: "Shared" },
+  { value: "flat", label: "Flat" },
+  { value: "pg", label: "PG" },
+  { value: "hostel", label: "Hostel" },
+];
+
+/**
+ * Category tab for the listing types of a saved search
+ */
+function categoryTabForListingTypes(types?: DBListingType[]): CategoryTab {
+  switch (types?.[0]) {
+    case "sell":
+    case "rent":
+    case "free":
+      return "product";
+    case "housing":
+      return "housing";
+    case "opportunity":
+      return "opportunity";
+    case "community_post":
+      return "community";
+    default:
+      return "all";
+  }
+}
+
+function toggleValue<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+}
+
 // Category Configuration matching design order
 interface CategoryConfig {
   id: CategoryTab;
@@ -141,8 +190,12 @@ export function ConnectPro() {
   const [selectedCategory, setSelectedCategory] = useState<CategoryTab>("all");
   const [priceRange, setPriceRange] = useState<[number, number]>([0, 50000]);
   const [universityOnly, setUniversityOnly] = useState(false);
+  const [conditions, setConditions] = useState<ProductCondition[]>([]);
+  const [housingTypes, setHousingTypes] = useState<HousingType[]>([]);
   const [filterSheetOpen, setFilterSheetOpen] = useState(false);
 
+  const isStudent = user?.user_type === "student" || user?.userType === "student";
+
   // Tutors state
   const [tutors] = useState<Tutor[]>([]);
   const [selectedTutor, setSelectedTutor] = useState<Tutor | null>(null);
@@ -175,6 +228,8 @@ export function ConnectPro() {
           ? (priceRange as [number, number])
           : undefined,
         universityOnly,
+        condition: selectedCategory === "product" && conditions.length ? conditions : undefined,
+        housingTypes: selectedCategory === "housing" && housingTypes.length ? housingTypes : undefined,
       };
 
       const { data, error: fetchError } = await getMarketplaceListings(filters);
@@ -206,7 +261,7 @@ export function ConnectPro() {
     } finally {
       setIsLoading(false);
     }
-  }, [selectedCategory, searchQuery, priceRange, universityOnly]);
+  }, [selectedCategory, searchQuery, priceRange, universityOnly, conditions, housingTypes]);
 
   useEffect(() => {
     fetchListings();
@@ -255,15 +310,41 @@ export function ConnectPro() {
     setSelectedCategory("all");
     setPriceRange([0, 50000]);
     setUniversityOnly(false);
+    setConditions([]);
+    setHousingTypes([]);
     setFilterSheetOpen(false);
   };
 
+  // Current filters in saved search form
+  const savedSearchFilters = useMemo<SavedSearchFilters>(() => ({
+    listingTypes: selectedCategory === "all" ? undefined : [listingTypeToDbType[selectedCategory]],
+    conditions: selectedCategory === "product" && conditions.length ? conditions : undefined,
+    housingTypes: selectedCategory === "housing" && housingTypes.length ? housingTypes : undefined,
+    minPrice: priceRange[0] > 0 ? priceRange[0] : undefined,
+    maxPrice: priceRange[1] < PRICE_MAX ? priceRange[1] : undefined,
+    universityOnly: universityOnly || undefined,
+    keywords: searchQuery.trim() || undefined,
+  }), [selectedCategory, conditions, housingTypes, priceRange, universityOnly, searchQuery]);
+
+  const applySavedSearch = (filters: SavedSearchFilters) => {
+    setSelectedCategory(categoryTabForListingTypes(filters.listingTypes));
+    setConditions(
+      (filters.conditions ?? []).filter((c): c is ProductCondition => c !== "poor")
+    );
+    setHousingTypes(filters.housingTypes ?? []);
+    setPriceRange([filters.minPrice ?? 0, filters.maxPrice ?? PRICE_MAX]);
+    setUniversityOnly(!!filters.universityOnly);
+    setSearchQuery(filters.keywords ?? "");
+  };
+
   const hasActiveFilters =
     searchQuery ||
     selectedCategory !== "all" ||
     priceRange[0] > 0 ||
     priceRange[1] < 50000 ||
-    universityOnly;
+    universityOnly ||
+    conditions.length > 0 ||
+    housingTypes.length > 0;
 
   // Handle tutor actions
   const handleBookSession = (tutor: Tutor) => {
@@ -385,6 +466,42 @@ export function ConnectPro() {
                         <span>₹{priceRange[1].toLocaleString()}</span>
                       </div>
                     </div>
+                    {selectedCategory === "product" && (
+                      <div className="space-y-3">
+                        <Label className="text-sm font-medium">Condition</Label>
+                        <div className="flex flex-wrap gap-2">
+                          {conditionOptions.map((option) => (
+                            <Button
+                              key={option.value}
+                              size="sm"
+                              variant={conditions.includes(option.value) ? "default" : "outline"}
+                              className="rounded-full"
+                              onClick={() => setConditions((prev) => toggleValue(prev, option.value))}
+                            >
+                              {option.label}
+                            </Button>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                    {selectedCategory === "housing" && (
+                      <div className="space-y-3">
+                        <Label className="text-sm font-medium">Housing Type</Label>
+                        <div className="flex flex-wrap gap-2">
+                          {housingTypeOptions.map((option) => (
+                            <Button
+                              key={option.value}
+                              size="sm"
+                              variant={housingTypes.includes(option.value) ? "default" : "outline"}
+                              className="rounded-full"
+                              onClick={() => setHousingTypes((prev) => toggleValue(prev, option.value))}
+                            >
+                              {option.label}
+                            </Button>
+                          ))}
+                        </div>
+                      </div>
+                    )}
                     <div className="flex gap-3 pt-2">
                       <Button variant="outline" className="flex-1" onClick={clearFilters}>
                         Clear All
@@ -396,6 +513,12 @@ export function ConnectPro() {
                   </div>
                 </SheetContent>
               </Sheet>
+              <SavedSearchesSheet
+                filters={savedSearchFilters}
+                canSearchHousing={isStudent}
+                isSignedIn={!!user?.id}
+                onApply={applySavedSearch}
+              />
             </div>
           </div>
         </div>
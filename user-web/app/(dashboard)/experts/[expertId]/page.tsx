@@ -1,6 +1,6 @@
 "use client";
 
-import { use, useState } from "react";
+import { use, useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { motion } from "framer-motion";
 import { format } from "date-fns";
@@ -17,6 +17,7 @@ import {
   Briefcase,
   Flag,
   ThumbsUp,
+  Loader2,
 } from "lucide-react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
@@ -26,8 +27,8 @@ import { Separator } from "@/components/ui/separator";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { cn } from "@/lib/utils";
 import { formatINR } from "@/lib/utils";
-import { getExpertById, getExpertReviews } from "@/lib/data/experts";
-import type { ExpertSpecialization } from "@/types/expert";
+import { getExpert } from "@/lib/actions/experts";
+import type { Expert, ExpertReview, ExpertSpecialization } from "@/types/expert";
 
 /**
  * Specialization labels
@@ -60,8 +61,26 @@ export default function ExpertProfilePage({
   const router = useRouter();
   const [activeTab, setActiveTab] = useState("about");
 
-  const expert = getExpertById(resolvedParams.expertId);
-  const reviews = getExpertReviews(resolvedParams.expertId);
+  const [expert, setExpert] = useState<Expert | null>(null);
+  const [reviews, setReviews] = useState<ExpertReview[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    getExpert(resolvedParams.expertId)
+      .then((result) => {
+        setExpert(result?.expert ?? null);
+        setReviews(result?.reviews ?? []);
+      })
+      .finally(() => setIsLoading(false));
+  }, [resolvedParams.expertId]);
+
+  if (isLoading) {
+    return (
+      <div className="container max-w-4xl mx-auto px-4 py-6 flex justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
 
   // Handle expert not found
   if (!expert) {
@@ -5,7 +5,7 @@
  * Features improved step indicator and clean card design
  */
 
-import { use, useState } from "react";
+import { use, useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { motion, AnimatePresence } from "framer-motion";
 import { format } from "date-fns";
@@ -23,6 +23,7 @@ import {
   BadgeCheck,
   Star,
   Sparkles,
+  Wallet,
 } from "lucide-react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
@@ -40,15 +41,19 @@ import {
 import { cn } from "@/lib/utils";
 import { formatINR } from "@/lib/utils";
 import { BookingCalendar, PriceBreakdown } from "@/components/experts";
-import { getExpertById } from "@/lib/data/experts";
+import { getExpert, bookExpertSession, releaseExpertBookingHold } from "@/lib/actions/experts";
+import { walletService } from "@/services";
+import { useUserStore, useWalletStore } from "@/stores";
 import { toast } from "sonner";
-import type { TimeSlot } from "@/types/expert";
+import type { Expert, TimeSlot } from "@/types/expert";
 
 /**
  * Booking steps configuration
  */
 type BookingStep = "datetime" | "details" | "payment";
 
+type PaymentMethod = "wallet" | "razorpay";
+
 const STEPS = [
   { key: "datetime", label: "Date & Time", icon: Calendar, emoji: "📅" },
   { key: "details", label: "Details", icon: MessageSquare, emoji: "📝" },
@@ -73,9 +78,28 @@ export default function ExpertBookingPage({
   const [notes, setNotes] = useState("");
   const [isProcessingPayment, setIsProcessingPayment] = useState(false);
   const [showConfirmation, setShowConfirmation] = useState(false);
-  const [bookingId, setBookingId] = useState<string | null>(null);
-
-  const expert = getExpertById(resolvedParams.expertId);
+  const [bookingNumber, setBookingNumber] = useState<string | null>(null);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>("razorpay");
+  const [expert, setExpert] = useState<Expert | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const { user } = useUserStore();
+  const { balance: walletBalance, fetchWallet } = useWalletStore();
+
+  useEffect(() => {
+    getExpert(resolvedParams.expertId)
+      .then((result) => setExpert(result?.expert ?? null))
+      .finally(() => setIsLoading(false));
+    fetchWallet();
+  }, [resolvedParams.expertId, fetchWallet]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
 
   // Handle expert not found
   if (!expert) {
@@ -111,6 +135,10 @@ export default function ExpertBookingPage({
       .slice(0, 2);
   };
 
+  const sessionDuration = selectedTimeSlot?.duration ?? 60;
+  const sessionAmount = selectedTimeSlot?.price ?? expert.pricePerSession;
+  const canPayFromWallet = walletBalance >= sessionAmount;
+
   /**
    * Get current step index
    */
@@ -173,24 +201,115 @@ export default function ExpertBookingPage({
     }
   };
 
+  /**
+   * Load Razorpay script
+   */
+  const loadRazorpayScript = (): Promise<boolean> => {
+    return new Promise((resolve) => {
+      if (window.Razorpay) {
+        resolve(true);
+        return;
+      }
+
+      const script = document.createElement("script");
+      script.src = "https://checkout.razorpay.com/v1/checkout.js";
+      script.onload = () => resolve(true);
+      script.onerror = () => resolve(false);
+      document.body.appendChild(script);
+    });
+  };
+
+  /**
+   * Opens Razorpay for a booking that is holding its slot.
+   * Resolves once the payment is verified or the checkout is dismissed.
+   */
+  const payWithRazorpay = async (bookingId: string, amount: number): Promise<boolean> => {
+    const loaded = await loadRazorpayScript();
+    if (!loaded) throw new Error("Failed to load payment gateway");
+
+    const order = await walletService.createExpertBookingOrder(bookingId, amount);
+
+    return new Promise((resolve, reject) => {
+      const razorpay = new window.Razorpay({
+        key: process.env.NEXT_PUBLIC_RAZORPAY_KEY_ID!,
+        amount: order.amount,
+        currency: order.currency,
+        name: "AssignX",
+        description: `Consultation with ${expert.name}`,
+        order_id: order.id,
+        prefill: {
+          name: user?.full_name || undefined,
+          email: user?.email,
+        },
+        theme: {
+          color: "#2563EB",
+        },
+        handler: async (response) => {
+          try {
+            const result = await walletService.verifyExpertBookingPayment(
+              user!.id,
+              bookingId,
+              response,
+              amount
+            );
+            if (result.status !== "confirmed") {
+              reject(new Error(result.message));
+              return;
+            }
+            resolve(true);
+          } catch (error) {
+            reject(error);
+          }
+        },
+        modal: {
+          ondismiss: () => {
+            // Free the slot straight away instead of waiting for the hold to lapse
+            releaseExpertBookingHold(bookingId);
+            resolve(false);
+          },
+        },
+      });
+
+      razorpay.open();
+    });
+  };
+
   /**
    * Handle payment processing
    */
   const handlePayment = async () => {
+    if (!selectedTimeSlot || !user) return;
+
     setIsProcessingPayment(true);
 
     try {
-      // Simulate payment processing
-      await new Promise((resolve) => setTimeout(resolve, 2000));
-
-      // Generate booking ID
-      const newBookingId = `BOOK-${Date.now()}`;
-      setBookingId(newBookingId);
+      const result = await bookExpertSession({
+        slotId: selectedTimeSlot.id,
+        topic,
+        notes,
+        paymentMethod,
+      });
+
+      if ("error" in result) {
+        toast.error(result.error);
+        return;
+      }
+
+      if (result.status === "pending") {
+        const paid = await payWithRazorpay(result.bookingId, result.totalAmount);
+        if (!paid) {
+          toast.info("Payment cancelled. The slot has been released.");
+          return;
+        }
+      }
+
+      setBookingNumber(result.bookingNumber);
       setShowConfirmation(true);
+      fetchWallet();
 
-      toast.success("Booking confirmed! Check your email for details.");
+      toast.success("Booking confirmed!");
     } catch (error) {
-      toast.error("Payment failed. Please try again.");
+      toast.error(error instanceof Error ? error.message : "Payment failed. Please try again.");
     } finally {
       setIsProcessingPayment(false);
     }
@@ -447,7 +566,7 @@ export default function ExpertBookingPage({
                             <Clock className="h-4 w-4 text-stone-500" />
                           </div>
                           <span>
-                            {selectedTimeSlot?.displayTime} (60 min)
+                            {selectedTimeSlot?.displayTime} ({sessionDuration} min)
                           </span>
                         </div>
                         <div className="flex items-center gap-3 text-sm">
@@ -468,7 +587,7 @@ export default function ExpertBookingPage({
 
                   {/* Price Breakdown */}
                   <PriceBreakdown
-                    totalAmount={expert.pricePerSession}
+                    totalAmount={sessionAmount}
                     currency="INR"
                     showDetails
                   />
@@ -481,8 +600,40 @@ export default function ExpertBookingPage({
                         Payment Method
                       </h3>
                     </div>
-                    <div className="p-5">
-                      <div className="flex items-center gap-3 p-4 rounded-xl border-2 border-violet-200 dark:border-violet-800 bg-violet-50 dark:bg-violet-950/30">
+                    <div className="p-5 space-y-3">
+                      <button
+                        type="button"
+                        onClick={() => canPayFromWallet && setPaymentMethod("wallet")}
+                        disabled={!canPayFromWallet}
+                        className={cn(
+                          "w-full flex items-center gap-3 p-4 rounded-xl border-2 text-left transition-colors",
+                          paymentMethod === "wallet"
+                            ? "border-violet-200 dark:border-violet-800 bg-violet-50 dark:bg-violet-950/30"
+                            : "border-stone-200 dark:border-stone-800",
+                          !canPayFromWallet && "opacity-50 cursor-not-allowed"
+                        )}
+                      >
+                        <div className="h-10 w-10 rounded-lg bg-violet-100 dark:bg-violet-900/50 flex items-center justify-center">
+                          <Wallet className="h-5 w-5 text-violet-600 dark:text-violet-400" />
+                        </div>
+                        <div className="flex-1">
+                          <p className="font-medium text-sm">Wallet</p>
+                          <p className="text-xs text-muted-foreground">
+                            Balance {formatINR(walletBalance)}
+                            {!canPayFromWallet && " - insufficient"}
+                          </p>
+                        </div>
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setPaymentMethod("razorpay")}
+                        className={cn(
+                          "w-full flex items-center gap-3 p-4 rounded-xl border-2 text-left transition-colors",
+                          paymentMethod === "razorpay"
+                            ? "border-violet-200 dark:border-violet-800 bg-violet-50 dark:bg-violet-950/30"
+                            : "border-stone-200 dark:border-stone-800"
+                        )}
+                      >
                         <div className="h-10 w-10 rounded-lg bg-violet-100 dark:bg-violet-900/50 flex items-center justify-center">
                           <CreditCard className="h-5 w-5 text-violet-600 dark:text-violet-400" />
                         </div>
@@ -495,7 +646,7 @@ export default function ExpertBookingPage({
                         <span className="px-2 py-1 rounded-full bg-emerald-100 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-300 text-xs font-medium">
                           Secure
                         </span>
-                      </div>
+                      </button>
                     </div>
                   </div>
                 </motion.div>
@@ -528,7 +679,7 @@ export default function ExpertBookingPage({
                   </>
                 ) : currentStep === "payment" ? (
                   <>
-                    Pay {formatINR(expert.pricePerSession)}
+                    Pay {formatINR(sessionAmount)}
                     <Sparkles className="h-4 w-4" />
                   </>
                 ) : (
@@ -618,7 +769,7 @@ export default function ExpertBookingPage({
                 <div className="h-8 w-8 rounded-lg bg-emerald-100 dark:bg-emerald-900/30 flex items-center justify-center">
                   <Clock className="h-4 w-4 text-emerald-600 dark:text-emerald-400" />
                 </div>
-                <span className="text-muted-foreground">60 minute duration</span>
+                <span className="text-muted-foreground">{sessionDuration} minute duration</span>
               </div>
             </div>
           </div>
@@ -641,7 +792,7 @@ export default function ExpertBookingPage({
             <div className="space-y-4 py-4">
               <div className="text-center p-3 rounded-xl bg-stone-100 dark:bg-stone-800">
                 <p className="text-xs text-muted-foreground mb-1">Booking ID</p>
-                <p className="font-mono font-medium">{bookingId}</p>
+                <p className="font-mono font-medium">{bookingNumber}</p>
               </div>
               <div className="rounded-xl border border-stone-200 dark:border-stone-800 divide-y divide-stone-200 dark:divide-stone-800">
                 <div className="flex justify-between p-3 text-sm">
@@ -663,13 +814,12 @@ export default function ExpertBookingPage({
                 <div className="flex justify-between p-3 text-sm">
                   <span className="text-muted-foreground">Amount Paid</span>
                   <span className="font-medium text-emerald-600 dark:text-emerald-400">
-                    {formatINR(expert.pricePerSession)}
+                    {formatINR(sessionAmount)}
                   </span>
                 </div>
               </div>
               <p className="text-xs text-muted-foreground text-center">
-                A confirmation email with the Google Meet link has been sent to
-                your registered email address.
+                The meeting link is available under My Consultations.
               </p>
             </div>
             <DialogFooter className="flex-col sm:flex-row gap-2">
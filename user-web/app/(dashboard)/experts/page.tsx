@@ -5,7 +5,7 @@
  * Features: Mesh background, glassmorphic cards, proper spacing
  */
 
-import { useState, useMemo, useCallback } from "react";
+import { useState, useMemo, useCallback, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { motion, AnimatePresence } from "framer-motion";
 import {
@@ -17,23 +17,15 @@ import {
   MyBookings,
   ExpertCard,
   SpecializationFilter,
+  CancelBookingDialog,
+  RescheduleBookingDialog,
+  CalendarFeedDialog,
 } from "@/components/experts";
 import type { ExpertsTabType } from "@/components/experts";
-import {
-  MOCK_EXPERTS,
-  MOCK_BOOKINGS,
-  getFeaturedExperts,
-} from "@/lib/data/experts";
-import type { Expert, ExpertSpecialization } from "@/types/expert";
+import { listExperts, getMyExpertBookings } from "@/lib/actions/experts";
+import type { ConsultationBooking, Expert, ExpertSpecialization } from "@/types/expert";
 import { cn } from "@/lib/utils";
 
-/**
- * Filter doctors (experts with medicine specialization)
- */
-function getDoctors(experts: Expert[]): Expert[] {
-  return experts.filter((e) => e.specializations.includes("medicine"));
-}
-
 /**
  * Get time-based gradient class - matching projects-pro
  */
@@ -97,22 +89,40 @@ export default function ExpertsPage() {
     ExpertSpecialization | "all"
   >("all");
 
-  // Get featured doctors for carousel
-  const featuredDoctors = useMemo(() => {
-    return getFeaturedExperts().filter((e) =>
-      e.specializations.includes("medicine")
-    );
+  // Data
+  const [allDoctors, setAllDoctors] = useState<Expert[]>([]);
+  const [experts, setExperts] = useState<Expert[]>([]);
+  const [bookings, setBookings] = useState<ConsultationBooking[]>([]);
+  const [bookingToCancel, setBookingToCancel] = useState<ConsultationBooking | null>(null);
+  const [bookingToReschedule, setBookingToReschedule] = useState<ConsultationBooking | null>(null);
+
+  const loadBookings = useCallback(() => {
+    getMyExpertBookings().then(setBookings);
   }, []);
 
-  // Get all doctors
-  const allDoctors = useMemo(() => getDoctors(MOCK_EXPERTS), []);
+  // Doctors are experts with the medicine specialization
+  useEffect(() => {
+    listExperts({ specialization: "medicine" }).then(setAllDoctors);
+    loadBookings();
+  }, [loadBookings]);
+
+  useEffect(() => {
+    listExperts({
+      specialization: selectedExpertSpec === "all" ? undefined : selectedExpertSpec,
+    }).then(setExperts);
+  }, [selectedExpertSpec]);
+
+  // Get featured doctors for carousel
+  const featuredDoctors = useMemo(() => {
+    return allDoctors.filter((e) => e.featured);
+  }, [allDoctors]);
 
   // Get user bookings count for tab badge
   const bookingsCount = useMemo(() => {
-    return MOCK_BOOKINGS.filter(
+    return bookings.filter(
       (b) => b.status === "upcoming" || b.status === "in_progress"
     ).length;
-  }, []);
+  }, [bookings]);
 
   /**
    * Filter doctors by search and specialization
@@ -135,10 +145,10 @@ export default function ExpertsPage() {
   }, [allDoctors, searchQuery, selectedMedicalSpec]);
 
   /**
-   * Filter all experts by search and specialization
+   * Filter experts by search (specialization is filtered by listExperts)
    */
   const filteredExperts = useMemo(() => {
-    let result = [...MOCK_EXPERTS];
+    let result = [...experts];
 
     // Search filter
     if (searchQuery.trim()) {
@@ -151,15 +161,8 @@ export default function ExpertsPage() {
       );
     }
 
-    // Specialization filter
-    if (selectedExpertSpec !== "all") {
-      result = result.filter((expert) =>
-        expert.specializations.includes(selectedExpertSpec)
-      );
-    }
-
     return result;
-  }, [searchQuery, selectedExpertSpec]);
+  }, [experts, searchQuery]);
 
   /**
    * Handle doctor click - navigate to profile
@@ -188,21 +191,38 @@ export default function ExpertsPage() {
     console.log("Message booking:", bookingId);
   }, []);
 
-  const handleReschedule = useCallback((bookingId: string) => {
-    console.log("Reschedule booking:", bookingId);
-  }, []);
+  const handleReschedule = useCallback(
+    (bookingId: string) => {
+      setBookingToReschedule(bookings.find((b) => b.id === bookingId) ?? null);
+    },
+    [bookings]
+  );
 
-  const handleCancelBooking = useCallback((bookingId: string) => {
-    console.log("Cancel booking:", bookingId);
+  const handleCancelBooking = useCallback(
+    (bookingId: string) => {
+      setBookingToCancel(bookings.find((b) => b.id === bookingId) ?? null);
+    },
+    [bookings]
+  );
+
+  const handleCancelDialogChange = useCallback((open: boolean) => {
+    if (!open) setBookingToCancel(null);
   }, []);
 
-  const handleJoinSession = useCallback((bookingId: string) => {
-    const booking = MOCK_BOOKINGS.find((b) => b.id === bookingId);
-    if (booking?.meetLink) {
-      window.open(booking.meetLink, "_blank");
-    }
+  const handleRescheduleDialogChange = useCallback((open: boolean) => {
+    if (!open) setBookingToReschedule(null);
   }, []);
 
+  const handleJoinSession = useCallback(
+    (bookingId: string) => {
+      const booking = bookings.find((b) => b.id === bookingId);
+      if (booking?.meetLink) {
+        window.open(booking.meetLink, "_blank");
+      }
+    },
+    [bookings]
+  );
+
   /**
    * Handle search from hero
    */
@@ -359,8 +379,11 @@ export default function ExpertsPage() {
                   animate="visible"
                   exit="exit"
                 >
+                  <div className="flex justify-end mb-4">
+                    <CalendarFeedDialog />
+                  </div>
                   <MyBookings
-                    bookings={MOCK_BOOKINGS}
+                    bookings={bookings}
                     onMessage={handleMessage}
                     onReschedule={handleReschedule}
                     onCancel={handleCancelBooking}
@@ -372,6 +395,17 @@ export default function ExpertsPage() {
           </div>
         </div>
       </div>
+
+      <CancelBookingDialog
+        booking={bookingToCancel}
+        onOpenChange={handleCancelDialogChange}
+        onCancelled={loadBookings}
+      />
+      <RescheduleBookingDialog
+        booking={bookingToReschedule}
+        onOpenChange={handleRescheduleDialogChange}
+        onRescheduled={loadBookings}
+      />
     </>
   );
 }
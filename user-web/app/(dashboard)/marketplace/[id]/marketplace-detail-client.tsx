@@ -20,6 +20,8 @@ import {
   BadgeCheck,
   Flag,
   Send,
+  Inbox,
+  Loader2,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -34,7 +36,9 @@ import {
 } from "@/components/ui/sheet";
 import { Textarea } from "@/components/ui/textarea";
 import { cn } from "@/lib/utils";
-import { toggleMarketplaceFavorite } from "@/lib/actions/marketplace";
+import { startListingInquiry, toggleMarketplaceFavorite } from "@/lib/actions/marketplace";
+import { InquiryThread } from "@/components/marketplace";
+import { ReportDialog } from "@/components/campus-connect/report-dialog";
 import { toast } from "sonner";
 import { formatDistanceToNow } from "date-fns";
 import type {
@@ -42,11 +46,15 @@ import type {
   ProductListing,
   HousingListing,
   OpportunityListing,
+  ListingInquiry,
+  ListingStatus,
 } from "@/types/marketplace";
 
 interface MarketplaceDetailClientProps {
   listing: AnyListing;
   userId?: string;
+  /** The user's existing conversation with the seller */
+  inquiry?: ListingInquiry | null;
 }
 
 /**
@@ -112,12 +120,19 @@ function formatPrice(listing: AnyListing): string | null {
 export function MarketplaceDetailClient({
   listing,
   userId,
+  inquiry,
 }: MarketplaceDetailClientProps) {
   const router = useRouter();
   const [isFavorited, setIsFavorited] = useState(listing.isLiked || false);
   const [isToggling, setIsToggling] = useState(false);
   const [contactSheetOpen, setContactSheetOpen] = useState(false);
   const [message, setMessage] = useState("");
+  const [thread, setThread] = useState<ListingInquiry | null>(inquiry ?? null);
+  const [isStarting, setIsStarting] = useState(false);
+  const [isReportOpen, setIsReportOpen] = useState(false);
+  const [isReported, setIsReported] = useState(false);
+  const [listingStatus, setListingStatus] = useState<ListingStatus>(listing.status ?? "active");
+  const isOwner = !!userId && userId === listing.userId;
 
   const config = getListingConfig(listing.type);
   const Icon = config.icon;
@@ -152,6 +167,14 @@ export function MarketplaceDetailClient({
     setIsToggling(false);
   };
 
+  const handleReport = () => {
+    if (!userId) {
+      toast.error("Please sign in to report listings");
+      return;
+    }
+    setIsReportOpen(true);
+  };
+
   const handleShare = async () => {
     try {
       await navigator.share({
@@ -165,11 +188,27 @@ export function MarketplaceDetailClient({
     }
   };
 
-  const handleSendMessage = () => {
+  const handleSendMessage = async () => {
     if (!message.trim()) return;
+    if (!userId) {
+      toast.error("Please sign in to message the seller");
+      return;
+    }
+
+    setIsStarting(true);
+    const { data, error } = await startListingInquiry(listing.id, message);
+    setIsStarting(false);
+
+    if (data) {
+      setThread(data);
+    }
+    if (error) {
+      toast.error(error);
+      return;
+    }
+
     toast.success("Message sent to seller");
     setMessage("");
-    setContactSheetOpen(false);
   };
 
   return (
@@ -380,11 +419,27 @@ export function MarketplaceDetailClient({
               </div>
             </div>
 
+            {listingStatus === "reserved" && (
+              <p className="mb-3 rounded-lg bg-amber-50 px-3 py-2 text-xs text-amber-700 dark:bg-amber-900/20 dark:text-amber-300">
+                {listing.reservedFor === userId
+                  ? "Reserved for you. Arrange the handover with the seller."
+                  : "This listing is reserved for another buyer."}
+              </p>
+            )}
+
+            {isOwner ? (
+              <Button asChild variant="outline" className="w-full">
+                <Link href="/marketplace/inquiries">
+                  <Inbox className="h-4 w-4 mr-2" />
+                  View inquiries
+                </Link>
+              </Button>
+            ) : (
             <Sheet open={contactSheetOpen} onOpenChange={setContactSheetOpen}>
               <SheetTrigger asChild>
                 <Button className="w-full">
                   <MessageCircle className="h-4 w-4 mr-2" />
-                  Contact Seller
+                  {thread ? "Open Conversation" : "Contact Seller"}
                 </Button>
               </SheetTrigger>
               <SheetContent side="bottom" className="h-auto max-h-[80vh] rounded-t-xl">
@@ -410,23 +465,39 @@ export function MarketplaceDetailClient({
                       </p>
                     </div>
                   </div>
-                  <Textarea
-                    placeholder={`Hi, I'm interested in "${listing.title}"...`}
-                    value={message}
-                    onChange={(e) => setMessage(e.target.value)}
-                    className="min-h-[120px] resize-none"
-                  />
-                  <Button
-                    className="w-full"
-                    onClick={handleSendMessage}
-                    disabled={!message.trim()}
-                  >
-                    <Send className="h-4 w-4 mr-2" />
-                    Send Message
-                  </Button>
+                  {thread && userId ? (
+                    <InquiryThread
+                      inquiry={thread}
+                      userId={userId}
+                      listingStatus={listingStatus}
+                      onListingReserved={() => setListingStatus("reserved")}
+                    />
+                  ) : (
+                    <>
+                      <Textarea
+                        placeholder={`Hi, I'm interested in "${listing.title}"...`}
+                        value={message}
+                        onChange={(e) => setMessage(e.target.value)}
+                        className="min-h-[120px] resize-none"
+                      />
+                      <Button
+                        className="w-full"
+                        onClick={handleSendMessage}
+                        disabled={!message.trim() || isStarting}
+                      >
+                        {isStarting ? (
+                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        ) : (
+                          <Send className="h-4 w-4 mr-2" />
+                        )}
+                        Send Message
+                      </Button>
+                    </>
+                  )}
                 </div>
               </SheetContent>
             </Sheet>
+            )}
           </div>
 
           {/* Safety tips */}
@@ -441,14 +512,24 @@ export function MarketplaceDetailClient({
           </div>
 
           {/* Report button */}
-          <Button
-            variant="ghost"
-            className="w-full text-muted-foreground"
-            size="sm"
-          >
-            <Flag className="h-4 w-4 mr-2" />
-            Report this listing
-          </Button>
+          {!isOwner && (
+            <Button
+              variant="ghost"
+              className="w-full text-muted-foreground"
+              size="sm"
+              onClick={handleReport}
+              disabled={isReported}
+            >
+              <Flag className="h-4 w-4 mr-2" />
+              {isReported ? "Reported" : "Report this listing"}
+            </Button>
+          )}
+          <ReportDialog
+            listingId={listing.id}
+            isOpen={isReportOpen}
+            onOpenChange={setIsReportOpen}
+            onSuccess={() => setIsReported(true)}
+          />
         </div>
       </div>
     </div>
@@ -1,5 +1,5 @@
 import { notFound } from "next/navigation";
-import { getMarketplaceListingById } from "@/lib/actions/marketplace";
+import { getMarketplaceListingById, getMyListingInquiry } from "@/lib/actions/marketplace";
 import { getUser } from "@/lib/actions/auth";
 import { MarketplaceDetailClient } from "./marketplace-detail-client";
 
@@ -18,13 +18,16 @@ export default async function MarketplaceDetailPage({
   // Get current user (optional - can view without auth)
   const user = await getUser();
 
-  // Fetch listing from database
-  const { data: listing, error } = await getMarketplaceListingById(id);
+  // Fetch listing from database, with the user's conversation about it
+  const [{ data: listing, error }, { data: inquiry }] = await Promise.all([
+    getMarketplaceListingById(id),
+    getMyListingInquiry(id),
+  ]);
 
   // 404 if listing not found
   if (!listing || error) {
     notFound();
   }
 
-  return <MarketplaceDetailClient listing={listing} userId={user?.id} />;
+  return <MarketplaceDetailClient listing={listing} userId={user?.id} inquiry={inquiry} />;
 }
@@ -0,0 +1,33 @@
+import { redirect } from "next/navigation";
+import { getUser } from "@/lib/actions/auth";
+import { getSellerInquiryInbox } from "@/lib/actions/marketplace";
+import { SellerInquiryInbox } from "@/components/marketplace";
+
+interface InquiriesPageProps {
+  searchParams: Promise<{ inquiry?: string }>;
+}
+
+/**
+ * Seller inbox of marketplace inquiries, grouped by listing
+ */
+export default async function InquiriesPage({ searchParams }: InquiriesPageProps) {
+  const user = await getUser();
+  if (!user) {
+    redirect("/login");
+  }
+
+  const { inquiry } = await searchParams;
+  const { data: groups } = await getSellerInquiryInbox();
+
+  return (
+    <div className="flex-1 p-6 md:p-8 max-w-6xl mx-auto w-full">
+      <div className="mb-6">
+        <h1 className="text-2xl font-semibold">Inquiries</h1>
+        <p className="text-sm text-muted-foreground">
+          Messages and offers from buyers on your listings
+        </p>
+      </div>
+      <SellerInquiryInbox groups={groups} userId={user.id} initialInquiryId={inquiry} />
+    </div>
+  );
+}
@@ -38,6 +38,7 @@ function transformProjectToDetail(dbProject: Awaited<ReturnType<typeof getProjec
     instructions: dbProject.specific_instructions || "",
     budget: dbProject.user_quote ? `₹${dbProject.user_quote}` : undefined,
     liveDocUrl: dbProject.live_document_url || undefined,
+    isPaid: dbProject.is_paid || false,
     supervisorName: undefined, // Will be fetched from chat room participants
     unreadMessages: 0, // Will be calculated from chat messages
     attachedFiles: (dbProject.files || []).map((file: {
@@ -60,6 +61,7 @@ function transformProjectToDetail(dbProject: Awaited<ReturnType<typeof getProjec
       version?: number | null;
       created_at?: string | null;
       is_final?: boolean | null;
+      qc_status?: string | null;
     }) => ({
       id: del.id,
       name: del.file_name,
@@ -67,6 +69,7 @@ function transformProjectToDetail(dbProject: Awaited<ReturnType<typeof getProjec
       version: del.version || 1,
       uploadedAt: del.created_at || "",
       isFinal: del.is_final || false,
+      qcStatus: del.qc_status,
     })),
     qualityReports: [
       {
@@ -79,7 +82,10 @@ function transformProjectToDetail(dbProject: Awaited<ReturnType<typeof getProjec
         type: "plagiarism" as const,
         status: dbProject.plagiarism_score !== null ? "passed" : "locked",
         score: dbProject.plagiarism_score || undefined,
-        reportUrl: dbProject.plagiarism_report_url || undefined,
+        // The report sits in a private bucket; the route signs a link to it
+        reportUrl: dbProject.plagiarism_report_url
+          ? `/api/projects/${dbProject.id}/plagiarism-report`
+          : undefined,
       },
     ],
     chatMessages: [], // Will be fetched separately from chat_messages table
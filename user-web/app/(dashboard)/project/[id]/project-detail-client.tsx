@@ -74,8 +74,9 @@ import {
 import { RazorpayCheckout } from "@/components/payments/razorpay-checkout";
 import { cn } from "@/lib/utils";
 import { useMemo } from "react";
-import { generateInvoiceHTML } from "@/lib/actions/invoice";
+import { downloadInvoice } from "@/lib/invoice-download";
 import { createRevisionRequest, markProjectComplete } from "@/lib/actions/data";
+import { cancelProjectWithRefund, getRefundQuote, type RefundQuote } from "@/lib/actions/refunds";
 import { useChat } from "@/hooks/useChat";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
@@ -213,6 +214,11 @@ export function ProjectDetailClient({ project, userId }: ProjectDetailClientProp
   const [isCompleteDialogOpen, setIsCompleteDialogOpen] = useState(false);
   const [isMarkingComplete, setIsMarkingComplete] = useState(false);
   const [selectedStepIndex, setSelectedStepIndex] = useState<number | null>(null);
+  const [isCancelDialogOpen, setIsCancelDialogOpen] = useState(false);
+  const [cancelReason, setCancelReason] = useState("");
+  const [refundQuote, setRefundQuote] = useState<RefundQuote | null>(null);
+  const [isLoadingRefundQuote, setIsLoadingRefundQuote] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
 
   const config = STATUS_CONFIG[project.status];
   const stepIndex = getStepIndex(project.status);
@@ -220,6 +226,7 @@ export function ProjectDetailClient({ project, userId }: ProjectDetailClientProp
   const isQuoted = project.status === "quoted" || project.status === "payment_pending";
   const isDelivered = stepIndex >= 7;
   const isCompleted = project.status === "completed" || project.status === "auto_approved";
+  const isClosed = isCompleted || project.status === "cancelled" || project.status === "refunded";
   const paymentAmount = project.budget ? parseInt(project.budget.replace(/[^0-9]/g, "")) : 0;
 
   // Handlers
@@ -227,14 +234,10 @@ export function ProjectDetailClient({ project, userId }: ProjectDetailClientProp
     if (!project.id) return;
     setIsDownloadingInvoice(true);
     try {
-      const html = await generateInvoiceHTML(project.id);
-      if (!html) { toast.error("Invoice not available"); return; }
-      const win = window.open("", "_blank");
-      if (!win) { toast.error("Allow popups"); return; }
-      win.document.write(html);
-      win.document.close();
-      win.onload = () => { win.focus(); win.print(); };
-    } catch { toast.error("Failed to generate invoice"); }
+      await downloadInvoice(project.id);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to download invoice");
+    }
     finally { setIsDownloadingInvoice(false); }
   };
 
@@ -284,6 +287,49 @@ export function ProjectDetailClient({ project, userId }: ProjectDetailClientProp
     }
   };
 
+  const handleOpenCancelDialog = async () => {
+    setIsCancelDialogOpen(true);
+    setRefundQuote(null);
+    setIsLoadingRefundQuote(true);
+    try {
+      const result = await getRefundQuote(project.id);
+      if (result.error || !result.quote) {
+        toast.error(result.error || "Failed to calculate refund");
+        setIsCancelDialogOpen(false);
+      } else {
+        setRefundQuote(result.quote);
+      }
+    } catch {
+      toast.error("Failed to calculate refund");
+      setIsCancelDialogOpen(false);
+    } finally {
+      setIsLoadingRefundQuote(false);
+    }
+  };
+
+  const handleCancelProject = async () => {
+    setIsCancelling(true);
+    try {
+      const result = await cancelProjectWithRefund(project.id, cancelReason);
+      if (result.error) {
+        toast.error(result.error);
+      } else {
+        toast.success(
+          result.refundAmount
+            ? `Project cancelled. ₹${result.refundAmount.toLocaleString("en-IN")} refund initiated`
+            : "Project cancelled"
+        );
+        setIsCancelDialogOpen(false);
+        setCancelReason("");
+        router.refresh();
+      }
+    } catch {
+      toast.error("Failed to cancel project");
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
   // Time remaining
   const getTimeRemaining = () => {
     if (!project.deadline) return null;
@@ -328,7 +374,11 @@ export function ProjectDetailClient({ project, userId }: ProjectDetailClientProp
                   <DropdownMenuSeparator />
                 </>
               )}
-              <DropdownMenuItem className="text-red-500">
+              <DropdownMenuItem
+                className="text-red-500"
+                disabled={isClosed}
+                onClick={handleOpenCancelDialog}
+              >
                 <XCircle className="h-4 w-4 mr-2" /> Cancel Project
               </DropdownMenuItem>
             </DropdownMenuContent>
@@ -589,7 +639,7 @@ export function ProjectDetailClient({ project, userId }: ProjectDetailClientProp
           {/* Delivered Content */}
           {isDelivered && (
             <>
-              <DeliverablesSection status={project.status} deliverables={project.deliverables} />
+              <DeliverablesSection status={project.status} deliverables={project.deliverables} isPaid={project.isPaid} />
               <QualityReportBadge reports={project.qualityReports} />
 
               {!isCompleted && (
@@ -730,7 +780,7 @@ export function ProjectDetailClient({ project, userId }: ProjectDetailClientProp
               </div>
             )}
 
-            <DeliverablesSection status={project.status} deliverables={project.deliverables} />
+            <DeliverablesSection status={project.status} deliverables={project.deliverables} isPaid={project.isPaid} />
           </div>
         )}
 
@@ -902,6 +952,77 @@ export function ProjectDetailClient({ project, userId }: ProjectDetailClientProp
       </AlertDialog>
 
       {/* Complete Dialog */}
+      <AlertDialog open={isCancelDialogOpen} onOpenChange={setIsCancelDialogOpen}>
+        <AlertDialogContent className="max-w-md rounded-2xl">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="flex items-center gap-2">
+              <XCircle className="h-5 w-5 text-red-500" />
+              Cancel Project
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {isLoadingRefundQuote || !refundQuote
+                ? "Calculating your refund..."
+                : refundQuote.explanation}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {refundQuote && refundQuote.refundAmount > 0 && (
+            <div className="rounded-xl border border-stone-200 dark:border-stone-700 p-4 space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Amount paid</span>
+                <span className="font-medium">₹{refundQuote.amountPaid.toLocaleString("en-IN")}</span>
+              </div>
+              {refundQuote.split.walletAmount > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Back to wallet</span>
+                  <span className="font-medium">₹{refundQuote.split.walletAmount.toLocaleString("en-IN")}</span>
+                </div>
+              )}
+              {refundQuote.split.razorpayAmount > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Back to original payment method</span>
+                  <span className="font-medium">₹{refundQuote.split.razorpayAmount.toLocaleString("en-IN")}</span>
+                </div>
+              )}
+              <div className="flex justify-between border-t border-stone-200 dark:border-stone-700 pt-2 font-semibold">
+                <span>Total refund</span>
+                <span className="text-emerald-600">₹{refundQuote.refundAmount.toLocaleString("en-IN")}</span>
+              </div>
+            </div>
+          )}
+          {refundQuote?.cancellable && (
+            <div className="space-y-2">
+              <Label htmlFor="cancel-reason">Reason (optional)</Label>
+              <Textarea
+                id="cancel-reason"
+                value={cancelReason}
+                onChange={(e) => setCancelReason(e.target.value)}
+                placeholder="Let us know why you're cancelling"
+                className="min-h-[80px] resize-none"
+              />
+            </div>
+          )}
+          <AlertDialogFooter>
+            <Button variant="outline" onClick={() => setIsCancelDialogOpen(false)} disabled={isCancelling}>
+              Keep Project
+            </Button>
+            <Button
+              onClick={handleCancelProject}
+              disabled={isCancelling || isLoadingRefundQuote || !refundQuote?.cancellable}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              {isCancelling ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Cancelling...
+                </>
+              ) : (
+                "Cancel Project"
+              )}
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       <AlertDialog open={isCompleteDialogOpen} onOpenChange={setIsCompleteDialogOpen}>
         <AlertDialogContent className="max-w-md rounded-2xl">
           <AlertDialogHeader>
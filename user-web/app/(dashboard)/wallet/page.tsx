@@ -24,6 +24,7 @@ import {
 } from "lucide-react";
 import { PageSkeletonProvider, StaggerItem, WalletSkeleton } from "@/components/skeletons";
 import { WalletTopUpSheet } from "@/components/profile/wallet-top-up-sheet";
+import { WalletInvoices } from "@/components/profile/wallet-invoices";
 import { getWallet, getWalletTransactions } from "@/lib/actions/data";
 import { cn } from "@/lib/utils";
 import { useUserStore } from "@/stores/user-store";
@@ -57,6 +58,15 @@ interface Transaction {
   reference_id?: string;
 }
 
+/**
+ * Label for refund transactions, which come from cancelled projects.
+ * Refunds to the original payment method never reach the wallet.
+ */
+function getRefundLabel(tx: Transaction): string | null {
+  if (tx.transaction_type !== "refund") return null;
+  return "Refund · credited to wallet";
+}
+
 /**
  * Incoming transaction types (money coming into wallet)
  */
@@ -490,6 +500,11 @@ function WalletContentInner({
                                 <p className="text-sm font-semibold truncate mb-0.5">
                                   {tx.description}
                                 </p>
+                                {getRefundLabel(tx) && (
+                                  <p className="text-[11px] font-medium text-emerald-600 dark:text-emerald-500 mb-0.5">
+                                    {getRefundLabel(tx)}
+                                  </p>
+                                )}
                                 <p className="text-[11px] text-muted-foreground">
                                   {new Date(tx.created_at).toLocaleDateString("en-US", {
                                     day: "2-digit",
@@ -534,6 +549,11 @@ function WalletContentInner({
                   )}
                 </div>
               </StaggerItem>
+
+              {/* GST Invoices & Credit Notes */}
+              <StaggerItem>
+                <WalletInvoices />
+              </StaggerItem>
             </div>
           </div>
         </div>
@@ -1,5 +1,10 @@
 import { createClient } from "@/lib/supabase/server";
 import { NextRequest, NextResponse } from "next/server";
+import {
+  authRateLimiter,
+  getClientIdentifier,
+  rateLimitHeaders,
+} from "@/lib/rate-limit";
 
 /**
  * Supported college email domain patterns
@@ -69,6 +74,23 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Apply rate limiting (10 requests per IP and 5 per address every 15 minutes)
+    const [ipLimit, emailLimit] = await Promise.all([
+      authRateLimiter.check(10, getClientIdentifier(null, request)),
+      authRateLimiter.check(5, `email:${normalizedEmail}`),
+    ]);
+    const rateLimitResult = ipLimit.success ? emailLimit : ipLimit;
+
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { error: "Too many requests. Please wait a few minutes before trying again." },
+        {
+          status: 429,
+          headers: rateLimitHeaders(rateLimitResult),
+        }
+      );
+    }
+
     const supabase = await createClient();
 
     // Determine the callback URL with college verification flag
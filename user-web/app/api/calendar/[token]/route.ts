@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/server"
+import {
+  BOOKING_CALENDAR_COLUMNS,
+  CALENDAR_FEED_PAST_DAYS,
+  buildBookingFeed,
+  loadBookingParties,
+  type BookingCalendarRow,
+} from "@/lib/expert-calendar"
+import { readRateLimiter, getClientIdentifier, rateLimitHeaders } from "@/lib/rate-limit"
+
+/**
+ * GET /api/calendar/[token]
+ * Private iCal feed of a profile's consultations, as client and as expert.
+ * Calendar apps fetch it without a session, so the token is the only credential;
+ * it is created and reset from the experts page (getCalendarFeed / resetCalendarFeed).
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const rateLimitResult = await readRateLimiter.check(
+      60,
+      `${getClientIdentifier(null, request)}:calendar-feed`
+    )
+
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { error: "Too many requests" },
+        { status: 429, headers: rateLimitHeaders(rateLimitResult) }
+      )
+    }
+
+    // Calendar apps are happier with a URL ending in .ics
+    const token = (await params).token.replace(/\.ics$/, "")
+
+    const admin = createAdminClient()
+    if (!admin) {
+      return NextResponse.json({ error: "Server configuration error" }, { status: 500 })
+    }
+
+    const { data: feed } = await admin
+      .from("calendar_feeds")
+      .select("profile_id")
+      .eq("token", token)
+      .maybeSingle()
+
+    if (!feed) {
+      return NextResponse.json({ error: "Calendar not found" }, { status: 404 })
+    }
+
+    const profileId = feed.profile_id as string
+
+    const { data: experts } = await admin.from("experts").select("id").eq("user_id", profileId)
+    const ownExpertIds = (experts || []).map((expert) => expert.id as string)
+
+    const participantFilter = [
+      `user_id.eq.${profileId}`,
+      ...(ownExpertIds.length ? [`expert_id.in.(${ownExpertIds.join(",")})`] : []),
+    ].join(",")
+
+    const { data: bookings, error } = await admin
+      .from("expert_bookings")
+      .select(BOOKING_CALENDAR_COLUMNS)
+      .or(participantFilter)
+      .neq("payment_status", "pending")
+      .in("status", ["confirmed", "in_progress", "completed", "cancelled", "rejected"])
+      .gte(
+        "scheduled_end",
+        new Date(Date.now() - CALENDAR_FEED_PAST_DAYS * 24 * 60 * 60_000).toISOString()
+      )
+      .order("scheduled_start", { ascending: true })
+
+    if (error) {
+      console.error("[Calendar Feed] Bookings error:", error)
+      return NextResponse.json({ error: "Failed to load sessions" }, { status: 500 })
+    }
+
+    const rows = (bookings || []) as unknown as BookingCalendarRow[]
+    const { parties } = await loadBookingParties(admin, rows)
+
+    const feedBody = buildBookingFeed(
+      rows.map((row) => ({
+        row,
+        parties: parties.get(row.id)!,
+        viewer: ownExpertIds.includes(row.expert_id) ? "expert" : "client",
+      }))
+    )
+
+    await admin
+      .from("calendar_feeds")
+      .update({ last_accessed_at: new Date().toISOString() })
+      .eq("profile_id", profileId)
+
+    return new NextResponse(feedBody, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="assignx-sessions.ics"',
+        "Cache-Control": "private, max-age=300",
+      },
+    })
+  } catch (error) {
+    console.error("[Calendar Feed] Error:", error)
+    return NextResponse.json({ error: "Failed to build calendar" }, { status: 500 })
+  }
+}
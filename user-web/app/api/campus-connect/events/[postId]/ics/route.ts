@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClientFromRequest } from "@/lib/supabase/server"
+import {
+  CAMPUS_EVENT_COLUMNS,
+  buildCampusEventInvite,
+  type CampusEventRow,
+} from "@/lib/campus-events"
+
+/**
+ * GET /api/campus-connect/events/[postId]/ics
+ * Downloads an .ics file to add a Campus Connect event to a calendar.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ postId: string }> }
+) {
+  try {
+    const { postId } = await params
+    const supabase = await createClientFromRequest(request)
+
+    const { data: post } = await supabase
+      .from("campus_posts")
+      .select(`${CAMPUS_EVENT_COLUMNS}, author:profiles (full_name)`)
+      .eq("id", postId)
+      .eq("category", "events")
+      .or("status.eq.active,status.eq.published,status.is.null")
+      .maybeSingle()
+
+    const row = post as unknown as (CampusEventRow & { author: { full_name: string | null } | null }) | null
+    if (!row || !row.event_date) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 })
+    }
+
+    const invite = buildCampusEventInvite(
+      row,
+      row.author?.full_name ? { name: row.author.full_name } : undefined
+    )
+
+    return new NextResponse(invite, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": `attachment; filename="campus-event-${row.id}.ics"`,
+        "Cache-Control": "private, no-store",
+      },
+    })
+  } catch (error) {
+    console.error("[Campus Event Invite] Error:", error)
+    return NextResponse.json({ error: "Failed to build invite" }, { status: 500 })
+  }
+}
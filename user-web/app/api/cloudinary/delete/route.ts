@@ -61,7 +61,7 @@ export async function DELETE(request: NextRequest) {
 
     // Apply rate limiting (20 deletes per minute)
     const clientId = getClientIdentifier(user.id, request)
-    const rateLimitResult = await apiRateLimiter.check(20, clientId)
+    const rateLimitResult = await apiRateLimiter.check(20, `${clientId}:cloudinary-delete`)
 
     if (!rateLimitResult.success) {
       return NextResponse.json(
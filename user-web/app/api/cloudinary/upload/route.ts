@@ -68,7 +68,7 @@ export async function POST(request: NextRequest) {
 
     // Apply rate limiting (10 uploads per minute)
     const clientId = getClientIdentifier(user.id, request)
-    const rateLimitResult = await apiRateLimiter.check(10, clientId)
+    const rateLimitResult = await apiRateLimiter.check(10, `${clientId}:cloudinary-upload`)
 
     if (!rateLimitResult.success) {
       return NextResponse.json(
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient, createClient } from "@/lib/supabase/server";
+import { getClientIdentifier, rateLimitHeaders, readRateLimiter } from "@/lib/rate-limit";
+import {
+  DELIVERABLE_COLUMNS,
+  ensureDeliverablePreview,
+  logDeliverableDownload,
+  resolveDeliverableViewer,
+  type DeliverableRecord,
+} from "@/lib/deliverables";
+import {
+  DELIVERABLE_BUCKET,
+  DELIVERABLE_PREVIEW_BUCKET,
+  DELIVERABLE_PREVIEW_TTL_SECONDS,
+  DELIVERABLE_URL_TTL_SECONDS,
+  deliverableAccess,
+  deliverableObjectPath,
+} from "@shared/deliverable-access";
+
+/**
+ * GET /api/deliverables/[id]
+ * Short-lived signed URL for a project deliverable.
+ * Pass ?kind=preview for the watermarked preview; the file itself is only
+ * handed to students once the project is approved and paid.
+ * Returns { url, expiresAt, kind }.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const kind = request.nextUrl.searchParams.get("kind") === "preview" ? "preview" : "file";
+
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const rateLimitResult = await readRateLimiter.check(30, `${getClientIdentifier(user.id, request)}:deliverable`);
+  if (!rateLimitResult.success) {
+    return NextResponse.json(
+      { error: "Too many download requests. Please try again later." },
+      { status: 429, headers: rateLimitHeaders(rateLimitResult) }
+    );
+  }
+
+  const admin = createAdminClient();
+  if (!admin) {
+    return NextResponse.json({ error: "Server configuration error" }, { status: 500 });
+  }
+
+  try {
+    const { data } = await admin
+      .from("project_deliverables")
+      .select(DELIVERABLE_COLUMNS)
+      .eq("id", id)
+      .maybeSingle();
+
+    const deliverable = data as unknown as DeliverableRecord | null;
+    const role = deliverable?.project
+      ? await resolveDeliverableViewer(admin, user.id, deliverable.project)
+      : null;
+
+    // Same answer for missing and foreign deliverables
+    if (!deliverable?.project || !role) {
+      return NextResponse.json({ error: "Deliverable not found" }, { status: 404 });
+    }
+
+    const access = deliverableAccess(role, deliverable.project, deliverable);
+    if (access === "none" || (kind === "file" && access !== "file")) {
+      return NextResponse.json(
+        {
+          error:
+            access === "preview"
+              ? "The full file unlocks once you approve the project and it is paid for."
+              : "This file isn't available to you yet.",
+          access,
+        },
+        { status: 403 }
+      );
+    }
+
+    let signed: { signedUrl: string } | null = null;
+
+    if (kind === "preview") {
+      const previewPath = await ensureDeliverablePreview(admin, deliverable);
+      if (!previewPath) {
+        return NextResponse.json(
+          { error: "No preview is available for this file type." },
+          { status: 422 }
+        );
+      }
+      ({ data: signed } = await admin.storage
+        .from(DELIVERABLE_PREVIEW_BUCKET)
+        .createSignedUrl(previewPath, DELIVERABLE_PREVIEW_TTL_SECONDS));
+    } else {
+      ({ data: signed } = await admin.storage
+        .from(DELIVERABLE_BUCKET)
+        .createSignedUrl(deliverableObjectPath(deliverable.file_url), DELIVERABLE_URL_TTL_SECONDS, {
+          download: deliverable.file_name,
+        }));
+    }
+
+    if (!signed) {
+      return NextResponse.json({ error: "Failed to create download link" }, { status: 500 });
+    }
+
+    const ipAddress = getClientIdentifier(null, request).replace(/^ip:/, "");
+
+    await logDeliverableDownload(admin, {
+      deliverableId: deliverable.id,
+      projectId: deliverable.project_id,
+      profileId: user.id,
+      role,
+      kind,
+      ipAddress: ipAddress === "unknown" ? null : ipAddress,
+      userAgent: request.headers.get("user-agent"),
+    });
+
+    const ttl = kind === "preview" ? DELIVERABLE_PREVIEW_TTL_SECONDS : DELIVERABLE_URL_TTL_SECONDS;
+
+    return NextResponse.json(
+      {
+        url: signed.signedUrl,
+        expiresAt: new Date(Date.now() + ttl * 1000).toISOString(),
+        kind,
+      },
+      { headers: { "Cache-Control": "private, no-store" } }
+    );
+  } catch (error) {
+    console.error("[Deliverable Download] Error:", error);
+    return NextResponse.json({ error: "Failed to load deliverable" }, { status: 500 });
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createAdminClient, createClientFromRequest } from "@/lib/supabase/server"
+import {
+  BOOKING_CALENDAR_COLUMNS,
+  buildBookingInvite,
+  loadBookingParties,
+  type BookingCalendarRow,
+} from "@/lib/expert-calendar"
+
+/**
+ * GET /api/experts/bookings/[bookingId]/invite
+ * Downloads the .ics invite of a consultation for the client or the expert.
+ * Cancelled bookings download as a cancellation of the same event.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ bookingId: string }> }
+) {
+  try {
+    const { bookingId } = await params
+    const supabase = await createClientFromRequest(request)
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    // RLS limits this to the client, the expert and admins
+    const { data: booking } = await supabase
+      .from("expert_bookings")
+      .select(BOOKING_CALENDAR_COLUMNS)
+      .eq("id", bookingId)
+      .maybeSingle()
+
+    const row = booking as unknown as BookingCalendarRow | null
+    if (!row || row.payment_status === "pending") {
+      return NextResponse.json({ error: "Booking not found" }, { status: 404 })
+    }
+
+    const admin = createAdminClient()
+    if (!admin) {
+      return NextResponse.json({ error: "Server configuration error" }, { status: 500 })
+    }
+
+    const { parties, expertProfiles } = await loadBookingParties(admin, [row])
+    const viewer = expertProfiles.get(row.expert_id) === user.id ? "expert" : "client"
+    const invite = buildBookingInvite(row, parties.get(row.id)!, viewer)
+
+    return new NextResponse(invite, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${row.booking_number}.ics"`,
+        "Cache-Control": "private, no-store",
+      },
+    })
+  } catch (error) {
+    console.error("[Booking Invite] Error:", error)
+    return NextResponse.json({ error: "Failed to build invite" }, { status: 500 })
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import crypto from "crypto";
+import { createAdminClient } from "@/lib/supabase/server";
+import { env } from "@/lib/env";
+
+/**
+ * Constant-time string comparison to prevent timing attacks
+ * @param a First string to compare
+ * @param b Second string to compare
+ * @returns true if strings are equal, false otherwise
+ */
+function secureCompare(a: string, b: string): boolean {
+  if (!a || !b) return false;
+  if (a.length !== b.length) return false;
+  try {
+    return crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Only server-to-server calls (cron, ops tooling) may use this route
+ */
+function isAuthorized(request: NextRequest): boolean {
+  const internalKey = env.INTERNAL_API_KEY || "";
+  if (!internalKey) return false;
+
+  const bearer = request.headers.get("authorization")?.replace(/^Bearer\s+/i, "") || "";
+  const apiKey = request.headers.get("x-api-key") || bearer;
+  return secureCompare(apiKey, internalKey);
+}
+
+/**
+ * GET /api/ledger/reconciliation
+ * Reconciliation report for the earnings ledger: total debits and credits,
+ * balances per account kind, and any entry, escrow or earnings account that
+ * doesn't match. Responds 409 when the books don't balance, so monitors can
+ * alert on the status alone.
+ */
+export async function GET(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const admin = createAdminClient();
+  if (!admin) {
+    return NextResponse.json({ error: "Server configuration error" }, { status: 500 });
+  }
+
+  const { data, error } = await admin.rpc("get_ledger_reconciliation");
+
+  if (error) {
+    console.error("[Ledger Reconciliation] Error:", error);
+    return NextResponse.json({ error: "Failed to reconcile ledger" }, { status: 500 });
+  }
+
+  const report = data as {
+    balanced: boolean;
+    escrow_mismatches: unknown[];
+    earnings_mismatches: unknown[];
+  };
+  const reconciled =
+    report.balanced &&
+    report.escrow_mismatches.length === 0 &&
+    report.earnings_mismatches.length === 0;
+
+  return NextResponse.json({ reconciled, ...report }, { status: reconciled ? 200 : 409 });
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import crypto from "crypto";
+import { createAdminClient } from "@/lib/supabase/server";
+import { env } from "@/lib/env";
+import {
+  SAVED_SEARCH_ALERT_CONFIG,
+  processSavedSearchAlerts,
+} from "@/lib/marketplace-alerts";
+
+/**
+ * Constant-time string comparison to prevent timing attacks
+ * @param a First string to compare
+ * @param b Second string to compare
+ * @returns true if strings are equal, false otherwise
+ */
+function secureCompare(a: string, b: string): boolean {
+  if (!a || !b) return false;
+  if (a.length !== b.length) return false;
+  try {
+    return crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Only server-to-server calls (cron, ops tooling) may use this route
+ */
+function isAuthorized(request: NextRequest): boolean {
+  const internalKey = env.INTERNAL_API_KEY || "";
+  if (!internalKey) return false;
+
+  const bearer = request.headers.get("authorization")?.replace(/^Bearer\s+/i, "") || "";
+  const apiKey = request.headers.get("x-api-key") || bearer;
+  return secureCompare(apiKey, internalKey);
+}
+
+/**
+ * POST /api/marketplace/saved-searches/alerts
+ * Worker: sends new saved search matches as instant alerts or daily digests.
+ * Schedule every 15 minutes with the internal API key (x-api-key or Bearer).
+ */
+export async function POST(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const admin = createAdminClient();
+  if (!admin) {
+    return NextResponse.json({ error: "Server configuration error" }, { status: 500 });
+  }
+
+  const limit = Math.min(
+    Number(request.nextUrl.searchParams.get("limit")) || SAVED_SEARCH_ALERT_CONFIG.BATCH_SIZE,
+    2000
+  );
+
+  try {
+    const summary = await processSavedSearchAlerts(admin, { limit });
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    console.error("[Saved Search Alerts] Error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to send saved search alerts" },
+      { status: 500 }
+    );
+  }
+}
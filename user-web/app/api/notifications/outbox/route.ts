@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from "next/server";
+import crypto from "crypto";
+import { createAdminClient } from "@/lib/supabase/server";
+import { env } from "@/lib/env";
+import {
+  OUTBOX_CONFIG,
+  getDeadLetters,
+  processOutbox,
+  requeueDeadLetters,
+} from "@/lib/notifications/outbox";
+import { NOTIFICATION_CHANNELS, type NotificationChannel } from "@/lib/notifications/preferences";
+
+/**
+ * Constant-time string comparison to prevent timing attacks
+ * @param a First string to compare
+ * @param b Second string to compare
+ * @returns true if strings are equal, false otherwise
+ */
+function secureCompare(a: string, b: string): boolean {
+  if (!a || !b) return false;
+  if (a.length !== b.length) return false;
+  try {
+    return crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Only server-to-server calls (cron, ops tooling) may use this route
+ */
+function isAuthorized(request: NextRequest): boolean {
+  const internalKey = env.INTERNAL_API_KEY || "";
+  if (!internalKey) return false;
+
+  const bearer = request.headers.get("authorization")?.replace(/^Bearer\s+/i, "") || "";
+  const apiKey = request.headers.get("x-api-key") || bearer;
+  return secureCompare(apiKey, internalKey);
+}
+
+/**
+ * POST /api/notifications/outbox
+ * Worker: delivers due notifications from the outbox.
+ * Schedule every minute with the internal API key (x-api-key or Bearer).
+ */
+export async function POST(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const admin = createAdminClient();
+  if (!admin) {
+    return NextResponse.json({ error: "Server configuration error" }, { status: 500 });
+  }
+
+  const limit = Math.min(
+    Number(request.nextUrl.searchParams.get("limit")) || OUTBOX_CONFIG.BATCH_SIZE,
+    200
+  );
+
+  try {
+    const summary = await processOutbox(admin, { limit });
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    console.error("[Notification Outbox] Error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to process outbox" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/notifications/outbox
+ * Dead letters: notifications that ran out of attempts, with their last error.
+ * Optional ?channel=push|whatsapp|email|in_app and ?limit=
+ */
+export async function GET(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const admin = createAdminClient();
+  if (!admin) {
+    return NextResponse.json({ error: "Server configuration error" }, { status: 500 });
+  }
+
+  const channelParam = request.nextUrl.searchParams.get("channel");
+  const channel = NOTIFICATION_CHANNELS.includes(channelParam as NotificationChannel)
+    ? (channelParam as NotificationChannel)
+    : undefined;
+  const limit = Math.min(Number(request.nextUrl.searchParams.get("limit")) || 50, 200);
+
+  try {
+    const deadLetters = await getDeadLetters(admin, { limit, channel });
+    return NextResponse.json({ deadLetters });
+  } catch (error) {
+    console.error("[Notification Outbox] Error:", error);
+    return NextResponse.json({ error: "Failed to load dead letters" }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/notifications/outbox
+ * Requeues dead letters: { ids: string[] }
+ */
+export async function PATCH(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const admin = createAdminClient();
+  if (!admin) {
+    return NextResponse.json({ error: "Server configuration error" }, { status: 500 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const ids: unknown = body?.ids;
+
+  if (!Array.isArray(ids) || ids.length === 0 || !ids.every((id) => typeof id === "string")) {
+    return NextResponse.json({ error: "ids must be a non-empty array" }, { status: 400 });
+  }
+
+  try {
+    const requeued = await requeueDeadLetters(admin, ids);
+    return NextResponse.json({ success: true, requeued });
+  } catch (error) {
+    console.error("[Notification Outbox] Error:", error);
+    return NextResponse.json({ error: "Failed to requeue dead letters" }, { status: 500 });
+  }
+}
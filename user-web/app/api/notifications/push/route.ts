@@ -1,8 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import crypto from "crypto";
-import { createClient } from "@/lib/supabase/server";
-import webpush from "web-push";
-import { env, features } from "@/lib/env";
+import { createAdminClient, createClient } from "@/lib/supabase/server";
+import { env } from "@/lib/env";
+import { dispatchNotification } from "@/lib/notifications/outbox";
+import {
+  apiRateLimiter,
+  getClientIdentifier,
+  rateLimitHeaders,
+} from "@/lib/rate-limit";
 
 /**
  * Constant-time string comparison to prevent timing attacks
@@ -20,19 +25,6 @@ function secureCompare(a: string, b: string): boolean {
   }
 }
 
-/**
- * Web Push VAPID configuration
- * Uses validated environment variables from env.ts
- */
-const VAPID_PUBLIC_KEY = env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
-const VAPID_PRIVATE_KEY = env.VAPID_PRIVATE_KEY;
-const VAPID_EMAIL = env.VAPID_EMAIL || "mailto:support@assignx.com";
-
-// Configure web-push if feature is enabled
-if (features.pushNotifications && VAPID_PUBLIC_KEY && VAPID_PRIVATE_KEY) {
-  webpush.setVapidDetails(VAPID_EMAIL, VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY);
-}
-
 /**
  * POST /api/notifications/push
  * Send push notification to user
@@ -54,104 +46,57 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
+    // Server-to-server calls are trusted; limit user-initiated sends
+    if (!isServerCall) {
+      // Apply rate limiting (20 requests per minute)
+      const clientId = getClientIdentifier(user?.id, request);
+      const rateLimitResult = await apiRateLimiter.check(20, `${clientId}:push-send`);
+
+      if (!rateLimitResult.success) {
+        return NextResponse.json(
+          { error: "Too many notification requests. Please try again later." },
+          {
+            status: 429,
+            headers: rateLimitHeaders(rateLimitResult),
+          }
+        );
+      }
+    }
+
     const body = await request.json();
-    const { userId, title, body: messageBody, data, icon, badge, tag } = body;
+    const { userId, title, body: messageBody, data, icon, badge, tag, eventKey } = body;
 
     const targetUserId = userId || user?.id;
     if (!targetUserId) {
       return NextResponse.json({ error: "User ID required" }, { status: 400 });
     }
 
-    // Get user's push subscriptions
-    const { data: subscriptions, error } = await supabase
-      .from("push_subscriptions")
-      .select("*")
-      .eq("profile_id", targetUserId)
-      .eq("is_active", true);
+    if (!messageBody) {
+      return NextResponse.json({ error: "Body is required" }, { status: 400 });
+    }
 
-    if (error) {
-      console.error("Error fetching subscriptions:", error);
+    const admin = createAdminClient();
+    if (!admin) {
       return NextResponse.json(
-        { success: false, error: "Failed to fetch subscriptions" },
+        { success: false, error: "Server configuration error" },
         { status: 500 }
       );
     }
 
-    if (!subscriptions || subscriptions.length === 0) {
-      return NextResponse.json({
-        success: true,
-        message: "No active subscriptions",
-        sent: 0,
-      });
-    }
-
-    // Check if web-push is configured
-    if (!VAPID_PUBLIC_KEY || !VAPID_PRIVATE_KEY) {
-      console.warn("Web Push not configured");
-      return NextResponse.json({
-        success: true,
-        message: "Push not configured",
-        mock: true,
-      });
-    }
-
-    // Build notification payload
-    const notificationPayload = JSON.stringify({
+    // Delivered (and retried) by the notification outbox; pass an eventKey to deduplicate
+    const queued = await dispatchNotification(admin, {
+      eventKey: eventKey || `push:${targetUserId}:${crypto.randomUUID()}`,
+      profileId: targetUserId,
+      category: "status",
       title: title || "AssignX",
       body: messageBody,
-      icon: icon || "/icons/icon-192.png",
-      badge: badge || "/icons/badge-72.png",
-      tag: tag || "default",
-      data: data || {},
-      timestamp: Date.now(),
-    });
-
-    // Send to all subscriptions
-    const results = await Promise.allSettled(
-      subscriptions.map(async (sub) => {
-        const pushSubscription = {
-          endpoint: sub.endpoint,
-          keys: {
-            p256dh: sub.p256dh,
-            auth: sub.auth,
-          },
-        };
-
-        try {
-          await webpush.sendNotification(pushSubscription, notificationPayload);
-          return { success: true, id: sub.id };
-        } catch (err: unknown) {
-          const error = err as { statusCode?: number };
-          // If subscription is invalid, mark it as inactive
-          if (error.statusCode === 404 || error.statusCode === 410) {
-            await supabase
-              .from("push_subscriptions")
-              .update({ is_active: false })
-              .eq("id", sub.id);
-          }
-          return { success: false, id: sub.id, error: error.statusCode };
-        }
-      })
-    );
-
-    const successCount = results.filter(
-      (r) => r.status === "fulfilled" && (r.value as { success: boolean }).success
-    ).length;
-
-    // Log notification
-    await supabase.from("notification_logs").insert({
-      profile_id: targetUserId,
-      channel: "push",
-      title,
-      body: messageBody,
-      status: successCount > 0 ? "sent" : "failed",
-      metadata: { data, sent: successCount, total: subscriptions.length },
+      channels: ["push"],
+      payload: { push: { tag, icon, badge, data } },
     });
 
     return NextResponse.json({
       success: true,
-      sent: successCount,
-      total: subscriptions.length,
+      queued: queued.length,
     });
   } catch (error) {
     console.error("Push notification error:", error);
@@ -177,6 +122,20 @@ export async function PUT(request: NextRequest) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
+    // Apply rate limiting (10 requests per minute)
+    const clientId = getClientIdentifier(user.id, request);
+    const rateLimitResult = await apiRateLimiter.check(10, `${clientId}:push-subscription`);
+
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { error: "Too many requests. Please try again later." },
+        {
+          status: 429,
+          headers: rateLimitHeaders(rateLimitResult),
+        }
+      );
+    }
+
     const body = await request.json();
     const { subscription } = body;
 
@@ -240,6 +199,20 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
+    // Apply rate limiting (10 requests per minute)
+    const clientId = getClientIdentifier(user.id, request);
+    const rateLimitResult = await apiRateLimiter.check(10, `${clientId}:push-subscription`);
+
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { error: "Too many requests. Please try again later." },
+        {
+          status: 429,
+          headers: rateLimitHeaders(rateLimitResult),
+        }
+      );
+    }
+
     const { searchParams } = new URL(request.url);
     const endpoint = searchParams.get("endpoint");
 
@@ -1,5 +1,10 @@
 import { NextRequest, NextResponse } from "next/server"
 import { createClient } from "@/lib/supabase/server"
+import {
+  apiRateLimiter,
+  getClientIdentifier,
+  rateLimitHeaders,
+} from "@/lib/rate-limit"
 
 /**
  * Push subscription data
@@ -41,6 +46,20 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Apply rate limiting (10 requests per minute)
+    const clientId = getClientIdentifier(user.id, request)
+    const rateLimitResult = await apiRateLimiter.check(10, `${clientId}:push-subscription`)
+
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { error: "Too many requests. Please try again later." },
+        {
+          status: 429,
+          headers: rateLimitHeaders(rateLimitResult),
+        }
+      )
+    }
+
     const body: SubscribeRequest = await request.json()
     const { subscription } = body
 
@@ -150,6 +169,20 @@ export async function DELETE(request: NextRequest) {
       )
     }
 
+    // Apply rate limiting (10 requests per minute)
+    const clientId = getClientIdentifier(user.id, request)
+    const rateLimitResult = await apiRateLimiter.check(10, `${clientId}:push-subscription`)
+
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { error: "Too many requests. Please try again later." },
+        {
+          status: 429,
+          headers: rateLimitHeaders(rateLimitResult),
+        }
+      )
+    }
+
     const { endpoint } = await request.json()
 
     if (!endpoint) {
@@ -33,9 +33,12 @@ interface CreateOrderRequest {
   currency: string
   receipt: string
   notes?: {
-    type: "wallet_topup" | "project_payment"
+    type: "wallet_topup" | "project_payment" | "partial_payment" | "expert_booking"
     profile_id?: string
     project_id?: string
+    booking_id?: string // Consultation being paid for
+    wallet_amount?: number // Wallet portion of a partial payment in rupees
+    total_amount?: number // Total project amount of a partial payment in rupees
   }
 }
 
@@ -101,8 +104,12 @@ export async function POST(request: NextRequest) {
     const notes: Record<string, string> = {}
     if (body.notes) {
       if (body.notes.type) notes.type = String(body.notes.type)
-      if (body.notes.profile_id) notes.profile_id = String(body.notes.profile_id)
+      // Always stamp the authenticated owner; the webhook settles against it
+      notes.profile_id = user.id
       if (body.notes.project_id) notes.project_id = String(body.notes.project_id)
+      if (body.notes.booking_id) notes.booking_id = String(body.notes.booking_id)
+      if (body.notes.wallet_amount !== undefined) notes.wallet_amount = String(body.notes.wallet_amount)
+      if (body.notes.total_amount !== undefined) notes.total_amount = String(body.notes.total_amount)
     }
 
     // Build order payload
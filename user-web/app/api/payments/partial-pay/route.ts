@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server"
 import crypto from "crypto"
-import { createClientFromRequest } from "@/lib/supabase/server"
+import { createAdminClient, createClientFromRequest } from "@/lib/supabase/server"
 import {
   paymentRateLimiter,
   getClientIdentifier,
@@ -8,6 +8,8 @@ import {
 } from "@/lib/rate-limit"
 import { validateOriginOnly, csrfError } from "@/lib/csrf"
 import { env } from "@/lib/env"
+import { issueProjectInvoice } from "@/lib/invoices"
+import { notifyProjectEvent } from "@/lib/notifications/project-events"
 
 /**
  * Request body type
@@ -139,7 +141,8 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Process partial payment atomically
+    // Process partial payment atomically; the webhook may have settled it
+    // already, which the RPC reports as already_processed
     const { data, error } = await supabase.rpc("process_partial_project_payment", {
       p_profile_id: body.profile_id,
       p_project_id: body.project_id,
@@ -158,6 +161,13 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // GST invoice for the payment (a failure is retried on first download)
+    const adminClient = createAdminClient()
+    if (adminClient && !data.already_processed) {
+      await issueProjectInvoice(adminClient, body.project_id)
+      await notifyProjectEvent(adminClient, body.project_id, "payment_received")
+    }
+
     return NextResponse.json({
       success: true,
       project_id: data.project_id,
@@ -166,6 +176,7 @@ export async function POST(request: NextRequest) {
       total_amount: data.total_amount,
       new_balance: data.new_balance,
       payment_method: "partial",
+      already_processed: data.already_processed,
       message: "Payment successful",
     })
   } catch (error: any) {
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server"
 import crypto from "crypto"
-import { createClientFromRequest } from "@/lib/supabase/server"
+import { createAdminClient, createClientFromRequest } from "@/lib/supabase/server"
+import { getRazorpay } from "@/lib/razorpay/client"
 import {
   paymentRateLimiter,
   getClientIdentifier,
@@ -8,6 +9,9 @@ import {
 } from "@/lib/rate-limit"
 import { validateOriginOnly, csrfError } from "@/lib/csrf"
 import { env } from "@/lib/env"
+import { notifyExpertOfSessionChange, scheduleBookingReminder } from "@/lib/expert-calendar"
+import { issueProjectInvoice } from "@/lib/invoices"
+import { notifyProjectEvent } from "@/lib/notifications/project-events"
 
 /**
  * Request body type
@@ -19,6 +23,7 @@ interface VerifyPaymentRequest {
   profile_id: string
   amount: number // Amount in rupees
   project_id?: string // For project payments
+  booking_id?: string // For consultation bookings
 }
 
 /**
@@ -121,11 +126,65 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (body.booking_id) {
+      const adminClient = createAdminClient()
+      if (!adminClient) {
+        return NextResponse.json(
+          { error: "Server configuration error" },
+          { status: 500 }
+        )
+      }
+
+      // Settle against the order Razorpay holds, not the amount the browser reports
+      const order = await getRazorpay().orders.fetch(body.razorpay_order_id)
+      if (order.notes?.booking_id !== body.booking_id) {
+        return NextResponse.json(
+          { error: "Payment does not belong to this booking" },
+          { status: 400 }
+        )
+      }
+
+      // Idempotent: the webhook may have confirmed the booking already
+      const { data, error } = await adminClient.rpc("confirm_expert_booking_payment", {
+        p_booking_id: body.booking_id,
+        p_profile_id: user.id,
+        p_amount: Number(order.amount) / 100,
+        p_razorpay_order_id: body.razorpay_order_id,
+        p_razorpay_payment_id: body.razorpay_payment_id,
+      })
+
+      if (error) {
+        console.error("Expert booking payment error:", error)
+        return NextResponse.json(
+          { error: error.message || "Failed to confirm booking payment" },
+          { status: 500 }
+        )
+      }
+
+      if (data.status === "confirmed" && !data.already_processed) {
+        await notifyExpertOfSessionChange(adminClient, data.booking_id, "booked")
+        await scheduleBookingReminder(adminClient, data.booking_id)
+      }
+
+      return NextResponse.json({
+        success: true,
+        booking_id: data.booking_id,
+        status: data.status,
+        refunded_to_wallet: data.refunded_to_wallet,
+        already_processed: !!data.already_processed,
+        message:
+          data.status === "confirmed"
+            ? "Session booked successfully"
+            : "The slot was released before payment completed; the amount was added to your wallet",
+      })
+    }
+
     // Determine if this is a project payment or wallet top-up
     const isProjectPayment = !!body.project_id
 
     if (isProjectPayment) {
-      // Process project payment atomically
+      // Process project payment atomically; the webhook may have settled it
+      // already, which the RPC reports as already_processed
       // Note: Razorpay payments don't create wallet transactions (money goes directly to Razorpay)
       const { data, error } = await supabase.rpc("process_razorpay_project_payment", {
         p_profile_id: body.profile_id,
@@ -143,15 +202,24 @@ export async function POST(request: NextRequest) {
         )
       }
 
+      // GST invoice for the payment (a failure is retried on first download)
+      const adminClient = createAdminClient()
+      if (adminClient && !data.already_processed) {
+        await issueProjectInvoice(adminClient, data.project_id)
+        await notifyProjectEvent(adminClient, data.project_id, "payment_received")
+      }
+
       return NextResponse.json({
         success: true,
         project_id: data.project_id,
         amount: data.amount,
         payment_method: data.payment_method,
+        already_processed: data.already_processed,
         message: "Project payment successful",
       })
     } else {
-      // Process wallet top-up atomically
+      // Process wallet top-up atomically; the RPC credits each payment once,
+      // so a webhook that got here first makes this a no-op
       const { data, error } = await supabase.rpc("process_wallet_topup", {
         p_profile_id: body.profile_id,
         p_amount: body.amount,
@@ -171,6 +239,7 @@ export async function POST(request: NextRequest) {
         success: true,
         transaction_id: data.transaction_id,
         new_balance: data.new_balance,
+        already_processed: data.already_processed,
         message: "Wallet topped up successfully",
       })
     }
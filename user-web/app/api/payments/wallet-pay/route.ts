@@ -1,11 +1,13 @@
 import { NextRequest, NextResponse } from "next/server"
-import { createClient } from "@/lib/supabase/server"
+import { createAdminClient, createClient } from "@/lib/supabase/server"
 import {
   paymentRateLimiter,
   getClientIdentifier,
   rateLimitHeaders,
 } from "@/lib/rate-limit"
 import { validateOriginOnly, csrfError } from "@/lib/csrf"
+import { issueProjectInvoice } from "@/lib/invoices"
+import { notifyProjectEvent } from "@/lib/notifications/project-events"
 
 /**
  * Request body type
@@ -128,6 +130,13 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // GST invoice for the payment (a failure is retried on first download)
+    const adminClient = createAdminClient()
+    if (adminClient) {
+      await issueProjectInvoice(adminClient, body.project_id)
+      await notifyProjectEvent(adminClient, body.project_id, "payment_received")
+    }
+
     return NextResponse.json({
       success: true,
       transaction_id: data.transaction_id,
@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/server"
+import { env } from "@/lib/env"
+import { getRazorpay } from "@/lib/razorpay/client"
+import {
+  applyRazorpayEvent,
+  getWebhookIdempotencyKey,
+  isHandledWebhookEvent,
+  verifyWebhookSignature,
+  type RazorpayOrderEntity,
+  type RazorpayWebhookEvent,
+} from "@/lib/razorpay/webhook"
+
+/**
+ * Fetches an order's notes when a payment arrives without them
+ */
+async function fetchOrder(orderId: string): Promise<RazorpayOrderEntity | null> {
+  try {
+    const order = await getRazorpay().orders.fetch(orderId)
+    return order as unknown as RazorpayOrderEntity
+  } catch (error) {
+    console.error(`[Razorpay Webhook] Failed to fetch order ${orderId}:`, error)
+    return null
+  }
+}
+
+/**
+ * Falls back to the entity id when Razorpay omits the event id header
+ */
+function getEventId(request: NextRequest, event: RazorpayWebhookEvent): string | null {
+  const headerId = request.headers.get("x-razorpay-event-id")
+  if (headerId) return headerId
+
+  const entityId =
+    event.payload.refund?.entity.id ||
+    event.payload.payment?.entity.id ||
+    event.payload.order?.entity.id
+
+  return entityId ? `${event.event}:${entityId}` : null
+}
+
+/**
+ * POST /api/payments/webhook
+ * Receives Razorpay webhooks and reconciles payments server-side.
+ * Each event is applied exactly once, keyed on its event id, so payments
+ * captured after the user closed the checkout tab are still recorded.
+ *
+ * Not rate limited or CSRF-checked: authenticity comes from the signature.
+ */
+export async function POST(request: NextRequest) {
+  const secret = env.RAZORPAY_WEBHOOK_SECRET
+  if (!secret) {
+    console.error("[Razorpay Webhook] RAZORPAY_WEBHOOK_SECRET is not configured")
+    return NextResponse.json(
+      { error: "Webhook not configured" },
+      { status: 503 }
+    )
+  }
+
+  // Signature is computed over the raw body, so read it before parsing
+  const rawBody = await request.text()
+  const signature = request.headers.get("x-razorpay-signature")
+
+  if (!verifyWebhookSignature(rawBody, signature, secret)) {
+    console.warn("[Razorpay Webhook] Invalid signature")
+    return NextResponse.json(
+      { error: "Invalid signature" },
+      { status: 400 }
+    )
+  }
+
+  let event: RazorpayWebhookEvent
+  try {
+    event = JSON.parse(rawBody)
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid JSON payload" },
+      { status: 400 }
+    )
+  }
+
+  // Acknowledge events we don't subscribe to so Razorpay stops retrying
+  if (!isHandledWebhookEvent(event.event)) {
+    return NextResponse.json({ received: true, ignored: true })
+  }
+
+  const eventId = getEventId(request, event)
+  if (!eventId) {
+    return NextResponse.json(
+      { error: "Missing event id" },
+      { status: 400 }
+    )
+  }
+
+  const supabase = createAdminClient()
+  if (!supabase) {
+    return NextResponse.json(
+      { error: "Server configuration error" },
+      { status: 500 }
+    )
+  }
+
+  const { data: claim, error: claimError } = await supabase.rpc(
+    "claim_razorpay_webhook_event",
+    {
+      p_event_id: eventId,
+      p_idempotency_key: getWebhookIdempotencyKey(eventId, event),
+      p_event_type: event.event,
+      p_payload: event,
+    }
+  )
+
+  if (claimError) {
+    console.error("[Razorpay Webhook] Failed to claim event:", claimError)
+    return NextResponse.json(
+      { error: "Failed to record event" },
+      { status: 500 }
+    )
+  }
+
+  // Already processed (or being processed by a concurrent delivery)
+  if (!claim?.claimed) {
+    return NextResponse.json({
+      received: true,
+      duplicate: true,
+      status: claim?.status,
+    })
+  }
+
+  try {
+    const outcome = await applyRazorpayEvent(supabase, event, { fetchOrder })
+
+    await supabase.rpc("complete_razorpay_webhook_event", {
+      p_event_id: eventId,
+      p_status: outcome.status,
+      p_message: outcome.message,
+    })
+
+    return NextResponse.json({
+      received: true,
+      status: outcome.status,
+      message: outcome.message,
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error"
+    console.error(`[Razorpay Webhook] Failed to apply ${event.event} (${eventId}):`, message)
+
+    await supabase.rpc("complete_razorpay_webhook_event", {
+      p_event_id: eventId,
+      p_status: "failed",
+      p_message: message,
+    })
+
+    // Non-2xx makes Razorpay redeliver; the failed event can then be reclaimed
+    return NextResponse.json(
+      { error: "Failed to process event" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient, createClient } from "@/lib/supabase/server";
+import { getClientIdentifier, rateLimitHeaders, readRateLimiter } from "@/lib/rate-limit";
+import { resolveDeliverableViewer } from "@/lib/deliverables";
+
+const REPORT_BUCKET = "plagiarism-reports";
+const REPORT_URL_TTL_SECONDS = 60;
+
+/**
+ * GET /api/projects/[id]/plagiarism-report
+ * Redirects to a short-lived signed URL of the project's QC plagiarism report.
+ * Open to the project's student, doer and supervisor, and to admins.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const rateLimitResult = await readRateLimiter.check(30, `${getClientIdentifier(user.id, request)}:report`);
+  if (!rateLimitResult.success) {
+    return NextResponse.json(
+      { error: "Too many requests. Please try again later." },
+      { status: 429, headers: rateLimitHeaders(rateLimitResult) }
+    );
+  }
+
+  const admin = createAdminClient();
+  if (!admin) {
+    return NextResponse.json({ error: "Server configuration error" }, { status: 500 });
+  }
+
+  try {
+    const { data: project } = await admin
+      .from("projects")
+      .select("id, project_number, user_id, status, is_paid, doer_id, supervisor_id, plagiarism_report_url")
+      .eq("id", id)
+      .maybeSingle();
+
+    const role = project ? await resolveDeliverableViewer(admin, user.id, project) : null;
+
+    // Same answer for missing reports and foreign projects
+    if (!project?.plagiarism_report_url || !role) {
+      return NextResponse.json({ error: "Report not found" }, { status: 404 });
+    }
+
+    const { data: signed } = await admin.storage
+      .from(REPORT_BUCKET)
+      .createSignedUrl(project.plagiarism_report_url, REPORT_URL_TTL_SECONDS);
+
+    if (!signed) {
+      return NextResponse.json({ error: "Failed to open report" }, { status: 500 });
+    }
+
+    const response = NextResponse.redirect(signed.signedUrl);
+    response.headers.set("Cache-Control", "private, no-store");
+    return response;
+  } catch (error) {
+    console.error("[Plagiarism Report] Error:", error);
+    return NextResponse.json({ error: "Failed to load report" }, { status: 500 });
+  }
+}
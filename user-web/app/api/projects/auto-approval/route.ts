@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import crypto from "crypto";
+import { createAdminClient } from "@/lib/supabase/server";
+import { env } from "@/lib/env";
+import { AUTO_APPROVAL_CONFIG, processAutoApprovals } from "@/lib/project-auto-approval";
+
+/**
+ * Constant-time string comparison to prevent timing attacks
+ * @param a First string to compare
+ * @param b Second string to compare
+ * @returns true if strings are equal, false otherwise
+ */
+function secureCompare(a: string, b: string): boolean {
+  if (!a || !b) return false;
+  if (a.length !== b.length) return false;
+  try {
+    return crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Only server-to-server calls (cron, ops tooling) may use this route
+ */
+function isAuthorized(request: NextRequest): boolean {
+  const internalKey = env.INTERNAL_API_KEY || "";
+  if (!internalKey) return false;
+
+  const bearer = request.headers.get("authorization")?.replace(/^Bearer\s+/i, "") || "";
+  const apiKey = request.headers.get("x-api-key") || bearer;
+  return secureCompare(apiKey, internalKey);
+}
+
+/**
+ * POST /api/projects/auto-approval
+ * Worker: auto-approves delivered projects past auto_approve_at and warns
+ * students 48h and 12h before the cutoff.
+ * Schedule every 15 minutes with the internal API key (x-api-key or Bearer).
+ */
+export async function POST(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const admin = createAdminClient();
+  if (!admin) {
+    return NextResponse.json({ error: "Server configuration error" }, { status: 500 });
+  }
+
+  const limit = Math.min(
+    Number(request.nextUrl.searchParams.get("limit")) || AUTO_APPROVAL_CONFIG.BATCH_SIZE,
+    500
+  );
+
+  try {
+    const summary = await processAutoApprovals(admin, { limit });
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    console.error("[Auto Approval] Error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to process auto-approvals" },
+      { status: 500 }
+    );
+  }
+}
@@ -18,6 +18,7 @@ import {
   type ProjectStep4Schema,
 } from "@/lib/validations/project";
 import { createProject, uploadProjectFile } from "@/lib/actions/data";
+import { usePriceEstimate } from "@/hooks/use-price-estimate";
 import type { UploadedFile } from "@/types/add-project";
 import { toast } from "sonner";
 
@@ -168,22 +169,33 @@ export function NewProjectForm({ onSuccess, onStepChange, currentStep: controlle
     }
   });
 
+  // Same pricing engine the supervisor quotes with, so the estimate matches the quote
   const selectedUrgency = urgencyLevels.find((u) => u.value === step3Form.watch("urgency"));
-  const urgencyMultiplier = selectedUrgency?.multiplier || 1;
+  const estimateWordCount = step2Form.watch("wordCount") || 0;
+  const estimate = usePriceEstimate(
+    currentStep >= 2 && estimateWordCount > 0
+      ? {
+          serviceType: "new_project",
+          subject: formData.subject,
+          wordCount: estimateWordCount,
+          deadline: step3Form.watch("deadline"),
+        }
+      : null,
+    selectedUrgency?.hours
+  );
 
   return (
     <div className="flex flex-col">
       <AnimatePresence mode="wait">
         {currentStep === 0 && <StepSubject form={step1Form} onSubmit={handleStep1Submit} />}
         {currentStep === 1 && <StepRequirements form={step2Form} onSubmit={handleStep2Submit} />}
-        {currentStep === 2 && <StepDeadline form={step3Form} wordCount={step2Form.getValues("wordCount") || 0} onSubmit={handleStep3Submit} />}
+        {currentStep === 2 && <StepDeadline form={step3Form} estimate={estimate} onSubmit={handleStep3Submit} />}
         {currentStep === 3 && (
           <StepDetails
             form={step4Form}
             files={files}
             onFilesChange={setFiles}
-            wordCount={step2Form.getValues("wordCount") || 0}
-            urgencyMultiplier={urgencyMultiplier}
+            estimate={estimate}
             isSubmitting={isSubmitting}
             onSubmit={handleFinalSubmit}
           />
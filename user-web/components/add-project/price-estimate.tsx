@@ -1,6 +1,6 @@
 "use client";
 
-import { Info } from "lucide-react";
+import { Info, Loader2 } from "lucide-react";
 import {
   Tooltip,
   TooltipContent,
@@ -8,35 +8,46 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { cn } from "@/lib/utils";
+import type { PricingBreakdown } from "@/services";
 
 interface PriceEstimateProps {
-  wordCount: number;
-  urgencyMultiplier?: number;
-  baseRatePerWord?: number;
+  /** Itemised price from the pricing engine */
+  breakdown: PricingBreakdown | null;
+  isLoading?: boolean;
   className?: string;
 }
 
+const UNIT_LABELS: Record<PricingBreakdown["pricing_unit"], string> = {
+  word: "words",
+  page: "pages",
+  fixed: "",
+};
+
 /**
  * Price estimate card - Clean Professional Design
+ * Shows the same breakdown the supervisor's quote is based on
  */
-export function PriceEstimate({
-  wordCount,
-  urgencyMultiplier = 1,
-  baseRatePerWord = 0.8, // ₹0.80 per word base rate
-  className,
-}: PriceEstimateProps) {
-  const basePrice = wordCount * baseRatePerWord;
-  const urgencyFee = basePrice * (urgencyMultiplier - 1);
-  const subtotal = basePrice + urgencyFee;
-  const gst = subtotal * 0.18;
-  const total = subtotal + gst;
+export function PriceEstimate({ breakdown, isLoading, className }: PriceEstimateProps) {
+  if (!breakdown) {
+    if (!isLoading) return null;
 
-  if (wordCount <= 0) {
-    return null;
+    return (
+      <div className={cn("rounded-lg border bg-muted/30 p-4", className)}>
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Calculating estimate...
+        </div>
+      </div>
+    );
   }
 
+  const baseLabel =
+    breakdown.pricing_unit === "fixed"
+      ? "Base price"
+      : `Base (${breakdown.units.toLocaleString()} ${UNIT_LABELS[breakdown.pricing_unit]} × ₹${breakdown.unit_rate})`;
+
   return (
-    <div className={cn("rounded-lg border bg-muted/30 p-4", className)}>
+    <div className={cn("rounded-lg border bg-muted/30 p-4", isLoading && "opacity-60", className)}>
       <div className="space-y-3">
         {/* Header */}
         <div className="flex items-center justify-between">
@@ -59,26 +70,39 @@ export function PriceEstimate({
         {/* Breakdown */}
         <div className="space-y-2 text-sm">
           <div className="flex justify-between">
-            <span className="text-muted-foreground">
-              Base ({wordCount.toLocaleString()} words × ₹{baseRatePerWord})
+            <span className="text-muted-foreground">{baseLabel}</span>
+            <span className="font-medium tabular-nums">
+              ₹{Math.round(breakdown.base_price).toLocaleString()}
             </span>
-            <span className="font-medium tabular-nums">₹{Math.round(basePrice).toLocaleString()}</span>
           </div>
 
-          {urgencyMultiplier > 1 && (
+          {breakdown.urgency_fee > 0 && (
             <div className="flex justify-between">
               <span className="text-muted-foreground">
-                Urgency Fee ({Math.round((urgencyMultiplier - 1) * 100)}%)
+                Urgency Fee ({Math.round((breakdown.urgency_multiplier - 1) * 100)}%)
               </span>
               <span className="font-medium tabular-nums">
-                +₹{Math.round(urgencyFee).toLocaleString()}
+                +₹{Math.round(breakdown.urgency_fee).toLocaleString()}
+              </span>
+            </div>
+          )}
+
+          {breakdown.complexity_fee > 0 && (
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">
+                Complexity ({Math.round((breakdown.complexity_multiplier - 1) * 100)}%)
+              </span>
+              <span className="font-medium tabular-nums">
+                +₹{Math.round(breakdown.complexity_fee).toLocaleString()}
               </span>
             </div>
           )}
 
           <div className="flex justify-between">
-            <span className="text-muted-foreground">GST (18%)</span>
-            <span className="font-medium tabular-nums">₹{Math.round(gst).toLocaleString()}</span>
+            <span className="text-muted-foreground">GST ({breakdown.gst_percentage}%)</span>
+            <span className="font-medium tabular-nums">
+              ₹{Math.round(breakdown.gst_amount).toLocaleString()}
+            </span>
           </div>
         </div>
 
@@ -87,7 +111,7 @@ export function PriceEstimate({
           <div className="flex items-center justify-between">
             <span className="font-semibold">Total</span>
             <span className="text-xl font-bold tabular-nums">
-              ₹{Math.round(total).toLocaleString()}
+              ₹{Math.round(breakdown.total).toLocaleString()}
             </span>
           </div>
         </div>
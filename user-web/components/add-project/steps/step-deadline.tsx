@@ -10,18 +10,22 @@ import { DeadlinePicker } from "../deadline-picker";
 import { PriceEstimate } from "../price-estimate";
 import { urgencyLevels, type ProjectStep3Schema } from "@/lib/validations/project";
 import { cn } from "@/lib/utils";
+import type { PricingBreakdown } from "@/services";
 
 /** Props for StepDeadline component */
 interface StepDeadlineProps {
   form: UseFormReturn<ProjectStep3Schema>;
-  wordCount: number;
+  estimate: { breakdown: PricingBreakdown | null; isLoading: boolean };
   onSubmit: () => void;
 }
 
 /** Step 3: Deadline and urgency selection - Clean Professional Design */
-export function StepDeadline({ form, wordCount, onSubmit }: StepDeadlineProps) {
-  const selectedUrgency = urgencyLevels.find((u) => u.value === form.watch("urgency"));
-  const urgencyMultiplier = selectedUrgency?.multiplier || 1;
+export function StepDeadline({ form, estimate, onSubmit }: StepDeadlineProps) {
+  /** Urgency premium for a level, from the pricing guide */
+  const getUrgencyFee = (band: (typeof urgencyLevels)[number]["band"]) => {
+    if (band === "standard" || !estimate.breakdown) return 0;
+    return Math.round((estimate.breakdown.urgency_multipliers[band] - 1) * 100);
+  };
 
   return (
     <motion.form
@@ -74,9 +78,9 @@ export function StepDeadline({ form, wordCount, onSubmit }: StepDeadlineProps) {
               <RadioGroupItem value={level.value} id={level.value} />
               <label htmlFor={level.value} className="flex-1 cursor-pointer">
                 <div className="font-medium text-sm">{level.label}</div>
-                {level.multiplier > 1 && (
+                {getUrgencyFee(level.band) > 0 && (
                   <div className="text-xs text-muted-foreground mt-0.5">
-                    +{Math.round((level.multiplier - 1) * 100)}% fee
+                    +{getUrgencyFee(level.band)}% fee
                   </div>
                 )}
               </label>
@@ -86,7 +90,7 @@ export function StepDeadline({ form, wordCount, onSubmit }: StepDeadlineProps) {
       </div>
 
       {/* Price Estimate */}
-      <PriceEstimate wordCount={wordCount} urgencyMultiplier={urgencyMultiplier} />
+      <PriceEstimate breakdown={estimate.breakdown} isLoading={estimate.isLoading} />
 
       {/* Continue Button */}
       <Button type="submit" className="w-full h-12 text-sm font-medium mt-8">
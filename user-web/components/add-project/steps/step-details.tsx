@@ -10,14 +10,14 @@ import { FileUploadZone } from "../file-upload-zone";
 import { PriceEstimate } from "../price-estimate";
 import type { ProjectStep4Schema } from "@/lib/validations/project";
 import type { UploadedFile } from "@/types/add-project";
+import type { PricingBreakdown } from "@/services";
 
 /** Props for StepDetails component */
 interface StepDetailsProps {
   form: UseFormReturn<ProjectStep4Schema>;
   files: UploadedFile[];
   onFilesChange: (files: UploadedFile[]) => void;
-  wordCount: number;
-  urgencyMultiplier: number;
+  estimate: { breakdown: PricingBreakdown | null; isLoading: boolean };
   isSubmitting: boolean;
   onSubmit: () => void;
 }
@@ -27,8 +27,7 @@ export function StepDetails({
   form,
   files,
   onFilesChange,
-  wordCount,
-  urgencyMultiplier,
+  estimate,
   isSubmitting,
   onSubmit,
 }: StepDetailsProps) {
@@ -78,7 +77,7 @@ export function StepDetails({
       </div>
 
       {/* Price Estimate */}
-      <PriceEstimate wordCount={wordCount} urgencyMultiplier={urgencyMultiplier} />
+      <PriceEstimate breakdown={estimate.breakdown} isLoading={estimate.isLoading} />
 
       {/* Submit Button */}
       <Button type="submit" disabled={isSubmitting} className="w-full h-12 text-sm font-medium mt-8">
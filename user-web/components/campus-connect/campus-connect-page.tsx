@@ -47,6 +47,7 @@ import {
   Target,
   Handshake,
   PartyPopper,
+  Clock,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -62,6 +63,7 @@ import { Switch } from "@/components/ui/switch";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
 import { useUserStore } from "@/stores/user-store";
+import { ConnectSearchBar } from "@/components/connect/connect-search-bar";
 import { CampusConnectMasonryGrid } from "./masonry-grid";
 import { CollegeFilterCompact } from "./college-filter";
 import {
@@ -69,10 +71,13 @@ import {
   ActiveFiltersBar,
   CampusConnectFilters,
   defaultCampusConnectFilters,
+  getPostFilters,
 } from "./filter-sheet";
 import { CampusPulseHero } from "./campus-pulse-hero";
 import {
   getCampusConnectPosts,
+  getForYouCampusConnectPosts,
+  getCampusSearchSuggestions,
   togglePostLike,
   togglePostSave,
   checkCollegeVerification,
@@ -595,6 +600,8 @@ export function CampusConnectPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [searchSuggestions, setSearchSuggestions] = useState<string[]>([]);
   const [selectedCategory, setSelectedCategory] = useState<CampusConnectCategory | "all">("all");
   const [selectedUniversityId, setSelectedUniversityId] = useState<string | null>(null);
   const [myCollegeOnly, setMyCollegeOnly] = useState(false);
@@ -602,7 +609,10 @@ export function CampusConnectPage() {
   const [isVerified, setIsVerified] = useState(false);
   const [internalFilters, setInternalFilters] = useState<CampusConnectFilters>(defaultCampusConnectFilters);
   const [hasMore, setHasMore] = useState(false);
-  const [page, setPage] = useState(0);
+  const [feedSort, setFeedSort] = useState<"for_you" | "recent">("for_you");
+  // Where the next page starts; refs so loading a page doesn't recreate fetchPosts
+  const pageRef = useRef(0);
+  const feedCursorRef = useRef<string | null>(null);
 
   const POSTS_PER_PAGE = 20;
 
@@ -628,25 +638,51 @@ export function CampusConnectPage() {
     try {
       if (reset) {
         setIsLoading(true);
-        setPage(0);
+        pageRef.current = 0;
+        feedCursorRef.current = null;
       }
       setError(null);
 
-      const currentPage = reset ? 0 : page;
-      const { data, total, error: fetchError } = await getCampusConnectPosts({
+      const filters = {
         category: selectedCategory,
         universityId: myCollegeOnly ? undefined : selectedUniversityId,
-        search: searchQuery || undefined,
-        sortBy: "recent",
         limit: POSTS_PER_PAGE,
-        offset: currentPage * POSTS_PER_PAGE,
         excludeHousing: !isStudent,
-      });
-
-      if (fetchError) {
-        setError(fetchError);
-        toast.error(fetchError);
-        return;
+        ...getPostFilters(internalFilters),
+      };
+
+      // Searches are ranked by relevance, so the feed order only applies without one
+      const isForYou = feedSort === "for_you" && !debouncedSearch.trim();
+      const currentPage = reset ? 0 : pageRef.current + 1;
+
+      let data: CampusConnectPost[];
+      let more: boolean;
+
+      if (isForYou) {
+        const result = await getForYouCampusConnectPosts(filters, reset ? null : feedCursorRef.current);
+        if (result.error) {
+          setError(result.error);
+          toast.error(result.error);
+          return;
+        }
+        data = result.data;
+        more = result.nextCursor !== null;
+        feedCursorRef.current = result.nextCursor;
+      } else {
+        const result = await getCampusConnectPosts({
+          ...filters,
+          search: debouncedSearch || undefined,
+          sortBy: debouncedSearch.trim() ? "relevance" : "recent",
+          offset: currentPage * POSTS_PER_PAGE,
+        });
+        if (result.error) {
+          setError(result.error);
+          toast.error(result.error);
+          return;
+        }
+        data = result.data;
+        more = data.length === POSTS_PER_PAGE && (currentPage + 1) * POSTS_PER_PAGE < result.total;
+        pageRef.current = currentPage;
       }
 
       let filteredData = data;
@@ -657,10 +693,14 @@ export function CampusConnectPage() {
       if (reset) {
         setPosts(filteredData);
       } else {
-        setPosts(prev => [...prev, ...filteredData]);
+        // A post whose score changed can come back on a later page; keep the first copy
+        setPosts(prev => {
+          const seen = new Set(prev.map(post => post.id));
+          return [...prev, ...filteredData.filter(post => !seen.has(post.id))];
+        });
       }
 
-      setHasMore(filteredData.length === POSTS_PER_PAGE && (currentPage + 1) * POSTS_PER_PAGE < total);
+      setHasMore(more);
     } catch (err) {
       const message = err instanceof Error ? err.message : "Failed to load posts";
       setError(message);
@@ -668,23 +708,41 @@ export function CampusConnectPage() {
     } finally {
       setIsLoading(false);
     }
-  }, [selectedCategory, selectedUniversityId, searchQuery, myCollegeOnly, page, isStudent]);
+  }, [selectedCategory, selectedUniversityId, debouncedSearch, myCollegeOnly, isStudent, internalFilters, feedSort]);
 
+  // Reload from the top whenever a filter or the (debounced) search changes
   useEffect(() => {
     fetchPosts(true);
-  }, [selectedCategory, selectedUniversityId, myCollegeOnly]);
+  }, [fetchPosts]);
 
   useEffect(() => {
-    const timer = setTimeout(() => {
-      if (searchQuery !== undefined) {
-        fetchPosts(true);
-      }
-    }, 300);
+    const timer = setTimeout(() => setDebouncedSearch(searchQuery), 300);
     return () => clearTimeout(timer);
   }, [searchQuery]);
 
+  // Typo-tolerant suggestions for the search bar
+  useEffect(() => {
+    if (searchQuery.trim().length < 2) {
+      setSearchSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const { data } = await getCampusSearchSuggestions(searchQuery, {
+        universityId: myCollegeOnly ? undefined : selectedUniversityId,
+        excludeHousing: !isStudent,
+      });
+      if (!cancelled) setSearchSuggestions(data);
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchQuery, selectedUniversityId, myCollegeOnly, isStudent]);
+
   const handleLoadMore = useCallback(() => {
-    setPage(prev => prev + 1);
     fetchPosts(false);
   }, [fetchPosts]);
 
@@ -827,24 +885,15 @@ export function CampusConnectPage() {
 
           {/* Search + Filters */}
           <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4 mb-6">
-            <div className="relative w-full sm:w-auto flex-1 max-w-md">
-              <Search className="absolute left-4 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-              <input
-                type="text"
-                placeholder="Search posts, questions, events..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                className="w-full h-12 pl-11 pr-4 text-sm bg-white/80 dark:bg-white/5 backdrop-blur-sm border border-border/50 rounded-2xl focus:outline-none focus:ring-2 focus:ring-violet-500/20 focus:border-violet-500/50 transition-all"
-              />
-              {searchQuery && (
-                <button
-                  onClick={() => setSearchQuery("")}
-                  className="absolute right-4 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground transition-colors"
-                >
-                  <X className="h-4 w-4" />
-                </button>
-              )}
-            </div>
+            <ConnectSearchBar
+              value={searchQuery}
+              onChange={setSearchQuery}
+              placeholder="Search posts, questions, events..."
+              showFilterButton={false}
+              suggestions={searchSuggestions}
+              className="w-full sm:w-auto flex-1 max-w-md"
+              inputClassName="h-12 text-sm bg-white/80 dark:bg-white/5 backdrop-blur-sm border-border/50 rounded-2xl"
+            />
 
             <div className="flex items-center gap-3">
               <CollegeFilterCompact
@@ -901,6 +950,30 @@ export function CampusConnectPage() {
 
           <ActiveFiltersBar filters={internalFilters} onFiltersChange={setInternalFilters} className="mb-4" />
 
+          {/* Feed Order */}
+          {!searchQuery.trim() && (
+            <div className="flex items-center gap-1 mb-4 p-1 w-fit rounded-full bg-white/80 dark:bg-white/5 border border-border/50">
+              {([
+                { id: "for_you", label: "For you", icon: Sparkles },
+                { id: "recent", label: "Latest", icon: Clock },
+              ] as const).map((option) => (
+                <button
+                  key={option.id}
+                  onClick={() => setFeedSort(option.id)}
+                  className={cn(
+                    "flex items-center gap-1.5 px-4 py-1.5 text-sm font-medium rounded-full transition-all duration-200",
+                    feedSort === option.id
+                      ? "bg-foreground text-background shadow"
+                      : "text-muted-foreground hover:text-foreground"
+                  )}
+                >
+                  <option.icon className="h-3.5 w-3.5" />
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          )}
+
           {/* All Category Tabs */}
           <div className="mb-6">
             <div className="flex flex-wrap gap-2">
@@ -1021,6 +1094,8 @@ export function CampusConnectPage() {
               >
                 <EmptyState
                   searchQuery={searchQuery}
+                  suggestions={searchSuggestions}
+                  onSuggestionSelect={setSearchQuery}
                   selectedCategory={selectedCategory}
                   isVerified={isVerified}
                   onClearFilters={clearFilters}
@@ -1078,13 +1153,16 @@ export function CampusConnectPage() {
 
 interface EmptyStateProps {
   searchQuery: string;
+  /** Close matches for a misspelt search */
+  suggestions: string[];
+  onSuggestionSelect: (suggestion: string) => void;
   selectedCategory: CampusConnectCategory | "all";
   isVerified: boolean;
   onClearFilters: () => void;
   allCategories: CategoryCardConfig[];
 }
 
-function EmptyState({ searchQuery, selectedCategory, isVerified, onClearFilters, allCategories }: EmptyStateProps) {
+function EmptyState({ searchQuery, suggestions, onSuggestionSelect, selectedCategory, isVerified, onClearFilters, allCategories }: EmptyStateProps) {
   if (searchQuery) {
     return (
       <div className="flex flex-col items-center justify-center py-20 text-center">
@@ -1093,6 +1171,20 @@ function EmptyState({ searchQuery, selectedCategory, isVerified, onClearFilters,
         </div>
         <h3 className="text-xl font-semibold mb-2">No results found</h3>
         <p className="text-sm text-muted-foreground max-w-xs mb-6">No posts match &quot;{searchQuery}&quot;</p>
+        {suggestions.length > 0 && (
+          <div className="flex flex-wrap items-center justify-center gap-2 max-w-md mb-6">
+            <span className="text-xs text-muted-foreground">Did you mean</span>
+            {suggestions.slice(0, 3).map((suggestion) => (
+              <button
+                key={suggestion}
+                onClick={() => onSuggestionSelect(suggestion)}
+                className="text-xs rounded-full px-3 py-1 bg-violet-50 dark:bg-violet-950/30 text-violet-700 dark:text-violet-300 hover:bg-violet-100 dark:hover:bg-violet-900/40 transition-colors"
+              >
+                {suggestion}
+              </button>
+            ))}
+          </div>
+        )}
         <Button variant="outline" className="rounded-xl h-11 px-6" onClick={onClearFilters}>
           Clear Search
         </Button>
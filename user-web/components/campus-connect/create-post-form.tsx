@@ -149,6 +149,10 @@ export function CreatePostForm() {
   const [selectedCategory, setSelectedCategory] = useState<CampusConnectCategory | null>(null);
   const [title, setTitle] = useState("");
   const [content, setContent] = useState("");
+  const [eventStart, setEventStart] = useState("");
+  const [eventEnd, setEventEnd] = useState("");
+  const [eventVenue, setEventVenue] = useState("");
+  const [eventCapacity, setEventCapacity] = useState("");
   const [images, setImages] = useState<Array<{ file: File; preview: string; uploading: boolean }>>([]);
   const [uploadedUrls, setUploadedUrls] = useState<string[]>([]);
 
@@ -244,6 +248,27 @@ export function CreatePostForm() {
       return;
     }
 
+    const isEvent = selectedCategory === "events";
+    // datetime-local values are in the user's time zone; send them as UTC
+    const eventDate = isEvent && eventStart ? new Date(eventStart) : null;
+    const eventEndDate = isEvent && eventEnd ? new Date(eventEnd) : null;
+    const capacity = isEvent && eventCapacity ? Number(eventCapacity) : undefined;
+
+    if (isEvent) {
+      if (!eventDate || eventDate.getTime() <= Date.now()) {
+        toast.error("Please pick a start time in the future");
+        return;
+      }
+      if (eventEndDate && eventEndDate.getTime() <= eventDate.getTime()) {
+        toast.error("The event must end after it starts");
+        return;
+      }
+      if (capacity !== undefined && (!Number.isInteger(capacity) || capacity < 1)) {
+        toast.error("Capacity must be a whole number of at least 1");
+        return;
+      }
+    }
+
     // Check if any images are still uploading
     if (images.some(img => img.uploading)) {
       toast.error("Please wait for images to finish uploading");
@@ -258,6 +283,12 @@ export function CreatePostForm() {
         title: title.trim(),
         content: content.trim(),
         imageUrls: uploadedUrls,
+        ...(isEvent && {
+          eventDate: eventDate?.toISOString(),
+          eventEndDate: eventEndDate?.toISOString(),
+          eventVenue: eventVenue.trim() || undefined,
+          eventCapacity: capacity,
+        }),
       });
 
       if (error) {
@@ -413,6 +444,61 @@ export function CreatePostForm() {
             />
           </div>
 
+          {/* Event details */}
+          {selectedCategory === "events" && (
+            <div className="space-y-4 rounded-xl border border-border p-4">
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="event-start">Starts</Label>
+                  <Input
+                    id="event-start"
+                    type="datetime-local"
+                    value={eventStart}
+                    onChange={(e) => setEventStart(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="event-end">Ends (Optional)</Label>
+                  <Input
+                    id="event-end"
+                    type="datetime-local"
+                    value={eventEnd}
+                    min={eventStart || undefined}
+                    onChange={(e) => setEventEnd(e.target.value)}
+                  />
+                </div>
+              </div>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="event-venue">Venue</Label>
+                  <Input
+                    id="event-venue"
+                    placeholder="e.g. Main Auditorium"
+                    value={eventVenue}
+                    onChange={(e) => setEventVenue(e.target.value)}
+                    maxLength={200}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="event-capacity">Capacity (Optional)</Label>
+                  <Input
+                    id="event-capacity"
+                    type="number"
+                    inputMode="numeric"
+                    min={1}
+                    step={1}
+                    placeholder="Unlimited"
+                    value={eventCapacity}
+                    onChange={(e) => setEventCapacity(e.target.value)}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Once the event is full, new RSVPs join a waitlist and move up as seats free up.
+              </p>
+            </div>
+          )}
+
           {/* Images */}
           <div className="space-y-3">
             <Label className="text-base font-medium">Images (Optional)</Label>
@@ -0,0 +1,210 @@
+"use client";
+
+/**
+ * EventRsvp - Going / interested / not going controls for an event post
+ * Shows attendee counts against the capacity, the viewer's waitlist state and
+ * an "Add to calendar" download. Organisers get the attendee list instead of
+ * the RSVP buttons.
+ */
+
+import { useEffect, useState } from "react";
+import { CalendarPlus, Check, Hourglass, Loader2, Star, Users, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+import { getEventAttendees, rsvpToEvent } from "@/lib/actions/campus-connect";
+import type {
+  CampusConnectPost,
+  EventAttendee,
+  EventRsvpCounts,
+  EventRsvpStatus,
+} from "@/types/campus-connect";
+
+interface EventRsvpProps {
+  post: CampusConnectPost;
+  /** The viewer organised this event */
+  isOwner: boolean;
+  /** Whether the viewer is signed in */
+  isSignedIn: boolean;
+}
+
+const RSVP_OPTIONS: Array<{
+  status: Exclude<EventRsvpStatus, "waitlisted">;
+  label: string;
+  icon: typeof Check;
+}> = [
+  { status: "going", label: "Going", icon: Check },
+  { status: "interested", label: "Interested", icon: Star },
+  { status: "not_going", label: "Not going", icon: X },
+];
+
+const STATUS_LABELS: Record<EventRsvpStatus, string> = {
+  going: "Going",
+  interested: "Interested",
+  not_going: "Not going",
+  waitlisted: "Waitlisted",
+};
+
+export function EventRsvp({ post, isOwner, isSignedIn }: EventRsvpProps) {
+  const [status, setStatus] = useState<EventRsvpStatus | null>(post.myRsvp ?? null);
+  const [counts, setCounts] = useState<EventRsvpCounts>(
+    post.rsvpCounts ?? { going: 0, interested: 0, waitlisted: 0 }
+  );
+  const [pending, setPending] = useState<EventRsvpStatus | null>(null);
+
+  const capacity = post.eventCapacity ?? null;
+  const isFull = capacity !== null && counts.going >= capacity;
+  // RSVPs close once the event starts (checked again by rsvp_campus_event)
+  const [hasStarted] = useState(
+    () => !!post.eventDate && new Date(post.eventDate).getTime() <= Date.now()
+  );
+
+  const handleRsvp = async (next: Exclude<EventRsvpStatus, "waitlisted">) => {
+    if (!isSignedIn) {
+      toast.error("Please sign in to RSVP");
+      return;
+    }
+
+    setPending(next);
+    const { data, error } = await rsvpToEvent(post.id, next);
+    setPending(null);
+
+    if (error || !data) {
+      toast.error(error || "Failed to update RSVP");
+      return;
+    }
+
+    setStatus(data.status);
+    setCounts(data.counts);
+    if (data.status === "waitlisted" && next === "going" && status !== "waitlisted") {
+      toast.success("The event is full - you're on the waitlist");
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Counts */}
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm">
+        <span className="flex items-center gap-1.5 font-medium">
+          <Users className="h-3.5 w-3.5 text-muted-foreground" />
+          {capacity !== null ? `${counts.going}/${capacity} going` : `${counts.going} going`}
+        </span>
+        <span className="text-muted-foreground">{counts.interested} interested</span>
+        {counts.waitlisted > 0 && (
+          <span className="text-muted-foreground">{counts.waitlisted} on waitlist</span>
+        )}
+        {isFull && (
+          <Badge variant="secondary" className="text-[10px]">Full</Badge>
+        )}
+      </div>
+
+      {/* RSVP buttons */}
+      {!isOwner && !hasStarted && (
+        <div className="flex flex-wrap gap-2">
+          {RSVP_OPTIONS.map(({ status: option, label, icon: Icon }) => {
+            const isSelected =
+              status === option || (option === "going" && status === "waitlisted");
+            return (
+              <Button
+                key={option}
+                type="button"
+                size="sm"
+                variant={isSelected ? "default" : "outline"}
+                disabled={pending !== null}
+                onClick={() => handleRsvp(option)}
+                className="gap-1.5 rounded-full"
+              >
+                {pending === option ? (
+                  <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                ) : (
+                  <Icon className="h-3.5 w-3.5" />
+                )}
+                {option === "going" && isFull && status !== "going" && status !== "waitlisted"
+                  ? "Join waitlist"
+                  : label}
+              </Button>
+            );
+          })}
+        </div>
+      )}
+
+      {status === "waitlisted" && (
+        <p className="flex items-center gap-1.5 text-xs text-muted-foreground">
+          <Hourglass className="h-3.5 w-3.5" />
+          You&apos;re on the waitlist. We&apos;ll let you know if a seat opens up.
+        </p>
+      )}
+
+      {post.eventDate && (
+        <Button asChild size="sm" variant="ghost" className="gap-1.5 px-2">
+          <a href={`/api/campus-connect/events/${post.id}/ics`} download>
+            <CalendarPlus className="h-3.5 w-3.5" />
+            Add to calendar
+          </a>
+        </Button>
+      )}
+
+      {isOwner && <EventAttendeeList postId={post.id} />}
+    </div>
+  );
+}
+
+/**
+ * Attendee list for the organiser
+ */
+function EventAttendeeList({ postId }: { postId: string }) {
+  const [attendees, setAttendees] = useState<EventAttendee[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getEventAttendees(postId).then(({ data, error }) => {
+      if (cancelled) return;
+      if (error) toast.error(error);
+      setAttendees(data);
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [postId]);
+
+  return (
+    <div className="space-y-2 pt-2">
+      <h4 className="text-sm font-medium">Attendees</h4>
+      {isLoading ? (
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      ) : attendees.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No RSVPs yet</p>
+      ) : (
+        <ul className="max-h-72 space-y-2 overflow-y-auto">
+          {attendees.map((attendee) => (
+            <li key={attendee.userId} className="flex items-center gap-2.5">
+              <Avatar className="h-7 w-7">
+                <AvatarImage src={attendee.avatar || undefined} />
+                <AvatarFallback className="text-[10px]">
+                  {attendee.name.charAt(0).toUpperCase()}
+                </AvatarFallback>
+              </Avatar>
+              <span className="flex-1 truncate text-sm">{attendee.name}</span>
+              <span
+                className={cn(
+                  "rounded-full px-2 py-0.5 text-[10px] font-medium",
+                  attendee.status === "going" && "bg-emerald-100 text-emerald-700 dark:bg-emerald-900/40 dark:text-emerald-300",
+                  attendee.status === "waitlisted" && "bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300",
+                  attendee.status === "interested" && "bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-300"
+                )}
+              >
+                {STATUS_LABELS[attendee.status]}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -32,6 +32,8 @@ import {
   SheetFooter,
 } from "@/components/ui/sheet";
 import { cn } from "@/lib/utils";
+import { startOfDay, endOfDay } from "date-fns";
+import type { CampusConnectFilters as PostFilters } from "@/types/campus-connect";
 import {
   HousingFiltersPanel,
   HousingFilters,
@@ -68,6 +70,34 @@ export const defaultCampusConnectFilters: CampusConnectFilters = {
   resources: defaultResourceFilters,
 };
 
+/**
+ * Post query filters (event date and price range) for the current sheet state,
+ * passed on to getCampusConnectPosts / searchCampusConnectPosts
+ */
+export function getPostFilters(
+  filters: CampusConnectFilters
+): Pick<PostFilters, "eventDateFrom" | "eventDateTo" | "minPrice" | "maxPrice"> {
+  const postFilters: Pick<PostFilters, "eventDateFrom" | "eventDateTo" | "minPrice" | "maxPrice"> = {};
+
+  const { from, to } = filters.events.dateRange ?? {};
+  if (from) {
+    postFilters.eventDateFrom = startOfDay(from).toISOString();
+  }
+  if (to) {
+    postFilters.eventDateTo = endOfDay(to).toISOString();
+  }
+
+  const [minPrice, maxPrice] = filters.housing.priceRange;
+  if (minPrice > defaultHousingFilters.priceRange[0]) {
+    postFilters.minPrice = minPrice;
+  }
+  if (maxPrice < defaultHousingFilters.priceRange[1]) {
+    postFilters.maxPrice = maxPrice;
+  }
+
+  return postFilters;
+}
+
 /**
  * Filter tabs configuration
  */
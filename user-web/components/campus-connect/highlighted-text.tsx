@@ -0,0 +1,60 @@
+"use client";
+
+/**
+ * HighlightedText - Renders a search snippet with matched terms marked
+ * Snippets come from search_campus_posts_ranked, which wraps matches in
+ * HIGHLIGHT_START / HIGHLIGHT_END instead of HTML.
+ */
+
+import { Fragment } from "react";
+import { cn } from "@/lib/utils";
+import { HIGHLIGHT_END, HIGHLIGHT_START } from "@/types/campus-connect";
+
+interface HighlightedTextProps {
+  /** Snippet with highlight markers */
+  text: string;
+  /** Class name for the matched terms */
+  markClassName?: string;
+}
+
+/**
+ * Split a snippet into plain and matched parts
+ */
+function splitHighlight(text: string): { text: string; match: boolean }[] {
+  const parts: { text: string; match: boolean }[] = [];
+
+  text.split(HIGHLIGHT_START).forEach((chunk, index) => {
+    if (index === 0) {
+      if (chunk) parts.push({ text: chunk, match: false });
+      return;
+    }
+    const [match, ...rest] = chunk.split(HIGHLIGHT_END);
+    if (match) parts.push({ text: match, match: true });
+    const after = rest.join("");
+    if (after) parts.push({ text: after, match: false });
+  });
+
+  return parts;
+}
+
+export function HighlightedText({ text, markClassName }: HighlightedTextProps) {
+  return (
+    <>
+      {splitHighlight(text).map((part, index) =>
+        part.match ? (
+          <mark
+            key={index}
+            className={cn(
+              "rounded-sm bg-amber-200/70 px-0.5 text-inherit dark:bg-amber-400/30",
+              markClassName
+            )}
+          >
+            {part.text}
+          </mark>
+        ) : (
+          <Fragment key={index}>{part.text}</Fragment>
+        )
+      )}
+    </>
+  );
+}
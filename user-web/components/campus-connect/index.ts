@@ -4,6 +4,7 @@
 // Core Components
 export { PostCard } from "./post-card";
 export { CampusConnectMasonryGrid } from "./masonry-grid";
+export { HighlightedText } from "./highlighted-text";
 
 // Hero Components (Campus Pulse)
 export { CampusPulseHero } from "./campus-pulse-hero";
@@ -35,6 +36,7 @@ export {
   FilterSheet,
   ActiveFiltersBar,
   defaultCampusConnectFilters,
+  getPostFilters,
   type CampusConnectFilters,
 } from "./filter-sheet";
 
@@ -44,6 +46,7 @@ export { SaveButton, SaveButtonOutline } from "./save-button";
 export { CommentSection } from "./comment-section";
 export { ReportButton, ReportButtonOutline } from "./report-button";
 export { ReportDialog } from "./report-dialog";
+export { EventRsvp } from "./event-rsvp";
 export { SavedListings } from "./saved-listings";
 
 // Page Components
@@ -37,6 +37,7 @@ import { cn } from "@/lib/utils";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import type { CampusConnectPost, CampusConnectCategory } from "@/types/campus-connect";
+import { HighlightedText } from "./highlighted-text";
 
 interface PostCardProps {
   post: CampusConnectPost;
@@ -304,14 +305,40 @@ export const PostCard = memo(function PostCard({
 
           {/* Title */}
           <h3 className="font-semibold text-[15px] leading-snug line-clamp-2 text-foreground group-hover:text-blue-600 dark:group-hover:text-blue-400 transition-colors">
-            {post.title}
+            {post.highlight ? <HighlightedText text={post.highlight.title} /> : post.title}
           </h3>
 
-          {/* Preview Text */}
+          {/* Preview Text (matched snippet on search results) */}
           <p className="text-xs text-muted-foreground line-clamp-2 leading-relaxed">
-            {post.previewText}
+            {post.highlight?.content ? <HighlightedText text={post.highlight.content} /> : post.previewText}
           </p>
 
+          {/* Event date and attendance */}
+          {post.category === "events" && post.rsvpCounts && (
+            <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-[11px] text-muted-foreground">
+              {post.eventDate && (
+                <span className="flex items-center gap-1 font-medium text-cyan-700 dark:text-cyan-300">
+                  <Calendar className="h-3 w-3" />
+                  {new Date(post.eventDate).toLocaleString("en-IN", {
+                    day: "numeric",
+                    month: "short",
+                    hour: "numeric",
+                    minute: "2-digit",
+                  })}
+                </span>
+              )}
+              <span className="flex items-center gap-1">
+                <Users className="h-3 w-3" />
+                {post.eventCapacity
+                  ? `${post.rsvpCounts.going}/${post.eventCapacity} going`
+                  : `${post.rsvpCounts.going} going`}
+              </span>
+              {post.rsvpCounts.interested > 0 && (
+                <span>· {post.rsvpCounts.interested} interested</span>
+              )}
+            </div>
+          )}
+
           {/* Author Info */}
           <div className="flex items-center gap-2.5 pt-1">
             <Avatar className="h-7 w-7 ring-2 ring-white dark:ring-slate-800">
@@ -47,6 +47,8 @@ import { cn } from "@/lib/utils";
 import { toast } from "sonner";
 import { useUserStore } from "@/stores/user-store";
 import { CommentSection } from "./comment-section";
+import { EventRsvp } from "./event-rsvp";
+import { ReportDialog } from "./report-dialog";
 import {
   getCampusConnectPostById,
   getPostComments,
@@ -135,6 +137,7 @@ export function PostDetailView({ postId }: PostDetailViewProps) {
   const [isLiking, setIsLiking] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [selectedImageIndex, setSelectedImageIndex] = useState(0);
+  const [isReportOpen, setIsReportOpen] = useState(false);
 
   // Check verification
   useEffect(() => {
@@ -228,6 +231,15 @@ export function PostDetailView({ postId }: PostDetailViewProps) {
     setIsSaving(false);
   };
 
+  // Handle report
+  const handleReport = () => {
+    if (!user) {
+      toast.error("Please sign in to report posts");
+      return;
+    }
+    setIsReportOpen(true);
+  };
+
   // Handle share
   const handleShare = async () => {
     const url = `${window.location.origin}/campus-connect/${postId}`;
@@ -425,7 +437,9 @@ export function PostDetailView({ postId }: PostDetailViewProps) {
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end">
                 <DropdownMenuItem onClick={handleShare}>Share</DropdownMenuItem>
-                <DropdownMenuItem>Report</DropdownMenuItem>
+                {!isOwner && (
+                  <DropdownMenuItem onClick={handleReport}>Report</DropdownMenuItem>
+                )}
                 {isOwner && (
                   <>
                     <DropdownMenuSeparator />
@@ -535,7 +549,12 @@ export function PostDetailView({ postId }: PostDetailViewProps) {
           </div>
 
           {/* Category-specific content sections */}
-          <CategorySpecificSection post={post} category={post.category} />
+          <CategorySpecificSection
+            post={post}
+            category={post.category}
+            isOwner={isOwner}
+            isSignedIn={!!user}
+          />
 
           {/* Meta Info */}
           <div className="flex items-center gap-4 text-sm text-muted-foreground pt-4 border-t border-border/50">
@@ -566,6 +585,13 @@ export function PostDetailView({ postId }: PostDetailViewProps) {
           />
         </div>
       </div>
+
+      <ReportDialog
+        listingId={postId}
+        target="post"
+        isOpen={isReportOpen}
+        onOpenChange={setIsReportOpen}
+      />
     </div>
   );
 }
@@ -576,10 +602,14 @@ export function PostDetailView({ postId }: PostDetailViewProps) {
  */
 function CategorySpecificSection({
   post,
-  category
+  category,
+  isOwner,
+  isSignedIn,
 }: {
   post: CampusConnectPost;
   category: CampusConnectCategory;
+  isOwner: boolean;
+  isSignedIn: boolean;
 }) {
   // Parse structured data from content (if available in format like "Location: xyz")
   const parseContentField = (content: string, field: string): string | null => {
@@ -687,8 +717,12 @@ function CategorySpecificSection({
       );
 
     case "events": {
-      const date = parseContentField(post.content, "Date") || parseContentField(post.content, "When");
-      const venue = parseContentField(post.content, "Venue") || parseContentField(post.content, "Location");
+      // Older posts only have the date and venue in their text
+      const date = post.eventDate
+        ? new Date(post.eventDate).toLocaleString("en-IN", { dateStyle: "medium", timeStyle: "short" })
+        : parseContentField(post.content, "Date") || parseContentField(post.content, "When");
+      const venue = post.eventVenue || post.location
+        || parseContentField(post.content, "Venue") || parseContentField(post.content, "Location");
       return (
         <div className="bg-cyan-50/50 dark:bg-cyan-900/10 rounded-xl p-4 border border-cyan-200/50 dark:border-cyan-800/30 mb-4">
           <div className="flex items-center gap-2 mb-3">
@@ -710,9 +744,13 @@ function CategorySpecificSection({
             )}
           </div>
           <div className="mt-3 pt-3 border-t border-cyan-200/50 dark:border-cyan-800/30">
-            <p className="text-xs text-cyan-600/70 dark:text-cyan-400/70">
-              Don&apos;t miss out! Mark your calendar
-            </p>
+            {post.eventDate ? (
+              <EventRsvp post={post} isOwner={isOwner} isSignedIn={isSignedIn} />
+            ) : (
+              <p className="text-xs text-cyan-600/70 dark:text-cyan-400/70">
+                Don&apos;t miss out! Mark your calendar
+              </p>
+            )}
           </div>
         </div>
       );
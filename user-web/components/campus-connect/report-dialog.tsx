@@ -35,7 +35,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { cn } from "@/lib/utils";
-import { reportListing } from "@/lib/actions/campus-connect";
+import { reportCampusPost, reportListing } from "@/lib/actions/campus-connect";
 
 /** Report reason options */
 export type ReportReason = "scam" | "inappropriate" | "inaccurate" | "spam" | "other";
@@ -81,8 +81,10 @@ const reportReasons: ReportReasonOption[] = [
 ];
 
 interface ReportDialogProps {
-  /** The listing ID to report */
+  /** The listing (or campus post) ID to report */
   listingId: string;
+  /** What is being reported; campus posts are filed as post reports */
+  target?: "listing" | "post";
   /** Whether the dialog is open */
   isOpen: boolean;
   /** Callback when dialog open state changes */
@@ -96,6 +98,7 @@ interface ReportDialogProps {
  */
 export function ReportDialog({
   listingId,
+  target = "listing",
   isOpen,
   onOpenChange,
   onSuccess,
@@ -116,7 +119,8 @@ export function ReportDialog({
     setError(null);
 
     try {
-      const result = await reportListing(listingId, selectedReason, details || undefined);
+      const submit = target === "post" ? reportCampusPost : reportListing;
+      const result = await submit(listingId, selectedReason, details || undefined);
 
       if (result.error) {
         setError(result.error);
@@ -192,7 +196,9 @@ export function ReportDialog({
                     <Flag className="h-5 w-5 text-amber-600 dark:text-amber-400" />
                   </div>
                   <div>
-                    <DialogTitle className="text-lg">Report Listing</DialogTitle>
+                    <DialogTitle className="text-lg">
+                      {target === "post" ? "Report Post" : "Report Listing"}
+                    </DialogTitle>
                     <DialogDescription className="text-sm">
                       Help us maintain a safe community
                     </DialogDescription>
@@ -205,7 +211,7 @@ export function ReportDialog({
                 {/* Reason Selection */}
                 <div className="space-y-3">
                   <Label className="text-sm font-medium">
-                    Why are you reporting this listing?
+                    Why are you reporting this {target}?
                   </Label>
                   <RadioGroup
                     value={selectedReason || ""}
@@ -1,7 +1,7 @@
 "use client";
 
 import { useState } from "react";
-import { Calendar, Clock, Loader2 } from "lucide-react";
+import { Loader2, Wallet } from "lucide-react";
 import { motion } from "framer-motion";
 import {
   Sheet,
@@ -16,19 +16,11 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/select";
-import { Calendar as CalendarComponent } from "@/components/ui/calendar";
-import { cn } from "@/lib/utils";
+import { BookingCalendar } from "@/components/experts/booking-calendar";
 import { toast } from "sonner";
-import { bookExpertSession } from "@/lib/actions/data";
-import type { Tutor, TimeSlot } from "@/types/connect";
-import { availableTimeSlots } from "@/lib/data/connect";
+import { bookExpertSession } from "@/lib/actions/experts";
+import type { Tutor } from "@/types/connect";
+import type { TimeSlot } from "@/types/expert";
 
 interface BookSessionSheetProps {
   tutor: Tutor | null;
@@ -37,15 +29,9 @@ interface BookSessionSheetProps {
   onSuccess?: () => void;
 }
 
-const durations = [
-  { value: "30", label: "30 min", multiplier: 0.5 },
-  { value: "60", label: "1 hour", multiplier: 1 },
-  { value: "90", label: "1.5 hours", multiplier: 1.5 },
-  { value: "120", label: "2 hours", multiplier: 2 },
-];
-
 /**
  * Book Session Sheet - Minimalist Design
+ * Books one of the tutor's open slots and pays from the wallet
  */
 export function BookSessionSheet({
   tutor,
@@ -54,8 +40,7 @@ export function BookSessionSheet({
   onSuccess,
 }: BookSessionSheetProps) {
   const [selectedDate, setSelectedDate] = useState<Date | undefined>();
-  const [selectedTimeSlot, setSelectedTimeSlot] = useState<string>("");
-  const [duration, setDuration] = useState("60");
+  const [selectedTimeSlot, setSelectedTimeSlot] = useState<TimeSlot | null>(null);
   const [notes, setNotes] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
 
@@ -70,8 +55,8 @@ export function BookSessionSheet({
       .slice(0, 2);
   };
 
-  const selectedDuration = durations.find((d) => d.value === duration);
-  const totalPrice = tutor.hourlyRate * (selectedDuration?.multiplier || 1);
+  const duration = selectedTimeSlot?.duration ?? 60;
+  const totalPrice = selectedTimeSlot?.price ?? (tutor.hourlyRate * duration) / 60;
 
   const handleSubmit = async () => {
     if (!selectedDate || !selectedTimeSlot) {
@@ -82,18 +67,14 @@ export function BookSessionSheet({
     setIsSubmitting(true);
 
     try {
-      const timeSlot = availableTimeSlots.find((s: TimeSlot) => s.id === selectedTimeSlot);
-
       const result = await bookExpertSession({
-        expertId: tutor.id,
-        sessionType: `${duration}-minute session`,
-        date: selectedDate.toISOString().split("T")[0],
-        time: timeSlot?.time || selectedTimeSlot,
+        slotId: selectedTimeSlot.id,
         topic: `Session with ${tutor.name} - ${tutor.subjects[0] || "General"}`,
         notes: notes || undefined,
+        paymentMethod: "wallet",
       });
 
-      if (result.error) {
+      if ("error" in result) {
         toast.error(result.error);
         return;
       }
@@ -104,8 +85,7 @@ export function BookSessionSheet({
 
       // Reset form
       setSelectedDate(undefined);
-      setSelectedTimeSlot("");
-      setDuration("60");
+      setSelectedTimeSlot(null);
       setNotes("");
     } catch {
       toast.error("Failed to book session. Please try again.");
@@ -114,12 +94,6 @@ export function BookSessionSheet({
     }
   };
 
-  const isDateDisabled = (date: Date) => {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    return date < today;
-  };
-
   return (
     <Sheet open={open} onOpenChange={onOpenChange}>
       <SheetContent side="bottom" className="h-[85vh] rounded-t-2xl flex flex-col">
@@ -137,71 +111,17 @@ export function BookSessionSheet({
         </SheetHeader>
 
         <SheetBody className="space-y-6">
-          {/* Date Selection */}
-          <div className="space-y-2">
-            <Label className="flex items-center gap-2 text-sm">
-              <Calendar className="h-3.5 w-3.5" />
-              Select Date
-            </Label>
-            <div className="flex justify-center rounded-xl border border-border p-3">
-              <CalendarComponent
-                mode="single"
-                selected={selectedDate}
-                onSelect={setSelectedDate}
-                disabled={isDateDisabled}
-                className="w-full"
-              />
-            </div>
-          </div>
-
-          {/* Time Slot Selection */}
-          {selectedDate && (
-            <div className="space-y-2">
-              <Label className="flex items-center gap-2 text-sm">
-                <Clock className="h-3.5 w-3.5" />
-                Select Time
-              </Label>
-              <div className="grid grid-cols-4 gap-2">
-                {availableTimeSlots.map((slot: TimeSlot) => (
-                  <motion.button
-                    key={slot.id}
-                    type="button"
-                    disabled={!slot.available}
-                    whileHover={slot.available ? { scale: 1.02 } : undefined}
-                    whileTap={slot.available ? { scale: 0.98 } : undefined}
-                    onClick={() => setSelectedTimeSlot(slot.id)}
-                    className={cn(
-                      "rounded-lg border p-2 text-sm transition-colors",
-                      slot.available
-                        ? selectedTimeSlot === slot.id
-                          ? "border-primary bg-primary text-primary-foreground"
-                          : "border-border hover:border-foreground/20"
-                        : "cursor-not-allowed opacity-40 border-border"
-                    )}
-                  >
-                    {slot.time}
-                  </motion.button>
-                ))}
-              </div>
-            </div>
-          )}
-
-          {/* Duration Selection */}
-          <div className="space-y-2">
-            <Label className="text-sm">Duration</Label>
-            <Select value={duration} onValueChange={setDuration}>
-              <SelectTrigger>
-                <SelectValue placeholder="Select duration" />
-              </SelectTrigger>
-              <SelectContent>
-                {durations.map((d) => (
-                  <SelectItem key={d.value} value={d.value}>
-                    {d.label} ({tutor.hourlyRate * d.multiplier})
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
+          {/* Date & Time Selection */}
+          <BookingCalendar
+            expertId={tutor.id}
+            selectedDate={selectedDate}
+            selectedTimeSlot={selectedTimeSlot}
+            onDateSelect={(date) => {
+              setSelectedDate(date);
+              setSelectedTimeSlot(null);
+            }}
+            onTimeSlotSelect={setSelectedTimeSlot}
+          />
 
           {/* Notes */}
           <div className="space-y-2">
@@ -224,12 +144,16 @@ export function BookSessionSheet({
             </div>
             <div className="flex items-center justify-between text-sm">
               <span className="text-muted-foreground">Duration</span>
-              <span>{selectedDuration?.label}</span>
+              <span>{duration} min</span>
             </div>
             <div className="flex items-center justify-between pt-2 border-t border-border">
               <span className="font-medium">Total</span>
               <span className="text-lg font-semibold">{totalPrice}</span>
             </div>
+            <p className="flex items-center gap-1.5 text-xs text-muted-foreground">
+              <Wallet className="h-3.5 w-3.5" />
+              Paid from your wallet balance
+            </p>
           </div>
         </SheetBody>
 
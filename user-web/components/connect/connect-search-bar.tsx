@@ -12,12 +12,17 @@ interface ConnectSearchBarProps {
   onFilterClick?: () => void;
   placeholder?: string;
   showFilterButton?: boolean;
+  /** Suggestions shown below the input while it has focus */
+  suggestions?: string[];
+  /** Called when a suggestion is picked (defaults to onChange) */
+  onSuggestionSelect?: (suggestion: string) => void;
   className?: string;
+  inputClassName?: string;
 }
 
 /**
  * Search bar component for the Student Connect page
- * Includes search input and optional filter button
+ * Includes search input, optional suggestions dropdown and optional filter button
  */
 export function ConnectSearchBar({
   value,
@@ -25,9 +30,41 @@ export function ConnectSearchBar({
   onFilterClick,
   placeholder = "Search tutors, resources, groups...",
   showFilterButton = true,
+  suggestions = [],
+  onSuggestionSelect,
   className,
+  inputClassName,
 }: ConnectSearchBarProps) {
   const [isFocused, setIsFocused] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  const visibleSuggestions = suggestions.filter(
+    (suggestion) => suggestion.toLowerCase() !== value.trim().toLowerCase()
+  );
+  const showSuggestions = isFocused && value.trim().length > 0 && visibleSuggestions.length > 0;
+
+  const selectSuggestion = (suggestion: string) => {
+    (onSuggestionSelect || onChange)(suggestion);
+    setActiveIndex(-1);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showSuggestions) return;
+
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActiveIndex((prev) => (prev + 1) % visibleSuggestions.length);
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActiveIndex((prev) => (prev <= 0 ? visibleSuggestions.length - 1 : prev - 1));
+    } else if (e.key === "Enter" && activeIndex >= 0) {
+      e.preventDefault();
+      selectSuggestion(visibleSuggestions[activeIndex]);
+    } else if (e.key === "Escape") {
+      setActiveIndex(-1);
+      setIsFocused(false);
+    }
+  };
 
   return (
     <div className={cn("flex items-center gap-2", className)}>
@@ -41,11 +78,18 @@ export function ConnectSearchBar({
         <Input
           type="text"
           value={value}
-          onChange={(e) => onChange(e.target.value)}
+          onChange={(e) => {
+            onChange(e.target.value);
+            setActiveIndex(-1);
+          }}
           onFocus={() => setIsFocused(true)}
           onBlur={() => setIsFocused(false)}
+          onKeyDown={handleKeyDown}
           placeholder={placeholder}
-          className="pl-10 pr-10"
+          className={cn("pl-10 pr-10", inputClassName)}
+          role="combobox"
+          aria-expanded={showSuggestions}
+          aria-autocomplete="list"
         />
         {value && (
           <button
@@ -56,6 +100,34 @@ export function ConnectSearchBar({
             <X className="h-4 w-4" />
           </button>
         )}
+
+        {showSuggestions && (
+          <ul
+            role="listbox"
+            className="absolute left-0 right-0 top-full z-50 mt-2 overflow-hidden rounded-xl border border-border/50 bg-popover py-1 shadow-lg"
+          >
+            <li role="presentation" className="px-3 py-1.5 text-[11px] font-medium uppercase tracking-wide text-muted-foreground">
+              Suggestions
+            </li>
+            {visibleSuggestions.map((suggestion, index) => (
+              <li
+                key={suggestion}
+                role="option"
+                aria-selected={index === activeIndex}
+                // Keep focus in the input so the click lands before blur closes the list
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => selectSuggestion(suggestion)}
+                className={cn(
+                  "flex cursor-pointer items-center gap-2 px-3 py-2 text-sm",
+                  index === activeIndex ? "bg-accent text-accent-foreground" : "hover:bg-accent/60"
+                )}
+              >
+                <Search className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                <span className="truncate">{suggestion}</span>
+              </li>
+            ))}
+          </ul>
+        )}
       </div>
 
       {showFilterButton && (
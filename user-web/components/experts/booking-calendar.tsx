@@ -1,17 +1,19 @@
 "use client";
 
-import { useState, useMemo } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { format, addDays, isSameDay, isAfter, startOfDay, isBefore } from "date-fns";
-import { ChevronLeft, ChevronRight, Clock } from "lucide-react";
+import { Clock, Loader2 } from "lucide-react";
 import { Calendar } from "@/components/ui/calendar";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
+import { getExpertSlots } from "@/lib/actions/experts";
 import type { AvailabilitySlot, TimeSlot } from "@/types/expert";
 
 interface BookingCalendarProps {
   expertId: string;
+  /** Slots to offer; loaded from the expert's availability when omitted */
   availableSlots?: AvailabilitySlot[];
   selectedDate: Date | undefined;
   selectedTimeSlot: TimeSlot | null;
@@ -20,25 +22,10 @@ interface BookingCalendarProps {
   className?: string;
 }
 
-/**
- * Default time slots when no availability data is provided
- */
-const DEFAULT_TIME_SLOTS: TimeSlot[] = [
-  { id: "slot-1", time: "09:00", displayTime: "9:00 AM", available: true },
-  { id: "slot-2", time: "10:00", displayTime: "10:00 AM", available: true },
-  { id: "slot-3", time: "11:00", displayTime: "11:00 AM", available: true },
-  { id: "slot-4", time: "12:00", displayTime: "12:00 PM", available: false },
-  { id: "slot-5", time: "14:00", displayTime: "2:00 PM", available: true },
-  { id: "slot-6", time: "15:00", displayTime: "3:00 PM", available: true },
-  { id: "slot-7", time: "16:00", displayTime: "4:00 PM", available: true },
-  { id: "slot-8", time: "17:00", displayTime: "5:00 PM", available: false },
-  { id: "slot-9", time: "18:00", displayTime: "6:00 PM", available: true },
-  { id: "slot-10", time: "19:00", displayTime: "7:00 PM", available: true },
-];
-
 /**
  * Booking calendar component with date and time slot selection
- * Highlights available dates and allows time slot picking
+ * Highlights dates with open slots and allows time slot picking.
+ * Times are shown in the viewer's local timezone.
  */
 export function BookingCalendar({
   expertId,
@@ -52,55 +39,55 @@ export function BookingCalendar({
   const today = startOfDay(new Date());
   const maxDate = addDays(today, 30); // Allow booking up to 30 days in advance
 
+  const [loaded, setLoaded] = useState<{ expertId: string; slots: AvailabilitySlot[] } | null>(null);
+
+  useEffect(() => {
+    if (availableSlots) return;
+
+    let cancelled = false;
+    getExpertSlots(expertId)
+      .catch(() => [])
+      .then((slots) => {
+        if (!cancelled) setLoaded({ expertId, slots });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [expertId, availableSlots]);
+
+  const isLoading = !availableSlots && loaded?.expertId !== expertId;
+  const slots = useMemo(
+    () => availableSlots ?? (loaded?.expertId === expertId ? loaded.slots : []),
+    [availableSlots, loaded, expertId]
+  );
+
   /**
    * Get available dates from slots
    */
   const availableDates = useMemo(() => {
-    if (!availableSlots?.length) {
-      // Default: all weekdays for next 30 days
-      const dates: Date[] = [];
-      for (let i = 1; i <= 30; i++) {
-        const date = addDays(today, i);
-        const dayOfWeek = date.getDay();
-        // Skip weekends (0 = Sunday, 6 = Saturday)
-        if (dayOfWeek !== 0 && dayOfWeek !== 6) {
-          dates.push(date);
-        }
-      }
-      return dates;
-    }
-
-    return availableSlots
+    return slots
       .filter((slot) => !slot.isBooked)
       .map((slot) => startOfDay(new Date(slot.date)));
-  }, [availableSlots, today]);
+  }, [slots]);
 
   /**
    * Get time slots for selected date
    */
-  const timeSlotsForDate = useMemo(() => {
+  const timeSlotsForDate = useMemo((): TimeSlot[] => {
     if (!selectedDate) return [];
 
-    if (!availableSlots?.length) {
-      // Return default slots with random availability for demo
-      return DEFAULT_TIME_SLOTS.map((slot) => ({
-        ...slot,
-        id: `${format(selectedDate, "yyyy-MM-dd")}-${slot.time}`,
-        available: Math.random() > 0.3, // 70% chance of being available
+    return slots
+      .filter((slot) => isSameDay(new Date(slot.date), selectedDate))
+      .map((slot) => ({
+        id: slot.id,
+        time: format(new Date(slot.date), "HH:mm"),
+        displayTime: format(new Date(slot.date), "h:mm a"),
+        available: !slot.isBooked,
+        duration: slot.duration,
+        price: slot.price,
       }));
-    }
-
-    const dateSlots = availableSlots.filter((slot) =>
-      isSameDay(new Date(slot.date), selectedDate)
-    );
-
-    return dateSlots.map((slot) => ({
-      id: slot.id,
-      time: slot.startTime,
-      displayTime: format(new Date(`2000-01-01T${slot.startTime}`), "h:mm a"),
-      available: !slot.isBooked,
-    }));
-  }, [selectedDate, availableSlots]);
+  }, [selectedDate, slots]);
 
   /**
    * Check if a date is available
@@ -132,30 +119,40 @@ export function BookingCalendar({
           </CardTitle>
         </CardHeader>
         <CardContent>
-          <Calendar
-            mode="single"
-            selected={selectedDate}
-            onSelect={onDateSelect}
-            disabled={disabledDays}
-            className="rounded-md border-0 p-0"
-            classNames={{
-              day: "h-9 w-9 text-center text-sm p-0 relative [&:has([aria-selected])]:bg-accent first:[&:has([aria-selected])]:rounded-l-md last:[&:has([aria-selected])]:rounded-r-md focus-within:relative focus-within:z-20",
-              day_selected:
-                "bg-primary text-primary-foreground hover:bg-primary hover:text-primary-foreground focus:bg-primary focus:text-primary-foreground",
-              day_today: "bg-accent text-accent-foreground",
-              day_outside: "text-muted-foreground opacity-50",
-              day_disabled: "text-muted-foreground opacity-50",
-            }}
-            modifiers={{
-              available: availableDates,
-            }}
-            modifiersStyles={{
-              available: {
-                fontWeight: "bold",
-                color: "var(--primary)",
-              },
-            }}
-          />
+          {isLoading ? (
+            <div className="flex items-center justify-center py-10">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : !availableDates.length ? (
+            <p className="text-sm text-muted-foreground text-center py-10">
+              No open slots in the next 30 days
+            </p>
+          ) : (
+            <Calendar
+              mode="single"
+              selected={selectedDate}
+              onSelect={onDateSelect}
+              disabled={disabledDays}
+              className="rounded-md border-0 p-0"
+              classNames={{
+                day: "h-9 w-9 text-center text-sm p-0 relative [&:has([aria-selected])]:bg-accent first:[&:has([aria-selected])]:rounded-l-md last:[&:has([aria-selected])]:rounded-r-md focus-within:relative focus-within:z-20",
+                day_selected:
+                  "bg-primary text-primary-foreground hover:bg-primary hover:text-primary-foreground focus:bg-primary focus:text-primary-foreground",
+                day_today: "bg-accent text-accent-foreground",
+                day_outside: "text-muted-foreground opacity-50",
+                day_disabled: "text-muted-foreground opacity-50",
+              }}
+              modifiers={{
+                available: availableDates,
+              }}
+              modifiersStyles={{
+                available: {
+                  fontWeight: "bold",
+                  color: "var(--primary)",
+                },
+              }}
+            />
+          )}
           <div className="flex items-center gap-4 mt-4 text-xs text-muted-foreground">
             <div className="flex items-center gap-1.5">
               <div className="w-3 h-3 rounded bg-primary" />
@@ -205,9 +202,11 @@ export function BookingCalendar({
                 ))}
               </div>
             )}
-            <p className="text-xs text-muted-foreground mt-3">
-              Session duration: 60 minutes
-            </p>
+            {timeSlotsForDate.length > 0 && (
+              <p className="text-xs text-muted-foreground mt-3">
+                Session duration: {selectedTimeSlot?.duration ?? timeSlotsForDate[0].duration ?? 60} minutes
+              </p>
+            )}
           </CardContent>
         </Card>
       )}
@@ -223,7 +222,7 @@ export function BookingCalendar({
                   {format(selectedDate, "EEEE, MMMM d, yyyy")}
                 </p>
                 <p className="text-sm text-muted-foreground">
-                  {selectedTimeSlot.displayTime} (60 min)
+                  {selectedTimeSlot.displayTime} ({selectedTimeSlot.duration ?? 60} min)
                 </p>
               </div>
               <Badge variant="secondary" className="bg-green-500/10 text-green-600">
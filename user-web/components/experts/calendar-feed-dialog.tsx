@@ -0,0 +1,135 @@
+"use client";
+
+/**
+ * CalendarFeedDialog - Private iCal feed link for subscribing to
+ * consultations from Google Calendar, Outlook or Apple Calendar
+ */
+
+import { useState } from "react";
+import { CalendarPlus, Copy, Loader2, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { getCalendarFeed, resetCalendarFeed } from "@/lib/actions/experts";
+import { cn } from "@/lib/utils";
+
+interface CalendarFeedDialogProps {
+  className?: string;
+}
+
+/**
+ * Button that opens the calendar subscription dialog
+ */
+export function CalendarFeedDialog({ className }: CalendarFeedDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleOpen = async () => {
+    setOpen(true);
+    if (feedUrl) return;
+
+    setIsLoading(true);
+    try {
+      const result = await getCalendarFeed();
+      if (result.error || !result.url) {
+        toast.error(result.error || "Failed to load calendar link");
+        setOpen(false);
+      } else {
+        setFeedUrl(result.url);
+      }
+    } catch {
+      toast.error("Failed to load calendar link");
+      setOpen(false);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    await navigator.clipboard.writeText(feedUrl);
+    toast.success("Calendar link copied");
+  };
+
+  const handleReset = async () => {
+    setIsLoading(true);
+    try {
+      const result = await resetCalendarFeed();
+      if (result.error || !result.url) {
+        toast.error(result.error || "Failed to reset calendar link");
+      } else {
+        setFeedUrl(result.url);
+        toast.success("New calendar link created. Subscribe again with the new link.");
+      }
+    } catch {
+      toast.error("Failed to reset calendar link");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={handleOpen} className={cn("gap-1.5", className)}>
+        <CalendarPlus className="h-4 w-4" />
+        Sync to Calendar
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-md rounded-2xl">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <CalendarPlus className="h-5 w-5 text-violet-500" />
+              Sync Sessions to Your Calendar
+            </DialogTitle>
+            <DialogDescription>
+              Subscribe to this link in Google Calendar (Other calendars → From URL), Outlook or
+              Apple Calendar. New, moved and cancelled sessions update automatically.
+            </DialogDescription>
+          </DialogHeader>
+
+          {isLoading && !feedUrl ? (
+            <div className="flex items-center justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            feedUrl && (
+              <div className="space-y-3">
+                <div className="flex gap-2">
+                  <Input value={feedUrl} readOnly onFocus={(e) => e.target.select()} className="font-mono text-xs" />
+                  <Button variant="outline" size="icon" onClick={handleCopy} aria-label="Copy calendar link">
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Anyone with this link can see your session times. Reset it if it was shared by mistake.
+                </p>
+              </div>
+            )
+          )}
+
+          <DialogFooter>
+            <Button variant="ghost" onClick={handleReset} disabled={isLoading || !feedUrl} className="gap-1.5">
+              <RotateCcw className="h-4 w-4" />
+              Reset Link
+            </Button>
+            {feedUrl && (
+              <Button asChild className="bg-violet-600 hover:bg-violet-700">
+                <a href={feedUrl.replace(/^https?:/, "webcal:")}>Open in Calendar App</a>
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
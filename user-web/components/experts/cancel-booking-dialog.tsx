@@ -0,0 +1,154 @@
+"use client";
+
+/**
+ * CancelBookingDialog - Shows the refund for cancelling a consultation
+ * and cancels it once the user confirms
+ */
+
+import { useEffect, useState } from "react";
+import { Loader2, XCircle } from "lucide-react";
+import { toast } from "sonner";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  cancelExpertBooking,
+  getBookingCancellationQuote,
+  type BookingCancellationQuote,
+} from "@/lib/actions/experts";
+import type { ConsultationBooking } from "@/types/expert";
+
+interface CancelBookingDialogProps {
+  booking: ConsultationBooking | null;
+  onOpenChange: (open: boolean) => void;
+  /** Called after the booking was cancelled */
+  onCancelled?: () => void;
+}
+
+/**
+ * Cancel booking dialog with refund preview
+ */
+export function CancelBookingDialog({ booking, onOpenChange, onCancelled }: CancelBookingDialogProps) {
+  const [quote, setQuote] = useState<BookingCancellationQuote | null>(null);
+  const [isLoadingQuote, setIsLoadingQuote] = useState(false);
+  const [reason, setReason] = useState("");
+  const [isCancelling, setIsCancelling] = useState(false);
+
+  useEffect(() => {
+    if (!booking) return;
+
+    setQuote(null);
+    setReason("");
+    setIsLoadingQuote(true);
+    getBookingCancellationQuote(booking.id)
+      .then((result) => {
+        if (result.error || !result.quote) {
+          toast.error(result.error || "Failed to calculate refund");
+          onOpenChange(false);
+        } else {
+          setQuote(result.quote);
+        }
+      })
+      .catch(() => {
+        toast.error("Failed to calculate refund");
+        onOpenChange(false);
+      })
+      .finally(() => setIsLoadingQuote(false));
+  }, [booking, onOpenChange]);
+
+  const handleCancel = async () => {
+    if (!booking) return;
+
+    setIsCancelling(true);
+    try {
+      const result = await cancelExpertBooking(booking.id, reason);
+      if (result.error) {
+        toast.error(result.error);
+      } else {
+        toast.success(
+          result.refundAmount
+            ? `Session cancelled. ₹${result.refundAmount.toLocaleString("en-IN")} added to your wallet`
+            : "Session cancelled"
+        );
+        onOpenChange(false);
+        onCancelled?.();
+      }
+    } catch {
+      toast.error("Failed to cancel session");
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  return (
+    <AlertDialog open={!!booking} onOpenChange={onOpenChange}>
+      <AlertDialogContent className="max-w-md rounded-2xl">
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <XCircle className="h-5 w-5 text-red-500" />
+            Cancel Session
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            {isLoadingQuote || !quote ? "Calculating your refund..." : quote.explanation}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        {booking && quote && quote.refundAmount > 0 && (
+          <div className="rounded-xl border border-stone-200 dark:border-stone-700 p-4 space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Amount paid</span>
+              <span className="font-medium">₹{booking.totalAmount.toLocaleString("en-IN")}</span>
+            </div>
+            <div className="flex justify-between border-t border-stone-200 dark:border-stone-700 pt-2 font-semibold">
+              <span>Back to wallet</span>
+              <span className="text-emerald-600">₹{quote.refundAmount.toLocaleString("en-IN")}</span>
+            </div>
+          </div>
+        )}
+        {quote?.cancellable && quote.refundRate < 1 && quote.reschedule.reschedulable && (
+          <p className="text-sm text-muted-foreground">
+            You can still reschedule this session instead and keep the full amount.
+          </p>
+        )}
+        {quote?.cancellable && (
+          <div className="space-y-2">
+            <Label htmlFor="booking-cancel-reason">Reason (optional)</Label>
+            <Textarea
+              id="booking-cancel-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Let the expert know why you're cancelling"
+              className="min-h-[80px] resize-none"
+            />
+          </div>
+        )}
+        <AlertDialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isCancelling}>
+            Keep Session
+          </Button>
+          <Button
+            onClick={handleCancel}
+            disabled={isCancelling || isLoadingQuote || !quote?.cancellable}
+            className="bg-red-600 hover:bg-red-700"
+          >
+            {isCancelling ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Cancelling...
+              </>
+            ) : (
+              "Cancel Session"
+            )}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
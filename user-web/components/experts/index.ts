@@ -19,3 +19,6 @@ export { SpecializationFilter, MedicalFilter } from "./specialization-filter";
 export { DoctorCard } from "./doctor-card";
 export { DoctorsGrid, DoctorsSimpleGrid } from "./doctors-grid";
 export { MyBookings } from "./my-bookings";
+export { CancelBookingDialog } from "./cancel-booking-dialog";
+export { RescheduleBookingDialog } from "./reschedule-booking-dialog";
+export { CalendarFeedDialog } from "./calendar-feed-dialog";
@@ -9,6 +9,7 @@ import { useState, useMemo } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import {
   CalendarClock,
+  CalendarPlus,
   CheckCircle2,
   XCircle,
   Calendar,
@@ -25,7 +26,6 @@ import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
 import { formatINR } from "@/lib/utils";
 import type { ConsultationBooking, SessionStatus } from "@/types/expert";
-import { MOCK_EXPERTS } from "@/lib/data/experts";
 
 interface MyBookingsProps {
   bookings: ConsultationBooking[];
@@ -67,13 +67,6 @@ const TABS: Array<{
   },
 ];
 
-/**
- * Get expert by ID
- */
-function getExpertById(expertId: string) {
-  return MOCK_EXPERTS.find((e) => e.id === expertId);
-}
-
 /**
  * Get initials from name
  */
@@ -107,14 +100,23 @@ function formatBookingDate(date: Date): string {
   });
 }
 
+/**
+ * Format a session's start and end in the viewer's timezone
+ */
+function formatSessionTime(date: Date, duration: number): string {
+  const start = new Date(date);
+  const end = new Date(start.getTime() + duration * 60 * 1000);
+  const options: Intl.DateTimeFormatOptions = { hour: "2-digit", minute: "2-digit", hour12: false };
+
+  return `${start.toLocaleTimeString("en-IN", options)} - ${end.toLocaleTimeString("en-IN", options)}`;
+}
+
 /**
  * Get time until booking
  */
-function getTimeUntil(date: Date, startTime: string): string {
+function getTimeUntil(date: Date): string {
   const now = new Date();
   const bookingDate = new Date(date);
-  const [hours, minutes] = startTime.split(":").map(Number);
-  bookingDate.setHours(hours, minutes, 0, 0);
 
   const diff = bookingDate.getTime() - now.getTime();
   const hoursUntil = Math.floor(diff / (1000 * 60 * 60));
@@ -180,7 +182,7 @@ function BookingCard({
   onCancel?: () => void;
   onJoin?: () => void;
 }) {
-  const expert = getExpertById(booking.expertId);
+  const expert = booking.expert;
   const statusConfig = getStatusConfig(booking.status);
   const isUpcoming =
     booking.status === "upcoming" || booking.status === "in_progress";
@@ -247,7 +249,7 @@ function BookingCard({
                   <div className="flex items-center gap-1.5 px-2.5 py-1 rounded-full bg-stone-100 dark:bg-stone-800 text-sm">
                     <Clock className="h-3.5 w-3.5 text-stone-500" />
                     <span className="text-stone-700 dark:text-stone-300">
-                      {booking.startTime} - {booking.endTime}
+                      {formatSessionTime(booking.date, booking.duration)}
                     </span>
                   </div>
                   {booking.meetLink && (
@@ -277,7 +279,7 @@ function BookingCard({
                     Starts in
                   </div>
                   <div className="text-xl font-bold text-violet-700 dark:text-violet-300">
-                    {getTimeUntil(booking.date, booking.startTime)}
+                    {getTimeUntil(booking.date)}
                   </div>
                 </div>
               )}
@@ -310,6 +312,18 @@ function BookingCard({
                     <RefreshCw className="h-3.5 w-3.5" />
                     <span className="hidden sm:inline">Reschedule</span>
                   </Button>
+                  {booking.calendarInviteUrl && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-8 border-stone-200 dark:border-stone-700 hover:bg-stone-100 dark:hover:bg-stone-800"
+                      asChild
+                    >
+                      <a href={booking.calendarInviteUrl} download aria-label="Add to calendar">
+                        <CalendarPlus className="h-3.5 w-3.5" />
+                      </a>
+                    </Button>
+                  )}
                   <Button
                     size="sm"
                     variant="outline"
@@ -10,7 +10,8 @@ import {
 } from "@/components/ui/tooltip";
 import { Separator } from "@/components/ui/separator";
 import { cn } from "@/lib/utils";
-import { calculateCommission } from "@/lib/commission";
+import { calculateCommission, getCommissionRates } from "@/lib/commission";
+import { usePriceEstimate } from "@/hooks/use-price-estimate";
 
 interface PriceBreakdownProps {
   totalAmount: number;
@@ -29,7 +30,16 @@ export function PriceBreakdown({
   showDetails = true,
   className,
 }: PriceBreakdownProps) {
-  const breakdown = calculateCommission(totalAmount, currency);
+  // Split comes from the expert_opinion pricing guide once loaded
+  const { breakdown: pricing } = usePriceEstimate({
+    serviceType: "expert_opinion",
+    clientTotal: totalAmount,
+  });
+  const breakdown = calculateCommission(
+    totalAmount,
+    currency,
+    pricing ? getCommissionRates(pricing) : undefined
+  );
 
   return (
     <Card className={cn("", className)}>
@@ -0,0 +1,147 @@
+"use client";
+
+/**
+ * RescheduleBookingDialog - Moves a consultation to another open slot
+ * of the same expert and length
+ */
+
+import { useEffect, useState } from "react";
+import { Loader2, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { BookingCalendar } from "./booking-calendar";
+import {
+  getBookingCancellationQuote,
+  getExpertSlots,
+  rescheduleExpertBooking,
+} from "@/lib/actions/experts";
+import type { AvailabilitySlot, ConsultationBooking, TimeSlot } from "@/types/expert";
+
+interface RescheduleBookingDialogProps {
+  booking: ConsultationBooking | null;
+  onOpenChange: (open: boolean) => void;
+  /** Called after the booking was moved */
+  onRescheduled?: () => void;
+}
+
+/**
+ * Reschedule booking dialog
+ */
+export function RescheduleBookingDialog({
+  booking,
+  onOpenChange,
+  onRescheduled,
+}: RescheduleBookingDialogProps) {
+  const [slots, setSlots] = useState<AvailabilitySlot[] | null>(null);
+  const [blockedReason, setBlockedReason] = useState<string | null>(null);
+  const [selectedDate, setSelectedDate] = useState<Date | undefined>();
+  const [selectedTimeSlot, setSelectedTimeSlot] = useState<TimeSlot | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!booking) return;
+
+    setSlots(null);
+    setBlockedReason(null);
+    setSelectedDate(undefined);
+    setSelectedTimeSlot(null);
+
+    Promise.all([getBookingCancellationQuote(booking.id), getExpertSlots(booking.expertId)])
+      .then(([quoteResult, expertSlots]) => {
+        if (quoteResult.quote && !quoteResult.quote.reschedule.reschedulable) {
+          setBlockedReason(quoteResult.quote.reschedule.explanation);
+        }
+        // Sessions can only move to a slot of the same length
+        setSlots(expertSlots.filter((slot) => slot.duration === booking.duration));
+      })
+      .catch(() => {
+        toast.error("Failed to load available slots");
+        onOpenChange(false);
+      });
+  }, [booking, onOpenChange]);
+
+  const handleReschedule = async () => {
+    if (!booking || !selectedTimeSlot) return;
+
+    setIsSaving(true);
+    try {
+      const result = await rescheduleExpertBooking(booking.id, selectedTimeSlot.id);
+      if (result.error) {
+        toast.error(result.error);
+      } else {
+        toast.success("Session rescheduled");
+        onOpenChange(false);
+        onRescheduled?.();
+      }
+    } catch {
+      toast.error("Failed to reschedule session");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!booking} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg rounded-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <RefreshCw className="h-5 w-5 text-violet-500" />
+            Reschedule Session
+          </DialogTitle>
+          <DialogDescription>
+            {blockedReason ?? "Pick a new time. Your payment carries over to the new slot."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!slots ? (
+          <div className="flex items-center justify-center py-10">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          booking &&
+          !blockedReason && (
+            <BookingCalendar
+              expertId={booking.expertId}
+              availableSlots={slots}
+              selectedDate={selectedDate}
+              selectedTimeSlot={selectedTimeSlot}
+              onDateSelect={(date) => {
+                setSelectedDate(date);
+                setSelectedTimeSlot(null);
+              }}
+              onTimeSlotSelect={setSelectedTimeSlot}
+            />
+          )
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Close
+          </Button>
+          <Button
+            onClick={handleReschedule}
+            disabled={isSaving || !!blockedReason || !selectedTimeSlot}
+            className="bg-violet-600 hover:bg-violet-700"
+          >
+            {isSaving ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              "Confirm New Time"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -11,6 +11,7 @@ import {
   AlertTriangle,
   CheckCircle2,
   XCircle,
+  CalendarPlus,
 } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
@@ -173,6 +174,19 @@ export const SessionCard = memo(function SessionCard({
               </div>
             </div>
 
+            {/* Meeting Room */}
+            {booking.meetLink && (booking.status === "upcoming" || booking.status === "in_progress") && (
+              <a
+                href={booking.meetLink}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="mt-2 flex items-center gap-1 text-sm text-primary hover:underline min-w-0"
+              >
+                <Video className="h-4 w-4 shrink-0" />
+                <span className="truncate">{booking.meetLink.replace(/^https?:\/\//, "")}</span>
+              </a>
+            )}
+
             {/* Topic */}
             {booking.topic && (
               <p className="text-sm mt-2 text-muted-foreground line-clamp-1">
@@ -210,6 +224,16 @@ export const SessionCard = memo(function SessionCard({
             </Button>
           )}
 
+          {/* Add to Calendar Button */}
+          {booking.calendarInviteUrl && (
+            <Button size="sm" variant="outline" asChild className="flex-1 sm:flex-none">
+              <a href={booking.calendarInviteUrl} download>
+                <CalendarPlus className="h-4 w-4 mr-1" />
+                Add to Calendar
+              </a>
+            </Button>
+          )}
+
           {/* Leave Review Button */}
           {canLeaveReview() && (
             <Button
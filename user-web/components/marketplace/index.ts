@@ -8,6 +8,9 @@ export { BannerCard } from "./banner-card"
 export { FilterBar } from "./filter-bar"
 export { MasonryGrid } from "./masonry-grid"
 export { CreateListingForm } from "./create-listing-form"
+export { InquiryThread } from "./inquiry-thread"
+export { SellerInquiryInbox } from "./seller-inquiry-inbox"
+export { SavedSearchesSheet } from "./saved-searches-sheet"
 
 // Export types
 export type { ListingDisplay } from "./masonry-grid"
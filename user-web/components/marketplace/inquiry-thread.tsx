@@ -0,0 +1,351 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { Check, IndianRupee, Loader2, Send, Tag, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { cn } from "@/lib/utils"
+import { toast } from "sonner"
+import { chatService } from "@/services"
+import { validateChatContent, getValidationErrorMessage } from "@/lib/validations/chat-content"
+import {
+  getInquiryOffers,
+  makeListingOffer,
+  respondToListingOffer,
+  sendInquiryMessage,
+} from "@/lib/actions/marketplace"
+import type { ListingInquiry, ListingOffer, ListingStatus } from "@/types/marketplace"
+
+interface InquiryThreadProps {
+  inquiry: ListingInquiry
+  userId: string
+  /** Current listing status; offers are only open on active listings */
+  listingStatus?: ListingStatus
+  /** Called when an accepted offer reserves the listing */
+  onListingReserved?: () => void
+  className?: string
+}
+
+interface ThreadMessage {
+  id: string
+  senderId: string
+  content: string
+  isSystem: boolean
+  createdAt: string
+}
+
+function formatAmount(amount: number): string {
+  return `₹${amount.toLocaleString("en-IN")}`
+}
+
+/**
+ * InquiryThread - Buyer–seller conversation about a listing with price offers
+ * Messages go through the chat room of the inquiry (moderated server-side);
+ * offers are shown above the conversation with accept / counter / decline.
+ */
+export function InquiryThread({
+  inquiry,
+  userId,
+  listingStatus = "active",
+  onListingReserved,
+  className,
+}: InquiryThreadProps) {
+  const [messages, setMessages] = useState<ThreadMessage[]>([])
+  const [offers, setOffers] = useState<ListingOffer[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [input, setInput] = useState("")
+  const [isSending, setIsSending] = useState(false)
+  const [offerAmount, setOfferAmount] = useState("")
+  const [showOfferForm, setShowOfferForm] = useState(false)
+  const [isOffering, setIsOffering] = useState(false)
+  const [respondingTo, setRespondingTo] = useState<string | null>(null)
+  const bottomRef = useRef<HTMLDivElement>(null)
+
+  const isSeller = userId === inquiry.sellerId
+  const pendingOffer = offers.find((offer) => offer.status === "pending") ?? null
+  const acceptedOffer = offers.find((offer) => offer.status === "accepted") ?? null
+  const canOffer = listingStatus === "active" && !acceptedOffer
+
+  const refreshOffers = useCallback(async () => {
+    const { data } = await getInquiryOffers(inquiry.id)
+    setOffers(data)
+  }, [inquiry.id])
+
+  const appendMessage = useCallback((message: ThreadMessage) => {
+    setMessages((prev) => (prev.some((m) => m.id === message.id) ? prev : [...prev, message]))
+  }, [])
+
+  // Load history, then follow the room
+  useEffect(() => {
+    let cancelled = false
+
+    async function load() {
+      setIsLoading(true)
+      try {
+        const [history] = await Promise.all([
+          chatService.getMessages(inquiry.chatRoomId, 50),
+          refreshOffers(),
+        ])
+        if (cancelled) return
+        setMessages(
+          history.map((m) => ({
+            id: m.id,
+            senderId: m.sender_id,
+            content: m.content || "",
+            isSystem: m.message_type === "system",
+            createdAt: m.created_at || new Date().toISOString(),
+          }))
+        )
+        chatService.markMessagesAsRead(inquiry.chatRoomId, userId)
+      } catch {
+        if (!cancelled) toast.error("Failed to load conversation")
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }
+
+    load()
+
+    const unsubscribe = chatService.subscribeToRoom(inquiry.chatRoomId, (message) => {
+      appendMessage({
+        id: message.id,
+        senderId: message.sender_id,
+        content: message.content || "",
+        isSystem: message.message_type === "system",
+        createdAt: message.created_at || new Date().toISOString(),
+      })
+      // Offer events are posted to the room as system messages
+      if (message.message_type === "system") refreshOffers()
+      if (message.sender_id !== userId) chatService.markMessagesAsRead(inquiry.chatRoomId, userId)
+    })
+
+    return () => {
+      cancelled = true
+      unsubscribe()
+    }
+  }, [inquiry.chatRoomId, userId, refreshOffers, appendMessage])
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: "smooth" })
+  }, [messages.length])
+
+  const handleSend = async () => {
+    const text = input.trim()
+    if (!text || isSending) return
+
+    const validation = validateChatContent(text)
+    if (!validation.isValid) {
+      toast.error(getValidationErrorMessage(validation))
+      return
+    }
+
+    setIsSending(true)
+    const { data, error } = await sendInquiryMessage(inquiry.id, text)
+    setIsSending(false)
+
+    if (error || !data) {
+      toast.error(error || "Failed to send message")
+      return
+    }
+
+    appendMessage({
+      id: data.id,
+      senderId: userId,
+      content: data.content,
+      isSystem: false,
+      createdAt: new Date().toISOString(),
+    })
+    setInput("")
+  }
+
+  const handleOffer = async () => {
+    const amount = Number(offerAmount)
+    if (!Number.isFinite(amount) || amount <= 0) {
+      toast.error("Enter an amount greater than zero")
+      return
+    }
+
+    setIsOffering(true)
+    const { error } = await makeListingOffer(inquiry.id, amount)
+    setIsOffering(false)
+
+    if (error) {
+      toast.error(error)
+      return
+    }
+
+    toast.success(pendingOffer && pendingOffer.offeredBy !== userId ? "Counter offer sent" : "Offer sent")
+    setOfferAmount("")
+    setShowOfferForm(false)
+    refreshOffers()
+  }
+
+  const handleRespond = async (offer: ListingOffer, accept: boolean) => {
+    setRespondingTo(offer.id)
+    const { error } = await respondToListingOffer(offer.id, accept)
+    setRespondingTo(null)
+
+    if (error) {
+      toast.error(error)
+      return
+    }
+
+    toast.success(accept ? "Offer accepted. The listing is now reserved." : "Offer declined")
+    if (accept) onListingReserved?.()
+    refreshOffers()
+  }
+
+  return (
+    <div className={cn("flex flex-col gap-3", className)}>
+      {/* Offers */}
+      <div className="rounded-lg border border-border bg-muted/40 p-3 space-y-2">
+        {acceptedOffer ? (
+          <p className="flex items-center gap-2 text-sm">
+            <Check className="h-4 w-4 text-green-600" />
+            Offer of <span className="font-semibold">{formatAmount(acceptedOffer.amount)}</span> accepted
+            {listingStatus === "reserved" && " · reserved"}
+          </p>
+        ) : pendingOffer ? (
+          pendingOffer.offeredBy === userId ? (
+            <p className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Tag className="h-4 w-4" />
+              Your offer of {formatAmount(pendingOffer.amount)} is waiting for a reply
+            </p>
+          ) : (
+            <div className="space-y-2">
+              <p className="flex items-center gap-2 text-sm">
+                <Tag className="h-4 w-4" />
+                {isSeller ? "Buyer" : "Seller"}
+                {pendingOffer.parentOfferId ? " countered with " : " offered "}
+                <span className="font-semibold">{formatAmount(pendingOffer.amount)}</span>
+              </p>
+              {pendingOffer.message && (
+                <p className="text-xs text-muted-foreground">{pendingOffer.message}</p>
+              )}
+              {canOffer && (
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    onClick={() => handleRespond(pendingOffer, true)}
+                    disabled={respondingTo !== null}
+                  >
+                    {respondingTo === pendingOffer.id ? (
+                      <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />
+                    ) : (
+                      <Check className="h-3.5 w-3.5 mr-1" />
+                    )}
+                    Accept
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => setShowOfferForm(true)}>
+                    Counter
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleRespond(pendingOffer, false)}
+                    disabled={respondingTo !== null}
+                  >
+                    <X className="h-3.5 w-3.5 mr-1" />
+                    Decline
+                  </Button>
+                </div>
+              )}
+            </div>
+          )
+        ) : (
+          <p className="text-sm text-muted-foreground">No offers yet</p>
+        )}
+
+        {canOffer && (showOfferForm ? (
+          <div className="flex gap-2">
+            <div className="relative flex-1">
+              <IndianRupee className="absolute left-2.5 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                type="number"
+                inputMode="decimal"
+                min={1}
+                placeholder="Amount"
+                value={offerAmount}
+                onChange={(e) => setOfferAmount(e.target.value)}
+                className="h-9 pl-7"
+              />
+            </div>
+            <Button size="sm" onClick={handleOffer} disabled={isOffering || !offerAmount}>
+              {isOffering && <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />}
+              Send
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setShowOfferForm(false)}>
+              Cancel
+            </Button>
+          </div>
+        ) : (
+          !(pendingOffer && pendingOffer.offeredBy !== userId) && (
+            <Button size="sm" variant="outline" onClick={() => setShowOfferForm(true)}>
+              <Tag className="h-3.5 w-3.5 mr-1" />
+              {pendingOffer ? "Change offer" : isSeller ? "Propose a price" : "Make an offer"}
+            </Button>
+          )
+        ))}
+      </div>
+
+      {/* Messages */}
+      <div className="flex-1 min-h-[160px] max-h-[360px] overflow-y-auto space-y-2 pr-1">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : messages.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            Say hello and ask about the listing
+          </p>
+        ) : (
+          messages.map((message) =>
+            message.isSystem ? (
+              <p key={message.id} className="text-center text-xs text-muted-foreground">
+                {message.senderId === userId ? "You" : isSeller ? "Buyer" : "Seller"}: {message.content}
+              </p>
+            ) : (
+              <div
+                key={message.id}
+                className={cn("flex", message.senderId === userId ? "justify-end" : "justify-start")}
+              >
+                <p
+                  className={cn(
+                    "max-w-[80%] rounded-2xl px-3 py-2 text-sm whitespace-pre-wrap break-words",
+                    message.senderId === userId
+                      ? "bg-primary text-primary-foreground rounded-br-sm"
+                      : "bg-muted rounded-bl-sm"
+                  )}
+                >
+                  {message.content}
+                </p>
+              </div>
+            )
+          )
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      {/* Composer */}
+      <div className="flex gap-2">
+        <Input
+          placeholder="Write a message..."
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && !e.shiftKey) {
+              e.preventDefault()
+              handleSend()
+            }
+          }}
+        />
+        <Button size="icon" onClick={handleSend} disabled={isSending || !input.trim()}>
+          {isSending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+        </Button>
+      </div>
+      <p className="text-[11px] text-muted-foreground">
+        Keep the conversation here: phone numbers, emails and links are removed for your safety.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,307 @@
+"use client"
+
+import { useState } from "react"
+import { Bell, BellOff, Bookmark, Loader2, Trash2, Zap } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Label } from "@/components/ui/label"
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet"
+import { cn } from "@/lib/utils"
+import { toast } from "sonner"
+import {
+  createSavedSearch,
+  deleteSavedSearch,
+  getSavedSearches,
+  updateSavedSearch,
+} from "@/lib/actions/marketplace"
+import type {
+  DBListingType,
+  SavedSearch,
+  SavedSearchAlertMode,
+  SavedSearchFilters,
+} from "@/types/marketplace"
+
+interface SavedSearchesSheetProps {
+  /** Filters currently applied on the page, offered for saving */
+  filters: SavedSearchFilters
+  /** Whether the user may search housing (students only) */
+  canSearchHousing: boolean
+  isSignedIn: boolean
+  /** Applies a saved search's filters to the page */
+  onApply: (filters: SavedSearchFilters) => void
+}
+
+const ALERT_MODES: Array<{ mode: SavedSearchAlertMode; label: string; icon: typeof Bell }> = [
+  { mode: "instant", label: "Instant", icon: Zap },
+  { mode: "daily", label: "Daily digest", icon: Bell },
+  { mode: "off", label: "Off", icon: BellOff },
+]
+
+const LISTING_TYPE_LABELS: Partial<Record<DBListingType, string>> = {
+  sell: "Products",
+  rent: "Rentals",
+  free: "Free items",
+  housing: "Housing",
+  opportunity: "Opportunities",
+  community_post: "Community",
+}
+
+function formatLabel(value: string): string {
+  return value.replace(/_/g, " ").replace(/^\w/, (c) => c.toUpperCase())
+}
+
+/**
+ * One-line summary of a filter set, e.g. "Housing · PG, Shared · up to ₹8,000"
+ */
+function describeFilters(filters: SavedSearchFilters): string {
+  const parts: string[] = []
+
+  if (filters.keywords) parts.push(`"${filters.keywords}"`)
+  if (filters.listingTypes?.length) {
+    parts.push(filters.listingTypes.map((type) => LISTING_TYPE_LABELS[type] ?? formatLabel(type)).join(", "))
+  }
+  if (filters.housingTypes?.length) {
+    parts.push(filters.housingTypes.map((type) => (type === "pg" ? "PG" : formatLabel(type))).join(", "))
+  }
+  if (filters.conditions?.length) parts.push(filters.conditions.map(formatLabel).join(", "))
+
+  const { minPrice, maxPrice } = filters
+  if (minPrice !== undefined && maxPrice !== undefined) {
+    parts.push(`₹${minPrice.toLocaleString("en-IN")}–₹${maxPrice.toLocaleString("en-IN")}`)
+  } else if (maxPrice !== undefined) {
+    parts.push(`up to ₹${maxPrice.toLocaleString("en-IN")}`)
+  } else if (minPrice !== undefined) {
+    parts.push(`from ₹${minPrice.toLocaleString("en-IN")}`)
+  }
+
+  if (filters.universityOnly) parts.push("My campus")
+
+  return parts.length > 0 ? parts.join(" · ") : "All listings"
+}
+
+function targetsHousing(filters: SavedSearchFilters): boolean {
+  return !!filters.housingTypes?.length || !!filters.listingTypes?.includes("housing")
+}
+
+/**
+ * SavedSearchesSheet - Save the current marketplace filters and manage alerts
+ * Each saved search alerts on new matching listings instantly, as a daily
+ * digest, or not at all.
+ */
+export function SavedSearchesSheet({
+  filters,
+  canSearchHousing,
+  isSignedIn,
+  onApply,
+}: SavedSearchesSheetProps) {
+  const [open, setOpen] = useState(false)
+  const [searches, setSearches] = useState<SavedSearch[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [name, setName] = useState("")
+  const [alertMode, setAlertMode] = useState<SavedSearchAlertMode>("daily")
+  const [isSaving, setIsSaving] = useState(false)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const housingBlocked = !canSearchHousing && targetsHousing(filters)
+
+  const handleOpenChange = async (next: boolean) => {
+    setOpen(next)
+    if (!next || !isSignedIn) return
+
+    setIsLoading(true)
+    const { data, error } = await getSavedSearches()
+    if (error) toast.error(error)
+    setSearches(data)
+    setIsLoading(false)
+  }
+
+  const handleSave = async () => {
+    if (!name.trim() || housingBlocked) return
+
+    setIsSaving(true)
+    const { data, error } = await createSavedSearch({ name, filters, alertMode })
+    setIsSaving(false)
+
+    if (error || !data) {
+      toast.error(error || "Failed to save search")
+      return
+    }
+
+    setSearches((prev) => [data, ...prev])
+    setName("")
+    toast.success("Search saved")
+  }
+
+  const handleAlertMode = async (search: SavedSearch, mode: SavedSearchAlertMode) => {
+    if (search.alertMode === mode) return
+
+    setBusyId(search.id)
+    const { success, error } = await updateSavedSearch(search.id, { alertMode: mode })
+    setBusyId(null)
+
+    if (!success) {
+      toast.error(error || "Failed to update alerts")
+      return
+    }
+
+    setSearches((prev) => prev.map((s) => (s.id === search.id ? { ...s, alertMode: mode } : s)))
+  }
+
+  const handleDelete = async (search: SavedSearch) => {
+    setBusyId(search.id)
+    const { success, error } = await deleteSavedSearch(search.id)
+    setBusyId(null)
+
+    if (!success) {
+      toast.error(error || "Failed to delete search")
+      return
+    }
+
+    setSearches((prev) => prev.filter((s) => s.id !== search.id))
+  }
+
+  const handleApply = (search: SavedSearch) => {
+    onApply(search.filters)
+    setOpen(false)
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={handleOpenChange}>
+      <SheetTrigger asChild>
+        <button
+          className="relative p-2 rounded-lg hover:bg-muted/50 transition-colors"
+          aria-label="Saved searches"
+        >
+          <Bookmark className="h-5 w-5 text-muted-foreground" />
+        </button>
+      </SheetTrigger>
+      <SheetContent side="bottom" className="h-auto max-h-[85vh] rounded-t-xl overflow-y-auto">
+        <SheetHeader className="pb-4">
+          <SheetTitle>Saved searches</SheetTitle>
+          <SheetDescription>Get notified when new listings match your filters</SheetDescription>
+        </SheetHeader>
+
+        {!isSignedIn ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            Sign in to save searches and get alerts
+          </p>
+        ) : (
+          <div className="space-y-6 pb-4">
+            {/* Save current filters */}
+            <div className="rounded-xl border border-border p-4 space-y-3">
+              <div className="space-y-1">
+                <Label className="text-sm font-medium">Save current search</Label>
+                <p className="text-xs text-muted-foreground">{describeFilters(filters)}</p>
+              </div>
+
+              {housingBlocked ? (
+                <p className="text-xs text-amber-700 dark:text-amber-300">
+                  Housing searches are available to verified students only.
+                </p>
+              ) : (
+                <>
+                  <Input
+                    placeholder="e.g. PG near campus under ₹8,000"
+                    value={name}
+                    maxLength={60}
+                    onChange={(e) => setName(e.target.value)}
+                  />
+                  <div className="flex flex-wrap gap-2">
+                    {ALERT_MODES.map(({ mode, label, icon: Icon }) => (
+                      <Button
+                        key={mode}
+                        size="sm"
+                        variant={alertMode === mode ? "default" : "outline"}
+                        className="gap-1.5 rounded-full"
+                        onClick={() => setAlertMode(mode)}
+                      >
+                        <Icon className="h-3.5 w-3.5" />
+                        {label}
+                      </Button>
+                    ))}
+                  </div>
+                  <Button className="w-full" onClick={handleSave} disabled={isSaving || !name.trim()}>
+                    {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Save search
+                  </Button>
+                </>
+              )}
+            </div>
+
+            {/* Saved searches */}
+            {isLoading ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : searches.length === 0 ? (
+              <p className="py-4 text-center text-sm text-muted-foreground">No saved searches yet</p>
+            ) : (
+              <ul className="space-y-3">
+                {searches.map((search) => (
+                  <li key={search.id} className="rounded-xl border border-border p-3 space-y-2">
+                    <div className="flex items-start justify-between gap-2">
+                      <button
+                        type="button"
+                        className="min-w-0 text-left"
+                        onClick={() => handleApply(search)}
+                      >
+                        <p className="truncate text-sm font-medium hover:underline">{search.name}</p>
+                        <p className="truncate text-xs text-muted-foreground">
+                          {describeFilters(search.filters)}
+                        </p>
+                      </button>
+                      <div className="flex shrink-0 items-center gap-1">
+                        {search.recentMatches > 0 && (
+                          <Badge variant="secondary" className="text-[10px]">
+                            {search.recentMatches} new this week
+                          </Badge>
+                        )}
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-8 w-8"
+                          onClick={() => handleDelete(search)}
+                          disabled={busyId === search.id}
+                          aria-label={`Delete ${search.name}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap gap-1.5">
+                      {ALERT_MODES.map(({ mode, label, icon: Icon }) => (
+                        <button
+                          key={mode}
+                          type="button"
+                          onClick={() => handleAlertMode(search, mode)}
+                          disabled={busyId === search.id}
+                          className={cn(
+                            "flex items-center gap-1 rounded-full border px-2.5 py-1 text-[11px] transition-colors",
+                            search.alertMode === mode
+                              ? "border-foreground bg-foreground text-background"
+                              : "border-border text-muted-foreground hover:text-foreground"
+                          )}
+                        >
+                          <Icon className="h-3 w-3" />
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  )
+}
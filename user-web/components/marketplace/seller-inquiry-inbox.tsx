@@ -0,0 +1,197 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { formatDistanceToNow } from "date-fns"
+import { CheckCircle2, Inbox, Loader2, Tag, Undo2 } from "lucide-react"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import { toast } from "sonner"
+import { setListingSaleStatus } from "@/lib/actions/marketplace"
+import { InquiryThread } from "./inquiry-thread"
+import type { InquiryInboxGroup, ListingStatus } from "@/types/marketplace"
+
+interface SellerInquiryInboxProps {
+  groups: InquiryInboxGroup[]
+  userId: string
+  /** Thread to open first (from a notification link) */
+  initialInquiryId?: string
+}
+
+const STATUS_LABELS: Partial<Record<ListingStatus, string>> = {
+  reserved: "Reserved",
+  sold: "Sold",
+  rented: "Rented",
+  expired: "Expired",
+  removed: "Removed",
+}
+
+/**
+ * SellerInquiryInbox - A seller's inquiry threads grouped by listing
+ * Picking a thread opens the conversation; reserved listings can be marked
+ * sold or released from here.
+ */
+export function SellerInquiryInbox({ groups: initialGroups, userId, initialInquiryId }: SellerInquiryInboxProps) {
+  const [groups, setGroups] = useState(initialGroups)
+  const [selectedId, setSelectedId] = useState<string | null>(
+    initialInquiryId ?? initialGroups[0]?.inquiries[0]?.id ?? null
+  )
+  const [updatingListing, setUpdatingListing] = useState<string | null>(null)
+
+  const selectedGroup = groups.find((group) => group.inquiries.some((i) => i.id === selectedId))
+  const selectedInquiry = selectedGroup?.inquiries.find((i) => i.id === selectedId)
+
+  const setGroupStatus = (listingId: string, status: ListingStatus) => {
+    setGroups((prev) =>
+      prev.map((group) => (group.listingId === listingId ? { ...group, listingStatus: status } : group))
+    )
+  }
+
+  const handleSaleStatus = async (listingId: string, status: "sold" | "active") => {
+    setUpdatingListing(listingId)
+    const { success, error } = await setListingSaleStatus(listingId, status)
+    setUpdatingListing(null)
+
+    if (!success) {
+      toast.error(error || "Failed to update listing")
+      return
+    }
+
+    setGroupStatus(listingId, status)
+    toast.success(status === "sold" ? "Listing marked as sold" : "Reservation released")
+  }
+
+  if (groups.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-16 text-center">
+        <Inbox className="h-10 w-10 text-muted-foreground mb-3" />
+        <p className="font-medium">No inquiries yet</p>
+        <p className="text-sm text-muted-foreground">
+          Messages and offers from buyers will show up here.
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="grid gap-6 md:grid-cols-[320px_1fr]">
+      {/* Threads by listing */}
+      <div className="space-y-4">
+        {groups.map((group) => (
+          <div key={group.listingId} className="rounded-xl border border-border bg-card overflow-hidden">
+            <div className="flex items-start justify-between gap-2 border-b border-border p-3">
+              <div className="min-w-0">
+                <Link
+                  href={`/marketplace/${group.listingId}`}
+                  className="block truncate font-medium text-sm hover:underline"
+                >
+                  {group.listingTitle}
+                </Link>
+                <p className="text-xs text-muted-foreground">
+                  {group.listingPrice != null && `₹${group.listingPrice.toLocaleString("en-IN")} · `}
+                  {group.inquiries.length} {group.inquiries.length === 1 ? "inquiry" : "inquiries"}
+                </p>
+              </div>
+              {STATUS_LABELS[group.listingStatus] && (
+                <Badge variant="secondary" className="shrink-0 text-[10px]">
+                  {STATUS_LABELS[group.listingStatus]}
+                </Badge>
+              )}
+            </div>
+
+            {group.listingStatus === "reserved" && (
+              <div className="flex gap-2 border-b border-border p-2">
+                <Button
+                  size="sm"
+                  className="flex-1"
+                  onClick={() => handleSaleStatus(group.listingId, "sold")}
+                  disabled={updatingListing === group.listingId}
+                >
+                  {updatingListing === group.listingId ? (
+                    <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />
+                  ) : (
+                    <CheckCircle2 className="h-3.5 w-3.5 mr-1" />
+                  )}
+                  Mark sold
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="flex-1"
+                  onClick={() => handleSaleStatus(group.listingId, "active")}
+                  disabled={updatingListing === group.listingId}
+                >
+                  <Undo2 className="h-3.5 w-3.5 mr-1" />
+                  Release
+                </Button>
+              </div>
+            )}
+
+            <ul>
+              {group.inquiries.map((inquiry) => (
+                <li key={inquiry.id}>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedId(inquiry.id)}
+                    className={cn(
+                      "flex w-full items-center gap-3 p-3 text-left transition-colors hover:bg-muted/60",
+                      inquiry.id === selectedId && "bg-muted"
+                    )}
+                  >
+                    <Avatar className="h-9 w-9">
+                      <AvatarImage src={inquiry.buyerAvatar || undefined} alt={inquiry.buyerName} />
+                      <AvatarFallback>{inquiry.buyerName.slice(0, 2).toUpperCase()}</AvatarFallback>
+                    </Avatar>
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="truncate text-sm font-medium">{inquiry.buyerName}</span>
+                        <span className="shrink-0 text-[10px] text-muted-foreground">
+                          {formatDistanceToNow(new Date(inquiry.lastMessageAt), { addSuffix: true })}
+                        </span>
+                      </div>
+                      <p className="truncate text-xs text-muted-foreground">
+                        {inquiry.latestOffer?.status === "pending" ? (
+                          <span className="inline-flex items-center gap-1 text-foreground">
+                            <Tag className="h-3 w-3" />
+                            Offer ₹{inquiry.latestOffer.amount.toLocaleString("en-IN")}
+                          </span>
+                        ) : (
+                          inquiry.lastMessage || "No messages yet"
+                        )}
+                      </p>
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+
+      {/* Conversation */}
+      <div className="rounded-xl border border-border bg-card p-4">
+        {selectedInquiry && selectedGroup ? (
+          <>
+            <div className="mb-4">
+              <p className="font-medium">{selectedInquiry.buyerName}</p>
+              <p className="text-xs text-muted-foreground">About: {selectedGroup.listingTitle}</p>
+            </div>
+            <InquiryThread
+              key={selectedInquiry.id}
+              inquiry={selectedInquiry}
+              userId={userId}
+              listingStatus={selectedGroup.listingStatus}
+              onListingReserved={() => setGroupStatus(selectedGroup.listingId, "reserved")}
+            />
+          </>
+        ) : (
+          <p className="py-16 text-center text-sm text-muted-foreground">
+            Pick a conversation to read it
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -180,7 +180,8 @@ export function RazorpayCheckout({
       console.log("🟣 [Partial Payment] Creating Razorpay order for remaining amount...")
       const order = await walletService.createPartialPaymentOrder(
         projectId,
-        paymentCalculation.razorpayAmount
+        paymentCalculation.razorpayAmount,
+        paymentCalculation.walletAmount
       )
       console.log("✅ [Partial Payment] Order created:", order)
 
@@ -17,6 +17,7 @@ export { SettingsTabs, SettingsSection } from "./settings-tabs";
 export { StatsCard } from "./stats-card";
 export { ReferralSection } from "./referral-section";
 export { WalletTopUpSheet } from "./wallet-top-up-sheet";
+export { WalletInvoices } from "./wallet-invoices";
 export { AppInfoFooter } from "./app-info-footer";
 
 // Account upgrade components
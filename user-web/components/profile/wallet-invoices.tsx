@@ -0,0 +1,153 @@
+"use client";
+
+/**
+ * WalletInvoices - GST invoices and credit notes with PDF download
+ */
+
+import { useEffect, useState } from "react";
+import { Download, FileText, Loader2, ReceiptText } from "lucide-react";
+import { toast } from "sonner";
+import { getInvoices, type InvoiceSummary } from "@/lib/actions/invoice";
+import { downloadInvoice } from "@/lib/invoice-download";
+import { cn } from "@/lib/utils";
+
+const STATUS_LABELS: Record<string, string> = {
+  refunded: "Refunded",
+  partially_refunded: "Part refunded",
+};
+
+/**
+ * Format currency
+ */
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat("en-IN", {
+    style: "currency",
+    currency: "INR",
+    minimumFractionDigits: 2,
+  }).format(amount);
+}
+
+/**
+ * Invoices section of the wallet page
+ */
+export function WalletInvoices() {
+  const [invoices, setInvoices] = useState<InvoiceSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    getInvoices()
+      .then(setInvoices)
+      .catch(() => setInvoices([]))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const handleDownload = async (invoice: InvoiceSummary) => {
+    if (!invoice.projectId) return;
+
+    setDownloadingId(invoice.id);
+    try {
+      await downloadInvoice(invoice.projectId, invoice.documentType);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to download invoice");
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-5">
+        <h2 className="text-base font-bold tracking-tight">Invoices</h2>
+      </div>
+
+      <div className="relative overflow-hidden rounded-[20px] p-2 bg-white/70 dark:bg-white/5 backdrop-blur-xl border border-white/50 dark:border-white/10">
+        <div className="absolute inset-0 bg-gradient-to-br from-violet-100/20 to-purple-50/10 dark:from-violet-900/5 dark:to-transparent pointer-events-none rounded-[20px]" />
+        <div className="relative z-10 space-y-0.5">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-10">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : invoices.length === 0 ? (
+            <div className="py-10 text-center">
+              <ReceiptText className="h-7 w-7 text-muted-foreground mx-auto mb-3" strokeWidth={1.5} />
+              <p className="text-sm font-semibold mb-1">No invoices yet</p>
+              <p className="text-xs text-muted-foreground">
+                A GST invoice is issued for every project payment
+              </p>
+            </div>
+          ) : (
+            invoices.map((invoice) => {
+              const isCreditNote = invoice.documentType === "credit_note";
+
+              return (
+                <div
+                  key={invoice.id}
+                  className="flex items-center gap-4 p-4 rounded-[16px] hover:bg-white/50 dark:hover:bg-white/5 transition-all duration-200"
+                >
+                  <div
+                    className={cn(
+                      "w-11 h-11 rounded-2xl flex items-center justify-center flex-shrink-0 shadow-sm",
+                      isCreditNote
+                        ? "bg-gradient-to-br from-emerald-500 to-green-600 shadow-emerald-500/20"
+                        : "bg-gradient-to-br from-violet-500 to-purple-600 shadow-violet-500/20"
+                    )}
+                  >
+                    <FileText className="h-5 w-5 text-white" strokeWidth={2} />
+                  </div>
+
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-semibold truncate mb-0.5">
+                      {isCreditNote ? "Credit Note" : "Invoice"} {invoice.invoiceNumber}
+                    </p>
+                    <p className="text-[11px] text-muted-foreground">
+                      {[
+                        invoice.projectNumber,
+                        new Date(invoice.invoiceDate).toLocaleDateString("en-IN", {
+                          day: "2-digit",
+                          month: "short",
+                          year: "numeric",
+                        }),
+                        invoice.status && STATUS_LABELS[invoice.status],
+                      ]
+                        .filter(Boolean)
+                        .join(" · ")}
+                    </p>
+                  </div>
+
+                  <div className="text-right flex-shrink-0">
+                    <p
+                      className={cn(
+                        "text-sm font-bold tabular-nums mb-0.5",
+                        isCreditNote ? "text-emerald-600 dark:text-emerald-500" : "text-foreground/90"
+                      )}
+                    >
+                      {isCreditNote ? "− " : ""}
+                      {formatCurrency(invoice.totalAmount)}
+                    </p>
+                    <p className="text-[10px] text-muted-foreground tabular-nums">
+                      incl. GST {formatCurrency(invoice.taxAmount)}
+                    </p>
+                  </div>
+
+                  <button
+                    onClick={() => handleDownload(invoice)}
+                    disabled={!invoice.projectId || downloadingId === invoice.id}
+                    aria-label={`Download ${invoice.invoiceNumber}`}
+                    className="w-9 h-9 rounded-xl bg-white/50 dark:bg-white/5 border border-white/50 dark:border-white/10 hover:bg-white/80 dark:hover:bg-white/10 flex items-center justify-center transition-all duration-200 disabled:opacity-50"
+                  >
+                    {downloadingId === invoice.id ? (
+                      <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                    ) : (
+                      <Download className="h-4 w-4 text-muted-foreground" strokeWidth={2} />
+                    )}
+                  </button>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -37,6 +37,8 @@ import {
 } from "./supervisor-message-actions"
 import { TypingIndicator, useTypingIndicator } from "./typing-indicator"
 import { ChatPresenceBanner, OnlineUsersIndicator, useChatPresence } from "./chat-presence"
+import { MessageReceipt } from "./message-receipt"
+import { summarizeReceipts, type MessageReceiptSummary } from "@shared/chat-receipts"
 
 /**
  * Extended message type with approval fields
@@ -155,6 +157,7 @@ function isMessageVisible(
 function MessageBubble({
   message,
   isCurrentUser,
+  receipt,
   userRole,
   userId,
   onApprove,
@@ -162,6 +165,8 @@ function MessageBubble({
 }: {
   message: MessageWithApproval
   isCurrentUser: boolean
+  /** Sent / delivered / read state of the user's own message */
+  receipt?: MessageReceiptSummary
   userRole: UserRole
   userId: string
   onApprove?: (messageId: string) => void
@@ -277,10 +282,10 @@ function MessageBubble({
           </div>
         )}
 
-        <span className="mt-1 text-[10px] text-muted-foreground">
+        <span className="mt-1 flex items-center text-[10px] text-muted-foreground">
           {message.created_at && formatTime(message.created_at)}
-          {message.is_read && isCurrentUser && (
-            <span className="ml-1">✓</span>
+          {receipt && isCurrentUser && (
+            <MessageReceipt summary={receipt} className="ml-1" />
           )}
           {approvalStatus === "pending" && isCurrentUser && (
             <span className="ml-1 text-amber-600 dark:text-amber-400">
@@ -375,6 +380,8 @@ export function ChatWindow({
 
   const {
     messages,
+    receipts,
+    participants,
     isLoading,
     isSending,
     hasMore,
@@ -709,6 +716,11 @@ export function ChatWindow({
                     key={message.id}
                     message={message}
                     isCurrentUser={message.sender_id === userId}
+                    receipt={
+                      message.sender_id === userId
+                        ? summarizeReceipts(message, receipts, participants)
+                        : undefined
+                    }
                     userRole={effectiveRole}
                     userId={userId}
                     onApprove={handleMessageApprove}
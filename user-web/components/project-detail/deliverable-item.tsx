@@ -1,15 +1,20 @@
 "use client";
 
 import { useState } from "react";
-import { FileText, Download, CheckCircle, Loader2 } from "lucide-react";
+import { FileText, Download, CheckCircle, Eye, Loader2 } from "lucide-react";
 import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
+import { downloadDeliverable } from "@/lib/deliverable-download";
+import type { DeliverableAccess } from "@shared/deliverable-access";
 import type { Deliverable } from "@/types/project";
 
 interface DeliverableItemProps {
   deliverable: Deliverable;
+  /** What the student may open; "preview" hides the download */
+  access?: DeliverableAccess;
+  onPreview?: (deliverable: Deliverable) => void;
   className?: string;
 }
 
@@ -41,32 +46,21 @@ function getFileColor(name: string): string {
  */
 export function DeliverableItem({
   deliverable,
+  access = "file",
+  onPreview,
   className,
 }: DeliverableItemProps) {
   const [isDownloading, setIsDownloading] = useState(false);
 
   const handleDownload = async () => {
-    if (!deliverable.url) {
-      toast.error("File URL not available");
-      return;
-    }
-
     setIsDownloading(true);
 
     try {
-      // Create download link and trigger download
-      const link = document.createElement("a");
-      link.href = deliverable.url;
-      link.download = deliverable.name;
-      link.target = "_blank";
-      link.rel = "noopener noreferrer";
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-
+      // Links are signed per request and expire within a minute
+      await downloadDeliverable(deliverable.id);
       toast.success(`Downloading: ${deliverable.name}`);
-    } catch {
-      toast.error("Failed to download file");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to download file");
     } finally {
       setIsDownloading(false);
     }
@@ -112,20 +106,32 @@ export function DeliverableItem({
         </div>
       </div>
 
-      <Button
-        variant="outline"
-        size="sm"
-        onClick={handleDownload}
-        disabled={isDownloading}
-        className="shrink-0 gap-2"
-      >
-        {isDownloading ? (
-          <Loader2 className="h-4 w-4 animate-spin" />
-        ) : (
-          <Download className="h-4 w-4" />
-        )}
-        <span className="hidden sm:inline">Download</span>
-      </Button>
+      {access === "preview" ? (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onPreview?.(deliverable)}
+          className="shrink-0 gap-2"
+        >
+          <Eye className="h-4 w-4" />
+          <span className="hidden sm:inline">Preview</span>
+        </Button>
+      ) : (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleDownload}
+          disabled={isDownloading}
+          className="shrink-0 gap-2"
+        >
+          {isDownloading ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Download className="h-4 w-4" />
+          )}
+          <span className="hidden sm:inline">Download</span>
+        </Button>
+      )}
     </div>
   );
 }
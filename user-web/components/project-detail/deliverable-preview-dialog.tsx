@@ -0,0 +1,91 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { AlertCircle, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { getDeliverableLink } from "@/lib/deliverable-download";
+import { DELIVERABLE_PREVIEW_PAGES, deliverablePreviewKind } from "@shared/deliverable-access";
+import type { Deliverable } from "@/types/project";
+
+interface DeliverablePreviewDialogProps {
+  deliverable: Deliverable | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Watermarked preview of a deliverable, shown while the project is under review
+ */
+export function DeliverablePreviewDialog({
+  deliverable,
+  onOpenChange,
+}: DeliverablePreviewDialogProps) {
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!deliverable) return;
+
+    let cancelled = false;
+    getDeliverableLink(deliverable.id, "preview")
+      .then((url) => {
+        if (!cancelled) setPreviewUrl(url);
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setError(err.message);
+      });
+
+    return () => {
+      cancelled = true;
+      setPreviewUrl(null);
+      setError(null);
+    };
+  }, [deliverable]);
+
+  return (
+    <Dialog open={deliverable !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="truncate">{deliverable?.name}</DialogTitle>
+          <DialogDescription>
+            {deliverable && deliverablePreviewKind(deliverable.name) === "text" ? (
+              <>
+                Text-only preview of the first {DELIVERABLE_PREVIEW_PAGES} pages. Formatting,
+                images and tables appear in the full file once you approve the project.
+              </>
+            ) : (
+              <>
+                Preview of the first {DELIVERABLE_PREVIEW_PAGES} pages. The full file unlocks
+                once you approve the project.
+              </>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="h-[70vh] overflow-hidden rounded-lg border bg-muted/30">
+          {error ? (
+            <div className="flex h-full flex-col items-center justify-center gap-2 p-6 text-center">
+              <AlertCircle className="h-8 w-8 text-muted-foreground/60" />
+              <p className="text-sm text-muted-foreground">{error}</p>
+            </div>
+          ) : previewUrl ? (
+            <iframe
+              src={previewUrl}
+              title={`Preview of ${deliverable?.name}`}
+              className="h-full w-full"
+            />
+          ) : (
+            <div className="flex h-full items-center justify-center">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,14 +1,23 @@
 "use client";
 
-import { Package, Clock } from "lucide-react";
+import { useState } from "react";
+import { Package, Clock, Eye } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { DeliverableItem } from "./deliverable-item";
+import { DeliverablePreviewDialog } from "./deliverable-preview-dialog";
 import { cn } from "@/lib/utils";
+import {
+  DELIVERABLE_RELEASED_STATUSES,
+  DELIVERABLE_REVIEW_STATUSES,
+  deliverableAccess,
+} from "@shared/deliverable-access";
 import type { Deliverable, ProjectStatus } from "@/types/project";
 
 interface DeliverablesSectionProps {
   status: ProjectStatus;
   deliverables: Deliverable[];
+  /** Whether the project is paid for; the full files need it */
+  isPaid?: boolean;
   className?: string;
 }
 
@@ -16,24 +25,34 @@ interface DeliverablesSectionProps {
  * Check if deliverables should be visible
  */
 function shouldShowDeliverables(status: ProjectStatus): boolean {
-  const visibleStatuses: ProjectStatus[] = [
-    "delivered",
-    "qc_approved",
-    "completed",
-  ];
-  return visibleStatuses.includes(status);
+  return [...DELIVERABLE_REVIEW_STATUSES, ...DELIVERABLE_RELEASED_STATUSES].includes(status);
 }
 
 /**
- * Deliverables section with file list
+ * Deliverables section with file list. Until the project is approved the
+ * student gets watermarked previews instead of downloads.
  */
 export function DeliverablesSection({
   status,
   deliverables,
+  isPaid = false,
   className,
 }: DeliverablesSectionProps) {
+  const [previewing, setPreviewing] = useState<Deliverable | null>(null);
   const isVisible = shouldShowDeliverables(status);
 
+  const visibleDeliverables = deliverables
+    .map((deliverable) => ({
+      deliverable,
+      access: deliverableAccess(
+        "user",
+        { status, is_paid: isPaid },
+        { qc_status: deliverable.qcStatus ?? null }
+      ),
+    }))
+    .filter(({ access }) => access !== "none");
+  const isPreviewOnly = visibleDeliverables.some(({ access }) => access === "preview");
+
   return (
     <Card className={cn(className)}>
       <CardHeader className="pb-3">
@@ -54,7 +73,7 @@ export function DeliverablesSection({
               You&apos;ll be notified when deliverables are uploaded
             </p>
           </div>
-        ) : deliverables.length === 0 ? (
+        ) : visibleDeliverables.length === 0 ? (
           // No deliverables
           <p className="text-sm text-muted-foreground">
             No deliverables uploaded yet
@@ -62,15 +81,28 @@ export function DeliverablesSection({
         ) : (
           // Deliverables list
           <div className="space-y-2">
-            {deliverables.map((deliverable) => (
+            {isPreviewOnly && (
+              <p className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                <Eye className="h-3.5 w-3.5" />
+                Preview the first pages now; downloads unlock once you approve the project.
+              </p>
+            )}
+            {visibleDeliverables.map(({ deliverable, access }) => (
               <DeliverableItem
                 key={deliverable.id}
                 deliverable={deliverable}
+                access={access}
+                onPreview={setPreviewing}
               />
             ))}
           </div>
         )}
       </CardContent>
+
+      <DeliverablePreviewDialog
+        deliverable={previewing}
+        onOpenChange={(open) => !open && setPreviewing(null)}
+      />
     </Card>
   );
 }
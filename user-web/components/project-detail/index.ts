@@ -11,6 +11,7 @@ export { ProjectBriefAccordion } from "./project-brief-accordion";
 export { AttachedFiles } from "./attached-files";
 export { DeliverablesSection } from "./deliverables-section";
 export { DeliverableItem } from "./deliverable-item";
+export { DeliverablePreviewDialog } from "./deliverable-preview-dialog";
 export { QualityReportBadge } from "./quality-report-badge";
 export { FloatingChatButton } from "./floating-chat-button";
 export { ChatWindow } from "./chat-window";
@@ -0,0 +1,87 @@
+"use client"
+
+import { Check, CheckCheck } from "lucide-react"
+import { cn } from "@/lib/utils"
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip"
+import type { MessageReceiptSummary, ReceiptStatus } from "@shared/chat-receipts"
+
+/**
+ * Props for MessageReceipt component
+ */
+interface MessageReceiptProps {
+  /** Receipt state of the message */
+  summary: MessageReceiptSummary
+  /** Additional CSS classes */
+  className?: string
+}
+
+/**
+ * Tick label per status
+ */
+const statusLabels: Record<ReceiptStatus, string> = {
+  sent: "Sent",
+  delivered: "Delivered",
+  read: "Read",
+}
+
+/**
+ * Format timestamp for tooltip display
+ */
+function formatTimestamp(timestamp: string): string {
+  return new Date(timestamp).toLocaleString("en-IN", {
+    day: "numeric",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  })
+}
+
+/**
+ * MessageReceipt component
+ *
+ * Ticks on the user's own messages: one grey tick when sent, two grey ticks
+ * once delivered to everyone and two blue ticks once everyone has read it.
+ * The tooltip shows each participant's state, which matters in rooms with a
+ * supervisor and a doer.
+ *
+ * @example
+ * ```tsx
+ * <MessageReceipt summary={summarizeReceipts(message, receipts, participants)} />
+ * ```
+ */
+export function MessageReceipt({ summary, className }: MessageReceiptProps) {
+  const Icon = summary.status === "sent" ? Check : CheckCheck
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span
+          className={cn(
+            "inline-flex items-center",
+            summary.status === "read" ? "text-sky-500" : "text-muted-foreground",
+            className
+          )}
+          role="status"
+          aria-label={statusLabels[summary.status]}
+        >
+          <Icon className="h-3 w-3" />
+        </span>
+      </TooltipTrigger>
+      <TooltipContent side="top" className="max-w-xs text-left">
+        <div className="space-y-0.5">
+          <p className="text-xs font-medium">{statusLabels[summary.status]}</p>
+          {summary.recipients.map((recipient) => (
+            <p key={recipient.profile_id} className="text-xs">
+              {recipient.name}: {statusLabels[recipient.status]}
+              {recipient.at && ` · ${formatTimestamp(recipient.at)}`}
+            </p>
+          ))}
+        </div>
+      </TooltipContent>
+    </Tooltip>
+  )
+}
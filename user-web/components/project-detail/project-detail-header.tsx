@@ -12,7 +12,7 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { cn } from "@/lib/utils";
-import { generateInvoiceHTML } from "@/lib/actions/invoice";
+import { downloadInvoice } from "@/lib/invoice-download";
 import { toast } from "sonner";
 import type { ProjectStatus } from "@/types/project";
 
@@ -54,33 +54,11 @@ export function ProjectDetailHeader({
 
     setIsDownloadingInvoice(true);
     try {
-      const invoiceHTML = await generateInvoiceHTML(projectId);
-
-      if (!invoiceHTML) {
-        toast.error("Invoice not available for this project");
-        return;
-      }
-
-      // Create a new window with the invoice HTML
-      const printWindow = window.open("", "_blank");
-      if (!printWindow) {
-        toast.error("Please allow popups to download invoice");
-        return;
-      }
-
-      printWindow.document.write(invoiceHTML);
-      printWindow.document.close();
-
-      // Wait for content to load then trigger print
-      printWindow.onload = () => {
-        printWindow.focus();
-        printWindow.print();
-      };
-
-      toast.success("Invoice opened for download");
+      await downloadInvoice(projectId);
+      toast.success("Invoice downloaded");
     } catch (error) {
-      console.error("Error generating invoice:", error);
-      toast.error("Failed to generate invoice");
+      console.error("Error downloading invoice:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to download invoice");
     } finally {
       setIsDownloadingInvoice(false);
     }
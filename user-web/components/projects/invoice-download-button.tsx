@@ -3,7 +3,7 @@
 import { useState } from "react";
 import { FileText, Download, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { generateInvoiceHTML } from "@/lib/actions/invoice";
+import { downloadInvoice } from "@/lib/invoice-download";
 import { toast } from "sonner";
 
 interface InvoiceDownloadButtonProps {
@@ -32,33 +32,11 @@ export function InvoiceDownloadButton({
     setIsLoading(true);
 
     try {
-      const invoiceHTML = await generateInvoiceHTML(projectId);
-
-      if (!invoiceHTML) {
-        toast.error("Invoice not available for this project");
-        return;
-      }
-
-      // Create a new window with the invoice HTML
-      const printWindow = window.open("", "_blank");
-      if (!printWindow) {
-        toast.error("Please allow popups to download invoice");
-        return;
-      }
-
-      printWindow.document.write(invoiceHTML);
-      printWindow.document.close();
-
-      // Wait for content to load then trigger print
-      printWindow.onload = () => {
-        printWindow.focus();
-        printWindow.print();
-      };
-
-      toast.success("Invoice opened for download");
+      await downloadInvoice(projectId);
+      toast.success("Invoice downloaded");
     } catch (error) {
-      console.error("Error generating invoice:", error);
-      toast.error("Failed to generate invoice");
+      console.error("Error downloading invoice:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to download invoice");
     } finally {
       setIsLoading(false);
     }
@@ -4,6 +4,7 @@ import { useState } from "react";
 import { FileText, Download, Loader2 } from "lucide-react";
 import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
+import { downloadInvoice } from "@/lib/invoice-download";
 import { cn } from "@/lib/utils";
 
 interface InvoiceDownloadProps {
@@ -27,30 +28,10 @@ export function InvoiceDownload({
     setIsDownloading(true);
 
     try {
-      // Fetch invoice from API
-      const response = await fetch(`/api/invoices/${projectId}`);
-
-      if (!response.ok) {
-        throw new Error("Failed to generate invoice");
-      }
-
-      const blob = await response.blob();
-      const url = window.URL.createObjectURL(blob);
-      const fileName = `Invoice_${projectNumber.replace("#", "")}.pdf`;
-
-      // Trigger download
-      const link = document.createElement("a");
-      link.href = url;
-      link.download = fileName;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-
-      // Cleanup
-      window.URL.revokeObjectURL(url);
-      toast.success(`Invoice downloaded: ${fileName}`);
-    } catch {
-      toast.error("Failed to download invoice. Please try again.");
+      const fileName = await downloadInvoice(projectId);
+      toast.success(`Invoice for ${projectNumber} downloaded: ${fileName}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to download invoice. Please try again.");
     } finally {
       setIsDownloading(false);
     }
@@ -5,6 +5,7 @@
 export { useChat } from "./useChat"
 export { useNotifications } from "./useNotifications"
 export { usePayment } from "./usePayment"
+export { usePriceEstimate } from "./use-price-estimate"
 
 // Skeleton system hooks
 export { useMinimumLoadingTime } from "./use-minimum-loading-time";
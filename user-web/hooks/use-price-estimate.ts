@@ -0,0 +1,60 @@
+/**
+ * @fileoverview Hook for live price estimates from the shared pricing engine.
+ * @module hooks/use-price-estimate
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { pricingService, type PriceInput, type PricingBreakdown } from "@/services";
+
+/**
+ * Fetches an itemised estimate whenever the inputs change.
+ * @param input - Pricing inputs, or null to skip
+ * @param fallbackHours - Turnaround to assume while no deadline is picked
+ */
+export function usePriceEstimate(input: PriceInput | null, fallbackHours?: number) {
+  const [result, setResult] = useState<{
+    key: string;
+    breakdown: PricingBreakdown | null;
+    error: string | null;
+  } | null>(null);
+
+  const deadline =
+    input?.deadline instanceof Date ? input.deadline.toISOString() : input?.deadline;
+  const key = input ? JSON.stringify({ ...input, deadline }) : null;
+
+  useEffect(() => {
+    if (!key) return;
+
+    let cancelled = false;
+
+    const parsed = JSON.parse(key) as PriceInput;
+    if (!parsed.deadline && fallbackHours) {
+      parsed.deadline = new Date(Date.now() + fallbackHours * 60 * 60 * 1000);
+    }
+
+    pricingService
+      .getPriceBreakdown(parsed)
+      .then((breakdown) => {
+        if (!cancelled) setResult({ key, breakdown, error: null });
+      })
+      .catch((err: unknown) => {
+        console.error("[usePriceEstimate] Error:", err);
+        if (!cancelled) {
+          setResult({ key, breakdown: null, error: "Unable to calculate an estimate right now" });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [key, fallbackHours]);
+
+  // Keep showing the previous estimate while a new one loads
+  return {
+    breakdown: key ? result?.breakdown ?? null : null,
+    isLoading: key !== null && result?.key !== key,
+    error: key && result?.key === key ? result.error : null,
+  };
+}
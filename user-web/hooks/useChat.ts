@@ -3,12 +3,22 @@
 import { useState, useEffect, useCallback, useRef } from "react"
 import { toast } from "sonner"
 import { chatService, type MessageWithSender } from "@/services"
+import {
+  applyReceiptEvent,
+  indexReceipts,
+  type ReceiptIndex,
+  type ReceiptParticipant,
+} from "@shared/chat-receipts"
 
 /**
  * Chat state
  */
 interface ChatState {
   messages: MessageWithSender[]
+  /** Delivery / read receipts of the loaded messages */
+  receipts: ReceiptIndex
+  /** Room participants, for per-participant read state */
+  participants: ReceiptParticipant[]
   isLoading: boolean
   isSending: boolean
   hasMore: boolean
@@ -23,6 +33,8 @@ export function useChat(projectId: string | null, userId: string | null) {
   const [roomId, setRoomId] = useState<string | null>(null)
   const [state, setState] = useState<ChatState>({
     messages: [],
+    receipts: {},
+    participants: [],
     isLoading: true,
     isSending: false,
     hasMore: true,
@@ -51,13 +63,19 @@ export function useChat(projectId: string | null, userId: string | null) {
 
         setRoomId(room.id)
 
-        // Load initial messages
+        // Load initial messages, their receipts and the participants
         const messages = await chatService.getMessages(room.id, 50)
+        const [receipts, participants] = await Promise.all([
+          chatService.getReceipts(messages.map((m) => m.id)),
+          chatService.getParticipants(room.id),
+        ])
         if (!isMounted) return
 
         setState((prev) => ({
           ...prev,
           messages,
+          receipts: indexReceipts(receipts),
+          participants,
           isLoading: false,
           hasMore: messages.length === 50,
         }))
@@ -100,6 +118,11 @@ export function useChat(projectId: string | null, userId: string | null) {
               }
             })
           }
+        }, (event) => {
+          setState((prev) => ({
+            ...prev,
+            receipts: applyReceiptEvent(prev.receipts, prev.messages, event),
+          }))
         })
       } catch (error: any) {
         if (!isMounted) return
@@ -136,9 +159,11 @@ export function useChat(projectId: string | null, userId: string | null) {
 
     try {
       const olderMessages = await chatService.getMessages(roomId, 50, oldestMessage.id)
+      const receipts = await chatService.getReceipts(olderMessages.map((m) => m.id))
       setState((prev) => ({
         ...prev,
         messages: [...olderMessages, ...prev.messages],
+        receipts: indexReceipts(receipts, prev.receipts),
         isLoading: false,
         hasMore: olderMessages.length === 50,
       }))
@@ -159,8 +184,11 @@ export function useChat(projectId: string | null, userId: string | null) {
       setState((prev) => ({ ...prev, isSending: true }))
 
       try {
-        await chatService.sendMessage(roomId, userId, content.trim(), attachmentUrl)
+        const message = await chatService.sendMessage(roomId, userId, content.trim(), attachmentUrl)
         setState((prev) => ({ ...prev, isSending: false }))
+        if (message.contains_contact_info) {
+          toast.warning("Contact details were removed from your message")
+        }
         return true
       } catch (error: any) {
         console.error("Send message error:", error)
@@ -1,17 +1,22 @@
 "use server";
 
-import { createClient } from "@/lib/supabase/server";
+import { createAdminClient, createClient } from "@/lib/supabase/server";
 import { revalidatePath } from "next/cache";
+import { cancelEventReminders, notifyWaitlistPromotion, syncEventReminders } from "@/lib/campus-events";
 import type {
   CampusConnectCategory,
   CampusConnectFilters,
   CampusConnectPost,
   CampusConnectComment,
+  CampusConnectFeedPage,
   CreatePostInput,
   UpdatePostInput,
   CreateCommentInput,
   DBCampusConnectPostWithRelations,
   DBCommentWithRelations,
+  EventAttendee,
+  EventRsvpResult,
+  EventRsvpStatus,
   transformDBPostToUI,
   transformDBCommentToUI,
 } from "@/types/campus-connect";
@@ -54,6 +59,20 @@ function transformPost(dbPost: any): CampusConnectPost {
     isAdminPost: dbPost.is_admin_post || false,
     createdAt: dbPost.created_at,
     timeAgo: formatDistanceToNow(new Date(dbPost.created_at), { addSuffix: true }),
+    location: dbPost.location ?? null,
+    eventDate: dbPost.event_date ?? null,
+    eventEndDate: dbPost.event_end_date ?? null,
+    eventVenue: dbPost.event_venue ?? null,
+    eventCapacity: dbPost.event_capacity ?? null,
+    rsvpCounts: dbPost.category === "events"
+      ? {
+          going: dbPost.rsvp_going_count || 0,
+          interested: dbPost.rsvp_interested_count || 0,
+          waitlisted: dbPost.rsvp_waitlist_count || 0,
+        }
+      : undefined,
+    deadline: dbPost.deadline ?? null,
+    price: dbPost.price ?? null,
   };
 }
 
@@ -79,6 +98,91 @@ function transformComment(dbComment: any): CampusConnectComment {
   };
 }
 
+/**
+ * Post columns with author and college joins
+ * Note: Foreign key hints use the column name that references the foreign table
+ */
+const POST_SELECT = `
+  *,
+  author:profiles (
+    id,
+    full_name,
+    avatar_url,
+    is_college_verified
+  ),
+  college:colleges (
+    id,
+    name,
+    short_name,
+    city
+  )
+`;
+
+/**
+ * Position in the "For you" feed: the time the feed was first loaded and the
+ * score / id of the last post returned
+ */
+interface FeedCursor {
+  asOf: string;
+  score: number;
+  id: string;
+}
+
+function encodeFeedCursor(cursor: FeedCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeFeedCursor(cursor: string): FeedCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (
+      typeof parsed?.asOf === "string" &&
+      typeof parsed?.score === "number" &&
+      typeof parsed?.id === "string"
+    ) {
+      return parsed;
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Set isLiked / isSaved for the current user
+ */
+async function withUserInteractions(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  userId: string,
+  posts: CampusConnectPost[]
+): Promise<CampusConnectPost[]> {
+  if (posts.length === 0) return posts;
+
+  const postIds = posts.map(p => p.id);
+
+  const [{ data: likes }, { data: saves }] = await Promise.all([
+    supabase
+      .from("campus_post_likes")
+      .select("post_id")
+      .eq("user_id", userId)
+      .in("post_id", postIds),
+    supabase
+      .from("campus_saved_posts")
+      .select("post_id")
+      .eq("user_id", userId)
+      .in("post_id", postIds),
+  ]);
+
+  const likedIds = new Set(likes?.map(l => l.post_id) || []);
+  const savedIds = new Set(saves?.map(s => s.post_id) || []);
+
+  return posts.map(post => ({
+    ...post,
+    isLiked: likedIds.has(post.id),
+    isSaved: savedIds.has(post.id),
+  }));
+}
+
 // =============================================================================
 // POST OPERATIONS
 // =============================================================================
@@ -89,29 +193,18 @@ function transformComment(dbComment: any): CampusConnectComment {
 export async function getCampusConnectPosts(
   filters: CampusConnectFilters = {}
 ): Promise<{ data: CampusConnectPost[]; total: number; error: string | null }> {
+  // Searches go through the ranked full-text index
+  if (filters.search?.trim()) {
+    return searchCampusConnectPosts(filters);
+  }
+
   const supabase = await createClient();
   const { data: { user } } = await supabase.auth.getUser();
 
   try {
-    // Build base query - using correct FK column names
-    // Note: Foreign key hints use the column name that references the foreign table
     let query = supabase
       .from("campus_posts")
-      .select(`
-        *,
-        author:profiles (
-          id,
-          full_name,
-          avatar_url,
-          is_college_verified
-        ),
-        college:colleges (
-          id,
-          name,
-          short_name,
-          city
-        )
-      `, { count: "exact" })
+      .select(POST_SELECT, { count: "exact" })
       // Include active, published posts and also those without status (for backwards compatibility)
       // Database default is 'active', app creates with 'published'
       .or("status.eq.active,status.eq.published,status.is.null");
@@ -132,10 +225,18 @@ export async function getCampusConnectPosts(
       query = query.eq("college_id", filters.universityId);
     }
 
-    // Search in title and content
-    if (filters.search) {
-      const searchTerm = `%${filters.search}%`;
-      query = query.or(`title.ilike.${searchTerm},content.ilike.${searchTerm}`);
+    // Event date and price ranges
+    if (filters.eventDateFrom) {
+      query = query.gte("event_date", filters.eventDateFrom);
+    }
+    if (filters.eventDateTo) {
+      query = query.lte("event_date", filters.eventDateTo);
+    }
+    if (filters.minPrice !== undefined) {
+      query = query.gte("price", filters.minPrice);
+    }
+    if (filters.maxPrice !== undefined) {
+      query = query.lte("price", filters.maxPrice);
     }
 
     // Sorting - use correct DB column names
@@ -169,41 +270,217 @@ export async function getCampusConnectPosts(
     // Transform posts
     let transformedPosts = (posts || []).map((post: any) => transformPost(post));
 
-    // Check user interactions (likes/saves)
-    if (user && transformedPosts.length > 0) {
-      const postIds = transformedPosts.map(p => p.id);
+    if (user) {
+      transformedPosts = await withUserInteractions(supabase, user.id, transformedPosts);
+    }
 
-      // Get likes
-      const { data: likes } = await supabase
-        .from("campus_post_likes")
-        .select("post_id")
-        .eq("user_id", user.id)
-        .in("post_id", postIds);
+    return { data: transformedPosts, total: count || 0, error: null };
+  } catch (error: any) {
+    console.error("Unexpected error fetching posts:", error);
+    return { data: [], total: 0, error: error.message };
+  }
+}
 
-      // Get saves
-      const { data: saves } = await supabase
-        .from("campus_saved_posts")
-        .select("post_id")
-        .eq("user_id", user.id)
-        .in("post_id", postIds);
+/**
+ * Ranked full-text search over campus connect posts
+ * Matches title, content, event venue and location (including other word
+ * forms) and returns highlighted snippets. Takes the same filters as
+ * getCampusConnectPosts; sortBy defaults to relevance.
+ */
+export async function searchCampusConnectPosts(
+  filters: CampusConnectFilters = {}
+): Promise<{ data: CampusConnectPost[]; total: number; error: string | null }> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  const search = filters.search?.trim();
+  if (!search) {
+    return { data: [], total: 0, error: null };
+  }
 
-      const likedIds = new Set(likes?.map(l => l.post_id) || []);
-      const savedIds = new Set(saves?.map(s => s.post_id) || []);
+  try {
+    const { data: matches, error } = await supabase.rpc("search_campus_posts_ranked", {
+      p_query: search,
+      p_category: filters.category && filters.category !== "all" ? filters.category : null,
+      p_college_id: filters.universityId || null,
+      p_event_from: filters.eventDateFrom || null,
+      p_event_to: filters.eventDateTo || null,
+      p_min_price: filters.minPrice ?? null,
+      p_max_price: filters.maxPrice ?? null,
+      p_exclude_housing: filters.excludeHousing || false,
+      p_sort: filters.sortBy || "relevance",
+      p_limit: filters.limit || 20,
+      p_offset: filters.offset || 0,
+    });
 
-      transformedPosts = transformedPosts.map(post => ({
-        ...post,
-        isLiked: likedIds.has(post.id),
-        isSaved: savedIds.has(post.id),
+    if (error) {
+      console.error("Error searching campus connect posts:", error);
+      return { data: [], total: 0, error: error.message };
+    }
+
+    const results = (matches || []) as {
+      id: string;
+      title_highlight: string;
+      content_highlight: string;
+      total_count: number;
+    }[];
+
+    if (results.length === 0) {
+      return { data: [], total: 0, error: null };
+    }
+
+    // Load the matched posts with their author and college, then keep the ranked order
+    const { data: posts, error: postsError } = await supabase
+      .from("campus_posts")
+      .select(POST_SELECT)
+      .in("id", results.map(r => r.id));
+
+    if (postsError) {
+      console.error("Error fetching searched posts:", postsError);
+      return { data: [], total: 0, error: postsError.message };
+    }
+
+    const postsById = new Map(
+      ((posts || []) as DBCampusConnectPostWithRelations[]).map(post => [post.id, post])
+    );
+
+    let transformedPosts: CampusConnectPost[] = results
+      .filter(result => postsById.has(result.id))
+      .map(result => ({
+        ...transformPost(postsById.get(result.id)),
+        highlight: {
+          title: result.title_highlight,
+          content: result.content_highlight,
+        },
       }));
+
+    if (user) {
+      transformedPosts = await withUserInteractions(supabase, user.id, transformedPosts);
     }
 
-    return { data: transformedPosts, total: count || 0, error: null };
-  } catch (error: any) {
-    console.error("Unexpected error fetching posts:", error);
-    return { data: [], total: 0, error: error.message };
+    return { data: transformedPosts, total: Number(results[0].total_count), error: null };
+  } catch (error) {
+    console.error("Unexpected error searching posts:", error);
+    return { data: [], total: 0, error: error instanceof Error ? error.message : "Failed to search posts" };
+  }
+}
+
+/**
+ * "For you" feed page
+ * Ranked in the database by recency, engagement, same-college and category
+ * affinity (see get_campus_feed_for_you), without authors the user blocked
+ * or reported. Pass the returned nextCursor to get the next page; it pins the
+ * feed to the time of the first page so new posts don't shift later pages.
+ */
+export async function getForYouCampusConnectPosts(
+  filters: Omit<CampusConnectFilters, "search" | "sortBy" | "offset"> = {},
+  cursor: string | null = null
+): Promise<CampusConnectFeedPage> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  const position = cursor ? decodeFeedCursor(cursor) : null;
+  if (cursor && !position) {
+    return { data: [], nextCursor: null, error: "Invalid feed cursor" };
+  }
+
+  const asOf = position?.asOf || new Date().toISOString();
+  const limit = filters.limit || 20;
+
+  try {
+    const { data: ranked, error } = await supabase.rpc("get_campus_feed_for_you", {
+      p_as_of: asOf,
+      p_cursor_score: position?.score ?? null,
+      p_cursor_id: position?.id ?? null,
+      p_category: filters.category && filters.category !== "all" ? filters.category : null,
+      p_college_id: filters.universityId || null,
+      p_event_from: filters.eventDateFrom || null,
+      p_event_to: filters.eventDateTo || null,
+      p_min_price: filters.minPrice ?? null,
+      p_max_price: filters.maxPrice ?? null,
+      p_exclude_housing: filters.excludeHousing || false,
+      p_limit: limit,
+    });
+
+    if (error) {
+      console.error("Error fetching for you feed:", error);
+      return { data: [], nextCursor: null, error: error.message };
+    }
+
+    const results = (ranked || []) as { id: string; score: number }[];
+
+    if (results.length === 0) {
+      return { data: [], nextCursor: null, error: null };
+    }
+
+    const { data: posts, error: postsError } = await supabase
+      .from("campus_posts")
+      .select(POST_SELECT)
+      .in("id", results.map(r => r.id));
+
+    if (postsError) {
+      console.error("Error fetching feed posts:", postsError);
+      return { data: [], nextCursor: null, error: postsError.message };
+    }
+
+    const postsById = new Map(
+      ((posts || []) as DBCampusConnectPostWithRelations[]).map(post => [post.id, post])
+    );
+
+    let transformedPosts = results
+      .filter(result => postsById.has(result.id))
+      .map(result => transformPost(postsById.get(result.id)));
+
+    if (user) {
+      transformedPosts = await withUserInteractions(supabase, user.id, transformedPosts);
+    }
+
+    const last = results[results.length - 1];
+    const nextCursor = results.length === limit
+      ? encodeFeedCursor({ asOf, score: last.score, id: last.id })
+      : null;
+
+    return { data: transformedPosts, nextCursor, error: null };
+  } catch (error) {
+    console.error("Unexpected error fetching for you feed:", error);
+    return { data: [], nextCursor: null, error: error instanceof Error ? error.message : "Failed to load your feed" };
   }
 }
 
+/**
+ * Typo-tolerant search suggestions
+ * Post titles containing a word close to the query (e.g. "hostle" -> "Girls hostel near
+ * north campus"), best match first.
+ */
+export async function getCampusSearchSuggestions(
+  query: string,
+  options: { universityId?: string | null; excludeHousing?: boolean; limit?: number } = {}
+): Promise<{ data: string[]; error: string | null }> {
+  const search = query.trim();
+  if (search.length < 2) {
+    return { data: [], error: null };
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase.rpc("suggest_campus_post_searches", {
+    p_query: search,
+    p_college_id: options.universityId || null,
+    p_exclude_housing: options.excludeHousing || false,
+    p_limit: options.limit || 5,
+  });
+
+  if (error) {
+    console.error("Error fetching search suggestions:", error);
+    return { data: [], error: error.message };
+  }
+
+  return {
+    data: ((data || []) as { suggestion: string }[]).map(row => row.suggestion),
+    error: null,
+  };
+}
+
 /**
  * Get a single post by ID
  */
@@ -249,7 +526,7 @@ export async function getCampusConnectPostById(
 
     // Check user interactions
     if (user) {
-      const [likeResult, saveResult] = await Promise.all([
+      const [likeResult, saveResult, rsvpResult] = await Promise.all([
         supabase
           .from("campus_post_likes")
           .select("id")
@@ -262,12 +539,19 @@ export async function getCampusConnectPostById(
           .eq("user_id", user.id)
           .eq("post_id", postId)
           .single(),
+        supabase
+          .from("campus_event_rsvps")
+          .select("status")
+          .eq("user_id", user.id)
+          .eq("post_id", postId)
+          .maybeSingle(),
       ]);
 
       transformedPost = {
         ...transformedPost,
         isLiked: !!likeResult.data,
         isSaved: !!saveResult.data,
+        myRsvp: (rsvpResult.data?.status as EventRsvpStatus | undefined) ?? null,
       };
     }
 
@@ -308,6 +592,17 @@ export async function createCampusConnectPost(
   if (!input.content || input.content.trim().length === 0) {
     return { data: null, error: "Content is required" };
   }
+  if (input.eventDate && Number.isNaN(Date.parse(input.eventDate))) {
+    return { data: null, error: "Invalid event date" };
+  }
+  if (input.eventEndDate && (!input.eventDate || Date.parse(input.eventEndDate) <= Date.parse(input.eventDate))) {
+    return { data: null, error: "Event must end after it starts" };
+  }
+  if (input.eventCapacity !== undefined && (!Number.isInteger(input.eventCapacity) || input.eventCapacity < 1)) {
+    return { data: null, error: "Capacity must be a whole number of at least 1" };
+  }
+
+  const isEvent = input.category === "events";
 
   try {
     // Get user's college from profile
@@ -326,6 +621,13 @@ export async function createCampusConnectPost(
         content: input.content.trim(),
         images: input.imageUrls || [], // DB uses 'images', not 'image_urls'
         college_id: userProfile?.college_id || null, // DB uses 'college_id', not 'university_id'
+        location: input.location?.trim() || null,
+        event_date: isEvent && input.eventDate ? new Date(input.eventDate).toISOString() : null,
+        event_end_date: isEvent && input.eventEndDate ? new Date(input.eventEndDate).toISOString() : null,
+        event_venue: isEvent ? input.eventVenue?.trim() || null : null,
+        event_capacity: isEvent ? input.eventCapacity ?? null : null,
+        deadline: input.deadline || null,
+        price: input.price ?? null,
         status: "published",
         is_pinned: false,
         is_admin_post: false,
@@ -434,6 +736,12 @@ export async function deleteCampusConnectPost(
       return { success: false, error: error.message };
     }
 
+    // No reminders for an event that was taken down
+    const admin = createAdminClient();
+    if (admin) {
+      await cancelEventReminders(admin, postId);
+    }
+
     revalidatePath("/campus-connect");
     return { success: true, error: null };
   } catch (error: any) {
@@ -826,6 +1134,196 @@ export async function uploadCampusConnectImage(file: {
   }
 }
 
+// =============================================================================
+// EVENT RSVPS
+// =============================================================================
+
+/**
+ * Respond to an event. "going" on a full event joins the waitlist.
+ * Reminders are queued (or cancelled) to match the new response.
+ */
+export async function rsvpToEvent(
+  postId: string,
+  status: Exclude<EventRsvpStatus, "waitlisted">
+): Promise<{ data: EventRsvpResult | null; error: string | null }> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { data: null, error: "Not authenticated" };
+  }
+
+  const { data, error } = await supabase.rpc("rsvp_campus_event", {
+    p_post_id: postId,
+    p_status: status,
+  });
+
+  if (error) {
+    console.error("Error responding to event:", error);
+    return { data: null, error: error.message };
+  }
+
+  const result = data as {
+    status: EventRsvpStatus;
+    going_count: number;
+    interested_count: number;
+    waitlist_count: number;
+    promoted_user_ids: string[] | null;
+  };
+
+  const admin = createAdminClient();
+  if (admin) {
+    await syncEventReminders(admin, postId, user.id);
+    await notifyWaitlistPromotion(admin, postId, result.promoted_user_ids || []);
+  }
+
+  revalidatePath(`/campus-connect/${postId}`);
+  return {
+    data: {
+      status: result.status,
+      counts: {
+        going: result.going_count,
+        interested: result.interested_count,
+        waitlisted: result.waitlist_count,
+      },
+    },
+    error: null,
+  };
+}
+
+/**
+ * Everyone who responded to an event, for its organiser.
+ * Going first, then the waitlist in order, then interested.
+ */
+export async function getEventAttendees(
+  postId: string
+): Promise<{ data: EventAttendee[]; error: string | null }> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { data: [], error: "Not authenticated" };
+  }
+
+  const { data: post } = await supabase
+    .from("campus_posts")
+    .select("user_id")
+    .eq("id", postId)
+    .single();
+
+  if (!post || post.user_id !== user.id) {
+    return { data: [], error: "Only the organiser can see attendees" };
+  }
+
+  const { data, error } = await supabase
+    .from("campus_event_rsvps")
+    .select(`
+      user_id,
+      status,
+      requested_at,
+      updated_at,
+      attendee:profiles (
+        full_name,
+        avatar_url,
+        is_college_verified
+      )
+    `)
+    .eq("post_id", postId)
+    .neq("status", "not_going")
+    .order("requested_at", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching attendees:", error);
+    return { data: [], error: error.message };
+  }
+
+  const order: Record<string, number> = { going: 0, waitlisted: 1, interested: 2 };
+  const attendees = (data || []).map((row): EventAttendee => {
+    const attendee = row.attendee as unknown as {
+      full_name: string | null;
+      avatar_url: string | null;
+      is_college_verified: boolean | null;
+    } | null;
+
+    return {
+      userId: row.user_id,
+      name: attendee?.full_name || "Anonymous",
+      avatar: attendee?.avatar_url || null,
+      isVerified: attendee?.is_college_verified || false,
+      status: row.status as EventRsvpStatus,
+      respondedAt: row.status === "waitlisted" ? row.requested_at : row.updated_at,
+    };
+  });
+
+  attendees.sort((a, b) => order[a.status] - order[b.status]);
+  return { data: attendees, error: null };
+}
+
+// =============================================================================
+// USER BLOCKS
+// =============================================================================
+
+/**
+ * Block a user: their posts no longer appear in the "For you" feed
+ */
+export async function blockCampusUser(
+  blockedUserId: string
+): Promise<{ success: boolean; error: string | null }> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  if (blockedUserId === user.id) {
+    return { success: false, error: "You cannot block yourself" };
+  }
+
+  const { error } = await supabase
+    .from("campus_user_blocks")
+    .upsert(
+      { blocker_id: user.id, blocked_id: blockedUserId },
+      { onConflict: "blocker_id,blocked_id", ignoreDuplicates: true }
+    );
+
+  if (error) {
+    console.error("Error blocking user:", error);
+    return { success: false, error: error.message };
+  }
+
+  revalidatePath("/campus-connect");
+  return { success: true, error: null };
+}
+
+/**
+ * Unblock a previously blocked user
+ */
+export async function unblockCampusUser(
+  blockedUserId: string
+): Promise<{ success: boolean; error: string | null }> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  const { error } = await supabase
+    .from("campus_user_blocks")
+    .delete()
+    .eq("blocker_id", user.id)
+    .eq("blocked_id", blockedUserId);
+
+  if (error) {
+    console.error("Error unblocking user:", error);
+    return { success: false, error: error.message };
+  }
+
+  revalidatePath("/campus-connect");
+  return { success: true, error: null };
+}
+
 // =============================================================================
 // REPORT & SAVED LISTINGS OPERATIONS
 // =============================================================================
@@ -890,6 +1388,65 @@ export async function reportListing(
   }
 }
 
+/**
+ * Report a Campus Connect post
+ * Uses the listing report reasons; "inaccurate" is filed as misinformation.
+ * @param postId - The ID of the post to report
+ * @param reason - The reason for reporting (scam, inappropriate, inaccurate, spam, other)
+ * @param details - Optional additional details about the report
+ */
+export async function reportCampusPost(
+  postId: string,
+  reason: string,
+  details?: string
+): Promise<{ success: boolean; error: string | null }> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  const validReasons = ["scam", "inappropriate", "inaccurate", "spam", "other"];
+  if (!validReasons.includes(reason)) {
+    return { success: false, error: "Invalid report reason" };
+  }
+
+  try {
+    const { data: existing } = await supabase
+      .from("campus_post_reports")
+      .select("id")
+      .eq("post_id", postId)
+      .is("comment_id", null)
+      .eq("reporter_id", user.id)
+      .maybeSingle();
+
+    if (existing) {
+      return { success: false, error: "You have already reported this post" };
+    }
+
+    const { error } = await supabase
+      .from("campus_post_reports")
+      .insert({
+        post_id: postId,
+        reporter_id: user.id,
+        reason: reason === "inaccurate" ? "misinformation" : reason,
+        description: details?.trim() || null,
+        status: "pending",
+      });
+
+    if (error) {
+      console.error("Error creating post report:", error);
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, error: null };
+  } catch (error) {
+    console.error("Unexpected error reporting post:", error);
+    return { success: false, error: error instanceof Error ? error.message : "Failed to report post" };
+  }
+}
+
 /**
  * Save a listing to user's saved items
  * @param listingId - The ID of the listing to save
@@ -2,6 +2,8 @@
 
 import { createClient, createAdminClient } from "@/lib/supabase/server";
 import { revalidatePath } from "next/cache";
+import { notifyProjectEvent } from "@/lib/notifications/project-events";
+import { PROJECT_TRANSITION_RPC, toProjectTransitionError } from "@shared/project-status";
 import {
   createProjectSchema,
   fileUploadSchema,
@@ -1149,6 +1151,17 @@ export async function createRevisionRequest(projectId: string, feedback: string)
     return { error: "Project not found" };
   }
 
+  // Move the project to revision_requested through the status state machine
+  const { error: transitionError } = await supabase.rpc(PROJECT_TRANSITION_RPC, {
+    p_project_id: projectId,
+    p_to_status: "revision_requested",
+    p_reason: feedback,
+  });
+
+  if (transitionError) {
+    return { error: toProjectTransitionError(transitionError).message };
+  }
+
   // Create revision request
   const { data: revision, error } = await supabase
     .from("project_revisions")
@@ -1165,21 +1178,14 @@ export async function createRevisionRequest(projectId: string, feedback: string)
     return { error: "Failed to create revision request" };
   }
 
-  // Update project status to indicate revision requested
-  await supabase
-    .from("projects")
-    .update({ status: "revision_requested" })
-    .eq("id", projectId);
-
-  // Create notification
-  await supabase.from("notifications").insert({
-    profile_id: userId,
-    type: "revision",
-    title: "Revision Request Submitted",
-    message: "Your revision request has been submitted and will be reviewed shortly.",
-    related_id: projectId,
-    is_read: false,
-  });
+  // Confirm to the student on every channel they've enabled
+  const adminClient = createAdminClient();
+  if (adminClient) {
+    await notifyProjectEvent(adminClient, projectId, "revision_requested", {
+      revisionId: revision.id,
+      feedback,
+    });
+  }
 
   revalidatePath(`/projects/${projectId}`);
   return { success: true, revisionId: revision.id };
@@ -1254,24 +1260,14 @@ export async function markProjectComplete(projectId: string) {
     return { error: "Project not found" };
   }
 
-  // Only allow completion from delivered or for_review states
-  const completableStatuses = ["delivered", "qc_approved", "auto_approved"];
-  if (!completableStatuses.includes(project.status)) {
-    return { error: "Project cannot be marked complete at this stage" };
-  }
-
-  // Update project status to completed
-  const { error } = await supabase
-    .from("projects")
-    .update({
-      status: "completed",
-      completed_at: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
-    })
-    .eq("id", projectId);
+  // The state machine only allows completion once the work has been delivered
+  const { error } = await supabase.rpc(PROJECT_TRANSITION_RPC, {
+    p_project_id: projectId,
+    p_to_status: "completed",
+  });
 
   if (error) {
-    return { error: "Failed to mark project as complete" };
+    return { error: toProjectTransitionError(error).message };
   }
 
   // Create notification
@@ -1300,62 +1296,9 @@ export async function markProjectComplete(projectId: string) {
 }
 
 // =============================================================================
-// EXPERT SESSIONS (CONNECT)
+// CONNECT QUESTIONS
 // =============================================================================
 
-/**
- * Book an expert session
- */
-export async function bookExpertSession(data: {
-  expertId: string;
-  sessionType: string;
-  date: string;
-  time: string;
-  topic: string;
-  notes?: string;
-}) {
-  const supabase = await createClient();
-  const userId = await getUserIdForDataFetch();
-
-  if (!userId) return { error: "Not authenticated" };
-
-  // Create booking record
-  const { data: booking, error } = await supabase
-    .from("expert_bookings")
-    .insert({
-      user_id: userId,
-      expert_id: data.expertId,
-      session_type: data.sessionType,
-      scheduled_date: data.date,
-      scheduled_time: data.time,
-      topic: data.topic,
-      notes: data.notes,
-      status: "pending",
-    })
-    .select()
-    .single();
-
-  if (error) {
-    // If table doesn't exist, return success anyway (graceful degradation)
-    if (error.code === "42P01") {
-      return { success: true, bookingId: "pending-setup" };
-    }
-    return { error: "Failed to create booking" };
-  }
-
-  // Create notification
-  await supabase.from("notifications").insert({
-    profile_id: userId,
-    type: "booking",
-    title: "Session Booked",
-    message: `Your ${data.sessionType} session has been booked for ${data.date} at ${data.time}.`,
-    is_read: false,
-  });
-
-  revalidatePath("/connect");
-  return { success: true, bookingId: booking?.id };
-}
-
 /**
  * Submit a question in Connect
  */
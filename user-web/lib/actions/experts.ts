@@ -0,0 +1,786 @@
+"use server";
+
+import { randomBytes } from "crypto";
+import { revalidatePath } from "next/cache";
+import { createClient, createAdminClient } from "@/lib/supabase/server";
+import { calculateCommission, getCommissionRates, COMMISSION_CONFIG } from "@/lib/commission";
+import {
+  calculateBookingCancellation,
+  canRescheduleBooking,
+  EXPERT_BOOKING_POLICY,
+  type BookingCancellationDecision,
+  type BookingRescheduleDecision,
+} from "@/lib/expert-booking-policy";
+import {
+  bookingInvitePath,
+  bookingMeetingUrl,
+  calendarFeedUrl,
+  notifyExpertOfSessionChange,
+  scheduleBookingReminder,
+} from "@/lib/expert-calendar";
+import type { PricingBreakdown } from "@/services/pricing.service";
+import {
+  SPECIALIZATION_LABELS,
+  type AvailabilitySlot,
+  type ConsultationBooking,
+  type Expert,
+  type ExpertReview,
+  type ExpertSpecialization,
+  type SessionStatus,
+} from "@/types/expert";
+
+/**
+ * Expert list filters
+ */
+export interface ExpertListFilters {
+  specialization?: ExpertSpecialization;
+  /** Matches name, designation, headline and bio */
+  search?: string;
+  featured?: boolean;
+  limit?: number;
+}
+
+/**
+ * Cancellation preview shown before the user confirms
+ */
+export interface BookingCancellationQuote extends BookingCancellationDecision {
+  reschedule: BookingRescheduleDecision;
+}
+
+interface ExpertRow {
+  id: string;
+  user_id: string;
+  headline: string;
+  designation: string;
+  organization: string | null;
+  bio: string | null;
+  specializations: string[] | null;
+  languages: string[] | null;
+  hourly_rate: number;
+  currency: string | null;
+  session_duration: number | null;
+  rating: number | null;
+  total_reviews: number | null;
+  total_sessions: number | null;
+  response_time_hours: number | null;
+  verification_status: string;
+  is_featured: boolean | null;
+  is_accepting_bookings: boolean | null;
+  created_at: string;
+  profiles: { full_name: string | null; avatar_url: string | null } | null;
+  expert_education?: { degree: string; institution: string; end_year: number | null }[];
+  expert_experience?: { title: string; company: string; is_current: boolean | null }[];
+}
+
+interface BookingRow {
+  id: string;
+  expert_id: string;
+  user_id: string;
+  scheduled_start: string;
+  scheduled_end: string;
+  duration_minutes: number;
+  timezone: string | null;
+  topic: string;
+  pre_session_notes: string | null;
+  status: string;
+  meeting_link: string | null;
+  meeting_room: string | null;
+  total_amount: number;
+  expert_amount: number | null;
+  platform_fee: number;
+  currency: string | null;
+  payment_id: string | null;
+  payment_status: string;
+  reschedule_count: number | null;
+  max_reschedules: number | null;
+  created_at: string;
+  updated_at: string;
+  experts: ExpertRow | null;
+}
+
+const EXPERT_COLUMNS =
+  "id, user_id, headline, designation, organization, bio, specializations, languages, hourly_rate, currency, session_duration, rating, total_reviews, total_sessions, response_time_hours, verification_status, is_featured, is_accepting_bookings, created_at, profiles(full_name, avatar_url)";
+
+const BOOKING_COLUMNS =
+  "id, expert_id, user_id, scheduled_start, scheduled_end, duration_minutes, timezone, topic, pre_session_notes, status, meeting_link, meeting_room, total_amount, expert_amount, platform_fee, currency, payment_id, payment_status, reschedule_count, max_reschedules, created_at, updated_at";
+
+const DEFAULT_TIMEZONE = "Asia/Kolkata";
+
+/**
+ * Slots are offered this far ahead
+ */
+const SLOT_WINDOW_DAYS = 30;
+
+/**
+ * Rounds to paise
+ */
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Price of a session of the given length at the expert's hourly rate.
+ * Must match the check in book_expert_slot.
+ */
+function sessionPrice(hourlyRate: number, minutes: number): number {
+  return roundAmount((Number(hourlyRate) * minutes) / 60);
+}
+
+/**
+ * Formats the wall-clock time (HH:mm) of an instant in a timezone
+ */
+function formatTime(iso: string, timeZone: string): string {
+  return new Intl.DateTimeFormat("en-GB", {
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: false,
+    timeZone,
+  }).format(new Date(iso));
+}
+
+function formatResponseTime(hours: number | null): string {
+  if (!hours) return "Usually responds within a day";
+  const rounded = Math.max(1, Math.ceil(Number(hours)));
+  return `Usually responds within ${rounded} hour${rounded === 1 ? "" : "s"}`;
+}
+
+function toExpert(row: ExpertRow, hasOpenSlotSoon: boolean): Expert {
+  const education = row.expert_education?.[0];
+  const experience =
+    row.expert_experience?.find((entry) => entry.is_current) ?? row.expert_experience?.[0];
+
+  return {
+    id: row.id,
+    name: row.profiles?.full_name || "Expert",
+    avatar: row.profiles?.avatar_url || undefined,
+    designation: row.designation || row.headline,
+    bio: row.bio || row.headline,
+    verified: row.verification_status === "verified",
+    rating: Number(row.rating || 0),
+    reviewCount: row.total_reviews || 0,
+    totalSessions: row.total_sessions || 0,
+    specializations: (row.specializations || []).filter(
+      (code): code is ExpertSpecialization => code in SPECIALIZATION_LABELS
+    ),
+    pricePerSession: sessionPrice(row.hourly_rate, row.session_duration || 60),
+    currency: row.currency || "INR",
+    availability: !row.is_accepting_bookings ? "offline" : hasOpenSlotSoon ? "available" : "busy",
+    responseTime: formatResponseTime(row.response_time_hours),
+    languages: row.languages || [],
+    education: education ? `${education.degree}, ${education.institution}` : undefined,
+    experience: experience ? `${experience.title} at ${experience.company}` : undefined,
+    featured: !!row.is_featured,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+function toSessionStatus(row: BookingRow): SessionStatus {
+  switch (row.status) {
+    case "in_progress":
+      return "in_progress";
+    case "completed":
+      return "completed";
+    case "no_show":
+      return "no_show";
+    case "cancelled":
+    case "rejected":
+      return "cancelled";
+    default:
+      return "upcoming";
+  }
+}
+
+function toPaymentStatus(status: string): ConsultationBooking["paymentStatus"] {
+  switch (status) {
+    case "captured":
+      return "completed";
+    case "refunded":
+    case "partially_refunded":
+      return "refunded";
+    case "failed":
+      return "failed";
+    default:
+      return "pending";
+  }
+}
+
+function toBooking(row: BookingRow): ConsultationBooking {
+  const timeZone = row.timezone || DEFAULT_TIMEZONE;
+
+  return {
+    id: row.id,
+    expertId: row.expert_id,
+    clientId: row.user_id,
+    date: new Date(row.scheduled_start),
+    startTime: formatTime(row.scheduled_start, timeZone),
+    endTime: formatTime(row.scheduled_end, timeZone),
+    duration: row.duration_minutes,
+    topic: row.topic,
+    notes: row.pre_session_notes || undefined,
+    status: toSessionStatus(row),
+    meetLink: bookingMeetingUrl(row),
+    calendarInviteUrl: toSessionStatus(row) === "upcoming" ? bookingInvitePath(row.id) : undefined,
+    totalAmount: Number(row.total_amount),
+    expertAmount: Number(row.expert_amount ?? Number(row.total_amount) - Number(row.platform_fee)),
+    platformFee: Number(row.platform_fee),
+    currency: row.currency || "INR",
+    paymentId: row.payment_id || undefined,
+    paymentStatus: toPaymentStatus(row.payment_status),
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+    expert: row.experts ? toExpert(row.experts, true) : undefined,
+  };
+}
+
+/**
+ * Experts among the given ids with an open slot in the next 24 hours
+ */
+async function getExpertsWithOpenSlots(expertIds: string[]): Promise<Set<string>> {
+  if (expertIds.length === 0) return new Set();
+
+  const supabase = await createClient();
+  const now = Date.now();
+
+  const { data } = await supabase
+    .from("expert_availability_slots")
+    .select("expert_id, booking_id, held_until")
+    .in("expert_id", expertIds)
+    .gte("start_at", new Date(now + EXPERT_BOOKING_POLICY.MIN_BOOKING_NOTICE_MINUTES * 60_000).toISOString())
+    .lte("start_at", new Date(now + 24 * 60 * 60_000).toISOString());
+
+  return new Set(
+    (data || [])
+      .filter((slot) => isSlotOpen(slot, now))
+      .map((slot) => slot.expert_id as string)
+  );
+}
+
+/**
+ * A slot is open when nobody holds it or an unpaid hold has lapsed
+ */
+function isSlotOpen(slot: { booking_id: string | null; held_until: string | null }, now: number): boolean {
+  return !slot.booking_id || (!!slot.held_until && new Date(slot.held_until).getTime() < now);
+}
+
+/**
+ * List bookable experts, featured first then by rating
+ * @param filters - Optional specialization, search and featured filters
+ */
+export async function listExperts(filters: ExpertListFilters = {}): Promise<Expert[]> {
+  const supabase = await createClient();
+
+  let query = supabase
+    .from("experts")
+    .select(EXPERT_COLUMNS)
+    .eq("is_active", true)
+    .eq("verification_status", "verified")
+    .order("is_featured", { ascending: false })
+    .order("rating", { ascending: false })
+    .limit(filters.limit ?? 50);
+
+  if (filters.specialization) {
+    query = query.contains("specializations", [filters.specialization]);
+  }
+
+  if (filters.featured) {
+    query = query.eq("is_featured", true);
+  }
+
+  if (filters.search?.trim()) {
+    // Strip characters that would break the PostgREST or() syntax
+    const term = filters.search.trim().replace(/[,()%*]/g, " ");
+    query = query.or(`headline.ilike.%${term}%,designation.ilike.%${term}%,bio.ilike.%${term}%`);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error("[listExperts] Error:", error);
+    return [];
+  }
+
+  const rows = (data || []) as unknown as ExpertRow[];
+  const openSoon = await getExpertsWithOpenSlots(rows.map((row) => row.id));
+
+  return rows.map((row) => toExpert(row, openSoon.has(row.id)));
+}
+
+/**
+ * Get an expert profile with education, experience and public reviews
+ * @param expertId - The expert UUID
+ */
+export async function getExpert(
+  expertId: string
+): Promise<{ expert: Expert; reviews: ExpertReview[] } | null> {
+  const supabase = await createClient();
+
+  const [{ data: row, error }, { data: reviewRows }] = await Promise.all([
+    supabase
+      .from("experts")
+      .select(
+        `${EXPERT_COLUMNS}, expert_education(degree, institution, end_year), expert_experience(title, company, is_current)`
+      )
+      .eq("id", expertId)
+      .maybeSingle(),
+    supabase
+      .from("expert_reviews")
+      .select("id, expert_id, user_id, booking_id, overall_rating, review_text, helpful_count, created_at, profiles(full_name, avatar_url)")
+      .eq("expert_id", expertId)
+      .eq("is_public", true)
+      .eq("is_hidden", false)
+      .order("created_at", { ascending: false })
+      .limit(20),
+  ]);
+
+  if (error || !row) {
+    if (error) console.error("[getExpert] Error:", error);
+    return null;
+  }
+
+  const openSoon = await getExpertsWithOpenSlots([expertId]);
+
+  const reviews: ExpertReview[] = (reviewRows || []).map((review) => {
+    const reviewer = review.profiles as unknown as { full_name: string | null; avatar_url: string | null } | null;
+    const [first, last] = (reviewer?.full_name || "Student").split(" ");
+
+    return {
+      id: review.id,
+      expertId: review.expert_id,
+      clientId: review.user_id,
+      bookingId: review.booking_id,
+      rating: review.overall_rating,
+      comment: review.review_text || "",
+      clientName: last ? `${first} ${last[0]}.` : first,
+      clientAvatar: reviewer?.avatar_url || undefined,
+      createdAt: new Date(review.created_at),
+      helpful: review.helpful_count || 0,
+    };
+  });
+
+  return { expert: toExpert(row as unknown as ExpertRow, openSoon.has(expertId)), reviews };
+}
+
+/**
+ * Get an expert's slots for the next 30 days.
+ * Slots held by another booking are returned with isBooked so the
+ * calendar can show them greyed out.
+ * @param expertId - The expert UUID
+ */
+export async function getExpertSlots(expertId: string): Promise<AvailabilitySlot[]> {
+  const supabase = await createClient();
+  const now = Date.now();
+
+  const [{ data: expert }, { data, error }] = await Promise.all([
+    supabase.from("experts").select("availability, hourly_rate").eq("id", expertId).maybeSingle(),
+    supabase
+      .from("expert_availability_slots")
+      .select("id, expert_id, start_at, end_at, booking_id, held_until")
+      .eq("expert_id", expertId)
+      .gte("start_at", new Date(now + EXPERT_BOOKING_POLICY.MIN_BOOKING_NOTICE_MINUTES * 60_000).toISOString())
+      .lte("start_at", new Date(now + SLOT_WINDOW_DAYS * 24 * 60 * 60_000).toISOString())
+      .order("start_at", { ascending: true }),
+  ]);
+
+  if (error) {
+    console.error("[getExpertSlots] Error:", error);
+    return [];
+  }
+
+  const timeZone =
+    (expert?.availability as { timezone?: string } | null)?.timezone || DEFAULT_TIMEZONE;
+
+  return (data || []).map((slot) => {
+    const duration = Math.round(
+      (new Date(slot.end_at).getTime() - new Date(slot.start_at).getTime()) / 60_000
+    );
+
+    return {
+      id: slot.id,
+      expertId: slot.expert_id,
+      date: new Date(slot.start_at),
+      startTime: formatTime(slot.start_at, timeZone),
+      endTime: formatTime(slot.end_at, timeZone),
+      duration,
+      price: expert ? sessionPrice(expert.hourly_rate, duration) : undefined,
+      isBooked: !isSlotOpen(slot, now),
+    };
+  });
+}
+
+/**
+ * Get the current user's consultation bookings, soonest first.
+ * Razorpay bookings that were never paid are left out.
+ */
+export async function getMyExpertBookings(): Promise<ConsultationBooking[]> {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return [];
+
+  const { data, error } = await supabase
+    .from("expert_bookings")
+    .select(`${BOOKING_COLUMNS}, experts(${EXPERT_COLUMNS})`)
+    .eq("user_id", user.id)
+    .neq("payment_status", "pending")
+    .order("scheduled_start", { ascending: true });
+
+  if (error) {
+    console.error("[getMyExpertBookings] Error:", error);
+    return [];
+  }
+
+  return ((data || []) as unknown as BookingRow[]).map(toBooking);
+}
+
+/**
+ * Book a slot with an expert.
+ * The price comes from the expert's hourly rate and the slot length, and
+ * is split with calculateCommission using the expert_opinion pricing guide.
+ * Wallet bookings are confirmed immediately; Razorpay bookings hold the slot
+ * until the payment is verified (see /api/payments/verify).
+ * @param data - Slot, topic, notes and payment method
+ */
+export async function bookExpertSession(data: {
+  slotId: string;
+  topic: string;
+  notes?: string;
+  paymentMethod: "wallet" | "razorpay";
+}) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { error: "Not authenticated" };
+
+  const topic = data.topic.trim();
+  if (!topic) return { error: "Please describe what you'd like to discuss" };
+
+  const admin = createAdminClient();
+  if (!admin) return { error: "Server configuration error" };
+
+  const { data: slot } = await supabase
+    .from("expert_availability_slots")
+    .select("id, start_at, end_at, experts(hourly_rate, currency)")
+    .eq("id", data.slotId)
+    .maybeSingle();
+
+  const expert = slot?.experts as unknown as { hourly_rate: number; currency: string | null } | null;
+  if (!slot || !expert) return { error: "This slot is no longer available" };
+
+  const minutes = Math.round(
+    (new Date(slot.end_at).getTime() - new Date(slot.start_at).getTime()) / 60_000
+  );
+  const totalAmount = sessionPrice(expert.hourly_rate, minutes);
+
+  const { data: breakdown, error: pricingError } = await admin.rpc("calculate_project_price", {
+    p_service_type: "expert_opinion",
+    p_client_total: totalAmount,
+  });
+
+  if (pricingError) {
+    console.error("[bookExpertSession] Pricing error:", pricingError);
+  }
+
+  const commission = calculateCommission(
+    totalAmount,
+    expert.currency || "INR",
+    breakdown ? getCommissionRates(breakdown as PricingBreakdown) : COMMISSION_CONFIG
+  );
+
+  const { data: booking, error } = await admin.rpc("book_expert_slot", {
+    p_profile_id: user.id,
+    p_slot_id: data.slotId,
+    p_topic: topic,
+    p_notes: data.notes?.trim() || null,
+    p_total_amount: totalAmount,
+    p_expert_amount: roundAmount(commission.expertAmount),
+    p_platform_fee: commission.platformFee,
+    p_payment_method: data.paymentMethod,
+    p_min_notice_minutes: EXPERT_BOOKING_POLICY.MIN_BOOKING_NOTICE_MINUTES,
+  });
+
+  if (error) {
+    console.error("[bookExpertSession] Booking error:", error);
+    return { error: error.message || "Failed to book session" };
+  }
+
+  if (booking.status === "confirmed") {
+    await admin.from("notifications").insert({
+      profile_id: user.id,
+      notification_type: "system_alert",
+      title: "Session Booked",
+      body: `Your consultation ${booking.booking_number} is confirmed. ₹${totalAmount} was paid from your wallet.`,
+      reference_type: "expert_booking",
+      reference_id: booking.booking_id,
+      action_url: "/experts",
+    });
+    await notifyExpertOfSessionChange(admin, booking.booking_id, "booked");
+    await scheduleBookingReminder(admin, booking.booking_id);
+
+    revalidatePath("/experts");
+    revalidatePath("/wallet");
+  }
+
+  return {
+    success: true,
+    bookingId: booking.booking_id as string,
+    bookingNumber: booking.booking_number as string,
+    status: booking.status as "pending" | "confirmed",
+    totalAmount,
+    currency: booking.currency as string,
+  };
+}
+
+/**
+ * Loads a booking owned by the current user
+ */
+async function getOwnBooking(bookingId: string) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { error: "Not authenticated" as const };
+
+  const { data: booking } = await supabase
+    .from("expert_bookings")
+    .select(BOOKING_COLUMNS)
+    .eq("id", bookingId)
+    .maybeSingle();
+
+  if (!booking || booking.user_id !== user.id) {
+    return { error: "Booking not found" as const };
+  }
+
+  return { user, booking: booking as unknown as Omit<BookingRow, "experts"> };
+}
+
+function policyInput(booking: Omit<BookingRow, "experts">) {
+  return {
+    status: booking.status,
+    isPaid: booking.payment_status === "captured",
+    totalAmount: Number(booking.total_amount),
+    scheduledStart: booking.scheduled_start,
+    rescheduleCount: booking.reschedule_count || 0,
+    maxReschedules: booking.max_reschedules ?? 2,
+  };
+}
+
+/**
+ * Preview the refund for cancelling a booking and whether it can be moved instead
+ * @param bookingId - The booking UUID
+ */
+export async function getBookingCancellationQuote(
+  bookingId: string
+): Promise<{ quote?: BookingCancellationQuote; error?: string }> {
+  const result = await getOwnBooking(bookingId);
+  if ("error" in result) return { error: result.error };
+
+  const input = policyInput(result.booking);
+  return {
+    quote: {
+      ...calculateBookingCancellation(input),
+      reschedule: canRescheduleBooking(input),
+    },
+  };
+}
+
+/**
+ * Cancel a booking, refund to the wallet per the cancellation policy and free the slot
+ * @param bookingId - The booking UUID
+ * @param reason - Cancellation reason given by the user
+ */
+export async function cancelExpertBooking(bookingId: string, reason: string) {
+  const result = await getOwnBooking(bookingId);
+  if ("error" in result) return { error: result.error };
+
+  const { user, booking } = result;
+  const decision = calculateBookingCancellation(policyInput(booking));
+
+  if (!decision.cancellable) {
+    return { error: decision.explanation };
+  }
+
+  const admin = createAdminClient();
+  if (!admin) return { error: "Server configuration error" };
+
+  const { error } = await admin.rpc("process_expert_booking_cancellation", {
+    p_booking_id: booking.id,
+    p_cancelled_by: user.id,
+    p_reason: reason.trim() || null,
+    p_policy_rule: decision.rule,
+    p_refund_amount: decision.refundAmount,
+  });
+
+  if (error) {
+    console.error("[cancelExpertBooking] Cancellation error:", error);
+    return { error: error.message || "Failed to cancel booking" };
+  }
+
+  await admin.from("notifications").insert({
+    profile_id: user.id,
+    notification_type: "system_alert",
+    title: decision.refundAmount > 0 ? "Refund Initiated" : "Session Cancelled",
+    body:
+      decision.refundAmount > 0
+        ? `Your consultation "${booking.topic}" was cancelled. ₹${decision.refundAmount} has been added to your wallet.`
+        : `Your consultation "${booking.topic}" was cancelled.`,
+    reference_type: "expert_booking",
+    reference_id: booking.id,
+    action_url: "/wallet",
+  });
+  await notifyExpertOfSessionChange(admin, booking.id, "cancelled");
+  await scheduleBookingReminder(admin, booking.id);
+
+  revalidatePath("/experts");
+  revalidatePath("/wallet");
+
+  return { success: true, refundAmount: decision.refundAmount };
+}
+
+/**
+ * Move a confirmed booking to another open slot of the same expert
+ * @param bookingId - The booking UUID
+ * @param newSlotId - The slot to move to
+ */
+export async function rescheduleExpertBooking(bookingId: string, newSlotId: string) {
+  const result = await getOwnBooking(bookingId);
+  if ("error" in result) return { error: result.error };
+
+  const { user, booking } = result;
+  const decision = canRescheduleBooking(policyInput(booking));
+
+  if (!decision.reschedulable) {
+    return { error: decision.explanation };
+  }
+
+  const admin = createAdminClient();
+  if (!admin) return { error: "Server configuration error" };
+
+  const { data, error } = await admin.rpc("reschedule_expert_booking", {
+    p_booking_id: booking.id,
+    p_profile_id: user.id,
+    p_new_slot_id: newSlotId,
+    p_cutoff_minutes: EXPERT_BOOKING_POLICY.RESCHEDULE_CUTOFF_HOURS * 60,
+    p_min_notice_minutes: EXPERT_BOOKING_POLICY.MIN_BOOKING_NOTICE_MINUTES,
+  });
+
+  if (error) {
+    console.error("[rescheduleExpertBooking] Reschedule error:", error);
+    return { error: error.message || "Failed to reschedule booking" };
+  }
+
+  await notifyExpertOfSessionChange(admin, booking.id, "rescheduled");
+  await scheduleBookingReminder(admin, booking.id);
+  revalidatePath("/experts");
+
+  return { success: true, scheduledStart: data.scheduled_start as string };
+}
+
+/**
+ * Release the slot of a Razorpay booking whose checkout was abandoned
+ * @param bookingId - The booking UUID
+ */
+export async function releaseExpertBookingHold(bookingId: string) {
+  const result = await getOwnBooking(bookingId);
+  if ("error" in result) return { error: result.error };
+
+  const { user, booking } = result;
+
+  if (booking.status !== "pending" || booking.payment_status !== "pending") {
+    return { success: true };
+  }
+
+  const admin = createAdminClient();
+  if (!admin) return { error: "Server configuration error" };
+
+  const { error } = await admin.rpc("process_expert_booking_cancellation", {
+    p_booking_id: booking.id,
+    p_cancelled_by: user.id,
+    p_reason: "Payment not completed",
+    p_policy_rule: "not_paid",
+    p_refund_amount: 0,
+  });
+
+  if (error) {
+    console.error("[releaseExpertBookingHold] Error:", error);
+    return { error: error.message || "Failed to release slot" };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Get the current user's private iCal feed URL, creating it on first use
+ */
+export async function getCalendarFeed(): Promise<{ url?: string; error?: string }> {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { error: "Not authenticated" };
+
+  const { data: feed } = await supabase
+    .from("calendar_feeds")
+    .select("token")
+    .eq("profile_id", user.id)
+    .maybeSingle();
+
+  if (feed) return { url: calendarFeedUrl(feed.token) };
+
+  const admin = createAdminClient();
+  if (!admin) return { error: "Server configuration error" };
+
+  const token = randomBytes(24).toString("base64url");
+  const { error } = await admin
+    .from("calendar_feeds")
+    .upsert({ profile_id: user.id, token }, { onConflict: "profile_id", ignoreDuplicates: true });
+
+  if (error) {
+    console.error("[getCalendarFeed] Error:", error);
+    return { error: "Failed to create calendar link" };
+  }
+
+  // Another request may have created the feed first
+  const { data: created } = await admin
+    .from("calendar_feeds")
+    .select("token")
+    .eq("profile_id", user.id)
+    .single();
+
+  return { url: calendarFeedUrl(created?.token ?? token) };
+}
+
+/**
+ * Replace the current user's iCal feed token; calendars subscribed to the old URL stop updating
+ */
+export async function resetCalendarFeed(): Promise<{ url?: string; error?: string }> {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { error: "Not authenticated" };
+
+  const admin = createAdminClient();
+  if (!admin) return { error: "Server configuration error" };
+
+  const token = randomBytes(24).toString("base64url");
+  const { error } = await admin
+    .from("calendar_feeds")
+    .upsert(
+      { profile_id: user.id, token, rotated_at: new Date().toISOString() },
+      { onConflict: "profile_id" }
+    );
+
+  if (error) {
+    console.error("[resetCalendarFeed] Error:", error);
+    return { error: "Failed to reset calendar link" };
+  }
+
+  return { url: calendarFeedUrl(token) };
+}
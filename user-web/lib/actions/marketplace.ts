@@ -1,7 +1,10 @@
 "use server";
 
-import { createClient } from "@/lib/supabase/server";
+import { createAdminClient, createClient } from "@/lib/supabase/server";
 import { revalidatePath } from "next/cache";
+import { dispatchNotification } from "@/lib/notifications/outbox";
+import { CHAT_MESSAGE_BLOCKED_MESSAGE } from "@/lib/validations/chat-content";
+import type { Tables } from "@/types/database";
 import type {
   MarketplaceFilters,
   ListingType,
@@ -12,6 +15,17 @@ import type {
   OpportunityListing,
   CommunityPost,
   DBMarketplaceCategory,
+  HousingType,
+  InquiryInboxGroup,
+  InquiryStatus,
+  ItemCondition,
+  ListingInquiry,
+  ListingOffer,
+  ListingStatus,
+  OfferStatus,
+  SavedSearch,
+  SavedSearchAlertMode,
+  SavedSearchFilters,
 } from "@/types/marketplace";
 
 // Re-export ListingType for convenience
@@ -161,6 +175,8 @@ function transformListing(dbListing: any): AnyListing | null {
     isLiked: dbListing.is_favorited || false,
     comments: dbListing.comment_count || 0,
     views: dbListing.view_count || 0,
+    status: dbListing.status,
+    reservedFor: dbListing.reserved_for ?? null,
   };
 
   // Type-specific fields
@@ -175,7 +191,7 @@ function transformListing(dbListing: any): AnyListing | null {
         condition: (metadata.condition as ProductCondition) || "good",
         category: dbListing.category?.name || metadata.category || "Other",
         distance: metadata.distance,
-        isSold: metadata.is_sold || false,
+        isSold: dbListing.status === "sold" || metadata.is_sold || false,
         isNegotiable: metadata.is_negotiable || false,
       } as ProductListing;
 
@@ -307,6 +323,14 @@ export async function getMarketplaceListings(
       }
     }
 
+    // Product condition and housing type filters
+    if (opts.condition?.length) {
+      query = query.in("item_condition", opts.condition);
+    }
+    if (opts.housingTypes?.length) {
+      query = query.in("housing_type", opts.housingTypes);
+    }
+
     // University-only filter (requires user to be authenticated)
     if (opts.universityOnly && user) {
       console.log("🎓 [getMarketplaceListings] Applying university filter");
@@ -575,7 +599,7 @@ export async function getUserListings(status?: "active" | "inactive" | "all") {
       .order("created_at", { ascending: false });
 
     if (status === "active") {
-      query = query.eq("status", "active");
+      query = query.in("status", ["active", "reserved"]);
     } else if (status === "inactive") {
       query = query.in("status", ["sold", "rented", "expired", "removed"]);
     }
@@ -1029,4 +1053,708 @@ export async function uploadMarketplaceImage(file: {
     console.error("Cloudinary upload error:", error);
     return { data: null, error: error.message || "Failed to upload image" };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Columns of an inquiry with the buyer's profile
+ */
+const INQUIRY_SELECT = `
+  id,
+  listing_id,
+  inquirer_id,
+  seller_id,
+  chat_room_id,
+  status,
+  last_message_at,
+  created_at,
+  buyer:profiles!inquirer_id(id, full_name, avatar_url)
+`;
+
+/**
+ * Inquiry row as selected by INQUIRY_SELECT
+ */
+type DBInquiry = Pick<
+  Tables<"listing_inquiries">,
+  "id" | "listing_id" | "inquirer_id" | "seller_id" | "chat_room_id" | "status" | "last_message_at" | "created_at"
+> & {
+  buyer: Pick<Tables<"profiles">, "id" | "full_name" | "avatar_url"> | null;
+};
+
+function transformOffer(dbOffer: Tables<"listing_offers">): ListingOffer {
+  return {
+    id: dbOffer.id,
+    inquiryId: dbOffer.inquiry_id,
+    listingId: dbOffer.listing_id,
+    offeredBy: dbOffer.offered_by,
+    amount: Number(dbOffer.amount),
+    message: dbOffer.message,
+    status: dbOffer.status as OfferStatus,
+    parentOfferId: dbOffer.parent_offer_id,
+    respondedAt: dbOffer.responded_at,
+    createdAt: dbOffer.created_at || "",
+  };
+}
+
+function transformInquiry(
+  dbInquiry: DBInquiry,
+  latestOffer: ListingOffer | null = null,
+  lastMessage: string | null = null
+): ListingInquiry {
+  return {
+    id: dbInquiry.id,
+    listingId: dbInquiry.listing_id,
+    buyerId: dbInquiry.inquirer_id,
+    buyerName: dbInquiry.buyer?.full_name || "Student",
+    buyerAvatar: dbInquiry.buyer?.avatar_url || null,
+    sellerId: dbInquiry.seller_id || "",
+    chatRoomId: dbInquiry.chat_room_id || "",
+    status: (dbInquiry.status || "open") as InquiryStatus,
+    lastMessageAt: dbInquiry.last_message_at || dbInquiry.created_at || "",
+    lastMessage,
+    latestOffer,
+    createdAt: dbInquiry.created_at || "",
+  };
+}
+
+function formatOfferAmount(amount: number): string {
+  return `₹${amount.toLocaleString("en-IN")}`;
+}
+
+/**
+ * Tells the other side of an inquiry about a message or offer.
+ * Sellers land on their inbox, buyers on the listing.
+ */
+async function notifyInquiryParty(
+  inquiry: { id: string; listing_id: string; inquirer_id: string; seller_id: string },
+  recipientId: string,
+  notification: { eventKey: string; title: string; body: string; category: "chat" | "status" }
+): Promise<void> {
+  const admin = createAdminClient();
+  if (!admin) return;
+
+  await dispatchNotification(admin, {
+    ...notification,
+    profileId: recipientId,
+    referenceType: "listing_inquiry",
+    referenceId: inquiry.id,
+    actionUrl:
+      recipientId === inquiry.seller_id
+        ? `/marketplace/inquiries?inquiry=${inquiry.id}`
+        : `/marketplace/${inquiry.listing_id}`,
+    channels: ["in_app", "push"],
+  });
+}
+
+/**
+ * Sends a message in an inquiry thread as the current user.
+ * The chat moderation trigger redacts contact details or drops the message.
+ */
+export async function sendInquiryMessage(
+  inquiryId: string,
+  content: string
+): Promise<{ data: { id: string; content: string } | null; error: string | null }> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { data: null, error: "Not authenticated" };
+  }
+
+  const text = content.trim();
+  if (!text) {
+    return { data: null, error: "Message cannot be empty" };
+  }
+
+  try {
+    const { data: inquiry } = await supabase
+      .from("listing_inquiries")
+      .select("id, listing_id, inquirer_id, seller_id, chat_room_id, listing:marketplace_listings(title)")
+      .eq("id", inquiryId)
+      .single();
+
+    if (!inquiry?.chat_room_id) {
+      return { data: null, error: "Conversation not found" };
+    }
+
+    const { data: message, error } = await supabase
+      .from("chat_messages")
+      .insert({
+        chat_room_id: inquiry.chat_room_id,
+        sender_id: user.id,
+        content: text,
+        message_type: "text",
+      })
+      .select("id, content")
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!message) {
+      return { data: null, error: CHAT_MESSAGE_BLOCKED_MESSAGE };
+    }
+
+    const recipientId = user.id === inquiry.seller_id ? inquiry.inquirer_id : inquiry.seller_id;
+    const listingTitle = (inquiry.listing as unknown as { title: string } | null)?.title || "your listing";
+
+    await notifyInquiryParty(inquiry, recipientId, {
+      eventKey: `listing_inquiry_message:${message.id}`,
+      category: "chat",
+      title: `New message about ${listingTitle}`,
+      body: message.content.length > 120 ? `${message.content.slice(0, 117)}...` : message.content,
+    });
+
+    return { data: message, error: null };
+  } catch (error) {
+    return { data: null, error: error instanceof Error ? error.message : "Failed to send message" };
+  }
+}
+
+/**
+ * Opens the current user's conversation with the seller of a listing,
+ * optionally with a first message. Returns the existing thread if there is one.
+ */
+export async function startListingInquiry(
+  listingId: string,
+  message?: string
+): Promise<{ data: ListingInquiry | null; error: string | null }> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { data: null, error: "Not authenticated" };
+  }
+
+  try {
+    const { data: started, error } = await supabase.rpc("start_listing_inquiry", {
+      p_listing_id: listingId,
+    });
+
+    if (error) throw error;
+
+    const { data: inquiry, error: fetchError } = await supabase
+      .from("listing_inquiries")
+      .select(INQUIRY_SELECT)
+      .eq("id", started.id)
+      .single();
+
+    if (fetchError) throw fetchError;
+
+    const { data: listing } = await supabase
+      .from("marketplace_listings")
+      .select("title")
+      .eq("id", listingId)
+      .single();
+
+    // Keyed on the thread: sent once, however many times the buyer comes back
+    await notifyInquiryParty(started, started.seller_id, {
+      eventKey: `listing_inquiry:${started.id}`,
+      category: "chat",
+      title: "New inquiry",
+      body: `Someone is interested in "${listing?.title || "your listing"}".`,
+    });
+
+    if (message?.trim()) {
+      const { error: sendError } = await sendInquiryMessage(started.id, message);
+      if (sendError) {
+        return { data: transformInquiry(inquiry as unknown as DBInquiry), error: sendError };
+      }
+    }
+
+    return { data: transformInquiry(inquiry as unknown as DBInquiry), error: null };
+  } catch (error) {
+    return { data: null, error: error instanceof Error ? error.message : "Failed to start conversation" };
+  }
+}
+
+/**
+ * Gets the current user's conversation about a listing, if they started one
+ */
+export async function getMyListingInquiry(
+  listingId: string
+): Promise<{ data: ListingInquiry | null; error: string | null }> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { data: null, error: null };
+  }
+
+  try {
+    const { data: inquiry, error } = await supabase
+      .from("listing_inquiries")
+      .select(INQUIRY_SELECT)
+      .eq("listing_id", listingId)
+      .eq("inquirer_id", user.id)
+      .not("chat_room_id", "is", null)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    return { data: inquiry ? transformInquiry(inquiry as unknown as DBInquiry) : null, error: null };
+  } catch (error) {
+    return { data: null, error: error instanceof Error ? error.message : "Failed to load conversation" };
+  }
+}
+
+/**
+ * Gets the offers made in an inquiry, newest first
+ */
+export async function getInquiryOffers(
+  inquiryId: string
+): Promise<{ data: ListingOffer[]; error: string | null }> {
+  const supabase = await createClient();
+
+  try {
+    const { data: offers, error } = await supabase
+      .from("listing_offers")
+      .select("*")
+      .eq("inquiry_id", inquiryId)
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+
+    return { data: (offers || []).map(transformOffer), error: null };
+  } catch (error) {
+    return { data: [], error: error instanceof Error ? error.message : "Failed to load offers" };
+  }
+}
+
+/**
+ * Makes an offer in an inquiry, or counters the other side's pending offer
+ */
+export async function makeListingOffer(
+  inquiryId: string,
+  amount: number,
+  message?: string
+): Promise<{ data: ListingOffer | null; error: string | null }> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { data: null, error: "Not authenticated" };
+  }
+
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return { data: null, error: "Enter an amount greater than zero" };
+  }
+
+  try {
+    const { data: offer, error } = await supabase.rpc("make_listing_offer", {
+      p_inquiry_id: inquiryId,
+      p_amount: amount,
+      p_message: message?.trim() || null,
+    });
+
+    if (error) throw error;
+
+    const { data: inquiry } = await supabase
+      .from("listing_inquiries")
+      .select("id, listing_id, inquirer_id, seller_id, listing:marketplace_listings(title)")
+      .eq("id", inquiryId)
+      .single();
+
+    if (inquiry) {
+      const isCounter = !!offer.parent_offer_id;
+      const listingTitle = (inquiry.listing as unknown as { title: string } | null)?.title || "a listing";
+
+      await notifyInquiryParty(
+        inquiry,
+        user.id === inquiry.seller_id ? inquiry.inquirer_id : inquiry.seller_id,
+        {
+          eventKey: `listing_offer:${offer.id}`,
+          category: "status",
+          title: isCounter ? "Counter offer received" : "New offer received",
+          body: `${formatOfferAmount(Number(offer.amount))} for "${listingTitle}"`,
+        }
+      );
+    }
+
+    return { data: transformOffer(offer), error: null };
+  } catch (error) {
+    return { data: null, error: error instanceof Error ? error.message : "Failed to make offer" };
+  }
+}
+
+/**
+ * Accepts or declines the other side's pending offer.
+ * Accepting reserves the listing for the buyer.
+ */
+export async function respondToListingOffer(
+  offerId: string,
+  accept: boolean
+): Promise<{ data: ListingOffer | null; error: string | null }> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { data: null, error: "Not authenticated" };
+  }
+
+  try {
+    const { data: offer, error } = await supabase.rpc("respond_to_listing_offer", {
+      p_offer_id: offerId,
+      p_accept: accept,
+    });
+
+    if (error) throw error;
+
+    const { data: inquiry } = await supabase
+      .from("listing_inquiries")
+      .select("id, listing_id, inquirer_id, seller_id, listing:marketplace_listings(title)")
+      .eq("id", offer.inquiry_id)
+      .single();
+
+    if (inquiry) {
+      const listingTitle = (inquiry.listing as unknown as { title: string } | null)?.title || "a listing";
+
+      await notifyInquiryParty(inquiry, offer.offered_by, {
+        eventKey: `listing_offer_${accept ? "accepted" : "declined"}:${offer.id}`,
+        category: "status",
+        title: accept ? "Offer accepted" : "Offer declined",
+        body: accept
+          ? `Your offer of ${formatOfferAmount(Number(offer.amount))} for "${listingTitle}" was accepted. The listing is reserved.`
+          : `Your offer of ${formatOfferAmount(Number(offer.amount))} for "${listingTitle}" was declined.`,
+      });
+    }
+
+    revalidatePath(`/marketplace/${offer.listing_id}`);
+    return { data: transformOffer(offer), error: null };
+  } catch (error) {
+    return { data: null, error: error instanceof Error ? error.message : "Failed to respond to offer" };
+  }
+}
+
+/**
+ * Marks a reserved listing as sold (or rented), or releases the reservation
+ * so it takes offers again. Seller only.
+ */
+export async function setListingSaleStatus(
+  listingId: string,
+  status: Extract<ListingStatus, "sold" | "rented" | "active">
+): Promise<{ success: boolean; error: string | null }> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  try {
+    const { error } = await supabase.rpc("set_listing_sale_status", {
+      p_listing_id: listingId,
+      p_status: status,
+    });
+
+    if (error) throw error;
+
+    revalidatePath(`/marketplace/${listingId}`);
+    revalidatePath("/marketplace/inquiries");
+    return { success: true, error: null };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : "Failed to update listing" };
+  }
+}
+
+/**
+ * Gets the seller's inbox: their listings with inquiries, each with its
+ * threads. Listings and threads are ordered by latest activity.
+ */
+export async function getSellerInquiryInbox(): Promise<{
+  data: InquiryInboxGroup[];
+  error: string | null;
+}> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { data: [], error: "Not authenticated" };
+  }
+
+  try {
+    const { data: inquiries, error } = await supabase
+      .from("listing_inquiries")
+      .select(`${INQUIRY_SELECT}, listing:marketplace_listings(id, title, price, status)`)
+      .eq("seller_id", user.id)
+      .not("chat_room_id", "is", null)
+      .order("last_message_at", { ascending: false })
+      .limit(200);
+
+    if (error) throw error;
+    if (!inquiries?.length) return { data: [], error: null };
+
+    const inquiryIds = inquiries.map((inquiry) => inquiry.id);
+    const roomIds = inquiries.map((inquiry) => inquiry.chat_room_id);
+
+    const [{ data: offers }, { data: messages }] = await Promise.all([
+      supabase
+        .from("listing_offers")
+        .select("*")
+        .in("inquiry_id", inquiryIds)
+        .order("created_at", { ascending: false }),
+      supabase
+        .from("chat_messages")
+        .select("chat_room_id, content")
+        .in("chat_room_id", roomIds)
+        .order("created_at", { ascending: false })
+        .limit(500),
+    ]);
+
+    // Newest first, so the first row seen per inquiry / room is the latest
+    const latestOffers = new Map<string, ListingOffer>();
+    for (const offer of offers || []) {
+      if (!latestOffers.has(offer.inquiry_id)) {
+        latestOffers.set(offer.inquiry_id, transformOffer(offer));
+      }
+    }
+    const lastMessages = new Map<string, string>();
+    for (const message of messages || []) {
+      if (!lastMessages.has(message.chat_room_id)) {
+        lastMessages.set(message.chat_room_id, message.content || "");
+      }
+    }
+
+    const groups = new Map<string, InquiryInboxGroup>();
+    for (const inquiry of inquiries) {
+      const listing = inquiry.listing as unknown as {
+        id: string;
+        title: string;
+        price: number | null;
+        status: ListingStatus;
+      } | null;
+      if (!listing) continue;
+
+      let group = groups.get(listing.id);
+      if (!group) {
+        group = {
+          listingId: listing.id,
+          listingTitle: listing.title,
+          listingPrice: listing.price,
+          listingStatus: listing.status,
+          inquiries: [],
+        };
+        groups.set(listing.id, group);
+      }
+
+      group.inquiries.push(
+        transformInquiry(
+          inquiry as unknown as DBInquiry,
+          latestOffers.get(inquiry.id) ?? null,
+          lastMessages.get(inquiry.chat_room_id) ?? null
+        )
+      );
+    }
+
+    return { data: [...groups.values()], error: null };
+  } catch (error) {
+    return { data: [], error: error instanceof Error ? error.message : "Failed to load inquiries" };
+  }
+}
+
+/**
+ * Maximum length of a saved search name (marketplace_saved_searches.name)
+ */
+const SAVED_SEARCH_NAME_MAX_LENGTH = 60;
+
+function transformSavedSearch(dbSearch: Tables<"marketplace_saved_searches">, recentMatches = 0): SavedSearch {
+  const filters: SavedSearchFilters = {};
+  if (dbSearch.listing_types?.length) filters.listingTypes = dbSearch.listing_types;
+  if (dbSearch.housing_types?.length) filters.housingTypes = dbSearch.housing_types as HousingType[];
+  if (dbSearch.item_conditions?.length) filters.conditions = dbSearch.item_conditions as ItemCondition[];
+  if (dbSearch.min_price !== null) filters.minPrice = Number(dbSearch.min_price);
+  if (dbSearch.max_price !== null) filters.maxPrice = Number(dbSearch.max_price);
+  if (dbSearch.university_id) filters.universityOnly = true;
+  if (dbSearch.keywords) filters.keywords = dbSearch.keywords;
+
+  return {
+    id: dbSearch.id,
+    name: dbSearch.name,
+    filters,
+    alertMode: dbSearch.alert_mode as SavedSearchAlertMode,
+    recentMatches,
+    createdAt: dbSearch.created_at || "",
+  };
+}
+
+/**
+ * Gets the current user's saved searches with their matches from the last week
+ */
+export async function getSavedSearches(): Promise<{
+  data: SavedSearch[];
+  error: string | null;
+}> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { data: [], error: "Not authenticated" };
+  }
+
+  try {
+    const { data: searches, error } = await supabase
+      .from("marketplace_saved_searches")
+      .select("*")
+      .eq("profile_id", user.id)
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+    if (!searches?.length) return { data: [], error: null };
+
+    const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
+    const { data: matches } = await supabase
+      .from("marketplace_saved_search_matches")
+      .select("search_id")
+      .in("search_id", searches.map((search) => search.id))
+      .gte("matched_at", weekAgo);
+
+    const matchCounts = new Map<string, number>();
+    for (const match of matches || []) {
+      matchCounts.set(match.search_id, (matchCounts.get(match.search_id) || 0) + 1);
+    }
+
+    return {
+      data: searches.map((search) => transformSavedSearch(search, matchCounts.get(search.id) || 0)),
+      error: null,
+    };
+  } catch (error) {
+    return { data: [], error: error instanceof Error ? error.message : "Failed to load saved searches" };
+  }
+}
+
+/**
+ * Saves the current filter set under a name.
+ * Housing searches are rejected for non-students by the database trigger.
+ */
+export async function createSavedSearch(input: {
+  name: string;
+  filters: SavedSearchFilters;
+  alertMode: SavedSearchAlertMode;
+}): Promise<{ data: SavedSearch | null; error: string | null }> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { data: null, error: "Not authenticated" };
+  }
+
+  const name = input.name.trim();
+  if (!name || name.length > SAVED_SEARCH_NAME_MAX_LENGTH) {
+    return { data: null, error: `Name must be 1-${SAVED_SEARCH_NAME_MAX_LENGTH} characters` };
+  }
+
+  const { filters } = input;
+  if (
+    filters.minPrice !== undefined &&
+    filters.maxPrice !== undefined &&
+    filters.minPrice > filters.maxPrice
+  ) {
+    return { data: null, error: "Minimum price is above the maximum" };
+  }
+
+  try {
+    // "My campus only" is pinned to the college the user has now
+    let universityId: string | null = null;
+    if (filters.universityOnly) {
+      const { data: student } = await supabase
+        .from("students")
+        .select("university_id")
+        .eq("profile_id", user.id)
+        .maybeSingle();
+
+      if (!student?.university_id) {
+        return { data: null, error: "Add your college to your profile to save a campus-only search" };
+      }
+      universityId = student.university_id;
+    }
+
+    const { data, error } = await supabase
+      .from("marketplace_saved_searches")
+      .insert({
+        profile_id: user.id,
+        name,
+        listing_types: filters.listingTypes?.length ? filters.listingTypes : null,
+        housing_types: filters.housingTypes?.length ? filters.housingTypes : null,
+        item_conditions: filters.conditions?.length ? filters.conditions : null,
+        min_price: filters.minPrice ?? null,
+        max_price: filters.maxPrice ?? null,
+        university_id: universityId,
+        keywords: filters.keywords?.trim().slice(0, 100) || null,
+        alert_mode: input.alertMode,
+      })
+      .select("*")
+      .single();
+
+    if (error) throw error;
+
+    return { data: transformSavedSearch(data), error: null };
+  } catch (error) {
+    return { data: null, error: error instanceof Error ? error.message : "Failed to save search" };
+  }
+}
+
+/**
+ * Renames a saved search or changes how it alerts
+ */
+export async function updateSavedSearch(
+  searchId: string,
+  updates: { name?: string; alertMode?: SavedSearchAlertMode }
+): Promise<{ success: boolean; error: string | null }> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  const row: Record<string, string> = {};
+  if (updates.name !== undefined) {
+    const name = updates.name.trim();
+    if (!name || name.length > SAVED_SEARCH_NAME_MAX_LENGTH) {
+      return { success: false, error: `Name must be 1-${SAVED_SEARCH_NAME_MAX_LENGTH} characters` };
+    }
+    row.name = name;
+  }
+  if (updates.alertMode !== undefined) {
+    row.alert_mode = updates.alertMode;
+  }
+
+  try {
+    const { error } = await supabase
+      .from("marketplace_saved_searches")
+      .update(row)
+      .eq("id", searchId)
+      .eq("profile_id", user.id);
+
+    if (error) throw error;
+
+    return { success: true, error: null };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : "Failed to update saved search" };
+  }
+}
+
+/**
+ * Deletes a saved search and its pending alerts
+ */
+export async function deleteSavedSearch(
+  searchId: string
+): Promise<{ success: boolean; error: string | null }> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  try {
+    const { error } = await supabase
+      .from("marketplace_saved_searches")
+      .delete()
+      .eq("id", searchId)
+      .eq("profile_id", user.id);
+
+    if (error) throw error;
+
+    return { success: true, error: null };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : "Failed to delete saved search" };
+  }
+}
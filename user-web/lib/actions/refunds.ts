@@ -0,0 +1,246 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { createClient, createAdminClient } from "@/lib/supabase/server";
+import { getRazorpay } from "@/lib/razorpay/client";
+import {
+  calculateRefund,
+  splitRefund,
+  type RefundDecision,
+  type RefundSplit,
+} from "@/lib/refund-policy";
+import { issueRefundCreditNote } from "@/lib/invoices";
+import { getChargedAmounts, totalCharged } from "@/lib/project-charges";
+import type { ProjectStatus } from "@/types/project";
+
+/**
+ * Refund preview shown before the user confirms cancellation
+ */
+export interface RefundQuote extends RefundDecision {
+  amountPaid: number;
+  split: RefundSplit;
+}
+
+/**
+ * Refund record as shown on the wallet page and invoice
+ */
+export interface ProjectRefund {
+  id: string;
+  project_id: string;
+  reason: string | null;
+  policy_rule: string;
+  amount_paid: number;
+  refund_amount: number;
+  wallet_amount: number;
+  razorpay_amount: number;
+  razorpay_status: "not_applicable" | "pending" | "processing" | "processed" | "failed";
+  created_at: string;
+}
+
+interface RefundableProject {
+  id: string;
+  user_id: string;
+  project_number: string;
+  status: ProjectStatus;
+  is_paid: boolean | null;
+  user_quote: number | null;
+  payment_id: string | null;
+  deadline: string;
+  delivered_at: string | null;
+  progress_percentage: number | null;
+}
+
+/**
+ * Loads a project owned by the current user together with its refund quote
+ */
+async function buildRefundQuote(projectId: string) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { error: "Not authenticated" as const };
+
+  const admin = createAdminClient();
+  if (!admin) return { error: "Server configuration error" as const };
+
+  const { data: project } = await supabase
+    .from("projects")
+    .select(
+      "id, user_id, project_number, status, is_paid, user_quote, payment_id, deadline, delivered_at, progress_percentage"
+    )
+    .eq("id", projectId)
+    .single();
+
+  if (!project || project.user_id !== user.id) {
+    return { error: "Project not found" as const };
+  }
+
+  const charged = await getChargedAmounts(admin, project as RefundableProject);
+  const amountPaid = project.is_paid ? totalCharged(charged, project as RefundableProject) : 0;
+
+  const decision = calculateRefund({
+    status: project.status,
+    isPaid: !!project.is_paid,
+    amountPaid,
+    deadline: project.deadline,
+    deliveredAt: project.delivered_at,
+    progressPercentage: project.progress_percentage,
+  });
+
+  let split = splitRefund(decision.refundAmount, charged);
+
+  // Without a Razorpay payment id to refund against, return everything to the wallet
+  if (split.razorpayAmount > 0 && !charged.razorpayPaymentId) {
+    split = { walletAmount: decision.refundAmount, razorpayAmount: 0 };
+  }
+
+  return {
+    user,
+    admin,
+    project: project as RefundableProject,
+    charged,
+    quote: { ...decision, amountPaid, split } satisfies RefundQuote,
+  };
+}
+
+/**
+ * Preview the refund a user would get for cancelling a project
+ * @param projectId - The project UUID
+ */
+export async function getRefundQuote(
+  projectId: string
+): Promise<{ quote?: RefundQuote; error?: string }> {
+  const result = await buildRefundQuote(projectId);
+  if ("error" in result) return { error: result.error };
+  return { quote: result.quote };
+}
+
+/**
+ * Cancel a project and refund the user according to the refund policy.
+ * The wallet portion is credited immediately; the Razorpay portion is
+ * submitted to Razorpay and settled by the refund.processed webhook.
+ * @param projectId - The project UUID
+ * @param reason - Cancellation reason given by the user
+ */
+export async function cancelProjectWithRefund(projectId: string, reason: string) {
+  const result = await buildRefundQuote(projectId);
+  if ("error" in result) return { error: result.error };
+
+  const { user, admin, project, charged, quote } = result;
+
+  if (!quote.cancellable) {
+    return { error: quote.explanation };
+  }
+
+  const { data: refund, error } = await admin.rpc("process_project_refund", {
+    p_project_id: project.id,
+    p_profile_id: project.user_id,
+    p_cancelled_by: user.id,
+    p_reason: reason.trim() || null,
+    p_policy_rule: quote.rule,
+    p_amount_paid: quote.amountPaid,
+    p_refund_rate: quote.refundRate,
+    p_wallet_amount: quote.split.walletAmount,
+    p_razorpay_amount: quote.split.razorpayAmount,
+    p_razorpay_payment_id: charged.razorpayPaymentId,
+  });
+
+  if (error) {
+    console.error("[cancelProjectWithRefund] Refund error:", error);
+    return { error: error.message || "Failed to cancel project" };
+  }
+
+  // Submit the Razorpay leg; a failure leaves it flagged for support to retry
+  if (quote.split.razorpayAmount > 0 && charged.razorpayPaymentId) {
+    try {
+      const razorpayRefund = await getRazorpay().payments.refund(charged.razorpayPaymentId, {
+        amount: Math.round(quote.split.razorpayAmount * 100),
+        notes: {
+          project_id: project.id,
+          refund_id: refund.refund_id,
+        },
+      });
+
+      await admin.rpc("settle_project_refund", {
+        p_refund_id: refund.refund_id,
+        p_razorpay_status: razorpayRefund.status === "processed" ? "processed" : "processing",
+        p_razorpay_refund_id: razorpayRefund.id,
+      });
+    } catch (razorpayError) {
+      console.error("[cancelProjectWithRefund] Razorpay refund failed:", razorpayError);
+      await admin.rpc("settle_project_refund", {
+        p_refund_id: refund.refund_id,
+        p_razorpay_status: "failed",
+        p_error: razorpayError instanceof Error ? razorpayError.message : "Razorpay refund failed",
+      });
+    }
+  }
+
+  // GST credit note against the project's invoice
+  if (quote.refundAmount > 0) {
+    await issueRefundCreditNote(admin, refund.refund_id);
+  }
+
+  await admin.from("notifications").insert({
+    profile_id: project.user_id,
+    notification_type: "system_alert",
+    title: quote.refundAmount > 0 ? "Refund Initiated" : "Project Cancelled",
+    body:
+      quote.refundAmount > 0
+        ? `Project ${project.project_number} was cancelled. ₹${quote.split.walletAmount} has been added to your wallet` +
+          (quote.split.razorpayAmount > 0
+            ? ` and ₹${quote.split.razorpayAmount} will be returned to your original payment method in 5-7 business days.`
+            : ".")
+        : `Project ${project.project_number} was cancelled.`,
+    reference_type: "project",
+    reference_id: project.id,
+    action_url: "/wallet",
+  });
+
+  revalidatePath(`/project/${projectId}`);
+  revalidatePath("/projects");
+  revalidatePath("/wallet");
+
+  return {
+    success: true,
+    status: refund.status as ProjectStatus,
+    refundAmount: quote.refundAmount,
+    walletAmount: quote.split.walletAmount,
+    razorpayAmount: quote.split.razorpayAmount,
+  };
+}
+
+/**
+ * Get refunds issued to the current user, newest first
+ * @param projectId - Optional project filter
+ */
+export async function getProjectRefunds(projectId?: string): Promise<ProjectRefund[]> {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return [];
+
+  let query = supabase
+    .from("project_refunds")
+    .select(
+      "id, project_id, reason, policy_rule, amount_paid, refund_amount, wallet_amount, razorpay_amount, razorpay_status, created_at"
+    )
+    .eq("profile_id", user.id)
+    .order("created_at", { ascending: false });
+
+  if (projectId) {
+    query = query.eq("project_id", projectId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error("[getProjectRefunds] Error:", error);
+    return [];
+  }
+
+  return (data || []) as ProjectRefund[];
+}
@@ -1,11 +1,16 @@
 "use server"
 
-import { createClient } from "@/lib/supabase/server"
+import { createAdminClient, createClient } from "@/lib/supabase/server"
 
 /**
  * Flag types for chat policy violations
  */
-export type FlagReason = "phone_sharing" | "address_sharing" | "link_sharing" | "email_sharing"
+export type FlagReason =
+  | "phone_sharing"
+  | "address_sharing"
+  | "link_sharing"
+  | "email_sharing"
+  | "social_sharing"
 
 /**
  * Result of flagging operation
@@ -18,7 +23,9 @@ export interface FlagUserResult {
 
 /**
  * Flag a user for violating chat policies
- * This server action updates the user's profile to mark them as flagged
+ * Users can only flag themselves (the chat window reports its own sender); the
+ * update runs through flag_profile_for_violation, the same function the
+ * chat_messages moderation trigger uses, and blocks the profile at three flags.
  *
  * @param userId - The UUID of the user to flag
  * @param reason - The reason for flagging
@@ -31,49 +38,30 @@ export async function flagUserForViolation(
   try {
     const supabase = await createClient()
 
-    // First get current flag count
-    const { data: profile, error: fetchError } = await supabase
-      .from("profiles")
-      .select("flag_count, is_flagged")
-      .eq("id", userId)
-      .single()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
 
-    if (fetchError) {
-      console.error("Error fetching profile for flagging:", fetchError)
-      return { success: false, error: "Failed to fetch user profile" }
+    if (!user || user.id !== userId) {
+      return { success: false, error: "Not authorized" }
     }
 
-    const currentFlagCount = profile?.flag_count || 0
-    const newFlagCount = currentFlagCount + 1
+    const admin = createAdminClient()
+    if (!admin) {
+      return { success: false, error: "Server configuration error" }
+    }
 
-    // Update the profile with flag information
-    const { error: updateError } = await supabase
-      .from("profiles")
-      .update({
-        is_flagged: true,
-        flag_reason: reason,
-        flagged_at: new Date().toISOString(),
-        flag_count: newFlagCount,
-      })
-      .eq("id", userId)
+    const { data: flagCount, error } = await admin.rpc("flag_profile_for_violation", {
+      p_profile_id: userId,
+      p_reason: reason,
+    })
 
-    if (updateError) {
-      console.error("Error flagging user:", updateError)
+    if (error) {
+      console.error("Error flagging user:", error)
       return { success: false, error: "Failed to flag user" }
     }
 
-    // If user has been flagged multiple times, block them
-    if (newFlagCount >= 3) {
-      await supabase
-        .from("profiles")
-        .update({
-          is_blocked: true,
-          block_reason: `Automatically blocked after ${newFlagCount} chat policy violations`,
-        })
-        .eq("id", userId)
-    }
-
-    return { success: true, flagCount: newFlagCount }
+    return { success: true, flagCount: flagCount as number }
   } catch (error) {
     console.error("Unexpected error flagging user:", error)
     return { success: false, error: "An unexpected error occurred" }
@@ -0,0 +1,243 @@
+/**
+ * Calendar invites and reminders for Campus Connect events
+ * Maps campus_posts rows in the `events` category onto lib/ics.ts events and
+ * queues reminders for the people who RSVP'd on the notification outbox
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { buildCalendar, type CalendarEvent, type CalendarPerson } from "@/lib/ics";
+import { cancelNotifications, dispatchNotification } from "@/lib/notifications/outbox";
+
+/**
+ * Columns needed to build an invite or a reminder
+ */
+export const CAMPUS_EVENT_COLUMNS =
+  "id, user_id, category, title, content, status, event_date, event_end_date, event_venue, location, updated_at";
+
+export interface CampusEventRow {
+  id: string;
+  user_id: string;
+  category: string;
+  title: string;
+  content: string;
+  status: string | null;
+  event_date: string | null;
+  event_end_date: string | null;
+  event_venue: string | null;
+  location: string | null;
+  updated_at: string;
+}
+
+/**
+ * Length assumed for events posted without an end time
+ */
+export const DEFAULT_EVENT_DURATION_MINUTES = 120;
+
+/**
+ * How long before an event each kind of response is reminded.
+ * Interested users only get the day-before nudge.
+ */
+export const EVENT_REMINDER_MINUTES: Record<"going" | "interested", number[]> = {
+  going: [24 * 60, 60],
+  interested: [24 * 60],
+};
+
+const DEFAULT_TIMEZONE = "Asia/Kolkata";
+
+function appUrl(): string {
+  return (process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000").replace(/\/$/, "");
+}
+
+/**
+ * Events that still take responses: live posts that haven't started
+ */
+export function isUpcomingEvent(
+  row: Pick<CampusEventRow, "category" | "status" | "event_date">
+): boolean {
+  return (
+    row.category === "events" &&
+    (row.status === null || ["active", "published"].includes(row.status)) &&
+    !!row.event_date &&
+    new Date(row.event_date).getTime() > Date.now()
+  );
+}
+
+/**
+ * Path of the downloadable invite for an event
+ */
+export function campusEventInvitePath(postId: string): string {
+  return `/api/campus-connect/events/${postId}/ics`;
+}
+
+function formatEventTime(date: Date): string {
+  return new Intl.DateTimeFormat("en-IN", {
+    dateStyle: "medium",
+    timeStyle: "short",
+    timeZone: DEFAULT_TIMEZONE,
+  }).format(date);
+}
+
+/**
+ * Maps an event post onto a calendar event
+ * @param row - The post (must have an event_date)
+ * @param organizer - The post's author
+ */
+export function campusEventToCalendarEvent(
+  row: CampusEventRow,
+  organizer?: CalendarPerson
+): CalendarEvent {
+  const start = new Date(row.event_date!);
+  const end = row.event_end_date
+    ? new Date(row.event_end_date)
+    : new Date(start.getTime() + DEFAULT_EVENT_DURATION_MINUTES * 60 * 1000);
+  const url = `${appUrl()}/campus-connect/${row.id}`;
+
+  return {
+    uid: `campus-event-${row.id}@assignx`,
+    sequence: 0,
+    start,
+    end,
+    timeZone: DEFAULT_TIMEZONE,
+    summary: row.title,
+    description: [row.content, `Details: ${url}`].filter(Boolean).join("\n\n"),
+    location: row.event_venue || row.location || undefined,
+    url,
+    status: "CONFIRMED",
+    organizer,
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+/**
+ * Builds a single-event .ics file to add an event to a calendar
+ */
+export function buildCampusEventInvite(row: CampusEventRow, organizer?: CalendarPerson): string {
+  return buildCalendar({ method: "PUBLISH", events: [campusEventToCalendarEvent(row, organizer)] });
+}
+
+function reminderKeyPrefix(postId: string, userId?: string): string {
+  return userId ? `campus_event_reminder:${postId}:${userId}:` : `campus_event_reminder:${postId}:`;
+}
+
+/**
+ * Queues a user's reminders for an event to match their current response,
+ * cancelling any that no longer apply. Call after every RSVP change.
+ * @param admin - Service role client
+ * @param postId - The event post UUID
+ * @param userId - The user who responded
+ */
+export async function syncEventReminders(
+  admin: SupabaseClient,
+  postId: string,
+  userId: string
+): Promise<void> {
+  const [{ data: post }, { data: rsvp }] = await Promise.all([
+    admin.from("campus_posts").select(CAMPUS_EVENT_COLUMNS).eq("id", postId).maybeSingle(),
+    admin
+      .from("campus_event_rsvps")
+      .select("status")
+      .eq("post_id", postId)
+      .eq("user_id", userId)
+      .maybeSingle(),
+  ]);
+
+  const row = post as CampusEventRow | null;
+  const status = rsvp?.status as string | undefined;
+  const offsets =
+    status === "going" || status === "interested" ? EVENT_REMINDER_MINUTES[status] : [];
+
+  if (!row || !isUpcomingEvent(row) || offsets.length === 0) {
+    await cancelNotifications(admin, reminderKeyPrefix(postId, userId));
+    return;
+  }
+
+  const start = new Date(row.event_date!);
+  const venue = row.event_venue || row.location;
+  const keys: string[] = [];
+
+  for (const minutes of offsets) {
+    const sendAt = new Date(start.getTime() - minutes * 60 * 1000);
+    if (sendAt.getTime() <= Date.now()) continue;
+
+    // Keyed on the start time so a moved event gets fresh reminders
+    const eventKey = `${reminderKeyPrefix(postId, userId)}${status}:${minutes}:${start.getTime()}`;
+    keys.push(eventKey);
+
+    await dispatchNotification(admin, {
+      eventKey,
+      profileId: userId,
+      category: "status",
+      title: minutes >= 24 * 60 ? `Tomorrow: ${row.title}` : `Starting soon: ${row.title}`,
+      body: `${formatEventTime(start)}${venue ? ` at ${venue}` : ""}.`,
+      referenceType: "campus_post",
+      referenceId: row.id,
+      actionUrl: `/campus-connect/${row.id}`,
+      channels: ["in_app", "push"],
+      sendAt,
+      expiresAt: start,
+      bypassQuietHours: minutes < 24 * 60,
+    });
+  }
+
+  // Drop reminders queued for an earlier response or start time
+  const { data: pending } = await admin
+    .from("notification_outbox")
+    .select("event_key")
+    .like("event_key", `${reminderKeyPrefix(postId, userId).replace(/[\\%_]/g, "\\$&")}%`)
+    .eq("status", "pending");
+
+  const stale = new Set(
+    (pending || []).map((item) => item.event_key as string).filter((key) => !keys.includes(key))
+  );
+  for (const key of stale) {
+    await cancelNotifications(admin, key);
+  }
+}
+
+/**
+ * Cancels every pending reminder for an event, e.g. when it is taken down
+ * @param admin - Service role client
+ * @param postId - The event post UUID
+ */
+export async function cancelEventReminders(admin: SupabaseClient, postId: string): Promise<void> {
+  await cancelNotifications(admin, reminderKeyPrefix(postId));
+}
+
+/**
+ * Tells users moved off the waitlist that they have a seat, and queues their reminders
+ * @param admin - Service role client
+ * @param postId - The event post UUID
+ * @param userIds - The promoted users
+ */
+export async function notifyWaitlistPromotion(
+  admin: SupabaseClient,
+  postId: string,
+  userIds: string[]
+): Promise<void> {
+  if (userIds.length === 0) return;
+
+  const { data } = await admin
+    .from("campus_posts")
+    .select(CAMPUS_EVENT_COLUMNS)
+    .eq("id", postId)
+    .maybeSingle();
+
+  const row = data as CampusEventRow | null;
+  if (!row || !row.event_date) return;
+
+  for (const userId of userIds) {
+    await dispatchNotification(admin, {
+      eventKey: `campus_event_waitlist_promoted:${postId}:${userId}:${Date.now()}`,
+      profileId: userId,
+      category: "status",
+      title: "You're off the waitlist",
+      body: `A seat opened up for "${row.title}" on ${formatEventTime(new Date(row.event_date))}. You're now going.`,
+      referenceType: "campus_post",
+      referenceId: row.id,
+      actionUrl: `/campus-connect/${row.id}`,
+      channels: ["in_app", "push"],
+    });
+
+    await syncEventReminders(admin, postId, userId);
+  }
+}
@@ -4,10 +4,15 @@
  * - Client pays: $30 (100%)
  * - Expert receives: $20 (66.7%)
  * - Platform fee: $10 (33.3%)
+ *
+ * The live split comes from the `expert_opinion` pricing guide via the
+ * pricing engine (see services/pricing.service.ts); COMMISSION_CONFIG is the
+ * fallback used until it has loaded.
  */
 
 import { formatINR } from "@/lib/utils";
 import type { CommissionBreakdown } from "@/types/expert";
+import type { PricingBreakdown } from "@/services/pricing.service";
 
 /**
  * Commission rates as constants
@@ -19,18 +24,39 @@ export const COMMISSION_CONFIG = {
   PLATFORM_RATE: 0.3333,
 } as const;
 
+/**
+ * Expert / platform split as fractions of the total
+ */
+export interface CommissionRates {
+  EXPERT_RATE: number;
+  PLATFORM_RATE: number;
+}
+
+/**
+ * Converts a pricing engine breakdown into commission rates
+ * @param breakdown - Breakdown for the expert_opinion service type
+ * @returns Commission rates
+ */
+export function getCommissionRates(breakdown: PricingBreakdown): CommissionRates {
+  return {
+    EXPERT_RATE: breakdown.doer_percentage / 100,
+    PLATFORM_RATE: breakdown.platform_percentage / 100,
+  };
+}
+
 /**
  * Calculates commission breakdown for a consultation
  * @param totalAmount - Total amount charged to client
  * @param currency - Currency code (default: INR)
+ * @param rates - Split from the pricing guide (default: COMMISSION_CONFIG)
  * @returns Commission breakdown with formatted values
  */
 export function calculateCommission(
   totalAmount: number,
-  currency: string = "INR"
+  currency: string = "INR",
+  rates: CommissionRates = COMMISSION_CONFIG
 ): CommissionBreakdown {
-  const expertAmount = Math.round(totalAmount * COMMISSION_CONFIG.EXPERT_RATE * 100) / 100;
-  const platformFee = Math.round(totalAmount * COMMISSION_CONFIG.PLATFORM_RATE * 100) / 100;
+  const platformFee = Math.round(totalAmount * rates.PLATFORM_RATE * 100) / 100;
 
   // Ensure amounts add up exactly (handle rounding)
   const adjustedExpertAmount = totalAmount - platformFee;
@@ -51,8 +77,8 @@ export function calculateCommission(
     totalAmount,
     expertAmount: adjustedExpertAmount,
     platformFee,
-    expertPercentage: COMMISSION_CONFIG.EXPERT_RATE * 100,
-    platformPercentage: COMMISSION_CONFIG.PLATFORM_RATE * 100,
+    expertPercentage: rates.EXPERT_RATE * 100,
+    platformPercentage: rates.PLATFORM_RATE * 100,
     currency,
     formattedTotal: formatAmount(totalAmount),
     formattedExpertAmount: formatAmount(adjustedExpertAmount),
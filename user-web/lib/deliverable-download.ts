@@ -0,0 +1,46 @@
+/**
+ * Browser side of /api/deliverables/[id]: signed links to deliverables and
+ * their watermarked previews
+ */
+
+import type { DeliverableDownloadKind } from "@shared/deliverable-access";
+
+/**
+ * Asks for a short-lived signed link
+ * @param deliverableId - The deliverable UUID
+ * @param kind - The file itself (default) or its preview
+ * @returns The signed URL
+ * @throws When the viewer may not open it, with a message to show
+ */
+export async function getDeliverableLink(
+  deliverableId: string,
+  kind: DeliverableDownloadKind = "file"
+): Promise<string> {
+  const response = await fetch(
+    `/api/deliverables/${deliverableId}${kind === "preview" ? "?kind=preview" : ""}`
+  );
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok || !body?.url) {
+    throw new Error(body?.error || "Failed to open file");
+  }
+
+  return body.url;
+}
+
+/**
+ * Downloads a deliverable through a fresh signed link
+ * @param deliverableId - The deliverable UUID
+ * @throws When the file is not available to the viewer
+ */
+export async function downloadDeliverable(deliverableId: string): Promise<void> {
+  const url = await getDeliverableLink(deliverableId, "file");
+
+  // The signed URL is issued with Content-Disposition: attachment
+  const link = document.createElement("a");
+  link.href = url;
+  link.rel = "noopener noreferrer";
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+}
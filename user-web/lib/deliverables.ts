@@ -0,0 +1,363 @@
+/**
+ * Private deliverable files
+ *
+ * Deliverables sit in a private bucket and are handed out as short-lived
+ * signed URLs by GET /api/deliverables/[id]; who gets the file and who only
+ * gets the preview is decided by @shared/deliverable-access.
+ *
+ * The preview carries a "PREVIEW - AssignX" watermark on every page. PDFs
+ * keep their own first pages and PNG/JPEG images are shown on a page of their
+ * own; other documents (DOCX, ODT, text) only have their text re-set on A4,
+ * which the UI tells the student (deliverablePreviewKind). It is rendered on
+ * first request and kept in the private "deliverable-previews" bucket.
+ * Documents without readable text (archives, other image formats) get no
+ * preview.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { PDFDocument, StandardFonts, degrees, rgb, type PDFFont, type PDFPage } from "pdf-lib";
+import { extractDocumentText } from "@shared/document-text";
+import {
+  DELIVERABLE_BUCKET,
+  DELIVERABLE_PREVIEW_BUCKET,
+  DELIVERABLE_PREVIEW_PAGES,
+  DELIVERABLE_PREVIEW_WATERMARK,
+  deliverableObjectPath,
+  deliverablePreviewKind,
+  type DeliverableDownloadKind,
+  type DeliverablePreviewStatus,
+  type DeliverableViewerRole,
+} from "@shared/deliverable-access";
+import { A4, buildPdf, createPage, drawText, fillRect, wrapText, type PdfPage } from "@/lib/pdf";
+
+/**
+ * Columns the download route needs, with the project they belong to
+ */
+export const DELIVERABLE_COLUMNS =
+  "id, project_id, file_name, file_url, file_type, qc_status, preview_url, preview_status, " +
+  "project:projects!project_deliverables_project_id_fkey(id, project_number, user_id, status, is_paid, doer_id, supervisor_id)";
+
+export interface DeliverableRecord {
+  id: string;
+  project_id: string;
+  file_name: string;
+  file_url: string;
+  file_type: string | null;
+  qc_status: string | null;
+  preview_url: string | null;
+  preview_status: DeliverablePreviewStatus;
+  project: {
+    id: string;
+    project_number: string;
+    user_id: string;
+    status: string | null;
+    is_paid: boolean | null;
+    doer_id: string | null;
+    supervisor_id: string | null;
+  } | null;
+}
+
+const MARGIN = 56;
+const BODY_SIZE = 11;
+const LINE_HEIGHT = 15;
+const BODY_TOP = 96;
+const BODY_BOTTOM = A4.height - 72;
+
+/**
+ * How the signed-in profile is related to the deliverable's project
+ * @returns The role, or null if they have no business with it
+ */
+export async function resolveDeliverableViewer(
+  admin: SupabaseClient,
+  profileId: string,
+  project: NonNullable<DeliverableRecord["project"]>
+): Promise<DeliverableViewerRole | null> {
+  if (project.user_id === profileId) return "user";
+
+  const [{ data: doer }, { data: supervisor }, { data: adminRow }] = await Promise.all([
+    admin.from("doers").select("id").eq("profile_id", profileId).maybeSingle(),
+    admin.from("supervisors").select("id").eq("profile_id", profileId).maybeSingle(),
+    admin.from("admins").select("id").eq("profile_id", profileId).maybeSingle(),
+  ]);
+
+  if (adminRow) return "admin";
+  if (doer && doer.id === project.doer_id) return "doer";
+  if (supervisor && supervisor.id === project.supervisor_id) return "supervisor";
+  return null;
+}
+
+/**
+ * Draws the watermark, header and footer of a preview page
+ */
+function drawPreviewFrame(page: PdfPage, fileName: string, pageNumber: number, pageCount: number) {
+  drawText(page, DELIVERABLE_PREVIEW_WATERMARK, A4.width / 2, A4.height / 2 + 40, {
+    size: 64,
+    font: "bold",
+    color: "#F3F4F6",
+    align: "center",
+    rotate: 45,
+  });
+
+  fillRect(page, 0, 0, A4.width, 56, "#FFF7ED");
+  drawText(page, DELIVERABLE_PREVIEW_WATERMARK, MARGIN, 34, { size: 12, font: "bold", color: "#C2410C" });
+  drawText(page, wrapText(fileName, 260, 9)[0] ?? "", A4.width - MARGIN, 34, {
+    size: 9,
+    color: "#9A3412",
+    align: "right",
+  });
+
+  drawText(page, `Preview page ${pageNumber} of ${pageCount}`, A4.width / 2, A4.height - 36, {
+    size: 8,
+    color: "#9CA3AF",
+    align: "center",
+  });
+}
+
+/**
+ * Renders the watermarked preview of a document's text (office and text
+ * documents)
+ * @param text - Extracted document text
+ * @param fileName - Shown in the header
+ * @returns The preview PDF
+ */
+export function renderDeliverablePreview(text: string, fileName: string): Buffer {
+  const linesPerPage = Math.floor((BODY_BOTTOM - BODY_TOP) / LINE_HEIGHT);
+  const lines = wrapText(text, A4.width - MARGIN * 2, BODY_SIZE);
+  const shown = lines.slice(0, linesPerPage * DELIVERABLE_PREVIEW_PAGES);
+  const isPartial = shown.length < lines.length;
+  const pageCount = Math.max(1, Math.ceil(shown.length / linesPerPage));
+  const pages: PdfPage[] = [];
+
+  for (let index = 0; index < pageCount; index++) {
+    const page = createPage();
+    drawPreviewFrame(page, fileName, index + 1, pageCount);
+
+    shown.slice(index * linesPerPage, (index + 1) * linesPerPage).forEach((line, lineIndex) => {
+      drawText(page, line, MARGIN, BODY_TOP + lineIndex * LINE_HEIGHT, { size: BODY_SIZE, color: "#111827" });
+    });
+
+    pages.push(page);
+  }
+
+  if (isPartial) {
+    drawText(
+      pages[pages.length - 1],
+      "Preview ends here. The full file unlocks once you approve the project.",
+      A4.width / 2,
+      BODY_BOTTOM + 20,
+      { size: 9, font: "bold", color: "#C2410C", align: "center" }
+    );
+  }
+
+  return buildPdf(pages, { title: `Preview - ${fileName}`, author: "AssignX" });
+}
+
+/**
+ * Drops the characters a standard PDF font can't draw
+ */
+function drawableText(font: PDFFont, text: string): string {
+  const characters = new Set(font.getCharacterSet());
+  return Array.from(text)
+    .filter((character) => characters.has(character.codePointAt(0) ?? 0))
+    .join("");
+}
+
+/**
+ * Stamps the watermark, header and footer over a page of the document itself
+ */
+function stampPreviewPage(
+  page: PDFPage,
+  fonts: { regular: PDFFont; bold: PDFFont },
+  fileName: string,
+  pageNumber: number,
+  pageCount: number
+) {
+  const { x, y, width, height } = page.getCropBox();
+  const watermark = drawableText(fonts.bold, DELIVERABLE_PREVIEW_WATERMARK);
+  const watermarkSize = Math.min(width, height) / 9;
+  const watermarkWidth = fonts.bold.widthOfTextAtSize(watermark, watermarkSize);
+
+  // Centred on the page, along the diagonal
+  page.drawText(watermark, {
+    x: x + width / 2 - (watermarkWidth / 2) * Math.SQRT1_2,
+    y: y + height / 2 - (watermarkWidth / 2) * Math.SQRT1_2,
+    size: watermarkSize,
+    font: fonts.bold,
+    color: rgb(0.76, 0.25, 0.05),
+    opacity: 0.18,
+    rotate: degrees(45),
+  });
+
+  page.drawRectangle({ x, y: y + height - 32, width, height: 32, color: rgb(1, 0.97, 0.93), opacity: 0.95 });
+  page.drawText(watermark, {
+    x: x + 24,
+    y: y + height - 21,
+    size: 11,
+    font: fonts.bold,
+    color: rgb(0.76, 0.25, 0.05),
+  });
+
+  const name = drawableText(fonts.regular, wrapText(fileName, 260, 9)[0] ?? "");
+  page.drawText(name, {
+    x: x + width - 24 - fonts.regular.widthOfTextAtSize(name, 9),
+    y: y + height - 21,
+    size: 9,
+    font: fonts.regular,
+    color: rgb(0.6, 0.2, 0.07),
+  });
+
+  const footer = `Preview page ${pageNumber} of ${pageCount}`;
+  page.drawText(footer, {
+    x: x + width / 2 - fonts.regular.widthOfTextAtSize(footer, 8) / 2,
+    y: y + 12,
+    size: 8,
+    font: fonts.regular,
+    color: rgb(0.61, 0.64, 0.69),
+  });
+}
+
+/**
+ * Renders the watermarked preview of a PDF's first pages or of an image
+ * @param file - The uploaded PDF, PNG or JPEG
+ * @param fileName - Decides the format and is shown in the header
+ * @returns The preview PDF
+ */
+export async function renderPagesPreview(file: Buffer, fileName: string): Promise<Buffer> {
+  const preview = await PDFDocument.create();
+  let isPartial = false;
+
+  if (/\.pdf$/i.test(fileName)) {
+    const source = await PDFDocument.load(file);
+    const shown = Math.min(source.getPageCount(), DELIVERABLE_PREVIEW_PAGES);
+    const pages = await preview.copyPages(source, Array.from({ length: shown }, (_, index) => index));
+    pages.forEach((page) => preview.addPage(page));
+    isPartial = shown < source.getPageCount();
+  } else {
+    const image = /\.png$/i.test(fileName) ? await preview.embedPng(file) : await preview.embedJpg(file);
+    const page = preview.addPage([A4.width, A4.height]);
+    const { width, height } = image.scaleToFit(A4.width - MARGIN * 2, A4.height - BODY_TOP * 2);
+    page.drawImage(image, { x: (A4.width - width) / 2, y: (A4.height - height) / 2, width, height });
+  }
+
+  const fonts = {
+    regular: await preview.embedFont(StandardFonts.Helvetica),
+    bold: await preview.embedFont(StandardFonts.HelveticaBold),
+  };
+  const pages = preview.getPages();
+  pages.forEach((page, index) => stampPreviewPage(page, fonts, fileName, index + 1, pages.length));
+
+  if (isPartial) {
+    const last = pages[pages.length - 1];
+    const { x, y, width } = last.getCropBox();
+    const note = "Preview ends here. The full file unlocks once you approve the project.";
+    last.drawText(note, {
+      x: x + width / 2 - fonts.bold.widthOfTextAtSize(note, 9) / 2,
+      y: y + 26,
+      size: 9,
+      font: fonts.bold,
+      color: rgb(0.76, 0.25, 0.05),
+    });
+  }
+
+  preview.setTitle(`Preview - ${fileName}`);
+  preview.setAuthor("AssignX");
+
+  return Buffer.from(await preview.save());
+}
+
+/**
+ * Object path of the deliverable's preview, rendering and storing it first
+ * if needed
+ * @returns The path, or null if the file can't be previewed or rendering failed
+ */
+export async function ensureDeliverablePreview(
+  admin: SupabaseClient,
+  deliverable: DeliverableRecord
+): Promise<string | null> {
+  if (deliverable.preview_status === "ready" && deliverable.preview_url) {
+    return deliverable.preview_url;
+  }
+  if (deliverable.preview_status === "unsupported") return null;
+
+  const markPreview = (status: DeliverablePreviewStatus, previewUrl: string | null = null) =>
+    admin
+      .from("project_deliverables")
+      .update({
+        preview_status: status,
+        preview_url: previewUrl,
+        preview_generated_at: new Date().toISOString(),
+      })
+      .eq("id", deliverable.id);
+
+  try {
+    const { data: file, error: downloadError } = await admin.storage
+      .from(DELIVERABLE_BUCKET)
+      .download(deliverableObjectPath(deliverable.file_url));
+
+    if (downloadError || !file) throw downloadError ?? new Error("Deliverable not found in storage");
+
+    const contents = Buffer.from(await file.arrayBuffer());
+    let preview: Buffer;
+
+    if (deliverablePreviewKind(deliverable.file_name) === "pages") {
+      preview = await renderPagesPreview(contents, deliverable.file_name);
+    } else {
+      const text = extractDocumentText(contents, deliverable.file_name, deliverable.file_type);
+
+      if (!text?.trim()) {
+        await markPreview("unsupported");
+        return null;
+      }
+
+      preview = renderDeliverablePreview(text, deliverable.file_name);
+    }
+
+    const previewPath = `${deliverable.project_id}/${deliverable.id}.pdf`;
+    const { error: uploadError } = await admin.storage
+      .from(DELIVERABLE_PREVIEW_BUCKET)
+      .upload(previewPath, preview, {
+        contentType: "application/pdf",
+        upsert: true,
+      });
+
+    if (uploadError) throw uploadError;
+
+    await markPreview("ready", previewPath);
+    return previewPath;
+  } catch (error) {
+    console.error("[Deliverable Preview] Error:", error);
+    await markPreview("failed");
+    return null;
+  }
+}
+
+/**
+ * Records a signed link handed out. Never throws: a failed log must not
+ * block the download, so it is only reported.
+ */
+export async function logDeliverableDownload(
+  admin: SupabaseClient,
+  entry: {
+    deliverableId: string;
+    projectId: string;
+    profileId: string;
+    role: DeliverableViewerRole;
+    kind: DeliverableDownloadKind;
+    ipAddress: string | null;
+    userAgent: string | null;
+  }
+): Promise<void> {
+  const { error } = await admin.from("deliverable_downloads").insert({
+    deliverable_id: entry.deliverableId,
+    project_id: entry.projectId,
+    profile_id: entry.profileId,
+    viewer_role: entry.role,
+    kind: entry.kind,
+    ip_address: entry.ipAddress,
+    user_agent: entry.userAgent?.slice(0, 500) ?? null,
+  });
+
+  if (error) {
+    console.error("[Deliverable Download] Failed to log download:", error);
+  }
+}
@@ -0,0 +1,428 @@
+/**
+ * Transactional email templates
+ * Each template turns its data into content blocks; the same blocks render
+ * to plain text and to HTML, so both parts always carry the same content and
+ * a template's output depends on nothing but its data.
+ */
+
+/**
+ * Building blocks of an email body
+ */
+export type EmailBlock =
+  | { type: "paragraph"; text: string }
+  | { type: "details"; rows: [label: string, value: string][] }
+  | { type: "quote"; text: string }
+  | { type: "button"; label: string; url: string }
+  | { type: "note"; text: string };
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * Data of each template
+ */
+export interface EmailTemplateData {
+  quote_ready: {
+    recipientName: string;
+    projectNumber: string;
+    projectTitle: string;
+    amount: number;
+    projectUrl: string;
+    /** ISO timestamp */
+    deadline?: string | null;
+    timeZone?: string;
+  };
+  payment_received: {
+    recipientName: string;
+    projectNumber: string;
+    projectTitle: string;
+    amount: number;
+    paymentReference?: string | null;
+    projectUrl: string;
+  };
+  project_delivered: {
+    recipientName: string;
+    projectNumber: string;
+    projectTitle: string;
+    projectUrl: string;
+    /** ISO timestamp of projects.auto_approve_at */
+    autoApproveAt?: string | null;
+    timeZone?: string;
+  };
+  revision_requested: {
+    recipientName: string;
+    projectNumber: string;
+    projectTitle: string;
+    feedback?: string | null;
+    projectUrl: string;
+  };
+  auto_approval_warning: {
+    recipientName: string;
+    projectNumber: string;
+    projectTitle: string;
+    /** ISO timestamp of projects.auto_approve_at */
+    autoApproveAt: string;
+    hoursLeft: number;
+    projectUrl: string;
+    timeZone?: string;
+  };
+  payout_processed: {
+    recipientName: string;
+    amount: number;
+    payoutReference?: string | null;
+    method?: string | null;
+    /** ISO timestamp */
+    processedAt: string;
+    walletUrl: string;
+    timeZone?: string;
+  };
+  support_ticket_reply: {
+    recipientName: string;
+    ticketNumber: string;
+    ticketSubject: string;
+    reply: string;
+    repliedBy?: string | null;
+    ticketUrl: string;
+  };
+  /** Any outbox notification without a dedicated template */
+  notification: {
+    recipientName?: string | null;
+    title: string;
+    body: string;
+    actionUrl?: string | null;
+    actionLabel?: string;
+  };
+}
+
+export type EmailTemplateName = keyof EmailTemplateData;
+
+interface EmailTemplate<T> {
+  subject: (data: T) => string;
+  /** Shown in the inbox next to the subject */
+  preheader: (data: T) => string;
+  blocks: (data: T) => EmailBlock[];
+}
+
+const DEFAULT_TIMEZONE = "Asia/Kolkata";
+const REPLY_EXCERPT_LENGTH = 600;
+
+function formatAmount(amount: number): string {
+  return new Intl.NumberFormat("en-IN", {
+    style: "currency",
+    currency: "INR",
+    minimumFractionDigits: 2,
+  }).format(amount);
+}
+
+function formatDateTime(iso: string, timeZone = DEFAULT_TIMEZONE): string {
+  return new Intl.DateTimeFormat("en-IN", {
+    dateStyle: "medium",
+    timeStyle: "short",
+    timeZone,
+  }).format(new Date(iso));
+}
+
+function greeting(name?: string | null): EmailBlock {
+  return { type: "paragraph", text: `Hi ${name?.trim() || "there"},` };
+}
+
+function excerpt(text: string): string {
+  const clean = text.trim();
+  return clean.length > REPLY_EXCERPT_LENGTH
+    ? `${clean.slice(0, REPLY_EXCERPT_LENGTH).trimEnd()}…`
+    : clean;
+}
+
+/**
+ * Makes the template map check each entry against its own data type
+ */
+type EmailTemplates = { [K in EmailTemplateName]: EmailTemplate<EmailTemplateData[K]> };
+
+const TEMPLATES: EmailTemplates = {
+  quote_ready: {
+    subject: (d) => `Your quote for ${d.projectNumber} is ready`,
+    preheader: (d) => `${d.projectTitle} has been quoted at ${formatAmount(d.amount)}.`,
+    blocks: (d) => [
+      greeting(d.recipientName),
+      { type: "paragraph", text: `We've reviewed "${d.projectTitle}" and your quote is ready.` },
+      {
+        type: "details",
+        rows: [
+          ["Project", d.projectNumber],
+          ["Quote", formatAmount(d.amount)],
+          ...(d.deadline ? [["Deadline", formatDateTime(d.deadline, d.timeZone)] as [string, string]] : []),
+        ],
+      },
+      { type: "paragraph", text: "Pay now and an expert will start working on it right away." },
+      { type: "button", label: "View quote", url: d.projectUrl },
+    ],
+  },
+
+  payment_received: {
+    subject: (d) => `Payment received for ${d.projectNumber}`,
+    preheader: (d) => `We received ${formatAmount(d.amount)}. Work on your project starts now.`,
+    blocks: (d) => [
+      greeting(d.recipientName),
+      { type: "paragraph", text: `Thank you! We received your payment for "${d.projectTitle}".` },
+      {
+        type: "details",
+        rows: [
+          ["Project", d.projectNumber],
+          ["Amount paid", formatAmount(d.amount)],
+          ...(d.paymentReference ? [["Reference", d.paymentReference] as [string, string]] : []),
+        ],
+      },
+      { type: "paragraph", text: "Our expert will start working immediately. Your GST invoice is available on the project page." },
+      { type: "button", label: "Track progress", url: d.projectUrl },
+    ],
+  },
+
+  project_delivered: {
+    subject: (d) => `${d.projectNumber} has been delivered`,
+    preheader: (d) => `"${d.projectTitle}" is ready for your review.`,
+    blocks: (d) => [
+      greeting(d.recipientName),
+      { type: "paragraph", text: `Your project "${d.projectTitle}" has been delivered and is ready for review.` },
+      { type: "details", rows: [["Project", d.projectNumber]] },
+      {
+        type: "paragraph",
+        text: "Please check the files and approve the project, or request a revision if anything needs to change.",
+      },
+      { type: "button", label: "Review delivery", url: d.projectUrl },
+      ...(d.autoApproveAt
+        ? [
+            {
+              type: "note",
+              text: `If we don't hear from you, the project is approved automatically on ${formatDateTime(d.autoApproveAt, d.timeZone)}.`,
+            } as EmailBlock,
+          ]
+        : []),
+    ],
+  },
+
+  revision_requested: {
+    subject: (d) => `Revision requested for ${d.projectNumber}`,
+    preheader: () => "We've received your revision request and are working on it.",
+    blocks: (d) => [
+      greeting(d.recipientName),
+      {
+        type: "paragraph",
+        text: `We've received your revision request for "${d.projectTitle}" (${d.projectNumber}). Our expert is working on it.`,
+      },
+      ...(d.feedback ? [{ type: "quote", text: excerpt(d.feedback) } as EmailBlock] : []),
+      { type: "paragraph", text: "We'll let you know as soon as the revised work is delivered." },
+      { type: "button", label: "View project", url: d.projectUrl },
+    ],
+  },
+
+  auto_approval_warning: {
+    subject: (d) => `${d.projectNumber} will be approved automatically in ${d.hoursLeft} hours`,
+    preheader: (d) => `Review "${d.projectTitle}" before ${formatDateTime(d.autoApproveAt, d.timeZone)}.`,
+    blocks: (d) => [
+      greeting(d.recipientName),
+      {
+        type: "paragraph",
+        text: `Your delivery for "${d.projectTitle}" is still waiting for your review.`,
+      },
+      {
+        type: "details",
+        rows: [
+          ["Project", d.projectNumber],
+          ["Auto-approval", formatDateTime(d.autoApproveAt, d.timeZone)],
+        ],
+      },
+      {
+        type: "paragraph",
+        text: `In ${d.hoursLeft} hours the project will be approved automatically and the expert will be paid. Request a revision before then if anything needs to change.`,
+      },
+      { type: "button", label: "Review now", url: d.projectUrl },
+    ],
+  },
+
+  payout_processed: {
+    subject: (d) => `Payout of ${formatAmount(d.amount)} processed`,
+    preheader: (d) => `Your payout was processed on ${formatDateTime(d.processedAt, d.timeZone)}.`,
+    blocks: (d) => [
+      greeting(d.recipientName),
+      { type: "paragraph", text: "Your payout has been processed." },
+      {
+        type: "details",
+        rows: [
+          ["Amount", formatAmount(d.amount)],
+          ...(d.method ? [["Paid to", d.method] as [string, string]] : []),
+          ...(d.payoutReference ? [["Reference", d.payoutReference] as [string, string]] : []),
+          ["Processed", formatDateTime(d.processedAt, d.timeZone)],
+        ],
+      },
+      { type: "note", text: "Bank transfers can take up to 2 working days to show in your account." },
+      { type: "button", label: "View earnings", url: d.walletUrl },
+    ],
+  },
+
+  support_ticket_reply: {
+    subject: (d) => `[${d.ticketNumber}] ${d.ticketSubject}`,
+    preheader: (d) => `${d.repliedBy || "Our support team"} replied to your ticket.`,
+    blocks: (d) => [
+      greeting(d.recipientName),
+      {
+        type: "paragraph",
+        text: `${d.repliedBy || "Our support team"} replied to your ticket ${d.ticketNumber}:`,
+      },
+      { type: "quote", text: excerpt(d.reply) },
+      { type: "button", label: "View conversation", url: d.ticketUrl },
+      { type: "note", text: "Reply from the ticket page so the conversation stays in one place." },
+    ],
+  },
+
+  notification: {
+    subject: (d) => d.title,
+    preheader: (d) => d.body,
+    blocks: (d) => [
+      greeting(d.recipientName),
+      { type: "paragraph", text: d.body },
+      ...(d.actionUrl
+        ? [{ type: "button", label: d.actionLabel || "Open AssignX", url: d.actionUrl } as EmailBlock]
+        : []),
+    ],
+  },
+};
+
+const FOOTER = "You're receiving this email because of activity on your AssignX account. Choose which emails you get under Settings → Notifications.";
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Plain-text part
+ */
+export function renderEmailText(blocks: EmailBlock[]): string {
+  const parts = blocks.map((block) => {
+    switch (block.type) {
+      case "paragraph":
+        return block.text;
+      case "details": {
+        const width = Math.max(...block.rows.map(([label]) => label.length));
+        return block.rows.map(([label, value]) => `${`${label}:`.padEnd(width + 2)}${value}`).join("\n");
+      }
+      case "quote":
+        return block.text
+          .split("\n")
+          .map((line) => `> ${line}`)
+          .join("\n");
+      case "button":
+        return `${block.label}: ${block.url}`;
+      case "note":
+        return block.text;
+    }
+  });
+
+  return [...parts, "—", "AssignX", FOOTER].join("\n\n") + "\n";
+}
+
+/**
+ * HTML part: a single column table layout with inline styles, as email clients expect
+ */
+export function renderEmailHtml(subject: string, preheader: string, blocks: EmailBlock[]): string {
+  const body = blocks
+    .map((block) => {
+      switch (block.type) {
+        case "paragraph":
+          return `<p style="margin:0 0 16px;font-size:15px;line-height:1.6;color:#1f2937;">${escapeHtml(block.text)}</p>`;
+        case "details":
+          return [
+            `<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="margin:0 0 16px;border:1px solid #e5e7eb;border-radius:8px;">`,
+            ...block.rows.map(
+              ([label, value]) =>
+                `<tr><td style="padding:10px 14px;font-size:13px;color:#6b7280;">${escapeHtml(label)}</td>` +
+                `<td style="padding:10px 14px;font-size:14px;color:#111827;font-weight:600;text-align:right;">${escapeHtml(value)}</td></tr>`
+            ),
+            "</table>",
+          ].join("\n");
+        case "quote":
+          return `<blockquote style="margin:0 0 16px;padding:12px 16px;border-left:3px solid #7c3aed;background:#f5f3ff;font-size:14px;line-height:1.6;color:#374151;">${escapeHtml(block.text).replace(/\n/g, "<br>")}</blockquote>`;
+        case "button":
+          return `<p style="margin:24px 0;"><a href="${escapeHtml(block.url)}" style="display:inline-block;padding:12px 24px;border-radius:8px;background:#7c3aed;color:#ffffff;font-size:15px;font-weight:600;text-decoration:none;">${escapeHtml(block.label)}</a></p>`;
+        case "note":
+          return `<p style="margin:0 0 16px;font-size:13px;line-height:1.5;color:#6b7280;">${escapeHtml(block.text)}</p>`;
+      }
+    })
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(subject)}</title>
+</head>
+<body style="margin:0;padding:0;background:#f3f4f6;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,Helvetica,Arial,sans-serif;">
+<div style="display:none;max-height:0;overflow:hidden;">${escapeHtml(preheader)}</div>
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f3f4f6;padding:24px 12px;">
+<tr><td align="center">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:560px;background:#ffffff;border-radius:12px;">
+<tr><td style="padding:24px 32px;border-bottom:1px solid #f3f4f6;font-size:20px;font-weight:700;color:#7c3aed;">AssignX</td></tr>
+<tr><td style="padding:28px 32px 12px;">
+${body}
+</td></tr>
+<tr><td style="padding:16px 32px 28px;font-size:12px;line-height:1.5;color:#9ca3af;">${escapeHtml(FOOTER)}</td></tr>
+</table>
+</td></tr>
+</table>
+</body>
+</html>
+`;
+}
+
+/**
+ * Renders a template to subject, plain text and HTML
+ * @param name - Template name
+ * @param data - Template data
+ */
+export function renderEmailTemplate<T extends EmailTemplateName>(
+  name: T,
+  data: EmailTemplateData[T]
+): RenderedEmail {
+  const template = TEMPLATES[name] as EmailTemplate<EmailTemplateData[T]>;
+  const subject = template.subject(data);
+  const blocks = template.blocks(data);
+
+  return {
+    subject,
+    text: renderEmailText(blocks),
+    html: renderEmailHtml(subject, template.preheader(data), blocks),
+  };
+}
+
+/**
+ * Data for the auto-approval warning from a delivered project
+ * @param project - The project (auto_approve_at must be set)
+ * @param recipientName - Student's name
+ * @param projectUrl - Link to the project
+ * @param now - Current time
+ */
+export function autoApprovalWarningData(
+  project: { project_number: string; title: string; auto_approve_at: string },
+  recipientName: string,
+  projectUrl: string,
+  now: Date = new Date()
+): EmailTemplateData["auto_approval_warning"] {
+  const msLeft = new Date(project.auto_approve_at).getTime() - now.getTime();
+
+  return {
+    recipientName,
+    projectNumber: project.project_number,
+    projectTitle: project.title,
+    autoApproveAt: project.auto_approve_at,
+    hoursLeft: Math.max(1, Math.round(msLeft / (60 * 60 * 1000))),
+    projectUrl,
+  };
+}
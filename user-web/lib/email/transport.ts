@@ -0,0 +1,133 @@
+/**
+ * Email transport: SMTP through nodemailer and a log transport for
+ * development without an SMTP server.
+ * Point SMTP_HOST / SMTP_PORT at MailCatcher or Mailpit (localhost:1025) to
+ * see rendered emails locally.
+ */
+
+import crypto from "crypto";
+import nodemailer from "nodemailer";
+import { env } from "@/lib/env";
+
+/**
+ * An email ready to send; every message carries a plain-text and an HTML part
+ */
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  replyTo?: string;
+}
+
+export interface EmailTransport {
+  name: "smtp" | "log";
+  /**
+   * Sends a message
+   * @throws Error with `status` 503 for temporary (4xx SMTP) failures and 422 for permanent (5xx) ones
+   */
+  send(message: EmailMessage): Promise<{ messageId: string }>;
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  /** Implicit TLS (port 465); otherwise the server must offer STARTTLS, except on localhost */
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+  replyTo?: string;
+  timeoutMs?: number;
+}
+
+const DEFAULT_FROM = "AssignX <no-reply@assignx.in>";
+const SMTP_TIMEOUT_MS = 30000;
+const LOCAL_HOSTS = ["localhost", "127.0.0.1", "::1"];
+
+/**
+ * Error carrying a status so the outbox can tell transient from permanent failures
+ */
+function smtpError(message: string, code?: number): Error {
+  const error = new Error(message);
+  // SMTP 4xx = try again later, 5xx = will never succeed
+  (error as unknown as { status: number }).status = code && code >= 500 ? 422 : 503;
+  return error;
+}
+
+/**
+ * SMTP transport
+ * @param config - Server, credentials and sender
+ */
+export function createSmtpTransport(config: SmtpConfig): EmailTransport {
+  const timeoutMs = config.timeoutMs ?? SMTP_TIMEOUT_MS;
+  const local = LOCAL_HOSTS.includes(config.host);
+
+  const transporter = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    // Credentials and mail only cross the network encrypted: without implicit
+    // TLS a remote server must accept STARTTLS before AUTH, or the send fails.
+    // Local catchers (MailCatcher, Mailpit) run without TLS.
+    requireTLS: !config.secure && !local,
+    ignoreTLS: !config.secure && local,
+    auth: config.user && config.password ? { user: config.user, pass: config.password } : undefined,
+    connectionTimeout: timeoutMs,
+    greetingTimeout: timeoutMs,
+    socketTimeout: timeoutMs,
+  });
+
+  return {
+    name: "smtp",
+    async send(message) {
+      try {
+        const info = await transporter.sendMail({
+          from: config.from,
+          to: message.to,
+          replyTo: message.replyTo ?? config.replyTo,
+          subject: message.subject,
+          text: message.text,
+          html: message.html,
+        });
+        return { messageId: info.messageId };
+      } catch (error) {
+        const { message: reason, responseCode } = error as Error & { responseCode?: number };
+        throw smtpError(`SMTP send failed: ${reason}`, responseCode);
+      }
+    },
+  };
+}
+
+/**
+ * Prints emails to the server log instead of sending them
+ */
+export const logTransport: EmailTransport = {
+  name: "log",
+  async send(message) {
+    const messageId = `<${crypto.randomUUID()}@localhost>`;
+    console.log(`[Email] To: ${message.to}\n[Email] Subject: ${message.subject}\n${message.text}`);
+    return { messageId };
+  },
+};
+
+/**
+ * The configured transport: SMTP when SMTP_HOST is set, the log transport in
+ * development, otherwise none (the email channel is skipped)
+ */
+export function getEmailTransport(): EmailTransport | null {
+  if (env.SMTP_HOST) {
+    const secure = env.SMTP_SECURE === "true";
+    return createSmtpTransport({
+      host: env.SMTP_HOST,
+      port: Number(env.SMTP_PORT) || (secure ? 465 : 587),
+      secure,
+      user: env.SMTP_USER,
+      password: env.SMTP_PASSWORD,
+      from: env.EMAIL_FROM || DEFAULT_FROM,
+      replyTo: env.EMAIL_REPLY_TO,
+    });
+  }
+
+  return process.env.NODE_ENV === "production" ? null : logTransport;
+}
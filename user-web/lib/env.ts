@@ -41,6 +41,8 @@ const serverEnvSchema = z.object({
   NEXT_PUBLIC_RAZORPAY_KEY_ID: z
     .string()
     .min(1, "NEXT_PUBLIC_RAZORPAY_KEY_ID is required"),
+  // Secret configured on the Razorpay dashboard webhook (optional)
+  RAZORPAY_WEBHOOK_SECRET: z.string().optional(),
 
   // Push Notifications (optional)
   VAPID_PRIVATE_KEY: z.string().optional(),
@@ -51,12 +53,42 @@ const serverEnvSchema = z.object({
   WHATSAPP_PHONE_NUMBER_ID: z.string().optional(),
   WHATSAPP_ACCESS_TOKEN: z.string().optional(),
 
+  // Email over SMTP (optional); use localhost:1025 for MailCatcher / Mailpit in development
+  SMTP_HOST: z.string().optional(),
+  SMTP_PORT: z.string().regex(/^\d+$/, "SMTP_PORT must be a number").optional(),
+  SMTP_SECURE: z.enum(["true", "false"]).optional(),
+  SMTP_USER: z.string().optional(),
+  SMTP_PASSWORD: z.string().optional(),
+  EMAIL_FROM: z.string().optional(),
+  EMAIL_REPLY_TO: z.string().email().optional(),
+
+  // Video room per expert session, e.g. https://meet.jit.si/AssignX-{room} (optional)
+  MEETING_ROOM_URL_TEMPLATE: z
+    .string()
+    .includes("{room}", { message: "MEETING_ROOM_URL_TEMPLATE must contain {room}" })
+    .optional(),
+
+  // GST invoicing: supplier printed on invoices; the GSTIN's state decides CGST/SGST vs IGST (optional)
+  INVOICE_SUPPLIER_NAME: z.string().optional(),
+  INVOICE_SUPPLIER_GSTIN: z
+    .string()
+    .regex(/^\d{2}[A-Z0-9]{13}$/i, "INVOICE_SUPPLIER_GSTIN must be a 15 character GSTIN")
+    .optional(),
+  INVOICE_SUPPLIER_ADDRESS: z.string().optional(),
+  INVOICE_SAC_CODE: z.string().regex(/^\d{4,8}$/, "INVOICE_SAC_CODE must be numeric").optional(),
+
   // Internal API Key (for server-to-server calls)
   INTERNAL_API_KEY: z
     .string()
     .min(32, "INTERNAL_API_KEY must be at least 32 characters")
     .optional(),
 
+  // Rate limiting backend (postgres shares limits across instances)
+  RATE_LIMIT_STORE: z.enum(["memory", "postgres"]).default("memory"),
+  RATE_LIMIT_ALGORITHM: z
+    .enum(["fixed-window", "sliding-window"])
+    .default("fixed-window"),
+
   // App URL (for CSRF and redirects)
   NEXT_PUBLIC_APP_URL: z
     .string()
@@ -181,6 +213,7 @@ export const features = {
   whatsApp: Boolean(
     process.env.WHATSAPP_PHONE_NUMBER_ID && process.env.WHATSAPP_ACCESS_TOKEN
   ),
+  email: Boolean(process.env.SMTP_HOST),
   analytics: Boolean(process.env.NEXT_PUBLIC_ANALYTICS_ID),
   /**
    * When false, bypasses authentication and uses default dev user
@@ -0,0 +1,177 @@
+/**
+ * Cancellation and reschedule policy for expert consultations
+ *
+ * Decides what a client gets back when cancelling a booked session and
+ * whether it can still be moved, based on how close the session is:
+ * - Cancelled 24h or more before the start: 100%
+ * - Cancelled between 2h and 24h before: 50%
+ * - Less than 2h before: no longer cancellable
+ * - Rescheduling is allowed up to 12h before the start
+ *
+ * Refunds always go back to the wallet.
+ */
+
+/**
+ * Booking policy configuration
+ */
+export const EXPERT_BOOKING_POLICY = {
+  /** Hours before the session for a full refund */
+  FULL_REFUND_HOURS: 24,
+  /** Hours before the session after which it can no longer be cancelled */
+  CANCEL_CUTOFF_HOURS: 2,
+  /** Refund between the cutoff and the full refund window */
+  LATE_CANCEL_RATE: 0.5,
+  /** Hours before the session after which it can no longer be moved */
+  RESCHEDULE_CUTOFF_HOURS: 12,
+  /** Minimum notice for booking (or moving to) a slot, in minutes */
+  MIN_BOOKING_NOTICE_MINUTES: 60,
+} as const;
+
+/**
+ * Which rule produced the cancellation decision
+ */
+export type BookingCancellationRule =
+  | "not_cancellable"
+  | "not_paid"
+  | "full_refund"
+  | "late_cancellation"
+  | "too_late";
+
+/**
+ * Booking facts the policy needs
+ */
+export interface BookingPolicyInput {
+  status: string;
+  /** Whether the session has been paid for */
+  isPaid: boolean;
+  totalAmount: number;
+  scheduledStart: string;
+  /** When the policy is evaluated (defaults to now) */
+  now?: Date;
+}
+
+/**
+ * Cancellation decision
+ */
+export interface BookingCancellationDecision {
+  cancellable: boolean;
+  rule: BookingCancellationRule;
+  /** 0-1 share of the paid amount returned */
+  refundRate: number;
+  refundAmount: number;
+  /** Human readable explanation shown to the user */
+  explanation: string;
+}
+
+/**
+ * Reschedule decision
+ */
+export interface BookingRescheduleDecision {
+  reschedulable: boolean;
+  explanation: string;
+}
+
+const OPEN_STATUSES = ["pending", "confirmed"];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Rounds to paise
+ */
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function hoursUntil(input: BookingPolicyInput): number {
+  const now = input.now ?? new Date();
+  return (new Date(input.scheduledStart).getTime() - now.getTime()) / HOUR_MS;
+}
+
+/**
+ * Calculates the refund for cancelling a booking
+ * @param input - Current booking state
+ * @returns Cancellation decision
+ */
+export function calculateBookingCancellation(
+  input: BookingPolicyInput
+): BookingCancellationDecision {
+  if (!OPEN_STATUSES.includes(input.status)) {
+    return {
+      cancellable: false,
+      rule: "not_cancellable",
+      refundRate: 0,
+      refundAmount: 0,
+      explanation: "This session can no longer be cancelled.",
+    };
+  }
+
+  if (!input.isPaid || input.totalAmount <= 0) {
+    return {
+      cancellable: true,
+      rule: "not_paid",
+      refundRate: 0,
+      refundAmount: 0,
+      explanation: "No payment has been made, so there is nothing to refund.",
+    };
+  }
+
+  const hours = hoursUntil(input);
+
+  if (hours >= EXPERT_BOOKING_POLICY.FULL_REFUND_HOURS) {
+    return {
+      cancellable: true,
+      rule: "full_refund",
+      refundRate: 1,
+      refundAmount: roundAmount(input.totalAmount),
+      explanation: `The session is more than ${EXPERT_BOOKING_POLICY.FULL_REFUND_HOURS} hours away, so the full amount is refunded to your wallet.`,
+    };
+  }
+
+  if (hours >= EXPERT_BOOKING_POLICY.CANCEL_CUTOFF_HOURS) {
+    const rate = EXPERT_BOOKING_POLICY.LATE_CANCEL_RATE;
+    return {
+      cancellable: true,
+      rule: "late_cancellation",
+      refundRate: rate,
+      refundAmount: roundAmount(input.totalAmount * rate),
+      explanation: `The session starts within ${EXPERT_BOOKING_POLICY.FULL_REFUND_HOURS} hours, so ${Math.round(rate * 100)}% of the payment is refunded to your wallet.`,
+    };
+  }
+
+  return {
+    cancellable: false,
+    rule: "too_late",
+    refundRate: 0,
+    refundAmount: 0,
+    explanation: `Sessions cannot be cancelled less than ${EXPERT_BOOKING_POLICY.CANCEL_CUTOFF_HOURS} hours before they start.`,
+  };
+}
+
+/**
+ * Checks whether a booking can still be moved to another slot
+ * @param input - Current booking state
+ * @returns Reschedule decision
+ */
+export function canRescheduleBooking(
+  input: BookingPolicyInput & { rescheduleCount: number; maxReschedules: number }
+): BookingRescheduleDecision {
+  if (input.status !== "confirmed") {
+    return { reschedulable: false, explanation: "Only confirmed sessions can be rescheduled." };
+  }
+
+  if (input.rescheduleCount >= input.maxReschedules) {
+    return {
+      reschedulable: false,
+      explanation: `This session has already been rescheduled ${input.rescheduleCount} times.`,
+    };
+  }
+
+  if (hoursUntil(input) < EXPERT_BOOKING_POLICY.RESCHEDULE_CUTOFF_HOURS) {
+    return {
+      reschedulable: false,
+      explanation: `Sessions cannot be rescheduled less than ${EXPERT_BOOKING_POLICY.RESCHEDULE_CUTOFF_HOURS} hours before they start.`,
+    };
+  }
+
+  return { reschedulable: true, explanation: "You can move this session to another open slot." };
+}
@@ -0,0 +1,338 @@
+/**
+ * Calendar invites, private iCal feeds and video rooms for expert consultations
+ * Maps expert_bookings rows onto lib/ics.ts events
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { buildCalendar, type CalendarEvent, type CalendarMethod, type CalendarPerson } from "@/lib/ics";
+import { dispatchNotification } from "@/lib/notifications/outbox";
+import { cancelReminder, scheduleReminder } from "@/lib/whatsapp";
+
+/**
+ * Columns needed to build an invite
+ */
+export const BOOKING_CALENDAR_COLUMNS =
+  "id, booking_number, expert_id, user_id, scheduled_start, scheduled_end, timezone, topic, status, payment_status, meeting_link, meeting_room, ics_sequence, updated_at";
+
+export interface BookingCalendarRow {
+  id: string;
+  booking_number: string;
+  expert_id: string;
+  user_id: string;
+  scheduled_start: string;
+  scheduled_end: string;
+  timezone: string | null;
+  topic: string;
+  status: string;
+  payment_status: string;
+  meeting_link: string | null;
+  meeting_room: string | null;
+  ics_sequence: number | null;
+  updated_at: string;
+}
+
+/**
+ * Who the invite is for; the summary names the other party
+ */
+export type CalendarViewer = "client" | "expert";
+
+export interface BookingParties {
+  client: CalendarPerson;
+  expert: CalendarPerson;
+}
+
+/**
+ * Subscribed calendar apps refetch the feed this often
+ */
+export const CALENDAR_FEED_REFRESH_HOURS = 1;
+
+/**
+ * Feed covers sessions that ended up to this many days ago
+ */
+export const CALENDAR_FEED_PAST_DAYS = 7;
+
+const DEFAULT_TIMEZONE = "Asia/Kolkata";
+
+function appUrl(): string {
+  return (process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000").replace(/\/$/, "");
+}
+
+/**
+ * Builds the video room URL for a booking from MEETING_ROOM_URL_TEMPLATE,
+ * e.g. https://meet.jit.si/AssignX-{room}
+ * @param room - The booking's unguessable room name
+ * @returns The room URL, or null when no template is configured
+ */
+export function meetingRoomUrl(room: string | null | undefined): string | null {
+  const template = process.env.MEETING_ROOM_URL_TEMPLATE;
+  if (!template || !room) return null;
+  return template.replace(/\{room\}/g, encodeURIComponent(room));
+}
+
+/**
+ * Bookings that are paid for and still going ahead
+ */
+export function isLiveBooking(row: Pick<BookingCalendarRow, "status" | "payment_status">): boolean {
+  return (
+    ["confirmed", "in_progress", "completed"].includes(row.status) &&
+    row.payment_status !== "pending"
+  );
+}
+
+/**
+ * Where the session takes place: the generated room when a template is
+ * configured, otherwise the expert's own Meet / Zoom link
+ */
+export function bookingMeetingUrl(
+  row: Pick<BookingCalendarRow, "status" | "payment_status" | "meeting_link" | "meeting_room">
+): string | undefined {
+  if (!isLiveBooking(row)) return undefined;
+  return meetingRoomUrl(row.meeting_room) ?? row.meeting_link ?? undefined;
+}
+
+/**
+ * Path of the downloadable invite for a booking
+ */
+export function bookingInvitePath(bookingId: string): string {
+  return `/api/experts/bookings/${bookingId}/invite`;
+}
+
+/**
+ * Private feed URL for a calendar feed token
+ */
+export function calendarFeedUrl(token: string): string {
+  return `${appUrl()}/api/calendar/${token}.ics`;
+}
+
+/**
+ * Loads names and emails of both parties of each booking
+ * @param admin - Service role client (profiles of the other party are not readable by RLS)
+ * @param rows - The bookings
+ * @returns Parties by booking id, and the expert's profile id by expert id
+ */
+export async function loadBookingParties(
+  admin: SupabaseClient,
+  rows: Pick<BookingCalendarRow, "id" | "expert_id" | "user_id">[]
+): Promise<{ parties: Map<string, BookingParties>; expertProfiles: Map<string, string> }> {
+  const expertIds = [...new Set(rows.map((row) => row.expert_id))];
+  const userIds = [...new Set(rows.map((row) => row.user_id))];
+
+  const { data: experts } = expertIds.length
+    ? await admin.from("experts").select("id, user_id").in("id", expertIds)
+    : { data: [] };
+
+  const expertProfiles = new Map<string, string>(
+    (experts || []).map((expert) => [expert.id as string, expert.user_id as string])
+  );
+
+  const profileIds = [...new Set([...userIds, ...expertProfiles.values()])];
+  const { data: profiles } = profileIds.length
+    ? await admin.from("profiles").select("id, full_name, email").in("id", profileIds)
+    : { data: [] };
+
+  const people = new Map<string, CalendarPerson>(
+    (profiles || []).map((profile) => [
+      profile.id as string,
+      { name: (profile.full_name as string | null) || "AssignX user", email: profile.email || undefined },
+    ])
+  );
+
+  const parties = new Map<string, BookingParties>();
+  for (const row of rows) {
+    const expertProfileId = expertProfiles.get(row.expert_id);
+    parties.set(row.id, {
+      client: people.get(row.user_id) ?? { name: "Student" },
+      expert: (expertProfileId && people.get(expertProfileId)) || { name: "Expert" },
+    });
+  }
+
+  return { parties, expertProfiles };
+}
+
+/**
+ * What happened to a session, for the expert's notification
+ */
+export type SessionChange = "booked" | "rescheduled" | "cancelled";
+
+const SESSION_CHANGE_TITLES: Record<SessionChange, string> = {
+  booked: "New Consultation Booked",
+  rescheduled: "Consultation Rescheduled",
+  cancelled: "Consultation Cancelled",
+};
+
+/**
+ * Tells the expert about a booked, moved or cancelled session, linking to the
+ * updated invite so their calendar follows along
+ * @param admin - Service role client
+ * @param bookingId - The booking UUID
+ * @param change - What happened
+ */
+export async function notifyExpertOfSessionChange(
+  admin: SupabaseClient,
+  bookingId: string,
+  change: SessionChange
+): Promise<void> {
+  const { data: booking } = await admin
+    .from("expert_bookings")
+    .select("id, booking_number, topic, scheduled_start, timezone, ics_sequence, experts(user_id)")
+    .eq("id", bookingId)
+    .maybeSingle();
+
+  const expertProfileId = (booking?.experts as unknown as { user_id: string } | null)?.user_id;
+  if (!booking || !expertProfileId) return;
+
+  const when = new Intl.DateTimeFormat("en-IN", {
+    dateStyle: "medium",
+    timeStyle: "short",
+    timeZone: booking.timezone || DEFAULT_TIMEZONE,
+  }).format(new Date(booking.scheduled_start));
+
+  // Keyed on the invite sequence: payment verify and the webhook both report "booked"
+  await dispatchNotification(admin, {
+    eventKey: `expert_session_${change}:${booking.id}:${booking.ics_sequence ?? 0}`,
+    profileId: expertProfileId,
+    category: "status",
+    title: SESSION_CHANGE_TITLES[change],
+    body:
+      change === "cancelled"
+        ? `${booking.booking_number} "${booking.topic}" on ${when} was cancelled. Open to remove it from your calendar.`
+        : `${booking.booking_number} "${booking.topic}" is on ${when}. Open to add it to your calendar.`,
+    referenceType: "expert_booking",
+    referenceId: booking.id,
+    actionUrl: bookingInvitePath(booking.id),
+    channels: ["in_app", "push"],
+  });
+}
+
+/**
+ * Minutes before a session that the student is reminded
+ */
+export const BOOKING_REMINDER_MINUTES = 30;
+
+/**
+ * Schedules the student's reminder 30 minutes before a session, replacing any
+ * earlier one. Call after every booking, reschedule and cancellation; the
+ * reminder is dropped once the booking is no longer going ahead.
+ * @param admin - Service role client
+ * @param bookingId - The booking UUID
+ */
+export async function scheduleBookingReminder(
+  admin: SupabaseClient,
+  bookingId: string
+): Promise<void> {
+  const { data } = await admin
+    .from("expert_bookings")
+    .select(BOOKING_CALENDAR_COLUMNS)
+    .eq("id", bookingId)
+    .maybeSingle();
+
+  const row = data as BookingCalendarRow | null;
+  if (!row) return;
+
+  const sessionStart = new Date(row.scheduled_start);
+  if (!isLiveBooking(row) || row.status === "completed" || sessionStart.getTime() <= Date.now()) {
+    await cancelReminder(admin, row.id);
+    return;
+  }
+
+  const { parties } = await loadBookingParties(admin, [row]);
+  const party = parties.get(row.id);
+  const timeZone = row.timezone || DEFAULT_TIMEZONE;
+
+  const result = await scheduleReminder(
+    admin,
+    row.id,
+    new Date(sessionStart.getTime() - BOOKING_REMINDER_MINUTES * 60 * 1000),
+    {
+      // Empty: the outbox uses the student's profile phone number
+      phoneNumber: "",
+      expertName: party?.expert.name ?? "your expert",
+      clientName: party?.client.name ?? "there",
+      sessionDate: new Intl.DateTimeFormat("en-IN", { dateStyle: "medium", timeZone }).format(sessionStart),
+      sessionTime: new Intl.DateTimeFormat("en-IN", { timeStyle: "short", timeZone }).format(sessionStart),
+      meetLink: bookingMeetingUrl(row),
+      bookingId: row.id,
+    },
+    {
+      profileId: row.user_id,
+      sessionStart,
+      sequence: row.ics_sequence ?? 0,
+      actionUrl: "/experts",
+    }
+  );
+
+  if (!result.success) {
+    console.error("[scheduleBookingReminder] Error:", result.error);
+  }
+}
+
+/**
+ * Maps a booking onto a calendar event
+ * @param row - The booking
+ * @param parties - Names and emails of the client and the expert
+ * @param viewer - Whose calendar the event goes on
+ */
+export function bookingToCalendarEvent(
+  row: BookingCalendarRow,
+  parties: BookingParties,
+  viewer: CalendarViewer
+): CalendarEvent {
+  const cancelled = row.status === "cancelled" || row.status === "rejected";
+  const meetingUrl = bookingMeetingUrl(row);
+  const otherParty = viewer === "client" ? parties.expert : parties.client;
+
+  const description = [
+    `Booking ${row.booking_number}`,
+    `Topic: ${row.topic}`,
+    meetingUrl ? `Join: ${meetingUrl}` : null,
+    `Manage: ${appUrl()}/experts`,
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+  return {
+    uid: `expert-booking-${row.id}@assignx`,
+    sequence: row.ics_sequence ?? 0,
+    start: new Date(row.scheduled_start),
+    end: new Date(row.scheduled_end),
+    timeZone: row.timezone || DEFAULT_TIMEZONE,
+    summary: `${cancelled ? "Cancelled: " : ""}Consultation with ${otherParty.name}`,
+    description,
+    location: meetingUrl,
+    url: meetingUrl,
+    status: cancelled ? "CANCELLED" : "CONFIRMED",
+    organizer: parties.expert,
+    attendees: [parties.client],
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+/**
+ * Builds a single-event .ics invite.
+ * Cancelled bookings use METHOD:CANCEL so calendars remove the event; reschedules
+ * keep the UID with a higher SEQUENCE so calendars move it.
+ */
+export function buildBookingInvite(
+  row: BookingCalendarRow,
+  parties: BookingParties,
+  viewer: CalendarViewer
+): string {
+  const event = bookingToCalendarEvent(row, parties, viewer);
+  const method: CalendarMethod = event.status === "CANCELLED" ? "CANCEL" : "REQUEST";
+  return buildCalendar({ method, events: [event] });
+}
+
+/**
+ * Builds the private feed of a profile's sessions as client and as expert
+ * @param sessions - Bookings with the parties and the profile's role in each
+ */
+export function buildBookingFeed(
+  sessions: { row: BookingCalendarRow; parties: BookingParties; viewer: CalendarViewer }[]
+): string {
+  return buildCalendar({
+    method: "PUBLISH",
+    name: "AssignX Sessions",
+    refreshIntervalHours: CALENDAR_FEED_REFRESH_HOURS,
+    events: sessions.map(({ row, parties, viewer }) => bookingToCalendarEvent(row, parties, viewer)),
+  });
+}
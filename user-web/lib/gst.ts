@@ -0,0 +1,293 @@
+/**
+ * GST calculation for invoices and credit notes
+ *
+ * Project prices (projects.user_quote / project_quotes.user_amount) are
+ * GST-inclusive, so every document works backwards from the amount actually
+ * paid or refunded:
+ * - Taxable value = amount / (1 + rate), rounded to paise
+ * - Same state as the supplier: tax split equally into CGST and SGST
+ * - Any other state: the whole tax is IGST
+ *
+ * Students are unregistered buyers, so the place of supply is the state on
+ * their profile, falling back to the supplier's own state when it is missing.
+ */
+
+/**
+ * Invoice configuration
+ */
+export const GST_CONFIG = {
+  /** GST on academic support services, in percent (pricing_guides default) */
+  DEFAULT_RATE: 18,
+  /** SAC: other professional, technical and business services n.e.c. */
+  DEFAULT_SAC_CODE: "998399",
+  /** Invoice numbers are limited to 16 characters by the CGST rules */
+  MAX_NUMBER_LENGTH: 16,
+} as const;
+
+/**
+ * State and union territory codes as used in GSTINs
+ */
+export const GST_STATE_CODES: Record<string, string> = {
+  "01": "Jammu and Kashmir",
+  "02": "Himachal Pradesh",
+  "03": "Punjab",
+  "04": "Chandigarh",
+  "05": "Uttarakhand",
+  "06": "Haryana",
+  "07": "Delhi",
+  "08": "Rajasthan",
+  "09": "Uttar Pradesh",
+  "10": "Bihar",
+  "11": "Sikkim",
+  "12": "Arunachal Pradesh",
+  "13": "Nagaland",
+  "14": "Manipur",
+  "15": "Mizoram",
+  "16": "Tripura",
+  "17": "Meghalaya",
+  "18": "Assam",
+  "19": "West Bengal",
+  "20": "Jharkhand",
+  "21": "Odisha",
+  "22": "Chhattisgarh",
+  "23": "Madhya Pradesh",
+  "24": "Gujarat",
+  "26": "Dadra and Nagar Haveli and Daman and Diu",
+  "27": "Maharashtra",
+  "29": "Karnataka",
+  "30": "Goa",
+  "31": "Lakshadweep",
+  "32": "Kerala",
+  "33": "Tamil Nadu",
+  "34": "Puducherry",
+  "35": "Andaman and Nicobar Islands",
+  "36": "Telangana",
+  "37": "Andhra Pradesh",
+  "38": "Ladakh",
+};
+
+/**
+ * Other spellings seen in profile addresses
+ */
+const STATE_ALIASES: Record<string, string> = {
+  "new delhi": "07",
+  "nct of delhi": "07",
+  orissa: "21",
+  pondicherry: "34",
+  "jammu & kashmir": "01",
+  "andaman & nicobar islands": "35",
+  "dadra and nagar haveli": "26",
+  "daman and diu": "26",
+};
+
+/**
+ * CGST + SGST within a state, IGST across states
+ */
+export type GstTaxType = "intra_state" | "inter_state";
+
+/**
+ * One row of an invoice or credit note
+ */
+export interface GstLineItem {
+  description: string;
+  sacCode: string;
+  /** Taxable value in INR; negative for discounts */
+  amount: number;
+}
+
+/**
+ * Amounts needed to issue an invoice
+ */
+export interface GstInvoiceInput {
+  /** Service description shown on the main line */
+  description: string;
+  /** GST-inclusive price before discounts */
+  grossAmount: number;
+  /** GST-inclusive referral / coupon discounts, in the order they were applied */
+  discounts?: { description: string; amount: number }[];
+  /** GST rate in percent */
+  rate?: number;
+  sacCode?: string;
+  /** Two digit state code of the supplier (null when not configured) */
+  supplierStateCode: string | null;
+  /** Two digit state code of the buyer (null when unknown) */
+  buyerStateCode: string | null;
+}
+
+/**
+ * Tax breakdown of an invoice or credit note
+ */
+export interface GstBreakdown {
+  taxType: GstTaxType;
+  placeOfSupply: string | null;
+  rate: number;
+  sacCode: string;
+  lineItems: GstLineItem[];
+  /** Sum of the discount lines as a positive number */
+  discountAmount: number;
+  taxableValue: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  taxAmount: number;
+  totalAmount: number;
+}
+
+/**
+ * Rounds to paise
+ */
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Resolves a state name or code to its two digit GST state code
+ * @param state - Name as entered on a profile, or a code
+ * @returns The state code, or null when it cannot be recognised
+ */
+export function toGstStateCode(state: string | null | undefined): string | null {
+  if (!state) return null;
+  const value = state.trim();
+
+  if (/^\d{1,2}$/.test(value)) {
+    const code = value.padStart(2, "0");
+    return GST_STATE_CODES[code] ? code : null;
+  }
+
+  const name = value.toLowerCase().replace(/\s+/g, " ");
+  if (STATE_ALIASES[name]) return STATE_ALIASES[name];
+
+  const match = Object.entries(GST_STATE_CODES).find(
+    ([, stateName]) => stateName.toLowerCase() === name
+  );
+  return match ? match[0] : null;
+}
+
+/**
+ * Reads the state code from a GSTIN (its first two digits)
+ * @param gstin - 15 character GST identification number
+ */
+export function gstinStateCode(gstin: string | null | undefined): string | null {
+  if (!gstin || !/^\d{2}[A-Z0-9]{13}$/i.test(gstin.trim())) return null;
+  return toGstStateCode(gstin.trim().slice(0, 2));
+}
+
+/**
+ * Human readable place of supply, e.g. "29 - Karnataka"
+ */
+export function formatPlaceOfSupply(stateCode: string | null): string {
+  return stateCode && GST_STATE_CODES[stateCode]
+    ? `${stateCode} - ${GST_STATE_CODES[stateCode]}`
+    : "Not specified";
+}
+
+/**
+ * Splits a GST-inclusive amount into taxable value and tax components
+ */
+function splitInclusiveAmount(
+  totalAmount: number,
+  rate: number,
+  taxType: GstTaxType
+): Pick<GstBreakdown, "taxableValue" | "cgstAmount" | "sgstAmount" | "igstAmount" | "taxAmount"> {
+  const taxableValue = roundAmount(totalAmount / (1 + rate / 100));
+  const taxAmount = roundAmount(totalAmount - taxableValue);
+
+  if (taxType === "inter_state") {
+    return { taxableValue, cgstAmount: 0, sgstAmount: 0, igstAmount: taxAmount, taxAmount };
+  }
+
+  // SGST absorbs the odd paisa so the halves always add up
+  const cgstAmount = roundAmount(taxAmount / 2);
+  return {
+    taxableValue,
+    cgstAmount,
+    sgstAmount: roundAmount(taxAmount - cgstAmount),
+    igstAmount: 0,
+    taxAmount,
+  };
+}
+
+/**
+ * Decides the place of supply and tax type for a buyer
+ */
+function resolveSupply(
+  supplierStateCode: string | null,
+  buyerStateCode: string | null
+): { placeOfSupply: string | null; taxType: GstTaxType } {
+  const placeOfSupply = buyerStateCode ?? supplierStateCode;
+  return {
+    placeOfSupply,
+    taxType:
+      supplierStateCode && placeOfSupply === supplierStateCode ? "intra_state" : "inter_state",
+  };
+}
+
+/**
+ * Calculates the GST breakdown of a project invoice
+ * Discounts are shown as negative taxable lines so the lines add up to the
+ * taxable value, and the total always equals the amount paid.
+ * @param input - Gross price, discounts and the supplier / buyer states
+ * @returns Line items and tax amounts
+ */
+export function calculateGstInvoice(input: GstInvoiceInput): GstBreakdown {
+  const rate = input.rate ?? GST_CONFIG.DEFAULT_RATE;
+  const sacCode = input.sacCode ?? GST_CONFIG.DEFAULT_SAC_CODE;
+  const { placeOfSupply, taxType } = resolveSupply(input.supplierStateCode, input.buyerStateCode);
+
+  const discounts = (input.discounts || []).filter((discount) => discount.amount > 0);
+  const discountTotal = Math.min(
+    roundAmount(discounts.reduce((sum, discount) => sum + discount.amount, 0)),
+    input.grossAmount
+  );
+  const totalAmount = roundAmount(input.grossAmount - discountTotal);
+  const split = splitInclusiveAmount(totalAmount, rate, taxType);
+
+  const discountLines: GstLineItem[] = discounts.map((discount) => ({
+    description: discount.description,
+    sacCode,
+    amount: -roundAmount(discount.amount / (1 + rate / 100)),
+  }));
+  const discountAmount = roundAmount(-discountLines.reduce((sum, line) => sum + line.amount, 0));
+
+  return {
+    taxType,
+    placeOfSupply,
+    rate,
+    sacCode,
+    lineItems: [
+      // The service line absorbs rounding so the lines sum to the taxable value
+      { description: input.description, sacCode, amount: roundAmount(split.taxableValue + discountAmount) },
+      ...discountLines,
+    ],
+    discountAmount,
+    ...split,
+    totalAmount,
+  };
+}
+
+/**
+ * Calculates a credit note against an invoice for a refunded amount
+ * Uses the invoice's rate, SAC and tax type so the reversal mirrors it.
+ * @param refundAmount - GST-inclusive amount refunded
+ * @param invoice - The invoice being credited
+ * @param description - Line description
+ */
+export function calculateGstCreditNote(
+  refundAmount: number,
+  invoice: Pick<GstBreakdown, "rate" | "sacCode" | "taxType" | "placeOfSupply" | "totalAmount">,
+  description: string
+): GstBreakdown {
+  const totalAmount = roundAmount(Math.min(refundAmount, invoice.totalAmount));
+  const split = splitInclusiveAmount(totalAmount, invoice.rate, invoice.taxType);
+
+  return {
+    taxType: invoice.taxType,
+    placeOfSupply: invoice.placeOfSupply,
+    rate: invoice.rate,
+    sacCode: invoice.sacCode,
+    lineItems: [{ description, sacCode: invoice.sacCode, amount: split.taxableValue }],
+    discountAmount: 0,
+    ...split,
+    totalAmount,
+  };
+}
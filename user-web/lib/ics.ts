@@ -0,0 +1,229 @@
+/**
+ * iCalendar (RFC 5545) builder for consultation invites and calendar feeds
+ * Pure string building so it can run in server actions and route handlers
+ */
+
+/**
+ * iTIP method of the calendar object (RFC 5546)
+ */
+export type CalendarMethod = "PUBLISH" | "REQUEST" | "CANCEL";
+
+export interface CalendarPerson {
+  name: string;
+  email?: string;
+}
+
+export interface CalendarEvent {
+  /** Stable across updates so clients replace the event instead of adding one */
+  uid: string;
+  /** Bumped on every reschedule and on cancellation */
+  sequence: number;
+  start: Date;
+  end: Date;
+  /** IANA zone the times are written in; zones without a VTIMEZONE fall back to UTC */
+  timeZone?: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  status: "CONFIRMED" | "CANCELLED";
+  organizer?: CalendarPerson;
+  attendees?: CalendarPerson[];
+  /** Last change to the event (DTSTAMP / LAST-MODIFIED) */
+  updatedAt: Date;
+}
+
+export interface CalendarOptions {
+  method?: CalendarMethod;
+  /** Shown by clients that subscribe to a feed */
+  name?: string;
+  /** How often subscribed clients should refetch a feed */
+  refreshIntervalHours?: number;
+  events: CalendarEvent[];
+}
+
+const PRODUCT_ID = "-//AssignX//Expert Consultations//EN";
+
+/**
+ * VTIMEZONE components for the zones bookings are made in.
+ * India has no daylight saving, so a single STANDARD block covers all dates.
+ */
+const VTIMEZONES: Record<string, string[]> = {
+  "Asia/Kolkata": [
+    "BEGIN:VTIMEZONE",
+    "TZID:Asia/Kolkata",
+    "X-LIC-LOCATION:Asia/Kolkata",
+    "BEGIN:STANDARD",
+    "DTSTART:19700101T000000",
+    "TZOFFSETFROM:+0530",
+    "TZOFFSETTO:+0530",
+    "TZNAME:IST",
+    "END:STANDARD",
+    "END:VTIMEZONE",
+  ],
+};
+
+/**
+ * Escapes a TEXT value (RFC 5545 §3.3.11)
+ */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Folds a content line at 75 octets without splitting a UTF-8 character (§3.1)
+ */
+export function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  // Continuation lines start with a space, which counts towards their 75 octets
+  let limit = 75;
+
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+      limit = 74;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+/**
+ * Formats an instant as a UTC DATE-TIME (e.g. 20261019T043000Z)
+ */
+export function formatUtcDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * Formats an instant as the local DATE-TIME in a zone (e.g. 20261019T100000)
+ */
+export function formatLocalDateTime(date: Date, timeZone: string): string {
+  const parts = new Intl.DateTimeFormat("en-GB", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(date);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((part) => part.type === type)?.value ?? "00";
+
+  return `${get("year")}${get("month")}${get("day")}T${get("hour")}${get("minute")}${get("second")}`;
+}
+
+/**
+ * Whether event times in this zone are written with a TZID
+ */
+export function hasTimeZoneDefinition(timeZone: string | undefined): timeZone is string {
+  return !!timeZone && timeZone in VTIMEZONES;
+}
+
+function dateTimeProperty(name: string, date: Date, timeZone: string | undefined): string {
+  return hasTimeZoneDefinition(timeZone)
+    ? `${name};TZID=${timeZone}:${formatLocalDateTime(date, timeZone)}`
+    : `${name}:${formatUtcDateTime(date)}`;
+}
+
+function personParams(person: CalendarPerson): string {
+  // CN is a quoted parameter value, which cannot contain DQUOTE
+  return `CN="${person.name.replace(/"/g, "'")}"`;
+}
+
+function eventLines(event: CalendarEvent, method: CalendarMethod): string[] {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${formatUtcDateTime(event.updatedAt)}`,
+    `LAST-MODIFIED:${formatUtcDateTime(event.updatedAt)}`,
+    dateTimeProperty("DTSTART", event.start, event.timeZone),
+    dateTimeProperty("DTEND", event.end, event.timeZone),
+    `SUMMARY:${escapeText(event.summary)}`,
+    `STATUS:${event.status}`,
+    "TRANSP:OPAQUE",
+  ];
+
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+
+  if (event.organizer?.email) {
+    lines.push(`ORGANIZER;${personParams(event.organizer)}:mailto:${event.organizer.email}`);
+  }
+
+  for (const attendee of event.attendees ?? []) {
+    if (!attendee.email) continue;
+    const partstat = method === "CANCEL" ? "DECLINED" : "ACCEPTED";
+    lines.push(
+      `ATTENDEE;${personParams(attendee)};ROLE=REQ-PARTICIPANT;PARTSTAT=${partstat}:mailto:${attendee.email}`
+    );
+  }
+
+  if (event.status === "CONFIRMED") {
+    lines.push(
+      "BEGIN:VALARM",
+      "ACTION:DISPLAY",
+      `DESCRIPTION:${escapeText(event.summary)}`,
+      "TRIGGER:-PT15M",
+      "END:VALARM"
+    );
+  }
+
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+/**
+ * Builds a VCALENDAR object with CRLF line endings
+ * @param options - Method, feed name and events
+ */
+export function buildCalendar({
+  method = "PUBLISH",
+  name,
+  refreshIntervalHours,
+  events,
+}: CalendarOptions): string {
+  const lines = ["BEGIN:VCALENDAR", "VERSION:2.0", `PRODID:${PRODUCT_ID}`, "CALSCALE:GREGORIAN", `METHOD:${method}`];
+
+  if (name) {
+    lines.push(`NAME:${escapeText(name)}`, `X-WR-CALNAME:${escapeText(name)}`);
+  }
+  if (refreshIntervalHours) {
+    lines.push(
+      `REFRESH-INTERVAL;VALUE=DURATION:PT${refreshIntervalHours}H`,
+      `X-PUBLISHED-TTL:PT${refreshIntervalHours}H`
+    );
+  }
+
+  const zones = new Set(events.map((event) => event.timeZone).filter(hasTimeZoneDefinition));
+  for (const zone of zones) {
+    lines.push(...VTIMEZONES[zone]);
+  }
+
+  for (const event of events) {
+    lines.push(...eventLines(event, method));
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
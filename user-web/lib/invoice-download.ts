@@ -0,0 +1,39 @@
+/**
+ * Browser download of invoice / credit note PDFs from /api/invoices/[projectId]
+ */
+
+/**
+ * Downloads a project's invoice or credit note
+ * @param projectId - The project UUID
+ * @param type - Tax invoice (default) or the credit note for its refund
+ * @returns The downloaded file name
+ * @throws When the document is not available
+ */
+export async function downloadInvoice(
+  projectId: string,
+  type: "invoice" | "credit_note" = "invoice"
+): Promise<string> {
+  const response = await fetch(
+    `/api/invoices/${projectId}${type === "credit_note" ? "?type=credit_note" : ""}`
+  );
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || "Failed to download invoice");
+  }
+
+  const fileName =
+    response.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] ||
+    `${type === "credit_note" ? "CreditNote" : "Invoice"}.pdf`;
+
+  const url = window.URL.createObjectURL(await response.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(url);
+
+  return fileName;
+}
@@ -0,0 +1,587 @@
+/**
+ * GST invoices and credit notes for project payments
+ *
+ * Invoices are issued once when a project payment is confirmed (payment
+ * verify / wallet-pay / partial-pay routes and the Razorpay webhook) and a
+ * credit note is issued for every refund. Numbers come from the issue_invoice
+ * RPC; the PDF is rendered here and kept in the private "invoices" bucket.
+ *
+ * Issuing never throws: a failure is logged and the invoice is issued on its
+ * first download instead, so payments are never blocked by invoicing.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  GST_CONFIG,
+  calculateGstCreditNote,
+  calculateGstInvoice,
+  formatPlaceOfSupply,
+  gstinStateCode,
+  toGstStateCode,
+  type GstBreakdown,
+  type GstLineItem,
+  type GstTaxType,
+} from "@/lib/gst";
+import { A4, buildPdf, createPage, drawLine, drawText, fillRect, wrapText, type PdfPage } from "@/lib/pdf";
+import { getChargedAmounts, totalCharged } from "@/lib/project-charges";
+
+/**
+ * Storage bucket holding the rendered PDFs
+ */
+export const INVOICE_BUCKET = "invoices";
+
+export type InvoiceDocumentType = "invoice" | "credit_note";
+
+/**
+ * Invoice row as issued by issue_invoice
+ */
+export interface InvoiceRecord {
+  id: string;
+  invoice_number: string;
+  document_type: InvoiceDocumentType;
+  user_id: string;
+  project_id: string | null;
+  original_invoice_id: string | null;
+  refund_id: string | null;
+  payment_reference: string | null;
+  invoice_date: string;
+  subtotal: number;
+  discount_amount: number | null;
+  tax_rate: number | null;
+  tax_type: GstTaxType | null;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+  tax_amount: number | null;
+  total_amount: number;
+  hsn_sac: string | null;
+  supplier_state: string | null;
+  place_of_supply: string | null;
+  line_items: GstLineItem[];
+  billing_details: InvoiceBillingDetails;
+  status: string | null;
+  pdf_url: string | null;
+}
+
+/**
+ * Supplier and buyer details as they were when the document was issued
+ */
+export interface InvoiceBillingDetails {
+  supplier: {
+    name: string;
+    gstin: string | null;
+    address: string | null;
+  };
+  buyer: {
+    name: string;
+    email: string | null;
+    phone: string | null;
+    city: string | null;
+    state: string | null;
+  };
+  project?: {
+    number: string;
+    title: string;
+  };
+  payment?: {
+    method: string;
+    paidAt: string | null;
+  };
+  /** Credit notes only */
+  originalInvoice?: {
+    number: string;
+    date: string;
+  };
+  reason?: string | null;
+}
+
+export const INVOICE_COLUMNS =
+  "id, invoice_number, document_type, user_id, project_id, original_invoice_id, refund_id, payment_reference, invoice_date, subtotal, discount_amount, tax_rate, tax_type, cgst_amount, sgst_amount, igst_amount, tax_amount, total_amount, hsn_sac, supplier_state, place_of_supply, line_items, billing_details, status, pdf_url";
+
+/**
+ * Service type labels printed on the invoice
+ */
+const SERVICE_LABELS: Record<string, string> = {
+  new_project: "Project Support",
+  proofreading: "Proofreading Service",
+  plagiarism_check: "Plagiarism Check",
+  ai_detection: "AI Detection Report",
+  expert_opinion: "Expert Consultation",
+};
+
+/**
+ * Supplier details from the environment
+ */
+function getSupplier(): InvoiceBillingDetails["supplier"] & { stateCode: string | null; sacCode: string } {
+  const gstin = process.env.INVOICE_SUPPLIER_GSTIN?.trim().toUpperCase() || null;
+  return {
+    name: process.env.INVOICE_SUPPLIER_NAME || "AssignX",
+    gstin,
+    address: process.env.INVOICE_SUPPLIER_ADDRESS || null,
+    stateCode: gstinStateCode(gstin),
+    sacCode: process.env.INVOICE_SAC_CODE || GST_CONFIG.DEFAULT_SAC_CODE,
+  };
+}
+
+/**
+ * Calls issue_invoice with a calculated breakdown
+ */
+async function issueDocument(
+  admin: SupabaseClient,
+  params: {
+    documentType: InvoiceDocumentType;
+    userId: string;
+    projectId: string;
+    paymentId?: string | null;
+    paymentReference?: string | null;
+    originalInvoiceId?: string | null;
+    refundId?: string | null;
+    breakdown: GstBreakdown;
+    supplierStateCode: string | null;
+    billingDetails: InvoiceBillingDetails;
+  }
+): Promise<InvoiceRecord> {
+  const { breakdown } = params;
+
+  const { data, error } = await admin.rpc("issue_invoice", {
+    p_document_type: params.documentType,
+    p_user_id: params.userId,
+    p_project_id: params.projectId,
+    p_payment_id: params.paymentId ?? null,
+    p_payment_reference: params.paymentReference ?? null,
+    p_original_invoice_id: params.originalInvoiceId ?? null,
+    p_refund_id: params.refundId ?? null,
+    p_subtotal: breakdown.taxableValue,
+    p_discount_amount: breakdown.discountAmount,
+    p_tax_rate: breakdown.rate,
+    p_tax_type: breakdown.taxType,
+    p_cgst_amount: breakdown.cgstAmount,
+    p_sgst_amount: breakdown.sgstAmount,
+    p_igst_amount: breakdown.igstAmount,
+    p_tax_amount: breakdown.taxAmount,
+    p_total_amount: breakdown.totalAmount,
+    p_hsn_sac: breakdown.sacCode,
+    p_supplier_state: params.supplierStateCode,
+    p_place_of_supply: breakdown.placeOfSupply,
+    p_line_items: breakdown.lineItems,
+    p_billing_details: params.billingDetails,
+  });
+
+  if (error) {
+    throw new Error(`issue_invoice failed: ${error.message}`);
+  }
+
+  const { data: invoice, error: fetchError } = await admin
+    .from("invoices")
+    .select(INVOICE_COLUMNS)
+    .eq("id", data.invoice_id)
+    .single();
+
+  if (fetchError || !invoice) {
+    throw new Error(`Failed to load invoice ${data.invoice_id}: ${fetchError?.message}`);
+  }
+
+  const record = invoice as unknown as InvoiceRecord;
+  if (!record.pdf_url) {
+    await storeInvoicePdf(admin, record);
+  }
+  return record;
+}
+
+/**
+ * Issues the tax invoice for a paid project (no-op if it already has one)
+ * @param admin - Service role client
+ * @param projectId - The paid project
+ * @returns The invoice, or null if the project is unpaid or issuing failed
+ */
+export async function issueProjectInvoice(
+  admin: SupabaseClient,
+  projectId: string
+): Promise<InvoiceRecord | null> {
+  try {
+    const { data: existing } = await admin
+      .from("invoices")
+      .select(INVOICE_COLUMNS)
+      .eq("project_id", projectId)
+      .eq("document_type", "invoice")
+      .maybeSingle();
+
+    if (existing) return existing as unknown as InvoiceRecord;
+
+    const { data: project } = await admin
+      .from("projects")
+      .select(
+        "id, user_id, project_number, title, service_type, subject_id, is_paid, user_quote, payment_id, paid_at, quotes:project_quotes (user_amount, status)"
+      )
+      .eq("id", projectId)
+      .maybeSingle();
+
+    if (!project?.is_paid) return null;
+
+    const [charged, profileResult, referralResult, guideResult] = await Promise.all([
+      getChargedAmounts(admin, project),
+      admin
+        .from("profiles")
+        .select("full_name, email, phone, city, state")
+        .eq("id", project.user_id)
+        .maybeSingle(),
+      admin
+        .from("referral_usage")
+        .select("discount_applied, referral_codes (code)")
+        .eq("project_id", projectId)
+        .order("used_at", { ascending: true }),
+      admin
+        .from("pricing_guides")
+        .select("gst_percentage")
+        .eq("service_type", project.service_type)
+        .eq("is_active", true)
+        .or(project.subject_id ? `subject_id.eq.${project.subject_id},subject_id.is.null` : "subject_id.is.null")
+        .order("subject_id", { ascending: true, nullsFirst: false })
+        .limit(1)
+        .maybeSingle(),
+    ]);
+
+    const profile = profileResult.data;
+    const supplier = getSupplier();
+    const serviceLabel = SERVICE_LABELS[project.service_type] || "Academic Support Service";
+
+    // Referral discounts were taken off before payment, so the gross is paid + discounts
+    const discounts = (referralResult.data || []).map((usage) => ({
+      description: `Referral discount (${(usage.referral_codes as unknown as { code: string } | null)?.code || "code"})`,
+      amount: Number(usage.discount_applied),
+    }));
+    const amountPaid = totalCharged(charged, project);
+    const grossAmount = amountPaid + discounts.reduce((sum, discount) => sum + discount.amount, 0);
+
+    const breakdown = calculateGstInvoice({
+      description: `${serviceLabel} - ${project.title} (${project.project_number})`,
+      grossAmount,
+      discounts,
+      rate: guideResult.data?.gst_percentage != null ? Number(guideResult.data.gst_percentage) : undefined,
+      sacCode: supplier.sacCode,
+      supplierStateCode: supplier.stateCode,
+      buyerStateCode: toGstStateCode(profile?.state),
+    });
+
+    return await issueDocument(admin, {
+      documentType: "invoice",
+      userId: project.user_id,
+      projectId,
+      paymentId: charged.paymentRecordId,
+      paymentReference: charged.razorpayPaymentId ?? project.payment_id,
+      breakdown,
+      supplierStateCode: supplier.stateCode,
+      billingDetails: {
+        supplier: { name: supplier.name, gstin: supplier.gstin, address: supplier.address },
+        buyer: {
+          name: profile?.full_name || "Customer",
+          email: profile?.email ?? null,
+          phone: profile?.phone ?? null,
+          city: profile?.city ?? null,
+          state: profile?.state ?? null,
+        },
+        project: { number: project.project_number, title: project.title },
+        payment: {
+          method:
+            charged.walletAmount > 0 && charged.razorpayAmount > 0
+              ? "Wallet + Razorpay"
+              : charged.walletAmount > 0
+                ? "Wallet"
+                : "Razorpay",
+          paidAt: project.paid_at,
+        },
+      },
+    });
+  } catch (error) {
+    console.error("[issueProjectInvoice] Error:", error);
+    return null;
+  }
+}
+
+/**
+ * Issues the credit note for a project refund (no-op if it already has one)
+ * @param admin - Service role client
+ * @param refundId - project_refunds row
+ * @returns The credit note, or null if nothing was refunded or issuing failed
+ */
+export async function issueRefundCreditNote(
+  admin: SupabaseClient,
+  refundId: string
+): Promise<InvoiceRecord | null> {
+  try {
+    const { data: refund } = await admin
+      .from("project_refunds")
+      .select("id, project_id, profile_id, refund_amount, reason")
+      .eq("id", refundId)
+      .maybeSingle();
+
+    if (!refund || Number(refund.refund_amount) <= 0) return null;
+
+    const invoice = await issueProjectInvoice(admin, refund.project_id);
+    if (!invoice) {
+      throw new Error(`No invoice to credit for project ${refund.project_id}`);
+    }
+
+    const breakdown = calculateGstCreditNote(
+      Number(refund.refund_amount),
+      {
+        rate: Number(invoice.tax_rate ?? GST_CONFIG.DEFAULT_RATE),
+        sacCode: invoice.hsn_sac || GST_CONFIG.DEFAULT_SAC_CODE,
+        taxType: invoice.tax_type || "inter_state",
+        placeOfSupply: invoice.place_of_supply,
+        totalAmount: Number(invoice.total_amount),
+      },
+      `Refund on cancellation - ${invoice.billing_details.project?.title ?? "project"} (${invoice.billing_details.project?.number ?? ""})`
+    );
+
+    return await issueDocument(admin, {
+      documentType: "credit_note",
+      userId: refund.profile_id,
+      projectId: refund.project_id,
+      paymentReference: invoice.payment_reference,
+      originalInvoiceId: invoice.id,
+      refundId: refund.id,
+      breakdown,
+      supplierStateCode: invoice.supplier_state,
+      billingDetails: {
+        ...invoice.billing_details,
+        payment: undefined,
+        originalInvoice: { number: invoice.invoice_number, date: invoice.invoice_date },
+        reason: refund.reason,
+      },
+    });
+  } catch (error) {
+    console.error("[issueRefundCreditNote] Error:", error);
+    return null;
+  }
+}
+
+/**
+ * Formats rupees for the PDF (the standard fonts have no ₹ glyph)
+ */
+function formatRupees(amount: number): string {
+  const formatted = Math.abs(amount).toLocaleString("en-IN", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+  return `${amount < 0 ? "- " : ""}Rs. ${formatted}`;
+}
+
+/**
+ * Formats a date as "19 Oct 2026" in IST
+ */
+function formatInvoiceDate(date: string): string {
+  return new Intl.DateTimeFormat("en-IN", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    timeZone: "Asia/Kolkata",
+  }).format(new Date(date));
+}
+
+/**
+ * Renders an invoice or credit note as a one-page A4 PDF
+ * @param invoice - The issued document
+ * @returns PDF bytes
+ */
+export function renderInvoicePdf(invoice: InvoiceRecord): Buffer {
+  const page: PdfPage = createPage(A4);
+  const left = 48;
+  const right = A4.width - 48;
+  const muted = "#6b7280";
+  const text = "#111827";
+  const isCreditNote = invoice.document_type === "credit_note";
+  const { supplier, buyer, project, payment, originalInvoice, reason } = invoice.billing_details;
+
+  // Header
+  drawText(page, supplier.name, left, 70, { size: 22, font: "bold", color: "#6366f1" });
+  drawText(page, isCreditNote ? "CREDIT NOTE" : "TAX INVOICE", right, 62, {
+    size: 16,
+    font: "bold",
+    color: text,
+    align: "right",
+  });
+  drawText(page, invoice.invoice_number, right, 80, { size: 10, color: text, align: "right" });
+  drawText(page, `Date: ${formatInvoiceDate(invoice.invoice_date)}`, right, 94, {
+    size: 9,
+    color: muted,
+    align: "right",
+  });
+  drawLine(page, left, 108, right, 108, { width: 1.5, color: "#6366f1" });
+
+  // Supplier and buyer
+  let y = 130;
+  drawText(page, "FROM", left, y, { size: 8, font: "bold", color: muted });
+  drawText(page, "BILL TO", 320, y, { size: 8, font: "bold", color: muted });
+
+  const supplierLines = [
+    supplier.name,
+    ...(supplier.address ? wrapText(supplier.address, 240, 9) : []),
+    `GSTIN: ${supplier.gstin || "Not registered"}`,
+    `State: ${formatPlaceOfSupply(invoice.supplier_state)}`,
+  ];
+  const buyerLines = [
+    buyer.name,
+    buyer.email,
+    buyer.phone,
+    [buyer.city, buyer.state].filter(Boolean).join(", ") || null,
+    "GSTIN: Unregistered",
+    `Place of supply: ${formatPlaceOfSupply(invoice.place_of_supply)}`,
+  ].filter((line): line is string => !!line);
+
+  supplierLines.forEach((line, index) => {
+    drawText(page, line, left, y + 16 + index * 13, {
+      size: 9,
+      font: index === 0 ? "bold" : "regular",
+      color: text,
+    });
+  });
+  buyerLines.forEach((line, index) => {
+    drawText(page, line, 320, y + 16 + index * 13, {
+      size: 9,
+      font: index === 0 ? "bold" : "regular",
+      color: text,
+    });
+  });
+  y += 16 + Math.max(supplierLines.length, buyerLines.length) * 13 + 10;
+
+  if (isCreditNote && originalInvoice) {
+    drawText(
+      page,
+      `Against invoice ${originalInvoice.number} dated ${formatInvoiceDate(originalInvoice.date)}`,
+      left,
+      y,
+      { size: 9, font: "bold", color: text }
+    );
+    y += 13;
+    if (reason) {
+      for (const line of wrapText(`Reason: ${reason}`, right - left, 9)) {
+        drawText(page, line, left, y, { size: 9, color: muted });
+        y += 13;
+      }
+    }
+    y += 6;
+  }
+
+  // Line items
+  fillRect(page, left, y, right - left, 22, "#f3f4f6");
+  drawText(page, "DESCRIPTION", left + 8, y + 14, { size: 8, font: "bold", color: muted });
+  drawText(page, "SAC", 400, y + 14, { size: 8, font: "bold", color: muted });
+  drawText(page, "TAXABLE VALUE", right - 8, y + 14, { size: 8, font: "bold", color: muted, align: "right" });
+  y += 22;
+
+  for (const item of invoice.line_items) {
+    const lines = wrapText(item.description, 330, 9);
+    lines.forEach((line, index) => {
+      drawText(page, line, left + 8, y + 16 + index * 12, { size: 9, color: text });
+    });
+    drawText(page, item.sacCode, 400, y + 16, { size: 9, color: text });
+    drawText(page, formatRupees(item.amount), right - 8, y + 16, { size: 9, color: text, align: "right" });
+    y += 12 + lines.length * 12;
+    drawLine(page, left, y, right, y, { color: "#e5e7eb" });
+  }
+
+  // Totals
+  const rate = Number(invoice.tax_rate ?? GST_CONFIG.DEFAULT_RATE);
+  const totals: [string, number][] = [["Taxable value", Number(invoice.subtotal)]];
+  if (invoice.tax_type === "intra_state") {
+    totals.push([`CGST @ ${rate / 2}%`, Number(invoice.cgst_amount)]);
+    totals.push([`SGST @ ${rate / 2}%`, Number(invoice.sgst_amount)]);
+  } else {
+    totals.push([`IGST @ ${rate}%`, Number(invoice.igst_amount)]);
+  }
+
+  y += 20;
+  for (const [label, amount] of totals) {
+    drawText(page, label, 360, y, { size: 9, color: muted });
+    drawText(page, formatRupees(amount), right - 8, y, { size: 9, color: text, align: "right" });
+    y += 15;
+  }
+  drawLine(page, 360, y - 6, right, y - 6, { width: 1, color: text });
+  drawText(page, isCreditNote ? "Total credited" : "Total", 360, y + 10, { size: 11, font: "bold", color: text });
+  drawText(page, formatRupees(Number(invoice.total_amount)), right - 8, y + 10, {
+    size: 11,
+    font: "bold",
+    color: text,
+    align: "right",
+  });
+  y += 40;
+
+  // Payment and declarations
+  if (payment) {
+    const paidOn = payment.paidAt ? ` on ${formatInvoiceDate(payment.paidAt)}` : "";
+    drawText(page, `Paid via ${payment.method}${paidOn}`, left, y, { size: 9, color: text });
+    y += 13;
+    if (invoice.payment_reference) {
+      drawText(page, `Payment reference: ${invoice.payment_reference}`, left, y, { size: 9, color: muted });
+      y += 13;
+    }
+  }
+  if (project) {
+    drawText(page, `Project: ${project.number}`, left, y, { size: 9, color: muted });
+    y += 13;
+  }
+  drawText(page, "Tax payable on reverse charge: No", left, y, { size: 9, color: muted });
+
+  drawLine(page, left, A4.height - 70, right, A4.height - 70, { color: "#e5e7eb" });
+  drawText(page, "This is a computer generated document and does not require a signature.", A4.width / 2, A4.height - 54, {
+    size: 8,
+    color: muted,
+    align: "center",
+  });
+  drawText(page, "Questions? Contact support@assignx.com", A4.width / 2, A4.height - 42, {
+    size: 8,
+    color: muted,
+    align: "center",
+  });
+
+  return buildPdf([page], {
+    title: `${isCreditNote ? "Credit Note" : "Invoice"} ${invoice.invoice_number}`,
+    author: supplier.name,
+  });
+}
+
+/**
+ * File name of a document, e.g. INV-26-27-000001.pdf
+ */
+export function invoiceFileName(invoice: Pick<InvoiceRecord, "invoice_number">): string {
+  return `${invoice.invoice_number.replace(/\//g, "-")}.pdf`;
+}
+
+/**
+ * Renders a document and saves it to storage, recording the path in pdf_url
+ * @param admin - Service role client
+ * @param invoice - The issued document
+ * @returns The PDF bytes
+ */
+export async function storeInvoicePdf(admin: SupabaseClient, invoice: InvoiceRecord): Promise<Buffer> {
+  const pdf = renderInvoicePdf(invoice);
+  const path = `${invoice.user_id}/${invoiceFileName(invoice)}`;
+
+  const { error } = await admin.storage.from(INVOICE_BUCKET).upload(path, pdf, {
+    contentType: "application/pdf",
+    upsert: true,
+  });
+
+  if (error) {
+    console.error("[storeInvoicePdf] Upload error:", error);
+    return pdf;
+  }
+
+  await admin.from("invoices").update({ pdf_url: path }).eq("id", invoice.id);
+  invoice.pdf_url = path;
+  return pdf;
+}
+
+/**
+ * Returns the stored PDF of a document, rendering it if it was never stored
+ * @param admin - Service role client
+ * @param invoice - The issued document
+ */
+export async function getInvoicePdf(admin: SupabaseClient, invoice: InvoiceRecord): Promise<Buffer> {
+  if (invoice.pdf_url) {
+    const { data } = await admin.storage.from(INVOICE_BUCKET).download(invoice.pdf_url);
+    if (data) return Buffer.from(await data.arrayBuffer());
+  }
+  return storeInvoicePdf(admin, invoice);
+}
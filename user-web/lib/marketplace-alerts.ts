@@ -0,0 +1,184 @@
+/**
+ * Alerts for marketplace saved searches
+ * Sends the rows the match trigger left in marketplace_saved_search_matches
+ * (20261019_018_marketplace_saved_searches.sql) through the notification
+ * outbox: one push per listing for instant searches, one digest a day for
+ * daily searches.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { dispatchNotification } from "@/lib/notifications/outbox";
+
+/**
+ * Alerts worker configuration
+ */
+export const SAVED_SEARCH_ALERT_CONFIG = {
+  /** Pending matches read per run */
+  BATCH_SIZE: 500,
+  /** Minimum gap between two digests of the same search */
+  DIGEST_INTERVAL_MS: 24 * 60 * 60 * 1000,
+  /** Listing titles named in a digest */
+  DIGEST_TITLES: 3,
+} as const;
+
+/**
+ * Outcome of one alerts run
+ */
+export interface SavedSearchAlertSummary {
+  /** Instant alerts dispatched */
+  instant: number;
+  /** Digests dispatched */
+  digests: number;
+  /** Matches dropped: alerts off, or the listing is no longer live */
+  dropped: number;
+  /** Matches held for a later digest */
+  held: number;
+}
+
+interface PendingMatch {
+  search_id: string;
+  listing_id: string;
+  search: {
+    id: string;
+    profile_id: string;
+    name: string;
+    alert_mode: "instant" | "daily" | "off";
+    last_digest_at: string | null;
+  } | null;
+  listing: {
+    id: string;
+    title: string;
+    price: number | null;
+    status: string;
+  } | null;
+}
+
+function formatPrice(price: number | null): string {
+  return price ? ` · ₹${Number(price).toLocaleString("en-IN")}` : "";
+}
+
+async function markNotified(
+  admin: SupabaseClient,
+  searchId: string,
+  listingIds: string[],
+  now: Date
+): Promise<void> {
+  if (listingIds.length === 0) return;
+
+  const { error } = await admin
+    .from("marketplace_saved_search_matches")
+    .update({ notified_at: now.toISOString() })
+    .eq("search_id", searchId)
+    .in("listing_id", listingIds);
+
+  if (error) throw error;
+}
+
+/**
+ * Sends pending saved search alerts. Event keys are per search and listing
+ * (or per search and day for digests), so overlapping runs don't double send.
+ * @param admin - Service role client
+ */
+export async function processSavedSearchAlerts(
+  admin: SupabaseClient,
+  options: { limit?: number; now?: Date } = {}
+): Promise<SavedSearchAlertSummary> {
+  const now = options.now ?? new Date();
+  const summary: SavedSearchAlertSummary = { instant: 0, digests: 0, dropped: 0, held: 0 };
+
+  const { data, error } = await admin
+    .from("marketplace_saved_search_matches")
+    .select(`
+      search_id,
+      listing_id,
+      search:marketplace_saved_searches(id, profile_id, name, alert_mode, last_digest_at),
+      listing:marketplace_listings(id, title, price, status)
+    `)
+    .is("notified_at", null)
+    .order("matched_at", { ascending: true })
+    .limit(options.limit ?? SAVED_SEARCH_ALERT_CONFIG.BATCH_SIZE);
+
+  if (error) throw error;
+
+  const bySearch = new Map<string, PendingMatch[]>();
+  for (const match of (data || []) as unknown as PendingMatch[]) {
+    const matches = bySearch.get(match.search_id) ?? [];
+    matches.push(match);
+    bySearch.set(match.search_id, matches);
+  }
+
+  for (const [searchId, matches] of bySearch) {
+    const search = matches[0].search;
+    const live = matches.filter((match) => match.listing?.status === "active");
+    const stale = matches.filter((match) => match.listing?.status !== "active");
+
+    if (!search || search.alert_mode === "off") {
+      await markNotified(admin, searchId, matches.map((match) => match.listing_id), now);
+      summary.dropped += matches.length;
+      continue;
+    }
+
+    await markNotified(admin, searchId, stale.map((match) => match.listing_id), now);
+    summary.dropped += stale.length;
+    if (live.length === 0) continue;
+
+    if (search.alert_mode === "instant") {
+      for (const { listing } of live) {
+        if (!listing) continue;
+        await dispatchNotification(admin, {
+          eventKey: `saved-search:${searchId}:${listing.id}`,
+          profileId: search.profile_id,
+          category: "status",
+          title: `New match for "${search.name}"`,
+          body: `${listing.title}${formatPrice(listing.price)}`,
+          actionUrl: `/marketplace/${listing.id}`,
+          referenceType: "marketplace_listing",
+          referenceId: listing.id,
+          channels: ["in_app", "push"],
+        });
+        summary.instant++;
+      }
+      await markNotified(admin, searchId, live.map((match) => match.listing_id), now);
+      continue;
+    }
+
+    // Daily: hold matches until a day has passed since the last digest
+    const lastDigestAt = search.last_digest_at ? new Date(search.last_digest_at).getTime() : 0;
+    if (now.getTime() - lastDigestAt < SAVED_SEARCH_ALERT_CONFIG.DIGEST_INTERVAL_MS) {
+      summary.held += live.length;
+      continue;
+    }
+
+    const titles = live
+      .slice(0, SAVED_SEARCH_ALERT_CONFIG.DIGEST_TITLES)
+      .map((match) => match.listing?.title)
+      .join(", ");
+    const more = live.length - SAVED_SEARCH_ALERT_CONFIG.DIGEST_TITLES;
+
+    await dispatchNotification(admin, {
+      eventKey: `saved-search-digest:${searchId}:${now.toISOString().slice(0, 10)}`,
+      profileId: search.profile_id,
+      category: "status",
+      title:
+        live.length === 1
+          ? `1 new listing for "${search.name}"`
+          : `${live.length} new listings for "${search.name}"`,
+      body: more > 0 ? `${titles} and ${more} more` : titles,
+      actionUrl: "/connect",
+      referenceType: "marketplace_saved_search",
+      referenceId: searchId,
+      channels: ["in_app", "email", "push"],
+    });
+
+    const { error: digestError } = await admin
+      .from("marketplace_saved_searches")
+      .update({ last_digest_at: now.toISOString() })
+      .eq("id", searchId);
+    if (digestError) throw digestError;
+
+    await markNotified(admin, searchId, live.map((match) => match.listing_id), now);
+    summary.digests++;
+  }
+
+  return summary;
+}
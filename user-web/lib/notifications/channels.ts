@@ -0,0 +1,453 @@
+/**
+ * Channel senders for the notification outbox
+ * Each sender delivers one outbox row, returns "skipped" when there is nothing
+ * to deliver to, and throws (with a `status` / `statusCode`) when delivery fails
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import webpush from "web-push";
+import { getEmailTransport } from "@/lib/email/transport";
+import {
+  renderEmailTemplate,
+  type EmailTemplateData,
+  type EmailTemplateName,
+} from "@/lib/email/templates";
+import { env, features } from "@/lib/env";
+import type { NotificationCategory, NotificationChannel } from "@/lib/notifications/preferences";
+
+/**
+ * Extras for the push channel
+ */
+export interface PushPayload {
+  tag?: string;
+  icon?: string;
+  badge?: string;
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Extras for the WhatsApp channel: an approved template, or free text
+ * (only delivered inside WhatsApp's 24 hour customer service window)
+ */
+export interface WhatsAppPayload {
+  /** Overrides the profile's phone number */
+  phone?: string;
+  template?: string;
+  params?: Record<string, string>;
+  text?: string;
+}
+
+/**
+ * Extras for the email channel: a template from lib/email/templates.ts with
+ * its data; without one the title and body go out in the generic layout
+ */
+export type EmailPayload = {
+  /** Overrides the profile's email address */
+  to?: string;
+} & Partial<{ [K in EmailTemplateName]: { template: K; data: EmailTemplateData[K] } }[EmailTemplateName]>;
+
+export interface OutboxPayload {
+  push?: PushPayload;
+  whatsApp?: WhatsAppPayload;
+  email?: EmailPayload;
+}
+
+/**
+ * A claimed notification_outbox row
+ */
+export interface OutboxRow {
+  id: string;
+  event_key: string;
+  channel: NotificationChannel;
+  profile_id: string;
+  category: NotificationCategory;
+  notification_type: string;
+  title: string;
+  body: string;
+  action_url: string | null;
+  reference_type: string | null;
+  reference_id: string | null;
+  payload: OutboxPayload | null;
+  bypass_quiet_hours: boolean;
+  status: string;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  expires_at: string | null;
+  locked_at: string | null;
+  last_error: string | null;
+  sent_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type DeliveryResult =
+  | { status: "sent"; messageId?: string }
+  | { status: "skipped"; reason: string };
+
+/**
+ * WhatsApp Cloud API
+ */
+const WHATSAPP_API_URL = "https://graph.facebook.com/v18.0";
+
+/**
+ * WhatsApp template names mapping
+ */
+export const WHATSAPP_TEMPLATES: Record<string, { name: string; language: string }> = {
+  quote_ready: { name: "quote_ready_notification", language: "en" },
+  payment_received: { name: "payment_confirmed", language: "en" },
+  project_started: { name: "project_started", language: "en" },
+  project_delivered: { name: "project_delivered", language: "en" },
+  revision_requested: { name: "revision_in_progress", language: "en" },
+  project_completed: { name: "project_completed", language: "en" },
+  auto_approval_reminder: { name: "review_reminder", language: "en" },
+  new_message: { name: "new_message", language: "en" },
+};
+
+const VAPID_EMAIL = env.VAPID_EMAIL || "mailto:support@assignx.com";
+
+// Configure web-push if feature is enabled
+if (features.pushNotifications && env.NEXT_PUBLIC_VAPID_PUBLIC_KEY && env.VAPID_PRIVATE_KEY) {
+  webpush.setVapidDetails(VAPID_EMAIL, env.NEXT_PUBLIC_VAPID_PUBLIC_KEY, env.VAPID_PRIVATE_KEY);
+}
+
+/**
+ * Error carrying an HTTP status so withRetry can tell transient from permanent failures
+ */
+function deliveryError(message: string, status?: number): Error {
+  const error = new Error(message);
+  if (status) {
+    (error as unknown as { status: number }).status = status;
+  }
+  return error;
+}
+
+/**
+ * In-app: a row in notifications (picked up by the realtime subscription)
+ */
+async function deliverInApp(admin: SupabaseClient, row: OutboxRow): Promise<DeliveryResult> {
+  const { data, error } = await admin
+    .from("notifications")
+    .insert({
+      profile_id: row.profile_id,
+      notification_type: row.notification_type,
+      title: row.title,
+      body: row.body,
+      reference_type: row.reference_type,
+      reference_id: row.reference_id,
+      action_url: row.action_url,
+    })
+    .select("id")
+    .single();
+
+  if (error) throw deliveryError(error.message, 503);
+  return { status: "sent", messageId: data.id };
+}
+
+/**
+ * Web push to every active subscription of the profile
+ */
+async function deliverPush(admin: SupabaseClient, row: OutboxRow): Promise<DeliveryResult> {
+  if (!features.pushNotifications) {
+    return { status: "skipped", reason: "Push not configured" };
+  }
+
+  const { data: subscriptions, error } = await admin
+    .from("push_subscriptions")
+    .select("id, endpoint, p256dh, auth")
+    .eq("profile_id", row.profile_id)
+    .eq("is_active", true);
+
+  if (error) throw deliveryError(error.message, 503);
+  if (!subscriptions || subscriptions.length === 0) {
+    return { status: "skipped", reason: "No active subscriptions" };
+  }
+
+  const push = row.payload?.push;
+  const notificationPayload = JSON.stringify({
+    title: row.title || "AssignX",
+    body: row.body,
+    icon: push?.icon || "/icons/icon-192.png",
+    badge: push?.badge || "/icons/badge-72.png",
+    tag: push?.tag || row.event_key,
+    data: { url: row.action_url, ...push?.data },
+    timestamp: Date.now(),
+  });
+
+  const results = await Promise.allSettled(
+    subscriptions.map(async (sub) => {
+      try {
+        await webpush.sendNotification(
+          { endpoint: sub.endpoint, keys: { p256dh: sub.p256dh, auth: sub.auth } },
+          notificationPayload
+        );
+      } catch (err: unknown) {
+        const statusCode = (err as { statusCode?: number }).statusCode;
+        // If subscription is invalid, mark it as inactive
+        if (statusCode === 404 || statusCode === 410) {
+          await admin.from("push_subscriptions").update({ is_active: false }).eq("id", sub.id);
+        }
+        throw err;
+      }
+    })
+  );
+
+  const sent = results.filter((r) => r.status === "fulfilled").length;
+  const failures = results
+    .filter((r): r is PromiseRejectedResult => r.status === "rejected")
+    .map((r) => r.reason as { statusCode?: number; message?: string });
+
+  await admin.from("notification_logs").insert({
+    profile_id: row.profile_id,
+    channel: "push",
+    title: row.title,
+    body: row.body,
+    status: sent > 0 ? "sent" : "failed",
+    metadata: { outbox_id: row.id, event_key: row.event_key, sent, total: subscriptions.length },
+  });
+
+  if (sent > 0) return { status: "sent" };
+
+  // Every endpoint is gone: nothing left to retry
+  if (failures.every((f) => f.statusCode === 404 || f.statusCode === 410)) {
+    return { status: "skipped", reason: "All push subscriptions expired" };
+  }
+
+  const retryable = failures.find((f) => !f.statusCode || f.statusCode === 429 || f.statusCode >= 500);
+  throw deliveryError(
+    failures[0]?.message || "Push delivery failed",
+    retryable ? retryable.statusCode || 503 : failures[0]?.statusCode
+  );
+}
+
+/**
+ * Formats a phone number for the WhatsApp API (country code, digits only)
+ */
+function formatPhoneNumber(phone: string): string {
+  // Remove all non-numeric characters
+  let cleaned = phone.replace(/\D/g, "");
+
+  // If starts with 0, assume India and replace with 91
+  if (cleaned.startsWith("0")) {
+    cleaned = "91" + cleaned.substring(1);
+  }
+
+  // If doesn't start with country code, assume India (91)
+  if (cleaned.length === 10) {
+    cleaned = "91" + cleaned;
+  }
+
+  return cleaned;
+}
+
+/**
+ * Builds WhatsApp template components from template parameters
+ */
+function buildTemplateComponents(
+  templateName: string,
+  params: Record<string, string>
+): Array<{
+  type: string;
+  parameters?: Array<{ type: string; text?: string }>;
+  sub_type?: string;
+  index?: string;
+}> {
+  const components: Array<{
+    type: string;
+    parameters?: Array<{ type: string; text?: string }>;
+    sub_type?: string;
+    index?: string;
+  }> = [];
+
+  // Body parameters
+  const bodyParams: Array<{ type: string; text: string }> = [];
+
+  switch (templateName) {
+    case "quote_ready":
+      if (params.projectNumber) bodyParams.push({ type: "text", text: params.projectNumber });
+      if (params.amount) bodyParams.push({ type: "text", text: `₹${params.amount}` });
+      break;
+
+    case "payment_received":
+    case "project_started":
+    case "project_delivered":
+    case "project_completed":
+    case "new_message":
+    case "revision_requested":
+      if (params.projectNumber) bodyParams.push({ type: "text", text: params.projectNumber });
+      break;
+
+    case "auto_approval_reminder":
+      if (params.projectNumber) bodyParams.push({ type: "text", text: params.projectNumber });
+      if (params.timeLeft) bodyParams.push({ type: "text", text: params.timeLeft });
+      break;
+  }
+
+  if (bodyParams.length > 0) {
+    components.push({ type: "body", parameters: bodyParams });
+  }
+
+  // Add CTA button if project link is available
+  if (params.projectId) {
+    components.push({
+      type: "button",
+      sub_type: "url",
+      index: "0",
+      parameters: [{ type: "text", text: params.projectId }],
+    });
+  }
+
+  return components;
+}
+
+/**
+ * WhatsApp message through the Cloud API, as a template or free text
+ */
+async function deliverWhatsApp(admin: SupabaseClient, row: OutboxRow): Promise<DeliveryResult> {
+  if (!features.whatsApp || !env.WHATSAPP_PHONE_NUMBER_ID || !env.WHATSAPP_ACCESS_TOKEN) {
+    return { status: "skipped", reason: "WhatsApp not configured" };
+  }
+
+  const whatsApp = row.payload?.whatsApp ?? {};
+  let phone = whatsApp.phone;
+
+  if (!phone) {
+    const { data: profile } = await admin
+      .from("profiles")
+      .select("phone")
+      .eq("id", row.profile_id)
+      .maybeSingle();
+    phone = profile?.phone ?? undefined;
+  }
+
+  if (!phone) {
+    return { status: "skipped", reason: "No phone number" };
+  }
+
+  const template = whatsApp.template ? WHATSAPP_TEMPLATES[whatsApp.template] : undefined;
+  if (whatsApp.template && !template) {
+    return { status: "skipped", reason: `Unknown WhatsApp template ${whatsApp.template}` };
+  }
+
+  const to = formatPhoneNumber(phone);
+  const message = template
+    ? {
+        type: "template",
+        template: {
+          name: template.name,
+          language: { code: template.language },
+          components: buildTemplateComponents(whatsApp.template!, whatsApp.params ?? {}),
+        },
+      }
+    : { type: "text", text: { body: whatsApp.text || `${row.title}\n\n${row.body}` } };
+
+  const response = await fetch(`${WHATSAPP_API_URL}/${env.WHATSAPP_PHONE_NUMBER_ID}/messages`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${env.WHATSAPP_ACCESS_TOKEN}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      messaging_product: "whatsapp",
+      recipient_type: "individual",
+      to,
+      ...message,
+    }),
+  });
+
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw deliveryError(result.error?.message || `WhatsApp API error ${response.status}`, response.status);
+  }
+
+  const messageId: string | undefined = result.messages?.[0]?.id;
+
+  await admin.from("notification_logs").insert({
+    profile_id: row.profile_id,
+    channel: "whatsapp",
+    template_name: whatsApp.template ?? null,
+    phone_number: to,
+    status: "sent",
+    message_id: messageId,
+    metadata: { outbox_id: row.id, event_key: row.event_key, ...whatsApp.params },
+  });
+
+  return { status: "sent", messageId };
+}
+
+/**
+ * Links in emails must be absolute
+ */
+function absoluteUrl(path: string | null): string | null {
+  if (!path || /^https?:\/\//.test(path)) return path;
+  const appUrl = (env.NEXT_PUBLIC_APP_URL || "http://localhost:3000").replace(/\/$/, "");
+  return `${appUrl}${path.startsWith("/") ? "" : "/"}${path}`;
+}
+
+/**
+ * Email through the configured transport
+ */
+async function deliverEmail(admin: SupabaseClient, row: OutboxRow): Promise<DeliveryResult> {
+  const transport = getEmailTransport();
+  if (!transport) {
+    return { status: "skipped", reason: "Email not configured" };
+  }
+
+  const email = row.payload?.email ?? {};
+  const { data: profile } = await admin
+    .from("profiles")
+    .select("email, full_name")
+    .eq("id", row.profile_id)
+    .maybeSingle();
+
+  const to = email.to || profile?.email;
+  if (!to) {
+    return { status: "skipped", reason: "No email address" };
+  }
+
+  const rendered =
+    email.template && email.data
+      ? renderEmailTemplate(email.template, email.data as never)
+      : renderEmailTemplate("notification", {
+          recipientName: profile?.full_name,
+          title: row.title,
+          body: row.body,
+          actionUrl: absoluteUrl(row.action_url),
+        });
+
+  const { messageId } = await transport.send({ to, ...rendered });
+
+  await admin.from("notification_logs").insert({
+    profile_id: row.profile_id,
+    channel: "email",
+    template_name: email.template ?? "notification",
+    title: rendered.subject,
+    status: "sent",
+    message_id: messageId,
+    metadata: { outbox_id: row.id, event_key: row.event_key, transport: transport.name },
+  });
+
+  return { status: "sent", messageId };
+}
+
+/**
+ * Delivers an outbox row on its channel
+ * @param admin - Service role client
+ * @param row - The claimed outbox row
+ */
+export async function deliverOutboxRow(
+  admin: SupabaseClient,
+  row: OutboxRow
+): Promise<DeliveryResult> {
+  switch (row.channel) {
+    case "in_app":
+      return deliverInApp(admin, row);
+    case "push":
+      return deliverPush(admin, row);
+    case "whatsapp":
+      return deliverWhatsApp(admin, row);
+    case "email":
+      return deliverEmail(admin, row);
+  }
+}
@@ -0,0 +1,440 @@
+/**
+ * Notification dispatcher backed by the notification_outbox table
+ * Queues one row per channel, routes by preferences and quiet hours, and
+ * retries failed deliveries with exponential backoff until they go dead
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { calculateDelay, withRetry, type RetryOptions } from "@/lib/retry";
+import type { Database } from "@/types/database";
+import {
+  deliverOutboxRow,
+  type OutboxPayload,
+  type OutboxRow,
+} from "@/lib/notifications/channels";
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  DEFAULT_QUIET_HOURS_TIMEZONE,
+  NOTIFICATION_CHANNELS,
+  isChannelEnabled,
+  quietHoursEnd,
+  type NotificationCategory,
+  type NotificationChannel,
+  type QuietHours,
+} from "@/lib/notifications/preferences";
+
+/**
+ * Outbox configuration
+ */
+export const OUTBOX_CONFIG = {
+  /** Rows claimed per worker run */
+  BATCH_SIZE: 50,
+  /** A row stuck in 'processing' this long is reclaimed */
+  LOCK_SECONDS: 300,
+  /** Runs before a row goes dead */
+  MAX_ATTEMPTS: 6,
+  /** Delay before the second run; doubles per run up to MAX_DELAY_MS */
+  INITIAL_DELAY_MS: 2 * 60 * 1000,
+  MAX_DELAY_MS: 6 * 60 * 60 * 1000,
+} as const;
+
+/**
+ * Quick retries within one run, for blips that clear in seconds
+ */
+const DELIVERY_RETRY_OPTIONS: RetryOptions = {
+  maxAttempts: 3,
+  initialDelayMs: 500,
+  maxDelayMs: 4000,
+  backoffMultiplier: 2,
+  jitter: true,
+  isRetryable: isTransientError,
+};
+
+/**
+ * A notification to dispatch
+ */
+export interface NotificationEvent {
+  /** Identifies the event; dispatching the same key again is a no-op per channel */
+  eventKey: string;
+  profileId: string;
+  /** Preference group (`push_quotes`, `whatsapp_status`, ...) */
+  category: NotificationCategory;
+  /** Type of the in-app notification (default system_alert) */
+  notificationType?: Database["public"]["Enums"]["notification_type"];
+  title: string;
+  body: string;
+  actionUrl?: string | null;
+  referenceType?: string | null;
+  referenceId?: string | null;
+  /** Defaults to every channel; preferences still apply */
+  channels?: NotificationChannel[];
+  /** Deliver no earlier than this */
+  sendAt?: Date;
+  /** Drop the notification if it cannot be delivered before this */
+  expiresAt?: Date;
+  /** Deliver even during the recipient's quiet hours (time critical reminders) */
+  bypassQuietHours?: boolean;
+  payload?: OutboxPayload;
+}
+
+export interface DispatchOptions {
+  /** Deliver due rows straight away instead of waiting for the worker (default true) */
+  deliverNow?: boolean;
+}
+
+/**
+ * Outcome of one worker run
+ */
+export interface OutboxRunSummary {
+  claimed: number;
+  sent: number;
+  skipped: number;
+  deferred: number;
+  retrying: number;
+  dead: number;
+}
+
+interface NotificationSettings {
+  preferences: Record<string, boolean>;
+  quietHours: QuietHours;
+}
+
+/**
+ * 4xx responses (other than timeouts and rate limits) will fail the same way next time
+ */
+function isTransientError(error: unknown): boolean {
+  if (error && typeof error === "object") {
+    const status =
+      (error as { status?: number }).status ?? (error as { statusCode?: number }).statusCode;
+    if (status && status >= 400 && status < 500) {
+      return status === 408 || status === 429;
+    }
+  }
+  return true;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error ?? "Unknown error");
+}
+
+/**
+ * Queues a notification on each of its channels and, unless it is scheduled
+ * for later, delivers it right away (failures are retried by the worker).
+ * Never throws; notification problems must not break the calling flow.
+ * @param admin - Service role client
+ * @param event - The notification
+ * @param options - Dispatch options
+ * @returns IDs of newly queued outbox rows (empty for a duplicate event)
+ */
+export async function dispatchNotification(
+  admin: SupabaseClient,
+  event: NotificationEvent,
+  options: DispatchOptions = {}
+): Promise<string[]> {
+  const channels = event.channels ?? NOTIFICATION_CHANNELS;
+  const sendAt = event.sendAt ?? new Date();
+
+  const rows = channels.map((channel) => ({
+    event_key: event.eventKey,
+    channel,
+    profile_id: event.profileId,
+    category: event.category,
+    notification_type: event.notificationType ?? "system_alert",
+    title: event.title,
+    body: event.body,
+    action_url: event.actionUrl ?? null,
+    reference_type: event.referenceType ?? null,
+    reference_id: event.referenceId ?? null,
+    payload: event.payload ?? {},
+    bypass_quiet_hours: event.bypassQuietHours ?? false,
+    max_attempts: OUTBOX_CONFIG.MAX_ATTEMPTS,
+    next_attempt_at: sendAt.toISOString(),
+    expires_at: event.expiresAt?.toISOString() ?? null,
+  }));
+
+  const { data, error } = await admin
+    .from("notification_outbox")
+    .upsert(rows, { onConflict: "event_key,channel", ignoreDuplicates: true })
+    .select("id");
+
+  if (error) {
+    console.error("[dispatchNotification] Error:", error);
+    return [];
+  }
+
+  const ids = (data || []).map((row) => row.id as string);
+
+  if (ids.length > 0 && options.deliverNow !== false && sendAt.getTime() <= Date.now()) {
+    try {
+      await processOutbox(admin, { ids });
+    } catch (deliveryError) {
+      // Rows stay queued for the worker
+      console.error("[dispatchNotification] Delivery error:", deliveryError);
+    }
+  }
+
+  return ids;
+}
+
+/**
+ * Cancels queued notifications that have not been delivered yet
+ * @param admin - Service role client
+ * @param eventKeyPrefix - Cancels every event whose key starts with this
+ * @param exceptEventKey - Keeps this event (e.g. the one just scheduled in its place)
+ * @returns Number of cancelled rows
+ */
+export async function cancelNotifications(
+  admin: SupabaseClient,
+  eventKeyPrefix: string,
+  exceptEventKey?: string
+): Promise<number> {
+  let query = admin
+    .from("notification_outbox")
+    .update({ status: "cancelled", updated_at: new Date().toISOString() })
+    .like("event_key", `${eventKeyPrefix.replace(/[\\%_]/g, "\\$&")}%`)
+    .eq("status", "pending");
+
+  if (exceptEventKey) {
+    query = query.neq("event_key", exceptEventKey);
+  }
+
+  const { data, error } = await query.select("id");
+
+  if (error) {
+    console.error("[cancelNotifications] Error:", error);
+    return 0;
+  }
+
+  return data?.length ?? 0;
+}
+
+/**
+ * Loads preferences and quiet hours for a batch of profiles
+ */
+async function loadNotificationSettings(
+  admin: SupabaseClient,
+  profileIds: string[]
+): Promise<Map<string, NotificationSettings>> {
+  const settings = new Map<string, NotificationSettings>();
+  if (profileIds.length === 0) return settings;
+
+  const { data, error } = await admin
+    .from("notification_preferences")
+    .select("profile_id, preferences, quiet_hours_start, quiet_hours_end, timezone")
+    .in("profile_id", profileIds);
+
+  if (error) {
+    throw new Error(`Failed to load notification preferences: ${error.message}`);
+  }
+
+  for (const row of data || []) {
+    settings.set(row.profile_id, {
+      preferences: { ...DEFAULT_NOTIFICATION_PREFERENCES, ...(row.preferences as Record<string, boolean>) },
+      quietHours: {
+        start: row.quiet_hours_start,
+        end: row.quiet_hours_end,
+        timezone: row.timezone || DEFAULT_QUIET_HOURS_TIMEZONE,
+      },
+    });
+  }
+
+  return settings;
+}
+
+async function updateOutboxRow(
+  admin: SupabaseClient,
+  id: string,
+  fields: Record<string, unknown>
+): Promise<void> {
+  const { error } = await admin
+    .from("notification_outbox")
+    .update({ ...fields, locked_at: null, updated_at: new Date().toISOString() })
+    .eq("id", id);
+
+  if (error) {
+    console.error(`[processOutbox] Failed to update outbox row ${id}:`, error);
+  }
+}
+
+/**
+ * Delivers one claimed row and records the outcome
+ */
+async function processOutboxRow(
+  admin: SupabaseClient,
+  row: OutboxRow,
+  settings: NotificationSettings | undefined
+): Promise<keyof Omit<OutboxRunSummary, "claimed">> {
+  const now = new Date();
+  const expiresAt = row.expires_at ? new Date(row.expires_at) : null;
+
+  if (expiresAt && expiresAt <= now) {
+    await updateOutboxRow(admin, row.id, { status: "skipped", last_error: "Expired" });
+    return "skipped";
+  }
+
+  const preferences = settings?.preferences ?? DEFAULT_NOTIFICATION_PREFERENCES;
+  if (!isChannelEnabled(preferences, row.channel, row.category)) {
+    await updateOutboxRow(admin, row.id, { status: "skipped", last_error: "Disabled in preferences" });
+    return "skipped";
+  }
+
+  if (!row.bypass_quiet_hours && settings) {
+    const resumeAt = quietHoursEnd(settings.quietHours, row.channel, now);
+    if (resumeAt) {
+      if (expiresAt && expiresAt <= resumeAt) {
+        await updateOutboxRow(admin, row.id, { status: "skipped", last_error: "Expires during quiet hours" });
+        return "skipped";
+      }
+      await updateOutboxRow(admin, row.id, { status: "pending", next_attempt_at: resumeAt.toISOString() });
+      return "deferred";
+    }
+  }
+
+  const result = await withRetry(() => deliverOutboxRow(admin, row), DELIVERY_RETRY_OPTIONS);
+  const attempts = row.attempts + 1;
+
+  if (result.success && result.data) {
+    if (result.data.status === "skipped") {
+      await updateOutboxRow(admin, row.id, { status: "skipped", attempts, last_error: result.data.reason });
+      return "skipped";
+    }
+    await updateOutboxRow(admin, row.id, { status: "sent", attempts, sent_at: new Date().toISOString() });
+    return "sent";
+  }
+
+  const lastError = errorMessage(result.error);
+
+  if (attempts >= row.max_attempts || !isTransientError(result.error)) {
+    await updateOutboxRow(admin, row.id, { status: "dead", attempts, last_error: lastError });
+    console.error(`[processOutbox] ${row.channel} notification ${row.event_key} is dead:`, lastError);
+    return "dead";
+  }
+
+  const delayMs = calculateDelay(
+    attempts,
+    OUTBOX_CONFIG.INITIAL_DELAY_MS,
+    OUTBOX_CONFIG.MAX_DELAY_MS,
+    2,
+    true
+  );
+
+  await updateOutboxRow(admin, row.id, {
+    status: "pending",
+    attempts,
+    last_error: lastError,
+    next_attempt_at: new Date(Date.now() + delayMs).toISOString(),
+  });
+  return "retrying";
+}
+
+/**
+ * Claims due outbox rows and delivers them
+ * @param admin - Service role client
+ * @param options - Batch size, or specific rows to deliver
+ * @returns What happened to the claimed rows
+ */
+export async function processOutbox(
+  admin: SupabaseClient,
+  options: { limit?: number; ids?: string[] } = {}
+): Promise<OutboxRunSummary> {
+  const summary: OutboxRunSummary = {
+    claimed: 0,
+    sent: 0,
+    skipped: 0,
+    deferred: 0,
+    retrying: 0,
+    dead: 0,
+  };
+
+  const { data, error } = await admin.rpc("claim_notification_outbox", {
+    p_limit: options.limit ?? options.ids?.length ?? OUTBOX_CONFIG.BATCH_SIZE,
+    p_lock_seconds: OUTBOX_CONFIG.LOCK_SECONDS,
+    p_ids: options.ids ?? null,
+  });
+
+  if (error) {
+    throw new Error(`Failed to claim notification outbox: ${error.message}`);
+  }
+
+  const rows = (data || []) as OutboxRow[];
+  summary.claimed = rows.length;
+  if (rows.length === 0) return summary;
+
+  let settings = new Map<string, NotificationSettings>();
+  try {
+    settings = await loadNotificationSettings(admin, [...new Set(rows.map((row) => row.profile_id))]);
+  } catch (settingsError) {
+    // Hand the rows back rather than ignore someone's preferences
+    await Promise.all(
+      rows.map((row) =>
+        updateOutboxRow(admin, row.id, { status: "pending", last_error: errorMessage(settingsError) })
+      )
+    );
+    throw settingsError;
+  }
+
+  // One row at a time keeps provider rate limits (and memory) predictable
+  for (const row of rows) {
+    try {
+      summary[await processOutboxRow(admin, row, settings.get(row.profile_id))]++;
+    } catch (rowError) {
+      // Left in 'processing'; reclaimed once the lock expires
+      console.error(`[processOutbox] Error processing outbox row ${row.id}:`, rowError);
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Lists notifications that ran out of attempts, newest first
+ * @param admin - Service role client
+ * @param options - Page size and optional channel filter
+ */
+export async function getDeadLetters(
+  admin: SupabaseClient,
+  options: { limit?: number; channel?: NotificationChannel } = {}
+): Promise<OutboxRow[]> {
+  let query = admin
+    .from("notification_outbox")
+    .select("*")
+    .eq("status", "dead")
+    .order("updated_at", { ascending: false })
+    .limit(options.limit ?? 50);
+
+  if (options.channel) {
+    query = query.eq("channel", options.channel);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to load dead letters: ${error.message}`);
+  }
+
+  return (data || []) as OutboxRow[];
+}
+
+/**
+ * Puts dead notifications back in the queue with a fresh set of attempts
+ * @param admin - Service role client
+ * @param ids - Outbox row IDs
+ * @returns Number of requeued rows
+ */
+export async function requeueDeadLetters(admin: SupabaseClient, ids: string[]): Promise<number> {
+  if (ids.length === 0) return 0;
+
+  const now = new Date().toISOString();
+  const { data, error } = await admin
+    .from("notification_outbox")
+    .update({ status: "pending", attempts: 0, next_attempt_at: now, updated_at: now })
+    .in("id", ids)
+    .eq("status", "dead")
+    .select("id");
+
+  if (error) {
+    throw new Error(`Failed to requeue dead letters: ${error.message}`);
+  }
+
+  return data?.length ?? 0;
+}
@@ -0,0 +1,135 @@
+/**
+ * Notification channels, per-channel preferences and quiet hours
+ * Shared by notificationService (settings) and the outbox worker (routing)
+ */
+
+/**
+ * Channels the dispatcher can deliver on
+ */
+export type NotificationChannel = "in_app" | "push" | "whatsapp" | "email";
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ["in_app", "push", "whatsapp", "email"];
+
+/**
+ * Preference group of a notification; preference keys are `${channel}_${category}`
+ */
+export type NotificationCategory = "quotes" | "status" | "chat";
+
+/**
+ * Used when a profile has no notification_preferences row, or lacks a key
+ */
+export const DEFAULT_NOTIFICATION_PREFERENCES: Record<string, boolean> = {
+  email_quotes: true,
+  email_status: true,
+  email_chat: false,
+  push_quotes: true,
+  push_status: true,
+  push_chat: true,
+  whatsapp_quotes: true,
+  whatsapp_status: true,
+};
+
+/**
+ * Quiet hours as "HH:MM" wall clock times in the profile's timezone
+ */
+export interface QuietHours {
+  start: string | null;
+  end: string | null;
+  timezone: string;
+}
+
+export const DEFAULT_QUIET_HOURS_TIMEZONE = "Asia/Kolkata";
+
+/**
+ * Channels held back during quiet hours; in-app and email wait in the inbox anyway
+ */
+const QUIET_HOURS_CHANNELS: NotificationChannel[] = ["push", "whatsapp"];
+
+/**
+ * Whether a profile wants a category of notification on a channel.
+ * In-app notifications are always on.
+ * @param preferences - Stored preferences (missing keys fall back to the defaults)
+ * @param channel - Delivery channel
+ * @param category - Notification category
+ */
+export function isChannelEnabled(
+  preferences: Record<string, boolean>,
+  channel: NotificationChannel,
+  category: NotificationCategory
+): boolean {
+  if (channel === "in_app") return true;
+
+  const key = `${channel}_${category}`;
+  return preferences[key] ?? DEFAULT_NOTIFICATION_PREFERENCES[key] ?? false;
+}
+
+/**
+ * Parses "HH:MM" or "HH:MM:SS" into minutes after midnight
+ */
+function toMinutes(time: string | null): number | null {
+  const match = time?.match(/^(\d{1,2}):(\d{2})/);
+  if (!match) return null;
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+
+  return hours * 60 + minutes;
+}
+
+/**
+ * Minutes after midnight of an instant, on the wall clock of a timezone
+ */
+function localMinutes(date: Date, timeZone: string): number {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat("en-GB", {
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+      timeZone,
+    }).formatToParts(date);
+  } catch {
+    parts = new Intl.DateTimeFormat("en-GB", {
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+      timeZone: DEFAULT_QUIET_HOURS_TIMEZONE,
+    }).formatToParts(date);
+  }
+
+  const value = (type: string) => Number(parts.find((part) => part.type === type)?.value ?? 0);
+  return value("hour") * 60 + value("minute");
+}
+
+/**
+ * When a notification held back by quiet hours may go out.
+ * Windows may wrap past midnight (22:00 - 07:00).
+ * @param quietHours - The profile's quiet hours
+ * @param channel - Delivery channel
+ * @param now - Current time
+ * @returns End of the current quiet window, or null to send now
+ */
+export function quietHoursEnd(
+  quietHours: QuietHours,
+  channel: NotificationChannel,
+  now: Date = new Date()
+): Date | null {
+  if (!QUIET_HOURS_CHANNELS.includes(channel)) return null;
+
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  if (start === null || end === null || start === end) return null;
+
+  const current = localMinutes(now, quietHours.timezone || DEFAULT_QUIET_HOURS_TIMEZONE);
+  const isQuiet = start < end
+    ? current >= start && current < end
+    : current >= start || current < end;
+
+  if (!isQuiet) return null;
+
+  const minutesLeft = (end - current + 24 * 60) % (24 * 60);
+  const resumeAt = new Date(now.getTime() + minutesLeft * 60 * 1000);
+  resumeAt.setSeconds(0, 0);
+  return resumeAt;
+}
@@ -0,0 +1,158 @@
+/**
+ * Student notifications for project milestones: in-app, push, WhatsApp and a
+ * templated email, all through the notification outbox
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { EmailPayload, WhatsAppPayload } from "@/lib/notifications/channels";
+import { dispatchNotification } from "@/lib/notifications/outbox";
+import type { NotificationCategory } from "@/lib/notifications/preferences";
+import { getNotificationTemplate } from "@/lib/services/notification.service";
+
+/**
+ * Project milestones the student is told about
+ */
+export type ProjectEvent = "quote_ready" | "payment_received" | "project_delivered" | "revision_requested";
+
+const PROJECT_EVENT_CATEGORIES: Record<ProjectEvent, NotificationCategory> = {
+  quote_ready: "quotes",
+  payment_received: "status",
+  project_delivered: "status",
+  revision_requested: "status",
+};
+
+interface ProjectEventRow {
+  id: string;
+  user_id: string;
+  project_number: string;
+  title: string;
+  user_quote: number | null;
+  deadline: string | null;
+  delivered_at: string | null;
+  auto_approve_at: string | null;
+  profiles: { full_name: string | null } | null;
+}
+
+/**
+ * Base URL of the student app, without a trailing slash
+ */
+export function appUrl(): string {
+  return (process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000").replace(/\/$/, "");
+}
+
+/**
+ * Path of the student's project page
+ */
+export function projectPath(projectId: string): string {
+  return `/project/${projectId}`;
+}
+
+/**
+ * Tells the student about a project milestone. Repeats of the same milestone
+ * (e.g. payment verify and the Razorpay webhook) are deduplicated.
+ * @param admin - Service role client
+ * @param projectId - The project UUID
+ * @param event - What happened
+ * @param details - Revision request id and feedback for revision_requested
+ */
+export async function notifyProjectEvent(
+  admin: SupabaseClient,
+  projectId: string,
+  event: ProjectEvent,
+  details: { revisionId?: string; feedback?: string } = {}
+): Promise<void> {
+  const { data } = await admin
+    .from("projects")
+    .select(
+      "id, user_id, project_number, title, user_quote, deadline, delivered_at, auto_approve_at, profiles!user_id(full_name)"
+    )
+    .eq("id", projectId)
+    .maybeSingle();
+
+  const project = data as unknown as ProjectEventRow | null;
+  if (!project) return;
+
+  const amount = Number(project.user_quote || 0);
+  const params = {
+    projectId: project.id,
+    projectNumber: project.project_number,
+    amount: amount.toFixed(2),
+  };
+  const { title, body } = getNotificationTemplate(event, params);
+  const projectUrl = `${appUrl()}${projectPath(project.id)}`;
+  const recipientName = project.profiles?.full_name || "there";
+
+  let eventKey: string;
+  let email: EmailPayload;
+
+  switch (event) {
+    case "quote_ready":
+      eventKey = `quote_ready:${project.id}:${amount}`;
+      email = {
+        template: "quote_ready",
+        data: {
+          recipientName,
+          projectNumber: project.project_number,
+          projectTitle: project.title,
+          amount,
+          projectUrl,
+          deadline: project.deadline,
+        },
+      };
+      break;
+    case "payment_received":
+      eventKey = `payment_received:${project.id}`;
+      email = {
+        template: "payment_received",
+        data: {
+          recipientName,
+          projectNumber: project.project_number,
+          projectTitle: project.title,
+          amount,
+          projectUrl,
+        },
+      };
+      break;
+    case "project_delivered":
+      eventKey = `project_delivered:${project.id}:${project.delivered_at ?? ""}`;
+      email = {
+        template: "project_delivered",
+        data: {
+          recipientName,
+          projectNumber: project.project_number,
+          projectTitle: project.title,
+          projectUrl,
+          autoApproveAt: project.auto_approve_at,
+        },
+      };
+      break;
+    case "revision_requested":
+      eventKey = `revision_requested:${project.id}:${details.revisionId ?? Date.now()}`;
+      email = {
+        template: "revision_requested",
+        data: {
+          recipientName,
+          projectNumber: project.project_number,
+          projectTitle: project.title,
+          feedback: details.feedback,
+          projectUrl,
+        },
+      };
+      break;
+  }
+
+  const whatsApp: WhatsAppPayload = { template: event, params };
+
+  await dispatchNotification(admin, {
+    eventKey,
+    profileId: project.user_id,
+    category: PROJECT_EVENT_CATEGORIES[event],
+    notificationType: event,
+    title,
+    body,
+    actionUrl: projectPath(project.id),
+    referenceType: "project",
+    referenceId: project.id,
+    payload: { email, whatsApp, push: { tag: `project-${project.id}` } },
+  });
+}
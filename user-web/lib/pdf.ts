@@ -0,0 +1,275 @@
+/**
+ * Minimal PDF writer (PDF 1.4)
+ *
+ * Enough for text documents such as invoices: pages with text in the
+ * built-in Helvetica / Helvetica-Bold fonts, lines and filled rectangles.
+ * The standard fonts need no embedding, which keeps files to a few KB.
+ *
+ * Coordinates are in points (1/72 inch) measured from the TOP-left corner
+ * of the page; they are flipped to PDF's bottom-left origin when written.
+ * Text uses WinAnsi encoding, so characters outside Latin-1 are replaced
+ * (₹ becomes "Rs.").
+ */
+
+/**
+ * A4 page size in points
+ */
+export const A4 = { width: 595.28, height: 841.89 } as const;
+
+export type PdfFont = "regular" | "bold";
+
+export interface PdfTextOptions {
+  size?: number;
+  font?: PdfFont;
+  /** Hex colour, e.g. "#111827" */
+  color?: string;
+  /** x is the left edge, centre or right edge of the text */
+  align?: "left" | "center" | "right";
+  /** Counter-clockwise rotation in degrees around (x, y) */
+  rotate?: number;
+}
+
+export interface PdfPage {
+  width: number;
+  height: number;
+  operations: string[];
+}
+
+export interface PdfMetadata {
+  title?: string;
+  author?: string;
+}
+
+/**
+ * Glyph widths (per 1000 units) for characters 32-126
+ */
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+const FONT_RESOURCES: Record<PdfFont, string> = { regular: "F1", bold: "F2" };
+
+/**
+ * Replacements for common characters WinAnsi cannot encode
+ */
+const CHARACTER_REPLACEMENTS: Record<string, string> = {
+  "₹": "Rs.",
+  "–": "-",
+  "—": "-",
+  "‘": "'",
+  "’": "'",
+  "“": '"',
+  "”": '"',
+  "…": "...",
+  "•": "-",
+};
+
+/**
+ * Maps text onto the characters the standard fonts can show
+ */
+function toWinAnsi(text: string): string {
+  return Array.from(text)
+    .map((char) => {
+      if (CHARACTER_REPLACEMENTS[char]) return CHARACTER_REPLACEMENTS[char];
+      const code = char.charCodeAt(0);
+      if (code === 9) return " ";
+      if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) return char;
+      return "?";
+    })
+    .join("");
+}
+
+/**
+ * Escapes text for a PDF string literal; Latin-1 characters become octal escapes
+ */
+function escapePdfString(text: string): string {
+  return Array.from(text)
+    .map((char) => {
+      if (char === "\\" || char === "(" || char === ")") return `\\${char}`;
+      const code = char.charCodeAt(0);
+      return code > 126 ? `\\${code.toString(8).padStart(3, "0")}` : char;
+    })
+    .join("");
+}
+
+/**
+ * Formats a number for a content stream
+ */
+function num(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+/**
+ * Converts "#RRGGBB" to PDF RGB components
+ */
+function rgb(hex: string): string {
+  const value = hex.replace("#", "");
+  return [0, 2, 4]
+    .map((offset) => num(parseInt(value.slice(offset, offset + 2), 16) / 255))
+    .join(" ");
+}
+
+/**
+ * Width of text in points
+ * @param text - Text as it will be drawn
+ * @param size - Font size in points
+ * @param font - Regular or bold
+ */
+export function textWidth(text: string, size: number, font: PdfFont = "regular"): number {
+  const widths = font === "bold" ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  const units = Array.from(toWinAnsi(text)).reduce((sum, char) => {
+    const code = char.charCodeAt(0);
+    return sum + (code >= 32 && code <= 126 ? widths[code - 32] : 556);
+  }, 0);
+  return (units * size) / 1000;
+}
+
+/**
+ * Breaks text into lines that fit a width
+ * @param text - Text to wrap (existing newlines are kept)
+ * @param maxWidth - Available width in points
+ * @param size - Font size in points
+ * @param font - Regular or bold
+ */
+export function wrapText(
+  text: string,
+  maxWidth: number,
+  size: number,
+  font: PdfFont = "regular"
+): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split("\n")) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && textWidth(candidate, size, font) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+/**
+ * Creates an empty page
+ */
+export function createPage(size: { width: number; height: number } = A4): PdfPage {
+  return { width: size.width, height: size.height, operations: [] };
+}
+
+/**
+ * Draws a single line of text with its baseline at y
+ */
+export function drawText(page: PdfPage, text: string, x: number, y: number, options: PdfTextOptions = {}) {
+  const size = options.size ?? 10;
+  const font = options.font ?? "regular";
+  const encoded = toWinAnsi(text);
+  const width = textWidth(encoded, size, font);
+  const offset = options.align === "right" ? width : options.align === "center" ? width / 2 : 0;
+  const angle = ((options.rotate ?? 0) * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+
+  // Text matrix: rotate, then move the aligned start point to (x, y)
+  page.operations.push(
+    `BT /${FONT_RESOURCES[font]} ${num(size)} Tf ${rgb(options.color ?? "#000000")} rg ` +
+      `${num(cos)} ${num(sin)} ${num(-sin)} ${num(cos)} ${num(x - offset * cos)} ${num(page.height - y - offset * sin)} Tm ` +
+      `(${escapePdfString(encoded)}) Tj ET`
+  );
+}
+
+/**
+ * Draws a straight line
+ */
+export function drawLine(
+  page: PdfPage,
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number,
+  options: { width?: number; color?: string } = {}
+) {
+  page.operations.push(
+    `${num(options.width ?? 0.5)} w ${rgb(options.color ?? "#000000")} RG ` +
+      `${num(x1)} ${num(page.height - y1)} m ${num(x2)} ${num(page.height - y2)} l S`
+  );
+}
+
+/**
+ * Fills a rectangle whose top-left corner is (x, y)
+ */
+export function fillRect(page: PdfPage, x: number, y: number, width: number, height: number, color: string) {
+  page.operations.push(
+    `${rgb(color)} rg ${num(x)} ${num(page.height - y - height)} ${num(width)} ${num(height)} re f`
+  );
+}
+
+/**
+ * Serialises pages into a PDF file
+ * @param pages - Pages in order
+ * @param metadata - Document title and author
+ * @returns The PDF bytes
+ */
+export function buildPdf(pages: PdfPage[], metadata: PdfMetadata = {}): Buffer {
+  const objects: string[] = [];
+  const pageObjectIds = pages.map((_, index) => 5 + index * 2);
+
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pageObjectIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`;
+  objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+  objects[4] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>";
+
+  pages.forEach((page, index) => {
+    const pageId = pageObjectIds[index];
+    const content = page.operations.join("\n");
+    objects[pageId] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(page.width)} ${num(page.height)}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+  });
+
+  const infoId = objects.length;
+  const info = [
+    metadata.title ? `/Title (${escapePdfString(toWinAnsi(metadata.title))})` : "",
+    metadata.author ? `/Author (${escapePdfString(toWinAnsi(metadata.author))})` : "",
+    "/Producer (AssignX)",
+  ].join(" ");
+  objects[infoId] = `<< ${info.trim()} >>`;
+
+  // Everything written is ASCII, so string length equals byte offset
+  let body = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = body.length;
+    body += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = body.length;
+  body += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    body += `${offsets[id].toString().padStart(10, "0")} 00000 n \n`;
+  }
+  body += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(body, "latin1");
+}
@@ -0,0 +1,191 @@
+/**
+ * Auto-approval of delivered projects
+ * Projects in review (delivered, or qc_approved which the student sees as
+ * delivered) carry projects.auto_approve_at, set and paused by the triggers in
+ * 20261019_021_project_auto_approval.sql. This worker warns the student 48h
+ * and 12h before the cutoff and, once it passes, moves the project to
+ * auto_approved through the status state machine; the move releases the doer
+ * and supervisor earnings.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { autoApprovalWarningData } from "@/lib/email/templates";
+import { dispatchNotification } from "@/lib/notifications/outbox";
+import { appUrl, projectPath } from "@/lib/notifications/project-events";
+import { getNotificationTemplate } from "@/lib/services/notification.service";
+import { PROJECT_TRANSITION_RPC, toProjectTransitionError } from "@shared/project-status";
+
+/**
+ * Auto-approval worker configuration
+ */
+export const AUTO_APPROVAL_CONFIG = {
+  /** Projects read per query per run */
+  BATCH_SIZE: 100,
+  /** Warnings before the cutoff, earliest first */
+  WARNING_HOURS: [48, 12],
+} as const;
+
+/**
+ * Statuses whose review window can lapse
+ */
+const REVIEW_STATUSES = ["delivered", "qc_approved"] as const;
+
+/**
+ * Outcome of one auto-approval run
+ */
+export interface AutoApprovalSummary {
+  /** Projects moved to auto_approved */
+  approved: number;
+  /** Projects the state machine refused (left for the next run) */
+  failed: number;
+  /** Warnings dispatched */
+  warned: number;
+}
+
+interface ReviewProject {
+  id: string;
+  user_id: string;
+  project_number: string;
+  title: string;
+  auto_approve_at: string;
+  profiles: { full_name: string | null } | null;
+}
+
+const REVIEW_PROJECT_COLUMNS = "id, user_id, project_number, title, auto_approve_at, profiles!user_id(full_name)";
+
+/**
+ * The latest warning due for a cutoff, e.g. 12 when 10 hours are left
+ */
+function warningStage(autoApproveAt: string, now: Date): number | null {
+  const hoursLeft = (new Date(autoApproveAt).getTime() - now.getTime()) / (60 * 60 * 1000);
+  const due = AUTO_APPROVAL_CONFIG.WARNING_HOURS.filter((hours) => hoursLeft <= hours);
+  return due.length > 0 ? due[due.length - 1] : null;
+}
+
+function formatTimeLeft(hoursLeft: number): string {
+  return hoursLeft === 1 ? "1 hour" : `${hoursLeft} hours`;
+}
+
+async function warnStudent(
+  admin: SupabaseClient,
+  project: ReviewProject,
+  stage: number,
+  now: Date
+): Promise<boolean> {
+  const projectUrl = `${appUrl()}${projectPath(project.id)}`;
+  const email = autoApprovalWarningData(
+    project,
+    project.profiles?.full_name || "there",
+    projectUrl,
+    now
+  );
+  const params = {
+    projectId: project.id,
+    projectNumber: project.project_number,
+    timeLeft: formatTimeLeft(email.hoursLeft),
+  };
+  const { title, body } = getNotificationTemplate("auto_approval_reminder", params);
+
+  // The cutoff is part of the key: a paused timer that resumes warns again
+  const ids = await dispatchNotification(admin, {
+    eventKey: `auto_approval_warning:${project.id}:${stage}h:${project.auto_approve_at}`,
+    profileId: project.user_id,
+    category: "status",
+    title,
+    body,
+    actionUrl: projectPath(project.id),
+    referenceType: "project",
+    referenceId: project.id,
+    expiresAt: new Date(project.auto_approve_at),
+    // The last warning can't wait for quiet hours to end
+    bypassQuietHours: stage === Math.min(...AUTO_APPROVAL_CONFIG.WARNING_HOURS),
+    payload: {
+      email: { template: "auto_approval_warning", data: email },
+      whatsApp: { template: "auto_approval_reminder", params },
+      push: { tag: `project-${project.id}` },
+    },
+  });
+
+  return ids.length > 0;
+}
+
+async function approveProject(admin: SupabaseClient, project: ReviewProject): Promise<void> {
+  const { error } = await admin.rpc(PROJECT_TRANSITION_RPC, {
+    p_project_id: project.id,
+    p_to_status: "auto_approved",
+    p_reason: "Review window ended without a response",
+  });
+
+  if (error) throw toProjectTransitionError(error);
+
+  await dispatchNotification(admin, {
+    eventKey: `auto_approved:${project.id}`,
+    profileId: project.user_id,
+    category: "status",
+    notificationType: "project_completed",
+    title: "Project approved automatically",
+    body: `${project.project_number} was approved because the review window ended. You can still reach support if something is wrong.`,
+    actionUrl: projectPath(project.id),
+    referenceType: "project",
+    referenceId: project.id,
+    channels: ["in_app", "push", "email"],
+  });
+}
+
+/**
+ * Approves projects past their cutoff and sends due warnings. Paused timers
+ * (an open revision or support ticket) are skipped. Event keys carry the
+ * stage and cutoff, so overlapping runs don't double send.
+ * @param admin - Service role client
+ */
+export async function processAutoApprovals(
+  admin: SupabaseClient,
+  options: { limit?: number; now?: Date } = {}
+): Promise<AutoApprovalSummary> {
+  const now = options.now ?? new Date();
+  const limit = options.limit ?? AUTO_APPROVAL_CONFIG.BATCH_SIZE;
+  const summary: AutoApprovalSummary = { approved: 0, failed: 0, warned: 0 };
+
+  const { data: due, error: dueError } = await admin
+    .from("projects")
+    .select(REVIEW_PROJECT_COLUMNS)
+    .in("status", REVIEW_STATUSES)
+    .is("auto_approve_paused_at", null)
+    .lte("auto_approve_at", now.toISOString())
+    .order("auto_approve_at", { ascending: true })
+    .limit(limit);
+
+  if (dueError) throw dueError;
+
+  for (const project of (due || []) as unknown as ReviewProject[]) {
+    try {
+      await approveProject(admin, project);
+      summary.approved++;
+    } catch (error) {
+      console.error(`[Auto Approval] Project ${project.id}:`, error);
+      summary.failed++;
+    }
+  }
+
+  const warnFrom = new Date(now.getTime() + AUTO_APPROVAL_CONFIG.WARNING_HOURS[0] * 60 * 60 * 1000);
+  const { data: upcoming, error: upcomingError } = await admin
+    .from("projects")
+    .select(REVIEW_PROJECT_COLUMNS)
+    .in("status", REVIEW_STATUSES)
+    .is("auto_approve_paused_at", null)
+    .gt("auto_approve_at", now.toISOString())
+    .lte("auto_approve_at", warnFrom.toISOString())
+    .order("auto_approve_at", { ascending: true })
+    .limit(limit);
+
+  if (upcomingError) throw upcomingError;
+
+  for (const project of (upcoming || []) as unknown as ReviewProject[]) {
+    const stage = warningStage(project.auto_approve_at, now);
+    if (stage !== null && (await warnStudent(admin, project, stage, now))) {
+      summary.warned++;
+    }
+  }
+
+  return summary;
+}
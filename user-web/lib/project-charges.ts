@@ -0,0 +1,102 @@
+/**
+ * How a paid project was charged
+ *
+ * Project payments are spread over several ledgers depending on how the
+ * user paid (wallet-pay, Razorpay, or partial-pay). Refunds and invoices
+ * both need the actual amounts, so they are reconstructed here.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { RefundSplit } from "@/lib/refund-policy";
+
+/**
+ * Project fields needed to find its charges
+ */
+export interface ChargeableProject {
+  id: string;
+  user_quote: number | null;
+  payment_id: string | null;
+}
+
+/**
+ * How the project was originally charged
+ */
+export interface ChargedAmounts extends RefundSplit {
+  razorpayPaymentId: string | null;
+  /** Ledger row written by the Razorpay webhook, if any */
+  paymentRecordId: string | null;
+}
+
+/**
+ * Works out how much of the project was paid from the wallet and how much
+ * through Razorpay, mirroring what the payment RPCs recorded
+ * @param admin - Service role client
+ * @param project - The paid project
+ */
+export async function getChargedAmounts(
+  admin: SupabaseClient,
+  project: ChargeableProject
+): Promise<ChargedAmounts> {
+  const [walletResult, paymentResult, partialLogResult] = await Promise.all([
+    // Wallet debits are referenced by project id (wallet-pay and partial-pay)
+    admin
+      .from("wallet_transactions")
+      .select("amount")
+      .eq("reference_id", project.id)
+      .eq("transaction_type", "debit"),
+    // Ledger row written by the Razorpay webhook
+    admin
+      .from("payments")
+      .select("id, amount, gateway_payment_id")
+      .eq("reference_id", project.id)
+      .eq("gateway", "razorpay")
+      .eq("status", "completed")
+      .maybeSingle(),
+    // Partial payments only keep the Razorpay id in the activity log
+    admin
+      .from("activity_logs")
+      .select("metadata")
+      .eq("target_id", project.id)
+      .eq("action", "project_payment_partial")
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+  ]);
+
+  const walletAmount = (walletResult.data || []).reduce(
+    (sum: number, tx: { amount: number }) => sum + Number(tx.amount),
+    0
+  );
+
+  const partialMetadata = partialLogResult.data?.metadata as
+    | { razorpay_payment_id?: string; razorpay_amount?: number }
+    | undefined;
+
+  const razorpayPaymentId =
+    paymentResult.data?.gateway_payment_id ||
+    partialMetadata?.razorpay_payment_id ||
+    (project.payment_id?.startsWith("pay_") ? project.payment_id : null);
+
+  const razorpayAmount = paymentResult.data
+    ? Number(paymentResult.data.amount)
+    : partialMetadata?.razorpay_amount !== undefined
+      ? Number(partialMetadata.razorpay_amount)
+      : razorpayPaymentId
+        ? Math.max(Number(project.user_quote || 0) - walletAmount, 0)
+        : 0;
+
+  return {
+    walletAmount,
+    razorpayAmount,
+    razorpayPaymentId,
+    paymentRecordId: paymentResult.data?.id ?? null,
+  };
+}
+
+/**
+ * Total the user paid for a project, falling back to the quote when the
+ * ledgers have nothing (projects paid before the ledgers existed)
+ */
+export function totalCharged(charged: RefundSplit, project: ChargeableProject): number {
+  return charged.walletAmount + charged.razorpayAmount || Number(project.user_quote || 0);
+}
@@ -1,14 +1,20 @@
 /**
  * Rate Limiting Utility
  *
- * Provides in-memory rate limiting for API routes.
- * For production with multiple instances, consider using Upstash Redis.
+ * Provides rate limiting for API routes backed by a pluggable store:
+ * - memory: per-process Map (default, limits are per instance)
+ * - postgres: shared `rate_limit_buckets` table updated atomically through
+ *   the `rate_limit_hit` RPC, so limits hold across instances and deploys
+ *
+ * The store and algorithm are selected with RATE_LIMIT_STORE and
+ * RATE_LIMIT_ALGORITHM (see lib/env.ts) and can be overridden per limiter.
  *
  * @example
  * ```typescript
  * import { rateLimit, RateLimitConfig } from "@/lib/rate-limit"
  *
  * const limiter = rateLimit({
+ *   prefix: "uploads",
  *   interval: 60 * 1000, // 1 minute
  *   uniqueTokenPerInterval: 500,
  * })
@@ -21,11 +27,28 @@
  * ```
  */
 
+import { env } from "@/lib/env"
+import { createAdminClient } from "@/lib/supabase/server"
+
+/**
+ * Counting algorithm
+ * - fixed-window: counter resets at the end of each window
+ * - sliding-window: weights the previous window's count by how much of it
+ *   still overlaps, which avoids bursts of 2x the limit at window edges
+ */
+export type RateLimitAlgorithm = "fixed-window" | "sliding-window"
+
 export interface RateLimitConfig {
   /** Time window in milliseconds */
   interval: number
-  /** Maximum number of unique tokens (users) to track per interval */
+  /** Maximum number of unique tokens (users) to track per interval (memory store) */
   uniqueTokenPerInterval: number
+  /** Namespace for keys, so limiters sharing a store don't collide */
+  prefix?: string
+  /** Backing store (defaults to RATE_LIMIT_STORE) */
+  store?: RateLimitStore
+  /** Counting algorithm (defaults to RATE_LIMIT_ALGORITHM) */
+  algorithm?: RateLimitAlgorithm
 }
 
 export interface RateLimitResult {
@@ -39,86 +62,238 @@ export interface RateLimitResult {
   limit: number
 }
 
+/**
+ * Storage backend for rate limit counters
+ */
+export interface RateLimitStore {
+  /**
+   * Record a request for a key and report whether it is within the limit.
+   * Rejected requests are not counted.
+   */
+  hit(
+    key: string,
+    limit: number,
+    windowMs: number,
+    algorithm: RateLimitAlgorithm
+  ): Promise<RateLimitResult>
+  /** Clear all counters for a key */
+  reset(key: string): Promise<void>
+}
+
 interface TokenBucket {
   count: number
+  /** Start of the current window */
   lastReset: number
+  /** Count of the window before lastReset (sliding window only) */
+  previousCount: number
 }
 
 /**
- * Creates a rate limiter instance
+ * Estimated requests in the sliding window ending now
  */
-export function rateLimit(config: RateLimitConfig) {
+function slidingCount(
+  previousCount: number,
+  currentCount: number,
+  elapsed: number,
+  windowMs: number
+): number {
+  const overlap = Math.max(0, 1 - elapsed / windowMs)
+  return Math.floor(previousCount * overlap) + currentCount
+}
+
+/**
+ * Creates an in-memory store.
+ * Counters live in this process only and are lost on restart.
+ * @param maxKeys Maximum number of keys to keep before evicting the oldest
+ */
+export function createMemoryStore(maxKeys: number): RateLimitStore {
   const tokenBuckets = new Map<string, TokenBucket>()
 
   // Cleanup old entries periodically to prevent memory leaks
-  const cleanup = () => {
+  const cleanup = (windowMs: number) => {
     const now = Date.now()
     for (const [key, bucket] of tokenBuckets.entries()) {
-      if (now - bucket.lastReset > config.interval * 2) {
+      if (now - bucket.lastReset > windowMs * 2) {
         tokenBuckets.delete(key)
       }
     }
 
     // Also limit total entries to prevent memory issues
-    if (tokenBuckets.size > config.uniqueTokenPerInterval) {
+    if (tokenBuckets.size > maxKeys) {
       const entries = Array.from(tokenBuckets.entries())
       entries.sort((a, b) => a[1].lastReset - b[1].lastReset)
-      const toDelete = entries.slice(0, entries.length - config.uniqueTokenPerInterval)
+      const toDelete = entries.slice(0, entries.length - maxKeys)
       for (const [key] of toDelete) {
         tokenBuckets.delete(key)
       }
     }
   }
 
+  const fixedWindow = (key: string, limit: number, windowMs: number): RateLimitResult => {
+    const now = Date.now()
+    const bucket = tokenBuckets.get(key)
+
+    // New token or expired window
+    if (!bucket || now - bucket.lastReset > windowMs) {
+      tokenBuckets.set(key, { count: 1, lastReset: now, previousCount: 0 })
+      cleanup(windowMs)
+      return {
+        success: true,
+        remaining: limit - 1,
+        reset: now + windowMs,
+        limit,
+      }
+    }
+
+    // Existing token within window
+    if (bucket.count >= limit) {
+      return {
+        success: false,
+        remaining: 0,
+        reset: bucket.lastReset + windowMs,
+        limit,
+      }
+    }
+
+    // Increment counter
+    bucket.count++
+    return {
+      success: true,
+      remaining: limit - bucket.count,
+      reset: bucket.lastReset + windowMs,
+      limit,
+    }
+  }
+
+  const slidingWindow = (key: string, limit: number, windowMs: number): RateLimitResult => {
+    const now = Date.now()
+    // Windows are aligned so the previous window is always the adjacent one
+    const windowStart = now - (now % windowMs)
+    let bucket = tokenBuckets.get(key)
+
+    if (!bucket || bucket.lastReset !== windowStart) {
+      const previousCount =
+        bucket && bucket.lastReset === windowStart - windowMs ? bucket.count : 0
+      bucket = { count: 0, lastReset: windowStart, previousCount }
+      tokenBuckets.set(key, bucket)
+      cleanup(windowMs)
+    }
+
+    const used = slidingCount(bucket.previousCount, bucket.count, now - windowStart, windowMs)
+    const reset = windowStart + windowMs
+
+    if (used >= limit) {
+      return { success: false, remaining: 0, reset, limit }
+    }
+
+    bucket.count++
+    return { success: true, remaining: limit - used - 1, reset, limit }
+  }
+
   return {
-    /**
-     * Check if a request should be allowed
-     * @param limit Maximum requests per interval
-     * @param token Unique identifier (user ID, IP, etc.)
-     */
-    check: async (limit: number, token: string): Promise<RateLimitResult> => {
-      const now = Date.now()
-      const bucket = tokenBuckets.get(token)
-      const resetTime = now + config.interval
-
-      // New token or expired window
-      if (!bucket || now - bucket.lastReset > config.interval) {
-        tokenBuckets.set(token, { count: 1, lastReset: now })
-        cleanup()
-        return {
-          success: true,
-          remaining: limit - 1,
-          reset: resetTime,
-          limit,
-        }
+    hit: async (key, limit, windowMs, algorithm) =>
+      algorithm === "sliding-window"
+        ? slidingWindow(key, limit, windowMs)
+        : fixedWindow(key, limit, windowMs),
+
+    reset: async (key) => {
+      tokenBuckets.delete(key)
+    },
+  }
+}
+
+/**
+ * Creates a Postgres-backed store using the `rate_limit_hit` RPC.
+ * Windows are aligned to the epoch so every instance agrees on them.
+ * If the database is unreachable, requests are counted in the fallback
+ * store instead of failing open entirely.
+ * @param fallback Store used when the RPC is unavailable
+ */
+export function createPostgresStore(fallback: RateLimitStore): RateLimitStore {
+  return {
+    hit: async (key, limit, windowMs, algorithm) => {
+      const supabase = createAdminClient()
+      if (!supabase) {
+        return fallback.hit(key, limit, windowMs, algorithm)
       }
 
-      // Existing token within window
-      if (bucket.count >= limit) {
-        return {
-          success: false,
-          remaining: 0,
-          reset: bucket.lastReset + config.interval,
-          limit,
-        }
+      const { data, error } = await supabase.rpc("rate_limit_hit", {
+        p_key: key,
+        p_limit: limit,
+        p_window_ms: windowMs,
+        p_sliding: algorithm === "sliding-window",
+      })
+
+      if (error || !data) {
+        console.error("[Rate Limit] Postgres store unavailable, using memory:", error?.message)
+        return fallback.hit(key, limit, windowMs, algorithm)
       }
 
-      // Increment counter
-      bucket.count++
       return {
-        success: true,
-        remaining: limit - bucket.count,
-        reset: bucket.lastReset + config.interval,
+        success: Boolean(data.success),
+        remaining: Number(data.remaining),
+        reset: Number(data.reset),
         limit,
       }
     },
 
+    reset: async (key) => {
+      await fallback.reset(key)
+
+      const supabase = createAdminClient()
+      if (!supabase) return
+
+      const { error } = await supabase
+        .from("rate_limit_buckets")
+        .delete()
+        .eq("key", key)
+
+      if (error) {
+        console.error("[Rate Limit] Failed to reset key:", error.message)
+      }
+    },
+  }
+}
+
+/**
+ * Store shared by all limiters when RATE_LIMIT_STORE=postgres
+ */
+let sharedPostgresStore: RateLimitStore | null = null
+
+function getDefaultStore(maxKeys: number): RateLimitStore {
+  const memoryStore = createMemoryStore(maxKeys)
+
+  if (env.RATE_LIMIT_STORE !== "postgres") {
+    return memoryStore
+  }
+
+  if (!sharedPostgresStore) {
+    sharedPostgresStore = createPostgresStore(memoryStore)
+  }
+  return sharedPostgresStore
+}
+
+/**
+ * Creates a rate limiter instance
+ */
+export function rateLimit(config: RateLimitConfig) {
+  const store = config.store ?? getDefaultStore(config.uniqueTokenPerInterval)
+  const algorithm = config.algorithm ?? env.RATE_LIMIT_ALGORITHM ?? "fixed-window"
+  const keyFor = (token: string) => (config.prefix ? `${config.prefix}:${token}` : token)
+
+  return {
+    /**
+     * Check if a request should be allowed
+     * @param limit Maximum requests per interval
+     * @param token Unique identifier (user ID, IP, etc.)
+     */
+    check: async (limit: number, token: string): Promise<RateLimitResult> =>
+      store.hit(keyFor(token), limit, config.interval, algorithm),
+
     /**
      * Reset rate limit for a specific token
      */
-    reset: (token: string) => {
-      tokenBuckets.delete(token)
-    },
+    reset: (token: string) => store.reset(keyFor(token)),
   }
 }
 
@@ -130,6 +305,7 @@ export function rateLimit(config: RateLimitConfig) {
 // More lenient in development (20 req/min), strict in production (10 req/min)
 const isDev = process.env.NODE_ENV === "development"
 export const paymentRateLimiter = rateLimit({
+  prefix: "payment",
   interval: 60 * 1000, // 1 minute
   uniqueTokenPerInterval: 500,
 })
@@ -144,16 +320,26 @@ paymentRateLimiter.check = async (limit: number, token: string) => {
 
 // Standard rate limit for authenticated API endpoints (30 requests per minute)
 export const apiRateLimiter = rateLimit({
+  prefix: "api",
   interval: 60 * 1000, // 1 minute
   uniqueTokenPerInterval: 1000,
 })
 
 // Relaxed rate limit for read operations (100 requests per minute)
 export const readRateLimiter = rateLimit({
+  prefix: "read",
   interval: 60 * 1000, // 1 minute
   uniqueTokenPerInterval: 2000,
 })
 
+// Strict rate limit for unauthenticated auth endpoints that send email
+// (magic links, college verification), applied per IP and per address
+export const authRateLimiter = rateLimit({
+  prefix: "auth",
+  interval: 15 * 60 * 1000, // 15 minutes
+  uniqueTokenPerInterval: 2000,
+})
+
 /**
  * Helper to get client identifier from request
  * Uses user ID if authenticated, falls back to IP
@@ -0,0 +1,21 @@
+import Razorpay from "razorpay"
+import { env } from "@/lib/env"
+
+/**
+ * Razorpay server client
+ * Created lazily so routes that never talk to Razorpay don't need the keys
+ */
+let razorpayInstance: Razorpay | null = null
+
+/**
+ * Get or create the shared Razorpay instance
+ */
+export function getRazorpay(): Razorpay {
+  if (!razorpayInstance) {
+    razorpayInstance = new Razorpay({
+      key_id: env.RAZORPAY_KEY_ID,
+      key_secret: env.RAZORPAY_KEY_SECRET,
+    })
+  }
+  return razorpayInstance
+}
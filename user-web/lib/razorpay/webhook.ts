@@ -0,0 +1,607 @@
+/**
+ * Razorpay Webhook Processing
+ *
+ * Server-side reconciliation of Razorpay payments. The browser normally
+ * records a payment through /api/payments/verify or /api/payments/partial-pay,
+ * but if the tab is closed after capture those calls never happen. Razorpay
+ * webhooks are the source of truth: each event is verified, claimed once by
+ * its event id and applied through the same atomic RPCs the browser uses.
+ *
+ * @example
+ * ```typescript
+ * if (!verifyWebhookSignature(rawBody, signature, secret)) {
+ *   return NextResponse.json({ error: "Invalid signature" }, { status: 400 })
+ * }
+ * const outcome = await applyRazorpayEvent(adminClient, event, { fetchOrder })
+ * ```
+ */
+
+import crypto from "crypto"
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { generateIdempotencyKey } from "@/lib/retry"
+import { notifyExpertOfSessionChange, scheduleBookingReminder } from "@/lib/expert-calendar"
+import { issueProjectInvoice } from "@/lib/invoices"
+import { notifyProjectEvent } from "@/lib/notifications/project-events"
+
+/**
+ * Webhook events handled by the platform
+ */
+export const HANDLED_WEBHOOK_EVENTS = [
+  "payment.captured",
+  "payment.failed",
+  "order.paid",
+  "refund.processed",
+] as const
+
+export type RazorpayWebhookEventType = (typeof HANDLED_WEBHOOK_EVENTS)[number]
+
+/**
+ * Notes attached to orders by /api/payments/create-order
+ */
+export interface RazorpayPaymentNotes {
+  type?: "wallet_topup" | "project_payment" | "partial_payment" | "expert_booking"
+  profile_id?: string
+  project_id?: string
+  /** Consultation being paid for (expert_booking) */
+  booking_id?: string
+  /** Wallet portion of a partial payment in rupees */
+  wallet_amount?: string
+  /** Total project amount of a partial payment in rupees */
+  total_amount?: string
+}
+
+/**
+ * Subset of the Razorpay payment entity used for reconciliation
+ */
+export interface RazorpayPaymentEntity {
+  id: string
+  entity: "payment"
+  /** Amount in paise */
+  amount: number
+  currency: string
+  status: string
+  order_id: string | null
+  method?: string
+  amount_refunded?: number
+  refund_status?: string | null
+  captured?: boolean
+  email?: string
+  contact?: string
+  notes?: RazorpayPaymentNotes | []
+  error_code?: string | null
+  error_description?: string | null
+  error_reason?: string | null
+  created_at: number
+}
+
+/**
+ * Subset of the Razorpay order entity used for reconciliation
+ */
+export interface RazorpayOrderEntity {
+  id: string
+  entity: "order"
+  /** Amount in paise */
+  amount: number
+  amount_paid: number
+  currency: string
+  receipt: string | null
+  status: string
+  notes?: RazorpayPaymentNotes | []
+  created_at: number
+}
+
+/**
+ * Subset of the Razorpay refund entity used for reconciliation
+ */
+export interface RazorpayRefundEntity {
+  id: string
+  entity: "refund"
+  /** Amount in paise */
+  amount: number
+  currency: string
+  payment_id: string
+  status: string
+  notes?: Record<string, string> | []
+  created_at: number
+}
+
+/**
+ * Razorpay webhook envelope
+ */
+export interface RazorpayWebhookEvent {
+  entity: "event"
+  account_id: string
+  event: string
+  contains: string[]
+  payload: {
+    payment?: { entity: RazorpayPaymentEntity }
+    order?: { entity: RazorpayOrderEntity }
+    refund?: { entity: RazorpayRefundEntity }
+  }
+  created_at: number
+}
+
+/**
+ * Result of applying a webhook event
+ */
+export interface WebhookOutcome {
+  /** processed = money moved / records written, ignored = nothing to do */
+  status: "processed" | "ignored"
+  message: string
+}
+
+/**
+ * Optional collaborators for event processing
+ */
+export interface WebhookDependencies {
+  /** Fetches an order when a payment arrives without checkout notes */
+  fetchOrder?: (orderId: string) => Promise<RazorpayOrderEntity | null>
+}
+
+/**
+ * Constant-time string comparison to prevent timing attacks
+ */
+function secureCompare(a: string, b: string): boolean {
+  if (!a || !b) return false
+  if (a.length !== b.length) return false
+  try {
+    return crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b))
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Signs a raw webhook body the way Razorpay does (HMAC-SHA256, hex)
+ */
+export function signWebhookBody(rawBody: string, secret: string): string {
+  return crypto.createHmac("sha256", secret).update(rawBody).digest("hex")
+}
+
+/**
+ * Verifies the X-Razorpay-Signature header against the raw request body
+ */
+export function verifyWebhookSignature(
+  rawBody: string,
+  signature: string | null,
+  secret: string
+): boolean {
+  if (!signature) return false
+  return secureCompare(signWebhookBody(rawBody, secret), signature)
+}
+
+/**
+ * Checks whether an event type is one the platform handles
+ */
+export function isHandledWebhookEvent(
+  eventType: string
+): eventType is RazorpayWebhookEventType {
+  return (HANDLED_WEBHOOK_EVENTS as readonly string[]).includes(eventType)
+}
+
+/**
+ * Derives a stable idempotency key for a webhook event.
+ * Uses the event's own created_at so every redelivery maps to the same key.
+ */
+export function getWebhookIdempotencyKey(
+  eventId: string,
+  event: RazorpayWebhookEvent
+): string {
+  return generateIdempotencyKey(
+    event.account_id || "razorpay",
+    "razorpay_webhook",
+    `${event.event}:${eventId}`,
+    event.created_at
+  )
+}
+
+/**
+ * Razorpay serialises empty notes as an array, normalise to an object
+ */
+function normaliseNotes(notes: RazorpayPaymentNotes | [] | undefined): RazorpayPaymentNotes {
+  if (!notes || Array.isArray(notes)) return {}
+  return notes
+}
+
+/**
+ * Converts paise to rupees
+ */
+function toRupees(paise: number): number {
+  return Math.round(paise) / 100
+}
+
+/**
+ * Resolves checkout notes from the order (preferred) or the payment itself
+ */
+async function resolveNotes(
+  payment: RazorpayPaymentEntity,
+  order: RazorpayOrderEntity | undefined,
+  deps: WebhookDependencies
+): Promise<RazorpayPaymentNotes> {
+  const orderNotes = normaliseNotes(order?.notes)
+  if (orderNotes.type) return orderNotes
+
+  const paymentNotes = normaliseNotes(payment.notes)
+  if (paymentNotes.type) return paymentNotes
+
+  if (payment.order_id && deps.fetchOrder) {
+    const fetched = await deps.fetchOrder(payment.order_id)
+    return normaliseNotes(fetched?.notes)
+  }
+
+  return {}
+}
+
+/**
+ * Payment statuses a later event of the given kind must not overwrite.
+ * Razorpay does not deliver events in order: payment.failed can arrive after
+ * the capture, and order.paid after the refund.
+ */
+const FINAL_PAYMENT_STATUSES: Record<"completed" | "failed", readonly string[]> = {
+  completed: ["refunded", "partially_refunded"],
+  failed: ["completed", "refunded", "partially_refunded"],
+}
+
+/**
+ * Upserts the payments ledger row for a Razorpay payment
+ */
+async function recordPayment(
+  supabase: SupabaseClient,
+  payment: RazorpayPaymentEntity,
+  notes: RazorpayPaymentNotes,
+  userId: string,
+  status: "completed" | "failed"
+): Promise<void> {
+  const { data: existing, error: fetchError } = await supabase
+    .from("payments")
+    .select("status")
+    .eq("gateway_payment_id", payment.id)
+    .maybeSingle()
+
+  if (fetchError) {
+    throw new Error(`Failed to load payment ${payment.id}: ${fetchError.message}`)
+  }
+  if (existing && FINAL_PAYMENT_STATUSES[status].includes(existing.status)) {
+    return
+  }
+
+  const { error } = await supabase.from("payments").upsert(
+    {
+      user_id: userId,
+      amount: toRupees(payment.amount),
+      currency: payment.currency,
+      gateway: "razorpay",
+      gateway_order_id: payment.order_id,
+      gateway_payment_id: payment.id,
+      payment_method: payment.method ?? null,
+      reference_type: notes.type ?? "unknown",
+      reference_id: notes.project_id ?? notes.booking_id ?? null,
+      status,
+      failure_code: status === "failed" ? payment.error_code ?? null : null,
+      failure_reason: status === "failed" ? payment.error_description ?? null : null,
+      initiated_at: new Date(payment.created_at * 1000).toISOString(),
+      completed_at: status === "completed" ? new Date().toISOString() : null,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: "gateway_payment_id" }
+  )
+
+  if (error) {
+    throw new Error(`Failed to record payment ${payment.id}: ${error.message}`)
+  }
+}
+
+/**
+ * Looks up the project owner and payment state
+ */
+async function getProject(
+  supabase: SupabaseClient,
+  projectId: string
+): Promise<{ id: string; user_id: string; is_paid: boolean | null } | null> {
+  const { data, error } = await supabase
+    .from("projects")
+    .select("id, user_id, is_paid")
+    .eq("id", projectId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load project ${projectId}: ${error.message}`)
+  }
+  return data
+}
+
+/**
+ * Applies a captured payment (payment.captured / order.paid)
+ * Payments the browser flow already applied come back as ignored.
+ */
+async function applyCapturedPayment(
+  supabase: SupabaseClient,
+  payment: RazorpayPaymentEntity,
+  order: RazorpayOrderEntity | undefined,
+  deps: WebhookDependencies
+): Promise<WebhookOutcome> {
+  const notes = await resolveNotes(payment, order, deps)
+  const amount = toRupees(payment.amount)
+
+  if (notes.type === "wallet_topup") {
+    if (!notes.profile_id) {
+      return { status: "ignored", message: "Top-up payment has no profile_id note" }
+    }
+
+    await recordPayment(supabase, payment, notes, notes.profile_id, "completed")
+
+    // The RPC checks for an earlier credit of this payment under the wallet lock
+    const { data, error } = await supabase.rpc("process_wallet_topup", {
+      p_profile_id: notes.profile_id,
+      p_amount: amount,
+      p_razorpay_order_id: payment.order_id,
+      p_razorpay_payment_id: payment.id,
+    })
+
+    if (error) {
+      throw new Error(`process_wallet_topup failed: ${error.message}`)
+    }
+    if (data?.already_processed) {
+      return { status: "ignored", message: `Top-up ${payment.id} already credited` }
+    }
+    return { status: "processed", message: `Wallet credited ₹${amount}` }
+  }
+
+  if (notes.type === "project_payment" || notes.type === "partial_payment") {
+    if (!notes.project_id) {
+      return { status: "ignored", message: "Project payment has no project_id note" }
+    }
+
+    const project = await getProject(supabase, notes.project_id)
+    if (!project) {
+      return { status: "ignored", message: `Project ${notes.project_id} not found` }
+    }
+
+    await recordPayment(supabase, payment, notes, project.user_id, "completed")
+
+    // Both RPCs check is_paid under the project lock, so a /verify call racing
+    // this event cannot apply the payment twice
+    if (notes.type === "partial_payment") {
+      const walletAmount = Number(notes.wallet_amount ?? 0)
+      const { data, error } = await supabase.rpc("process_partial_project_payment", {
+        p_profile_id: project.user_id,
+        p_project_id: project.id,
+        p_total_amount: walletAmount + amount,
+        p_wallet_amount: walletAmount,
+        p_razorpay_amount: amount,
+        p_razorpay_order_id: payment.order_id,
+        p_razorpay_payment_id: payment.id,
+      })
+
+      if (error) {
+        throw new Error(`process_partial_project_payment failed: ${error.message}`)
+      }
+      if (data?.already_processed) {
+        return { status: "ignored", message: `Project ${project.id} already paid` }
+      }
+      await issueProjectInvoice(supabase, project.id)
+      await notifyProjectEvent(supabase, project.id, "payment_received")
+      return { status: "processed", message: `Partial payment applied to ${project.id}` }
+    }
+
+    const { data, error } = await supabase.rpc("process_razorpay_project_payment", {
+      p_profile_id: project.user_id,
+      p_project_id: project.id,
+      p_amount: amount,
+      p_razorpay_order_id: payment.order_id,
+      p_razorpay_payment_id: payment.id,
+    })
+
+    if (error) {
+      throw new Error(`process_razorpay_project_payment failed: ${error.message}`)
+    }
+    if (data?.already_processed) {
+      return { status: "ignored", message: `Project ${project.id} already paid` }
+    }
+    await issueProjectInvoice(supabase, project.id)
+    await notifyProjectEvent(supabase, project.id, "payment_received")
+    return { status: "processed", message: `Project ${project.id} marked as paid` }
+  }
+
+  if (notes.type === "expert_booking") {
+    if (!notes.booking_id || !notes.profile_id) {
+      return { status: "ignored", message: "Booking payment has no booking_id note" }
+    }
+
+    await recordPayment(supabase, payment, notes, notes.profile_id, "completed")
+
+    const { data, error } = await supabase.rpc("confirm_expert_booking_payment", {
+      p_booking_id: notes.booking_id,
+      p_profile_id: notes.profile_id,
+      p_amount: amount,
+      p_razorpay_order_id: payment.order_id,
+      p_razorpay_payment_id: payment.id,
+    })
+
+    if (error) {
+      throw new Error(`confirm_expert_booking_payment failed: ${error.message}`)
+    }
+    if (data?.already_processed) {
+      return { status: "ignored", message: `Booking ${notes.booking_id} already paid` }
+    }
+    if (data?.status === "confirmed") {
+      await notifyExpertOfSessionChange(supabase, notes.booking_id, "booked")
+      await scheduleBookingReminder(supabase, notes.booking_id)
+    }
+    return { status: "processed", message: `Booking ${notes.booking_id} confirmed` }
+  }
+
+  return { status: "ignored", message: `Unknown payment type for ${payment.id}` }
+}
+
+/**
+ * Records a failed payment attempt so support can see why checkout failed
+ */
+async function applyFailedPayment(
+  supabase: SupabaseClient,
+  payment: RazorpayPaymentEntity,
+  deps: WebhookDependencies
+): Promise<WebhookOutcome> {
+  const notes = await resolveNotes(payment, undefined, deps)
+
+  let userId = notes.profile_id
+  if (!userId && notes.project_id) {
+    const project = await getProject(supabase, notes.project_id)
+    userId = project?.user_id
+  }
+
+  if (!userId) {
+    return { status: "ignored", message: `No owner found for failed payment ${payment.id}` }
+  }
+
+  await recordPayment(supabase, payment, notes, userId, "failed")
+
+  await supabase.from("activity_logs").insert({
+    profile_id: userId,
+    action: "payment_failed",
+    action_category: "payment",
+    description: `Payment failed: ${payment.id}`,
+    metadata: {
+      payment_id: payment.id,
+      order_id: payment.order_id,
+      amount: toRupees(payment.amount),
+      error_code: payment.error_code,
+      error_description: payment.error_description,
+      type: notes.type,
+      project_id: notes.project_id,
+    },
+  })
+
+  return { status: "processed", message: `Failure recorded for ${payment.id}` }
+}
+
+/**
+ * Settles the Razorpay leg of a cancelled-project refund, if this refund
+ * was issued by cancelProjectWithRefund
+ */
+async function settleProjectRefund(
+  supabase: SupabaseClient,
+  refund: RazorpayRefundEntity
+): Promise<boolean> {
+  const { data: projectRefund } = await supabase
+    .from("project_refunds")
+    .select("id, razorpay_status")
+    .or(
+      `razorpay_refund_id.eq.${refund.id},and(razorpay_payment_id.eq.${refund.payment_id},razorpay_status.in.(pending,processing))`
+    )
+    .limit(1)
+    .maybeSingle()
+
+  if (!projectRefund || projectRefund.razorpay_status === "processed") {
+    return false
+  }
+
+  const { error } = await supabase.rpc("settle_project_refund", {
+    p_refund_id: projectRefund.id,
+    p_razorpay_status: "processed",
+    p_razorpay_refund_id: refund.id,
+  })
+
+  if (error) {
+    throw new Error(`settle_project_refund failed: ${error.message}`)
+  }
+  return true
+}
+
+/**
+ * Records a processed refund against the original payment
+ */
+async function applyProcessedRefund(
+  supabase: SupabaseClient,
+  refund: RazorpayRefundEntity,
+  payment: RazorpayPaymentEntity | undefined
+): Promise<WebhookOutcome> {
+  const settledProjectRefund = await settleProjectRefund(supabase, refund)
+
+  const { data: existing, error: fetchError } = await supabase
+    .from("payments")
+    .select("id, amount, refund_amount, refund_id")
+    .eq("gateway_payment_id", refund.payment_id)
+    .maybeSingle()
+
+  if (fetchError) {
+    throw new Error(`Failed to load payment ${refund.payment_id}: ${fetchError.message}`)
+  }
+
+  if (!existing) {
+    if (settledProjectRefund) {
+      return { status: "processed", message: `Project refund ${refund.id} settled` }
+    }
+    // The capture event has not been applied yet; fail so Razorpay redelivers
+    // the refund after it has
+    throw new Error(`No payment recorded yet for refund ${refund.id}`)
+  }
+
+  if (existing.refund_id === refund.id) {
+    return settledProjectRefund
+      ? { status: "processed", message: `Project refund ${refund.id} settled` }
+      : { status: "ignored", message: `Refund ${refund.id} already recorded` }
+  }
+
+  // Prefer Razorpay's running total; fall back to accumulating locally
+  const refundedTotal =
+    payment?.amount_refunded !== undefined
+      ? toRupees(payment.amount_refunded)
+      : Number(existing.refund_amount ?? 0) + toRupees(refund.amount)
+
+  const { error } = await supabase
+    .from("payments")
+    .update({
+      refund_id: refund.id,
+      refund_amount: refundedTotal,
+      refunded_at: new Date(refund.created_at * 1000).toISOString(),
+      status: refundedTotal >= Number(existing.amount) ? "refunded" : "partially_refunded",
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", existing.id)
+
+  if (error) {
+    throw new Error(`Failed to record refund ${refund.id}: ${error.message}`)
+  }
+
+  return { status: "processed", message: `Refund ₹${toRupees(refund.amount)} recorded` }
+}
+
+/**
+ * Applies a verified webhook event.
+ * Throws on transient failures so the caller can mark the event failed and
+ * let Razorpay redeliver it.
+ */
+export async function applyRazorpayEvent(
+  supabase: SupabaseClient,
+  event: RazorpayWebhookEvent,
+  deps: WebhookDependencies = {}
+): Promise<WebhookOutcome> {
+  const payment = event.payload.payment?.entity
+  const order = event.payload.order?.entity
+  const refund = event.payload.refund?.entity
+
+  switch (event.event) {
+    case "payment.captured":
+    case "order.paid":
+      if (!payment) {
+        return { status: "ignored", message: `${event.event} without payment entity` }
+      }
+      return applyCapturedPayment(supabase, payment, order, deps)
+
+    case "payment.failed":
+      if (!payment) {
+        return { status: "ignored", message: "payment.failed without payment entity" }
+      }
+      return applyFailedPayment(supabase, payment, deps)
+
+    case "refund.processed":
+      if (!refund) {
+        return { status: "ignored", message: "refund.processed without refund entity" }
+      }
+      return applyProcessedRefund(supabase, refund, payment)
+
+    default:
+      return { status: "ignored", message: `Unhandled event ${event.event}` }
+  }
+}
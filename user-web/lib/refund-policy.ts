@@ -0,0 +1,267 @@
+/**
+ * Refund policy engine for cancelled projects
+ *
+ * Decides how much of a paid project is returned when it is cancelled,
+ * based on how far the work has progressed:
+ * - Before a doer is assigned: 100%
+ * - Doer assigned, work not started: 90%
+ * - Work in progress: 80% scaled down by progress, never below 20%
+ * - Delivered on time: no refund (use revisions instead)
+ * - Deadline missed before delivery: 100%; delivered late: 50%
+ *
+ * The refund is then split back across wallet and Razorpay in the same
+ * proportion the original payment was charged.
+ */
+
+import type { ProjectStatus } from "@/types/project";
+
+/**
+ * Refund policy configuration
+ */
+export const REFUND_POLICY = {
+  /** Refund before any doer has been engaged */
+  PRE_ASSIGNMENT_RATE: 1,
+  /** Refund once a doer is assigned but has not started */
+  ASSIGNED_RATE: 0.9,
+  /** Starting refund for work in progress (before progress deduction) */
+  IN_PROGRESS_BASE_RATE: 0.8,
+  /** Minimum refund while work is still in progress */
+  IN_PROGRESS_MIN_RATE: 0.2,
+  /** Refund when a delivery arrived after the deadline */
+  LATE_DELIVERY_RATE: 0.5,
+} as const;
+
+/**
+ * Which rule produced the refund decision
+ */
+export type RefundRule =
+  | "not_paid"
+  | "not_cancellable"
+  | "pre_assignment"
+  | "assigned"
+  | "in_progress"
+  | "deadline_missed"
+  | "late_delivery"
+  | "delivered";
+
+/**
+ * Project facts the policy needs
+ */
+export interface RefundPolicyInput {
+  status: ProjectStatus;
+  isPaid: boolean;
+  /** Total amount the user paid in INR */
+  amountPaid: number;
+  deadline: string;
+  deliveredAt?: string | null;
+  /** 0-100, as reported by the doer */
+  progressPercentage?: number | null;
+  /** When the cancellation is evaluated (defaults to now) */
+  now?: Date;
+}
+
+/**
+ * Refund decision
+ */
+export interface RefundDecision {
+  /** Whether the project may be cancelled at all */
+  cancellable: boolean;
+  rule: RefundRule;
+  /** 0-1 share of the paid amount returned */
+  refundRate: number;
+  refundAmount: number;
+  /** Human readable explanation shown to the user */
+  explanation: string;
+}
+
+/**
+ * Refund split across the original payment sources
+ */
+export interface RefundSplit {
+  walletAmount: number;
+  razorpayAmount: number;
+}
+
+const PRE_ASSIGNMENT_STATUSES: ProjectStatus[] = [
+  "submitted",
+  "analyzing",
+  "quoted",
+  "payment_pending",
+  "paid",
+  "assigning",
+];
+
+const IN_PROGRESS_STATUSES: ProjectStatus[] = [
+  "in_progress",
+  "submitted_for_qc",
+  "qc_in_progress",
+  "qc_rejected",
+  "revision_requested",
+  "in_revision",
+];
+
+const DELIVERED_STATUSES: ProjectStatus[] = ["qc_approved", "delivered"];
+
+/**
+ * Statuses a user can no longer cancel from
+ */
+const CLOSED_STATUSES: ProjectStatus[] = ["completed", "auto_approved", "cancelled", "refunded"];
+
+/**
+ * Rounds to paise
+ */
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function decide(
+  input: RefundPolicyInput,
+  rule: RefundRule,
+  refundRate: number,
+  explanation: string
+): RefundDecision {
+  return {
+    cancellable: true,
+    rule,
+    refundRate,
+    refundAmount: roundAmount(input.amountPaid * refundRate),
+    explanation,
+  };
+}
+
+/**
+ * Calculates the refund for cancelling a project
+ * @param input - Current project state
+ * @returns Refund decision
+ */
+export function calculateRefund(input: RefundPolicyInput): RefundDecision {
+  const now = input.now ?? new Date();
+
+  if (CLOSED_STATUSES.includes(input.status)) {
+    return {
+      cancellable: false,
+      rule: "not_cancellable",
+      refundRate: 0,
+      refundAmount: 0,
+      explanation: "This project is already closed and cannot be cancelled.",
+    };
+  }
+
+  if (!input.isPaid || input.amountPaid <= 0) {
+    return {
+      cancellable: true,
+      rule: "not_paid",
+      refundRate: 0,
+      refundAmount: 0,
+      explanation: "No payment has been made, so there is nothing to refund.",
+    };
+  }
+
+  const deadlinePassed = new Date(input.deadline).getTime() < now.getTime();
+
+  if (DELIVERED_STATUSES.includes(input.status)) {
+    const deliveredLate =
+      !!input.deliveredAt &&
+      new Date(input.deliveredAt).getTime() > new Date(input.deadline).getTime();
+
+    if (deliveredLate) {
+      return decide(
+        input,
+        "late_delivery",
+        REFUND_POLICY.LATE_DELIVERY_RATE,
+        "Your project was delivered after the deadline, so half of the payment is refunded."
+      );
+    }
+
+    return {
+      cancellable: true,
+      rule: "delivered",
+      refundRate: 0,
+      refundAmount: 0,
+      explanation: "Your project has been delivered on time. Request a revision instead if it needs changes.",
+    };
+  }
+
+  // Not delivered by the deadline: the platform missed its commitment
+  if (deadlinePassed) {
+    return decide(
+      input,
+      "deadline_missed",
+      1,
+      "The deadline passed without a delivery, so the full amount is refunded."
+    );
+  }
+
+  if (PRE_ASSIGNMENT_STATUSES.includes(input.status)) {
+    return decide(
+      input,
+      "pre_assignment",
+      REFUND_POLICY.PRE_ASSIGNMENT_RATE,
+      "No expert has started on your project yet, so the full amount is refunded."
+    );
+  }
+
+  if (input.status === "assigned") {
+    return decide(
+      input,
+      "assigned",
+      REFUND_POLICY.ASSIGNED_RATE,
+      "An expert has been assigned, so a 10% engagement fee is retained."
+    );
+  }
+
+  if (IN_PROGRESS_STATUSES.includes(input.status)) {
+    const progress = Math.min(Math.max(input.progressPercentage ?? 0, 0), 100) / 100;
+    const rate = Math.max(
+      REFUND_POLICY.IN_PROGRESS_MIN_RATE,
+      REFUND_POLICY.IN_PROGRESS_BASE_RATE * (1 - progress)
+    );
+
+    return decide(
+      input,
+      "in_progress",
+      roundAmount(rate),
+      `Work is ${Math.round(progress * 100)}% complete, so ${Math.round(rate * 100)}% of the payment is refunded.`
+    );
+  }
+
+  // draft and any future statuses: treat as not started
+  return decide(
+    input,
+    "pre_assignment",
+    REFUND_POLICY.PRE_ASSIGNMENT_RATE,
+    "No work has started on your project, so the full amount is refunded."
+  );
+}
+
+/**
+ * Splits a refund across wallet and Razorpay in the same proportion the
+ * project was originally charged (see process_partial_project_payment).
+ * Projects paid before the ledgers existed have no recorded charges; their
+ * refund goes to the wallet.
+ * @param refundAmount - Total refund in INR
+ * @param charged - Amounts originally charged to each source
+ * @returns Refund amounts per source, summing exactly to refundAmount
+ */
+export function splitRefund(refundAmount: number, charged: RefundSplit): RefundSplit {
+  const total = charged.walletAmount + charged.razorpayAmount;
+
+  if (refundAmount <= 0) {
+    return { walletAmount: 0, razorpayAmount: 0 };
+  }
+
+  if (total <= 0) {
+    return { walletAmount: roundAmount(refundAmount), razorpayAmount: 0 };
+  }
+
+  // Razorpay cannot refund more than it captured; the wallet absorbs rounding
+  const razorpayAmount = Math.min(
+    roundAmount(refundAmount * (charged.razorpayAmount / total)),
+    charged.razorpayAmount
+  );
+
+  return {
+    walletAmount: roundAmount(refundAmount - razorpayAmount),
+    razorpayAmount,
+  };
+}
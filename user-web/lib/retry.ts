@@ -72,8 +72,9 @@ const NON_RETRYABLE_STATUS_CODES = [
 
 /**
  * Calculate delay with exponential backoff and optional jitter
+ * Also used to space out attempts that span several runs (e.g. the notification outbox)
  */
-function calculateDelay(
+export function calculateDelay(
   attempt: number,
   initialDelayMs: number,
   maxDelayMs: number,
@@ -235,13 +236,17 @@ export async function fetchWithRetry<T>(
 /**
  * Generate idempotency key for payment requests
  * Ensures duplicate requests don't result in duplicate payments
+ *
+ * Pass `timestampSeconds` to derive a stable key from an external event
+ * (e.g. a webhook's `created_at`) instead of the current second.
  */
 export function generateIdempotencyKey(
   userId: string,
   operation: string,
-  additionalData?: string
+  additionalData?: string,
+  timestampSeconds?: number
 ): string {
-  const timestamp = Math.floor(Date.now() / 1000) // Round to nearest second
+  const timestamp = timestampSeconds ?? Math.floor(Date.now() / 1000) // Round to nearest second
   const data = `${userId}:${operation}:${additionalData || ""}:${timestamp}`
   // Create a hash-like key (not cryptographically secure, just for deduplication)
   let hash = 0
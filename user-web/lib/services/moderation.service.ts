@@ -36,7 +36,7 @@ export interface ModerationLogEntry {
   violation_types: ViolationType[];
   violation_count: number;
   severity: 'low' | 'medium' | 'high';
-  action_taken: 'blocked' | 'warned' | 'flagged';
+  action_taken: 'blocked' | 'warned' | 'flagged' | 'redacted';
   created_at?: string;
   metadata?: Record<string, unknown>;
 }
@@ -170,7 +170,7 @@ export function getNotificationTemplate(
     project_delivered: {
       type: "project_delivered",
       title: "Project Delivered! 📦",
-      body: `${data.projectNumber} is ready for review. Please check and approve within 48 hours.`,
+      body: `${data.projectNumber} is ready for review. Please check and approve within 72 hours.`,
       projectId: data.projectId,
       projectNumber: data.projectNumber,
     },
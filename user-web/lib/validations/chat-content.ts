@@ -73,6 +73,13 @@ interface DetectionResult {
   sanitized: string;
 }
 
+/**
+ * Error shown when the server drops a message that failed moderation
+ * (the insert succeeds but returns no row)
+ */
+export const CHAT_MESSAGE_BLOCKED_MESSAGE =
+  'Message blocked: sharing contact details or external links is not allowed in chat.';
+
 // =============================================================================
 // PATTERN DEFINITIONS
 // =============================================================================
@@ -80,6 +87,9 @@ interface DetectionResult {
 /**
  * Comprehensive patterns for detecting personal information
  * Organized by category for maintainability
+ *
+ * moderate_chat_text (supabase/migrations/20261019_010_chat_moderation.sql)
+ * enforces the same list on every chat insert; keep the two in sync.
  */
 export const personalInfoPatterns = {
   /**
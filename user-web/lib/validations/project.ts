@@ -15,11 +15,13 @@ export const referenceStyles = [
 
 /**
  * Urgency levels
+ * `hours` is the turnaround assumed for estimates until a deadline is picked;
+ * `band` is the pricing guide urgency band it falls into
  */
 export const urgencyLevels = [
-  { value: "standard", label: "Standard (5-7 days)", multiplier: 1 },
-  { value: "express", label: "Express (3-4 days)", multiplier: 1.5 },
-  { value: "urgent", label: "Urgent (1-2 days)", multiplier: 2 },
+  { value: "standard", label: "Standard (5-7 days)", hours: 168, band: "standard" },
+  { value: "express", label: "Express (3-4 days)", hours: 72, band: "72h" },
+  { value: "urgent", label: "Urgent (1-2 days)", hours: 48, band: "48h" },
 ] as const;
 
 /**
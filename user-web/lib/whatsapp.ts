@@ -3,6 +3,8 @@
  * Sends booking confirmations, reminders, and completion prompts
  */
 
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { cancelNotifications, dispatchNotification } from "@/lib/notifications/outbox";
 import type { WhatsAppNotificationPayload, WhatsAppNotificationType } from "@/types/expert";
 
 /**
@@ -28,7 +30,7 @@ Your consultation with *${payload.expertName}* has been confirmed.
 *Date:* ${payload.sessionDate}
 *Time:* ${payload.sessionTime}
 
-${payload.meetLink ? `*Google Meet Link:* ${payload.meetLink}` : ""}
+${payload.meetLink ? `*Meeting Link:* ${payload.meetLink}` : ""}
 
 Please be ready 5 minutes before your scheduled time.
 
@@ -254,22 +256,67 @@ export function formatPhoneNumber(phone: string): string {
 }
 
 /**
- * Schedules a reminder notification
+ * Outbox event key prefix of a booking's reminders
+ */
+function reminderEventPrefix(bookingId: string): string {
+  return `booking_reminder:${bookingId}:`;
+}
+
+/**
+ * Schedules a reminder notification through the notification outbox
+ * (in-app, push and this WhatsApp message). Replaces any reminder already
+ * scheduled for the booking.
+ * @param admin - Service role client
  * @param bookingId - Booking ID for reference
  * @param reminderTime - Time to send reminder
- * @param payload - Notification payload
+ * @param payload - Notification payload (an empty phone number falls back to the profile's)
+ * @param recipient - Who gets the reminder, when the session starts and the booking's ics_sequence
  */
 export async function scheduleReminder(
+  admin: SupabaseClient,
   bookingId: string,
   reminderTime: Date,
-  payload: Omit<WhatsAppNotificationPayload, "type">
+  payload: Omit<WhatsAppNotificationPayload, "type">,
+  recipient: { profileId: string; sessionStart: Date; sequence?: number; actionUrl?: string }
 ): Promise<{ success: boolean; scheduledId?: string; error?: string }> {
-  // In production, this would use a job queue like Bull or AWS SQS
-  // For now, we'll log and return success
-  console.log(`[WhatsApp] Scheduling reminder for booking ${bookingId} at ${reminderTime.toISOString()}`);
-
-  return {
-    success: true,
-    scheduledId: `scheduled_${bookingId}_${Date.now()}`,
-  };
+  // A reschedule bumps the sequence, so each slot gets its own reminder
+  const eventKey = `${reminderEventPrefix(bookingId)}${recipient.sequence ?? 0}`;
+  await cancelNotifications(admin, reminderEventPrefix(bookingId), eventKey);
+
+  if (recipient.sessionStart.getTime() <= Date.now()) {
+    await cancelNotifications(admin, eventKey);
+    return { success: false, error: "Session has already started" };
+  }
+
+  const message = MESSAGE_TEMPLATES.booking_reminder({ ...payload, type: "booking_reminder" });
+
+  const ids = await dispatchNotification(admin, {
+    eventKey,
+    profileId: recipient.profileId,
+    category: "status",
+    title: "Consultation in 30 minutes",
+    body: `Your consultation with ${payload.expertName} starts at ${payload.sessionTime}.`,
+    actionUrl: recipient.actionUrl ?? null,
+    referenceType: "expert_booking",
+    referenceId: bookingId,
+    channels: ["in_app", "push", "whatsapp"],
+    sendAt: reminderTime,
+    expiresAt: recipient.sessionStart,
+    bypassQuietHours: true,
+    payload: {
+      push: { tag: `booking-reminder-${bookingId}`, data: { bookingId } },
+      whatsApp: { phone: payload.phoneNumber || undefined, text: message },
+    },
+  });
+
+  return { success: true, scheduledId: ids[0] };
+}
+
+/**
+ * Cancels a booking's pending reminder
+ * @param admin - Service role client
+ * @param bookingId - Booking ID
+ */
+export async function cancelReminder(admin: SupabaseClient, bookingId: string): Promise<void> {
+  await cancelNotifications(admin, reminderEventPrefix(bookingId));
 }
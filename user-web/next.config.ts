@@ -1,6 +1,13 @@
+import path from "path";
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
+  // Allow imports from ../shared (modules shared with the other web apps)
+  outputFileTracingRoot: path.join(__dirname, ".."),
+  turbopack: {
+    root: path.join(__dirname, ".."),
+  },
+
   /**
    * Performance optimizations
    */
@@ -0,0 +1,114 @@
+/**
+ * Mobile Deliverables Move
+ * The doer app used to upload deliverables to the public project-files bucket
+ * (project-files/deliverables/{project_id}/...) and save the public URL, which
+ * the 20261019_024 backfill does not cover. This copies each such file into
+ * the private deliverables bucket at {project_id}/..., points
+ * project_deliverables.file_url at the new object path and removes the
+ * public copy.
+ *
+ * Safe to re-run: rows already pointing at the deliverables bucket are skipped.
+ *
+ * Usage:
+ *   NEXT_PUBLIC_SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... \
+ *     npx tsx scripts/move-mobile-deliverables.ts [--dry-run]
+ */
+
+import { createAdminClient } from "@/lib/supabase/server";
+import { DELIVERABLE_BUCKET } from "@shared/deliverable-access";
+
+const LEGACY_BUCKET = "project-files";
+const LEGACY_URL_MARKER = `/storage/v1/object/public/${LEGACY_BUCKET}/`;
+const LEGACY_FOLDER = "deliverables/";
+
+/**
+ * Object path in the legacy bucket for a saved public URL
+ */
+function legacyObjectPath(fileUrl: string): string | null {
+  const marker = fileUrl.indexOf(LEGACY_URL_MARKER);
+  if (marker < 0) return null;
+
+  const path = decodeURIComponent(fileUrl.slice(marker + LEGACY_URL_MARKER.length).split("?")[0]);
+  return path.startsWith(LEGACY_FOLDER) ? path : null;
+}
+
+async function moveMobileDeliverables() {
+  const dryRun = process.argv.includes("--dry-run");
+
+  const admin = createAdminClient();
+  if (!admin) {
+    console.error("❌ SUPABASE_SERVICE_ROLE_KEY is required");
+    process.exit(1);
+  }
+
+  const { data: deliverables, error } = await admin
+    .from("project_deliverables")
+    .select("id, file_url, file_type")
+    .like("file_url", `%${LEGACY_URL_MARKER}${LEGACY_FOLDER}%`);
+
+  if (error) {
+    console.error("❌ Failed to load deliverables:", error.message);
+    process.exit(1);
+  }
+
+  console.log(`🔁 ${deliverables.length} deliverable(s) in ${LEGACY_BUCKET}${dryRun ? " (dry run)" : ""}\n`);
+
+  let failures = 0;
+
+  for (const deliverable of deliverables) {
+    const from = legacyObjectPath(deliverable.file_url);
+    if (!from) continue;
+    const to = from.slice(LEGACY_FOLDER.length);
+
+    console.log(`▶ ${deliverable.id}: ${from} → ${DELIVERABLE_BUCKET}/${to}`);
+    if (dryRun) continue;
+
+    const { data: file, error: downloadError } = await admin.storage.from(LEGACY_BUCKET).download(from);
+    if (downloadError || !file) {
+      console.error(`  ❌ download failed: ${downloadError?.message ?? "not found"}`);
+      failures++;
+      continue;
+    }
+
+    // upsert: a previous run may have copied the file before failing
+    const { error: uploadError } = await admin.storage.from(DELIVERABLE_BUCKET).upload(to, file, {
+      contentType: deliverable.file_type ?? undefined,
+      upsert: true,
+    });
+    if (uploadError) {
+      console.error(`  ❌ upload failed: ${uploadError.message}`);
+      failures++;
+      continue;
+    }
+
+    const { error: updateError } = await admin
+      .from("project_deliverables")
+      .update({ file_url: to })
+      .eq("id", deliverable.id);
+    if (updateError) {
+      console.error(`  ❌ row update failed: ${updateError.message}`);
+      failures++;
+      continue;
+    }
+
+    const { error: removeError } = await admin.storage.from(LEGACY_BUCKET).remove([from]);
+    if (removeError) {
+      console.warn(`  ⚠️  moved, but the public copy was not removed: ${removeError.message}`);
+      failures++;
+      continue;
+    }
+
+    console.log("  ✅ moved");
+  }
+
+  if (failures > 0) {
+    console.error(`\n❌ ${failures} deliverable(s) need another run`);
+    process.exit(1);
+  }
+  console.log("\n✅ All mobile deliverables are in the private bucket");
+}
+
+moveMobileDeliverables().catch((error) => {
+  console.error("❌ Move failed:", error);
+  process.exit(1);
+});
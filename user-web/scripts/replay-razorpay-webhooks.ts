@@ -0,0 +1,139 @@
+/**
+ * Razorpay Webhook Replay Harness
+ * Signs the fixtures in scripts/fixtures/razorpay-webhooks and replays them
+ * against a running /api/payments/webhook, delivering each event twice to
+ * check that redeliveries are deduplicated.
+ *
+ * Usage:
+ *   RAZORPAY_WEBHOOK_SECRET=... PROFILE_ID=<uuid> PROJECT_ID=<unpaid project uuid> \
+ *     npx tsx scripts/replay-razorpay-webhooks.ts [fixture-name-filter]
+ *
+ * Optional: WEBHOOK_URL (default http://localhost:3000/api/payments/webhook)
+ */
+
+import { readdirSync, readFileSync } from "fs";
+import path from "path";
+import { signWebhookBody } from "@/lib/razorpay/webhook";
+
+interface WebhookFixture {
+  description: string;
+  eventId: string;
+  /** Expected status of the first delivery */
+  expect: "processed" | "ignored";
+  event: unknown;
+}
+
+interface WebhookResponse {
+  received?: boolean;
+  duplicate?: boolean;
+  status?: string;
+  message?: string;
+  error?: string;
+}
+
+const FIXTURES_DIR = path.join(__dirname, "fixtures", "razorpay-webhooks");
+
+/**
+ * Replaces {{PLACEHOLDER}} tokens in a fixture with run values
+ */
+function render(template: string, values: Record<string, string>): string {
+  return template.replace(/\{\{(\w+)\}\}/g, (match, key: string) => values[key] ?? match);
+}
+
+async function deliver(
+  url: string,
+  secret: string,
+  eventId: string,
+  body: string
+): Promise<{ status: number; json: WebhookResponse }> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Razorpay-Event-Id": eventId,
+      "X-Razorpay-Signature": signWebhookBody(body, secret),
+    },
+    body,
+  });
+
+  const json = (await response.json().catch(() => ({}))) as WebhookResponse;
+  return { status: response.status, json };
+}
+
+async function replayWebhooks() {
+  const secret = process.env.RAZORPAY_WEBHOOK_SECRET;
+  const profileId = process.env.PROFILE_ID;
+  const projectId = process.env.PROJECT_ID;
+  const url = process.env.WEBHOOK_URL || "http://localhost:3000/api/payments/webhook";
+  const filter = process.argv[2];
+
+  if (!secret || !profileId || !projectId) {
+    console.error("❌ RAZORPAY_WEBHOOK_SECRET, PROFILE_ID and PROJECT_ID are required");
+    process.exit(1);
+  }
+
+  const values = {
+    RUN_ID: Date.now().toString(36),
+    PROFILE_ID: profileId,
+    PROJECT_ID: projectId,
+  };
+
+  const files = readdirSync(FIXTURES_DIR)
+    .filter((file) => file.endsWith(".json"))
+    .filter((file) => !filter || file.includes(filter))
+    .sort();
+
+  console.log(`🔁 Replaying ${files.length} webhook fixture(s) against ${url} (run ${values.RUN_ID})\n`);
+
+  let failures = 0;
+
+  for (const file of files) {
+    const fixture: WebhookFixture = JSON.parse(
+      render(readFileSync(path.join(FIXTURES_DIR, file), "utf8"), values)
+    );
+    const body = JSON.stringify(fixture.event);
+
+    console.log(`▶ ${file}: ${fixture.description}`);
+
+    const first = await deliver(url, secret, fixture.eventId, body);
+    const firstOk = first.status === 200 && first.json.status === fixture.expect;
+    console.log(
+      `  ${firstOk ? "✅" : "❌"} first delivery: HTTP ${first.status}, status=${first.json.status ?? first.json.error} (expected ${fixture.expect})`
+    );
+    if (first.json.message) console.log(`     ${first.json.message}`);
+
+    const replay = await deliver(url, secret, fixture.eventId, body);
+    const replayOk = replay.status === 200 && replay.json.duplicate === true;
+    console.log(
+      `  ${replayOk ? "✅" : "❌"} redelivery: HTTP ${replay.status}, duplicate=${String(replay.json.duplicate)}`
+    );
+
+    if (!firstOk || !replayOk) failures++;
+    console.log("");
+  }
+
+  // A tampered signature must always be rejected
+  const tampered = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Razorpay-Event-Id": `evt_tampered_${values.RUN_ID}`,
+      "X-Razorpay-Signature": "0".repeat(64),
+    },
+    body: JSON.stringify({ entity: "event", event: "payment.captured", payload: {} }),
+  });
+  const tamperedOk = tampered.status === 400;
+  console.log(`${tamperedOk ? "✅" : "❌"} tampered signature rejected: HTTP ${tampered.status}\n`);
+  if (!tamperedOk) failures++;
+
+  if (failures > 0) {
+    console.error(`❌ ${failures} check(s) failed`);
+    process.exit(1);
+  }
+  console.log("✅ All webhook fixtures replayed as expected");
+}
+
+replayWebhooks().catch((error) => {
+  console.error("❌ Replay failed:", error);
+  process.exit(1);
+});
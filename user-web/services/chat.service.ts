@@ -2,6 +2,14 @@ import { createClient } from '@/lib/supabase/client'
 import type { Database } from '@/types/database'
 import type { RealtimeChannel } from '@supabase/supabase-js'
 import { validateBrowserFile, sanitizeFileName } from '@/lib/validations/file-upload'
+import { CHAT_MESSAGE_BLOCKED_MESSAGE } from '@/lib/validations/chat-content'
+import {
+  CHAT_RECEIPT_EVENT,
+  chatRoomTopic,
+  type ChatReceipt,
+  type ChatReceiptEvent,
+  type ReceiptParticipant,
+} from '@shared/chat-receipts'
 
 /**
  * Type aliases for chat-related tables
@@ -38,6 +46,11 @@ interface MessageWithSender extends ChatMessage {
  */
 type MessageCallback = (message: ChatMessage) => void
 
+/**
+ * Callback for delivery / read receipts broadcast on the room channel
+ */
+type ReceiptCallback = (event: ChatReceiptEvent) => void
+
 const supabase = createClient()
 
 /**
@@ -134,7 +147,7 @@ export const chatService = {
     // Get rooms where user is a participant
     const { data: participations, error: partError } = await supabase
       .from('chat_participants')
-      .select('chat_room_id')
+      .select('chat_room_id, last_read_at')
       .eq('profile_id', userId)
 
     if (partError) throw partError
@@ -142,6 +155,8 @@ export const chatService = {
     const roomIds = participations.map((p) => p.chat_room_id)
     if (roomIds.length === 0) return []
 
+    const lastReadAt = new Map(participations.map((p) => [p.chat_room_id, p.last_read_at]))
+
     // Get room details
     const { data: rooms, error: roomError } = await supabase
       .from('chat_rooms')
@@ -163,13 +178,13 @@ export const chatService = {
           .limit(1)
           .single()
 
-        // Get unread count
+        // Get unread count (messages since the user last read the room)
         const { count } = await supabase
           .from('chat_messages')
           .select('*', { count: 'exact', head: true })
           .eq('chat_room_id', room.id)
           .neq('sender_id', userId)
-          .eq('is_read', false)
+          .gt('created_at', lastReadAt.get(room.id) || '1970-01-01')
 
         return {
           ...room,
@@ -220,7 +235,8 @@ export const chatService = {
    * @param senderId - The sender's profile ID
    * @param content - The message content
    * @param attachmentUrl - Optional attachment URL
-   * @returns The sent message
+   * @returns The sent message (with contact details redacted by the server if needed)
+   * @throws When the server-side moderation trigger drops the message
    */
   async sendMessage(
     roomId: string,
@@ -240,9 +256,10 @@ export const chatService = {
       .from('chat_messages')
       .insert(messageData)
       .select()
-      .single()
+      .maybeSingle()
 
     if (error) throw error
+    if (!data) throw new Error(CHAT_MESSAGE_BLOCKED_MESSAGE)
 
     // Update room's updated_at
     await supabase
@@ -288,19 +305,73 @@ export const chatService = {
   },
 
   /**
-   * Marks messages as read.
+   * Marks every message in a room as read and resets the unread count.
+   * Other participants see the ticks change through the room channel.
    * @param roomId - The chat room UUID
    * @param userId - The reader's profile ID
    */
   async markAsRead(roomId: string, userId: string): Promise<void> {
-    const { error } = await supabase
-      .from('chat_messages')
-      .update({ is_read: true, read_at: new Date().toISOString() })
+    const { error } = await supabase.rpc('mark_room_messages_as_read', {
+      p_chat_room_id: roomId,
+      p_profile_id: userId,
+    })
+
+    if (error) throw error
+  },
+
+  /**
+   * Marks messages as delivered to the user.
+   * @param userId - The recipient's profile ID
+   * @param roomId - One room, or every room the user is in when omitted
+   */
+  async markAsDelivered(userId: string, roomId?: string): Promise<void> {
+    const { error } = await supabase.rpc('mark_chat_messages_delivered', {
+      p_profile_id: userId,
+      p_chat_room_id: roomId ?? null,
+    })
+
+    if (error) throw error
+  },
+
+  /**
+   * Gets delivery / read receipts for messages.
+   * @param messageIds - The message UUIDs
+   * @returns One receipt per message and recipient
+   */
+  async getReceipts(messageIds: string[]): Promise<ChatReceipt[]> {
+    if (messageIds.length === 0) return []
+
+    const { data, error } = await supabase
+      .from('chat_read_receipts')
+      .select('message_id, profile_id, delivered_at, read_at')
+      .in('message_id', messageIds)
+
+    if (error) throw error
+    return (data || []) as ChatReceipt[]
+  },
+
+  /**
+   * Gets the participants of a chat room for per-participant receipts.
+   * @param roomId - The chat room UUID
+   * @returns Participants with display names
+   */
+  async getParticipants(roomId: string): Promise<ReceiptParticipant[]> {
+    const { data, error } = await supabase
+      .from('chat_participants')
+      .select('profile_id, participant_role, profiles(full_name)')
       .eq('chat_room_id', roomId)
-      .neq('sender_id', userId)
-      .eq('is_read', false)
 
     if (error) throw error
+
+    return ((data || []) as unknown as {
+      profile_id: string
+      participant_role: string
+      profiles: { full_name: string | null } | null
+    }[]).map((p) => ({
+      profile_id: p.profile_id,
+      name: p.profiles?.full_name || p.participant_role,
+      role: p.participant_role,
+    }))
   },
 
   /**
@@ -313,12 +384,17 @@ export const chatService = {
   },
 
   /**
-   * Subscribes to new messages in a chat room.
+   * Subscribes to new messages and receipts in a chat room.
    * @param roomId - The chat room UUID
    * @param callback - Function to call when new message arrives
+   * @param onReceipt - Function to call when a participant receives / reads messages
    * @returns Cleanup function
    */
-  subscribeToRoom(roomId: string, callback: MessageCallback): () => void {
+  subscribeToRoom(
+    roomId: string,
+    callback: MessageCallback,
+    onReceipt?: ReceiptCallback
+  ): () => void {
     // Unsubscribe from existing subscription if any
     const existingChannel = this.subscriptions.get(roomId)
     if (existingChannel) {
@@ -327,7 +403,7 @@ export const chatService = {
 
     // Create new subscription
     const channel = supabase
-      .channel(`chat:${roomId}`)
+      .channel(chatRoomTopic(roomId))
       .on(
         'postgres_changes',
         {
@@ -340,6 +416,9 @@ export const chatService = {
           callback(payload.new as ChatMessage)
         }
       )
+      .on('broadcast', { event: CHAT_RECEIPT_EVENT }, ({ payload }) => {
+        onReceipt?.(payload as ChatReceiptEvent)
+      })
       .subscribe()
 
     this.subscriptions.set(roomId, channel)
@@ -373,13 +452,25 @@ export const chatService = {
         async (payload) => {
           const message = payload.new as ChatMessage
           if (message.sender_id !== userId) {
+            // The message has reached this user's app
+            this.markAsDelivered(userId, message.chat_room_id).catch((error) =>
+              console.error('Error marking messages delivered:', error)
+            )
+
             // Get unread count for the room
+            const { data: participant } = await supabase
+              .from('chat_participants')
+              .select('last_read_at')
+              .eq('chat_room_id', message.chat_room_id)
+              .eq('profile_id', userId)
+              .maybeSingle()
+
             const { count } = await supabase
               .from('chat_messages')
               .select('*', { count: 'exact', head: true })
               .eq('chat_room_id', message.chat_room_id)
               .neq('sender_id', userId)
-              .eq('is_read', false)
+              .gt('created_at', participant?.last_read_at || '1970-01-01')
 
             callback(message.chat_room_id, count || 0)
           }
@@ -401,22 +492,27 @@ export const chatService = {
     // Get rooms where user is a participant
     const { data: participations } = await supabase
       .from('chat_participants')
-      .select('chat_room_id')
+      .select('chat_room_id, last_read_at')
       .eq('profile_id', userId)
 
     if (!participations || participations.length === 0) return 0
 
-    const roomIds = participations.map((p) => p.chat_room_id)
+    // Messages since the user last read each room
+    const counts = await Promise.all(
+      participations.map(async (p) => {
+        const { count, error } = await supabase
+          .from('chat_messages')
+          .select('*', { count: 'exact', head: true })
+          .eq('chat_room_id', p.chat_room_id)
+          .neq('sender_id', userId)
+          .gt('created_at', p.last_read_at || '1970-01-01')
 
-    const { count, error } = await supabase
-      .from('chat_messages')
-      .select('*', { count: 'exact', head: true })
-      .in('chat_room_id', roomIds)
-      .neq('sender_id', userId)
-      .eq('is_read', false)
+        if (error) throw error
+        return count || 0
+      })
+    )
 
-    if (error) throw error
-    return count || 0
+    return counts.reduce((total, count) => total + count, 0)
   },
 
   /**
@@ -439,4 +535,5 @@ export type {
   ChatRoomWithDetails,
   MessageWithSender,
   MessageCallback,
+  ReceiptCallback,
 }
@@ -61,3 +61,11 @@ export type {
   NotificationFilters,
   NotificationCallback,
 } from './notification.service'
+
+export { pricingService } from './pricing.service'
+export type {
+  PricingComplexity,
+  UrgencyBand,
+  PriceInput,
+  PricingBreakdown,
+} from './pricing.service'
@@ -1,6 +1,11 @@
 import { createClient } from '@/lib/supabase/client'
 import type { Database } from '@/types/database'
 import type { RealtimeChannel } from '@supabase/supabase-js'
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  DEFAULT_QUIET_HOURS_TIMEZONE,
+  type QuietHours,
+} from '@/lib/notifications/preferences'
 
 /**
  * Type alias for notifications table
@@ -307,21 +312,17 @@ export const notificationService = {
     if (error) {
       if (error.code === 'PGRST116') {
         // Return defaults
-        return {
-          email_quotes: true,
-          email_status: true,
-          email_chat: false,
-          push_quotes: true,
-          push_status: true,
-          push_chat: true,
-          whatsapp_quotes: true,
-          whatsapp_status: true,
-        }
+        return { ...DEFAULT_NOTIFICATION_PREFERENCES }
       }
       throw error
     }
 
-    return data.preferences as Record<string, boolean>
+    // Keys added since the row was saved fall back to the defaults,
+    // the same way the notification outbox routes them
+    return {
+      ...DEFAULT_NOTIFICATION_PREFERENCES,
+      ...(data.preferences as Record<string, boolean>),
+    }
   },
 
   /**
@@ -343,6 +344,46 @@ export const notificationService = {
 
     if (error) throw error
   },
+
+  /**
+   * Gets quiet hours, during which push and WhatsApp notifications are held back.
+   * @param userId - The user's profile ID
+   * @returns Quiet hours ("HH:MM"), null start / end when off
+   */
+  async getQuietHours(userId: string): Promise<QuietHours> {
+    const { data, error } = await supabase
+      .from('notification_preferences')
+      .select('quiet_hours_start, quiet_hours_end, timezone')
+      .eq('profile_id', userId)
+      .maybeSingle()
+
+    if (error) throw error
+
+    return {
+      start: data?.quiet_hours_start?.slice(0, 5) ?? null,
+      end: data?.quiet_hours_end?.slice(0, 5) ?? null,
+      timezone: data?.timezone || DEFAULT_QUIET_HOURS_TIMEZONE,
+    }
+  },
+
+  /**
+   * Updates quiet hours. Pass null start / end to turn them off.
+   * @param userId - The user's profile ID
+   * @param quietHours - Window as "HH:MM" wall clock times in the timezone
+   */
+  async updateQuietHours(userId: string, quietHours: QuietHours): Promise<void> {
+    const { error } = await supabase
+      .from('notification_preferences')
+      .upsert({
+        profile_id: userId,
+        quiet_hours_start: quietHours.start,
+        quiet_hours_end: quietHours.end,
+        timezone: quietHours.timezone,
+        updated_at: new Date().toISOString(),
+      })
+
+    if (error) throw error
+  },
 }
 
 // Re-export types
@@ -0,0 +1,103 @@
+import { createClient } from '@/lib/supabase/client'
+import type { Database } from '@/types/database'
+
+/**
+ * Service type
+ */
+type ServiceType = Database['public']['Enums']['service_type']
+
+/**
+ * Complexity level used by pricing guides
+ */
+type PricingComplexity = 'easy' | 'medium' | 'hard'
+
+/**
+ * Urgency band derived from the time left until the deadline
+ */
+type UrgencyBand = 'standard' | '72h' | '48h' | '24h'
+
+/**
+ * Inputs to the pricing engine
+ */
+interface PriceInput {
+  serviceType: ServiceType
+  /** Subject id or slug; falls back to the service type's default guide */
+  subject?: string | null
+  wordCount?: number | null
+  pageCount?: number | null
+  deadline?: Date | string | null
+  complexity?: PricingComplexity
+  /** GST-inclusive amount to split instead of calculating one */
+  clientTotal?: number | null
+}
+
+/**
+ * Itemised price returned by calculate_project_price.
+ * `total` is what the student pays; the splits are taken from `subtotal`.
+ */
+interface PricingBreakdown {
+  guide_id: string
+  service_type: ServiceType
+  subject_id: string | null
+  pricing_unit: 'word' | 'page' | 'fixed'
+  units: number
+  unit_rate: number
+  base_price: number
+  urgency_band: UrgencyBand
+  urgency_multiplier: number
+  urgency_fee: number
+  urgency_multipliers: Record<Exclude<UrgencyBand, 'standard'>, number>
+  complexity: PricingComplexity
+  complexity_multiplier: number
+  complexity_fee: number
+  subtotal: number
+  gst_percentage: number
+  gst_amount: number
+  total: number
+  doer_payout: number
+  doer_percentage: number
+  supervisor_commission: number
+  supervisor_percentage: number
+  platform_fee: number
+  platform_percentage: number
+}
+
+const supabase = createClient()
+
+/**
+ * Pricing service.
+ * All prices come from the calculate_project_price RPC, which the
+ * supervisor app also uses, so estimates and quotes always agree.
+ */
+export const pricingService = {
+  /**
+   * Calculates an itemised price from the matching pricing guide.
+   * @param input - Service, subject, size, deadline and complexity
+   * @returns Price breakdown including GST and payout split
+   */
+  async getPriceBreakdown(input: PriceInput): Promise<PricingBreakdown> {
+    const deadline =
+      input.deadline instanceof Date ? input.deadline.toISOString() : input.deadline
+
+    const { data, error } = await supabase.rpc('calculate_project_price', {
+      p_service_type: input.serviceType,
+      p_subject: input.subject || null,
+      p_word_count: input.wordCount || null,
+      p_page_count: input.pageCount || null,
+      p_deadline: deadline || null,
+      p_complexity: input.complexity || 'easy',
+      p_client_total: input.clientTotal ?? null,
+    })
+
+    if (error) throw error
+    return data as PricingBreakdown
+  },
+}
+
+export type {
+  ServiceType,
+  PricingComplexity,
+  UrgencyBand,
+  PriceInput,
+  PricingBreakdown,
+}
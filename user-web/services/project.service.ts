@@ -5,6 +5,7 @@ import {
   sanitizeFileName,
   type AllowedMimeType,
 } from '@/lib/validations/file-upload'
+import { PROJECT_TRANSITION_RPC, unwrapProjectTransition } from '@shared/project-status'
 
 /**
  * Type aliases for project-related tables
@@ -243,17 +244,22 @@ export const projectService = {
    * @param projectId - The project UUID
    * @param feedback - Optional feedback
    * @param grade - Optional grade received
+   * @throws ProjectTransitionError if the project can't be completed yet
    */
   async approveProject(projectId: string, feedback?: string, grade?: string): Promise<Project> {
+    unwrapProjectTransition(
+      await supabase.rpc(PROJECT_TRANSITION_RPC, {
+        p_project_id: projectId,
+        p_to_status: 'completed',
+        p_reason: feedback,
+      })
+    )
+
     const { data, error } = await supabase
       .from('projects')
       .update({
-        status: 'completed',
-        user_approved: true,
-        user_approved_at: new Date().toISOString(),
         user_feedback: feedback,
         user_grade: grade,
-        completed_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
       })
       .eq('id', projectId)
@@ -268,16 +274,17 @@ export const projectService = {
    * Requests revision for a project.
    * @param projectId - The project UUID
    * @param feedback - The revision feedback/instructions
+   * @throws ProjectTransitionError if the project can't go back for revision
    */
   async requestRevision(projectId: string, feedback: string): Promise<ProjectRevision> {
     // Update project status
-    await supabase
-      .from('projects')
-      .update({
-        status: 'revision_requested',
-        updated_at: new Date().toISOString(),
+    unwrapProjectTransition(
+      await supabase.rpc(PROJECT_TRANSITION_RPC, {
+        p_project_id: projectId,
+        p_to_status: 'revision_requested',
+        p_reason: feedback,
       })
-      .eq('id', projectId)
+    )
 
     // Create revision record
     const { data, error } = await supabase
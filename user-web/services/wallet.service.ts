@@ -267,11 +267,13 @@ export const walletService = {
    * Creates a partial payment order (wallet + Razorpay).
    * @param projectId - The project UUID
    * @param razorpayAmount - Amount to charge via Razorpay in INR
+   * @param walletAmount - Amount to deduct from wallet in INR (lets the webhook settle the payment)
    * @returns Razorpay order details
    */
   async createPartialPaymentOrder(
     projectId: string,
-    razorpayAmount: number
+    razorpayAmount: number,
+    walletAmount: number
   ): Promise<RazorpayOrder> {
     const shortId = projectId.substring(0, 8)
     const shortTime = Date.now().toString().slice(-10)
@@ -287,6 +289,8 @@ export const walletService = {
         notes: {
           type: 'partial_payment',
           project_id: projectId,
+          wallet_amount: walletAmount,
+          total_amount: walletAmount + razorpayAmount,
         },
       }),
     })
@@ -337,6 +341,74 @@ export const walletService = {
     return response.json()
   },
 
+  /**
+   * Creates a payment order for a consultation booking.
+   * @param bookingId - The pending booking UUID (from bookExpertSession)
+   * @param amount - Booking total in INR
+   * @returns Razorpay order details
+   */
+  async createExpertBookingOrder(
+    bookingId: string,
+    amount: number
+  ): Promise<RazorpayOrder> {
+    const shortId = bookingId.substring(0, 8)
+    const shortTime = Date.now().toString().slice(-10)
+    const receipt = `eb_${shortId}_${shortTime}` // eb = expert booking
+
+    const response = await fetch('/api/payments/create-order', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        amount: amount * 100,
+        currency: 'INR',
+        receipt,
+        notes: {
+          type: 'expert_booking',
+          booking_id: bookingId,
+        },
+      }),
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      throw new Error(errorData.error || `Failed to create order (${response.status})`)
+    }
+
+    return response.json()
+  },
+
+  /**
+   * Verifies a consultation payment and confirms the booking.
+   * @param profileId - The user's profile ID
+   * @param bookingId - The booking UUID
+   * @param paymentData - Razorpay payment verification data
+   * @param amount - Amount paid in INR
+   */
+  async verifyExpertBookingPayment(
+    profileId: string,
+    bookingId: string,
+    paymentData: PaymentVerification,
+    amount: number
+  ): Promise<{ booking_id: string; status: string; refunded_to_wallet?: number; message: string }> {
+    const response = await fetch('/api/payments/verify', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        ...paymentData,
+        profile_id: profileId,
+        amount,
+        booking_id: bookingId,
+      }),
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      throw new Error(errorData.error || `Payment verification failed (${response.status})`)
+    }
+
+    return response.json()
+  },
+
   /**
    * Gets user's saved payment methods.
    * @param profileId - The user's profile ID
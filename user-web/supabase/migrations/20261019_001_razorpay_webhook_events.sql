@@ -0,0 +1,502 @@
+-- ============================================================================
+-- Razorpay Webhook Events
+-- ============================================================================
+-- Stores every Razorpay webhook delivery keyed on its event id so that
+-- /api/payments/webhook applies each event exactly once, even when Razorpay
+-- retries a delivery or the browser has already called /api/payments/verify.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS razorpay_webhook_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id TEXT NOT NULL UNIQUE,
+  idempotency_key TEXT NOT NULL UNIQUE,
+  event_type TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'processing'
+    CHECK (status IN ('processing', 'processed', 'ignored', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 1,
+  result_message TEXT,
+  last_error TEXT,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  processed_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_razorpay_webhook_events_type ON razorpay_webhook_events(event_type);
+CREATE INDEX IF NOT EXISTS idx_razorpay_webhook_events_status ON razorpay_webhook_events(status);
+CREATE INDEX IF NOT EXISTS idx_razorpay_webhook_events_received_at ON razorpay_webhook_events(received_at DESC);
+
+-- Only the service role (used by the webhook route) may touch this table
+ALTER TABLE razorpay_webhook_events ENABLE ROW LEVEL SECURITY;
+
+-- One payments row per Razorpay payment so captured/failed/refund events
+-- can be reconciled against the same record. A full constraint, not a
+-- partial index: the webhook upserts ON CONFLICT (gateway_payment_id), which
+-- cannot use a partial one. NULLs stay distinct, so rows without a Razorpay
+-- payment are unaffected.
+DROP INDEX IF EXISTS idx_payments_gateway_payment_id;
+ALTER TABLE payments DROP CONSTRAINT IF EXISTS payments_gateway_payment_id_key;
+ALTER TABLE payments ADD CONSTRAINT payments_gateway_payment_id_key UNIQUE (gateway_payment_id);
+
+-- One top-up credit per Razorpay payment, whatever path applied it
+CREATE UNIQUE INDEX IF NOT EXISTS idx_wallet_transactions_razorpay_topup
+  ON wallet_transactions(notes)
+  WHERE reference_type = 'razorpay_topup';
+
+-- Function: Claim a webhook event for processing
+-- Returns claimed = true only for the first delivery of an event, or for a
+-- redelivery of an event whose previous attempt failed or was abandoned
+-- (still processing after 5 minutes, e.g. the function crashed or timed out)
+CREATE OR REPLACE FUNCTION claim_razorpay_webhook_event(
+  p_event_id TEXT,
+  p_idempotency_key TEXT,
+  p_event_type TEXT,
+  p_payload JSONB
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_status TEXT;
+  v_updated_at TIMESTAMPTZ;
+BEGIN
+  -- Lock the existing event row (if any) to serialise concurrent deliveries
+  SELECT status, updated_at INTO v_status, v_updated_at
+  FROM razorpay_webhook_events
+  WHERE event_id = p_event_id
+  FOR UPDATE;
+
+  IF v_status IS NULL THEN
+    BEGIN
+      INSERT INTO razorpay_webhook_events (
+        event_id,
+        idempotency_key,
+        event_type,
+        payload
+      ) VALUES (
+        p_event_id,
+        p_idempotency_key,
+        p_event_type,
+        p_payload
+      );
+    EXCEPTION WHEN unique_violation THEN
+      -- Another delivery of the same event won the race
+      RETURN json_build_object('claimed', false, 'status', 'processing');
+    END;
+
+    RETURN json_build_object('claimed', true, 'status', 'processing');
+  END IF;
+
+  IF v_status = 'failed'
+     OR (v_status = 'processing' AND v_updated_at < NOW() - INTERVAL '5 minutes') THEN
+    UPDATE razorpay_webhook_events
+    SET status = 'processing',
+        attempts = attempts + 1,
+        updated_at = NOW()
+    WHERE event_id = p_event_id;
+
+    RETURN json_build_object('claimed', true, 'status', 'processing');
+  END IF;
+
+  RETURN json_build_object('claimed', false, 'status', v_status);
+END;
+$$;
+
+-- Function: Record the outcome of a claimed webhook event
+CREATE OR REPLACE FUNCTION complete_razorpay_webhook_event(
+  p_event_id TEXT,
+  p_status TEXT,
+  p_message TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF p_status NOT IN ('processed', 'ignored', 'failed') THEN
+    RAISE EXCEPTION 'Invalid webhook event status: %', p_status;
+  END IF;
+
+  UPDATE razorpay_webhook_events
+  SET status = p_status,
+      result_message = CASE WHEN p_status = 'failed' THEN result_message ELSE p_message END,
+      last_error = CASE WHEN p_status = 'failed' THEN p_message ELSE last_error END,
+      processed_at = CASE WHEN p_status = 'failed' THEN processed_at ELSE NOW() END,
+      updated_at = NOW()
+  WHERE event_id = p_event_id;
+END;
+$$;
+
+-- Function: Credit a Razorpay wallet top-up exactly once per payment
+-- Replaces the version from 20241231_atomic_wallet_transactions.sql, which
+-- wrote columns wallet_transactions does not have. The webhook
+-- (payment.captured and order.paid carry different event ids) and
+-- /api/payments/verify may both apply the same payment; the check for an
+-- earlier credit runs under the wallet lock, so only the first one credits.
+-- The Razorpay payment id is kept in notes (reference_id is a UUID), and
+-- wallet_balance_trigger moves the balance.
+CREATE OR REPLACE FUNCTION process_wallet_topup(
+  p_profile_id UUID,
+  p_amount DECIMAL,
+  p_razorpay_order_id TEXT,
+  p_razorpay_payment_id TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_wallet_id UUID;
+  v_old_balance DECIMAL;
+  v_new_balance DECIMAL;
+  v_transaction_id UUID;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Invalid top-up amount';
+  END IF;
+
+  -- Lock the wallet row to prevent concurrent modifications
+  SELECT id, balance INTO v_wallet_id, v_old_balance
+  FROM wallets
+  WHERE profile_id = p_profile_id
+  FOR UPDATE;
+
+  IF v_wallet_id IS NULL THEN
+    RAISE EXCEPTION 'Wallet not found for profile %', p_profile_id;
+  END IF;
+
+  SELECT id INTO v_transaction_id
+  FROM wallet_transactions
+  WHERE reference_type = 'razorpay_topup'
+    AND notes = p_razorpay_payment_id
+  LIMIT 1;
+
+  IF v_transaction_id IS NOT NULL THEN
+    RETURN json_build_object(
+      'success', true,
+      'already_processed', true,
+      'transaction_id', v_transaction_id,
+      'new_balance', v_old_balance
+    );
+  END IF;
+
+  v_new_balance := v_old_balance + p_amount;
+
+  INSERT INTO wallet_transactions (
+    wallet_id,
+    transaction_type,
+    amount,
+    balance_before,
+    balance_after,
+    reference_type,
+    description,
+    notes,
+    status
+  ) VALUES (
+    v_wallet_id,
+    'top_up',
+    p_amount,
+    v_old_balance,
+    v_new_balance,
+    'razorpay_topup',
+    'Wallet top-up via Razorpay (order ' || COALESCE(p_razorpay_order_id, 'n/a') || ')',
+    p_razorpay_payment_id,
+    'completed'
+  )
+  RETURNING id INTO v_transaction_id;
+
+  INSERT INTO activity_logs (
+    profile_id,
+    action,
+    action_category,
+    description,
+    metadata
+  ) VALUES (
+    p_profile_id,
+    'payment_verified',
+    'payment',
+    'Wallet top-up: ' || p_razorpay_payment_id,
+    jsonb_build_object(
+      'payment_id', p_razorpay_payment_id,
+      'order_id', p_razorpay_order_id,
+      'amount', p_amount,
+      'type', 'topup',
+      'old_balance', v_old_balance,
+      'new_balance', v_new_balance
+    )
+  );
+
+  RETURN json_build_object(
+    'success', true,
+    'already_processed', false,
+    'transaction_id', v_transaction_id,
+    'old_balance', v_old_balance,
+    'new_balance', v_new_balance
+  );
+END;
+$$;
+
+-- Function: Mark a project paid by Razorpay exactly once
+-- Replaces the version from 20241231_atomic_wallet_transactions.sql. The
+-- webhook and /api/payments/verify may apply the same payment at the same
+-- time, so the paid check runs under the project lock and a second call
+-- returns already_processed. Razorpay money does not pass through the
+-- wallet, so no wallet transaction is written; projects.payment_id points at
+-- the payments row the webhook recorded, when there is one.
+CREATE OR REPLACE FUNCTION process_razorpay_project_payment(
+  p_profile_id UUID,
+  p_project_id UUID,
+  p_amount DECIMAL,
+  p_razorpay_order_id TEXT,
+  p_razorpay_payment_id TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_project_status project_status;
+  v_is_paid BOOLEAN;
+  v_payment_record_id UUID;
+BEGIN
+  -- Lock and verify project
+  SELECT status, is_paid INTO v_project_status, v_is_paid
+  FROM projects
+  WHERE id = p_project_id AND user_id = p_profile_id
+  FOR UPDATE;
+
+  IF v_project_status IS NULL THEN
+    RAISE EXCEPTION 'Project not found or unauthorized';
+  END IF;
+
+  IF v_is_paid THEN
+    RETURN json_build_object(
+      'success', true,
+      'already_processed', true,
+      'project_id', p_project_id,
+      'amount', p_amount,
+      'payment_method', 'razorpay'
+    );
+  END IF;
+
+  SELECT id INTO v_payment_record_id
+  FROM payments
+  WHERE gateway_payment_id = p_razorpay_payment_id;
+
+  UPDATE projects
+  SET is_paid = true,
+      paid_at = NOW(),
+      payment_id = v_payment_record_id,
+      status = CASE
+        WHEN status IN ('quoted', 'payment_pending') THEN 'paid'::project_status
+        ELSE status
+      END,
+      updated_at = NOW()
+  WHERE id = p_project_id;
+
+  INSERT INTO activity_logs (
+    profile_id,
+    action,
+    action_category,
+    target_type,
+    target_id,
+    description,
+    metadata
+  ) VALUES (
+    p_profile_id,
+    'payment_verified',
+    'payment',
+    'project',
+    p_project_id,
+    'Project payment: ' || p_razorpay_payment_id,
+    jsonb_build_object(
+      'payment_id', p_razorpay_payment_id,
+      'order_id', p_razorpay_order_id,
+      'amount', p_amount,
+      'type', 'project_payment',
+      'project_id', p_project_id
+    )
+  );
+
+  RETURN json_build_object(
+    'success', true,
+    'already_processed', false,
+    'project_id', p_project_id,
+    'amount', p_amount,
+    'payment_method', 'razorpay'
+  );
+END;
+$$;
+
+-- Function: Mark a project paid by wallet + Razorpay exactly once
+-- Replaces the version from 20260108_partial_payment.sql, which checked
+-- is_paid without a lock (a webhook racing /api/payments/partial-pay could
+-- debit the wallet twice) and moved the project to in_progress, skipping
+-- paid. wallet_balance_trigger applies the wallet debit.
+CREATE OR REPLACE FUNCTION process_partial_project_payment(
+  p_profile_id UUID,
+  p_project_id UUID,
+  p_total_amount NUMERIC,
+  p_wallet_amount NUMERIC,
+  p_razorpay_amount NUMERIC,
+  p_razorpay_order_id TEXT,
+  p_razorpay_payment_id TEXT
+) RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_wallet_id UUID;
+  v_wallet_transaction_id UUID;
+  v_old_balance DECIMAL;
+  v_new_balance DECIMAL;
+  v_project_status project_status;
+  v_is_paid BOOLEAN;
+  v_payment_record_id UUID;
+BEGIN
+  -- Lock and verify project
+  SELECT status, is_paid INTO v_project_status, v_is_paid
+  FROM projects
+  WHERE id = p_project_id AND user_id = p_profile_id
+  FOR UPDATE;
+
+  IF v_project_status IS NULL THEN
+    RAISE EXCEPTION 'Project not found or does not belong to user';
+  END IF;
+
+  IF v_is_paid THEN
+    RETURN json_build_object(
+      'already_processed', true,
+      'project_id', p_project_id,
+      'wallet_amount', p_wallet_amount,
+      'razorpay_amount', p_razorpay_amount,
+      'total_amount', p_total_amount,
+      'payment_method', 'partial'
+    );
+  END IF;
+
+  -- Validate amounts
+  IF p_wallet_amount < 0 OR p_razorpay_amount < 0 THEN
+    RAISE EXCEPTION 'Invalid payment amounts';
+  END IF;
+
+  IF (p_wallet_amount + p_razorpay_amount) != p_total_amount THEN
+    RAISE EXCEPTION 'Payment amounts do not match total';
+  END IF;
+
+  -- Lock the wallet row to prevent concurrent modifications
+  SELECT id, balance INTO v_wallet_id, v_old_balance
+  FROM wallets
+  WHERE profile_id = p_profile_id
+  FOR UPDATE;
+
+  IF v_wallet_id IS NULL THEN
+    RAISE EXCEPTION 'Wallet not found';
+  END IF;
+
+  -- Check sufficient wallet balance for wallet portion
+  IF p_wallet_amount > 0 AND v_old_balance < p_wallet_amount THEN
+    RAISE EXCEPTION 'Insufficient wallet balance. Available: %, Required: %', v_old_balance, p_wallet_amount;
+  END IF;
+
+  v_new_balance := v_old_balance - p_wallet_amount;
+
+  IF p_wallet_amount > 0 THEN
+    INSERT INTO wallet_transactions (
+      wallet_id,
+      transaction_type,
+      amount,
+      balance_before,
+      balance_after,
+      reference_type,
+      reference_id,
+      description,
+      notes,
+      status
+    ) VALUES (
+      v_wallet_id,
+      'debit',
+      p_wallet_amount,
+      v_old_balance,
+      v_new_balance,
+      'project_payment',
+      p_project_id,
+      'Partial payment from wallet',
+      jsonb_build_object(
+        'wallet_amount', p_wallet_amount,
+        'razorpay_amount', p_razorpay_amount,
+        'total_amount', p_total_amount,
+        'payment_type', 'partial'
+      )::text,
+      'completed'
+    ) RETURNING id INTO v_wallet_transaction_id;
+  END IF;
+
+  SELECT id INTO v_payment_record_id
+  FROM payments
+  WHERE gateway_payment_id = p_razorpay_payment_id;
+
+  UPDATE projects
+  SET is_paid = true,
+      paid_at = NOW(),
+      payment_id = v_payment_record_id,
+      status = CASE
+        WHEN status IN ('quoted', 'payment_pending') THEN 'paid'::project_status
+        ELSE status
+      END,
+      updated_at = NOW()
+  WHERE id = p_project_id;
+
+  INSERT INTO activity_logs (
+    profile_id,
+    action,
+    action_category,
+    target_type,
+    target_id,
+    description,
+    metadata
+  ) VALUES (
+    p_profile_id,
+    'project_payment_partial',
+    'payment',
+    'project',
+    p_project_id,
+    'Project paid: ₹' || p_wallet_amount || ' (wallet) + ₹' || p_razorpay_amount || ' (card)',
+    jsonb_build_object(
+      'total_amount', p_total_amount,
+      'wallet_amount', p_wallet_amount,
+      'razorpay_amount', p_razorpay_amount,
+      'project_id', p_project_id,
+      'wallet_transaction_id', v_wallet_transaction_id,
+      'razorpay_order_id', p_razorpay_order_id,
+      'razorpay_payment_id', p_razorpay_payment_id,
+      'payment_method', 'partial'
+    )
+  );
+
+  RETURN json_build_object(
+    'already_processed', false,
+    'wallet_transaction_id', v_wallet_transaction_id,
+    'new_balance', v_new_balance,
+    'project_id', p_project_id,
+    'wallet_amount', p_wallet_amount,
+    'razorpay_amount', p_razorpay_amount,
+    'total_amount', p_total_amount,
+    'payment_method', 'partial'
+  );
+END;
+$$;
+
+-- Webhooks are processed with the service role only
+REVOKE EXECUTE ON FUNCTION claim_razorpay_webhook_event FROM PUBLIC, authenticated, anon;
+REVOKE EXECUTE ON FUNCTION complete_razorpay_webhook_event FROM PUBLIC, authenticated, anon;
+GRANT EXECUTE ON FUNCTION claim_razorpay_webhook_event TO service_role;
+GRANT EXECUTE ON FUNCTION complete_razorpay_webhook_event TO service_role;
+
+COMMENT ON TABLE razorpay_webhook_events IS 'Razorpay webhook deliveries, deduplicated by event id';
+COMMENT ON FUNCTION claim_razorpay_webhook_event IS 'Claims a Razorpay webhook event for exactly-once processing';
+COMMENT ON FUNCTION process_wallet_topup IS 'Atomically credits a wallet top-up via Razorpay, once per payment';
+COMMENT ON FUNCTION process_razorpay_project_payment IS 'Atomically marks a project paid via Razorpay, once per project';
+COMMENT ON FUNCTION process_partial_project_payment IS 'Atomically marks a project paid via wallet + Razorpay, once per project';
+COMMENT ON FUNCTION complete_razorpay_webhook_event IS 'Marks a claimed Razorpay webhook event as processed, ignored or failed';
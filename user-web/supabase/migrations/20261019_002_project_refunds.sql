@@ -0,0 +1,305 @@
+-- ============================================================================
+-- Project Refunds
+-- ============================================================================
+-- Reverses money when a paid project is cancelled. The refund amount is
+-- decided by the policy engine in lib/refund-policy.ts and split across
+-- wallet and Razorpay in the proportion the project was charged. This
+-- function applies that decision atomically:
+--   - credits the wallet portion back to the user's wallet
+--   - records the Razorpay portion as pending on project_refunds; it never
+--     touches the wallet, since that money goes back to the card/UPI
+--   - claws back doer_payout / supervisor_commission / platform_fee accruals
+--   - moves the project to cancelled (no refund) or refunded through
+--     transition_project_status (20261019_020), as a system move
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS project_refunds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL UNIQUE REFERENCES projects(id) ON DELETE CASCADE,
+  profile_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  cancelled_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  reason TEXT,
+  policy_rule TEXT NOT NULL,
+  project_status TEXT NOT NULL,
+  amount_paid DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  refund_rate DECIMAL(5, 4) NOT NULL DEFAULT 0,
+  refund_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  wallet_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  razorpay_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  wallet_transaction_id UUID REFERENCES wallet_transactions(id) ON DELETE SET NULL,
+  razorpay_payment_id TEXT,
+  razorpay_refund_id TEXT UNIQUE,
+  razorpay_status TEXT NOT NULL DEFAULT 'not_applicable'
+    CHECK (razorpay_status IN ('not_applicable', 'pending', 'processing', 'processed', 'failed')),
+  razorpay_error TEXT,
+  doer_payout_clawback DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  supervisor_commission_clawback DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  platform_fee_clawback DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_refunds_profile_id ON project_refunds(profile_id);
+CREATE INDEX IF NOT EXISTS idx_project_refunds_razorpay_status ON project_refunds(razorpay_status);
+
+ALTER TABLE project_refunds ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can view refunds for their own projects
+CREATE POLICY "Users can view own refunds" ON project_refunds
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = profile_id);
+
+-- Function: Apply a project refund atomically
+-- Called with the service role only, after the server computed the policy
+CREATE OR REPLACE FUNCTION process_project_refund(
+  p_project_id UUID,
+  p_profile_id UUID,
+  p_cancelled_by UUID,
+  p_reason TEXT,
+  p_policy_rule TEXT,
+  p_amount_paid NUMERIC,
+  p_refund_rate NUMERIC,
+  p_wallet_amount NUMERIC,
+  p_razorpay_amount NUMERIC,
+  p_razorpay_payment_id TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_project RECORD;
+  v_wallet_id UUID;
+  v_old_balance DECIMAL;
+  v_new_balance DECIMAL;
+  v_refund_amount DECIMAL;
+  v_ratio DECIMAL;
+  v_doer_clawback DECIMAL := 0;
+  v_supervisor_clawback DECIMAL := 0;
+  v_platform_clawback DECIMAL := 0;
+  v_new_status project_status;
+  v_wallet_transaction_id UUID;
+  v_refund_id UUID;
+  v_transition JSON;
+BEGIN
+  -- Lock and verify project
+  SELECT id, user_id, status, project_number, is_paid,
+         doer_payout, supervisor_commission, platform_fee
+  INTO v_project
+  FROM projects
+  WHERE id = p_project_id
+  FOR UPDATE;
+
+  IF v_project.id IS NULL OR v_project.user_id <> p_profile_id THEN
+    RAISE EXCEPTION 'Project not found or unauthorized';
+  END IF;
+
+  IF v_project.status IN ('completed', 'auto_approved', 'cancelled', 'refunded') THEN
+    RAISE EXCEPTION 'Project cannot be cancelled from status %', v_project.status;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM project_refunds WHERE project_id = p_project_id) THEN
+    RAISE EXCEPTION 'Project has already been refunded';
+  END IF;
+
+  IF p_wallet_amount < 0 OR p_razorpay_amount < 0 THEN
+    RAISE EXCEPTION 'Invalid refund amounts';
+  END IF;
+
+  v_refund_amount := p_wallet_amount + p_razorpay_amount;
+
+  IF v_refund_amount > p_amount_paid THEN
+    RAISE EXCEPTION 'Refund % exceeds amount paid %', v_refund_amount, p_amount_paid;
+  END IF;
+
+  IF v_refund_amount > 0 AND NOT COALESCE(v_project.is_paid, false) THEN
+    RAISE EXCEPTION 'Project is not paid';
+  END IF;
+
+  -- Credit the wallet portion
+  IF p_wallet_amount > 0 THEN
+    SELECT id, balance INTO v_wallet_id, v_old_balance
+    FROM wallets
+    WHERE profile_id = p_profile_id
+    FOR UPDATE;
+
+    IF v_wallet_id IS NULL THEN
+      RAISE EXCEPTION 'Wallet not found for profile %', p_profile_id;
+    END IF;
+
+    v_new_balance := v_old_balance + p_wallet_amount;
+
+    -- wallet_balance_trigger credits the wallet
+    INSERT INTO wallet_transactions (
+      wallet_id,
+      transaction_type,
+      amount,
+      balance_before,
+      balance_after,
+      reference_type,
+      reference_id,
+      description,
+      notes,
+      status
+    ) VALUES (
+      v_wallet_id,
+      'refund',
+      p_wallet_amount,
+      v_old_balance,
+      v_new_balance,
+      'project_refund',
+      p_project_id,
+      'Refund for project ' || v_project.project_number,
+      jsonb_build_object(
+        'policy_rule', p_policy_rule,
+        'refund_rate', p_refund_rate,
+        'destination', 'wallet'
+      )::text,
+      'completed'
+    ) RETURNING id INTO v_wallet_transaction_id;
+
+    v_old_balance := v_new_balance;
+  END IF;
+
+  -- Claw back accruals in proportion to the refund
+  IF p_amount_paid > 0 THEN
+    v_ratio := v_refund_amount / p_amount_paid;
+    v_doer_clawback := ROUND(COALESCE(v_project.doer_payout, 0) * v_ratio, 2);
+    v_supervisor_clawback := ROUND(COALESCE(v_project.supervisor_commission, 0) * v_ratio, 2);
+    v_platform_clawback := ROUND(COALESCE(v_project.platform_fee, 0) * v_ratio, 2);
+  END IF;
+
+  v_new_status := CASE WHEN v_refund_amount > 0 THEN 'refunded' ELSE 'cancelled' END;
+
+  -- The refund decision was made server-side, so this is a system move
+  -- (users have no move to refunded); the history row still names who
+  -- cancelled
+  v_transition := transition_project_status(
+    p_project_id,
+    v_new_status,
+    COALESCE(p_reason, 'Project cancelled')
+  );
+
+  UPDATE project_status_history
+  SET changed_by = p_cancelled_by
+  WHERE id = (v_transition->>'history_id')::UUID;
+
+  UPDATE projects
+  SET cancelled_at = NOW(),
+      cancelled_by = p_cancelled_by,
+      cancellation_reason = p_reason,
+      doer_payout = COALESCE(doer_payout, 0) - v_doer_clawback,
+      supervisor_commission = COALESCE(supervisor_commission, 0) - v_supervisor_clawback,
+      platform_fee = COALESCE(platform_fee, 0) - v_platform_clawback,
+      updated_at = NOW()
+  WHERE id = p_project_id;
+
+  INSERT INTO project_refunds (
+    project_id,
+    profile_id,
+    cancelled_by,
+    reason,
+    policy_rule,
+    project_status,
+    amount_paid,
+    refund_rate,
+    refund_amount,
+    wallet_amount,
+    razorpay_amount,
+    wallet_transaction_id,
+    razorpay_payment_id,
+    razorpay_status,
+    doer_payout_clawback,
+    supervisor_commission_clawback,
+    platform_fee_clawback
+  ) VALUES (
+    p_project_id,
+    p_profile_id,
+    p_cancelled_by,
+    p_reason,
+    p_policy_rule,
+    v_project.status,
+    p_amount_paid,
+    p_refund_rate,
+    v_refund_amount,
+    p_wallet_amount,
+    p_razorpay_amount,
+    v_wallet_transaction_id,
+    p_razorpay_payment_id,
+    CASE WHEN p_razorpay_amount > 0 THEN 'pending' ELSE 'not_applicable' END,
+    v_doer_clawback,
+    v_supervisor_clawback,
+    v_platform_clawback
+  ) RETURNING id INTO v_refund_id;
+
+  -- Log activity
+  INSERT INTO activity_logs (
+    profile_id,
+    action,
+    action_category,
+    target_type,
+    target_id,
+    description,
+    metadata
+  ) VALUES (
+    p_cancelled_by,
+    'project_refunded',
+    'payment',
+    'project',
+    p_project_id,
+    'Project ' || v_project.project_number || ' cancelled, refund ₹' || v_refund_amount,
+    jsonb_build_object(
+      'refund_id', v_refund_id,
+      'policy_rule', p_policy_rule,
+      'refund_amount', v_refund_amount,
+      'wallet_amount', p_wallet_amount,
+      'razorpay_amount', p_razorpay_amount,
+      'doer_payout_clawback', v_doer_clawback,
+      'supervisor_commission_clawback', v_supervisor_clawback,
+      'platform_fee_clawback', v_platform_clawback
+    )
+  );
+
+  RETURN json_build_object(
+    'refund_id', v_refund_id,
+    'project_id', p_project_id,
+    'status', v_new_status,
+    'refund_amount', v_refund_amount,
+    'wallet_amount', p_wallet_amount,
+    'razorpay_amount', p_razorpay_amount,
+    'new_balance', v_old_balance
+  );
+END;
+$$;
+
+-- Function: Settle the Razorpay portion of a project refund
+-- Called by the Razorpay webhook (refund.processed) or after a failed API call
+CREATE OR REPLACE FUNCTION settle_project_refund(
+  p_refund_id UUID,
+  p_razorpay_status TEXT,
+  p_razorpay_refund_id TEXT DEFAULT NULL,
+  p_error TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE project_refunds
+  SET razorpay_status = p_razorpay_status,
+      razorpay_refund_id = COALESCE(p_razorpay_refund_id, razorpay_refund_id),
+      razorpay_error = p_error,
+      updated_at = NOW()
+  WHERE id = p_refund_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION process_project_refund FROM PUBLIC, authenticated, anon;
+REVOKE EXECUTE ON FUNCTION settle_project_refund FROM PUBLIC, authenticated, anon;
+GRANT EXECUTE ON FUNCTION process_project_refund TO service_role;
+GRANT EXECUTE ON FUNCTION settle_project_refund TO service_role;
+
+COMMENT ON TABLE project_refunds IS 'Refunds issued when paid projects are cancelled';
+COMMENT ON FUNCTION process_project_refund IS 'Atomically refunds a cancelled project across wallet and Razorpay and claws back payouts';
+COMMENT ON FUNCTION settle_project_refund IS 'Updates the Razorpay leg of a project refund';
@@ -0,0 +1,127 @@
+-- ============================================================================
+-- Rate Limit Buckets
+-- ============================================================================
+-- Shared counters for lib/rate-limit.ts when RATE_LIMIT_STORE=postgres, so
+-- API route limits hold across every Next.js instance and survive deploys.
+-- Windows are aligned to the Unix epoch (in milliseconds) so all instances
+-- agree on window boundaries.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+  key TEXT NOT NULL,
+  window_start BIGINT NOT NULL,
+  count INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (key, window_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_buckets_updated_at ON rate_limit_buckets(updated_at);
+
+-- Only the service role (used by API routes) may touch this table
+ALTER TABLE rate_limit_buckets ENABLE ROW LEVEL SECURITY;
+
+-- Function: Record a request against a rate limit key
+-- Fixed window counts requests in the current window only. Sliding window
+-- adds the previous window's count weighted by how much of it still overlaps
+-- the last p_window_ms. Rejected requests are not counted.
+CREATE OR REPLACE FUNCTION rate_limit_hit(
+  p_key TEXT,
+  p_limit INTEGER,
+  p_window_ms BIGINT,
+  p_sliding BOOLEAN DEFAULT FALSE
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_now BIGINT := (EXTRACT(EPOCH FROM clock_timestamp()) * 1000)::BIGINT;
+  v_window_start BIGINT;
+  v_current INTEGER;
+  v_previous INTEGER := 0;
+  v_used INTEGER;
+BEGIN
+  IF p_limit <= 0 OR p_window_ms <= 0 THEN
+    RAISE EXCEPTION 'Invalid rate limit: % per % ms', p_limit, p_window_ms;
+  END IF;
+
+  v_window_start := v_now - (v_now % p_window_ms);
+
+  INSERT INTO rate_limit_buckets (key, window_start, count)
+  VALUES (p_key, v_window_start, 0)
+  ON CONFLICT (key, window_start) DO NOTHING;
+
+  -- Lock the current window to serialise concurrent requests for this key
+  SELECT count INTO v_current
+  FROM rate_limit_buckets
+  WHERE key = p_key AND window_start = v_window_start
+  FOR UPDATE;
+
+  IF p_sliding THEN
+    SELECT COALESCE(
+      (SELECT count FROM rate_limit_buckets
+       WHERE key = p_key AND window_start = v_window_start - p_window_ms),
+      0
+    ) INTO v_previous;
+
+    v_used := FLOOR(
+      v_previous * GREATEST(0, 1 - (v_now - v_window_start)::NUMERIC / p_window_ms)
+    )::INTEGER + v_current;
+  ELSE
+    v_used := v_current;
+  END IF;
+
+  IF v_used >= p_limit THEN
+    RETURN json_build_object(
+      'success', false,
+      'remaining', 0,
+      'reset', v_window_start + p_window_ms
+    );
+  END IF;
+
+  UPDATE rate_limit_buckets
+  SET count = count + 1,
+      updated_at = NOW()
+  WHERE key = p_key AND window_start = v_window_start;
+
+  -- Windows older than the previous one are never read again
+  DELETE FROM rate_limit_buckets
+  WHERE key = p_key AND window_start < v_window_start - p_window_ms;
+
+  RETURN json_build_object(
+    'success', true,
+    'remaining', p_limit - v_used - 1,
+    'reset', v_window_start + p_window_ms
+  );
+END;
+$$;
+
+-- Function: Remove buckets for keys that have gone quiet
+-- Safe to run on a schedule (e.g. pg_cron every hour)
+CREATE OR REPLACE FUNCTION cleanup_rate_limit_buckets(
+  p_older_than INTERVAL DEFAULT INTERVAL '1 day'
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_deleted INTEGER;
+BEGIN
+  DELETE FROM rate_limit_buckets
+  WHERE updated_at < NOW() - p_older_than;
+
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+  RETURN v_deleted;
+END;
+$$;
+
+-- Rate limits are enforced with the service role only
+REVOKE EXECUTE ON FUNCTION rate_limit_hit FROM PUBLIC, authenticated, anon;
+REVOKE EXECUTE ON FUNCTION cleanup_rate_limit_buckets FROM PUBLIC, authenticated, anon;
+GRANT EXECUTE ON FUNCTION rate_limit_hit TO service_role;
+GRANT EXECUTE ON FUNCTION cleanup_rate_limit_buckets TO service_role;
+
+COMMENT ON TABLE rate_limit_buckets IS 'Per-window request counters shared by all API instances';
+COMMENT ON FUNCTION rate_limit_hit IS 'Atomically counts a request against a fixed or sliding window rate limit';
+COMMENT ON FUNCTION cleanup_rate_limit_buckets IS 'Deletes rate limit buckets not touched within the given interval';
@@ -0,0 +1,213 @@
+-- ============================================================================
+-- Pricing Engine
+-- ============================================================================
+-- Single source of truth for project pricing. The student's price estimate
+-- (user-web) and the supervisor's suggested quote (superviser-web) both call
+-- calculate_project_price, which reads the matching pricing_guides row and
+-- returns an itemised breakdown: base price, urgency and complexity fees,
+-- GST, and the doer / supervisor / platform split.
+-- ============================================================================
+
+ALTER TABLE pricing_guides
+  ADD COLUMN IF NOT EXISTS gst_percentage NUMERIC NOT NULL DEFAULT 18,
+  ADD COLUMN IF NOT EXISTS minimum_price NUMERIC NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN pricing_guides.gst_percentage IS 'GST charged on top of the service price, in percent';
+COMMENT ON COLUMN pricing_guides.minimum_price IS 'Floor for the service price before GST';
+
+CREATE INDEX IF NOT EXISTS idx_pricing_guides_lookup
+  ON pricing_guides(service_type, subject_id)
+  WHERE is_active = true;
+
+-- Default guides, matching the prices the apps used before the engine existed
+INSERT INTO pricing_guides (
+  service_type, base_price_per_word, base_price_per_page, base_price_fixed,
+  urgency_24h_multiplier, urgency_48h_multiplier, urgency_72h_multiplier,
+  supervisor_percentage, platform_percentage, gst_percentage, minimum_price
+)
+SELECT v.*
+FROM (VALUES
+  ('new_project'::service_type, 0.80, 200, 500, 1.5, 1.3, 1.15, 15, 20, 18, 0),
+  ('proofreading'::service_type, 0.02, NULL, NULL, 2.5, 1.5, 1.0, 15, 20, 18, 0),
+  ('plagiarism_check'::service_type, NULL, NULL, 99, 1.0, 1.0, 1.0, 15, 20, 18, 0),
+  ('ai_detection'::service_type, NULL, NULL, 49, 1.0, 1.0, 1.0, 15, 20, 18, 0),
+  -- Expert consultations: the expert keeps 66.67%, no supervisor, fee quoted without GST
+  ('expert_opinion'::service_type, NULL, NULL, NULL, 1.0, 1.0, 1.0, 0, 33.33, 0, 0)
+) AS v(
+  service_type, base_price_per_word, base_price_per_page, base_price_fixed,
+  urgency_24h_multiplier, urgency_48h_multiplier, urgency_72h_multiplier,
+  supervisor_percentage, platform_percentage, gst_percentage, minimum_price
+)
+WHERE NOT EXISTS (
+  SELECT 1 FROM pricing_guides g
+  WHERE g.service_type = v.service_type
+    AND g.subject_id IS NULL
+    AND g.is_active = true
+);
+
+-- Function: Calculate an itemised project price
+-- Picks the active guide for the subject (by id or slug), falling back to the
+-- service type's default guide. The urgency band comes from the time left
+-- until p_deadline. When p_client_total is given (a supervisor overriding the
+-- suggestion), that GST-inclusive total is split instead of calculated.
+CREATE OR REPLACE FUNCTION calculate_project_price(
+  p_service_type service_type,
+  p_subject TEXT DEFAULT NULL,
+  p_word_count INTEGER DEFAULT NULL,
+  p_page_count INTEGER DEFAULT NULL,
+  p_deadline TIMESTAMPTZ DEFAULT NULL,
+  p_complexity TEXT DEFAULT 'easy',
+  p_client_total NUMERIC DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_subject_id UUID;
+  v_guide pricing_guides%ROWTYPE;
+  v_unit TEXT;
+  v_units NUMERIC := 0;
+  v_unit_rate NUMERIC := 0;
+  v_base NUMERIC := 0;
+  v_hours NUMERIC;
+  v_urgency_band TEXT := 'standard';
+  v_urgency_multiplier NUMERIC := 1;
+  v_complexity_multiplier NUMERIC := 1;
+  v_urgency_fee NUMERIC := 0;
+  v_complexity_fee NUMERIC := 0;
+  v_subtotal NUMERIC;
+  v_gst_rate NUMERIC;
+  v_gst NUMERIC;
+  v_total NUMERIC;
+  v_supervisor_rate NUMERIC;
+  v_platform_rate NUMERIC;
+  v_supervisor NUMERIC;
+  v_platform NUMERIC;
+BEGIN
+  IF p_complexity NOT IN ('easy', 'medium', 'hard') THEN
+    RAISE EXCEPTION 'Invalid complexity: %', p_complexity;
+  END IF;
+
+  -- Projects store subjects by id, the add-project form may send a slug
+  IF p_subject IS NOT NULL AND p_subject <> '' THEN
+    IF p_subject ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+      v_subject_id := p_subject::UUID;
+    ELSE
+      SELECT id INTO v_subject_id FROM subjects WHERE slug = p_subject;
+    END IF;
+  END IF;
+
+  SELECT * INTO v_guide
+  FROM pricing_guides
+  WHERE service_type = p_service_type
+    AND is_active = true
+    AND (subject_id = v_subject_id OR subject_id IS NULL)
+  ORDER BY subject_id NULLS LAST, updated_at DESC NULLS LAST
+  LIMIT 1;
+
+  IF v_guide.id IS NULL THEN
+    RAISE EXCEPTION 'No active pricing guide for service type %', p_service_type;
+  END IF;
+
+  v_gst_rate := COALESCE(v_guide.gst_percentage, 18);
+  v_supervisor_rate := COALESCE(v_guide.supervisor_percentage, 15);
+  v_platform_rate := COALESCE(v_guide.platform_percentage, 20);
+
+  -- Base price: per word, then per page, then fixed
+  IF COALESCE(p_word_count, 0) > 0 AND v_guide.base_price_per_word IS NOT NULL THEN
+    v_unit := 'word';
+    v_units := p_word_count;
+    v_unit_rate := v_guide.base_price_per_word;
+  ELSIF COALESCE(p_page_count, 0) > 0 AND v_guide.base_price_per_page IS NOT NULL THEN
+    v_unit := 'page';
+    v_units := p_page_count;
+    v_unit_rate := v_guide.base_price_per_page;
+  ELSE
+    v_unit := 'fixed';
+    v_units := 1;
+    v_unit_rate := COALESCE(v_guide.base_price_fixed, 0);
+  END IF;
+  v_base := ROUND(v_units * v_unit_rate, 2);
+
+  IF p_deadline IS NOT NULL THEN
+    v_hours := GREATEST(0, EXTRACT(EPOCH FROM (p_deadline - NOW())) / 3600);
+    IF v_hours <= 24 THEN
+      v_urgency_band := '24h';
+      v_urgency_multiplier := COALESCE(v_guide.urgency_24h_multiplier, 1);
+    ELSIF v_hours <= 48 THEN
+      v_urgency_band := '48h';
+      v_urgency_multiplier := COALESCE(v_guide.urgency_48h_multiplier, 1);
+    ELSIF v_hours <= 72 THEN
+      v_urgency_band := '72h';
+      v_urgency_multiplier := COALESCE(v_guide.urgency_72h_multiplier, 1);
+    END IF;
+  END IF;
+
+  v_complexity_multiplier := CASE p_complexity
+    WHEN 'medium' THEN COALESCE(v_guide.complexity_medium_multiplier, 1)
+    WHEN 'hard' THEN COALESCE(v_guide.complexity_hard_multiplier, 1)
+    ELSE COALESCE(v_guide.complexity_easy_multiplier, 1)
+  END;
+
+  IF p_client_total IS NOT NULL THEN
+    IF p_client_total < 0 THEN
+      RAISE EXCEPTION 'Client total cannot be negative';
+    END IF;
+
+    v_total := ROUND(p_client_total, 2);
+    v_subtotal := ROUND(v_total / (1 + v_gst_rate / 100), 2);
+  ELSE
+    v_urgency_fee := ROUND(v_base * (v_urgency_multiplier - 1), 2);
+    v_complexity_fee := ROUND((v_base + v_urgency_fee) * (v_complexity_multiplier - 1), 2);
+    -- Whole rupees, never below the guide's minimum
+    v_subtotal := GREATEST(
+      CEIL(v_base + v_urgency_fee + v_complexity_fee),
+      COALESCE(v_guide.minimum_price, 0)
+    );
+    v_total := v_subtotal + ROUND(v_subtotal * v_gst_rate / 100);
+  END IF;
+
+  v_gst := v_total - v_subtotal;
+
+  -- Splits are taken from the pre-GST price; the doer absorbs rounding
+  v_supervisor := ROUND(v_subtotal * v_supervisor_rate / 100);
+  v_platform := ROUND(v_subtotal * v_platform_rate / 100);
+
+  RETURN json_build_object(
+    'guide_id', v_guide.id,
+    'service_type', p_service_type,
+    'subject_id', v_guide.subject_id,
+    'pricing_unit', v_unit,
+    'units', v_units,
+    'unit_rate', v_unit_rate,
+    'base_price', v_base,
+    'urgency_band', v_urgency_band,
+    'urgency_multiplier', v_urgency_multiplier,
+    'urgency_fee', v_urgency_fee,
+    'urgency_multipliers', json_build_object(
+      '24h', COALESCE(v_guide.urgency_24h_multiplier, 1),
+      '48h', COALESCE(v_guide.urgency_48h_multiplier, 1),
+      '72h', COALESCE(v_guide.urgency_72h_multiplier, 1)
+    ),
+    'complexity', p_complexity,
+    'complexity_multiplier', v_complexity_multiplier,
+    'complexity_fee', v_complexity_fee,
+    'subtotal', v_subtotal,
+    'gst_percentage', v_gst_rate,
+    'gst_amount', v_gst,
+    'total', v_total,
+    'doer_payout', v_subtotal - v_supervisor - v_platform,
+    'doer_percentage', 100 - v_supervisor_rate - v_platform_rate,
+    'supervisor_commission', v_supervisor,
+    'supervisor_percentage', v_supervisor_rate,
+    'platform_fee', v_platform,
+    'platform_percentage', v_platform_rate
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION calculate_project_price TO authenticated, service_role;
+
+COMMENT ON FUNCTION calculate_project_price IS 'Itemised project price (GST, doer payout, supervisor commission, platform fee) from pricing_guides';
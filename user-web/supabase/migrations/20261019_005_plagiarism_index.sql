@@ -0,0 +1,88 @@
+-- ============================================================================
+-- Plagiarism Index
+-- ============================================================================
+-- Local corpus for QC plagiarism checks. Every delivered file and every
+-- reference file a user uploads is reduced to its 5-word shingle hashes and
+-- a MinHash signature (see superviser-web/lib/services/plagiarism.ts).
+-- Only hashes are stored, never the text, so one student's work is never
+-- shown to another. LSH band keys let a new document find its likely
+-- sources with a single indexed array overlap query.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS plagiarism_documents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  source_type TEXT NOT NULL CHECK (source_type IN ('deliverable', 'reference')),
+  source_id UUID NOT NULL,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  file_name TEXT NOT NULL,
+  word_count INTEGER NOT NULL DEFAULT 0,
+  shingles INTEGER[] NOT NULL DEFAULT '{}',
+  minhash INTEGER[] NOT NULL DEFAULT '{}',
+  lsh_bands TEXT[] NOT NULL DEFAULT '{}',
+  indexed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (source_type, source_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_plagiarism_documents_project_id ON plagiarism_documents(project_id);
+CREATE INDEX IF NOT EXISTS idx_plagiarism_documents_lsh_bands ON plagiarism_documents USING GIN (lsh_bands);
+
+-- Indexed and queried with the service role only
+ALTER TABLE plagiarism_documents ENABLE ROW LEVEL SECURITY;
+
+-- Function: Files that are not in the index yet
+-- Deliverables of projects that passed QC and user-uploaded reference files,
+-- so repeated runs backfill the whole history
+CREATE OR REPLACE FUNCTION plagiarism_unindexed_files(p_limit INTEGER DEFAULT 20)
+RETURNS TABLE (
+  source_type TEXT,
+  source_id UUID,
+  project_id UUID,
+  file_name TEXT,
+  file_url TEXT,
+  file_type TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT * FROM (
+    SELECT 'deliverable'::TEXT, d.id, d.project_id, d.file_name, d.file_url, d.file_type
+    FROM project_deliverables d
+    JOIN projects pr ON pr.id = d.project_id
+    WHERE pr.status IN ('qc_approved', 'delivered', 'completed', 'auto_approved')
+      AND NOT EXISTS (
+        SELECT 1 FROM plagiarism_documents p
+        WHERE p.source_type = 'deliverable' AND p.source_id = d.id
+      )
+    UNION ALL
+    SELECT 'reference'::TEXT, f.id, f.project_id, f.file_name, f.file_url, f.file_type
+    FROM project_files f
+    WHERE NOT EXISTS (
+      SELECT 1 FROM plagiarism_documents p
+      WHERE p.source_type = 'reference' AND p.source_id = f.id
+    )
+  ) pending
+  LIMIT GREATEST(p_limit, 0);
+$$;
+
+REVOKE EXECUTE ON FUNCTION plagiarism_unindexed_files FROM PUBLIC, authenticated, anon;
+GRANT EXECUTE ON FUNCTION plagiarism_unindexed_files TO service_role;
+
+-- Private bucket for the HTML reports. Reports quote the checked deliverable,
+-- so projects.plagiarism_report_url holds the object path and the apps hand
+-- out short-lived signed URLs to the project's participants only.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('plagiarism-reports', 'plagiarism-reports', false)
+ON CONFLICT (id) DO UPDATE SET public = false;
+
+-- Reports saved with a public URL keep working through their path
+UPDATE projects
+SET plagiarism_report_url = split_part(
+  regexp_replace(plagiarism_report_url, '^.*/storage/v1/object/public/plagiarism-reports/', ''),
+  '?',
+  1
+)
+WHERE plagiarism_report_url LIKE '%/storage/v1/object/public/plagiarism-reports/%';
+
+COMMENT ON TABLE plagiarism_documents IS 'Shingle hashes and MinHash signatures of delivered and reference files for plagiarism checks';
+COMMENT ON FUNCTION plagiarism_unindexed_files IS 'Lists QC-approved deliverables and reference files missing from the plagiarism index';
@@ -0,0 +1,68 @@
+-- ============================================================================
+-- AI Content Reports
+-- ============================================================================
+-- Results of the shared heuristic AI analyzer (shared/ai-detection.ts).
+-- Doers store self-checks from their Resources page; supervisors store the
+-- QC run, which also sets projects.ai_score. Keeping both on one table lets
+-- QC compare the doer's self-check with the supervisor's run.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS ai_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  doer_id UUID REFERENCES doers(id) ON DELETE CASCADE,
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
+  input_text TEXT,
+  file_url TEXT,
+  ai_percentage DECIMAL(5, 2) NOT NULL DEFAULT 0,
+  originality_percentage DECIMAL(5, 2) NOT NULL DEFAULT 0,
+  detailed_breakdown JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE ai_reports
+  ADD COLUMN IF NOT EXISTS checked_by_role TEXT NOT NULL DEFAULT 'doer'
+    CHECK (checked_by_role IN ('doer', 'supervisor')),
+  ADD COLUMN IF NOT EXISTS supervisor_id UUID REFERENCES supervisors(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS deliverable_id UUID REFERENCES project_deliverables(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS file_name TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_ai_reports_doer_id ON ai_reports(doer_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ai_reports_project_id ON ai_reports(project_id, checked_by_role, created_at DESC);
+
+ALTER TABLE ai_reports ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Doers can view reports on their own work (self-checks and QC runs)
+CREATE POLICY "Doers can view own AI reports" ON ai_reports
+  FOR SELECT
+  TO authenticated
+  USING (doer_id IN (SELECT id FROM doers WHERE profile_id = auth.uid()));
+
+-- Policy: Doers can store self-checks, optionally for a project assigned to them
+CREATE POLICY "Doers can create AI self-checks" ON ai_reports
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    checked_by_role = 'doer'
+    AND supervisor_id IS NULL
+    AND doer_id IN (SELECT id FROM doers WHERE profile_id = auth.uid())
+    AND (
+      project_id IS NULL
+      OR project_id IN (SELECT id FROM projects WHERE projects.doer_id = ai_reports.doer_id)
+    )
+  );
+
+-- Policy: Supervisors can view reports for projects they supervise
+-- (QC runs are written with the service role)
+CREATE POLICY "Supervisors can view project AI reports" ON ai_reports
+  FOR SELECT
+  TO authenticated
+  USING (
+    project_id IN (
+      SELECT p.id FROM projects p
+      JOIN supervisors s ON s.id = p.supervisor_id
+      WHERE s.profile_id = auth.uid()
+    )
+  );
+
+COMMENT ON TABLE ai_reports IS 'AI content reports from doer self-checks and supervisor QC runs';
+COMMENT ON COLUMN ai_reports.checked_by_role IS 'doer = self-check before submission, supervisor = QC run';
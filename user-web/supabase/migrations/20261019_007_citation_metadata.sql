@@ -0,0 +1,45 @@
+-- ============================================================================
+-- Citation Metadata
+-- ============================================================================
+-- Doers' citation history from the Resources citation builder. The full
+-- source metadata (authors, container, volume/issue, pages, DOI, ISBN) is
+-- stored alongside the formatted text so a citation can be re-rendered in
+-- another style and exported as BibTeX or RIS.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS citations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  doer_id UUID NOT NULL REFERENCES doers(id) ON DELETE CASCADE,
+  url TEXT,
+  style TEXT NOT NULL,
+  formatted_citation TEXT NOT NULL,
+  source_type TEXT NOT NULL DEFAULT 'website',
+  title TEXT,
+  author TEXT,
+  publication_date TEXT,
+  access_date TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE citations
+  ADD COLUMN IF NOT EXISTS metadata JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_citations_doer_id ON citations(doer_id, created_at DESC);
+
+ALTER TABLE citations ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Doers can view their own citations
+DROP POLICY IF EXISTS "Doers can view own citations" ON citations;
+CREATE POLICY "Doers can view own citations" ON citations
+  FOR SELECT
+  TO authenticated
+  USING (doer_id IN (SELECT id FROM doers WHERE profile_id = auth.uid()));
+
+-- Policy: Doers can save citations to their own history
+DROP POLICY IF EXISTS "Doers can create own citations" ON citations;
+CREATE POLICY "Doers can create own citations" ON citations
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (doer_id IN (SELECT id FROM doers WHERE profile_id = auth.uid()));
+
+COMMENT ON COLUMN citations.metadata IS 'CitationSource JSON (types/resources.types.ts in doer-web); NULL for citations saved before metadata lookup';
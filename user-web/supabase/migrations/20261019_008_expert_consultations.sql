@@ -0,0 +1,846 @@
+-- ============================================================================
+-- Expert Consultations
+-- ============================================================================
+-- Puts the experts, expert_bookings and expert_reviews tables from
+-- 20260117_004/005 to use and adds bookable availability slots:
+--   - experts open concrete time slots in expert_availability_slots
+--   - a slot carries at most one live booking (row lock + partial unique index),
+--     and an expert's slots may not overlap
+--   - bookings are created, paid, rescheduled and cancelled only through the
+--     functions below, called by the server with the service role
+--   - the expert / platform split comes from calculateCommission on the
+--     server and is stored on the booking
+--   - wallet bookings are debited here; Razorpay bookings hold the slot
+--     until the payment is confirmed by /api/payments/verify or the webhook
+-- ============================================================================
+
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+CREATE TABLE IF NOT EXISTS expert_availability_slots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  expert_id UUID NOT NULL REFERENCES experts(id) ON DELETE CASCADE,
+  start_at TIMESTAMPTZ NOT NULL,
+  end_at TIMESTAMPTZ NOT NULL,
+  -- Live booking holding the slot (pending payment or confirmed)
+  booking_id UUID REFERENCES expert_bookings(id) ON DELETE SET NULL,
+  -- Set while an unpaid Razorpay booking holds the slot
+  held_until TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT expert_slot_valid_range CHECK (end_at > start_at)
+);
+
+-- An expert cannot be in two sessions at once
+DO $$ BEGIN
+  ALTER TABLE expert_availability_slots
+    ADD CONSTRAINT expert_slots_no_overlap
+    EXCLUDE USING gist (expert_id WITH =, tstzrange(start_at, end_at) WITH &&);
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_expert_slots_expert_start ON expert_availability_slots(expert_id, start_at);
+CREATE INDEX IF NOT EXISTS idx_expert_slots_open ON expert_availability_slots(start_at)
+  WHERE booking_id IS NULL OR held_until IS NOT NULL;
+
+DROP TRIGGER IF EXISTS trigger_expert_slots_updated_at ON expert_availability_slots;
+CREATE TRIGGER trigger_expert_slots_updated_at
+  BEFORE UPDATE ON expert_availability_slots
+  FOR EACH ROW
+  EXECUTE FUNCTION update_experts_updated_at();
+
+ALTER TABLE expert_bookings
+  ADD COLUMN IF NOT EXISTS slot_id UUID REFERENCES expert_availability_slots(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS expert_amount DECIMAL(10, 2),
+  ADD COLUMN IF NOT EXISTS wallet_transaction_id UUID REFERENCES wallet_transactions(id) ON DELETE SET NULL;
+
+-- Double-booking guard: one live booking per slot
+CREATE UNIQUE INDEX IF NOT EXISTS idx_expert_bookings_live_slot ON expert_bookings(slot_id)
+  WHERE status IN ('pending', 'confirmed', 'in_progress');
+
+-- Experts earn their share of the booking, not the full amount
+CREATE OR REPLACE FUNCTION update_expert_stats_on_booking()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'completed' AND OLD.status != 'completed' THEN
+    UPDATE experts
+    SET
+      total_sessions = total_sessions + 1,
+      completed_sessions = completed_sessions + 1,
+      total_earnings = total_earnings + COALESCE(NEW.expert_amount, NEW.session_amount)
+    WHERE id = NEW.expert_id;
+  ELSIF NEW.status = 'cancelled' AND OLD.status NOT IN ('cancelled', 'rejected') THEN
+    UPDATE experts
+    SET cancelled_sessions = cancelled_sessions + 1
+    WHERE id = NEW.expert_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE expert_availability_slots ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Anyone can see the slots of bookable experts; experts see their own
+DROP POLICY IF EXISTS expert_slots_select_policy ON expert_availability_slots;
+CREATE POLICY expert_slots_select_policy ON expert_availability_slots
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM experts
+      WHERE experts.id = expert_id
+        AND (
+          (experts.is_active = TRUE AND experts.verification_status = 'verified')
+          OR experts.user_id = auth.uid()
+        )
+    )
+  );
+
+-- Policy: Experts manage their own open slots; booked slots are left alone
+DROP POLICY IF EXISTS expert_slots_insert_policy ON expert_availability_slots;
+CREATE POLICY expert_slots_insert_policy ON expert_availability_slots
+  FOR INSERT
+  WITH CHECK (
+    booking_id IS NULL
+    AND EXISTS (SELECT 1 FROM experts WHERE experts.id = expert_id AND experts.user_id = auth.uid())
+  );
+
+DROP POLICY IF EXISTS expert_slots_update_policy ON expert_availability_slots;
+CREATE POLICY expert_slots_update_policy ON expert_availability_slots
+  FOR UPDATE
+  USING (
+    booking_id IS NULL
+    AND EXISTS (SELECT 1 FROM experts WHERE experts.id = expert_id AND experts.user_id = auth.uid())
+  )
+  WITH CHECK (booking_id IS NULL);
+
+DROP POLICY IF EXISTS expert_slots_delete_policy ON expert_availability_slots;
+CREATE POLICY expert_slots_delete_policy ON expert_availability_slots
+  FOR DELETE
+  USING (
+    booking_id IS NULL
+    AND EXISTS (SELECT 1 FROM experts WHERE experts.id = expert_id AND experts.user_id = auth.uid())
+  );
+
+-- Bookings are written by the functions below only: clients can no longer
+-- insert them directly. The expert (or an admin) may still edit the meeting
+-- details and session notes; the column grants further down keep status,
+-- payment and pricing columns out of reach
+DROP POLICY IF EXISTS expert_bookings_insert_policy ON expert_bookings;
+
+DROP POLICY IF EXISTS expert_bookings_update_policy ON expert_bookings;
+CREATE POLICY expert_bookings_update_policy ON expert_bookings
+  FOR UPDATE
+  USING (
+    EXISTS (SELECT 1 FROM experts WHERE experts.id = expert_id AND experts.user_id = auth.uid())
+    OR EXISTS (SELECT 1 FROM admins WHERE admins.profile_id = auth.uid())
+  );
+
+GRANT SELECT ON expert_availability_slots TO authenticated;
+GRANT SELECT ON expert_availability_slots TO anon;
+GRANT INSERT, UPDATE, DELETE ON expert_availability_slots TO authenticated;
+REVOKE INSERT ON expert_bookings FROM authenticated;
+REVOKE UPDATE ON expert_bookings FROM authenticated;
+GRANT UPDATE (meeting_platform, meeting_link, meeting_id, meeting_password, post_session_notes)
+  ON expert_bookings TO authenticated;
+
+-- The original cancel function neither refunds nor frees the slot
+REVOKE EXECUTE ON FUNCTION cancel_expert_booking FROM PUBLIC, authenticated, anon;
+REVOKE EXECUTE ON FUNCTION create_expert_booking FROM PUBLIC, authenticated, anon;
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Function: Meeting link the expert prefers
+CREATE OR REPLACE FUNCTION expert_meeting_link(p_expert_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT CASE
+    WHEN preferred_platform = 'zoom' THEN COALESCE(zoom_link, google_meet_link)
+    ELSE COALESCE(google_meet_link, zoom_link)
+  END
+  FROM experts
+  WHERE id = p_expert_id;
+$$;
+
+-- Function: Release a slot whose unpaid hold has expired
+-- Returns TRUE when the slot is free afterwards. Caller must hold the slot lock.
+CREATE OR REPLACE FUNCTION release_expired_expert_hold(p_slot_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking_id UUID;
+  v_held_until TIMESTAMPTZ;
+BEGIN
+  SELECT booking_id, held_until INTO v_booking_id, v_held_until
+  FROM expert_availability_slots
+  WHERE id = p_slot_id;
+
+  IF v_booking_id IS NULL THEN
+    RETURN TRUE;
+  END IF;
+
+  IF v_held_until IS NULL OR v_held_until > NOW() THEN
+    RETURN FALSE;
+  END IF;
+
+  UPDATE expert_bookings
+  SET status = 'cancelled',
+      cancellation_reason = 'Payment not completed',
+      cancelled_at = NOW()
+  WHERE id = v_booking_id
+    AND status = 'pending'
+    AND payment_status = 'pending';
+
+  UPDATE expert_availability_slots
+  SET booking_id = NULL,
+      held_until = NULL
+  WHERE id = p_slot_id;
+
+  RETURN TRUE;
+END;
+$$;
+
+-- Function: Book an availability slot
+-- Locks the slot so two users cannot book it at once. Wallet bookings are
+-- paid and confirmed immediately; Razorpay bookings stay pending until
+-- confirm_expert_booking_payment runs.
+CREATE OR REPLACE FUNCTION book_expert_slot(
+  p_profile_id UUID,
+  p_slot_id UUID,
+  p_topic TEXT,
+  p_notes TEXT,
+  p_total_amount NUMERIC,
+  p_expert_amount NUMERIC,
+  p_platform_fee NUMERIC,
+  p_payment_method TEXT,
+  p_min_notice_minutes INTEGER,
+  p_hold_minutes INTEGER DEFAULT 15
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_slot RECORD;
+  v_expert RECORD;
+  v_minutes INTEGER;
+  v_expected_total DECIMAL;
+  v_booking_id UUID;
+  v_booking_number VARCHAR(20);
+  v_wallet_id UUID;
+  v_old_balance DECIMAL;
+  v_new_balance DECIMAL;
+  v_transaction_id UUID;
+  v_status expert_booking_status := 'pending';
+BEGIN
+  IF p_payment_method NOT IN ('wallet', 'razorpay') THEN
+    RAISE EXCEPTION 'Unsupported payment method %', p_payment_method;
+  END IF;
+
+  -- Lock the slot; concurrent bookings of the same slot queue here
+  SELECT * INTO v_slot
+  FROM expert_availability_slots
+  WHERE id = p_slot_id
+  FOR UPDATE;
+
+  IF v_slot.id IS NULL THEN
+    RAISE EXCEPTION 'Slot not found';
+  END IF;
+
+  IF v_slot.start_at < NOW() + make_interval(mins => p_min_notice_minutes) THEN
+    RAISE EXCEPTION 'This slot can no longer be booked';
+  END IF;
+
+  SELECT * INTO v_expert
+  FROM experts
+  WHERE id = v_slot.expert_id
+    AND is_active = TRUE
+    AND verification_status = 'verified'
+    AND is_accepting_bookings = TRUE;
+
+  IF v_expert.id IS NULL THEN
+    RAISE EXCEPTION 'Expert not available for booking';
+  END IF;
+
+  IF v_expert.user_id = p_profile_id THEN
+    RAISE EXCEPTION 'Cannot book yourself';
+  END IF;
+
+  IF NOT release_expired_expert_hold(p_slot_id) THEN
+    RAISE EXCEPTION 'This slot has already been booked';
+  END IF;
+
+  -- The server priced the session; make sure it used the expert's rate
+  v_minutes := EXTRACT(EPOCH FROM (v_slot.end_at - v_slot.start_at)) / 60;
+  v_expected_total := ROUND(v_expert.hourly_rate * v_minutes / 60, 2);
+
+  IF p_total_amount <> v_expected_total
+     OR p_expert_amount < 0
+     OR p_platform_fee < 0
+     OR p_expert_amount + p_platform_fee <> p_total_amount THEN
+    RAISE EXCEPTION 'Invalid booking amount';
+  END IF;
+
+  INSERT INTO expert_bookings (
+    expert_id,
+    user_id,
+    slot_id,
+    topic,
+    pre_session_notes,
+    category,
+    scheduled_start,
+    scheduled_end,
+    duration_minutes,
+    timezone,
+    meeting_platform,
+    hourly_rate,
+    session_amount,
+    platform_fee,
+    expert_amount,
+    total_amount,
+    currency,
+    payment_method,
+    payment_status,
+    status
+  ) VALUES (
+    v_expert.id,
+    p_profile_id,
+    p_slot_id,
+    p_topic,
+    p_notes,
+    v_expert.category,
+    v_slot.start_at,
+    v_slot.end_at,
+    v_minutes,
+    COALESCE(v_expert.availability->>'timezone', 'Asia/Kolkata'),
+    v_expert.preferred_platform,
+    v_expert.hourly_rate,
+    p_total_amount,
+    p_platform_fee,
+    p_expert_amount,
+    p_total_amount,
+    COALESCE(v_expert.currency, 'INR'),
+    p_payment_method,
+    'pending',
+    'pending'
+  )
+  RETURNING id, booking_number INTO v_booking_id, v_booking_number;
+
+  UPDATE expert_availability_slots
+  SET booking_id = v_booking_id,
+      held_until = CASE
+        WHEN p_payment_method = 'razorpay' THEN NOW() + make_interval(mins => p_hold_minutes)
+      END
+  WHERE id = p_slot_id;
+
+  IF p_payment_method = 'wallet' THEN
+    SELECT id, balance INTO v_wallet_id, v_old_balance
+    FROM wallets
+    WHERE profile_id = p_profile_id
+    FOR UPDATE;
+
+    IF v_wallet_id IS NULL THEN
+      RAISE EXCEPTION 'Wallet not found for profile %', p_profile_id;
+    END IF;
+
+    IF v_old_balance < p_total_amount THEN
+      RAISE EXCEPTION 'Insufficient balance. Available: %, Required: %', v_old_balance, p_total_amount;
+    END IF;
+
+    v_new_balance := v_old_balance - p_total_amount;
+
+    UPDATE wallets
+    SET balance = v_new_balance,
+        updated_at = NOW()
+    WHERE id = v_wallet_id;
+
+    INSERT INTO wallet_transactions (
+      wallet_id,
+      transaction_type,
+      amount,
+      balance_before,
+      balance_after,
+      reference_type,
+      reference_id,
+      description,
+      status
+    ) VALUES (
+      v_wallet_id,
+      'debit',
+      p_total_amount,
+      v_old_balance,
+      v_new_balance,
+      'expert_booking',
+      v_booking_id,
+      'Consultation booking ' || v_booking_number,
+      'completed'
+    ) RETURNING id INTO v_transaction_id;
+
+    v_status := 'confirmed';
+
+    UPDATE expert_bookings
+    SET status = v_status,
+        payment_status = 'captured',
+        payment_id = 'wallet_' || v_transaction_id,
+        wallet_transaction_id = v_transaction_id,
+        meeting_link = expert_meeting_link(v_expert.id),
+        paid_at = NOW()
+    WHERE id = v_booking_id;
+  END IF;
+
+  INSERT INTO activity_logs (
+    profile_id,
+    action,
+    action_category,
+    target_type,
+    target_id,
+    description,
+    metadata
+  ) VALUES (
+    p_profile_id,
+    'expert_booking_created',
+    'booking',
+    'expert_booking',
+    v_booking_id,
+    'Booked consultation ' || v_booking_number,
+    jsonb_build_object(
+      'expert_id', v_expert.id,
+      'slot_id', p_slot_id,
+      'payment_method', p_payment_method,
+      'total_amount', p_total_amount,
+      'expert_amount', p_expert_amount,
+      'platform_fee', p_platform_fee
+    )
+  );
+
+  RETURN json_build_object(
+    'booking_id', v_booking_id,
+    'booking_number', v_booking_number,
+    'status', v_status,
+    'total_amount', p_total_amount,
+    'currency', COALESCE(v_expert.currency, 'INR'),
+    'new_balance', v_new_balance
+  );
+END;
+$$;
+
+-- Function: Confirm the Razorpay payment of a booking
+-- Idempotent: the browser (verify route) and the webhook may both call it.
+-- If the slot hold expired before the money arrived, the payment is credited
+-- to the user's wallet instead.
+CREATE OR REPLACE FUNCTION confirm_expert_booking_payment(
+  p_booking_id UUID,
+  p_profile_id UUID,
+  p_amount NUMERIC,
+  p_razorpay_order_id TEXT,
+  p_razorpay_payment_id TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking RECORD;
+  v_wallet_id UUID;
+  v_old_balance DECIMAL;
+BEGIN
+  SELECT * INTO v_booking
+  FROM expert_bookings
+  WHERE id = p_booking_id
+  FOR UPDATE;
+
+  IF v_booking.id IS NULL OR v_booking.user_id <> p_profile_id THEN
+    RAISE EXCEPTION 'Booking not found or unauthorized';
+  END IF;
+
+  IF v_booking.payment_id = p_razorpay_payment_id THEN
+    RETURN json_build_object(
+      'booking_id', p_booking_id,
+      'status', v_booking.status,
+      'already_processed', TRUE
+    );
+  END IF;
+
+  IF v_booking.payment_status <> 'pending' THEN
+    RAISE EXCEPTION 'Booking % has already been paid', v_booking.booking_number;
+  END IF;
+
+  IF p_amount < v_booking.total_amount THEN
+    RAISE EXCEPTION 'Payment % does not cover booking total %', p_amount, v_booking.total_amount;
+  END IF;
+
+  IF v_booking.status = 'pending' THEN
+    UPDATE expert_bookings
+    SET status = 'confirmed',
+        payment_status = 'captured',
+        payment_id = p_razorpay_payment_id,
+        payment_order_id = p_razorpay_order_id,
+        meeting_link = expert_meeting_link(v_booking.expert_id),
+        paid_at = NOW()
+    WHERE id = p_booking_id;
+
+    UPDATE expert_availability_slots
+    SET held_until = NULL
+    WHERE id = v_booking.slot_id AND booking_id = p_booking_id;
+
+    INSERT INTO activity_logs (
+      profile_id,
+      action,
+      action_category,
+      target_type,
+      target_id,
+      description,
+      metadata
+    ) VALUES (
+      p_profile_id,
+      'payment_verified',
+      'payment',
+      'expert_booking',
+      p_booking_id,
+      'Consultation payment: ' || p_razorpay_payment_id,
+      jsonb_build_object(
+        'payment_id', p_razorpay_payment_id,
+        'order_id', p_razorpay_order_id,
+        'amount', p_amount,
+        'type', 'expert_booking'
+      )
+    );
+
+    RETURN json_build_object('booking_id', p_booking_id, 'status', 'confirmed');
+  END IF;
+
+  -- The hold lapsed and the booking was cancelled; keep the money for the user
+  SELECT id, balance INTO v_wallet_id, v_old_balance
+  FROM wallets
+  WHERE profile_id = p_profile_id
+  FOR UPDATE;
+
+  IF v_wallet_id IS NULL THEN
+    RAISE EXCEPTION 'Wallet not found for profile %', p_profile_id;
+  END IF;
+
+  UPDATE wallets
+  SET balance = v_old_balance + p_amount,
+      updated_at = NOW()
+  WHERE id = v_wallet_id;
+
+  INSERT INTO wallet_transactions (
+    wallet_id,
+    transaction_type,
+    amount,
+    balance_before,
+    balance_after,
+    reference_type,
+    reference_id,
+    description,
+    notes,
+    status
+  ) VALUES (
+    v_wallet_id,
+    'refund',
+    p_amount,
+    v_old_balance,
+    v_old_balance + p_amount,
+    'expert_booking_refund',
+    p_booking_id,
+    'Payment for expired booking ' || v_booking.booking_number,
+    jsonb_build_object('razorpay_payment_id', p_razorpay_payment_id)::text,
+    'completed'
+  );
+
+  UPDATE expert_bookings
+  SET payment_status = 'refunded',
+      payment_id = p_razorpay_payment_id,
+      payment_order_id = p_razorpay_order_id,
+      paid_at = NOW(),
+      refund_amount = p_amount,
+      refunded_at = NOW()
+  WHERE id = p_booking_id;
+
+  RETURN json_build_object(
+    'booking_id', p_booking_id,
+    'status', v_booking.status,
+    'refunded_to_wallet', p_amount
+  );
+END;
+$$;
+
+-- Function: Move a confirmed booking to another open slot of the same expert
+-- The server decides the reschedule window (see lib/expert-booking-policy.ts).
+CREATE OR REPLACE FUNCTION reschedule_expert_booking(
+  p_booking_id UUID,
+  p_profile_id UUID,
+  p_new_slot_id UUID,
+  p_cutoff_minutes INTEGER,
+  p_min_notice_minutes INTEGER
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking RECORD;
+  v_slot RECORD;
+BEGIN
+  SELECT * INTO v_booking
+  FROM expert_bookings
+  WHERE id = p_booking_id
+  FOR UPDATE;
+
+  IF v_booking.id IS NULL OR v_booking.user_id <> p_profile_id THEN
+    RAISE EXCEPTION 'Booking not found or unauthorized';
+  END IF;
+
+  IF v_booking.status <> 'confirmed' THEN
+    RAISE EXCEPTION 'Only confirmed bookings can be rescheduled';
+  END IF;
+
+  IF v_booking.scheduled_start < NOW() + make_interval(mins => p_cutoff_minutes) THEN
+    RAISE EXCEPTION 'It is too late to reschedule this session';
+  END IF;
+
+  IF v_booking.reschedule_count >= v_booking.max_reschedules THEN
+    RAISE EXCEPTION 'This booking has already been rescheduled % times', v_booking.reschedule_count;
+  END IF;
+
+  SELECT * INTO v_slot
+  FROM expert_availability_slots
+  WHERE id = p_new_slot_id
+  FOR UPDATE;
+
+  IF v_slot.id IS NULL OR v_slot.expert_id <> v_booking.expert_id THEN
+    RAISE EXCEPTION 'Slot not found';
+  END IF;
+
+  IF v_slot.start_at < NOW() + make_interval(mins => p_min_notice_minutes) THEN
+    RAISE EXCEPTION 'This slot can no longer be booked';
+  END IF;
+
+  IF EXTRACT(EPOCH FROM (v_slot.end_at - v_slot.start_at)) / 60 <> v_booking.duration_minutes THEN
+    RAISE EXCEPTION 'Choose a slot of the same length (% minutes)', v_booking.duration_minutes;
+  END IF;
+
+  IF NOT release_expired_expert_hold(p_new_slot_id) THEN
+    RAISE EXCEPTION 'This slot has already been booked';
+  END IF;
+
+  UPDATE expert_availability_slots
+  SET booking_id = NULL,
+      held_until = NULL
+  WHERE id = v_booking.slot_id AND booking_id = p_booking_id;
+
+  UPDATE expert_availability_slots
+  SET booking_id = p_booking_id
+  WHERE id = p_new_slot_id;
+
+  UPDATE expert_bookings
+  SET slot_id = p_new_slot_id,
+      scheduled_start = v_slot.start_at,
+      scheduled_end = v_slot.end_at,
+      reschedule_count = reschedule_count + 1,
+      reminder_sent_24h = FALSE,
+      reminder_sent_1h = FALSE
+  WHERE id = p_booking_id;
+
+  INSERT INTO activity_logs (
+    profile_id,
+    action,
+    action_category,
+    target_type,
+    target_id,
+    description,
+    metadata
+  ) VALUES (
+    p_profile_id,
+    'expert_booking_rescheduled',
+    'booking',
+    'expert_booking',
+    p_booking_id,
+    'Rescheduled consultation ' || v_booking.booking_number,
+    jsonb_build_object(
+      'from', v_booking.scheduled_start,
+      'to', v_slot.start_at,
+      'slot_id', p_new_slot_id
+    )
+  );
+
+  RETURN json_build_object(
+    'booking_id', p_booking_id,
+    'scheduled_start', v_slot.start_at,
+    'scheduled_end', v_slot.end_at,
+    'reschedule_count', v_booking.reschedule_count + 1
+  );
+END;
+$$;
+
+-- Function: Cancel a booking, refund to the wallet and free the slot
+-- The refund amount is decided by the server's cancellation policy; the
+-- retained amount keeps the original expert / platform split.
+CREATE OR REPLACE FUNCTION process_expert_booking_cancellation(
+  p_booking_id UUID,
+  p_cancelled_by UUID,
+  p_reason TEXT,
+  p_policy_rule TEXT,
+  p_refund_amount NUMERIC
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking RECORD;
+  v_wallet_id UUID;
+  v_old_balance DECIMAL;
+  v_new_balance DECIMAL;
+  v_retained_ratio DECIMAL := 1;
+  v_expert_amount DECIMAL;
+BEGIN
+  SELECT * INTO v_booking
+  FROM expert_bookings
+  WHERE id = p_booking_id
+  FOR UPDATE;
+
+  IF v_booking.id IS NULL THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF v_booking.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'Booking cannot be cancelled in status %', v_booking.status;
+  END IF;
+
+  IF p_refund_amount < 0 OR p_refund_amount > v_booking.total_amount THEN
+    RAISE EXCEPTION 'Invalid refund amount %', p_refund_amount;
+  END IF;
+
+  IF p_refund_amount > 0 AND v_booking.payment_status <> 'captured' THEN
+    RAISE EXCEPTION 'Booking has not been paid';
+  END IF;
+
+  IF p_refund_amount > 0 THEN
+    SELECT id, balance INTO v_wallet_id, v_old_balance
+    FROM wallets
+    WHERE profile_id = v_booking.user_id
+    FOR UPDATE;
+
+    IF v_wallet_id IS NULL THEN
+      RAISE EXCEPTION 'Wallet not found for profile %', v_booking.user_id;
+    END IF;
+
+    v_new_balance := v_old_balance + p_refund_amount;
+
+    UPDATE wallets
+    SET balance = v_new_balance,
+        updated_at = NOW()
+    WHERE id = v_wallet_id;
+
+    INSERT INTO wallet_transactions (
+      wallet_id,
+      transaction_type,
+      amount,
+      balance_before,
+      balance_after,
+      reference_type,
+      reference_id,
+      description,
+      notes,
+      status
+    ) VALUES (
+      v_wallet_id,
+      'refund',
+      p_refund_amount,
+      v_old_balance,
+      v_new_balance,
+      'expert_booking_refund',
+      p_booking_id,
+      'Refund for cancelled booking ' || v_booking.booking_number,
+      jsonb_build_object('policy_rule', p_policy_rule)::text,
+      'completed'
+    );
+
+    v_retained_ratio := (v_booking.total_amount - p_refund_amount) / v_booking.total_amount;
+  END IF;
+
+  v_expert_amount := ROUND(COALESCE(v_booking.expert_amount, 0) * v_retained_ratio, 2);
+
+  UPDATE expert_bookings
+  SET status = 'cancelled',
+      cancelled_by = p_cancelled_by,
+      cancellation_reason = p_reason,
+      cancelled_at = NOW(),
+      refund_amount = CASE WHEN p_refund_amount > 0 THEN p_refund_amount ELSE refund_amount END,
+      refunded_at = CASE WHEN p_refund_amount > 0 THEN NOW() ELSE refunded_at END,
+      payment_status = CASE
+        WHEN p_refund_amount = total_amount THEN 'refunded'::expert_payment_status
+        WHEN p_refund_amount > 0 THEN 'partially_refunded'::expert_payment_status
+        ELSE payment_status
+      END,
+      expert_amount = v_expert_amount,
+      platform_fee = ROUND(total_amount - p_refund_amount - v_expert_amount, 2)
+  WHERE id = p_booking_id;
+
+  UPDATE expert_availability_slots
+  SET booking_id = NULL,
+      held_until = NULL
+  WHERE id = v_booking.slot_id AND booking_id = p_booking_id;
+
+  INSERT INTO activity_logs (
+    profile_id,
+    action,
+    action_category,
+    target_type,
+    target_id,
+    description,
+    metadata
+  ) VALUES (
+    p_cancelled_by,
+    'expert_booking_cancelled',
+    'booking',
+    'expert_booking',
+    p_booking_id,
+    'Cancelled consultation ' || v_booking.booking_number || ', refund ₹' || p_refund_amount,
+    jsonb_build_object(
+      'policy_rule', p_policy_rule,
+      'refund_amount', p_refund_amount,
+      'reason', p_reason
+    )
+  );
+
+  RETURN json_build_object(
+    'booking_id', p_booking_id,
+    'refund_amount', p_refund_amount,
+    'new_balance', v_new_balance
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION expert_meeting_link FROM PUBLIC, authenticated, anon;
+REVOKE EXECUTE ON FUNCTION release_expired_expert_hold FROM PUBLIC, authenticated, anon;
+REVOKE EXECUTE ON FUNCTION book_expert_slot FROM PUBLIC, authenticated, anon;
+REVOKE EXECUTE ON FUNCTION confirm_expert_booking_payment FROM PUBLIC, authenticated, anon;
+REVOKE EXECUTE ON FUNCTION reschedule_expert_booking FROM PUBLIC, authenticated, anon;
+REVOKE EXECUTE ON FUNCTION process_expert_booking_cancellation FROM PUBLIC, authenticated, anon;
+GRANT EXECUTE ON FUNCTION expert_meeting_link TO service_role;
+GRANT EXECUTE ON FUNCTION release_expired_expert_hold TO service_role;
+GRANT EXECUTE ON FUNCTION book_expert_slot TO service_role;
+GRANT EXECUTE ON FUNCTION confirm_expert_booking_payment TO service_role;
+GRANT EXECUTE ON FUNCTION reschedule_expert_booking TO service_role;
+GRANT EXECUTE ON FUNCTION process_expert_booking_cancellation TO service_role;
+
+COMMENT ON TABLE expert_availability_slots IS 'Bookable time slots opened by experts';
+COMMENT ON COLUMN expert_availability_slots.booking_id IS 'Live booking holding the slot';
+COMMENT ON COLUMN expert_bookings.expert_amount IS 'Expert share of total_amount (calculateCommission)';
+COMMENT ON FUNCTION book_expert_slot IS 'Atomically books a slot, paying from the wallet or holding it for Razorpay';
+COMMENT ON FUNCTION confirm_expert_booking_payment IS 'Confirms a Razorpay-paid booking (idempotent)';
+COMMENT ON FUNCTION reschedule_expert_booking IS 'Moves a confirmed booking to another open slot';
+COMMENT ON FUNCTION process_expert_booking_cancellation IS 'Cancels a booking, refunds to the wallet and frees the slot';
@@ -0,0 +1,63 @@
+-- ============================================================================
+-- Expert Session Calendars
+-- ============================================================================
+-- Calendar invites and video rooms for expert consultations:
+--   - every booking gets an unguessable meeting_room name; the app turns it
+--     into a URL with MEETING_ROOM_URL_TEMPLATE (e.g. a Jitsi room)
+--   - ics_sequence is the iCalendar SEQUENCE of the booking's event and is
+--     bumped whenever the time moves or the booking is cancelled, so
+--     calendars update the existing event instead of adding a new one
+--   - calendar_feeds holds one private token per profile for the iCal feed
+--     served by /api/calendar/[token]
+-- ============================================================================
+
+ALTER TABLE expert_bookings
+  ADD COLUMN IF NOT EXISTS meeting_room TEXT NOT NULL DEFAULT replace(gen_random_uuid()::text, '-', ''),
+  ADD COLUMN IF NOT EXISTS ics_sequence INTEGER NOT NULL DEFAULT 0;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_expert_bookings_meeting_room ON expert_bookings(meeting_room);
+
+-- Trigger: Bump the calendar SEQUENCE on reschedule and cancellation
+CREATE OR REPLACE FUNCTION bump_expert_booking_ics_sequence()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.scheduled_start IS DISTINCT FROM OLD.scheduled_start
+    OR NEW.scheduled_end IS DISTINCT FROM OLD.scheduled_end
+    OR (NEW.status IN ('cancelled', 'rejected') AND OLD.status NOT IN ('cancelled', 'rejected'))
+  THEN
+    NEW.ics_sequence = OLD.ics_sequence + 1;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_bump_expert_booking_ics_sequence ON expert_bookings;
+CREATE TRIGGER trigger_bump_expert_booking_ics_sequence
+  BEFORE UPDATE ON expert_bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION bump_expert_booking_ics_sequence();
+
+-- ============================================================================
+-- CALENDAR FEEDS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  profile_id UUID PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  -- Secret part of the feed URL; replaced when the user resets the link
+  token TEXT UNIQUE NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  rotated_at TIMESTAMPTZ,
+  last_accessed_at TIMESTAMPTZ
+);
+
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+-- Owners can see their link; tokens are written by the server with the service role
+DROP POLICY IF EXISTS calendar_feeds_select_policy ON calendar_feeds;
+CREATE POLICY calendar_feeds_select_policy ON calendar_feeds
+  FOR SELECT
+  USING (profile_id = auth.uid());
+
+COMMENT ON TABLE calendar_feeds IS 'Private iCal feed token per profile';
+COMMENT ON COLUMN expert_bookings.meeting_room IS 'Video room name for MEETING_ROOM_URL_TEMPLATE';
+COMMENT ON COLUMN expert_bookings.ics_sequence IS 'iCalendar SEQUENCE, bumped on reschedule and cancellation';
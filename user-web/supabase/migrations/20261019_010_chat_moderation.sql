@@ -0,0 +1,353 @@
+-- ============================================================================
+-- Server-side Chat Moderation
+-- ============================================================================
+-- The web apps check messages with moderateContentEnhanced before sending,
+-- but anything that talks to PostgREST directly skips that check. This
+-- trigger moderates every chat_messages insert (and content edit) made with
+-- a user's JWT, whichever app it comes from:
+--   - blocked or rate limited senders get an error
+--   - high severity messages and evasion attempts are dropped (the insert
+--     returns no row) and logged
+--   - other violations are delivered with the contact details redacted
+--   - every third violation within a day flags the sender through
+--     flag_profile_for_violation (same escalation as flagUserForViolation)
+-- Messages written with the service role are trusted and not moderated.
+--
+-- The patterns mirror personalInfoPatterns in
+-- lib/validations/chat-content.ts (\b is written \y in Postgres regexes).
+-- Keep the two lists in sync.
+-- ============================================================================
+
+-- Server decisions are recorded as 'redacted' next to the client's actions
+ALTER TABLE moderation_logs DROP CONSTRAINT IF EXISTS moderation_logs_action_taken_check;
+ALTER TABLE moderation_logs
+  ADD CONSTRAINT moderation_logs_action_taken_check
+  CHECK (action_taken IN ('blocked', 'warned', 'flagged', 'redacted'));
+
+-- Function: Detect and redact personal information in a chat message
+-- Returns allowed, sanitized, violation_types, violation_count, severity and evasion_detected.
+CREATE OR REPLACE FUNCTION moderate_chat_text(p_content TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_text TEXT;
+  v_rule RECORD;
+  v_matches INTEGER;
+  v_count INTEGER := 0;
+  v_types TEXT[] := '{}';
+  v_evasion BOOLEAN;
+BEGIN
+  IF p_content IS NULL OR btrim(p_content) = '' THEN
+    RETURN jsonb_build_object(
+      'allowed', TRUE,
+      'sanitized', p_content,
+      'violation_types', '[]'::JSONB,
+      'violation_count', 0,
+      'severity', 'low',
+      'evasion_detected', FALSE
+    );
+  END IF;
+
+  -- normalizeForDetection: Cyrillic look-alikes to ASCII, drop zero-width
+  -- characters, collapse whitespace
+  v_text := btrim(regexp_replace(
+    translate(p_content, 'аеорсухАЕОРС' || U&'\200B\200C\200D\FEFF', 'aeopcyxAEOPC'),
+    '\s+', ' ', 'g'
+  ));
+
+  -- detectEvasionAttempt runs on the original text
+  v_evasion := p_content ~ '\d\s+\d\s+\d\s+\d\s+\d'
+    OR p_content ~ '[а-яА-Я]'
+    OR p_content ~* '[a-zA-Z0-9._%+-]+\s*[@а]\s*[a-zA-Z0-9.-]+';
+
+  -- More specific patterns of a category come first so the broad ones do
+  -- not leave half a handle or URL behind
+  FOR v_rule IN
+    SELECT rules.violation_type, rules.pattern
+    FROM (VALUES
+      -- phone
+      (1, 'phone', '(?:call|contact|whatsapp|phone|mobile|number|msg|text|dial|reach)[\s:]*(?:me\s*(?:at|on)?\s*)?[+]?\d[\d\s.-]{7,}'),
+      (2, 'phone', '(?:my|the)\s*(?:phone|mobile|cell|contact)?\s*(?:number|no\.?|#)?\s*(?:is|:)?\s*[+]?\d[\d\s.-]{7,}'),
+      (3, 'phone', '\+\d{1,4}[\s.-]?\(?\d{1,4}\)?[\s.-]?\d{1,4}[\s.-]?\d{1,4}[\s.-]?\d{1,4}'),
+      (4, 'phone', '(?:\+91|0)?[\s.-]?[6-9]\d{4}[\s.-]?\d{5}'),
+      (5, 'phone', '(?:\+91|0)?[\s.-]?[6-9]\d{9}'),
+      (6, 'phone', '\(?[2-9]\d{2}\)?[\s.-]?\d{3}[\s.-]?\d{4}'),
+      (7, 'phone', '(?:\+44|0)[\s.-]?\d{4}[\s.-]?\d{6}'),
+      (8, 'phone', '\d{10,14}'),
+      (9, 'phone', '\d[\s.-]?\d[\s.-]?\d[\s.-]?\d[\s.-]?\d[\s.-]?\d[\s.-]?\d[\s.-]?\d[\s.-]?\d[\s.-]?\d'),
+      -- email
+      (10, 'email', '(?:my|the)\s*(?:email|mail|e-mail)\s*(?:id|address)?\s*(?:is|:)?\s*[a-zA-Z0-9._%+-]+\s*[@]\s*[a-zA-Z0-9.-]+'),
+      (11, 'email', '[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}'),
+      (12, 'email', '[a-zA-Z0-9._%+-]+\s*(?:\[at\]|\(at\)|at)\s*[a-zA-Z0-9.-]+\s*(?:\[dot\]|\(dot\)|dot)\s*[a-zA-Z]{2,}'),
+      (13, 'email', '[a-zA-Z0-9._%+-]+\s*@\s*[a-zA-Z0-9.-]+\s*\.\s*[a-zA-Z]{2,}'),
+      -- whatsapp
+      (14, 'messaging_app', '(?:msg|message|text|ping|call|contact)\s*(?:me\s*)?(?:on\s*)?(?:whatsapp|wa|wapp)'),
+      (15, 'messaging_app', 'api\.whatsapp\.com'),
+      (16, 'messaging_app', 'wa\.me/?\d*'),
+      (17, 'messaging_app', 'whats\s*app'),
+      (18, 'messaging_app', '\ywapp\y'),
+      -- instagram
+      (19, 'social_media', 'instagram\.com/[a-zA-Z0-9_.]+'),
+      (20, 'social_media', '(?:my|the)\s*(?:instagram|insta|ig)\s*(?:is|:)?\s*@?[a-zA-Z0-9_.]+'),
+      (21, 'social_media', '(?:follow|dm|check)\s*(?:me\s*)?(?:on\s*)?(?:instagram|insta|ig)'),
+      (22, 'social_media', 'instagram'),
+      (23, 'social_media', '\yinsta\y'),
+      (24, 'social_media', '\yig:'),
+      -- telegram
+      (25, 'messaging_app', 't\.me/[a-zA-Z0-9_]+'),
+      (26, 'messaging_app', '(?:my|the)\s*telegram\s*(?:is|:)?\s*@?[a-zA-Z0-9_]+'),
+      (27, 'messaging_app', '(?:msg|message|text|ping)\s*(?:me\s*)?(?:on\s*)?telegram'),
+      (28, 'messaging_app', 'telegram'),
+      -- social media handles
+      (29, 'social_media', '(?:my|the)\s*(?:handle|username|user\s*name|insta|twitter|ig)\s*(?:is|:)?\s*@?[a-zA-Z0-9_]{3,30}'),
+      (30, 'social_media', '(?:follow|dm|message|ping|add)\s*(?:me)?\s*(?:at|on)?\s*@?[a-zA-Z0-9_]{3,30}'),
+      (31, 'social_media', '@[a-zA-Z0-9_]{3,30}'),
+      -- other messaging apps
+      (32, 'messaging_app', 'snapchat\.com/add/[a-zA-Z0-9_]+'),
+      (33, 'messaging_app', 'snapchat'),
+      (34, 'messaging_app', '\ysnap\y'),
+      (35, 'messaging_app', 'discord\.gg/[a-zA-Z0-9]+'),
+      (36, 'messaging_app', 'discord'),
+      (37, 'messaging_app', '[a-zA-Z0-9_]+#\d{4}'),
+      (38, 'messaging_app', '\ysignal\s*(?:app)?\y'),
+      (39, 'messaging_app', '(?:facebook|fb)\s*messenger'),
+      (40, 'messaging_app', 'm\.me/[a-zA-Z0-9.]+'),
+      (41, 'messaging_app', 'linkedin\.com/in/[a-zA-Z0-9-]+'),
+      (42, 'messaging_app', '\ylinkedin\y'),
+      -- links
+      (43, 'link', '(?:bit\.ly|goo\.gl|t\.co|tinyurl\.com|ow\.ly|is\.gd|buff\.ly|cutt\.ly|rb\.gy|short\.io|tr\.im|v\.gd)/[\w-]+'),
+      (44, 'link', '(?:instagram|facebook|twitter|linkedin|telegram|discord|snapchat|tiktok|youtube|whatsapp)\.(?:com|me)/[\w./-]*'),
+      (45, 'link', '(?:docs|drive|meet)\.google\.com/[\w./?=&-]*'),
+      (46, 'link', '(?:zoom\.us|teams\.microsoft\.com|teams\.live\.com)/[\w./?=&-]*'),
+      (47, 'link', 'https?://[^\s<>"{}|\\^`[\]]+'),
+      (48, 'link', 'www\.[^\s<>"{}|\\^`[\]]+'),
+      (49, 'link', '[a-zA-Z0-9-]+\.(?:com|org|net|io|co|in|edu|gov|info|biz|me|app|dev|xyz|online|site|tech|cloud|store|shop|blog|link|click|live|us|uk|ca|au)\y[^\s]*'),
+      -- address
+      (50, 'address', '(?:my|the)\s*(?:address|location|place|home)\s*(?:is|:)\s*[A-Za-z0-9\s,.-]{15,}'),
+      (51, 'address', '(?:i\s+)?(?:stay|live|reside|residing|located)\s+(?:at|in|near)\s+[\w\s,.-]{10,}'),
+      (52, 'address', '(?:near|opposite|behind|next\s+to|adjacent\s+to|beside|opp\.?)\s+[\w\s]{5,}'),
+      (53, 'address', '\y(?:h\.?no\.?|house\s*no\.?|flat\s*no\.?|door\s*no\.?|plot\s*no\.?)\s*[:\-]?\s*\d+'),
+      (54, 'address', '\d+[\s,/]+(?:[\w\s]+)(?:street|road|lane|avenue|nagar|colony|sector)'),
+      (55, 'address', '\y(?:house|flat|apt|apartment|building|floor|block|sector|plot|street|road|lane|nagar|colony|society|enclave|extension|phase|avenue|boulevard|drive|court|way|place|circle|marg|path|gali)\y[\s,]*(?:#?\d+|no\.?\s*\d+)?'),
+      (56, 'address', '\y\d{6}\y'),
+      (57, 'address', '\y\d{5}(?:-\d{4})?\y')
+    ) AS rules(position, violation_type, pattern)
+    ORDER BY rules.position
+  LOOP
+    SELECT count(*) INTO v_matches FROM regexp_matches(v_text, v_rule.pattern, 'gi');
+
+    IF v_matches > 0 THEN
+      v_count := v_count + v_matches;
+      IF NOT (v_rule.violation_type = ANY(v_types)) THEN
+        v_types := v_types || v_rule.violation_type;
+      END IF;
+      v_text := regexp_replace(v_text, v_rule.pattern, '[' || upper(v_rule.violation_type) || ' REDACTED]', 'gi');
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'allowed', v_count = 0 AND NOT v_evasion,
+    'sanitized', v_text,
+    'violation_types', to_jsonb(v_types),
+    'violation_count', v_count,
+    'severity', CASE
+      WHEN v_count >= 4 THEN 'high'
+      WHEN v_count >= 2 OR (v_count = 0 AND v_evasion) THEN 'medium'
+      ELSE 'low'
+    END,
+    'evasion_detected', v_evasion
+  );
+END;
+$$;
+
+-- Function: Flag a profile for a chat policy violation
+-- Blocks the profile once it has been flagged three times. Returns the new flag count.
+CREATE OR REPLACE FUNCTION flag_profile_for_violation(p_profile_id UUID, p_reason TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_flag_count INTEGER;
+BEGIN
+  UPDATE profiles
+  SET
+    is_flagged = TRUE,
+    flag_reason = p_reason,
+    flagged_at = NOW(),
+    flag_count = COALESCE(flag_count, 0) + 1
+  WHERE id = p_profile_id
+  RETURNING flag_count INTO v_flag_count;
+
+  IF v_flag_count IS NULL THEN
+    RAISE EXCEPTION 'Profile not found';
+  END IF;
+
+  IF v_flag_count >= 3 THEN
+    UPDATE profiles
+    SET
+      is_blocked = TRUE,
+      block_reason = 'Automatically blocked after ' || v_flag_count || ' chat policy violations'
+    WHERE id = p_profile_id;
+  END IF;
+
+  RETURN v_flag_count;
+END;
+$$;
+
+-- Trigger: Moderate chat messages written with a user's JWT
+CREATE OR REPLACE FUNCTION enforce_chat_message_moderation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_result JSONB;
+  v_file_result JSONB;
+  v_types TEXT[];
+  v_count INTEGER;
+  v_severity TEXT;
+  v_recent INTEGER;
+  v_daily INTEGER;
+  v_block BOOLEAN;
+  v_flag BOOLEAN;
+  v_project_id UUID;
+BEGIN
+  -- Server-written messages (service role, migrations) are trusted
+  IF COALESCE(auth.role(), '') NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND NEW.content IS NOT DISTINCT FROM OLD.content
+    AND NEW.file_name IS NOT DISTINCT FROM OLD.file_name
+  THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM profiles WHERE id = NEW.sender_id AND is_blocked) THEN
+    RAISE EXCEPTION 'Your account has been blocked from sending messages. Please contact support.'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- Same limits as ModerationService (5 violations an hour, 15 a day)
+  SELECT
+    count(*) FILTER (WHERE created_at > NOW() - INTERVAL '1 hour'),
+    count(*)
+  INTO v_recent, v_daily
+  FROM moderation_logs
+  WHERE user_id = NEW.sender_id
+    AND created_at > NOW() - INTERVAL '1 day';
+
+  IF v_recent >= 5 OR v_daily >= 15 THEN
+    RAISE EXCEPTION 'You have been temporarily restricted from sending messages due to repeated violations. Please try again later.'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  v_result := moderate_chat_text(NEW.content);
+  IF NEW.file_name IS DISTINCT FROM NEW.content THEN
+    v_file_result := moderate_chat_text(NEW.file_name);
+  END IF;
+
+  IF (v_result->>'allowed')::BOOLEAN
+    AND (v_file_result IS NULL OR (v_file_result->>'allowed')::BOOLEAN)
+  THEN
+    RETURN NEW;
+  END IF;
+
+  v_types := ARRAY(
+    SELECT DISTINCT jsonb_array_elements_text(
+      (v_result->'violation_types') || COALESCE(v_file_result->'violation_types', '[]'::JSONB)
+    )
+  );
+  v_count := (v_result->>'violation_count')::INTEGER
+    + COALESCE((v_file_result->>'violation_count')::INTEGER, 0);
+  v_severity := CASE
+    WHEN v_count >= 4 THEN 'high'
+    WHEN v_count >= 2 OR v_count = 0 THEN 'medium'
+    ELSE 'low'
+  END;
+
+  -- Evasion attempts have nothing to redact, so they are dropped too
+  v_block := v_severity = 'high' OR v_count = 0;
+  v_flag := (v_daily + 1) % 3 = 0;
+
+  SELECT project_id INTO v_project_id FROM chat_rooms WHERE id = NEW.chat_room_id;
+
+  -- chat_id stays empty: the message row does not exist yet (and may never)
+  INSERT INTO moderation_logs (
+    user_id,
+    project_id,
+    original_content,
+    sanitized_content,
+    violation_types,
+    violation_count,
+    severity,
+    action_taken,
+    metadata
+  ) VALUES (
+    NEW.sender_id,
+    v_project_id,
+    concat_ws(E'\n', NEW.content, NULLIF(NEW.file_name, NEW.content)),
+    concat_ws(E'\n', v_result->>'sanitized', v_file_result->>'sanitized'),
+    v_types,
+    v_count,
+    v_severity,
+    CASE WHEN v_flag THEN 'flagged' WHEN v_block THEN 'blocked' ELSE 'redacted' END,
+    jsonb_build_object(
+      'source', 'server',
+      'message_id', NEW.id,
+      'chat_room_id', NEW.chat_room_id,
+      'operation', lower(TG_OP),
+      'delivered', NOT v_block,
+      'evasionDetected', (v_result->>'evasion_detected')::BOOLEAN
+        OR COALESCE((v_file_result->>'evasion_detected')::BOOLEAN, FALSE)
+    )
+  );
+
+  IF v_flag THEN
+    PERFORM flag_profile_for_violation(
+      NEW.sender_id,
+      CASE
+        WHEN 'phone' = ANY(v_types) THEN 'phone_sharing'
+        WHEN 'email' = ANY(v_types) THEN 'email_sharing'
+        WHEN 'address' = ANY(v_types) THEN 'address_sharing'
+        WHEN 'link' = ANY(v_types) THEN 'link_sharing'
+        ELSE 'social_sharing'
+      END
+    );
+  END IF;
+
+  IF v_block THEN
+    -- Skips the row without an error so the log above is kept
+    RETURN NULL;
+  END IF;
+
+  NEW.content := v_result->>'sanitized';
+  IF v_file_result IS NOT NULL AND NOT (v_file_result->>'allowed')::BOOLEAN THEN
+    NEW.file_name := v_file_result->>'sanitized';
+  END IF;
+  NEW.is_flagged := TRUE;
+  NEW.contains_contact_info := TRUE;
+  NEW.flagged_reason := 'Redacted: ' || array_to_string(v_types, ', ');
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_enforce_chat_message_moderation ON chat_messages;
+CREATE TRIGGER trigger_enforce_chat_message_moderation
+  BEFORE INSERT OR UPDATE OF content, file_name ON chat_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_chat_message_moderation();
+
+REVOKE EXECUTE ON FUNCTION flag_profile_for_violation FROM PUBLIC, authenticated, anon;
+GRANT EXECUTE ON FUNCTION flag_profile_for_violation TO service_role;
+
+COMMENT ON FUNCTION moderate_chat_text IS 'Detects and redacts personal information (mirror of lib/validations/chat-content.ts)';
+COMMENT ON FUNCTION flag_profile_for_violation IS 'Flags a profile for a chat violation and blocks it at three flags';
+COMMENT ON FUNCTION enforce_chat_message_moderation IS 'Blocks or redacts chat messages sent with a user JWT and logs to moderation_logs';
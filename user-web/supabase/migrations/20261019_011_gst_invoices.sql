@@ -0,0 +1,264 @@
+-- ============================================================================
+-- GST Invoices and Credit Notes
+-- ============================================================================
+-- Invoices are issued once, when a project payment is confirmed, from the
+-- amounts actually charged. Refunds on cancelled projects get a credit note
+-- against that invoice. Both are numbered without gaps per financial year
+-- (April-March, IST):
+--   INV/26-27/000001   tax invoices
+--   CN/26-27/000001    credit notes
+-- The number is taken from invoice_sequences inside the same transaction as
+-- the insert, so a failed issue rolls the counter back with it.
+--
+-- Amounts and the CGST/SGST vs IGST split are calculated in lib/gst.ts and
+-- passed in; the rendered PDF is stored in the private "invoices" bucket and
+-- its object path kept in invoices.pdf_url.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS invoices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_number TEXT NOT NULL,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  project_id UUID REFERENCES projects(id) ON DELETE SET NULL,
+  payment_id UUID REFERENCES payments(id) ON DELETE SET NULL,
+  invoice_date TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  due_date TIMESTAMPTZ,
+  subtotal DECIMAL(10, 2) NOT NULL,
+  discount_amount DECIMAL(10, 2) DEFAULT 0,
+  tax_rate DECIMAL(5, 2),
+  tax_type TEXT,
+  tax_amount DECIMAL(10, 2) DEFAULT 0,
+  total_amount DECIMAL(10, 2) NOT NULL,
+  status TEXT,
+  pdf_url TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE invoices
+  ADD COLUMN IF NOT EXISTS document_type TEXT NOT NULL DEFAULT 'invoice'
+    CHECK (document_type IN ('invoice', 'credit_note')),
+  ADD COLUMN IF NOT EXISTS financial_year TEXT,
+  ADD COLUMN IF NOT EXISTS sequence_number INTEGER,
+  ADD COLUMN IF NOT EXISTS original_invoice_id UUID REFERENCES invoices(id) ON DELETE RESTRICT,
+  ADD COLUMN IF NOT EXISTS refund_id UUID REFERENCES project_refunds(id) ON DELETE RESTRICT,
+  ADD COLUMN IF NOT EXISTS payment_reference TEXT,
+  ADD COLUMN IF NOT EXISTS hsn_sac TEXT,
+  ADD COLUMN IF NOT EXISTS supplier_state TEXT,
+  ADD COLUMN IF NOT EXISTS place_of_supply TEXT,
+  ADD COLUMN IF NOT EXISTS cgst_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS sgst_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS igst_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS line_items JSONB NOT NULL DEFAULT '[]',
+  ADD COLUMN IF NOT EXISTS billing_details JSONB NOT NULL DEFAULT '{}';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_invoice_number ON invoices(invoice_number);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_sequence
+  ON invoices(document_type, financial_year, sequence_number)
+  WHERE sequence_number IS NOT NULL;
+-- One tax invoice per project and one credit note per refund
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_project_invoice
+  ON invoices(project_id)
+  WHERE document_type = 'invoice' AND project_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_refund_id ON invoices(refund_id) WHERE refund_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_invoices_user_id ON invoices(user_id, invoice_date DESC);
+
+ALTER TABLE invoices ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can view their own invoices and credit notes (written by the server)
+DROP POLICY IF EXISTS "Users can view own invoices" ON invoices;
+CREATE POLICY "Users can view own invoices" ON invoices
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE TABLE IF NOT EXISTS invoice_sequences (
+  document_type TEXT NOT NULL CHECK (document_type IN ('invoice', 'credit_note')),
+  financial_year TEXT NOT NULL,
+  last_number INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (document_type, financial_year)
+);
+
+ALTER TABLE invoice_sequences ENABLE ROW LEVEL SECURITY;
+
+-- Function: Issue an invoice or credit note with the next number of the financial year
+-- Returns the existing document when the project (or refund) already has one.
+CREATE OR REPLACE FUNCTION issue_invoice(
+  p_document_type TEXT,
+  p_user_id UUID,
+  p_project_id UUID,
+  p_payment_id UUID,
+  p_payment_reference TEXT,
+  p_original_invoice_id UUID,
+  p_refund_id UUID,
+  p_subtotal NUMERIC,
+  p_discount_amount NUMERIC,
+  p_tax_rate NUMERIC,
+  p_tax_type TEXT,
+  p_cgst_amount NUMERIC,
+  p_sgst_amount NUMERIC,
+  p_igst_amount NUMERIC,
+  p_tax_amount NUMERIC,
+  p_total_amount NUMERIC,
+  p_hsn_sac TEXT,
+  p_supplier_state TEXT,
+  p_place_of_supply TEXT,
+  p_line_items JSONB,
+  p_billing_details JSONB
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_today DATE := (NOW() AT TIME ZONE 'Asia/Kolkata')::DATE;
+  v_start_year INTEGER;
+  v_financial_year TEXT;
+  v_sequence INTEGER;
+  v_number TEXT;
+  v_existing RECORD;
+  v_invoice_id UUID;
+  v_credited NUMERIC;
+  v_original_total NUMERIC;
+BEGIN
+  IF p_document_type NOT IN ('invoice', 'credit_note') THEN
+    RAISE EXCEPTION 'Unknown document type %', p_document_type;
+  END IF;
+
+  IF p_document_type = 'credit_note' AND (p_original_invoice_id IS NULL OR p_refund_id IS NULL) THEN
+    RAISE EXCEPTION 'Credit notes need the original invoice and the refund';
+  END IF;
+
+  IF p_total_amount <= 0 THEN
+    RAISE EXCEPTION 'Invoice total must be positive';
+  END IF;
+
+  v_start_year := EXTRACT(YEAR FROM v_today)::INTEGER
+    - CASE WHEN EXTRACT(MONTH FROM v_today) < 4 THEN 1 ELSE 0 END;
+  v_financial_year := v_start_year || '-' || lpad(((v_start_year + 1) % 100)::TEXT, 2, '0');
+
+  INSERT INTO invoice_sequences (document_type, financial_year)
+  VALUES (p_document_type, v_financial_year)
+  ON CONFLICT (document_type, financial_year) DO NOTHING;
+
+  -- The counter row lock serialises issuing, so the duplicate check below is safe
+  SELECT last_number INTO v_sequence
+  FROM invoice_sequences
+  WHERE document_type = p_document_type AND financial_year = v_financial_year
+  FOR UPDATE;
+
+  SELECT id, invoice_number INTO v_existing
+  FROM invoices
+  WHERE document_type = p_document_type
+    AND (
+      (p_document_type = 'invoice' AND project_id = p_project_id)
+      OR (p_document_type = 'credit_note' AND refund_id = p_refund_id)
+    )
+  LIMIT 1;
+
+  IF v_existing.id IS NOT NULL THEN
+    RETURN json_build_object(
+      'invoice_id', v_existing.id,
+      'invoice_number', v_existing.invoice_number,
+      'created', FALSE
+    );
+  END IF;
+
+  v_sequence := v_sequence + 1;
+  v_number := CASE WHEN p_document_type = 'invoice' THEN 'INV' ELSE 'CN' END
+    || '/' || right(v_start_year::TEXT, 2) || '-' || lpad(((v_start_year + 1) % 100)::TEXT, 2, '0')
+    || '/' || lpad(v_sequence::TEXT, 6, '0');
+
+  UPDATE invoice_sequences
+  SET last_number = v_sequence
+  WHERE document_type = p_document_type AND financial_year = v_financial_year;
+
+  INSERT INTO invoices (
+    invoice_number,
+    document_type,
+    financial_year,
+    sequence_number,
+    user_id,
+    project_id,
+    payment_id,
+    payment_reference,
+    original_invoice_id,
+    refund_id,
+    invoice_date,
+    subtotal,
+    discount_amount,
+    tax_rate,
+    tax_type,
+    cgst_amount,
+    sgst_amount,
+    igst_amount,
+    tax_amount,
+    total_amount,
+    hsn_sac,
+    supplier_state,
+    place_of_supply,
+    line_items,
+    billing_details,
+    status
+  ) VALUES (
+    v_number,
+    p_document_type,
+    v_financial_year,
+    v_sequence,
+    p_user_id,
+    p_project_id,
+    p_payment_id,
+    p_payment_reference,
+    p_original_invoice_id,
+    p_refund_id,
+    NOW(),
+    p_subtotal,
+    COALESCE(p_discount_amount, 0),
+    p_tax_rate,
+    p_tax_type,
+    p_cgst_amount,
+    p_sgst_amount,
+    p_igst_amount,
+    p_tax_amount,
+    p_total_amount,
+    p_hsn_sac,
+    p_supplier_state,
+    p_place_of_supply,
+    COALESCE(p_line_items, '[]'),
+    COALESCE(p_billing_details, '{}'),
+    CASE WHEN p_document_type = 'invoice' THEN 'paid' ELSE 'issued' END
+  )
+  RETURNING id INTO v_invoice_id;
+
+  IF p_document_type = 'credit_note' THEN
+    SELECT total_amount INTO v_original_total FROM invoices WHERE id = p_original_invoice_id;
+
+    SELECT COALESCE(SUM(total_amount), 0) INTO v_credited
+    FROM invoices
+    WHERE original_invoice_id = p_original_invoice_id AND document_type = 'credit_note';
+
+    UPDATE invoices
+    SET status = CASE WHEN v_credited >= v_original_total THEN 'refunded' ELSE 'partially_refunded' END
+    WHERE id = p_original_invoice_id;
+  END IF;
+
+  RETURN json_build_object(
+    'invoice_id', v_invoice_id,
+    'invoice_number', v_number,
+    'created', TRUE
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION issue_invoice FROM PUBLIC, authenticated, anon;
+GRANT EXECUTE ON FUNCTION issue_invoice TO service_role;
+
+-- Private bucket for invoice PDFs; downloads go through /api/invoices/[projectId]
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('invoices', 'invoices', false)
+ON CONFLICT (id) DO NOTHING;
+
+COMMENT ON TABLE invoice_sequences IS 'Last issued invoice / credit note number per financial year';
+COMMENT ON COLUMN invoices.pdf_url IS 'Object path of the rendered PDF in the private invoices bucket';
+COMMENT ON COLUMN invoices.subtotal IS 'Taxable value after discounts';
+COMMENT ON FUNCTION issue_invoice IS 'Issues a GST invoice or credit note with gap-free per-financial-year numbering';
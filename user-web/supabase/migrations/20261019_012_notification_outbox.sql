@@ -0,0 +1,115 @@
+-- ============================================================================
+-- Notification Outbox
+-- ============================================================================
+-- Every notification (in-app, web push, WhatsApp, email) is written here by
+-- lib/notifications/outbox.ts and delivered by the /api/notifications/outbox
+-- worker. One row per event and channel: the event key deduplicates repeats,
+-- failed deliveries back off exponentially and end up as dead letters.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS notification_outbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_key TEXT NOT NULL,
+  channel TEXT NOT NULL CHECK (channel IN ('in_app', 'push', 'whatsapp', 'email')),
+  profile_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  category TEXT NOT NULL DEFAULT 'status' CHECK (category IN ('quotes', 'status', 'chat')),
+  notification_type TEXT NOT NULL DEFAULT 'system_alert',
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  action_url TEXT,
+  reference_type TEXT,
+  reference_id UUID,
+  -- Channel specific extras (push tag / data, WhatsApp template or text, email)
+  payload JSONB NOT NULL DEFAULT '{}',
+  bypass_quiet_hours BOOLEAN NOT NULL DEFAULT FALSE,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'sent', 'skipped', 'cancelled', 'dead')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 6,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ,
+  locked_at TIMESTAMPTZ,
+  last_error TEXT,
+  sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (event_key, channel)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_outbox_due
+  ON notification_outbox(next_attempt_at)
+  WHERE status IN ('pending', 'processing');
+CREATE INDEX IF NOT EXISTS idx_notification_outbox_dead
+  ON notification_outbox(updated_at DESC)
+  WHERE status = 'dead';
+CREATE INDEX IF NOT EXISTS idx_notification_outbox_reference
+  ON notification_outbox(reference_type, reference_id);
+
+-- Only the service role (dispatcher and worker) may touch the outbox
+ALTER TABLE notification_outbox ENABLE ROW LEVEL SECURITY;
+
+-- Per-channel preferences read by notificationService.getPreferences, plus quiet hours
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  profile_id UUID PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  preferences JSONB NOT NULL DEFAULT '{}',
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE notification_preferences
+ADD COLUMN IF NOT EXISTS quiet_hours_start TIME,
+ADD COLUMN IF NOT EXISTS quiet_hours_end TIME,
+ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'Asia/Kolkata';
+
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users manage their own preferences
+DROP POLICY IF EXISTS notification_preferences_own_policy ON notification_preferences;
+CREATE POLICY notification_preferences_own_policy ON notification_preferences
+  FOR ALL
+  TO authenticated
+  USING (profile_id = auth.uid())
+  WITH CHECK (profile_id = auth.uid());
+
+-- Function: Claim due outbox rows for delivery
+-- Picks pending rows whose time has come, plus rows left in 'processing' by a
+-- worker that died more than p_lock_seconds ago. SKIP LOCKED lets several
+-- workers drain the outbox side by side. Pass p_ids to claim specific rows
+-- (the dispatcher delivers freshly queued rows straight away).
+CREATE OR REPLACE FUNCTION claim_notification_outbox(
+  p_limit INTEGER DEFAULT 50,
+  p_lock_seconds INTEGER DEFAULT 300,
+  p_ids UUID[] DEFAULT NULL
+)
+RETURNS SETOF notification_outbox
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE notification_outbox o
+  SET status = 'processing',
+      locked_at = NOW(),
+      updated_at = NOW()
+  WHERE o.id IN (
+    SELECT c.id
+    FROM notification_outbox c
+    WHERE (p_ids IS NULL OR c.id = ANY(p_ids))
+      AND (
+        (c.status = 'pending' AND c.next_attempt_at <= NOW())
+        OR (c.status = 'processing' AND c.locked_at < NOW() - make_interval(secs => p_lock_seconds))
+      )
+    ORDER BY c.next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING o.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_notification_outbox FROM PUBLIC, authenticated, anon;
+GRANT EXECUTE ON FUNCTION claim_notification_outbox TO service_role;
+
+COMMENT ON TABLE notification_outbox IS 'Queued notifications per channel, deduplicated by event key';
+COMMENT ON COLUMN notification_outbox.status IS 'pending -> processing -> sent / skipped, or back to pending with backoff until dead';
+COMMENT ON TABLE notification_preferences IS 'Per-channel notification preferences and quiet hours';
+COMMENT ON FUNCTION claim_notification_outbox IS 'Claims due notification outbox rows for delivery';
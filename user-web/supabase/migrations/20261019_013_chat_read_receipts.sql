@@ -0,0 +1,237 @@
+-- ============================================================================
+-- Chat Read Receipts
+-- ============================================================================
+-- One receipt model for all three apps: a chat_read_receipts row per message
+-- and recipient, with delivered_at (the recipient's app has the message) and
+-- read_at (the recipient opened the room). Ticks are derived from these rows:
+--   sent       - no receipt yet
+--   delivered  - delivered_at set
+--   read       - read_at set
+--
+-- Receipts are written only by the RPCs below, which also keep the older
+-- chat_messages.read_by / delivered_at columns and chat_participants
+-- last_read_at / unread_count in step, and broadcast a 'receipts' event on
+-- the room's realtime channel (topic 'chat:<room id>') so senders see ticks
+-- change live. See shared/chat-receipts.ts for the client side.
+-- ============================================================================
+
+ALTER TABLE chat_read_receipts ADD COLUMN IF NOT EXISTS delivered_at TIMESTAMPTZ;
+ALTER TABLE chat_read_receipts ALTER COLUMN read_at DROP NOT NULL;
+
+-- Existing rows were written on read, so they were delivered then too
+UPDATE chat_read_receipts SET delivered_at = read_at
+WHERE delivered_at IS NULL AND read_at IS NOT NULL;
+
+-- One receipt per message and recipient (keep the earliest duplicate)
+DELETE FROM chat_read_receipts r
+USING chat_read_receipts d
+WHERE r.message_id = d.message_id
+  AND r.profile_id = d.profile_id
+  AND (COALESCE(r.read_at, 'infinity'::TIMESTAMPTZ), r.id)
+    > (COALESCE(d.read_at, 'infinity'::TIMESTAMPTZ), d.id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_chat_read_receipts_message_profile
+  ON chat_read_receipts(message_id, profile_id);
+CREATE INDEX IF NOT EXISTS idx_chat_read_receipts_profile
+  ON chat_read_receipts(profile_id);
+
+-- Participants of a room can see each other's receipts; writes go through the RPCs
+ALTER TABLE chat_read_receipts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS chat_read_receipts_select_policy ON chat_read_receipts;
+CREATE POLICY chat_read_receipts_select_policy ON chat_read_receipts
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM chat_messages m
+      JOIN chat_participants p ON p.chat_room_id = m.chat_room_id
+      WHERE m.id = chat_read_receipts.message_id
+        AND p.profile_id = auth.uid()
+    )
+  );
+
+-- Function: Broadcast a receipts event on the room channel
+-- Every message in the room not sent by p_profile_id and created at or before
+-- p_at was delivered to / read by them. Best effort: a missing realtime
+-- schema (e.g. plain Postgres in tests) only logs a warning.
+CREATE OR REPLACE FUNCTION broadcast_chat_receipts(
+  p_chat_room_id UUID,
+  p_profile_id UUID,
+  p_status TEXT,
+  p_at TIMESTAMPTZ
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM realtime.send(
+    jsonb_build_object('profile_id', p_profile_id, 'status', p_status, 'at', p_at),
+    'receipts',
+    'chat:' || p_chat_room_id::TEXT,
+    FALSE
+  );
+EXCEPTION WHEN OTHERS THEN
+  RAISE WARNING 'broadcast_chat_receipts failed: %', SQLERRM;
+END;
+$$;
+
+-- Function: Check that the caller may write receipts for a profile
+-- Users can only write their own; the service role can write anyone's.
+CREATE OR REPLACE FUNCTION assert_chat_receipt_caller(p_profile_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+STABLE
+AS $$
+BEGIN
+  IF COALESCE(auth.role(), '') IN ('authenticated', 'anon')
+     AND p_profile_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Cannot write chat receipts for another profile'
+      USING ERRCODE = '42501';
+  END IF;
+END;
+$$;
+
+-- Function: Mark messages as delivered to a profile
+-- Covers one room, or every room the profile is in when p_chat_room_id is NULL.
+-- Returns the number of newly delivered messages.
+CREATE OR REPLACE FUNCTION mark_chat_messages_delivered(
+  p_profile_id UUID,
+  p_chat_room_id UUID DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_now TIMESTAMPTZ := now();
+  v_room RECORD;
+  v_ids UUID[];
+  v_total INTEGER := 0;
+BEGIN
+  PERFORM assert_chat_receipt_caller(p_profile_id);
+
+  FOR v_room IN
+    SELECT chat_room_id
+    FROM chat_participants
+    WHERE profile_id = p_profile_id
+      AND (p_chat_room_id IS NULL OR chat_room_id = p_chat_room_id)
+  LOOP
+    WITH inserted AS (
+      INSERT INTO chat_read_receipts (message_id, profile_id, delivered_at, read_at)
+      SELECT m.id, p_profile_id, v_now, NULL
+      FROM chat_messages m
+      WHERE m.chat_room_id = v_room.chat_room_id
+        AND m.sender_id <> p_profile_id
+        AND m.created_at <= v_now
+        AND NOT EXISTS (
+          SELECT 1 FROM chat_read_receipts r
+          WHERE r.message_id = m.id AND r.profile_id = p_profile_id
+        )
+      ON CONFLICT (message_id, profile_id) DO NOTHING
+      RETURNING message_id
+    )
+    SELECT array_agg(message_id) INTO v_ids FROM inserted;
+
+    IF v_ids IS NOT NULL THEN
+      UPDATE chat_messages
+      SET delivered_at = v_now
+      WHERE id = ANY(v_ids) AND delivered_at IS NULL;
+
+      v_total := v_total + cardinality(v_ids);
+      PERFORM broadcast_chat_receipts(v_room.chat_room_id, p_profile_id, 'delivered', v_now);
+    END IF;
+  END LOOP;
+
+  RETURN v_total;
+END;
+$$;
+
+-- Function: Mark every message in a room as read by a profile
+-- Also appends the reader to chat_messages.read_by and resets the
+-- participant's unread count. Returns the number of newly read messages.
+-- Replaces the earlier definition (same arguments).
+DROP FUNCTION IF EXISTS mark_room_messages_as_read(UUID, UUID);
+CREATE OR REPLACE FUNCTION mark_room_messages_as_read(
+  p_chat_room_id UUID,
+  p_profile_id UUID
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_now TIMESTAMPTZ := now();
+  v_ids UUID[];
+BEGIN
+  PERFORM assert_chat_receipt_caller(p_profile_id);
+
+  IF NOT EXISTS (
+    SELECT 1 FROM chat_participants
+    WHERE chat_room_id = p_chat_room_id AND profile_id = p_profile_id
+  ) THEN
+    RETURN 0;
+  END IF;
+
+  WITH upserted AS (
+    INSERT INTO chat_read_receipts (message_id, profile_id, delivered_at, read_at)
+    SELECT m.id, p_profile_id, v_now, v_now
+    FROM chat_messages m
+    WHERE m.chat_room_id = p_chat_room_id
+      AND m.sender_id <> p_profile_id
+      AND m.created_at <= v_now
+      AND NOT EXISTS (
+        SELECT 1 FROM chat_read_receipts r
+        WHERE r.message_id = m.id
+          AND r.profile_id = p_profile_id
+          AND r.read_at IS NOT NULL
+      )
+    ON CONFLICT (message_id, profile_id) DO UPDATE
+      SET read_at = EXCLUDED.read_at,
+          delivered_at = COALESCE(chat_read_receipts.delivered_at, EXCLUDED.delivered_at)
+      WHERE chat_read_receipts.read_at IS NULL
+    RETURNING message_id
+  )
+  SELECT array_agg(message_id) INTO v_ids FROM upserted;
+
+  IF v_ids IS NOT NULL THEN
+    UPDATE chat_messages
+    SET read_by = CASE
+          WHEN COALESCE(read_by, '[]'::JSONB) ? p_profile_id::TEXT THEN read_by
+          ELSE COALESCE(read_by, '[]'::JSONB) || to_jsonb(p_profile_id::TEXT)
+        END,
+        delivered_at = COALESCE(delivered_at, v_now)
+    WHERE id = ANY(v_ids);
+  END IF;
+
+  UPDATE chat_participants
+  SET last_read_at = v_now,
+      unread_count = 0
+  WHERE chat_room_id = p_chat_room_id
+    AND profile_id = p_profile_id;
+
+  IF v_ids IS NOT NULL THEN
+    PERFORM broadcast_chat_receipts(p_chat_room_id, p_profile_id, 'read', v_now);
+  END IF;
+
+  RETURN COALESCE(cardinality(v_ids), 0);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION broadcast_chat_receipts FROM PUBLIC, authenticated, anon;
+GRANT EXECUTE ON FUNCTION broadcast_chat_receipts TO service_role;
+REVOKE EXECUTE ON FUNCTION mark_chat_messages_delivered FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION mark_chat_messages_delivered TO authenticated, service_role;
+REVOKE EXECUTE ON FUNCTION mark_room_messages_as_read FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION mark_room_messages_as_read TO authenticated, service_role;
+
+COMMENT ON COLUMN chat_read_receipts.delivered_at IS 'When the message reached the recipient''s app';
+COMMENT ON COLUMN chat_read_receipts.read_at IS 'When the recipient read the message (NULL while only delivered)';
+COMMENT ON FUNCTION broadcast_chat_receipts IS 'Sends a receipts event on the chat:<room id> realtime channel';
+COMMENT ON FUNCTION assert_chat_receipt_caller IS 'Rejects users writing receipts for another profile';
+COMMENT ON FUNCTION mark_chat_messages_delivered IS 'Records delivery receipts for a profile in one or all of its rooms';
+COMMENT ON FUNCTION mark_room_messages_as_read IS 'Records read receipts for a profile in a room and resets its unread count';
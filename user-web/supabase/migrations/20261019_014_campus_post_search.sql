@@ -0,0 +1,170 @@
+-- ============================================================================
+-- Campus Connect Search
+-- ============================================================================
+-- Ranked full-text search for campus posts, replacing the title / content
+-- ILIKE scan in getCampusConnectPosts.
+--
+--   search_vector  - Stored tsvector over title (weight A), event venue and
+--                    location (B) and content (C); English stemming so
+--                    "hostels" finds "hostel"
+--   search_campus_posts_ranked()    - Matches, rank, highlighted snippets and
+--                                     the total count, with the feed filters
+--   suggest_campus_post_searches()  - Typo-tolerant title suggestions
+--                                     (pg_trgm word similarity)
+--
+-- Both functions run as the caller so the campus_posts RLS policies apply.
+-- Highlights are wrapped in chr(2) / chr(3) rather than HTML so post text is
+-- never rendered as markup; see components/campus-connect/highlighted-text.tsx.
+-- ============================================================================
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+ALTER TABLE campus_posts ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A')
+    || setweight(to_tsvector('english', coalesce(event_venue, '') || ' ' || coalesce(location, '')), 'B')
+    || setweight(to_tsvector('english', coalesce(content, '')), 'C')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_campus_posts_search_vector
+  ON campus_posts USING gin(search_vector);
+
+-- Trigram index for suggestions
+CREATE INDEX IF NOT EXISTS idx_campus_posts_title_trgm
+  ON campus_posts USING gin(title gin_trgm_ops);
+
+-- Range filters
+CREATE INDEX IF NOT EXISTS idx_campus_posts_price
+  ON campus_posts(price) WHERE price IS NOT NULL;
+
+-- Function: Ranked search with highlights
+-- p_sort: 'relevance' (default), 'recent', 'popular' or 'most_comments'.
+-- A query that is only stop words matches nothing.
+CREATE OR REPLACE FUNCTION search_campus_posts_ranked(
+  p_query TEXT,
+  p_category campus_post_category DEFAULT NULL,
+  p_college_id UUID DEFAULT NULL,
+  p_event_from TIMESTAMPTZ DEFAULT NULL,
+  p_event_to TIMESTAMPTZ DEFAULT NULL,
+  p_min_price NUMERIC DEFAULT NULL,
+  p_max_price NUMERIC DEFAULT NULL,
+  p_exclude_housing BOOLEAN DEFAULT FALSE,
+  p_sort TEXT DEFAULT 'relevance',
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  rank REAL,
+  title_highlight TEXT,
+  content_highlight TEXT,
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_query TSQUERY := websearch_to_tsquery('english', coalesce(p_query, ''));
+  v_options TEXT := 'StartSel="' || chr(2) || '", StopSel="' || chr(3) || '"';
+BEGIN
+  IF p_sort NOT IN ('relevance', 'recent', 'popular', 'most_comments') THEN
+    RAISE EXCEPTION 'Invalid sort: %', p_sort;
+  END IF;
+
+  IF numnode(v_query) = 0 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH matches AS (
+    SELECT
+      p.id,
+      p.title,
+      p.content,
+      p.event_venue,
+      p.location,
+      ts_rank(p.search_vector, v_query, 1) AS rank,
+      COUNT(*) OVER () AS total_count,
+      row_number() OVER (
+        ORDER BY
+          CASE WHEN p_sort = 'relevance' THEN ts_rank(p.search_vector, v_query, 1) END DESC,
+          CASE WHEN p_sort = 'popular' THEN p.likes_count END DESC NULLS LAST,
+          CASE WHEN p_sort = 'most_comments' THEN p.comments_count END DESC NULLS LAST,
+          CASE WHEN p_sort = 'recent' THEN p.is_pinned END DESC NULLS LAST,
+          p.created_at DESC
+      ) AS position
+    FROM campus_posts p
+    WHERE p.search_vector @@ v_query
+      -- Same statuses as the feed: the app creates posts as 'published'
+      AND (p.status IN ('active', 'published') OR p.status IS NULL)
+      AND p.is_hidden IS NOT TRUE
+      AND (p_category IS NULL OR p.category = p_category)
+      AND (NOT p_exclude_housing OR p.category <> 'housing')
+      AND (p_college_id IS NULL OR p.college_id = p_college_id)
+      AND (p_event_from IS NULL OR p.event_date >= p_event_from)
+      AND (p_event_to IS NULL OR p.event_date <= p_event_to)
+      AND (p_min_price IS NULL OR p.price >= p_min_price)
+      AND (p_max_price IS NULL OR p.price <= p_max_price)
+  ),
+  page AS (
+    SELECT * FROM matches
+    ORDER BY position
+    LIMIT p_limit
+    OFFSET p_offset
+  )
+  -- Headlines are only built for the returned page
+  SELECT
+    m.id,
+    m.rank,
+    ts_headline('english', m.title, v_query, v_options || ', HighlightAll=true'),
+    ts_headline(
+      'english',
+      concat_ws(' · ', nullif(m.content, ''), nullif(m.event_venue, ''), nullif(m.location, '')),
+      v_query,
+      v_options || ', MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "'
+    ),
+    m.total_count
+  FROM page m
+  ORDER BY m.position;
+END;
+$$;
+
+-- Function: Search suggestions for a (possibly misspelt) query
+-- Titles containing a word close to p_query, best match first.
+CREATE OR REPLACE FUNCTION suggest_campus_post_searches(
+  p_query TEXT,
+  p_college_id UUID DEFAULT NULL,
+  p_exclude_housing BOOLEAN DEFAULT FALSE,
+  p_limit INTEGER DEFAULT 5
+)
+RETURNS TABLE (
+  suggestion TEXT,
+  similarity REAL
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET pg_trgm.word_similarity_threshold = 0.3
+AS $$
+  SELECT s.title, s.similarity
+  FROM (
+    SELECT DISTINCT ON (lower(p.title))
+      p.title::TEXT AS title,
+      word_similarity(p_query, p.title) AS similarity
+    FROM campus_posts p
+    WHERE p_query <% p.title
+      AND (p.status IN ('active', 'published') OR p.status IS NULL)
+      AND p.is_hidden IS NOT TRUE
+      AND (NOT p_exclude_housing OR p.category <> 'housing')
+      AND (p_college_id IS NULL OR p.college_id = p_college_id)
+    ORDER BY lower(p.title), word_similarity(p_query, p.title) DESC
+  ) s
+  ORDER BY s.similarity DESC, length(s.title)
+  LIMIT p_limit;
+$$;
+
+COMMENT ON COLUMN campus_posts.search_vector IS 'Weighted full-text document: title (A), event venue / location (B), content (C)';
+
+GRANT EXECUTE ON FUNCTION search_campus_posts_ranked TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION suggest_campus_post_searches TO anon, authenticated;
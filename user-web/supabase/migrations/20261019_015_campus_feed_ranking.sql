@@ -0,0 +1,154 @@
+-- ============================================================================
+-- Campus Connect "For you" Feed
+-- ============================================================================
+-- Personalised feed ordering, computed in the database:
+--
+--   score = recency * engagement * college affinity * category affinity
+--
+--   recency            - halves every 48 hours since the post was created
+--   engagement         - ln(2 + likes + 2 * comments + 3 * saves + 0.05 * views)
+--   college affinity   - 1.5 for posts from the viewer's college
+--   category affinity  - 1 + the viewer's share of likes / saves / comments in
+--                        that category over the last 90 days (max 2)
+--
+-- Posts by authors the viewer blocked (campus_user_blocks) or reported
+-- (campus_post_reports on one of their posts or comments) are left out.
+--
+-- Pagination is keyset on (score, id) against a fixed p_as_of timestamp: the
+-- score is computed relative to p_as_of and posts created after it are left
+-- out, so new posts don't shift later pages while the client scrolls.
+-- Anonymous viewers get the same ranking without the affinity terms.
+-- ============================================================================
+
+-- ============================================================================
+-- USER BLOCKS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS campus_user_blocks (
+  blocker_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  blocked_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (blocker_id, blocked_id),
+  CONSTRAINT campus_user_blocks_not_self CHECK (blocker_id <> blocked_id)
+);
+
+ALTER TABLE campus_user_blocks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS campus_user_blocks_owner_policy ON campus_user_blocks;
+CREATE POLICY campus_user_blocks_owner_policy ON campus_user_blocks
+  FOR ALL TO authenticated
+  USING (blocker_id = auth.uid())
+  WITH CHECK (blocker_id = auth.uid());
+
+GRANT SELECT, INSERT, DELETE ON campus_user_blocks TO authenticated;
+
+CREATE INDEX IF NOT EXISTS idx_campus_post_reports_reporter
+  ON campus_post_reports(reporter_id);
+
+-- Candidate scan for the feed
+CREATE INDEX IF NOT EXISTS idx_campus_posts_created_at
+  ON campus_posts(created_at DESC);
+
+-- ============================================================================
+-- FEED
+-- ============================================================================
+
+-- Function: "For you" feed page
+-- Pass the p_as_of returned with the first page (and the last row's score / id)
+-- to get the next page. Only posts from the 90 days before p_as_of are ranked.
+CREATE OR REPLACE FUNCTION get_campus_feed_for_you(
+  p_as_of TIMESTAMPTZ DEFAULT NOW(),
+  p_cursor_score DOUBLE PRECISION DEFAULT NULL,
+  p_cursor_id UUID DEFAULT NULL,
+  p_category campus_post_category DEFAULT NULL,
+  p_college_id UUID DEFAULT NULL,
+  p_event_from TIMESTAMPTZ DEFAULT NULL,
+  p_event_to TIMESTAMPTZ DEFAULT NULL,
+  p_min_price NUMERIC DEFAULT NULL,
+  p_max_price NUMERIC DEFAULT NULL,
+  p_exclude_housing BOOLEAN DEFAULT FALSE,
+  p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  id UUID,
+  score DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  WITH viewer AS (
+    SELECT pr.id, pr.college_id
+    FROM profiles pr
+    WHERE pr.id = auth.uid()
+  ),
+  interactions AS (
+    SELECT cp.category
+    FROM campus_post_likes l
+    JOIN campus_posts cp ON cp.id = l.post_id
+    WHERE l.user_id = auth.uid() AND l.created_at > p_as_of - INTERVAL '90 days'
+    UNION ALL
+    SELECT cp.category
+    FROM campus_saved_posts s
+    JOIN campus_posts cp ON cp.id = s.post_id
+    WHERE s.user_id = auth.uid() AND s.created_at > p_as_of - INTERVAL '90 days'
+    UNION ALL
+    SELECT cp.category
+    FROM campus_post_comments c
+    JOIN campus_posts cp ON cp.id = c.post_id
+    WHERE c.user_id = auth.uid() AND c.created_at > p_as_of - INTERVAL '90 days'
+  ),
+  category_affinity AS (
+    SELECT category, COUNT(*)::DOUBLE PRECISION / SUM(COUNT(*)) OVER () AS share
+    FROM interactions
+    GROUP BY category
+  ),
+  hidden_authors AS (
+    SELECT b.blocked_id AS user_id
+    FROM campus_user_blocks b
+    WHERE b.blocker_id = auth.uid()
+    UNION
+    SELECT COALESCE(cp.user_id, cc.user_id)
+    FROM campus_post_reports r
+    LEFT JOIN campus_posts cp ON cp.id = r.post_id
+    LEFT JOIN campus_post_comments cc ON cc.id = r.comment_id
+    WHERE r.reporter_id = auth.uid()
+  ),
+  scored AS (
+    SELECT
+      p.id,
+      power(0.5, GREATEST(EXTRACT(EPOCH FROM (p_as_of - p.created_at)) / 3600.0, 0) / 48.0)
+        * ln(
+          2
+          + COALESCE(p.likes_count, 0)
+          + 2 * COALESCE(p.comments_count, 0)
+          + 3 * COALESCE(p.saves_count, 0)
+          + 0.05 * COALESCE(p.views_count, 0)
+        )
+        * CASE WHEN p.college_id IS NOT NULL AND p.college_id = (SELECT v.college_id FROM viewer v) THEN 1.5 ELSE 1 END
+        * (1 + COALESCE((SELECT ca.share FROM category_affinity ca WHERE ca.category = p.category), 0))
+        AS score
+    FROM campus_posts p
+    WHERE p.created_at <= p_as_of
+      AND p.created_at > p_as_of - INTERVAL '90 days'
+      -- Same statuses as the feed: the app creates posts as 'published'
+      AND (p.status IN ('active', 'published') OR p.status IS NULL)
+      AND p.is_hidden IS NOT TRUE
+      AND (p_category IS NULL OR p.category = p_category)
+      AND (NOT p_exclude_housing OR p.category <> 'housing')
+      AND (p_college_id IS NULL OR p.college_id = p_college_id)
+      AND (p_event_from IS NULL OR p.event_date >= p_event_from)
+      AND (p_event_to IS NULL OR p.event_date <= p_event_to)
+      AND (p_min_price IS NULL OR p.price >= p_min_price)
+      AND (p_max_price IS NULL OR p.price <= p_max_price)
+      AND p.user_id NOT IN (SELECT h.user_id FROM hidden_authors h WHERE h.user_id IS NOT NULL)
+  )
+  SELECT s.id, s.score
+  FROM scored s
+  WHERE p_cursor_score IS NULL
+    OR (s.score, s.id) < (p_cursor_score, p_cursor_id)
+  ORDER BY s.score DESC, s.id DESC
+  LIMIT p_limit;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_campus_feed_for_you TO anon, authenticated;
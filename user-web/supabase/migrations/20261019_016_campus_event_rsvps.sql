@@ -0,0 +1,232 @@
+-- ============================================================================
+-- Campus Connect Event RSVPs
+-- ============================================================================
+-- Going / interested / not going responses on posts in the `events` category,
+-- with an optional capacity and a first-come waitlist:
+--
+--   - "going" on a full event puts the user on the waitlist instead
+--   - when someone who was going changes their answer, the earliest
+--     waitlisted users are moved to going until the event is full again
+--   - counts are kept on campus_posts so cards don't have to aggregate
+--
+-- Responses are written only through rsvp_campus_event(), which locks the post
+-- row so two users cannot take the last seat at once. Past events are archived
+-- by archive_past_campus_events().
+-- ============================================================================
+
+-- ============================================================================
+-- EVENT COLUMNS
+-- ============================================================================
+
+ALTER TABLE campus_posts
+  ADD COLUMN IF NOT EXISTS event_capacity INTEGER
+    CHECK (event_capacity IS NULL OR event_capacity > 0),
+  ADD COLUMN IF NOT EXISTS rsvp_going_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS rsvp_interested_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS rsvp_waitlist_count INTEGER NOT NULL DEFAULT 0;
+
+-- Archive job scan
+CREATE INDEX IF NOT EXISTS idx_campus_posts_event_date
+  ON campus_posts(event_date)
+  WHERE category = 'events';
+
+-- ============================================================================
+-- RSVPS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS campus_event_rsvps (
+  post_id UUID NOT NULL REFERENCES campus_posts(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL
+    CHECK (status IN ('going', 'interested', 'not_going', 'waitlisted')),
+  -- Waitlist position: when the user last asked for a seat
+  requested_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (post_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_campus_event_rsvps_user
+  ON campus_event_rsvps(user_id);
+
+CREATE INDEX IF NOT EXISTS idx_campus_event_rsvps_waitlist
+  ON campus_event_rsvps(post_id, requested_at)
+  WHERE status = 'waitlisted';
+
+ALTER TABLE campus_event_rsvps ENABLE ROW LEVEL SECURITY;
+
+-- Users see their own response; organisers see everyone's on their events
+DROP POLICY IF EXISTS campus_event_rsvps_select_policy ON campus_event_rsvps;
+CREATE POLICY campus_event_rsvps_select_policy ON campus_event_rsvps
+  FOR SELECT TO authenticated
+  USING (
+    user_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM campus_posts p
+      WHERE p.id = campus_event_rsvps.post_id AND p.user_id = auth.uid()
+    )
+  );
+
+GRANT SELECT ON campus_event_rsvps TO authenticated;
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Function: Respond to an event
+-- p_status is 'going', 'interested' or 'not_going'. Returns the stored status
+-- (which is 'waitlisted' when the event is full), the updated counts and the
+-- users moved off the waitlist so they can be notified.
+CREATE OR REPLACE FUNCTION rsvp_campus_event(
+  p_post_id UUID,
+  p_status TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_post campus_posts%ROWTYPE;
+  v_previous TEXT;
+  v_status TEXT := p_status;
+  v_going INTEGER;
+  v_next UUID;
+  v_promoted UUID[] := '{}';
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_status NOT IN ('going', 'interested', 'not_going') THEN
+    RAISE EXCEPTION 'Invalid RSVP status: %', p_status;
+  END IF;
+
+  SELECT * INTO v_post FROM campus_posts WHERE id = p_post_id FOR UPDATE;
+
+  IF NOT FOUND OR v_post.category <> 'events' THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+
+  IF v_post.is_hidden IS TRUE
+    OR NOT (v_post.status IN ('active', 'published') OR v_post.status IS NULL) THEN
+    RAISE EXCEPTION 'This event is no longer open for RSVPs';
+  END IF;
+
+  IF v_post.event_date IS NOT NULL AND v_post.event_date <= NOW() THEN
+    RAISE EXCEPTION 'This event has already started';
+  END IF;
+
+  SELECT status INTO v_previous
+  FROM campus_event_rsvps
+  WHERE post_id = p_post_id AND user_id = v_user_id;
+
+  -- Going and waitlisted users keep their place; others join the back of the line
+  IF p_status = 'going' AND v_previous = 'waitlisted' THEN
+    v_status := 'waitlisted';
+  ELSIF p_status = 'going'
+    AND v_previous IS DISTINCT FROM 'going'
+    AND v_post.event_capacity IS NOT NULL THEN
+    SELECT COUNT(*) INTO v_going
+    FROM campus_event_rsvps
+    WHERE post_id = p_post_id AND status = 'going';
+
+    IF v_going >= v_post.event_capacity THEN
+      v_status := 'waitlisted';
+    END IF;
+  END IF;
+
+  INSERT INTO campus_event_rsvps (post_id, user_id, status)
+  VALUES (p_post_id, v_user_id, v_status)
+  ON CONFLICT (post_id, user_id) DO UPDATE SET
+    status = EXCLUDED.status,
+    requested_at = CASE
+      WHEN campus_event_rsvps.status = 'waitlisted' THEN campus_event_rsvps.requested_at
+      ELSE NOW()
+    END,
+    updated_at = NOW();
+
+  -- A seat freed up: fill it from the waitlist in order
+  IF v_previous = 'going' AND v_status <> 'going' THEN
+    LOOP
+      IF v_post.event_capacity IS NOT NULL THEN
+        SELECT COUNT(*) INTO v_going
+        FROM campus_event_rsvps
+        WHERE post_id = p_post_id AND status = 'going';
+
+        EXIT WHEN v_going >= v_post.event_capacity;
+      END IF;
+
+      SELECT user_id INTO v_next
+      FROM campus_event_rsvps
+      WHERE post_id = p_post_id AND status = 'waitlisted'
+      ORDER BY requested_at, user_id
+      LIMIT 1;
+
+      EXIT WHEN v_next IS NULL;
+
+      UPDATE campus_event_rsvps
+      SET status = 'going', updated_at = NOW()
+      WHERE post_id = p_post_id AND user_id = v_next;
+
+      v_promoted := array_append(v_promoted, v_next);
+      v_next := NULL;
+    END LOOP;
+  END IF;
+
+  UPDATE campus_posts p
+  SET
+    rsvp_going_count = c.going,
+    rsvp_interested_count = c.interested,
+    rsvp_waitlist_count = c.waitlisted
+  FROM (
+    SELECT
+      COUNT(*) FILTER (WHERE status = 'going') AS going,
+      COUNT(*) FILTER (WHERE status = 'interested') AS interested,
+      COUNT(*) FILTER (WHERE status = 'waitlisted') AS waitlisted
+    FROM campus_event_rsvps
+    WHERE post_id = p_post_id
+  ) c
+  WHERE p.id = p_post_id
+  RETURNING p.rsvp_going_count, p.rsvp_interested_count, p.rsvp_waitlist_count
+  INTO v_post.rsvp_going_count, v_post.rsvp_interested_count, v_post.rsvp_waitlist_count;
+
+  RETURN json_build_object(
+    'status', v_status,
+    'previous_status', v_previous,
+    'going_count', v_post.rsvp_going_count,
+    'interested_count', v_post.rsvp_interested_count,
+    'waitlist_count', v_post.rsvp_waitlist_count,
+    'promoted_user_ids', to_json(v_promoted)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION rsvp_campus_event FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION rsvp_campus_event TO authenticated;
+
+-- Function: Archive events that have ended
+-- Events without an end date count as over once they start.
+CREATE OR REPLACE FUNCTION archive_past_campus_events()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  UPDATE campus_posts
+  SET status = 'archived', updated_at = NOW()
+  WHERE category = 'events'
+    AND (status IN ('active', 'published') OR status IS NULL)
+    AND COALESCE(event_end_date, event_date) < NOW();
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION archive_past_campus_events FROM PUBLIC, authenticated, anon;
+GRANT EXECUTE ON FUNCTION archive_past_campus_events TO service_role;
@@ -0,0 +1,439 @@
+-- ============================================================================
+-- Marketplace Inquiries and Offers
+-- ============================================================================
+-- One conversation per listing and buyer, held in a chat room so messages
+-- get the same server-side personal-info moderation as project chats
+-- (20261019_010_chat_moderation.sql). Price offers are structured rows on
+-- the inquiry:
+--
+--   pending -> accepted | declined | countered | withdrawn
+--
+-- A counter offer is a new pending offer from the other party; the offer it
+-- answers becomes 'countered'. Accepting an offer reserves the listing for
+-- the buyer and declines every other pending offer on it. The seller then
+-- marks the listing sold (or rented) or releases the reservation.
+-- ============================================================================
+
+-- ============================================================================
+-- LISTING STATUS
+-- ============================================================================
+
+ALTER TYPE listing_status ADD VALUE IF NOT EXISTS 'reserved' AFTER 'active';
+
+ALTER TABLE marketplace_listings
+  ADD COLUMN IF NOT EXISTS reserved_for UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS accepted_offer_id UUID;
+
+-- ============================================================================
+-- INQUIRIES
+-- ============================================================================
+
+ALTER TABLE listing_inquiries
+  ADD COLUMN IF NOT EXISTS seller_id UUID REFERENCES profiles(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS chat_room_id UUID REFERENCES chat_rooms(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS last_message_at TIMESTAMPTZ DEFAULT NOW(),
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+
+UPDATE listing_inquiries i
+SET seller_id = l.seller_id
+FROM marketplace_listings l
+WHERE l.id = i.listing_id AND i.seller_id IS NULL;
+
+-- Keep the newest inquiry when a buyer asked more than once before threads existed
+DELETE FROM listing_inquiries a
+USING listing_inquiries b
+WHERE a.listing_id = b.listing_id
+  AND a.inquirer_id = b.inquirer_id
+  AND (a.created_at, a.id) < (b.created_at, b.id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_listing_inquiries_listing_inquirer
+  ON listing_inquiries(listing_id, inquirer_id);
+
+CREATE INDEX IF NOT EXISTS idx_listing_inquiries_seller
+  ON listing_inquiries(seller_id, last_message_at DESC);
+
+ALTER TABLE listing_inquiries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS listing_inquiries_participant_policy ON listing_inquiries;
+CREATE POLICY listing_inquiries_participant_policy ON listing_inquiries
+  FOR SELECT TO authenticated
+  USING (inquirer_id = auth.uid() OR seller_id = auth.uid());
+
+GRANT SELECT ON listing_inquiries TO authenticated;
+
+-- ============================================================================
+-- OFFERS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS listing_offers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  inquiry_id UUID NOT NULL REFERENCES listing_inquiries(id) ON DELETE CASCADE,
+  listing_id UUID NOT NULL REFERENCES marketplace_listings(id) ON DELETE CASCADE,
+  offered_by UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  amount NUMERIC(10,2) NOT NULL CHECK (amount > 0),
+  message TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'accepted', 'declined', 'countered', 'withdrawn')),
+  -- The offer this one counters
+  parent_offer_id UUID REFERENCES listing_offers(id) ON DELETE SET NULL,
+  responded_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_listing_offers_inquiry
+  ON listing_offers(inquiry_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_listing_offers_listing_pending
+  ON listing_offers(listing_id)
+  WHERE status = 'pending';
+
+ALTER TABLE listing_offers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS listing_offers_participant_policy ON listing_offers;
+CREATE POLICY listing_offers_participant_policy ON listing_offers
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM listing_inquiries i
+      WHERE i.id = listing_offers.inquiry_id
+        AND (i.inquirer_id = auth.uid() OR i.seller_id = auth.uid())
+    )
+  );
+
+GRANT SELECT ON listing_offers TO authenticated;
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Trigger: Move a thread to the top of the seller's inbox on every message
+CREATE OR REPLACE FUNCTION touch_listing_inquiry_on_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE listing_inquiries
+  SET last_message_at = NEW.created_at, updated_at = NOW()
+  WHERE chat_room_id = NEW.chat_room_id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_touch_listing_inquiry_on_message ON chat_messages;
+CREATE TRIGGER trg_touch_listing_inquiry_on_message
+  AFTER INSERT ON chat_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_listing_inquiry_on_message();
+
+-- Function: Record an offer event in the thread as a system message
+-- Keeps offers in the conversation history and wakes up realtime subscribers.
+CREATE OR REPLACE FUNCTION post_listing_inquiry_notice(
+  p_inquiry_id UUID,
+  p_sender_id UUID,
+  p_text TEXT
+)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO chat_messages (chat_room_id, sender_id, content, message_type)
+  SELECT i.chat_room_id, p_sender_id, p_text, 'system'
+  FROM listing_inquiries i
+  WHERE i.id = p_inquiry_id AND i.chat_room_id IS NOT NULL;
+$$;
+
+REVOKE EXECUTE ON FUNCTION post_listing_inquiry_notice FROM PUBLIC, authenticated, anon;
+
+-- Function: Open (or reopen) the caller's conversation about a listing
+-- Creates the inquiry and its chat room with the buyer and the seller as
+-- participants. The first message is sent separately so it is moderated.
+CREATE OR REPLACE FUNCTION start_listing_inquiry(p_listing_id UUID)
+RETURNS listing_inquiries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_listing marketplace_listings%ROWTYPE;
+  v_inquiry listing_inquiries%ROWTYPE;
+  v_room_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_listing FROM marketplace_listings WHERE id = p_listing_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Listing not found';
+  END IF;
+
+  IF v_listing.seller_id = v_user_id THEN
+    RAISE EXCEPTION 'You cannot message yourself about your own listing';
+  END IF;
+
+  SELECT * INTO v_inquiry
+  FROM listing_inquiries
+  WHERE listing_id = p_listing_id AND inquirer_id = v_user_id;
+
+  IF FOUND AND v_inquiry.chat_room_id IS NOT NULL THEN
+    RETURN v_inquiry;
+  END IF;
+
+  IF v_listing.status NOT IN ('active', 'reserved') THEN
+    RAISE EXCEPTION 'This listing is no longer available';
+  END IF;
+
+  INSERT INTO chat_rooms (room_type, name)
+  VALUES ('direct', left(v_listing.title, 100))
+  RETURNING id INTO v_room_id;
+
+  INSERT INTO chat_participants (chat_room_id, profile_id, participant_role)
+  VALUES
+    (v_room_id, v_user_id, 'buyer'),
+    (v_room_id, v_listing.seller_id, 'seller');
+
+  -- Inquiries from before threads existed were already counted
+  IF v_inquiry.id IS NULL THEN
+    UPDATE marketplace_listings
+    SET inquiry_count = COALESCE(inquiry_count, 0) + 1
+    WHERE id = p_listing_id;
+  END IF;
+
+  INSERT INTO listing_inquiries (listing_id, inquirer_id, seller_id, chat_room_id, status)
+  VALUES (p_listing_id, v_user_id, v_listing.seller_id, v_room_id, 'open')
+  ON CONFLICT (listing_id, inquirer_id) DO UPDATE SET
+    seller_id = EXCLUDED.seller_id,
+    chat_room_id = EXCLUDED.chat_room_id,
+    status = 'open',
+    updated_at = NOW()
+  RETURNING * INTO v_inquiry;
+
+  RETURN v_inquiry;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION start_listing_inquiry FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION start_listing_inquiry TO authenticated;
+
+-- Function: Make an offer, or counter the other party's pending offer
+-- The caller's own pending offer on the inquiry is replaced (withdrawn).
+CREATE OR REPLACE FUNCTION make_listing_offer(
+  p_inquiry_id UUID,
+  p_amount NUMERIC,
+  p_message TEXT DEFAULT NULL
+)
+RETURNS listing_offers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_inquiry listing_inquiries%ROWTYPE;
+  v_status listing_status;
+  v_parent_id UUID;
+  v_offer listing_offers%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Offer must be more than zero';
+  END IF;
+
+  SELECT * INTO v_inquiry FROM listing_inquiries WHERE id = p_inquiry_id;
+
+  IF NOT FOUND OR v_user_id NOT IN (v_inquiry.inquirer_id, v_inquiry.seller_id) THEN
+    RAISE EXCEPTION 'Inquiry not found';
+  END IF;
+
+  -- Serialises offers on the listing against acceptance
+  SELECT status INTO v_status
+  FROM marketplace_listings
+  WHERE id = v_inquiry.listing_id
+  FOR UPDATE;
+
+  IF v_status IS DISTINCT FROM 'active' THEN
+    RAISE EXCEPTION 'This listing is no longer taking offers';
+  END IF;
+
+  UPDATE listing_offers
+  SET status = 'withdrawn', responded_at = NOW()
+  WHERE inquiry_id = p_inquiry_id AND status = 'pending' AND offered_by = v_user_id;
+
+  UPDATE listing_offers
+  SET status = 'countered', responded_at = NOW()
+  WHERE inquiry_id = p_inquiry_id AND status = 'pending' AND offered_by <> v_user_id
+  RETURNING id INTO v_parent_id;
+
+  INSERT INTO listing_offers (inquiry_id, listing_id, offered_by, amount, message, parent_offer_id)
+  VALUES (p_inquiry_id, v_inquiry.listing_id, v_user_id, round(p_amount, 2), NULLIF(btrim(p_message), ''), v_parent_id)
+  RETURNING * INTO v_offer;
+
+  PERFORM post_listing_inquiry_notice(
+    p_inquiry_id,
+    v_user_id,
+    CASE WHEN v_parent_id IS NULL THEN 'Offered ' ELSE 'Countered with ' END
+      || 'Rs. ' || to_char(v_offer.amount, 'FM999999990.00')
+  );
+
+  RETURN v_offer;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION make_listing_offer FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION make_listing_offer TO authenticated;
+
+-- Function: Accept or decline the other party's pending offer
+-- Accepting reserves the listing for the buyer and declines the other
+-- pending offers on it.
+CREATE OR REPLACE FUNCTION respond_to_listing_offer(
+  p_offer_id UUID,
+  p_accept BOOLEAN
+)
+RETURNS listing_offers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_offer listing_offers%ROWTYPE;
+  v_inquiry listing_inquiries%ROWTYPE;
+  v_status listing_status;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_offer FROM listing_offers WHERE id = p_offer_id;
+  SELECT * INTO v_inquiry FROM listing_inquiries WHERE id = v_offer.inquiry_id;
+
+  IF v_offer.id IS NULL OR v_user_id NOT IN (v_inquiry.inquirer_id, v_inquiry.seller_id) THEN
+    RAISE EXCEPTION 'Offer not found';
+  END IF;
+
+  IF v_offer.offered_by = v_user_id THEN
+    RAISE EXCEPTION 'You cannot respond to your own offer';
+  END IF;
+
+  SELECT status INTO v_status
+  FROM marketplace_listings
+  WHERE id = v_offer.listing_id
+  FOR UPDATE;
+
+  -- Re-read under the listing lock: a counter or another acceptance may have won
+  SELECT * INTO v_offer FROM listing_offers WHERE id = p_offer_id;
+
+  IF v_offer.status <> 'pending' THEN
+    RAISE EXCEPTION 'This offer is no longer open';
+  END IF;
+
+  IF NOT p_accept THEN
+    UPDATE listing_offers
+    SET status = 'declined', responded_at = NOW()
+    WHERE id = p_offer_id
+    RETURNING * INTO v_offer;
+
+    PERFORM post_listing_inquiry_notice(v_inquiry.id, v_user_id, 'Declined the offer');
+    RETURN v_offer;
+  END IF;
+
+  IF v_status IS DISTINCT FROM 'active' THEN
+    RAISE EXCEPTION 'This listing is no longer available';
+  END IF;
+
+  UPDATE listing_offers
+  SET status = 'accepted', responded_at = NOW()
+  WHERE id = p_offer_id
+  RETURNING * INTO v_offer;
+
+  UPDATE listing_offers
+  SET status = 'declined', responded_at = NOW()
+  WHERE listing_id = v_offer.listing_id AND status = 'pending';
+
+  UPDATE marketplace_listings
+  SET
+    status = 'reserved',
+    reserved_for = v_inquiry.inquirer_id,
+    accepted_offer_id = v_offer.id,
+    updated_at = NOW()
+  WHERE id = v_offer.listing_id;
+
+  UPDATE listing_inquiries
+  SET status = 'offer_accepted', updated_at = NOW()
+  WHERE id = v_inquiry.id;
+
+  PERFORM post_listing_inquiry_notice(v_inquiry.id, v_user_id, 'Accepted the offer. The listing is reserved.');
+  RETURN v_offer;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION respond_to_listing_offer FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION respond_to_listing_offer TO authenticated;
+
+-- Function: Complete or release a reserved listing (seller only)
+-- p_status is 'sold' (or 'rented') to close the sale to the reserved buyer,
+-- or 'active' to release the reservation and take offers again.
+CREATE OR REPLACE FUNCTION set_listing_sale_status(
+  p_listing_id UUID,
+  p_status TEXT
+)
+RETURNS marketplace_listings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_listing marketplace_listings%ROWTYPE;
+BEGIN
+  IF p_status NOT IN ('sold', 'rented', 'active') THEN
+    RAISE EXCEPTION 'Invalid listing status: %', p_status;
+  END IF;
+
+  SELECT * INTO v_listing
+  FROM marketplace_listings
+  WHERE id = p_listing_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_listing.seller_id IS DISTINCT FROM v_user_id THEN
+    RAISE EXCEPTION 'Listing not found';
+  END IF;
+
+  IF v_listing.status <> 'reserved' THEN
+    RAISE EXCEPTION 'Only reserved listings can be completed or released';
+  END IF;
+
+  IF p_status = 'active' THEN
+    UPDATE listing_inquiries
+    SET status = 'open', updated_at = NOW()
+    WHERE listing_id = p_listing_id AND status = 'offer_accepted';
+
+    UPDATE marketplace_listings
+    SET status = 'active', reserved_for = NULL, accepted_offer_id = NULL, updated_at = NOW()
+    WHERE id = p_listing_id
+    RETURNING * INTO v_listing;
+  ELSE
+    UPDATE listing_inquiries
+    SET status = 'closed', updated_at = NOW()
+    WHERE listing_id = p_listing_id;
+
+    UPDATE marketplace_listings
+    SET status = p_status::listing_status, updated_at = NOW()
+    WHERE id = p_listing_id
+    RETURNING * INTO v_listing;
+  END IF;
+
+  RETURN v_listing;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION set_listing_sale_status FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION set_listing_sale_status TO authenticated;
@@ -0,0 +1,192 @@
+-- ============================================================================
+-- Marketplace Saved Searches and Alerts
+-- ============================================================================
+-- A saved search is a named filter set over marketplace_listings (listing
+-- types, housing types, price band, item condition, college, keywords).
+-- When a listing goes live, a trigger records one match row per saved search
+-- it satisfies; the alerts worker (POST /api/marketplace/saved-searches/alerts)
+-- then sends those matches as an immediate notification or, for searches set
+-- to 'daily', as one digest per day.
+--
+-- Housing listings are for students only: non-students cannot save a housing
+-- search, and their catch-all searches never match housing listings.
+-- ============================================================================
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS marketplace_saved_searches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name VARCHAR(60) NOT NULL CHECK (length(btrim(name)) > 0),
+  -- Filters (NULL = any)
+  listing_types listing_type[],
+  housing_types TEXT[],
+  item_conditions TEXT[],
+  min_price NUMERIC(10,2) CHECK (min_price >= 0),
+  max_price NUMERIC(10,2) CHECK (max_price >= 0),
+  university_id UUID REFERENCES universities(id) ON DELETE SET NULL,
+  keywords VARCHAR(100),
+  -- 'instant' pushes every match, 'daily' batches them, 'off' keeps the search without alerts
+  alert_mode VARCHAR(10) NOT NULL DEFAULT 'daily'
+    CHECK (alert_mode IN ('instant', 'daily', 'off')),
+  last_digest_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (min_price IS NULL OR max_price IS NULL OR min_price <= max_price)
+);
+
+CREATE INDEX IF NOT EXISTS idx_marketplace_saved_searches_profile
+  ON marketplace_saved_searches(profile_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_marketplace_saved_searches_alerting
+  ON marketplace_saved_searches(alert_mode)
+  WHERE alert_mode <> 'off';
+
+CREATE TABLE IF NOT EXISTS marketplace_saved_search_matches (
+  search_id UUID NOT NULL REFERENCES marketplace_saved_searches(id) ON DELETE CASCADE,
+  listing_id UUID NOT NULL REFERENCES marketplace_listings(id) ON DELETE CASCADE,
+  matched_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- Set once the match went out in an alert or digest
+  notified_at TIMESTAMPTZ,
+  PRIMARY KEY (search_id, listing_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_marketplace_saved_search_matches_pending
+  ON marketplace_saved_search_matches(matched_at)
+  WHERE notified_at IS NULL;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE marketplace_saved_searches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE marketplace_saved_search_matches ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS marketplace_saved_searches_owner_policy ON marketplace_saved_searches;
+CREATE POLICY marketplace_saved_searches_owner_policy ON marketplace_saved_searches
+  FOR ALL TO authenticated
+  USING (profile_id = auth.uid())
+  WITH CHECK (profile_id = auth.uid());
+
+DROP POLICY IF EXISTS marketplace_saved_search_matches_owner_policy ON marketplace_saved_search_matches;
+CREATE POLICY marketplace_saved_search_matches_owner_policy ON marketplace_saved_search_matches
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM marketplace_saved_searches s
+      WHERE s.id = marketplace_saved_search_matches.search_id
+        AND s.profile_id = auth.uid()
+    )
+  );
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON marketplace_saved_searches TO authenticated;
+GRANT SELECT ON marketplace_saved_search_matches TO authenticated;
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Function: Whether a search asks for housing listings
+CREATE OR REPLACE FUNCTION saved_search_targets_housing(
+  p_listing_types listing_type[],
+  p_housing_types TEXT[]
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(cardinality(p_housing_types), 0) > 0
+    OR 'housing'::listing_type = ANY (COALESCE(p_listing_types, '{}'));
+$$;
+
+-- Trigger: Housing searches are for students only; also caps searches per user
+CREATE OR REPLACE FUNCTION check_marketplace_saved_search()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF saved_search_targets_housing(NEW.listing_types, NEW.housing_types)
+     AND NOT EXISTS (
+       SELECT 1 FROM profiles WHERE id = NEW.profile_id AND user_type = 'student'
+     ) THEN
+    RAISE EXCEPTION 'Housing searches are only available to students'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF TG_OP = 'INSERT' AND (
+    SELECT COUNT(*) FROM marketplace_saved_searches WHERE profile_id = NEW.profile_id
+  ) >= 20 THEN
+    RAISE EXCEPTION 'You can save up to 20 searches'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_check_marketplace_saved_search ON marketplace_saved_searches;
+CREATE TRIGGER trg_check_marketplace_saved_search
+  BEFORE INSERT OR UPDATE ON marketplace_saved_searches
+  FOR EACH ROW
+  EXECUTE FUNCTION check_marketplace_saved_search();
+
+-- Trigger: Record matches for every alerting search when a listing goes live
+-- Runs on insert and when a draft / pending listing is approved. Sellers are
+-- never alerted about their own listings.
+CREATE OR REPLACE FUNCTION match_marketplace_saved_searches()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status <> 'active' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.status NOT IN ('draft', 'pending_review') THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO marketplace_saved_search_matches (search_id, listing_id)
+  SELECT s.id, NEW.id
+  FROM marketplace_saved_searches s
+  JOIN profiles p ON p.id = s.profile_id
+  WHERE s.alert_mode <> 'off'
+    AND s.profile_id <> NEW.seller_id
+    AND (s.listing_types IS NULL OR NEW.listing_type = ANY (s.listing_types))
+    AND (s.housing_types IS NULL OR NEW.housing_type = ANY (s.housing_types))
+    AND (s.item_conditions IS NULL OR NEW.item_condition = ANY (s.item_conditions))
+    AND (s.min_price IS NULL OR NEW.price >= s.min_price)
+    AND (s.max_price IS NULL OR NEW.price <= s.max_price)
+    AND (s.university_id IS NULL OR NEW.university_id = s.university_id)
+    AND (
+      s.keywords IS NULL
+      OR NEW.title ILIKE '%' || s.keywords || '%'
+      OR NEW.description ILIKE '%' || s.keywords || '%'
+    )
+    AND (NEW.listing_type <> 'housing' OR p.user_type = 'student')
+  ON CONFLICT (search_id, listing_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_match_marketplace_saved_searches ON marketplace_listings;
+CREATE TRIGGER trg_match_marketplace_saved_searches
+  AFTER INSERT OR UPDATE OF status ON marketplace_listings
+  FOR EACH ROW
+  EXECUTE FUNCTION match_marketplace_saved_searches();
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE marketplace_saved_searches IS 'Named marketplace filter sets with new-listing alerts';
+COMMENT ON TABLE marketplace_saved_search_matches IS 'New listings matching a saved search, pending or sent as alerts';
+COMMENT ON COLUMN marketplace_saved_searches.alert_mode IS 'instant, daily (digest) or off';
@@ -0,0 +1,698 @@
+-- ============================================================================
+-- Moderation Queue
+-- ============================================================================
+-- Reports used to pile up in listing_reports / campus_post_reports and chat
+-- violations in moderation_logs without anyone reviewing them. Each of those
+-- now feeds one moderation case per target:
+--
+--   marketplace_listing  <- listing_reports
+--   campus_post          <- campus_post_reports (post_id)
+--   campus_comment       <- campus_post_reports (comment_id)
+--   chat_user            <- moderation_logs (one case per sender)
+--
+-- A case counts reports, distinct reporters and reasons. Once
+-- moderation_auto_hide_threshold() distinct people have reported a listing,
+-- post or comment it is hidden until a moderator decides. Moderators (rows in
+-- admins) resolve a case in the supervisor app:
+--
+--   dismiss  - reports were unfounded; auto-hidden content comes back
+--   remove   - the content is taken down
+--   warn     - the author gets a warning; content stays as it is
+--   suspend  - the author's profile is blocked and the content taken down
+--
+-- Every decision is written to moderation_decisions. Reporters and the author
+-- are told the outcome through notification_outbox rows, which the user app's
+-- outbox worker delivers. A new report on a resolved target reopens its case.
+-- ============================================================================
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS moderation_cases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  target_type VARCHAR(20) NOT NULL
+    CHECK (target_type IN ('marketplace_listing', 'campus_post', 'campus_comment', 'chat_user')),
+  target_id UUID NOT NULL,
+  -- Author of the content (the sender for chat_user cases)
+  author_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'dismissed', 'removed', 'warned', 'suspended')),
+  -- Reports (or logged violations) since the case was last opened
+  report_count INTEGER NOT NULL DEFAULT 0,
+  reporter_count INTEGER NOT NULL DEFAULT 0,
+  reason_counts JSONB NOT NULL DEFAULT '{}',
+  is_auto_hidden BOOLEAN NOT NULL DEFAULT FALSE,
+  opened_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_reported_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  resolved_at TIMESTAMPTZ,
+  resolved_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (target_type, target_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_moderation_cases_open
+  ON moderation_cases(reporter_count DESC, last_reported_at DESC)
+  WHERE status = 'open';
+
+CREATE INDEX IF NOT EXISTS idx_moderation_cases_author
+  ON moderation_cases(author_id);
+
+-- Audit trail: one row per decision, never updated
+CREATE TABLE IF NOT EXISTS moderation_decisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  case_id UUID NOT NULL REFERENCES moderation_cases(id) ON DELETE CASCADE,
+  moderator_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  action VARCHAR(20) NOT NULL CHECK (action IN ('dismiss', 'remove', 'warn', 'suspend')),
+  note TEXT,
+  report_count INTEGER NOT NULL DEFAULT 0,
+  reporter_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_moderation_decisions_case
+  ON moderation_decisions(case_id, created_at DESC);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+-- Moderators read cases and decisions; all writes go through the functions.
+
+ALTER TABLE moderation_cases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE moderation_decisions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS moderation_cases_admin_policy ON moderation_cases;
+CREATE POLICY moderation_cases_admin_policy ON moderation_cases
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM admins WHERE admins.profile_id = auth.uid()));
+
+DROP POLICY IF EXISTS moderation_decisions_admin_policy ON moderation_decisions;
+CREATE POLICY moderation_decisions_admin_policy ON moderation_decisions
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM admins WHERE admins.profile_id = auth.uid()));
+
+GRANT SELECT ON moderation_cases TO authenticated;
+GRANT SELECT ON moderation_decisions TO authenticated;
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Function: Distinct reporters that hide a listing, post or comment pending review
+CREATE OR REPLACE FUNCTION moderation_auto_hide_threshold()
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 3;
+$$;
+
+-- Function: Hide or restore the content behind a case
+-- Listings are parked in pending_review (restored to active); posts and
+-- comments use their is_hidden flag. Chat cases have nothing to hide.
+CREATE OR REPLACE FUNCTION set_moderation_target_hidden(
+  p_target_type TEXT,
+  p_target_id UUID,
+  p_hidden BOOLEAN
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_target_type = 'marketplace_listing' THEN
+    IF p_hidden THEN
+      UPDATE marketplace_listings SET status = 'pending_review', updated_at = NOW()
+      WHERE id = p_target_id AND status = 'active';
+    ELSE
+      UPDATE marketplace_listings SET status = 'active', updated_at = NOW()
+      WHERE id = p_target_id AND status = 'pending_review';
+    END IF;
+  ELSIF p_target_type = 'campus_post' THEN
+    UPDATE campus_posts
+    SET is_hidden = p_hidden,
+        is_flagged = p_hidden,
+        flagged_at = CASE WHEN p_hidden THEN NOW() ELSE flagged_at END,
+        hidden_reason = CASE WHEN p_hidden THEN 'Hidden pending review' ELSE NULL END,
+        updated_at = NOW()
+    WHERE id = p_target_id;
+  ELSIF p_target_type = 'campus_comment' THEN
+    UPDATE campus_post_comments SET is_hidden = p_hidden WHERE id = p_target_id;
+  END IF;
+END;
+$$;
+
+-- Function: Add reports to the case of a target, opening or reopening it
+-- p_reasons is counted once per entry; p_reporter_count is the number of
+-- distinct people with a pending report (NULL leaves it unchanged).
+-- Hides the target once the reporter count reaches the threshold.
+CREATE OR REPLACE FUNCTION record_moderation_report(
+  p_target_type TEXT,
+  p_target_id UUID,
+  p_author_id UUID,
+  p_reasons TEXT[],
+  p_reporter_count INTEGER
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_case moderation_cases%ROWTYPE;
+  v_counts JSONB;
+  v_reason TEXT;
+BEGIN
+  INSERT INTO moderation_cases (target_type, target_id, author_id)
+  VALUES (p_target_type, p_target_id, p_author_id)
+  ON CONFLICT (target_type, target_id) DO NOTHING;
+
+  SELECT * INTO v_case
+  FROM moderation_cases
+  WHERE target_type = p_target_type AND target_id = p_target_id
+  FOR UPDATE;
+
+  -- A report after a decision starts a new round
+  IF v_case.status <> 'open' THEN
+    v_case.status := 'open';
+    v_case.report_count := 0;
+    v_case.reporter_count := 0;
+    v_case.reason_counts := '{}';
+    v_case.is_auto_hidden := FALSE;
+    v_case.opened_at := NOW();
+    v_case.resolved_at := NULL;
+    v_case.resolved_by := NULL;
+  END IF;
+
+  v_counts := v_case.reason_counts;
+  FOREACH v_reason IN ARRAY COALESCE(p_reasons, '{}') LOOP
+    v_counts := jsonb_set(
+      v_counts,
+      ARRAY[v_reason],
+      to_jsonb(COALESCE((v_counts ->> v_reason)::INTEGER, 0) + 1)
+    );
+  END LOOP;
+
+  v_case.report_count := v_case.report_count + 1;
+  v_case.reporter_count := COALESCE(p_reporter_count, v_case.reporter_count);
+
+  IF NOT v_case.is_auto_hidden
+     AND p_target_type <> 'chat_user'
+     AND v_case.reporter_count >= moderation_auto_hide_threshold() THEN
+    PERFORM set_moderation_target_hidden(p_target_type, p_target_id, TRUE);
+    v_case.is_auto_hidden := TRUE;
+  END IF;
+
+  UPDATE moderation_cases
+  SET status = v_case.status,
+      author_id = COALESCE(p_author_id, author_id),
+      report_count = v_case.report_count,
+      reporter_count = v_case.reporter_count,
+      reason_counts = v_counts,
+      is_auto_hidden = v_case.is_auto_hidden,
+      opened_at = v_case.opened_at,
+      last_reported_at = NOW(),
+      resolved_at = v_case.resolved_at,
+      resolved_by = v_case.resolved_by,
+      updated_at = NOW()
+  WHERE id = v_case.id;
+
+  RETURN v_case.id;
+END;
+$$;
+
+-- Trigger: Marketplace listing reports
+CREATE OR REPLACE FUNCTION queue_listing_report()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_author_id UUID;
+  v_reporters INTEGER;
+BEGIN
+  IF NEW.listing_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT seller_id INTO v_author_id FROM marketplace_listings WHERE id = NEW.listing_id;
+
+  SELECT COUNT(DISTINCT reporter_id) INTO v_reporters
+  FROM listing_reports
+  WHERE listing_id = NEW.listing_id AND status = 'pending';
+
+  PERFORM record_moderation_report(
+    'marketplace_listing', NEW.listing_id, v_author_id, ARRAY[NEW.reason], v_reporters
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_queue_listing_report ON listing_reports;
+CREATE TRIGGER trg_queue_listing_report
+  AFTER INSERT ON listing_reports
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_listing_report();
+
+-- Trigger: Campus Connect post and comment reports
+CREATE OR REPLACE FUNCTION queue_campus_post_report()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_author_id UUID;
+  v_reporters INTEGER;
+BEGIN
+  IF NEW.comment_id IS NOT NULL THEN
+    SELECT user_id INTO v_author_id FROM campus_post_comments WHERE id = NEW.comment_id;
+
+    SELECT COUNT(DISTINCT reporter_id) INTO v_reporters
+    FROM campus_post_reports
+    WHERE comment_id = NEW.comment_id AND status = 'pending';
+
+    PERFORM record_moderation_report(
+      'campus_comment', NEW.comment_id, v_author_id, ARRAY[NEW.reason], v_reporters
+    );
+  ELSE
+    SELECT user_id INTO v_author_id FROM campus_posts WHERE id = NEW.post_id;
+
+    SELECT COUNT(DISTINCT reporter_id) INTO v_reporters
+    FROM campus_post_reports
+    WHERE post_id = NEW.post_id AND comment_id IS NULL AND status = 'pending';
+
+    PERFORM record_moderation_report(
+      'campus_post', NEW.post_id, v_author_id, ARRAY[NEW.reason], v_reporters
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_queue_campus_post_report ON campus_post_reports;
+CREATE TRIGGER trg_queue_campus_post_report
+  AFTER INSERT ON campus_post_reports
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_campus_post_report();
+
+-- Trigger: Chat violations logged by ModerationService or the chat trigger
+CREATE OR REPLACE FUNCTION queue_chat_violation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.user_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM record_moderation_report(
+    'chat_user', NEW.user_id, NEW.user_id, NEW.violation_types, NULL
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_queue_chat_violation ON moderation_logs;
+CREATE TRIGGER trg_queue_chat_violation
+  AFTER INSERT ON moderation_logs
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_chat_violation();
+
+-- Function: Queue an in-app and push notice on the notification outbox
+CREATE OR REPLACE FUNCTION queue_moderation_notice(
+  p_event_key TEXT,
+  p_profile_id UUID,
+  p_title TEXT,
+  p_body TEXT,
+  p_action_url TEXT,
+  p_case_id UUID
+)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO notification_outbox (
+    event_key, channel, profile_id, category, title, body,
+    action_url, reference_type, reference_id
+  )
+  SELECT p_event_key, channel, p_profile_id, 'status', p_title, p_body,
+         p_action_url, 'moderation_case', p_case_id
+  FROM unnest(ARRAY['in_app', 'push']) AS channel
+  ON CONFLICT (event_key, channel) DO NOTHING;
+$$;
+
+-- Function: Record a moderator's decision on an open case
+-- Applies it to the content and the author, closes the reports behind the
+-- case, writes the audit row and notifies reporters and the author.
+-- Returns JSON: {status, decision_id, reporters_notified}
+CREATE OR REPLACE FUNCTION resolve_moderation_case(
+  p_case_id UUID,
+  p_moderator_id UUID,
+  p_action TEXT,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_case moderation_cases%ROWTYPE;
+  v_admin_id UUID;
+  v_status TEXT;
+  v_report_status TEXT;
+  v_decision_id UUID;
+  v_reporters UUID[] := '{}';
+  v_reporter UUID;
+  v_content_label TEXT;
+  v_author_url TEXT;
+  v_reporter_body TEXT;
+BEGIN
+  SELECT id INTO v_admin_id FROM admins WHERE profile_id = p_moderator_id;
+  IF v_admin_id IS NULL THEN
+    RAISE EXCEPTION 'Only moderators can resolve reports'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_action NOT IN ('dismiss', 'remove', 'warn', 'suspend') THEN
+    RAISE EXCEPTION 'Unknown moderation action: %', p_action;
+  END IF;
+
+  SELECT * INTO v_case FROM moderation_cases WHERE id = p_case_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Case not found';
+  END IF;
+
+  IF v_case.status <> 'open' THEN
+    RAISE EXCEPTION 'This case has already been resolved';
+  END IF;
+
+  IF p_action = 'remove' AND v_case.target_type = 'chat_user' THEN
+    RAISE EXCEPTION 'Chat cases can be dismissed, warned or suspended';
+  END IF;
+
+  v_status := CASE p_action
+    WHEN 'dismiss' THEN 'dismissed'
+    WHEN 'remove' THEN 'removed'
+    WHEN 'warn' THEN 'warned'
+    ELSE 'suspended'
+  END;
+  v_report_status := CASE WHEN p_action = 'dismiss' THEN 'dismissed' ELSE 'resolved' END;
+
+  -- Content
+  IF p_action = 'dismiss' AND v_case.is_auto_hidden THEN
+    PERFORM set_moderation_target_hidden(v_case.target_type, v_case.target_id, FALSE);
+  ELSIF p_action IN ('remove', 'suspend') THEN
+    IF v_case.target_type = 'marketplace_listing' THEN
+      UPDATE marketplace_listings SET status = 'removed', updated_at = NOW()
+      WHERE id = v_case.target_id;
+    ELSIF v_case.target_type = 'campus_post' THEN
+      UPDATE campus_posts
+      SET status = 'deleted', is_hidden = TRUE, hidden_reason = 'Removed by moderation', updated_at = NOW()
+      WHERE id = v_case.target_id;
+    ELSIF v_case.target_type = 'campus_comment' THEN
+      UPDATE campus_post_comments SET is_hidden = TRUE WHERE id = v_case.target_id;
+    END IF;
+  END IF;
+
+  -- Author
+  IF p_action = 'suspend' AND v_case.author_id IS NOT NULL THEN
+    UPDATE profiles
+    SET is_blocked = TRUE,
+        block_reason = COALESCE('Suspended by moderation: ' || NULLIF(btrim(p_note), ''), 'Suspended by moderation'),
+        updated_at = NOW()
+    WHERE id = v_case.author_id;
+  END IF;
+
+  -- Reports behind the case
+  IF v_case.target_type = 'marketplace_listing' THEN
+    WITH closed AS (
+      UPDATE listing_reports
+      SET status = v_report_status, reviewed_by = p_moderator_id, reviewed_at = NOW()
+      WHERE listing_id = v_case.target_id AND status = 'pending'
+      RETURNING reporter_id
+    )
+    SELECT COALESCE(array_agg(DISTINCT reporter_id), '{}') INTO v_reporters
+    FROM closed WHERE reporter_id IS NOT NULL;
+  ELSIF v_case.target_type IN ('campus_post', 'campus_comment') THEN
+    WITH closed AS (
+      UPDATE campus_post_reports
+      SET status = v_report_status,
+          reviewed_by = v_admin_id,
+          reviewed_at = NOW(),
+          resolution_notes = p_note,
+          action_taken = CASE p_action
+            WHEN 'dismiss' THEN 'none'
+            WHEN 'remove' THEN 'post_hidden'
+            WHEN 'warn' THEN 'user_warned'
+            ELSE 'user_banned'
+          END
+      WHERE status = 'pending'
+        AND (
+          (v_case.target_type = 'campus_comment' AND comment_id = v_case.target_id)
+          OR (v_case.target_type = 'campus_post' AND post_id = v_case.target_id AND comment_id IS NULL)
+        )
+      RETURNING reporter_id
+    )
+    SELECT COALESCE(array_agg(DISTINCT reporter_id), '{}') INTO v_reporters FROM closed;
+  END IF;
+
+  UPDATE moderation_cases
+  SET status = v_status,
+      is_auto_hidden = CASE WHEN p_action = 'dismiss' THEN FALSE ELSE is_auto_hidden END,
+      resolved_at = NOW(),
+      resolved_by = p_moderator_id,
+      updated_at = NOW()
+  WHERE id = p_case_id;
+
+  INSERT INTO moderation_decisions (case_id, moderator_id, action, note, report_count, reporter_count)
+  VALUES (p_case_id, p_moderator_id, p_action, NULLIF(btrim(p_note), ''), v_case.report_count, v_case.reporter_count)
+  RETURNING id INTO v_decision_id;
+
+  -- Notices
+  v_content_label := CASE v_case.target_type
+    WHEN 'marketplace_listing' THEN 'listing'
+    WHEN 'campus_post' THEN 'post'
+    WHEN 'campus_comment' THEN 'comment'
+    ELSE 'chat messages'
+  END;
+  v_author_url := CASE v_case.target_type
+    WHEN 'marketplace_listing' THEN '/marketplace/' || v_case.target_id
+    WHEN 'campus_post' THEN '/campus-connect/' || v_case.target_id
+    ELSE NULL
+  END;
+  v_reporter_body := CASE p_action
+    WHEN 'dismiss' THEN 'We reviewed the ' || v_content_label || ' you reported and found it doesn''t break our guidelines.'
+    ELSE 'We reviewed the ' || v_content_label || ' you reported and took action. Thanks for helping keep the community safe.'
+  END;
+
+  FOREACH v_reporter IN ARRAY v_reporters LOOP
+    PERFORM queue_moderation_notice(
+      'moderation:' || v_decision_id || ':reporter:' || v_reporter,
+      v_reporter,
+      'Update on your report',
+      v_reporter_body,
+      NULL,
+      p_case_id
+    );
+  END LOOP;
+
+  IF p_action <> 'dismiss' AND v_case.author_id IS NOT NULL THEN
+    PERFORM queue_moderation_notice(
+      'moderation:' || v_decision_id || ':author',
+      v_case.author_id,
+      CASE p_action
+        WHEN 'remove' THEN 'Your ' || v_content_label || ' was removed'
+        WHEN 'warn' THEN 'Warning about your ' || v_content_label
+        ELSE 'Your account has been suspended'
+      END,
+      CASE p_action
+        WHEN 'remove' THEN 'It was reported and found to break our community guidelines.'
+        WHEN 'warn' THEN 'Your ' || v_content_label || ' was reported and found to break our community guidelines. Repeated violations can lead to suspension.'
+        ELSE 'Your account was suspended after a review of reported content. Contact support if you think this is a mistake.'
+      END
+        || COALESCE(' Moderator note: ' || NULLIF(btrim(p_note), ''), ''),
+      CASE WHEN p_action = 'warn' THEN v_author_url ELSE NULL END,
+      p_case_id
+    );
+  END IF;
+
+  RETURN json_build_object(
+    'status', v_status,
+    'decision_id', v_decision_id,
+    'reporters_notified', COALESCE(array_length(v_reporters, 1), 0)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION set_moderation_target_hidden FROM PUBLIC, authenticated, anon;
+REVOKE EXECUTE ON FUNCTION record_moderation_report FROM PUBLIC, authenticated, anon;
+REVOKE EXECUTE ON FUNCTION queue_moderation_notice FROM PUBLIC, authenticated, anon;
+REVOKE EXECUTE ON FUNCTION resolve_moderation_case FROM PUBLIC, authenticated, anon;
+GRANT EXECUTE ON FUNCTION resolve_moderation_case TO service_role;
+
+-- Function: Open (or recently resolved) cases with a preview of their target
+-- Service role only; the supervisor app checks the caller is a moderator.
+CREATE OR REPLACE FUNCTION get_moderation_queue(
+  p_status TEXT DEFAULT 'open',
+  p_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  id UUID,
+  target_type TEXT,
+  target_id UUID,
+  status TEXT,
+  report_count INTEGER,
+  reporter_count INTEGER,
+  reason_counts JSONB,
+  is_auto_hidden BOOLEAN,
+  opened_at TIMESTAMPTZ,
+  last_reported_at TIMESTAMPTZ,
+  resolved_at TIMESTAMPTZ,
+  author_id UUID,
+  author_name TEXT,
+  author_avatar TEXT,
+  author_blocked BOOLEAN,
+  target_title TEXT,
+  target_excerpt TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    c.target_type::TEXT,
+    c.target_id,
+    c.status::TEXT,
+    c.report_count,
+    c.reporter_count,
+    c.reason_counts,
+    c.is_auto_hidden,
+    c.opened_at,
+    c.last_reported_at,
+    c.resolved_at,
+    c.author_id,
+    p.full_name::TEXT,
+    p.avatar_url::TEXT,
+    COALESCE(p.is_blocked, FALSE),
+    COALESCE(l.title, cp.title, 'Comment')::TEXT,
+    left(COALESCE(l.description, cp.content, cc.content, latest_log.original_content), 280)
+  FROM moderation_cases c
+  LEFT JOIN profiles p ON p.id = c.author_id
+  LEFT JOIN marketplace_listings l
+    ON c.target_type = 'marketplace_listing' AND l.id = c.target_id
+  LEFT JOIN campus_posts cp
+    ON c.target_type = 'campus_post' AND cp.id = c.target_id
+  LEFT JOIN campus_post_comments cc
+    ON c.target_type = 'campus_comment' AND cc.id = c.target_id
+  LEFT JOIN LATERAL (
+    SELECT ml.original_content
+    FROM moderation_logs ml
+    WHERE c.target_type = 'chat_user' AND ml.user_id = c.target_id
+    ORDER BY ml.created_at DESC
+    LIMIT 1
+  ) latest_log ON TRUE
+  WHERE (p_status = 'open' AND c.status = 'open')
+     OR (p_status = 'resolved' AND c.status <> 'open')
+  ORDER BY
+    CASE WHEN p_status = 'open' THEN c.reporter_count END DESC,
+    CASE WHEN p_status = 'open' THEN c.last_reported_at END DESC,
+    c.resolved_at DESC NULLS LAST
+  LIMIT LEAST(GREATEST(p_limit, 1), 200);
+$$;
+
+-- Function: The reports (or logged chat violations) behind a case
+-- Service role only. For chat cases the "reporter" is the moderation system.
+CREATE OR REPLACE FUNCTION get_moderation_case_reports(p_case_id UUID)
+RETURNS TABLE (
+  id UUID,
+  reporter_id UUID,
+  reporter_name TEXT,
+  reason TEXT,
+  details TEXT,
+  status TEXT,
+  created_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.id, r.reporter_id, p.full_name::TEXT, r.reason::TEXT, r.details, r.status::TEXT, r.created_at
+  FROM moderation_cases c
+  JOIN listing_reports r
+    ON c.target_type = 'marketplace_listing' AND r.listing_id = c.target_id
+  LEFT JOIN profiles p ON p.id = r.reporter_id
+  WHERE c.id = p_case_id
+  UNION ALL
+  SELECT r.id, r.reporter_id, p.full_name::TEXT, r.reason::TEXT, r.description, r.status::TEXT, r.created_at
+  FROM moderation_cases c
+  JOIN campus_post_reports r
+    ON (c.target_type = 'campus_post' AND r.post_id = c.target_id AND r.comment_id IS NULL)
+    OR (c.target_type = 'campus_comment' AND r.comment_id = c.target_id)
+  LEFT JOIN profiles p ON p.id = r.reporter_id
+  WHERE c.id = p_case_id
+  UNION ALL
+  SELECT ml.id, NULL, NULL, array_to_string(ml.violation_types, ', '), ml.original_content,
+         ml.action_taken::TEXT, ml.created_at
+  FROM moderation_cases c
+  JOIN moderation_logs ml
+    ON c.target_type = 'chat_user' AND ml.user_id = c.target_id
+  WHERE c.id = p_case_id
+  ORDER BY created_at DESC
+  LIMIT 100;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_moderation_queue FROM PUBLIC, authenticated, anon;
+REVOKE EXECUTE ON FUNCTION get_moderation_case_reports FROM PUBLIC, authenticated, anon;
+GRANT EXECUTE ON FUNCTION get_moderation_queue TO service_role;
+GRANT EXECUTE ON FUNCTION get_moderation_case_reports TO service_role;
+
+-- ============================================================================
+-- BACKFILL
+-- ============================================================================
+-- Pending reports filed before the queue existed
+
+INSERT INTO moderation_cases (target_type, target_id, author_id, report_count, reporter_count, reason_counts, opened_at, last_reported_at)
+SELECT 'marketplace_listing', r.listing_id, l.seller_id, COUNT(*), COUNT(DISTINCT r.reporter_id),
+       (SELECT jsonb_object_agg(reason, n) FROM (
+          SELECT reason, COUNT(*) AS n FROM listing_reports
+          WHERE listing_id = r.listing_id AND status = 'pending' GROUP BY reason
+        ) reasons),
+       MIN(r.created_at), MAX(r.created_at)
+FROM listing_reports r
+JOIN marketplace_listings l ON l.id = r.listing_id
+WHERE r.status = 'pending'
+GROUP BY r.listing_id, l.seller_id
+ON CONFLICT (target_type, target_id) DO NOTHING;
+
+INSERT INTO moderation_cases (target_type, target_id, author_id, report_count, reporter_count, reason_counts, opened_at, last_reported_at)
+SELECT 'campus_post', r.post_id, cp.user_id, COUNT(*), COUNT(DISTINCT r.reporter_id),
+       (SELECT jsonb_object_agg(reason, n) FROM (
+          SELECT reason, COUNT(*) AS n FROM campus_post_reports
+          WHERE post_id = r.post_id AND comment_id IS NULL AND status = 'pending' GROUP BY reason
+        ) reasons),
+       MIN(r.created_at), MAX(r.created_at)
+FROM campus_post_reports r
+JOIN campus_posts cp ON cp.id = r.post_id
+WHERE r.status = 'pending' AND r.comment_id IS NULL
+GROUP BY r.post_id, cp.user_id
+ON CONFLICT (target_type, target_id) DO NOTHING;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE moderation_cases IS 'One moderation case per reported listing, post, comment or chat sender';
+COMMENT ON TABLE moderation_decisions IS 'Audit trail of moderator decisions on moderation cases';
+COMMENT ON COLUMN moderation_cases.is_auto_hidden IS 'Hidden automatically after moderation_auto_hide_threshold() distinct reporters';
@@ -0,0 +1,461 @@
+-- ============================================================================
+-- Project Status State Machine
+-- ============================================================================
+-- Every change of projects.status now goes through one function,
+-- transition_project_status(), which the user, doer and supervisor apps all
+-- call. It checks the move against project_status_transitions (who may move a
+-- project from which status to which, and what must hold first), applies the
+-- columns that go with the new status, and hands the actor and reason to
+-- the existing project_status_change_trigger, so the one project_status_history
+-- row it writes per change carries them.
+--
+-- Actors:
+--   user        - the project's owner
+--   supervisor  - the assigned supervisor (any supervisor while unclaimed)
+--   doer        - the assigned doer (any doer while the project is in the pool)
+--   system      - service role calls without an actor (payments, jobs)
+--
+-- Preconditions (project_status_transitions.requires):
+--   is_paid               - projects.is_paid
+--   quote_set             - projects.user_quote > 0
+--   doer_assigned         - projects.doer_id is set
+--   deliverable_uploaded  - at least one project_deliverables row
+--   deliverable_approved  - a deliverable passed QC
+--
+-- Rejected moves raise an exception whose HINT is a machine-readable code
+-- (see shared/project-status.ts) and whose message can be shown as is:
+--   not_authenticated, project_not_found, not_a_party, illegal_transition,
+--   role_not_allowed, precondition_failed (DETAIL names the precondition)
+--
+-- A trigger stops clients from writing projects.status directly, and holds
+-- every other writer (service role, SECURITY DEFINER functions such as the
+-- payment and refund RPCs) to the moves listed in the table, so the table is
+-- the one definition of the project lifecycle.
+-- ============================================================================
+
+-- ============================================================================
+-- TRANSITION TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS project_status_transitions (
+  from_status project_status NOT NULL,
+  to_status project_status NOT NULL,
+  actor_role VARCHAR(20) NOT NULL
+    CHECK (actor_role IN ('user', 'doer', 'supervisor', 'system')),
+  requires TEXT[] NOT NULL DEFAULT '{}',
+  description TEXT,
+  PRIMARY KEY (from_status, to_status, actor_role),
+  CHECK (from_status <> to_status),
+  CHECK (requires <@ ARRAY['is_paid', 'quote_set', 'doer_assigned', 'deliverable_uploaded', 'deliverable_approved'])
+);
+
+ALTER TABLE project_status_transitions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS project_status_transitions_read_policy ON project_status_transitions;
+CREATE POLICY project_status_transitions_read_policy ON project_status_transitions
+  FOR SELECT TO authenticated
+  USING (TRUE);
+
+GRANT SELECT ON project_status_transitions TO authenticated;
+
+-- Reseeded on every run so the table always matches this file
+DELETE FROM project_status_transitions;
+
+INSERT INTO project_status_transitions (from_status, to_status, actor_role, requires, description) VALUES
+  -- Request and quote
+  ('draft', 'submitted', 'user', '{}', 'User submits the request'),
+  ('draft', 'cancelled', 'user', '{}', 'User discards the draft'),
+  ('submitted', 'analyzing', 'supervisor', '{}', 'Supervisor picks up the request'),
+  ('submitted', 'quoted', 'supervisor', '{quote_set}', 'Supervisor quotes straight away'),
+  ('submitted', 'cancelled', 'user', '{}', 'User withdraws the request'),
+  ('submitted', 'cancelled', 'supervisor', '{}', 'Supervisor declines the request'),
+  ('analyzing', 'quoted', 'supervisor', '{quote_set}', 'Supervisor sends the quote'),
+  ('analyzing', 'cancelled', 'user', '{}', 'User withdraws the request'),
+  ('analyzing', 'cancelled', 'supervisor', '{}', 'Supervisor declines the request'),
+  ('quoted', 'analyzing', 'supervisor', '{}', 'Supervisor reworks the quote'),
+  ('quoted', 'payment_pending', 'user', '{}', 'User starts paying'),
+  ('quoted', 'paid', 'system', '{is_paid}', 'Payment captured'),
+  ('quoted', 'cancelled', 'user', '{}', 'User declines the quote'),
+  ('quoted', 'cancelled', 'supervisor', '{}', 'Supervisor withdraws the quote'),
+  ('payment_pending', 'paid', 'system', '{is_paid}', 'Payment captured'),
+  ('payment_pending', 'quoted', 'user', '{}', 'User abandons the payment'),
+  ('payment_pending', 'quoted', 'system', '{}', 'Payment failed or expired'),
+  ('payment_pending', 'cancelled', 'user', '{}', 'User declines the quote'),
+  ('payment_pending', 'cancelled', 'system', '{}', 'Payment window closed'),
+  ('draft', 'cancelled', 'system', '{}', 'Project cancelled before payment'),
+  ('submitted', 'cancelled', 'system', '{}', 'Project cancelled before payment'),
+  ('analyzing', 'cancelled', 'system', '{}', 'Project cancelled before payment'),
+  ('quoted', 'cancelled', 'system', '{}', 'Project cancelled before payment'),
+
+  -- Assignment
+  ('paid', 'assigning', 'supervisor', '{is_paid}', 'Supervisor looks for a doer'),
+  ('paid', 'assigned', 'supervisor', '{is_paid,doer_assigned}', 'Supervisor assigns a doer'),
+  ('paid', 'assigned', 'doer', '{is_paid,doer_assigned}', 'Doer takes the project from the pool'),
+  ('paid', 'refunded', 'system', '{}', 'Payment refunded before work started'),
+  ('assigning', 'assigned', 'supervisor', '{is_paid,doer_assigned}', 'Supervisor assigns a doer'),
+  ('assigning', 'paid', 'supervisor', '{}', 'Supervisor returns the project to the pool'),
+  ('assigned', 'paid', 'supervisor', '{}', 'Supervisor unassigns the doer'),
+  ('assigned', 'in_progress', 'doer', '{doer_assigned}', 'Doer starts work'),
+
+  -- Work and QC
+  ('in_progress', 'submitted_for_qc', 'doer', '{doer_assigned,deliverable_uploaded}', 'Doer submits the work'),
+  ('submitted_for_qc', 'qc_in_progress', 'supervisor', '{}', 'Supervisor starts QC'),
+  ('submitted_for_qc', 'qc_approved', 'supervisor', '{deliverable_uploaded}', 'Supervisor approves the work'),
+  ('submitted_for_qc', 'qc_rejected', 'supervisor', '{}', 'Supervisor sends the work back'),
+  ('qc_in_progress', 'qc_approved', 'supervisor', '{deliverable_uploaded}', 'Supervisor approves the work'),
+  ('qc_in_progress', 'qc_rejected', 'supervisor', '{}', 'Supervisor sends the work back'),
+  ('qc_rejected', 'in_progress', 'doer', '{doer_assigned}', 'Doer resumes work'),
+  ('qc_rejected', 'in_revision', 'doer', '{doer_assigned}', 'Doer starts the revision'),
+
+  -- Delivery and approval
+  ('qc_approved', 'delivered', 'supervisor', '{deliverable_approved}', 'Supervisor delivers the work'),
+  ('qc_approved', 'delivered', 'system', '{deliverable_approved}', 'Work delivered'),
+  ('qc_approved', 'completed', 'user', '{deliverable_approved}', 'User accepts the work'),
+  ('qc_approved', 'revision_requested', 'user', '{deliverable_approved}', 'User asks for changes'),
+  ('delivered', 'completed', 'user', '{deliverable_approved}', 'User accepts the work'),
+  ('delivered', 'revision_requested', 'user', '{}', 'User asks for changes'),
+  ('delivered', 'auto_approved', 'system', '{deliverable_approved}', 'Review window lapsed'),
+  ('qc_approved', 'auto_approved', 'system', '{deliverable_approved}', 'Review window lapsed'),
+  ('auto_approved', 'completed', 'user', '{}', 'User confirms the work'),
+  ('revision_requested', 'in_revision', 'doer', '{doer_assigned}', 'Doer starts the revision'),
+  ('in_revision', 'submitted_for_qc', 'doer', '{doer_assigned,deliverable_uploaded}', 'Doer resubmits the work'),
+
+  -- Cancellation after payment (process_project_refund): refunded when
+  -- money goes back, cancelled when the refund policy returns nothing
+  ('paid', 'cancelled', 'system', '{}', 'Project cancelled without a refund'),
+  ('assigning', 'refunded', 'system', '{}', 'Project cancelled and refunded'),
+  ('assigning', 'cancelled', 'system', '{}', 'Project cancelled without a refund'),
+  ('assigned', 'refunded', 'system', '{}', 'Project cancelled and refunded'),
+  ('assigned', 'cancelled', 'system', '{}', 'Project cancelled without a refund'),
+  ('in_progress', 'refunded', 'system', '{}', 'Project cancelled and refunded'),
+  ('in_progress', 'cancelled', 'system', '{}', 'Project cancelled without a refund'),
+  ('submitted_for_qc', 'refunded', 'system', '{}', 'Project cancelled and refunded'),
+  ('submitted_for_qc', 'cancelled', 'system', '{}', 'Project cancelled without a refund'),
+  ('qc_in_progress', 'refunded', 'system', '{}', 'Project cancelled and refunded'),
+  ('qc_in_progress', 'cancelled', 'system', '{}', 'Project cancelled without a refund'),
+  ('qc_approved', 'refunded', 'system', '{}', 'Project cancelled and refunded'),
+  ('qc_approved', 'cancelled', 'system', '{}', 'Project cancelled without a refund'),
+  ('qc_rejected', 'refunded', 'system', '{}', 'Project cancelled and refunded'),
+  ('qc_rejected', 'cancelled', 'system', '{}', 'Project cancelled without a refund'),
+  ('delivered', 'refunded', 'system', '{}', 'Project cancelled and refunded'),
+  ('delivered', 'cancelled', 'system', '{}', 'Project cancelled without a refund'),
+  ('revision_requested', 'refunded', 'system', '{}', 'Project cancelled and refunded'),
+  ('revision_requested', 'cancelled', 'system', '{}', 'Project cancelled without a refund'),
+  ('in_revision', 'refunded', 'system', '{}', 'Project cancelled and refunded'),
+  ('in_revision', 'cancelled', 'system', '{}', 'Project cancelled without a refund');
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Function: Human label for a status in error messages ("qc_approved" -> "qc approved")
+CREATE OR REPLACE FUNCTION project_status_label(p_status project_status)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT replace(p_status::TEXT, '_', ' ');
+$$;
+
+-- ============================================================================
+-- STATUS HISTORY
+-- ============================================================================
+
+-- Trigger function: One project_status_history row per status change
+-- Replaces the original, which always logged 'system'. Callers that know who
+-- made the change (transition_project_status) pass it in transaction-local
+-- settings: app.status_actor_id, app.status_actor_role, app.status_reason and
+-- app.status_metadata. The new row's id is left in app.status_history_id.
+CREATE OR REPLACE FUNCTION log_project_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_history_id UUID;
+BEGIN
+  IF OLD.status IS DISTINCT FROM NEW.status THEN
+    INSERT INTO project_status_history (
+      project_id,
+      from_status,
+      to_status,
+      changed_by,
+      changed_by_type,
+      notes,
+      metadata,
+      created_at
+    ) VALUES (
+      NEW.id,
+      OLD.status,
+      NEW.status,
+      NULLIF(current_setting('app.status_actor_id', true), '')::UUID,
+      COALESCE(NULLIF(current_setting('app.status_actor_role', true), ''), 'system'),
+      NULLIF(current_setting('app.status_reason', true), ''),
+      COALESCE(NULLIF(current_setting('app.status_metadata', true), ''), '{}')::JSONB,
+      NOW()
+    )
+    RETURNING id INTO v_history_id;
+
+    PERFORM set_config('app.status_history_id', v_history_id::TEXT, true);
+    NEW.status_updated_at := NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS project_status_change_trigger ON projects;
+CREATE TRIGGER project_status_change_trigger
+  BEFORE UPDATE ON projects
+  FOR EACH ROW
+  EXECUTE FUNCTION log_project_status_change();
+
+-- Function: Move a project to a new status
+-- p_actor_id is only read for service role calls; signed-in callers always
+-- act as themselves. p_doer_id names the doer when a supervisor assigns one.
+-- Returns JSON: {project_id, from_status, to_status, actor_role, history_id}
+CREATE OR REPLACE FUNCTION transition_project_status(
+  p_project_id UUID,
+  p_to_status project_status,
+  p_reason TEXT DEFAULT NULL,
+  p_actor_id UUID DEFAULT NULL,
+  p_doer_id UUID DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor_id UUID;
+  v_project projects%ROWTYPE;
+  v_supervisor_id UUID;
+  v_doer_id UUID;
+  v_roles TEXT[] := '{}';
+  v_role TEXT;
+  v_rule project_status_transitions%ROWTYPE;
+  v_requirement TEXT;
+  v_met BOOLEAN;
+  v_history_id UUID;
+BEGIN
+  v_actor_id := COALESCE(auth.uid(), CASE WHEN auth.role() = 'service_role' THEN p_actor_id END);
+
+  IF v_actor_id IS NULL AND COALESCE(auth.role(), '') <> 'service_role' THEN
+    RAISE EXCEPTION 'Please sign in again to update this project'
+      USING ERRCODE = 'insufficient_privilege', HINT = 'not_authenticated';
+  END IF;
+
+  SELECT * INTO v_project FROM projects WHERE id = p_project_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Project not found'
+      USING HINT = 'project_not_found';
+  END IF;
+
+  -- Roles the actor holds on this project
+  IF v_actor_id IS NULL THEN
+    v_roles := ARRAY['system'];
+  ELSE
+    IF v_project.user_id = v_actor_id THEN
+      v_roles := array_append(v_roles, 'user');
+    END IF;
+
+    SELECT id INTO v_supervisor_id FROM supervisors WHERE profile_id = v_actor_id;
+    IF v_supervisor_id IS NOT NULL
+       AND (v_project.supervisor_id IS NULL OR v_project.supervisor_id = v_supervisor_id) THEN
+      v_roles := array_append(v_roles, 'supervisor');
+    END IF;
+
+    SELECT id INTO v_doer_id FROM doers WHERE profile_id = v_actor_id;
+    IF v_doer_id IS NOT NULL
+       AND (v_project.doer_id = v_doer_id OR (v_project.doer_id IS NULL AND v_project.status = 'paid')) THEN
+      v_roles := array_append(v_roles, 'doer');
+    END IF;
+  END IF;
+
+  IF cardinality(v_roles) = 0 THEN
+    RAISE EXCEPTION 'You are not working on this project'
+      USING ERRCODE = 'insufficient_privilege', HINT = 'not_a_party';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM project_status_transitions
+    WHERE from_status = v_project.status AND to_status = p_to_status
+  ) THEN
+    RAISE EXCEPTION '%', CASE
+        WHEN v_project.status = p_to_status
+          THEN format('This project is already %s', project_status_label(p_to_status))
+        ELSE format('A project can''t move from %s to %s',
+          project_status_label(v_project.status), project_status_label(p_to_status))
+      END
+      USING HINT = 'illegal_transition',
+            DETAIL = format('%s -> %s', v_project.status, p_to_status);
+  END IF;
+
+  SELECT t.* INTO v_rule
+  FROM project_status_transitions t
+  WHERE t.from_status = v_project.status
+    AND t.to_status = p_to_status
+    AND t.actor_role = ANY (v_roles)
+  ORDER BY array_position(ARRAY['user', 'supervisor', 'doer', 'system'], t.actor_role::TEXT)
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You can''t move this project from % to %',
+      project_status_label(v_project.status), project_status_label(p_to_status)
+      USING ERRCODE = 'insufficient_privilege', HINT = 'role_not_allowed',
+            DETAIL = format('%s -> %s', v_project.status, p_to_status);
+  END IF;
+
+  v_role := v_rule.actor_role;
+
+  -- Columns that go with the move; applied before the checks so an
+  -- assignment can satisfy doer_assigned
+  IF v_role = 'supervisor' AND v_project.supervisor_id IS NULL THEN
+    v_project.supervisor_id := v_supervisor_id;
+    v_project.supervisor_assigned_at := NOW();
+  END IF;
+
+  IF p_to_status = 'assigned' THEN
+    v_project.doer_id := CASE WHEN v_role = 'doer' THEN v_doer_id ELSE COALESCE(p_doer_id, v_project.doer_id) END;
+    v_project.doer_assigned_at := NOW();
+  ELSIF p_to_status = 'paid' AND v_project.status IN ('assigned', 'assigning') THEN
+    v_project.doer_id := NULL;
+    v_project.doer_assigned_at := NULL;
+  END IF;
+
+  FOREACH v_requirement IN ARRAY v_rule.requires LOOP
+    v_met := CASE v_requirement
+      WHEN 'is_paid' THEN COALESCE(v_project.is_paid, FALSE)
+      WHEN 'quote_set' THEN COALESCE(v_project.user_quote, 0) > 0
+      WHEN 'doer_assigned' THEN v_project.doer_id IS NOT NULL
+      WHEN 'deliverable_uploaded' THEN EXISTS (
+        SELECT 1 FROM project_deliverables WHERE project_id = p_project_id
+      )
+      WHEN 'deliverable_approved' THEN EXISTS (
+        SELECT 1 FROM project_deliverables WHERE project_id = p_project_id AND qc_status = 'approved'
+      )
+      ELSE FALSE
+    END;
+
+    IF NOT v_met THEN
+      RAISE EXCEPTION '%', CASE v_requirement
+          WHEN 'is_paid' THEN 'The project hasn''t been paid for yet'
+          WHEN 'quote_set' THEN 'Set a quote before sending it'
+          WHEN 'doer_assigned' THEN 'Assign a doer first'
+          WHEN 'deliverable_uploaded' THEN 'Upload the work before submitting it'
+          WHEN 'deliverable_approved' THEN 'The work hasn''t passed QC yet'
+        END
+        USING HINT = 'precondition_failed', DETAIL = v_requirement;
+    END IF;
+  END LOOP;
+
+  -- Picked up by project_status_change_trigger for the history row
+  PERFORM set_config('app.status_actor_id', COALESCE(v_actor_id::TEXT, ''), true);
+  PERFORM set_config('app.status_actor_role', v_role, true);
+  PERFORM set_config('app.status_reason', COALESCE(btrim(p_reason), ''), true);
+  PERFORM set_config(
+    'app.status_metadata',
+    (jsonb_build_object('rule', v_rule.description)
+      || CASE WHEN p_to_status = 'assigned' THEN jsonb_build_object('doer_id', v_project.doer_id) ELSE '{}'::JSONB END
+    )::TEXT,
+    true
+  );
+
+  UPDATE projects
+  SET status = p_to_status,
+      supervisor_id = v_project.supervisor_id,
+      supervisor_assigned_at = v_project.supervisor_assigned_at,
+      doer_id = v_project.doer_id,
+      doer_assigned_at = v_project.doer_assigned_at,
+      delivered_at = CASE WHEN p_to_status = 'delivered' THEN NOW() ELSE delivered_at END,
+      completed_at = CASE WHEN p_to_status IN ('completed', 'auto_approved') THEN NOW() ELSE completed_at END,
+      user_approved = CASE WHEN p_to_status = 'completed' AND v_role = 'user' THEN TRUE ELSE user_approved END,
+      user_approved_at = CASE WHEN p_to_status = 'completed' AND v_role = 'user' THEN NOW() ELSE user_approved_at END,
+      cancelled_at = CASE WHEN p_to_status = 'cancelled' THEN NOW() ELSE cancelled_at END,
+      cancelled_by = CASE WHEN p_to_status = 'cancelled' THEN v_actor_id ELSE cancelled_by END,
+      cancellation_reason = CASE WHEN p_to_status = 'cancelled' THEN p_reason ELSE cancellation_reason END,
+      status_updated_at = NOW(),
+      updated_at = NOW()
+  WHERE id = p_project_id;
+
+  -- QC outcome is recorded on the latest deliverable
+  IF p_to_status IN ('qc_approved', 'qc_rejected') THEN
+    UPDATE project_deliverables
+    SET qc_status = CASE WHEN p_to_status = 'qc_approved' THEN 'approved' ELSE 'rejected' END,
+        qc_at = NOW(),
+        qc_notes = COALESCE(p_reason, qc_notes)
+    WHERE id = (
+      SELECT id FROM project_deliverables
+      WHERE project_id = p_project_id
+      ORDER BY created_at DESC
+      LIMIT 1
+    );
+  END IF;
+
+  v_history_id := NULLIF(current_setting('app.status_history_id', true), '')::UUID;
+
+  -- Later updates in the same transaction log as 'system' again
+  PERFORM set_config('app.status_actor_id', '', true);
+  PERFORM set_config('app.status_actor_role', '', true);
+  PERFORM set_config('app.status_reason', '', true);
+  PERFORM set_config('app.status_metadata', '', true);
+  PERFORM set_config('app.status_history_id', '', true);
+
+  RETURN json_build_object(
+    'project_id', p_project_id,
+    'from_status', v_project.status,
+    'to_status', p_to_status,
+    'actor_role', v_role,
+    'history_id', v_history_id
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION transition_project_status FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION transition_project_status TO authenticated, service_role;
+
+-- Trigger: Every status change must be a move in project_status_transitions
+-- Clients must go through transition_project_status. SECURITY DEFINER
+-- functions (run as their owner) and service role calls may still write the
+-- column, but only along a move the table lists for some role.
+CREATE OR REPLACE FUNCTION guard_project_status_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF current_user IN ('authenticated', 'anon') THEN
+    RAISE EXCEPTION 'Project status can only be changed through transition_project_status'
+      USING ERRCODE = 'insufficient_privilege', HINT = 'illegal_transition';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM project_status_transitions
+    WHERE from_status = OLD.status AND to_status = NEW.status
+  ) THEN
+    RAISE EXCEPTION 'A project can''t move from % to %',
+      project_status_label(OLD.status), project_status_label(NEW.status)
+      USING HINT = 'illegal_transition',
+            DETAIL = format('%s -> %s', OLD.status, NEW.status);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_guard_project_status_update ON projects;
+CREATE TRIGGER trg_guard_project_status_update
+  BEFORE UPDATE OF status ON projects
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_project_status_update();
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE project_status_transitions IS 'Allowed project status moves per actor role, with preconditions';
+COMMENT ON FUNCTION log_project_status_change IS 'Writes the project_status_history row for a status change, with the actor and reason passed in app.status_* settings';
+COMMENT ON FUNCTION transition_project_status IS 'Single entry point for project status changes; validates, applies and audits the move';
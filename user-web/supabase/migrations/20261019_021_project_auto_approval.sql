@@ -0,0 +1,358 @@
+-- ============================================================================
+-- Project Auto-Approval
+-- ============================================================================
+-- A delivered project (delivered or qc_approved, which the student app shows
+-- as delivered) gets a review window. When the window lapses without the
+-- student accepting the work or asking for changes, the auto-approval job
+-- (app/api/projects/auto-approval) moves it to auto_approved through
+-- transition_project_status() as the system actor.
+--
+--   - projects.auto_approve_at is set when the project enters review
+--   - the timer pauses while a revision or support ticket on the project is
+--     open (projects.auto_approve_paused_at) and the paused time is added
+--     back when the last one closes
+--   - doer and supervisor earnings are released into their wallets once the
+--     project is completed or auto_approved, exactly once per project
+-- ============================================================================
+
+-- ============================================================================
+-- COLUMNS
+-- ============================================================================
+
+ALTER TABLE projects
+  ADD COLUMN IF NOT EXISTS auto_approve_paused_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_projects_auto_approve_at
+  ON projects(auto_approve_at)
+  WHERE status IN ('delivered', 'qc_approved') AND auto_approve_paused_at IS NULL;
+
+-- ============================================================================
+-- EARNINGS LEDGER
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS project_earnings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  profile_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  recipient_role VARCHAR(20) NOT NULL
+    CHECK (recipient_role IN ('doer', 'supervisor')),
+  amount DECIMAL(10, 2) NOT NULL CHECK (amount > 0),
+  wallet_transaction_id UUID REFERENCES wallet_transactions(id) ON DELETE SET NULL,
+  project_status project_status NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (project_id, recipient_role)
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_earnings_profile_id ON project_earnings(profile_id);
+
+ALTER TABLE project_earnings ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Doers and supervisors can view their own earnings
+CREATE POLICY "Recipients can view own earnings" ON project_earnings
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = profile_id);
+
+-- ============================================================================
+-- REVIEW WINDOW
+-- ============================================================================
+
+-- Function: How long the student has to review a delivery
+CREATE OR REPLACE FUNCTION auto_approval_window()
+RETURNS INTERVAL
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT INTERVAL '72 hours';
+$$;
+
+-- Function: Whether something on the project should hold the review timer
+-- Open revisions (pending / in_progress) and open support tickets count.
+CREATE OR REPLACE FUNCTION project_auto_approval_blocked(p_project_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM project_revisions
+    WHERE project_id = p_project_id
+      AND COALESCE(status, 'pending') IN ('pending', 'in_progress')
+  ) OR EXISTS (
+    SELECT 1 FROM support_tickets
+    WHERE project_id = p_project_id
+      AND status IN ('open', 'in_progress', 'waiting_response', 'reopened')
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION project_auto_approval_blocked FROM PUBLIC, authenticated, anon;
+GRANT EXECUTE ON FUNCTION project_auto_approval_blocked TO service_role;
+
+-- Trigger: Start the review timer when a project enters review
+CREATE OR REPLACE FUNCTION start_project_auto_approval()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status IN ('delivered', 'qc_approved')
+     AND OLD.status NOT IN ('delivered', 'qc_approved') THEN
+    NEW.auto_approve_at := NOW() + auto_approval_window();
+    NEW.auto_approve_paused_at := CASE
+      WHEN project_auto_approval_blocked(NEW.id) THEN NOW()
+    END;
+  ELSIF NEW.status NOT IN ('delivered', 'qc_approved') THEN
+    NEW.auto_approve_paused_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_start_project_auto_approval ON projects;
+CREATE TRIGGER trg_start_project_auto_approval
+  BEFORE UPDATE OF status ON projects
+  FOR EACH ROW
+  EXECUTE FUNCTION start_project_auto_approval();
+
+-- Function: Pause or resume the review timer of one project
+-- Resuming pushes auto_approve_at back by the time spent paused.
+CREATE OR REPLACE FUNCTION sync_project_auto_approval(p_project_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_project RECORD;
+  v_blocked BOOLEAN;
+BEGIN
+  SELECT id, status, auto_approve_at, auto_approve_paused_at
+  INTO v_project
+  FROM projects
+  WHERE id = p_project_id
+  FOR UPDATE;
+
+  IF v_project.id IS NULL
+     OR v_project.status NOT IN ('delivered', 'qc_approved')
+     OR v_project.auto_approve_at IS NULL THEN
+    RETURN;
+  END IF;
+
+  v_blocked := project_auto_approval_blocked(p_project_id);
+
+  IF v_blocked AND v_project.auto_approve_paused_at IS NULL THEN
+    UPDATE projects
+    SET auto_approve_paused_at = NOW(),
+        updated_at = NOW()
+    WHERE id = p_project_id;
+  ELSIF NOT v_blocked AND v_project.auto_approve_paused_at IS NOT NULL THEN
+    UPDATE projects
+    SET auto_approve_at = auto_approve_at + (NOW() - auto_approve_paused_at),
+        auto_approve_paused_at = NULL,
+        updated_at = NOW()
+    WHERE id = p_project_id;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION sync_project_auto_approval FROM PUBLIC, authenticated, anon;
+GRANT EXECUTE ON FUNCTION sync_project_auto_approval TO service_role;
+
+-- Triggers: Revisions and support tickets pause and resume the timer
+CREATE OR REPLACE FUNCTION sync_auto_approval_from_blocker()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.project_id IS NOT NULL THEN
+    PERFORM sync_project_auto_approval(OLD.project_id);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.project_id IS NOT NULL
+     AND NEW.project_id IS DISTINCT FROM OLD.project_id THEN
+    PERFORM sync_project_auto_approval(NEW.project_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_revision_auto_approval ON project_revisions;
+CREATE TRIGGER trg_revision_auto_approval
+  AFTER INSERT OR UPDATE OF status OR DELETE ON project_revisions
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_auto_approval_from_blocker();
+
+DROP TRIGGER IF EXISTS trg_support_ticket_auto_approval ON support_tickets;
+CREATE TRIGGER trg_support_ticket_auto_approval
+  AFTER INSERT OR UPDATE OF status, project_id OR DELETE ON support_tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_auto_approval_from_blocker();
+
+-- ============================================================================
+-- EARNINGS RELEASE
+-- ============================================================================
+
+-- Function: Credit one earning to a wallet, creating the wallet if needed
+-- wallet_balance_trigger applies the transaction to the wallet's balance and
+-- total_credited; the balance fields are computed under the wallet lock.
+CREATE OR REPLACE FUNCTION credit_project_earning(
+  p_project_id UUID,
+  p_project_number TEXT,
+  p_project_status project_status,
+  p_profile_id UUID,
+  p_recipient_role TEXT,
+  p_amount NUMERIC
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_wallet_id UUID;
+  v_old_balance DECIMAL;
+  v_new_balance DECIMAL;
+  v_transaction_id UUID;
+BEGIN
+  IF p_profile_id IS NULL OR COALESCE(p_amount, 0) <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM project_earnings
+    WHERE project_id = p_project_id AND recipient_role = p_recipient_role
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT id, balance INTO v_wallet_id, v_old_balance
+  FROM wallets
+  WHERE profile_id = p_profile_id
+  FOR UPDATE;
+
+  IF v_wallet_id IS NULL THEN
+    INSERT INTO wallets (profile_id)
+    VALUES (p_profile_id)
+    RETURNING id, balance INTO v_wallet_id, v_old_balance;
+  END IF;
+
+  v_new_balance := v_old_balance + p_amount;
+
+  INSERT INTO wallet_transactions (
+    wallet_id,
+    transaction_type,
+    amount,
+    balance_before,
+    balance_after,
+    reference_type,
+    reference_id,
+    description,
+    status
+  ) VALUES (
+    v_wallet_id,
+    CASE WHEN p_recipient_role = 'doer' THEN 'project_earning' ELSE 'commission' END::transaction_type,
+    p_amount,
+    v_old_balance,
+    v_new_balance,
+    'project',
+    p_project_id,
+    CASE WHEN p_recipient_role = 'doer'
+      THEN 'Earnings for project ' || p_project_number
+      ELSE 'Commission for project ' || p_project_number
+    END,
+    'completed'
+  ) RETURNING id INTO v_transaction_id;
+
+  INSERT INTO project_earnings (
+    project_id,
+    profile_id,
+    recipient_role,
+    amount,
+    wallet_transaction_id,
+    project_status
+  ) VALUES (
+    p_project_id,
+    p_profile_id,
+    p_recipient_role,
+    p_amount,
+    v_transaction_id,
+    p_project_status
+  );
+
+  RETURN v_transaction_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION credit_project_earning FROM PUBLIC, authenticated, anon;
+GRANT EXECUTE ON FUNCTION credit_project_earning TO service_role;
+
+-- Trigger: Release doer and supervisor earnings when the work is accepted
+-- doer_stats_trigger already adds the payout to doers.total_earnings on
+-- completion; supervisors have no such trigger, so their total is kept here.
+CREATE OR REPLACE FUNCTION release_project_earnings()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_doer RECORD;
+  v_supervisor RECORD;
+BEGIN
+  IF NEW.status NOT IN ('completed', 'auto_approved')
+     OR OLD.status IN ('completed', 'auto_approved') THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT id, profile_id INTO v_doer FROM doers WHERE id = NEW.doer_id;
+  SELECT id, profile_id INTO v_supervisor FROM supervisors WHERE id = NEW.supervisor_id;
+
+  IF v_doer.id IS NOT NULL THEN
+    PERFORM credit_project_earning(NEW.id, NEW.project_number, NEW.status,
+      v_doer.profile_id, 'doer', NEW.doer_payout);
+  END IF;
+
+  IF v_supervisor.id IS NOT NULL
+     AND credit_project_earning(NEW.id, NEW.project_number, NEW.status,
+       v_supervisor.profile_id, 'supervisor', NEW.supervisor_commission) IS NOT NULL THEN
+    UPDATE supervisors
+    SET total_earnings = COALESCE(total_earnings, 0) + NEW.supervisor_commission
+    WHERE id = v_supervisor.id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_release_project_earnings ON projects;
+CREATE TRIGGER trg_release_project_earnings
+  AFTER UPDATE OF status ON projects
+  FOR EACH ROW
+  EXECUTE FUNCTION release_project_earnings();
+
+-- ============================================================================
+-- BACKFILL
+-- ============================================================================
+
+-- Projects already in review get a window starting now
+UPDATE projects
+SET auto_approve_at = NOW() + auto_approval_window()
+WHERE status IN ('delivered', 'qc_approved')
+  AND auto_approve_at IS NULL;
+
+UPDATE projects
+SET auto_approve_paused_at = NOW()
+WHERE status IN ('delivered', 'qc_approved')
+  AND auto_approve_paused_at IS NULL
+  AND project_auto_approval_blocked(id);
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE project_earnings IS 'Doer and supervisor earnings released into wallets, one row per project and role';
+COMMENT ON COLUMN projects.auto_approve_paused_at IS 'Set while an open revision or support ticket holds the auto-approval timer';
+COMMENT ON FUNCTION sync_project_auto_approval IS 'Pauses or resumes the auto-approval timer of a project';
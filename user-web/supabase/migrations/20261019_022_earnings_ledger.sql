@@ -0,0 +1,639 @@
+-- ============================================================================
+-- Earnings Ledger
+-- ============================================================================
+-- Double-entry books for project money. Every movement is a ledger entry
+-- whose lines debit and credit accounts by equal totals:
+--
+--   escrow_funded    project paid           DR cash              CR escrow
+--   escrow_released  completed/auto_approved DR escrow           CR earnings (doer)
+--                                                                CR earnings (supervisor)
+--                                                                CR platform_revenue
+--   escrow_reversed  cancelled/refunded     DR escrow            CR customer_refunds
+--                                                                CR platform_revenue
+--
+-- Accounts:
+--   cash              - money the platform received (one account)
+--   escrow            - money held for one project until the work is accepted
+--   earnings          - what the platform owes one doer or supervisor; the
+--                       credits mirror their project_earning / commission
+--                       wallet_transactions
+--   platform_revenue  - platform fee, GST and cancellation retention
+--   customer_refunds  - money returned to students
+--
+-- Doers and supervisors read their balances with get_earnings_balance():
+-- pending is their share of funded escrow, available is their earnings
+-- account. get_ledger_reconciliation() proves the books balance.
+-- ============================================================================
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS ledger_accounts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind VARCHAR(30) NOT NULL
+    CHECK (kind IN ('cash', 'escrow', 'earnings', 'platform_revenue', 'customer_refunds')),
+  project_id UUID REFERENCES projects(id),
+  profile_id UUID REFERENCES profiles(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK ((kind = 'escrow') = (project_id IS NOT NULL)),
+  CHECK ((kind = 'earnings') = (profile_id IS NOT NULL)),
+  UNIQUE NULLS NOT DISTINCT (kind, project_id, profile_id)
+);
+
+CREATE TABLE IF NOT EXISTS ledger_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entry_type VARCHAR(30) NOT NULL
+    CHECK (entry_type IN ('escrow_funded', 'escrow_released', 'escrow_reversed')),
+  project_id UUID REFERENCES projects(id),
+  description TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Each project is funded, released and reversed at most once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ledger_entries_project_type
+  ON ledger_entries(project_id, entry_type)
+  WHERE project_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS ledger_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entry_id UUID NOT NULL REFERENCES ledger_entries(id),
+  account_id UUID NOT NULL REFERENCES ledger_accounts(id),
+  direction VARCHAR(6) NOT NULL CHECK (direction IN ('debit', 'credit')),
+  amount DECIMAL(12, 2) NOT NULL CHECK (amount > 0),
+  wallet_transaction_id UUID REFERENCES wallet_transactions(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_lines_entry_id ON ledger_lines(entry_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_lines_account_id ON ledger_lines(account_id);
+
+-- Books are written by the functions below only; apps read them through RPCs
+ALTER TABLE ledger_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ledger_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ledger_lines ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- POSTING
+-- ============================================================================
+
+-- Function: Account of a kind, created on first use
+CREATE OR REPLACE FUNCTION ledger_account_id(
+  p_kind TEXT,
+  p_project_id UUID DEFAULT NULL,
+  p_profile_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_account_id UUID;
+BEGIN
+  INSERT INTO ledger_accounts (kind, project_id, profile_id)
+  VALUES (p_kind, p_project_id, p_profile_id)
+  ON CONFLICT (kind, project_id, profile_id) DO NOTHING
+  RETURNING id INTO v_account_id;
+
+  IF v_account_id IS NULL THEN
+    SELECT id INTO v_account_id
+    FROM ledger_accounts
+    WHERE kind = p_kind
+      AND project_id IS NOT DISTINCT FROM p_project_id
+      AND profile_id IS NOT DISTINCT FROM p_profile_id;
+  END IF;
+
+  RETURN v_account_id;
+END;
+$$;
+
+-- Function: Credit-positive balance of an account
+-- Liabilities (escrow, earnings) read as what is owed; cash reads negative.
+CREATE OR REPLACE FUNCTION ledger_account_balance(p_account_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(CASE WHEN direction = 'credit' THEN amount ELSE -amount END), 0)
+  FROM ledger_lines
+  WHERE account_id = p_account_id;
+$$;
+
+-- Function: Write one balanced entry
+-- p_lines: [{account_id, direction, amount, wallet_transaction_id?}, ...];
+-- zero-amount lines are dropped. Raises if debits and credits differ.
+CREATE OR REPLACE FUNCTION post_ledger_entry(
+  p_entry_type TEXT,
+  p_project_id UUID,
+  p_description TEXT,
+  p_lines JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_debits NUMERIC;
+  v_credits NUMERIC;
+  v_entry_id UUID;
+BEGIN
+  SELECT
+    COALESCE(SUM((line->>'amount')::NUMERIC) FILTER (WHERE line->>'direction' = 'debit'), 0),
+    COALESCE(SUM((line->>'amount')::NUMERIC) FILTER (WHERE line->>'direction' = 'credit'), 0)
+  INTO v_debits, v_credits
+  FROM jsonb_array_elements(p_lines) AS line
+  WHERE (line->>'amount')::NUMERIC > 0;
+
+  IF v_debits = 0 OR v_debits <> v_credits THEN
+    RAISE EXCEPTION 'Unbalanced ledger entry %: debits % credits %', p_entry_type, v_debits, v_credits;
+  END IF;
+
+  INSERT INTO ledger_entries (entry_type, project_id, description)
+  VALUES (p_entry_type, p_project_id, p_description)
+  RETURNING id INTO v_entry_id;
+
+  INSERT INTO ledger_lines (entry_id, account_id, direction, amount, wallet_transaction_id)
+  SELECT
+    v_entry_id,
+    (line->>'account_id')::UUID,
+    line->>'direction',
+    (line->>'amount')::NUMERIC,
+    NULLIF(line->>'wallet_transaction_id', '')::UUID
+  FROM jsonb_array_elements(p_lines) AS line
+  WHERE (line->>'amount')::NUMERIC > 0;
+
+  RETURN v_entry_id;
+END;
+$$;
+
+-- Builds one line for post_ledger_entry(); a negative amount flips the side
+CREATE OR REPLACE FUNCTION ledger_line(
+  p_account_id UUID,
+  p_direction TEXT,
+  p_amount NUMERIC,
+  p_wallet_transaction_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT jsonb_build_object(
+    'account_id', p_account_id,
+    'direction', CASE
+      WHEN p_amount >= 0 THEN p_direction
+      WHEN p_direction = 'debit' THEN 'credit'
+      ELSE 'debit'
+    END,
+    'amount', ABS(COALESCE(p_amount, 0)),
+    'wallet_transaction_id', p_wallet_transaction_id
+  );
+$$;
+
+-- ============================================================================
+-- PROJECT ESCROW
+-- ============================================================================
+
+-- Function: Hold a paid project's charge (user_quote) in escrow
+CREATE OR REPLACE FUNCTION fund_project_escrow(p_project_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_project RECORD;
+BEGIN
+  SELECT id, project_number, is_paid, user_quote
+  INTO v_project
+  FROM projects
+  WHERE id = p_project_id;
+
+  IF v_project.id IS NULL
+     OR NOT COALESCE(v_project.is_paid, false)
+     OR COALESCE(v_project.user_quote, 0) <= 0
+     OR EXISTS (
+       SELECT 1 FROM ledger_entries
+       WHERE project_id = p_project_id AND entry_type = 'escrow_funded'
+     ) THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN post_ledger_entry(
+    'escrow_funded',
+    p_project_id,
+    'Payment held for project ' || v_project.project_number,
+    jsonb_build_array(
+      ledger_line(ledger_account_id('cash'), 'debit', v_project.user_quote),
+      ledger_line(ledger_account_id('escrow', p_project_id), 'credit', v_project.user_quote)
+    )
+  );
+END;
+$$;
+
+-- Function: Pay the escrow out once the work is accepted
+-- Doer and supervisor lines carry the wallet_transactions written by
+-- credit_project_earning(); the rest is platform revenue. If the payouts
+-- exceed what was held (projects paid before the ledger), the platform
+-- covers the difference.
+CREATE OR REPLACE FUNCTION release_project_escrow(p_project_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_project RECORD;
+  v_escrow_id UUID;
+  v_held NUMERIC;
+  v_lines JSONB := '[]'::JSONB;
+  v_paid_out NUMERIC := 0;
+  v_earning RECORD;
+BEGIN
+  SELECT id, project_number INTO v_project FROM projects WHERE id = p_project_id;
+
+  IF v_project.id IS NULL OR EXISTS (
+    SELECT 1 FROM ledger_entries
+    WHERE project_id = p_project_id AND entry_type IN ('escrow_released', 'escrow_reversed')
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM fund_project_escrow(p_project_id);
+
+  v_escrow_id := ledger_account_id('escrow', p_project_id);
+  v_held := ledger_account_balance(v_escrow_id);
+
+  FOR v_earning IN
+    SELECT profile_id, amount, wallet_transaction_id
+    FROM project_earnings
+    WHERE project_id = p_project_id
+  LOOP
+    v_lines := v_lines || ledger_line(
+      ledger_account_id('earnings', NULL, v_earning.profile_id),
+      'credit',
+      v_earning.amount,
+      v_earning.wallet_transaction_id
+    );
+    v_paid_out := v_paid_out + v_earning.amount;
+  END LOOP;
+
+  IF v_held <= 0 AND v_paid_out = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  v_lines := v_lines
+    || ledger_line(v_escrow_id, 'debit', v_held)
+    || ledger_line(ledger_account_id('platform_revenue'), 'credit', v_held - v_paid_out);
+
+  RETURN post_ledger_entry(
+    'escrow_released',
+    p_project_id,
+    'Earnings released for project ' || v_project.project_number,
+    v_lines
+  );
+END;
+$$;
+
+-- Function: Give the escrow back when a paid project is cancelled
+-- The refund recorded by process_project_refund() goes to the student; what
+-- the refund policy kept is platform revenue.
+CREATE OR REPLACE FUNCTION reverse_project_escrow(p_project_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_project RECORD;
+  v_escrow_id UUID;
+  v_held NUMERIC;
+  v_refund NUMERIC;
+BEGIN
+  SELECT id, project_number INTO v_project FROM projects WHERE id = p_project_id;
+
+  IF v_project.id IS NULL OR EXISTS (
+    SELECT 1 FROM ledger_entries
+    WHERE project_id = p_project_id AND entry_type IN ('escrow_released', 'escrow_reversed')
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  v_escrow_id := ledger_account_id('escrow', p_project_id);
+  v_held := ledger_account_balance(v_escrow_id);
+
+  IF v_held <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT LEAST(COALESCE(SUM(refund_amount), 0), v_held) INTO v_refund
+  FROM project_refunds
+  WHERE project_id = p_project_id;
+
+  RETURN post_ledger_entry(
+    'escrow_reversed',
+    p_project_id,
+    'Escrow reversed for cancelled project ' || v_project.project_number,
+    jsonb_build_array(
+      ledger_line(v_escrow_id, 'debit', v_held),
+      ledger_line(ledger_account_id('customer_refunds'), 'credit', v_refund),
+      ledger_line(ledger_account_id('platform_revenue'), 'credit', v_held - v_refund)
+    )
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION ledger_account_id FROM PUBLIC, authenticated, anon;
+REVOKE EXECUTE ON FUNCTION ledger_account_balance FROM PUBLIC, authenticated, anon;
+REVOKE EXECUTE ON FUNCTION post_ledger_entry FROM PUBLIC, authenticated, anon;
+REVOKE EXECUTE ON FUNCTION fund_project_escrow FROM PUBLIC, authenticated, anon;
+REVOKE EXECUTE ON FUNCTION release_project_escrow FROM PUBLIC, authenticated, anon;
+REVOKE EXECUTE ON FUNCTION reverse_project_escrow FROM PUBLIC, authenticated, anon;
+GRANT EXECUTE ON FUNCTION ledger_account_id TO service_role;
+GRANT EXECUTE ON FUNCTION ledger_account_balance TO service_role;
+GRANT EXECUTE ON FUNCTION post_ledger_entry TO service_role;
+GRANT EXECUTE ON FUNCTION fund_project_escrow TO service_role;
+GRANT EXECUTE ON FUNCTION release_project_escrow TO service_role;
+GRANT EXECUTE ON FUNCTION reverse_project_escrow TO service_role;
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+-- Trigger: Fund escrow when a project is marked paid (every payment path
+-- sets is_paid)
+CREATE OR REPLACE FUNCTION fund_escrow_on_payment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM fund_project_escrow(NEW.id);
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_fund_escrow_on_payment ON projects;
+CREATE TRIGGER trg_fund_escrow_on_payment
+  AFTER UPDATE OF is_paid ON projects
+  FOR EACH ROW
+  WHEN (NEW.is_paid AND NOT COALESCE(OLD.is_paid, false))
+  EXECUTE FUNCTION fund_escrow_on_payment();
+
+-- Trigger: Release doer and supervisor earnings when the work is accepted
+-- Replaces the version in 20261019_021: wallets are credited as before (one
+-- wallet_transactions row per recipient, which wallet_balance_trigger
+-- applies; doer_stats_trigger keeps doers.total_earnings) and the escrow is
+-- released in the same transaction.
+CREATE OR REPLACE FUNCTION release_project_earnings()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_doer RECORD;
+  v_supervisor RECORD;
+BEGIN
+  IF NEW.status NOT IN ('completed', 'auto_approved')
+     OR OLD.status IN ('completed', 'auto_approved') THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT id, profile_id INTO v_doer FROM doers WHERE id = NEW.doer_id;
+  SELECT id, profile_id INTO v_supervisor FROM supervisors WHERE id = NEW.supervisor_id;
+
+  IF v_doer.id IS NOT NULL THEN
+    PERFORM credit_project_earning(NEW.id, NEW.project_number, NEW.status,
+      v_doer.profile_id, 'doer', NEW.doer_payout);
+  END IF;
+
+  IF v_supervisor.id IS NOT NULL
+     AND credit_project_earning(NEW.id, NEW.project_number, NEW.status,
+       v_supervisor.profile_id, 'supervisor', NEW.supervisor_commission) IS NOT NULL THEN
+    UPDATE supervisors
+    SET total_earnings = COALESCE(total_earnings, 0) + NEW.supervisor_commission
+    WHERE id = v_supervisor.id;
+  END IF;
+
+  PERFORM release_project_escrow(NEW.id);
+
+  RETURN NULL;
+END;
+$$;
+
+-- Trigger: Reverse escrow when a paid project is cancelled or refunded
+-- Deferred to commit so the project_refunds row written after the status
+-- change by process_project_refund() is visible.
+CREATE OR REPLACE FUNCTION reverse_escrow_on_cancellation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IN ('cancelled', 'refunded') THEN
+    PERFORM reverse_project_escrow(NEW.id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_reverse_escrow_on_cancellation ON projects;
+CREATE CONSTRAINT TRIGGER trg_reverse_escrow_on_cancellation
+  AFTER UPDATE OF status ON projects
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION reverse_escrow_on_cancellation();
+
+-- ============================================================================
+-- READS
+-- ============================================================================
+
+-- Function: Caller's earnings as a doer and/or supervisor
+-- Returns JSON: {available, pending, released, withdrawn}
+--   available - earnings account balance (released minus withdrawn)
+--   pending   - their share of projects whose escrow is still held
+CREATE OR REPLACE FUNCTION get_earnings_balance()
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_profile_id UUID := auth.uid();
+  v_released NUMERIC := 0;
+  v_withdrawn NUMERIC := 0;
+  v_pending NUMERIC := 0;
+BEGIN
+  IF v_profile_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT
+    COALESCE(SUM(l.amount) FILTER (WHERE l.direction = 'credit'), 0),
+    COALESCE(SUM(l.amount) FILTER (WHERE l.direction = 'debit'), 0)
+  INTO v_released, v_withdrawn
+  FROM ledger_lines l
+  JOIN ledger_accounts a ON a.id = l.account_id
+  WHERE a.kind = 'earnings' AND a.profile_id = v_profile_id;
+
+  SELECT COALESCE(SUM(
+    CASE WHEN d.profile_id = v_profile_id THEN COALESCE(p.doer_payout, 0) ELSE 0 END
+    + CASE WHEN s.profile_id = v_profile_id THEN COALESCE(p.supervisor_commission, 0) ELSE 0 END
+  ), 0)
+  INTO v_pending
+  FROM projects p
+  JOIN ledger_accounts a ON a.kind = 'escrow' AND a.project_id = p.id
+  LEFT JOIN doers d ON d.id = p.doer_id
+  LEFT JOIN supervisors s ON s.id = p.supervisor_id
+  WHERE (d.profile_id = v_profile_id OR s.profile_id = v_profile_id)
+    AND ledger_account_balance(a.id) > 0;
+
+  RETURN json_build_object(
+    'available', v_released - v_withdrawn,
+    'pending', v_pending,
+    'released', v_released,
+    'withdrawn', v_withdrawn
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_earnings_balance FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_earnings_balance TO authenticated;
+
+-- Function: Reconciliation report
+-- Returns JSON:
+--   balanced             - total debits equal total credits
+--   total_debits, total_credits
+--   accounts             - [{kind, debits, credits, balance}]
+--   unbalanced_entries   - entries whose own lines don't balance
+--   escrow_mismatches    - projects whose escrow differs from what should be held
+--                          (user_quote while paid and open, 0 once settled)
+--   earnings_mismatches  - profiles whose earnings credits differ from
+--                          project_earnings
+CREATE OR REPLACE FUNCTION get_ledger_reconciliation()
+RETURNS JSON
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH totals AS (
+    SELECT
+      COALESCE(SUM(amount) FILTER (WHERE direction = 'debit'), 0) AS debits,
+      COALESCE(SUM(amount) FILTER (WHERE direction = 'credit'), 0) AS credits
+    FROM ledger_lines
+  ),
+  accounts AS (
+    SELECT
+      a.kind,
+      COALESCE(SUM(l.amount) FILTER (WHERE l.direction = 'debit'), 0) AS debits,
+      COALESCE(SUM(l.amount) FILTER (WHERE l.direction = 'credit'), 0) AS credits
+    FROM ledger_accounts a
+    LEFT JOIN ledger_lines l ON l.account_id = a.id
+    GROUP BY a.kind
+  ),
+  unbalanced AS (
+    SELECT e.id, e.entry_type, e.project_id,
+      SUM(CASE WHEN l.direction = 'debit' THEN l.amount ELSE -l.amount END) AS difference
+    FROM ledger_entries e
+    LEFT JOIN ledger_lines l ON l.entry_id = e.id
+    GROUP BY e.id
+    HAVING COALESCE(SUM(CASE WHEN l.direction = 'debit' THEN l.amount ELSE -l.amount END), 0) <> 0
+       OR COUNT(l.id) = 0
+  ),
+  escrow AS (
+    SELECT
+      p.id AS project_id,
+      p.project_number,
+      p.status,
+      CASE
+        WHEN COALESCE(p.is_paid, false)
+             AND p.status NOT IN ('completed', 'auto_approved', 'cancelled', 'refunded')
+          THEN COALESCE(p.user_quote, 0)
+        ELSE 0
+      END AS expected,
+      COALESCE(ledger_account_balance(a.id), 0) AS held
+    FROM projects p
+    LEFT JOIN ledger_accounts a ON a.kind = 'escrow' AND a.project_id = p.id
+    WHERE a.id IS NOT NULL OR COALESCE(p.is_paid, false)
+  ),
+  earnings AS (
+    SELECT
+      COALESCE(pe.profile_id, la.profile_id) AS profile_id,
+      COALESCE(pe.released, 0) AS expected,
+      COALESCE(la.credited, 0) AS credited
+    FROM (
+      SELECT profile_id, SUM(amount) AS released
+      FROM project_earnings
+      GROUP BY profile_id
+    ) pe
+    FULL JOIN (
+      SELECT a.profile_id, SUM(l.amount) AS credited
+      FROM ledger_accounts a
+      JOIN ledger_lines l ON l.account_id = a.id
+      WHERE a.kind = 'earnings' AND l.direction = 'credit'
+      GROUP BY a.profile_id
+    ) la ON la.profile_id = pe.profile_id
+  )
+  SELECT json_build_object(
+    'generated_at', NOW(),
+    'balanced', (SELECT debits = credits FROM totals)
+      AND NOT EXISTS (SELECT 1 FROM unbalanced),
+    'total_debits', (SELECT debits FROM totals),
+    'total_credits', (SELECT credits FROM totals),
+    'accounts', COALESCE((
+      SELECT json_agg(json_build_object(
+        'kind', kind,
+        'debits', debits,
+        'credits', credits,
+        'balance', credits - debits
+      ) ORDER BY kind)
+      FROM accounts
+    ), '[]'::JSON),
+    'unbalanced_entries', COALESCE((SELECT json_agg(unbalanced) FROM unbalanced), '[]'::JSON),
+    'escrow_mismatches', COALESCE((
+      SELECT json_agg(escrow ORDER BY project_number)
+      FROM escrow
+      WHERE expected <> held
+    ), '[]'::JSON),
+    'earnings_mismatches', COALESCE((
+      SELECT json_agg(earnings)
+      FROM earnings
+      WHERE expected <> credited
+    ), '[]'::JSON)
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_ledger_reconciliation FROM PUBLIC, authenticated, anon;
+GRANT EXECUTE ON FUNCTION get_ledger_reconciliation TO service_role;
+
+-- ============================================================================
+-- BACKFILL
+-- ============================================================================
+
+-- Paid projects still in flight get their escrow
+SELECT fund_project_escrow(id)
+FROM projects
+WHERE COALESCE(is_paid, false)
+  AND status NOT IN ('completed', 'auto_approved', 'cancelled', 'refunded');
+
+-- Earnings released by 20261019_021 before the ledger existed
+SELECT release_project_escrow(project_id)
+FROM (SELECT DISTINCT project_id FROM project_earnings) released;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE ledger_accounts IS 'Double-entry accounts: cash, per-project escrow, per-profile earnings, platform revenue, customer refunds';
+COMMENT ON TABLE ledger_entries IS 'Balanced money movements: escrow funded, released or reversed';
+COMMENT ON TABLE ledger_lines IS 'Debit and credit lines of a ledger entry';
+COMMENT ON FUNCTION get_earnings_balance IS 'Pending and available earnings of the caller, from the ledger';
+COMMENT ON FUNCTION get_ledger_reconciliation IS 'Proves the ledger balances and matches projects and project_earnings';
@@ -0,0 +1,701 @@
+-- ============================================================================
+-- Payout Requests
+-- ============================================================================
+-- Doers and supervisors withdraw their earnings through payout requests:
+--
+--   request_payout()         payee asks for an amount; it is held on the
+--                            wallet (locked_amount) until the payout settles
+--   review_payout_request()  an admin approves it, which creates the payouts
+--                            row with a snapshot of the bank / UPI details,
+--                            or rejects it, which releases the hold
+--   start_payout_batch()     approved payouts go out in a bank (NEFT/IMPS)
+--                            upload file or a UPI batch
+--   set_payout_status()      moves a payout through payout_status:
+--
+--     pending    -> processing   exported in a batch
+--     pending    -> cancelled    releases the hold
+--     processing -> completed    debits the wallet, posts payout_paid to the
+--                                ledger (DR earnings, CR cash)
+--     processing -> failed       releases the hold
+--
+-- payout_requests.status follows the request and then its payout: pending,
+-- approved, rejected, cancelled, processing, completed, failed. Payees are
+-- told about every change through the notification outbox.
+--
+-- Requests must be at least Rs 500, and a payee can request at most
+-- Rs 50,000 in any 7 days (rejected, cancelled and failed requests don't
+-- count). Refused requests come back as errors whose hint is a code from
+-- shared/payouts.ts.
+-- ============================================================================
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+ALTER TABLE payout_requests
+ADD COLUMN IF NOT EXISTS payout_method VARCHAR(20) NOT NULL DEFAULT 'bank_transfer';
+
+ALTER TABLE payout_requests DROP CONSTRAINT IF EXISTS payout_requests_payout_method_check;
+ALTER TABLE payout_requests ADD CONSTRAINT payout_requests_payout_method_check
+  CHECK (payout_method IN ('bank_transfer', 'upi'));
+
+-- NOT VALID: requests written before this migration keep whatever they had
+ALTER TABLE payout_requests DROP CONSTRAINT IF EXISTS payout_requests_status_check;
+ALTER TABLE payout_requests ADD CONSTRAINT payout_requests_status_check
+  CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled', 'processing', 'completed', 'failed'))
+  NOT VALID;
+
+CREATE INDEX IF NOT EXISTS idx_payout_requests_profile_created
+  ON payout_requests(profile_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_payout_requests_status_created
+  ON payout_requests(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_payouts_status_method
+  ON payouts(status, payout_method);
+
+-- Payouts are posted to the ledger once each
+ALTER TABLE ledger_entries
+ADD COLUMN IF NOT EXISTS payout_id UUID REFERENCES payouts(id);
+
+ALTER TABLE ledger_entries DROP CONSTRAINT IF EXISTS ledger_entries_entry_type_check;
+ALTER TABLE ledger_entries ADD CONSTRAINT ledger_entries_entry_type_check
+  CHECK (entry_type IN ('escrow_funded', 'escrow_released', 'escrow_reversed', 'payout_paid'));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ledger_entries_payout
+  ON ledger_entries(payout_id)
+  WHERE payout_id IS NOT NULL;
+
+-- Payees read their own requests and payouts; every write goes through the
+-- functions below so the wallet hold can't be skipped
+ALTER TABLE payout_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payouts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS payout_requests_select_own ON payout_requests;
+CREATE POLICY payout_requests_select_own ON payout_requests
+  FOR SELECT
+  TO authenticated
+  USING (profile_id = auth.uid());
+
+DROP POLICY IF EXISTS payouts_select_own ON payouts;
+CREATE POLICY payouts_select_own ON payouts
+  FOR SELECT
+  TO authenticated
+  USING (recipient_id = auth.uid());
+
+REVOKE INSERT, UPDATE, DELETE ON payout_requests FROM authenticated, anon;
+REVOKE INSERT, UPDATE, DELETE ON payouts FROM authenticated, anon;
+
+-- ============================================================================
+-- LIMITS
+-- ============================================================================
+
+-- Function: Smallest amount a payee can request
+CREATE OR REPLACE FUNCTION payout_minimum_amount()
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 500::NUMERIC;
+$$;
+
+-- Function: Most a payee can request in any 7 days
+CREATE OR REPLACE FUNCTION payout_weekly_limit()
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 50000::NUMERIC;
+$$;
+
+-- Function: What a payee requested in the last 7 days, refused requests aside
+CREATE OR REPLACE FUNCTION payout_requested_this_week(p_profile_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(requested_amount), 0)
+  FROM payout_requests
+  WHERE profile_id = p_profile_id
+    AND created_at > NOW() - INTERVAL '7 days'
+    AND status NOT IN ('rejected', 'cancelled', 'failed');
+$$;
+
+-- ============================================================================
+-- HELPERS
+-- ============================================================================
+
+-- Function: Bank and UPI details of a doer or supervisor
+CREATE OR REPLACE FUNCTION payout_payee_details(p_profile_id UUID, p_requester_type TEXT)
+RETURNS TABLE (
+  bank_account_name TEXT,
+  bank_account_number TEXT,
+  bank_ifsc_code TEXT,
+  bank_name TEXT,
+  upi_id TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT d.bank_account_name, d.bank_account_number, d.bank_ifsc_code, d.bank_name, d.upi_id
+  FROM doers d
+  WHERE p_requester_type = 'doer' AND d.profile_id = p_profile_id
+  UNION ALL
+  SELECT s.bank_account_name, s.bank_account_number, s.bank_ifsc_code, s.bank_name, s.upi_id
+  FROM supervisors s
+  WHERE p_requester_type = 'supervisor' AND s.profile_id = p_profile_id
+  LIMIT 1;
+$$;
+
+-- Function: Release an amount held for a payout
+CREATE OR REPLACE FUNCTION release_payout_hold(p_profile_id UUID, p_amount NUMERIC)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE wallets
+  SET locked_amount = GREATEST(COALESCE(locked_amount, 0) - p_amount, 0),
+      updated_at = NOW()
+  WHERE profile_id = p_profile_id;
+$$;
+
+-- Function: Queue an in-app and push notice about a payout request
+-- Doers follow payouts on their profile, supervisors on the earnings page.
+CREATE OR REPLACE FUNCTION queue_payout_notice(
+  p_request_id UUID,
+  p_event TEXT,
+  p_title TEXT,
+  p_body TEXT
+)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO notification_outbox (
+    event_key, channel, profile_id, category, title, body,
+    action_url, reference_type, reference_id
+  )
+  SELECT 'payout_request:' || r.id || ':' || p_event, channel, r.profile_id, 'status',
+         p_title, p_body,
+         CASE WHEN r.requester_type = 'supervisor' THEN '/earnings' ELSE '/profile' END,
+         'payout_request', r.id
+  FROM payout_requests r
+  CROSS JOIN unnest(ARRAY['in_app', 'push']) AS channel
+  WHERE r.id = p_request_id
+  ON CONFLICT (event_key, channel) DO NOTHING;
+$$;
+
+REVOKE EXECUTE ON FUNCTION payout_requested_this_week FROM PUBLIC, authenticated, anon;
+REVOKE EXECUTE ON FUNCTION payout_payee_details FROM PUBLIC, authenticated, anon;
+REVOKE EXECUTE ON FUNCTION release_payout_hold FROM PUBLIC, authenticated, anon;
+REVOKE EXECUTE ON FUNCTION queue_payout_notice FROM PUBLIC, authenticated, anon;
+GRANT EXECUTE ON FUNCTION payout_requested_this_week TO service_role;
+GRANT EXECUTE ON FUNCTION payout_payee_details TO service_role;
+GRANT EXECUTE ON FUNCTION release_payout_hold TO service_role;
+GRANT EXECUTE ON FUNCTION queue_payout_notice TO service_role;
+
+-- ============================================================================
+-- REQUESTS
+-- ============================================================================
+
+-- Function: Request a payout of the caller's earnings
+-- p_method defaults to bank transfer when bank details are on file, else UPI.
+-- Returns JSON: {id, status, requested_amount, payout_method, weekly_remaining}
+CREATE OR REPLACE FUNCTION request_payout(
+  p_amount NUMERIC,
+  p_method TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_profile_id UUID := auth.uid();
+  v_requester_type TEXT;
+  v_details RECORD;
+  v_has_bank BOOLEAN;
+  v_has_upi BOOLEAN;
+  v_method TEXT := p_method;
+  v_wallet RECORD;
+  v_available NUMERIC;
+  v_requested NUMERIC;
+  v_request_id UUID;
+BEGIN
+  IF v_profile_id IS NULL THEN
+    RAISE EXCEPTION 'Please sign in again to request a payout'
+      USING ERRCODE = 'insufficient_privilege', HINT = 'not_authenticated';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM doers WHERE profile_id = v_profile_id) THEN
+    v_requester_type := 'doer';
+  ELSIF EXISTS (SELECT 1 FROM supervisors WHERE profile_id = v_profile_id) THEN
+    v_requester_type := 'supervisor';
+  ELSE
+    RAISE EXCEPTION 'Only doers and supervisors can request payouts'
+      USING ERRCODE = 'insufficient_privilege', HINT = 'not_a_payee';
+  END IF;
+
+  SELECT * INTO v_details FROM payout_payee_details(v_profile_id, v_requester_type);
+  v_has_bank := COALESCE(v_details.bank_account_name, '') <> ''
+    AND COALESCE(v_details.bank_account_number, '') <> ''
+    AND COALESCE(v_details.bank_ifsc_code, '') <> '';
+  v_has_upi := COALESCE(v_details.upi_id, '') <> '';
+
+  v_method := COALESCE(v_method, CASE WHEN NOT v_has_bank AND v_has_upi THEN 'upi' ELSE 'bank_transfer' END);
+
+  IF v_method NOT IN ('bank_transfer', 'upi') THEN
+    RAISE EXCEPTION 'Unknown payout method %', v_method;
+  END IF;
+
+  IF (v_method = 'bank_transfer' AND NOT v_has_bank) OR (v_method = 'upi' AND NOT v_has_upi) THEN
+    RAISE EXCEPTION '%', CASE WHEN v_method = 'upi'
+        THEN 'Add your UPI ID before requesting a payout'
+        ELSE 'Add your bank details before requesting a payout'
+      END
+      USING HINT = 'missing_payout_details', DETAIL = v_method;
+  END IF;
+
+  IF COALESCE(p_amount, 0) < payout_minimum_amount() THEN
+    RAISE EXCEPTION 'The minimum payout is Rs %', payout_minimum_amount()
+      USING HINT = 'below_minimum';
+  END IF;
+
+  -- The wallet lock also serialises concurrent requests for the weekly limit
+  SELECT id, balance, COALESCE(locked_amount, 0) AS locked_amount INTO v_wallet
+  FROM wallets
+  WHERE profile_id = v_profile_id
+  FOR UPDATE;
+
+  v_available := COALESCE(v_wallet.balance, 0) - COALESCE(v_wallet.locked_amount, 0);
+
+  IF v_wallet.id IS NULL OR p_amount > v_available THEN
+    RAISE EXCEPTION 'You can withdraw up to Rs %', GREATEST(v_available, 0)
+      USING HINT = 'insufficient_balance', DETAIL = GREATEST(v_available, 0)::TEXT;
+  END IF;
+
+  v_requested := payout_requested_this_week(v_profile_id);
+
+  IF v_requested + p_amount > payout_weekly_limit() THEN
+    RAISE EXCEPTION 'You can request up to Rs % more this week',
+        GREATEST(payout_weekly_limit() - v_requested, 0)
+      USING HINT = 'weekly_limit_exceeded',
+            DETAIL = GREATEST(payout_weekly_limit() - v_requested, 0)::TEXT;
+  END IF;
+
+  INSERT INTO payout_requests (profile_id, requester_type, requested_amount, payout_method, status)
+  VALUES (v_profile_id, v_requester_type, p_amount, v_method, 'pending')
+  RETURNING id INTO v_request_id;
+
+  UPDATE wallets
+  SET locked_amount = v_wallet.locked_amount + p_amount,
+      updated_at = NOW()
+  WHERE id = v_wallet.id;
+
+  RETURN json_build_object(
+    'id', v_request_id,
+    'status', 'pending',
+    'requested_amount', p_amount,
+    'payout_method', v_method,
+    'weekly_remaining', payout_weekly_limit() - v_requested - p_amount
+  );
+END;
+$$;
+
+-- Function: Withdraw one of the caller's requests before it is reviewed
+CREATE OR REPLACE FUNCTION cancel_payout_request(p_request_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request payout_requests%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Please sign in again to cancel this payout'
+      USING ERRCODE = 'insufficient_privilege', HINT = 'not_authenticated';
+  END IF;
+
+  SELECT * INTO v_request
+  FROM payout_requests
+  WHERE id = p_request_id AND profile_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payout request not found'
+      USING HINT = 'request_not_found';
+  END IF;
+
+  IF v_request.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only payouts waiting for review can be cancelled'
+      USING HINT = 'illegal_transition', DETAIL = v_request.status;
+  END IF;
+
+  UPDATE payout_requests
+  SET status = 'cancelled',
+      updated_at = NOW()
+  WHERE id = p_request_id;
+
+  PERFORM release_payout_hold(v_request.profile_id, v_request.requested_amount);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION request_payout FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION cancel_payout_request FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION request_payout TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_payout_request TO authenticated;
+
+-- ============================================================================
+-- ADMIN PROCESSING
+-- ============================================================================
+
+-- Function: Approve or reject a pending request
+-- p_reviewer_id is the admin's profile id. Approving snapshots the payee's
+-- bank / UPI details into a pending payout; rejecting needs a reason and
+-- releases the hold.
+-- Returns JSON: {status, payout_id}
+CREATE OR REPLACE FUNCTION review_payout_request(
+  p_request_id UUID,
+  p_reviewer_id UUID,
+  p_approve BOOLEAN,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_admin_id UUID;
+  v_request payout_requests%ROWTYPE;
+  v_details RECORD;
+  v_payout_id UUID;
+BEGIN
+  SELECT id INTO v_admin_id FROM admins WHERE profile_id = p_reviewer_id;
+
+  IF v_admin_id IS NULL THEN
+    RAISE EXCEPTION 'Only admins can review payouts'
+      USING ERRCODE = 'insufficient_privilege', HINT = 'not_an_admin';
+  END IF;
+
+  SELECT * INTO v_request FROM payout_requests WHERE id = p_request_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payout request not found'
+      USING HINT = 'request_not_found';
+  END IF;
+
+  IF v_request.status <> 'pending' THEN
+    RAISE EXCEPTION 'This request was already %', v_request.status
+      USING HINT = 'illegal_transition', DETAIL = v_request.status;
+  END IF;
+
+  IF NOT p_approve THEN
+    IF COALESCE(TRIM(p_reason), '') = '' THEN
+      RAISE EXCEPTION 'Give the payee a reason for the rejection'
+        USING HINT = 'reason_required';
+    END IF;
+
+    UPDATE payout_requests
+    SET status = 'rejected',
+        rejection_reason = TRIM(p_reason),
+        reviewed_at = NOW(),
+        reviewed_by = v_admin_id,
+        updated_at = NOW()
+    WHERE id = p_request_id;
+
+    PERFORM release_payout_hold(v_request.profile_id, v_request.requested_amount);
+    PERFORM queue_payout_notice(p_request_id, 'rejected',
+      'Payout request declined',
+      format('Your payout of Rs %s was declined: %s. The amount is back in your balance.',
+        v_request.requested_amount, TRIM(p_reason)));
+
+    RETURN json_build_object('status', 'rejected', 'payout_id', NULL);
+  END IF;
+
+  SELECT * INTO v_details FROM payout_payee_details(v_request.profile_id, v_request.requester_type);
+
+  IF (v_request.payout_method = 'bank_transfer'
+      AND (COALESCE(v_details.bank_account_number, '') = '' OR COALESCE(v_details.bank_ifsc_code, '') = ''))
+     OR (v_request.payout_method = 'upi' AND COALESCE(v_details.upi_id, '') = '') THEN
+    RAISE EXCEPTION 'The payee has removed their % details', CASE
+        WHEN v_request.payout_method = 'upi' THEN 'UPI' ELSE 'bank'
+      END
+      USING HINT = 'missing_payout_details', DETAIL = v_request.payout_method;
+  END IF;
+
+  INSERT INTO payouts (
+    recipient_id,
+    recipient_type,
+    amount,
+    payout_method,
+    bank_account_name,
+    bank_account_number,
+    bank_ifsc_code,
+    bank_name,
+    upi_id,
+    status,
+    reference_type,
+    reference_ids,
+    requested_at
+  ) VALUES (
+    v_request.profile_id,
+    v_request.requester_type,
+    v_request.requested_amount,
+    v_request.payout_method,
+    CASE WHEN v_request.payout_method = 'bank_transfer' THEN v_details.bank_account_name END,
+    CASE WHEN v_request.payout_method = 'bank_transfer' THEN v_details.bank_account_number END,
+    CASE WHEN v_request.payout_method = 'bank_transfer' THEN UPPER(v_details.bank_ifsc_code) END,
+    CASE WHEN v_request.payout_method = 'bank_transfer' THEN v_details.bank_name END,
+    CASE WHEN v_request.payout_method = 'upi' THEN v_details.upi_id END,
+    'pending',
+    'payout_request',
+    ARRAY[v_request.id::TEXT],
+    v_request.created_at
+  ) RETURNING id INTO v_payout_id;
+
+  UPDATE payout_requests
+  SET status = 'approved',
+      approved_amount = requested_amount,
+      payout_id = v_payout_id,
+      reviewed_at = NOW(),
+      reviewed_by = v_admin_id,
+      updated_at = NOW()
+  WHERE id = p_request_id;
+
+  PERFORM queue_payout_notice(p_request_id, 'approved',
+    'Payout approved',
+    format('Your payout of Rs %s was approved and will go out with the next %s batch.',
+      v_request.requested_amount,
+      CASE WHEN v_request.payout_method = 'upi' THEN 'UPI' ELSE 'bank transfer' END));
+
+  RETURN json_build_object('status', 'approved', 'payout_id', v_payout_id);
+END;
+$$;
+
+-- Function: Move a payout to the next payout_status
+-- p_reference is the bank UTR or UPI reference on completion; p_failure_reason
+-- is required when the payout failed.
+-- Returns JSON: {payout_id, status, wallet_transaction_id}
+CREATE OR REPLACE FUNCTION set_payout_status(
+  p_payout_id UUID,
+  p_status payout_status,
+  p_reference TEXT DEFAULT NULL,
+  p_failure_reason TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payout payouts%ROWTYPE;
+  v_request_id UUID;
+  v_wallet RECORD;
+  v_transaction_id UUID;
+  v_entry_id UUID;
+  v_destination TEXT;
+BEGIN
+  SELECT * INTO v_payout FROM payouts WHERE id = p_payout_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payout not found'
+      USING HINT = 'request_not_found';
+  END IF;
+
+  IF NOT (
+    (v_payout.status = 'pending' AND p_status IN ('processing', 'cancelled'))
+    OR (v_payout.status = 'processing' AND p_status IN ('completed', 'failed'))
+  ) THEN
+    RAISE EXCEPTION 'A payout can''t move from % to %', v_payout.status, p_status
+      USING HINT = 'illegal_transition', DETAIL = format('%s -> %s', v_payout.status, p_status);
+  END IF;
+
+  IF p_status = 'failed' AND COALESCE(TRIM(p_failure_reason), '') = '' THEN
+    RAISE EXCEPTION 'Record why the payout failed'
+      USING HINT = 'reason_required';
+  END IF;
+
+  SELECT id INTO v_request_id FROM payout_requests WHERE payout_id = p_payout_id;
+
+  v_destination := CASE
+    WHEN v_payout.payout_method = 'upi' THEN v_payout.upi_id
+    ELSE 'account ending ' || RIGHT(COALESCE(v_payout.bank_account_number, ''), 4)
+  END;
+
+  IF p_status = 'completed' THEN
+    SELECT id, balance INTO v_wallet
+    FROM wallets
+    WHERE profile_id = v_payout.recipient_id
+    FOR UPDATE;
+
+    IF v_wallet.id IS NULL OR v_wallet.balance < v_payout.amount THEN
+      RAISE EXCEPTION 'Wallet balance is below the payout amount for profile %', v_payout.recipient_id;
+    END IF;
+
+    UPDATE wallets
+    SET balance = balance - v_payout.amount,
+        locked_amount = GREATEST(COALESCE(locked_amount, 0) - v_payout.amount, 0),
+        total_debited = COALESCE(total_debited, 0) + v_payout.amount,
+        total_withdrawn = COALESCE(total_withdrawn, 0) + v_payout.amount,
+        updated_at = NOW()
+    WHERE id = v_wallet.id;
+
+    INSERT INTO wallet_transactions (
+      wallet_id,
+      transaction_type,
+      amount,
+      balance_before,
+      balance_after,
+      reference_type,
+      reference_id,
+      description,
+      status
+    ) VALUES (
+      v_wallet.id,
+      'withdrawal',
+      v_payout.amount,
+      v_wallet.balance,
+      v_wallet.balance - v_payout.amount,
+      'payout',
+      v_payout.id,
+      'Payout to ' || v_destination,
+      'completed'
+    ) RETURNING id INTO v_transaction_id;
+
+    v_entry_id := post_ledger_entry('payout_paid', NULL, 'Payout to ' || v_destination, jsonb_build_array(
+      ledger_line(ledger_account_id('earnings', NULL, v_payout.recipient_id), 'debit', v_payout.amount, v_transaction_id),
+      ledger_line(ledger_account_id('cash'), 'credit', v_payout.amount)
+    ));
+
+    UPDATE ledger_entries SET payout_id = v_payout.id WHERE id = v_entry_id;
+  ELSIF p_status IN ('failed', 'cancelled') THEN
+    PERFORM release_payout_hold(v_payout.recipient_id, v_payout.amount);
+  END IF;
+
+  UPDATE payouts
+  SET status = p_status,
+      processed_at = CASE WHEN p_status = 'processing' THEN NOW() ELSE processed_at END,
+      completed_at = CASE WHEN p_status = 'completed' THEN NOW() ELSE completed_at END,
+      gateway_reference = COALESCE(NULLIF(TRIM(p_reference), ''), gateway_reference),
+      failure_reason = CASE WHEN p_status = 'failed' THEN TRIM(p_failure_reason) ELSE failure_reason END,
+      updated_at = NOW()
+  WHERE id = p_payout_id;
+
+  UPDATE payout_requests
+  SET status = p_status::TEXT,
+      updated_at = NOW()
+  WHERE id = v_request_id;
+
+  IF v_request_id IS NOT NULL THEN
+    CASE p_status
+      WHEN 'processing' THEN
+        PERFORM queue_payout_notice(v_request_id, 'processing',
+          'Payout on its way',
+          format('Your payout of Rs %s has been sent to the bank for processing.', v_payout.amount));
+      WHEN 'completed' THEN
+        PERFORM queue_payout_notice(v_request_id, 'completed',
+          'Payout sent',
+          format('Rs %s was paid to your %s.%s', v_payout.amount, v_destination,
+            COALESCE(' Reference: ' || NULLIF(TRIM(p_reference), ''), '')));
+      WHEN 'failed' THEN
+        PERFORM queue_payout_notice(v_request_id, 'failed',
+          'Payout failed',
+          format('Your payout of Rs %s failed: %s. The amount is back in your balance; check your payout details and request again.',
+            v_payout.amount, TRIM(p_failure_reason)));
+      WHEN 'cancelled' THEN
+        PERFORM queue_payout_notice(v_request_id, 'cancelled',
+          'Payout cancelled',
+          format('Your payout of Rs %s was cancelled and the amount is back in your balance.', v_payout.amount));
+      ELSE
+        NULL;
+    END CASE;
+  END IF;
+
+  RETURN json_build_object(
+    'payout_id', p_payout_id,
+    'status', p_status,
+    'wallet_transaction_id', v_transaction_id
+  );
+END;
+$$;
+
+-- Function: Put approved payouts of one method into an export batch
+-- Moves each pending payout to processing under p_batch_reference and returns
+-- the payouts actually taken, so a batch never pays anyone twice.
+CREATE OR REPLACE FUNCTION start_payout_batch(
+  p_payout_ids UUID[],
+  p_method TEXT,
+  p_batch_reference TEXT
+)
+RETURNS SETOF payouts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payout_id UUID;
+BEGIN
+  FOR v_payout_id IN
+    SELECT id
+    FROM payouts
+    WHERE id = ANY (p_payout_ids)
+      AND status = 'pending'
+      AND payout_method = p_method
+    ORDER BY requested_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE payouts
+    SET gateway = CASE WHEN p_method = 'upi' THEN 'upi_batch' ELSE 'bank_file' END,
+        gateway_payout_id = p_batch_reference
+    WHERE id = v_payout_id;
+
+    PERFORM set_payout_status(v_payout_id, 'processing');
+  END LOOP;
+
+  RETURN QUERY
+  SELECT *
+  FROM payouts
+  WHERE gateway_payout_id = p_batch_reference
+  ORDER BY requested_at;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION review_payout_request FROM PUBLIC, authenticated, anon;
+REVOKE EXECUTE ON FUNCTION set_payout_status FROM PUBLIC, authenticated, anon;
+REVOKE EXECUTE ON FUNCTION start_payout_batch FROM PUBLIC, authenticated, anon;
+GRANT EXECUTE ON FUNCTION review_payout_request TO service_role;
+GRANT EXECUTE ON FUNCTION set_payout_status TO service_role;
+GRANT EXECUTE ON FUNCTION start_payout_batch TO service_role;
+
+-- ============================================================================
+-- BACKFILL
+-- ============================================================================
+
+-- Requests written before holds existed: hold what is still open
+UPDATE wallets w
+SET locked_amount = held.amount,
+    updated_at = NOW()
+FROM (
+  SELECT profile_id, SUM(COALESCE(approved_amount, requested_amount)) AS amount
+  FROM payout_requests
+  WHERE status IN ('pending', 'approved', 'processing')
+  GROUP BY profile_id
+) held
+WHERE w.profile_id = held.profile_id;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON COLUMN payout_requests.payout_method IS 'bank_transfer or upi; the payout snapshots the matching details on approval';
+COMMENT ON COLUMN ledger_entries.payout_id IS 'Payout a payout_paid entry records';
+COMMENT ON FUNCTION request_payout IS 'Requests a payout of the caller''s earnings and holds the amount on their wallet';
+COMMENT ON FUNCTION review_payout_request IS 'Admin approval or rejection of a pending payout request';
+COMMENT ON FUNCTION set_payout_status IS 'Moves a payout through payout_status and settles the wallet and ledger';
+COMMENT ON FUNCTION start_payout_batch IS 'Marks approved payouts as processing under one bank or UPI export batch';
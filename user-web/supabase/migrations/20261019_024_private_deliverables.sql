@@ -0,0 +1,169 @@
+-- ============================================================================
+-- Private Deliverables
+-- ============================================================================
+-- Deliverables used to be saved with a public URL, so anyone holding the link
+-- could download a finished paper before QC or before the student paid. The
+-- deliverables bucket is now private:
+--
+--   project_deliverables.file_url      object path in the deliverables bucket
+--                                      (public URLs are rewritten below)
+--   project_deliverables.preview_url   object path of the watermarked preview
+--                                      in the deliverable-previews bucket
+--
+-- Files are only handed out as short-lived signed URLs by the apps' servers
+-- (user-web: GET /api/deliverables/[id]). The doer, the project's supervisor
+-- and admins get the file; the student gets the preview of QC-approved
+-- versions while reviewing, and the file once the project is completed or
+-- auto-approved and paid (shared/deliverable-access.ts). Every link handed
+-- out is logged in deliverable_downloads.
+--
+-- Previews (the first pages with a "PREVIEW - AssignX" watermark) are
+-- rendered on first request; preview_status records the outcome.
+-- ============================================================================
+
+-- ============================================================================
+-- STORAGE
+-- ============================================================================
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('deliverables', 'deliverables', false)
+ON CONFLICT (id) DO UPDATE SET public = false;
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('deliverable-previews', 'deliverable-previews', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Read policies on the bucket would let clients sign their own URLs
+DO $$
+DECLARE
+  v_policy RECORD;
+BEGIN
+  FOR v_policy IN
+    SELECT policyname
+    FROM pg_policies
+    WHERE schemaname = 'storage'
+      AND tablename = 'objects'
+      AND cmd IN ('SELECT', 'ALL')
+      AND (qual ILIKE '%''deliverables''%' OR with_check ILIKE '%''deliverables''%')
+  LOOP
+    EXECUTE format('DROP POLICY %I ON storage.objects', v_policy.policyname);
+  END LOOP;
+END $$;
+
+-- Doers upload into the folder of a project assigned to them ({project_id}/...)
+DROP POLICY IF EXISTS "Doers upload deliverables to assigned projects" ON storage.objects;
+CREATE POLICY "Doers upload deliverables to assigned projects"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'deliverables'
+    AND EXISTS (
+      SELECT 1
+      FROM projects p
+      JOIN doers d ON d.id = p.doer_id
+      WHERE p.id::text = (storage.foldername(name))[1]
+        AND d.profile_id = auth.uid()
+    )
+  );
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+ALTER TABLE project_deliverables
+ADD COLUMN IF NOT EXISTS preview_url TEXT,
+ADD COLUMN IF NOT EXISTS preview_status VARCHAR(20) NOT NULL DEFAULT 'pending',
+ADD COLUMN IF NOT EXISTS preview_generated_at TIMESTAMPTZ;
+
+ALTER TABLE project_deliverables DROP CONSTRAINT IF EXISTS project_deliverables_preview_status_check;
+ALTER TABLE project_deliverables ADD CONSTRAINT project_deliverables_preview_status_check
+  CHECK (preview_status IN ('pending', 'ready', 'unsupported', 'failed'));
+
+CREATE TABLE IF NOT EXISTS deliverable_downloads (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  deliverable_id UUID NOT NULL REFERENCES project_deliverables(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  profile_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  viewer_role VARCHAR(20) NOT NULL CHECK (viewer_role IN ('user', 'doer', 'supervisor', 'admin')),
+  kind VARCHAR(20) NOT NULL CHECK (kind IN ('file', 'preview')),
+  ip_address TEXT,
+  user_agent TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_deliverable_downloads_deliverable
+  ON deliverable_downloads(deliverable_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_deliverable_downloads_profile
+  ON deliverable_downloads(profile_id, created_at DESC);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+-- Written by the apps' servers with the service role only
+ALTER TABLE deliverable_downloads ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Supervisors view downloads of their projects" ON deliverable_downloads;
+CREATE POLICY "Supervisors view downloads of their projects"
+  ON deliverable_downloads FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM projects p
+      JOIN supervisors s ON s.id = p.supervisor_id
+      WHERE p.id = deliverable_downloads.project_id
+        AND s.profile_id = auth.uid()
+    )
+  );
+
+REVOKE INSERT, UPDATE, DELETE ON deliverable_downloads FROM authenticated, anon;
+
+-- ============================================================================
+-- BACKFILL
+-- ============================================================================
+
+-- Function: Percent-decode a URL path, like decodeURIComponent()
+-- Only needed here, so it lives in the session's temporary schema.
+CREATE OR REPLACE FUNCTION pg_temp.decode_url_path(p_path TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_bytes BYTEA := ''::BYTEA;
+  v_position INT := 1;
+  v_char TEXT;
+BEGIN
+  WHILE v_position <= length(p_path) LOOP
+    v_char := substr(p_path, v_position, 1);
+    IF v_char = '%' AND substr(p_path, v_position + 1, 2) ~ '^[0-9A-Fa-f]{2}$' THEN
+      v_bytes := v_bytes || decode(substr(p_path, v_position + 1, 2), 'hex');
+      v_position := v_position + 3;
+    ELSE
+      v_bytes := v_bytes || convert_to(v_char, 'UTF8');
+      v_position := v_position + 1;
+    END IF;
+  END LOOP;
+
+  RETURN convert_from(v_bytes, 'UTF8');
+END;
+$$;
+
+-- Public URLs become object paths, decoded the same way as
+-- deliverableObjectPath() in shared/deliverable-access.ts
+UPDATE project_deliverables
+SET file_url = pg_temp.decode_url_path(split_part(
+  regexp_replace(file_url, '^.*/storage/v1/object/public/deliverables/', ''),
+  '?',
+  1
+))
+WHERE file_url LIKE '%/storage/v1/object/public/deliverables/%';
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON COLUMN project_deliverables.file_url IS 'Object path in the private deliverables bucket';
+COMMENT ON COLUMN project_deliverables.preview_url IS 'Object path of the watermarked preview in the deliverable-previews bucket';
+COMMENT ON COLUMN project_deliverables.preview_status IS 'pending until first requested, then ready, unsupported (no readable text) or failed';
+COMMENT ON TABLE deliverable_downloads IS 'Every signed deliverable or preview link handed out, with who asked for it';
@@ -196,7 +196,12 @@ export interface DBCampusConnectPost {
   views_count: number;
   location: string | null;
   event_date: string | null;
+  event_end_date: string | null;
   event_venue: string | null;
+  event_capacity: number | null;
+  rsvp_going_count: number;
+  rsvp_interested_count: number;
+  rsvp_waitlist_count: number;
   deadline: string | null;
   price: number | null;
   created_at: string;
@@ -293,9 +298,67 @@ export interface CampusConnectPost {
   // Optional fields for specific categories
   location?: string | null;
   eventDate?: string | null;
+  eventEndDate?: string | null;
   eventVenue?: string | null;
+  /** Seats for "going"; null means unlimited */
+  eventCapacity?: number | null;
+  /** Responses to an event (events only) */
+  rsvpCounts?: EventRsvpCounts;
+  /** The viewer's response to an event (set on the detail page) */
+  myRsvp?: EventRsvpStatus | null;
   deadline?: string | null;
   price?: number | null;
+  /** Matched terms in the title / content, set on search results */
+  highlight?: CampusConnectHighlight | null;
+}
+
+/**
+ * Start / end of a matched term in a search highlight.
+ * Control characters rather than HTML, so post text is never rendered as markup.
+ */
+export const HIGHLIGHT_START = "\u0002";
+export const HIGHLIGHT_END = "\u0003";
+
+/**
+ * Highlighted snippets for a search result
+ */
+export interface CampusConnectHighlight {
+  title: string;
+  content: string;
+}
+
+/**
+ * Response to an event. "waitlisted" is assigned when a full event is asked for.
+ */
+export type EventRsvpStatus = "going" | "interested" | "not_going" | "waitlisted";
+
+/**
+ * Number of responses to an event
+ */
+export interface EventRsvpCounts {
+  going: number;
+  interested: number;
+  waitlisted: number;
+}
+
+/**
+ * Outcome of responding to an event
+ */
+export interface EventRsvpResult {
+  status: EventRsvpStatus;
+  counts: EventRsvpCounts;
+}
+
+/**
+ * Someone who responded to an event, for the organiser
+ */
+export interface EventAttendee {
+  userId: string;
+  name: string;
+  avatar: string | null;
+  isVerified: boolean;
+  status: EventRsvpStatus;
+  respondedAt: string;
 }
 
 /**
@@ -328,7 +391,8 @@ export interface CampusConnectFilters {
   category?: CampusConnectCategory | "all";
   universityId?: string | null;
   search?: string;
-  sortBy?: "recent" | "popular" | "most_comments";
+  /** "relevance" only applies when searching; the feed falls back to "recent" */
+  sortBy?: "relevance" | "recent" | "popular" | "most_comments";
   limit?: number;
   offset?: number;
   /**
@@ -336,6 +400,24 @@ export interface CampusConnectFilters {
    * Used for non-student users who should not see housing listings.
    */
   excludeHousing?: boolean;
+  /** Only posts with an event_date on or after this ISO timestamp */
+  eventDateFrom?: string;
+  /** Only posts with an event_date on or before this ISO timestamp */
+  eventDateTo?: string;
+  /** Only posts with a price of at least this amount (INR) */
+  minPrice?: number;
+  /** Only posts with a price of at most this amount (INR) */
+  maxPrice?: number;
+}
+
+/**
+ * A page of the "For you" feed
+ */
+export interface CampusConnectFeedPage {
+  data: CampusConnectPost[];
+  /** Pass back to get the next page; null once the feed is exhausted */
+  nextCursor: string | null;
+  error: string | null;
 }
 
 /**
@@ -348,7 +430,10 @@ export interface CreatePostInput {
   imageUrls?: string[];
   location?: string;
   eventDate?: string;
+  eventEndDate?: string;
   eventVenue?: string;
+  /** Seats for an event; omit for unlimited */
+  eventCapacity?: number;
   deadline?: string;
   price?: number;
 }
@@ -413,7 +498,16 @@ export function transformDBPostToUI(
     timeAgo: formatDistanceToNow(new Date(dbPost.created_at), { addSuffix: true }),
     location: dbPost.location,
     eventDate: dbPost.event_date,
+    eventEndDate: dbPost.event_end_date,
     eventVenue: dbPost.event_venue,
+    eventCapacity: dbPost.event_capacity,
+    rsvpCounts: dbPost.category === "events"
+      ? {
+          going: dbPost.rsvp_going_count,
+          interested: dbPost.rsvp_interested_count,
+          waitlisted: dbPost.rsvp_waitlist_count,
+        }
+      : undefined,
     deadline: dbPost.deadline,
     price: dbPost.price,
   };
@@ -529,6 +529,64 @@ export type Database = {
         }
         Relationships: []
       }
+      deliverable_downloads: {
+        Row: {
+          created_at: string
+          deliverable_id: string
+          id: string
+          ip_address: string | null
+          kind: string
+          profile_id: string
+          project_id: string
+          user_agent: string | null
+          viewer_role: string
+        }
+        Insert: {
+          created_at?: string
+          deliverable_id: string
+          id?: string
+          ip_address?: string | null
+          kind: string
+          profile_id: string
+          project_id: string
+          user_agent?: string | null
+          viewer_role: string
+        }
+        Update: {
+          created_at?: string
+          deliverable_id?: string
+          id?: string
+          ip_address?: string | null
+          kind?: string
+          profile_id?: string
+          project_id?: string
+          user_agent?: string | null
+          viewer_role?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "deliverable_downloads_deliverable_id_fkey"
+            columns: ["deliverable_id"]
+            isOneToOne: false
+            referencedRelation: "project_deliverables"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "deliverable_downloads_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "deliverable_downloads_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       doer_activation: {
         Row: {
           activated_at: string | null
@@ -1189,36 +1247,55 @@ export type Database = {
       }
       listing_inquiries: {
         Row: {
+          chat_room_id: string | null
           created_at: string | null
           id: string
           inquirer_id: string
+          last_message_at: string | null
           listing_id: string
           message: string | null
           responded_at: string | null
           response: string | null
+          seller_id: string | null
           status: string | null
+          updated_at: string | null
         }
         Insert: {
+          chat_room_id?: string | null
           created_at?: string | null
           id?: string
           inquirer_id: string
+          last_message_at?: string | null
           listing_id: string
           message?: string | null
           responded_at?: string | null
           response?: string | null
+          seller_id?: string | null
           status?: string | null
+          updated_at?: string | null
         }
         Update: {
+          chat_room_id?: string | null
           created_at?: string | null
           id?: string
           inquirer_id?: string
+          last_message_at?: string | null
           listing_id?: string
           message?: string | null
           responded_at?: string | null
           response?: string | null
+          seller_id?: string | null
           status?: string | null
+          updated_at?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "listing_inquiries_chat_room_id_fkey"
+            columns: ["chat_room_id"]
+            isOneToOne: false
+            referencedRelation: "chat_rooms"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "listing_inquiries_inquirer_id_fkey"
             columns: ["inquirer_id"]
@@ -1233,6 +1310,81 @@ export type Database = {
             referencedRelation: "marketplace_listings"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "listing_inquiries_seller_id_fkey"
+            columns: ["seller_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      listing_offers: {
+        Row: {
+          amount: number
+          created_at: string | null
+          id: string
+          inquiry_id: string
+          listing_id: string
+          message: string | null
+          offered_by: string
+          parent_offer_id: string | null
+          responded_at: string | null
+          status: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string | null
+          id?: string
+          inquiry_id: string
+          listing_id: string
+          message?: string | null
+          offered_by: string
+          parent_offer_id?: string | null
+          responded_at?: string | null
+          status?: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string | null
+          id?: string
+          inquiry_id?: string
+          listing_id?: string
+          message?: string | null
+          offered_by?: string
+          parent_offer_id?: string | null
+          responded_at?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "listing_offers_inquiry_id_fkey"
+            columns: ["inquiry_id"]
+            isOneToOne: false
+            referencedRelation: "listing_inquiries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "listing_offers_listing_id_fkey"
+            columns: ["listing_id"]
+            isOneToOne: false
+            referencedRelation: "marketplace_listings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "listing_offers_offered_by_fkey"
+            columns: ["offered_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "listing_offers_parent_offer_id_fkey"
+            columns: ["parent_offer_id"]
+            isOneToOne: false
+            referencedRelation: "listing_offers"
+            referencedColumns: ["id"]
+          },
         ]
       }
       marketplace_categories: {
@@ -1317,6 +1469,7 @@ export type Database = {
       }
       marketplace_listings: {
         Row: {
+          accepted_offer_id: string | null
           application_deadline: string | null
           available_from: string | null
           bedrooms: number | null
@@ -1345,6 +1498,7 @@ export type Database = {
           price_negotiable: boolean | null
           rejection_reason: string | null
           rent_period: string | null
+          reserved_for: string | null
           reviewed_at: string | null
           reviewed_by: string | null
           seller_id: string
@@ -1356,6 +1510,7 @@ export type Database = {
           view_count: number | null
         }
         Insert: {
+          accepted_offer_id?: string | null
           application_deadline?: string | null
           available_from?: string | null
           bedrooms?: number | null
@@ -1384,6 +1539,7 @@ export type Database = {
           price_negotiable?: boolean | null
           rejection_reason?: string | null
           rent_period?: string | null
+          reserved_for?: string | null
           reviewed_at?: string | null
           reviewed_by?: string | null
           seller_id: string
@@ -1395,6 +1551,7 @@ export type Database = {
           view_count?: number | null
         }
         Update: {
+          accepted_offer_id?: string | null
           application_deadline?: string | null
           available_from?: string | null
           bedrooms?: number | null
@@ -1423,6 +1580,7 @@ export type Database = {
           price_negotiable?: boolean | null
           rejection_reason?: string | null
           rent_period?: string | null
+          reserved_for?: string | null
           reviewed_at?: string | null
           reviewed_by?: string | null
           seller_id?: string
@@ -1464,6 +1622,108 @@ export type Database = {
           },
         ]
       }
+      marketplace_saved_search_matches: {
+        Row: {
+          listing_id: string
+          matched_at: string
+          notified_at: string | null
+          search_id: string
+        }
+        Insert: {
+          listing_id: string
+          matched_at?: string
+          notified_at?: string | null
+          search_id: string
+        }
+        Update: {
+          listing_id?: string
+          matched_at?: string
+          notified_at?: string | null
+          search_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "marketplace_saved_search_matches_listing_id_fkey"
+            columns: ["listing_id"]
+            isOneToOne: false
+            referencedRelation: "marketplace_listings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "marketplace_saved_search_matches_search_id_fkey"
+            columns: ["search_id"]
+            isOneToOne: false
+            referencedRelation: "marketplace_saved_searches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      marketplace_saved_searches: {
+        Row: {
+          alert_mode: string
+          created_at: string | null
+          housing_types: string[] | null
+          id: string
+          item_conditions: string[] | null
+          keywords: string | null
+          last_digest_at: string | null
+          listing_types: Database["public"]["Enums"]["listing_type"][] | null
+          max_price: number | null
+          min_price: number | null
+          name: string
+          profile_id: string
+          university_id: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          alert_mode?: string
+          created_at?: string | null
+          housing_types?: string[] | null
+          id?: string
+          item_conditions?: string[] | null
+          keywords?: string | null
+          last_digest_at?: string | null
+          listing_types?: Database["public"]["Enums"]["listing_type"][] | null
+          max_price?: number | null
+          min_price?: number | null
+          name: string
+          profile_id: string
+          university_id?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          alert_mode?: string
+          created_at?: string | null
+          housing_types?: string[] | null
+          id?: string
+          item_conditions?: string[] | null
+          keywords?: string | null
+          last_digest_at?: string | null
+          listing_types?: Database["public"]["Enums"]["listing_type"][] | null
+          max_price?: number | null
+          min_price?: number | null
+          name?: string
+          profile_id?: string
+          university_id?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "marketplace_saved_searches_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "marketplace_saved_searches_university_id_fkey"
+            columns: ["university_id"]
+            isOneToOne: false
+            referencedRelation: "universities"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       notifications: {
         Row: {
           action_url: string | null
@@ -1881,8 +2141,10 @@ export type Database = {
           complexity_hard_multiplier: number | null
           complexity_medium_multiplier: number | null
           created_at: string | null
+          gst_percentage: number
           id: string
           is_active: boolean | null
+          minimum_price: number
           platform_percentage: number | null
           service_type: Database["public"]["Enums"]["service_type"]
           subject_id: string | null
@@ -1900,8 +2162,10 @@ export type Database = {
           complexity_hard_multiplier?: number | null
           complexity_medium_multiplier?: number | null
           created_at?: string | null
+          gst_percentage?: number
           id?: string
           is_active?: boolean | null
+          minimum_price?: number
           platform_percentage?: number | null
           service_type: Database["public"]["Enums"]["service_type"]
           subject_id?: string | null
@@ -1919,8 +2183,10 @@ export type Database = {
           complexity_hard_multiplier?: number | null
           complexity_medium_multiplier?: number | null
           created_at?: string | null
+          gst_percentage?: number
           id?: string
           is_active?: boolean | null
+          minimum_price?: number
           platform_percentage?: number | null
           service_type?: Database["public"]["Enums"]["service_type"]
           subject_id?: string | null
@@ -2146,6 +2412,9 @@ export type Database = {
           file_url: string
           id: string
           is_final: boolean | null
+          preview_generated_at: string | null
+          preview_status: string
+          preview_url: string | null
           project_id: string
           qc_at: string | null
           qc_by: string | null
@@ -2162,6 +2431,9 @@ export type Database = {
           file_url: string
           id?: string
           is_final?: boolean | null
+          preview_generated_at?: string | null
+          preview_status?: string
+          preview_url?: string | null
           project_id: string
           qc_at?: string | null
           qc_by?: string | null
@@ -2178,6 +2450,9 @@ export type Database = {
           file_url?: string
           id?: string
           is_final?: boolean | null
+          preview_generated_at?: string | null
+          preview_status?: string
+          preview_url?: string | null
           project_id?: string
           qc_at?: string | null
           qc_by?: string | null
@@ -3975,6 +4250,18 @@ export type Database = {
         Args: { days_to_keep?: number }
         Returns: number
       }
+      calculate_project_price: {
+        Args: {
+          p_client_total?: number | null
+          p_complexity?: string
+          p_deadline?: string | null
+          p_page_count?: number | null
+          p_service_type: Database["public"]["Enums"]["service_type"]
+          p_subject?: string | null
+          p_word_count?: number | null
+        }
+        Returns: Json
+      }
       cleanup_archived_logs: {
         Args: { days_to_keep?: number }
         Returns: {
@@ -4011,6 +4298,7 @@ export type Database = {
         | "draft"
         | "pending_review"
         | "active"
+        | "reserved"
         | "sold"
         | "rented"
         | "expired"
@@ -4243,6 +4531,7 @@ export const Constants = {
         "draft",
         "pending_review",
         "active",
+        "reserved",
         "sold",
         "rented",
         "expired",
@@ -64,6 +64,10 @@ export interface AvailabilitySlot {
   date: Date;
   startTime: string;
   endTime: string;
+  /** Slot length in minutes */
+  duration?: number;
+  /** Price of the slot at the expert's hourly rate */
+  price?: number;
   isBooked: boolean;
 }
 
@@ -81,7 +85,10 @@ export interface ConsultationBooking {
   topic?: string;
   notes?: string;
   status: SessionStatus;
+  /** Video room for the session, once it is paid */
   meetLink?: string;
+  /** Downloadable .ics invite for upcoming sessions */
+  calendarInviteUrl?: string;
   totalAmount: number;
   expertAmount: number;
   platformFee: number;
@@ -90,6 +97,8 @@ export interface ConsultationBooking {
   paymentStatus: "pending" | "completed" | "refunded" | "failed";
   createdAt: Date;
   updatedAt: Date;
+  /** Expert summary, when loaded with the booking */
+  expert?: Expert;
 }
 
 /**
@@ -131,6 +140,9 @@ export interface TimeSlot {
   time: string;
   displayTime: string;
   available: boolean;
+  /** Session length in minutes */
+  duration?: number;
+  price?: number;
 }
 
 /**
@@ -31,6 +31,7 @@ export type ListingStatus =
   | "draft"
   | "pending_review"
   | "active"
+  | "reserved"
   | "sold"
   | "rented"
   | "expired"
@@ -133,6 +134,10 @@ export interface DBMarketplaceListing {
   created_at: string | null;
   updated_at: string | null;
 
+  // Sale fields (set when an offer is accepted)
+  reserved_for: string | null;
+  accepted_offer_id: string | null;
+
   // Review fields
   reviewed_by: string | null;
   reviewed_at: string | null;
@@ -207,6 +212,9 @@ export interface MarketplaceListing {
   isLiked?: boolean;
   comments: number;
   views: number;
+  status?: ListingStatus;
+  /** Buyer the listing is reserved for after an accepted offer */
+  reservedFor?: string | null;
 }
 
 /**
@@ -277,6 +285,7 @@ export interface MarketplaceFilters {
   category: MarketplaceCategory;
   priceRange?: [number, number];
   condition?: ProductCondition[];
+  housingTypes?: HousingType[];
   distance?: number; // km
   sortBy?: "recent" | "price_low" | "price_high" | "popular";
   universityOnly?: boolean;
@@ -291,6 +300,102 @@ export type AnyListing =
   | OpportunityListing
   | CommunityPost;
 
+// =============================================================================
+// INQUIRY & OFFER TYPES
+// =============================================================================
+
+/**
+ * Inquiry thread status
+ */
+export type InquiryStatus = "open" | "offer_accepted" | "closed";
+
+/**
+ * Offer status. A counter offer marks the offer it answers as "countered".
+ */
+export type OfferStatus = "pending" | "accepted" | "declined" | "countered" | "withdrawn";
+
+/**
+ * Price offer on an inquiry (from the buyer or a counter from the seller)
+ */
+export interface ListingOffer {
+  id: string;
+  inquiryId: string;
+  listingId: string;
+  offeredBy: string;
+  amount: number;
+  message: string | null;
+  status: OfferStatus;
+  parentOfferId: string | null;
+  respondedAt: string | null;
+  createdAt: string;
+}
+
+/**
+ * Conversation between a buyer and the seller about one listing
+ */
+export interface ListingInquiry {
+  id: string;
+  listingId: string;
+  buyerId: string;
+  buyerName: string;
+  buyerAvatar: string | null;
+  sellerId: string;
+  chatRoomId: string;
+  status: InquiryStatus;
+  lastMessageAt: string;
+  lastMessage: string | null;
+  /** Most recent offer, whatever its status */
+  latestOffer: ListingOffer | null;
+  createdAt: string;
+}
+
+/**
+ * Seller inbox entry: a listing and the threads about it, newest first
+ */
+export interface InquiryInboxGroup {
+  listingId: string;
+  listingTitle: string;
+  listingPrice: number | null;
+  listingStatus: ListingStatus;
+  inquiries: ListingInquiry[];
+}
+
+// =============================================================================
+// SAVED SEARCH TYPES
+// =============================================================================
+
+/**
+ * How a saved search alerts about new matches
+ */
+export type SavedSearchAlertMode = "instant" | "daily" | "off";
+
+/**
+ * Filter set of a saved search; omitted fields match anything
+ */
+export interface SavedSearchFilters {
+  listingTypes?: DBListingType[];
+  housingTypes?: HousingType[];
+  conditions?: ItemCondition[];
+  minPrice?: number;
+  maxPrice?: number;
+  /** Only listings from the user's own college */
+  universityOnly?: boolean;
+  keywords?: string;
+}
+
+/**
+ * Saved marketplace search (UI representation)
+ */
+export interface SavedSearch {
+  id: string;
+  name: string;
+  filters: SavedSearchFilters;
+  alertMode: SavedSearchAlertMode;
+  /** New listings matched in the last 7 days */
+  recentMatches: number;
+  createdAt: string;
+}
+
 // =============================================================================
 // MAPPING UTILITIES
 // =============================================================================
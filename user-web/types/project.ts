@@ -317,6 +317,8 @@ export interface Deliverable {
   uploadedAt: string;
   isFinal: boolean;
   url?: string;
+  /** QC state; students only see approved versions */
+  qcStatus?: string | null;
 }
 
 /**
@@ -355,4 +357,5 @@ export interface ProjectDetail extends Project {
   unreadMessages?: number;
   paidAt?: string;
   paid_at?: string | null;
+  isPaid?: boolean;
 }
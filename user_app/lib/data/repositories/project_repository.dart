@@ -168,18 +168,26 @@ class ProjectRepository {
   }
 
   /// Updates project status.
+  ///
+  /// Goes through the `transition_project_status` RPC, which checks the move
+  /// and records it in the status history; the database refuses direct
+  /// status writes. Throws a [PostgrestException] whose message can be shown
+  /// as is when the move isn't allowed.
   Future<Project> updateProjectStatus(
     String projectId,
-    ProjectStatus status,
-  ) async {
+    ProjectStatus status, {
+    String? reason,
+  }) async {
+    await _supabase.rpc('transition_project_status', params: {
+      'p_project_id': projectId,
+      'p_to_status': status.toDbString(),
+      'p_reason': reason,
+    });
+
     final response = await _supabase
         .from('projects')
-        .update({
-          'status': status.toDbString(),
-          'status_updated_at': DateTime.now().toIso8601String(),
-        })
-        .eq('id', projectId)
         .select('*, subjects(name)')
+        .eq('id', projectId)
         .single();
 
     return Project.fromJson(response);
@@ -192,18 +200,16 @@ class ProjectRepository {
 
   /// Requests changes for a project.
   Future<Project> requestChanges(String projectId, String feedback) async {
-    final response = await _supabase
+    await _supabase
         .from('projects')
-        .update({
-          'status': ProjectStatus.revisionRequested.toDbString(),
-          'user_feedback': feedback,
-          'status_updated_at': DateTime.now().toIso8601String(),
-        })
-        .eq('id', projectId)
-        .select('*, subjects(name)')
-        .single();
+        .update({'user_feedback': feedback})
+        .eq('id', projectId);
 
-    return Project.fromJson(response);
+    return updateProjectStatus(
+      projectId,
+      ProjectStatus.revisionRequested,
+      reason: feedback,
+    );
   }
 
   /// Updates the grade received by user for a completed project.
@@ -221,22 +227,13 @@ class ProjectRepository {
   }
 
   /// Records payment for a project.
+  ///
+  /// The server marks the project paid when it verifies the payment
+  /// (`/api/payments/verify`), so this only reloads the project.
   Future<Project> recordPayment(String projectId, String paymentId) async {
-    final now = DateTime.now();
-    final response = await _supabase
-        .from('projects')
-        .update({
-          'status': ProjectStatus.paid.toDbString(),
-          'payment_id': paymentId,
-          'is_paid': true,
-          'paid_at': now.toIso8601String(),
-          'status_updated_at': now.toIso8601String(),
-        })
-        .eq('id', projectId)
-        .select('*, subjects(name)')
-        .single();
-
-    return Project.fromJson(response);
+    final project = await getProject(projectId);
+    if (project == null) throw Exception('Project not found');
+    return project;
   }
 
   /// Gets the project timeline events.